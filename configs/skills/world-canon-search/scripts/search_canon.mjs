@@ -0,0 +1,171 @@
+import fs from "node:fs";
+import process from "node:process";
+
+// Query side of src/world/search-index.ts; keep tokenization and scoring in sync.
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+const SNIPPET_MAX_CHARS = 160;
+const TOKEN_PATTERN =
+  /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]+|[\p{L}\p{N}]+/gu;
+const CJK_RUN =
+  /^[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/u;
+
+const args = process.argv.slice(2);
+
+function usage(exitCode = 2) {
+  process.stderr.write(
+    [
+      "Usage:",
+      '  bun search_canon.mjs "<query>" [--limit N] [--index world/search-index.json] [--json]',
+      "",
+      "Output: ranked canon passages (location line + quoted snippet).",
+      "",
+    ].join("\n"),
+  );
+  process.exit(exitCode);
+}
+
+function tokenize(text) {
+  const tokens = [];
+  for (const match of text
+    .normalize("NFKC")
+    .toLowerCase()
+    .matchAll(TOKEN_PATTERN)) {
+    const run = match[0];
+    if (!CJK_RUN.test(run)) {
+      tokens.push(run);
+      continue;
+    }
+    const chars = Array.from(run);
+    if (chars.length === 1) {
+      tokens.push(run);
+      continue;
+    }
+    for (let i = 0; i < chars.length - 1; i += 1) {
+      tokens.push(`${chars[i]}${chars[i + 1]}`);
+    }
+  }
+  return tokens;
+}
+
+function buildSnippet(text, query, tokens) {
+  // The heading is shown separately; keep it only if the section is bare.
+  const body = text.replace(/^#{1,6}\s+[^\n]*\n?/, "").trim() || text;
+  const flat = body.replace(/\s+/g, " ").trim();
+  const lowered = flat.normalize("NFKC").toLowerCase();
+  let position = lowered.indexOf(query.normalize("NFKC").toLowerCase().trim());
+  if (position < 0) {
+    const positions = tokens
+      .map((token) => lowered.indexOf(token))
+      .filter((value) => value >= 0);
+    position = positions.length > 0 ? Math.min(...positions) : 0;
+  }
+  const start = Math.max(0, position - Math.floor(SNIPPET_MAX_CHARS / 3));
+  const end = Math.min(flat.length, start + SNIPPET_MAX_CHARS);
+  return `${start > 0 ? "…" : ""}${flat.slice(start, end)}${end < flat.length ? "…" : ""}`;
+}
+
+function search(index, query, limit) {
+  const queryTokens = Array.from(new Set(tokenize(query)));
+  const entries = Object.entries(index.docs ?? {}).flatMap(([file, chunks]) =>
+    (Array.isArray(chunks) ? chunks : []).map((chunk) => ({ file, chunk })),
+  );
+  if (queryTokens.length === 0 || entries.length === 0) {
+    return [];
+  }
+  const totalLength = entries.reduce(
+    (sum, entry) => sum + entry.chunk.length,
+    0,
+  );
+  const averageLength = totalLength / entries.length || 1;
+  const idf = new Map();
+  for (const token of queryTokens) {
+    const df = entries.filter((entry) => entry.chunk.terms[token]).length;
+    idf.set(token, Math.log(1 + (entries.length - df + 0.5) / (df + 0.5)));
+  }
+  const scored = [];
+  for (const { file, chunk } of entries) {
+    let score = 0;
+    for (const token of queryTokens) {
+      const tf = chunk.terms[token] ?? 0;
+      if (tf === 0) continue;
+      const norm = 1 - BM25_B + (BM25_B * chunk.length) / averageLength;
+      score += (idf.get(token) * (tf * (BM25_K1 + 1))) / (tf + BM25_K1 * norm);
+    }
+    if (score <= 0) continue;
+    scored.push({
+      file,
+      heading: chunk.heading,
+      anchor: chunk.slug ? `${file}#${chunk.slug}` : file,
+      score: Math.round(score * 1000) / 1000,
+      snippet: buildSnippet(chunk.text, query, queryTokens),
+    });
+  }
+  return scored
+    .map((hit, order) => ({ hit, order }))
+    .sort((a, b) => b.hit.score - a.hit.score || a.order - b.order)
+    .slice(0, limit)
+    .map(({ hit }) => hit);
+}
+
+let query = "";
+let limit = 5;
+let indexPath = "world/search-index.json";
+let asJson = false;
+
+for (let i = 0; i < args.length; i += 1) {
+  const arg = args[i];
+  if (arg === "--limit") {
+    limit = Number(args[i + 1]);
+    if (!Number.isInteger(limit) || limit < 1) usage();
+    i += 1;
+    continue;
+  }
+  if (arg === "--index") {
+    indexPath = args[i + 1] ?? "";
+    i += 1;
+    continue;
+  }
+  if (arg === "--json") {
+    asJson = true;
+    continue;
+  }
+  if (arg === "-h" || arg === "--help") {
+    usage(0);
+  }
+  if (arg.startsWith("--")) {
+    usage();
+  }
+  query = query ? `${query} ${arg}` : arg;
+}
+
+query = query.trim();
+if (!query || !indexPath) {
+  usage();
+}
+
+let index;
+try {
+  index = JSON.parse(fs.readFileSync(indexPath, "utf8"));
+} catch {
+  process.stdout.write("FAIL index_unavailable\n");
+  process.exit(1);
+}
+if (index?.version !== 1) {
+  process.stdout.write("FAIL index_unsupported\n");
+  process.exit(1);
+}
+
+const hits = search(index, query, limit);
+if (asJson) {
+  process.stdout.write(`${JSON.stringify(hits)}\n`);
+} else if (hits.length === 0) {
+  process.stdout.write("NO_RESULTS\n");
+} else {
+  for (const [i, hit] of hits.entries()) {
+    const location = hit.heading ? `${hit.file} › ${hit.heading}` : hit.file;
+    process.stdout.write(`${i + 1}. ${location} (score ${hit.score})\n`);
+    process.stdout.write(`   > ${hit.snippet}\n`);
+  }
+}
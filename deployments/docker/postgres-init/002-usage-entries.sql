@@ -0,0 +1,29 @@
+-- Schema for opencode-bot-agent token usage accounting.
+-- This runs only on first init of the Postgres data directory when using docker-compose.
+
+CREATE TABLE IF NOT EXISTS usage_entries (
+  id BIGSERIAL PRIMARY KEY,
+  bot_account_id TEXT NOT NULL,
+  user_id TEXT NOT NULL,
+  group_id TEXT NOT NULL,
+  session_id TEXT NOT NULL,
+  world_id INTEGER,
+  provider_id TEXT,
+  model_id TEXT NOT NULL,
+  input_tokens BIGINT NOT NULL DEFAULT 0,
+  output_tokens BIGINT NOT NULL DEFAULT 0,
+  reasoning_tokens BIGINT NOT NULL DEFAULT 0,
+  cache_read_tokens BIGINT NOT NULL DEFAULT 0,
+  cache_write_tokens BIGINT NOT NULL DEFAULT 0,
+  cost DOUBLE PRECISION NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS usage_entries_created_idx
+  ON usage_entries (created_at);
+
+CREATE INDEX IF NOT EXISTS usage_entries_group_created_idx
+  ON usage_entries (group_id, created_at);
+
+CREATE INDEX IF NOT EXISTS usage_entries_world_created_idx
+  ON usage_entries (world_id, created_at);
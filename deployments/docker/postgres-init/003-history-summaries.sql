@@ -0,0 +1,7 @@
+-- Index for rolling history summaries (opencode-bot-agent history store).
+-- Summaries are stored in history_entries with meta.context = 'summary'.
+-- Group summaries use user_id '0'; dm summaries keep the user id.
+
+CREATE INDEX IF NOT EXISTS history_entries_summary_lookup_idx
+  ON history_entries (bot_account_id, group_id, user_id, id)
+  WHERE meta->>'context' = 'summary';
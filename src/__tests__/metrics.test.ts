@@ -0,0 +1,141 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import pino from "pino";
+
+import { handleHttpRequest } from "../http/server";
+import {
+  incrementCounter,
+  registerCountsGauge,
+  registerGaugeCollector,
+  renderPrometheusMetrics,
+  resetMetrics,
+} from "../metrics";
+import { createTraceId, withTelemetrySpan } from "../telemetry";
+
+const logger = pino({ level: "silent" });
+
+function sampleLines(text: string, name: string): string[] {
+  return text
+    .split("\n")
+    .filter((line) => line.startsWith(`opencode_bot_${name}`));
+}
+
+describe("metrics", () => {
+  beforeEach(() => {
+    resetMetrics();
+  });
+
+  test("derives counters and histograms from telemetry steps", async () => {
+    const traceId = createTraceId();
+    const message = { platform: "Discord" };
+    await withTelemetrySpan(
+      logger,
+      { traceId, phase: "adapter", step: "dispatch", component: "t", message },
+      async () => undefined,
+    );
+    await withTelemetrySpan(
+      logger,
+      {
+        traceId,
+        phase: "adapter",
+        step: "queue_enqueue",
+        component: "t",
+        attrs: { traceStartedAt: 1_000, enqueuedAt: 1_200 },
+      },
+      async () => undefined,
+    );
+    await withTelemetrySpan(
+      logger,
+      {
+        traceId,
+        phase: "worker",
+        step: "opencode_run",
+        component: "t",
+        attrs: { modelProvider: "openai", modelId: "gpt-5" },
+      },
+      async () => "done",
+    );
+    await expect(
+      withTelemetrySpan(
+        logger,
+        {
+          traceId,
+          phase: "worker",
+          step: "send_response",
+          component: "t",
+          message,
+        },
+        async () => {
+          throw new Error("send failed");
+        },
+      ),
+    ).rejects.toThrow("send failed");
+
+    const text = await renderPrometheusMetrics();
+    expect(sampleLines(text, "messages_received_total")).toEqual([
+      'opencode_bot_messages_received_total{platform="discord"} 1',
+    ]);
+    expect(text).toContain(
+      'opencode_bot_enqueue_latency_seconds_bucket{le="0.25"} 1',
+    );
+    expect(text).toContain("opencode_bot_enqueue_latency_seconds_sum 0.2");
+    expect(text).toContain(
+      'opencode_bot_opencode_run_duration_seconds_count{model="openai/gpt-5",outcome="ok"} 1',
+    );
+    expect(sampleLines(text, "send_failures_total")).toEqual([
+      'opencode_bot_send_failures_total{platform="discord"} 1',
+    ]);
+    expect(text).toContain(
+      'opencode_bot_telemetry_step_duration_seconds_count{phase="worker",step="send_response",outcome="error"} 1',
+    );
+  });
+
+  test("renders counters, unlabeled defaults and gauges", async () => {
+    incrementCounter("dispatch_plans_total", { kind: "enqueue" });
+    incrementCounter("dispatch_plans_total", { kind: "enqueue" });
+    incrementCounter("dispatch_plans_total", { kind: 'a"b' });
+    registerCountsGauge("queue_jobs", "state", async () => ({
+      waiting: 3,
+      active: 1,
+    }));
+    registerGaugeCollector("qq_connections", () => {
+      throw new Error("pool gone");
+    });
+
+    const text = await renderPrometheusMetrics(logger);
+    expect(text).toContain("# TYPE opencode_bot_dispatch_plans_total counter");
+    expect(sampleLines(text, "dispatch_plans_total")).toEqual([
+      'opencode_bot_dispatch_plans_total{kind="enqueue"} 2',
+      'opencode_bot_dispatch_plans_total{kind="a\\"b"} 1',
+    ]);
+    expect(sampleLines(text, "buffer_recoveries_total")).toEqual([
+      "opencode_bot_buffer_recoveries_total 0",
+    ]);
+    expect(sampleLines(text, "queue_jobs")).toEqual([
+      'opencode_bot_queue_jobs{state="waiting"} 3',
+      'opencode_bot_queue_jobs{state="active"} 1',
+    ]);
+    expect(sampleLines(text, "qq_connections")).toEqual([]);
+    expect(text.endsWith("\n")).toBe(true);
+  });
+
+  test("is served on /metrics without auth", async () => {
+    incrementCounter("buffer_recoveries_total", {}, 2);
+    const response = await handleHttpRequest(
+      new Request("http://test/metrics"),
+      {
+        logger,
+        startedAt: 0,
+        version: "test",
+        apiToken: "secret-token",
+        dataRoot: "/data",
+      },
+    );
+    expect(response.status).toBe(200);
+    expect(response.headers.get("content-type")).toBe(
+      "text/plain; version=0.0.4",
+    );
+    expect(await response.text()).toContain(
+      "opencode_bot_buffer_recoveries_total 2",
+    );
+  });
+});
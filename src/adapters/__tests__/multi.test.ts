@@ -11,6 +11,7 @@ import type {
 
 class FakeAdapter implements PlatformAdapter {
   readonly platform: string;
+  sendDraft?: PlatformAdapter["sendDraft"];
 
   constructor(platform: string) {
     this.platform = platform;
@@ -100,4 +101,39 @@ describe("MultiAdapter", () => {
 
     expect(sent).toBe(false);
   });
+
+  test("only opens drafts on platforms whose bot can edit messages", async () => {
+    const discord = new FakeAdapter("discord");
+    const qq = new FakeAdapter("qq");
+    const drafts: string[] = [];
+    for (const platformAdapter of [discord, qq]) {
+      platformAdapter.sendDraft = async (session, content) => {
+        drafts.push(`${session.platform}:${content}`);
+        return { channelId: session.channelId, messageId: "draft" };
+      };
+    }
+    discord.connect = async (bot: Bot) => {
+      bot.capabilities.canEditMessage = true;
+    };
+
+    const adapter = new MultiAdapter({ adapters: [discord, qq] });
+    await adapter.connect({
+      platform: "multi",
+      selfId: "",
+      status: "disconnected",
+      capabilities: {
+        canEditMessage: false,
+        canDeleteMessage: false,
+        canSendRichContent: false,
+      },
+      adapter,
+    });
+
+    expect(await adapter.sendDraft(buildSession("discord"), "...")).toEqual({
+      channelId: "channel",
+      messageId: "draft",
+    });
+    expect(await adapter.sendDraft(buildSession("qq"), "...")).toBeNull();
+    expect(drafts).toEqual(["discord:..."]);
+  });
 });
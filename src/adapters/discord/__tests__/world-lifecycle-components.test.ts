@@ -0,0 +1,85 @@
+import { describe, expect, test } from "bun:test";
+import { PermissionFlagsBits } from "discord.js";
+
+import {
+  buildArchivedWorldOverwrites,
+  buildWorldBaseOverwrites,
+} from "../permission-overwrites";
+import {
+  buildWorldLifecycleCustomId,
+  parseWorldLifecycleCustomId,
+} from "../world-lifecycle-components";
+
+const requester = "100000000000000001";
+const target = "100000000000000002";
+
+describe("world lifecycle components", () => {
+  test("custom ids round-trip and reject foreign or malformed ids", () => {
+    const archive = buildWorldLifecycleCustomId(
+      { worldId: 4, action: "archive", requesterUserId: requester },
+      "confirm",
+    );
+    expect(archive).toBe(`wlc:4:archive:confirm:${requester}:`);
+    expect(parseWorldLifecycleCustomId(archive)).toEqual({
+      worldId: 4,
+      action: "archive",
+      decision: "confirm",
+      requesterUserId: requester,
+    });
+
+    const transfer = buildWorldLifecycleCustomId(
+      {
+        worldId: 4,
+        action: "transfer",
+        requesterUserId: requester,
+        targetUserId: target,
+      },
+      "cancel",
+    );
+    expect(parseWorldLifecycleCustomId(transfer)).toEqual({
+      worldId: 4,
+      action: "transfer",
+      decision: "cancel",
+      requesterUserId: requester,
+      targetUserId: target,
+    });
+
+    expect(
+      parseWorldLifecycleCustomId(`wlc:4:transfer:confirm:${requester}:`),
+    ).toBeNull();
+    expect(
+      parseWorldLifecycleCustomId(`wlc:4:remove:confirm:${requester}:`),
+    ).toBeNull();
+    expect(parseWorldLifecycleCustomId("wsub:3:12:up")).toBeNull();
+  });
+
+  test("archived overwrites keep channels readable but deny writing", () => {
+    const input = {
+      everyoneRoleId: "e",
+      worldRoleId: "w",
+      creatorUserId: "c",
+      botUserId: "b",
+      staff: [{ userId: "s", role: "editor" as const }],
+    };
+    const base = buildWorldBaseOverwrites(input);
+    const archived = buildArchivedWorldOverwrites(input);
+    const send = PermissionFlagsBits.SendMessages;
+    const connect = PermissionFlagsBits.Connect;
+    const view = PermissionFlagsBits.ViewChannel;
+
+    for (const entry of [...archived.roleplay, ...archived.voice]) {
+      if (entry.id === "b") {
+        continue;
+      }
+      expect(entry.allow ?? []).not.toContain(send);
+      expect(entry.allow ?? []).not.toContain(connect);
+      expect(entry.deny).toContain(send);
+    }
+    expect(
+      archived.roleplay.find((entry) => entry.id === "w")?.allow,
+    ).toContain(view);
+    expect(archived.info.find((entry) => entry.id === "b")).toEqual(
+      base.info.find((entry) => entry.id === "b"),
+    );
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, expect, test } from "bun:test";
+
+import { parseWorldSubmissionTally } from "../../../world/store-parsers";
+import {
+  buildWorldSubmissionButtons,
+  buildWorldSubmissionCustomId,
+  buildWorldSubmissionProposalContent,
+  parseWorldSubmissionCustomId,
+  shouldAutoApproveSubmission,
+} from "../world-submission-components";
+
+describe("world submission components", () => {
+  test("custom ids round-trip and reject foreign ids", () => {
+    const id = buildWorldSubmissionCustomId({
+      worldId: 3,
+      submissionId: 12,
+      action: "down",
+    });
+    expect(id).toBe("wsub:3:12:down");
+    expect(parseWorldSubmissionCustomId(id)).toEqual({
+      worldId: 3,
+      submissionId: 12,
+      action: "down",
+    });
+    expect(parseWorldSubmissionCustomId("wsub:3:12:delete")).toBeNull();
+    expect(parseWorldSubmissionCustomId("wsub:0:12:up")).toBeNull();
+    expect(
+      parseWorldSubmissionCustomId("onb:123456789012345678:menu"),
+    ).toBeNull();
+  });
+
+  test("auto-approves once net votes reach the world threshold", () => {
+    const tally = parseWorldSubmissionTally({
+      "1001": "1",
+      "1002": "1",
+      "1003": "1",
+      "1004": "-1",
+      "1005": "0",
+    });
+    expect(tally).toEqual({ up: 3, down: 1 });
+    expect(shouldAutoApproveSubmission(tally, 2)).toBe(true);
+    expect(shouldAutoApproveSubmission(tally, 3)).toBe(false);
+    expect(shouldAutoApproveSubmission(tally, undefined)).toBe(false);
+  });
+
+  test("decided proposals drop their buttons and show the outcome", () => {
+    const tally = { up: 2, down: 0 };
+    expect(
+      buildWorldSubmissionButtons({
+        worldId: 1,
+        submissionId: 5,
+        status: "pending",
+        tally,
+      }),
+    ).toHaveLength(1);
+    expect(
+      buildWorldSubmissionButtons({
+        worldId: 1,
+        submissionId: 5,
+        status: "rejected",
+        tally,
+      }),
+    ).toEqual([]);
+
+    const content = buildWorldSubmissionProposalContent({
+      worldId: 1,
+      worldName: "测试世界",
+      submissionId: 5,
+      kind: "canon",
+      title: "新城邦",
+      submitterUserId: "1001",
+      status: "rejected",
+      tally,
+      note: "驳回原因：与设定冲突",
+    });
+    expect(content).toContain("投票：👍 2 / 👎 0");
+    expect(content).toContain("状态：已驳回");
+    expect(content).toContain("驳回原因：与设定冲突");
+    expect(content).not.toContain("/world approve");
+  });
+});
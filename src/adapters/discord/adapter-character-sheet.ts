@@ -0,0 +1,204 @@
+import type { DiscordAdapter } from "./adapter";
+import type { UserLanguage } from "../../user/state-store";
+import {
+  applyCharacterSheetChanges,
+  formatCharacterSheet,
+  parseCharacterSheetCommand,
+  type CharacterSheetChange,
+} from "../../world/character-sheet";
+import {
+  buildWorldPermissionDeniedMessage,
+  canPerformWorldAction,
+} from "../../world/permissions";
+import { pickByLanguage } from "./adapter-internals";
+import { safeDefer, safeReply } from "./interaction-helpers";
+import type { ChatInputCommandInteraction } from "discord.js";
+
+type CharacterSheetCommand =
+  | { action: "view"; characterId?: number }
+  | { action: "set"; characterId?: number; field: string; value: string };
+
+export function installDiscordAdapterCharacterSheet(DiscordAdapterClass: {
+  prototype: DiscordAdapter;
+}): void {
+  (
+    DiscordAdapterClass.prototype as unknown as Record<string, unknown>
+  ).handleCharacterSheet = async function (
+    this: DiscordAdapter,
+    interaction: ChatInputCommandInteraction,
+    input: CharacterSheetCommand,
+  ): Promise<void> {
+    await safeDefer(interaction, { ephemeral: true });
+    const language = await this["userState"]
+      .getLanguage(interaction.user.id)
+      .catch(() => null);
+
+    const inferredWorldId = interaction.channelId
+      ? await this["worldStore"].getWorldIdByChannel(interaction.channelId)
+      : null;
+    const worldId =
+      inferredWorldId ??
+      (await this["inferWorldIdFromWorldSubspace"](interaction).catch(
+        () => null,
+      ));
+    const worldMeta = worldId
+      ? await this["worldStore"].getWorld(worldId)
+      : null;
+    if (!worldMeta) {
+      await safeReply(
+        interaction,
+        pickByLanguage(
+          language,
+          "请在世界频道内执行角色卡指令（角色卡按世界分别记录）。",
+          "Run character sheet commands inside the world channels (sheets are kept per world).",
+        ),
+        { ephemeral: true },
+      );
+      return;
+    }
+
+    const characterId =
+      input.characterId ??
+      (await this["worldStore"].getActiveCharacterId({
+        worldId: worldMeta.id,
+        userId: interaction.user.id,
+      }));
+    if (!characterId) {
+      await safeReply(
+        interaction,
+        pickByLanguage(
+          language,
+          "你在本世界还没有当前角色：先用 /character act 选择角色。",
+          "You have no active character in this world: pick one with /character act.",
+        ),
+        { ephemeral: true },
+      );
+      return;
+    }
+    const meta = await this["worldStore"].getCharacter(characterId);
+    if (!meta) {
+      await safeReply(
+        interaction,
+        pickByLanguage(
+          language,
+          `角色不存在：C${characterId}`,
+          `Character not found: C${characterId}`,
+        ),
+        { ephemeral: true },
+      );
+      return;
+    }
+    // Players manage their own sheets; staff may adjust anyone's as GM.
+    if (
+      meta.creatorId !== interaction.user.id &&
+      !(await canPerformWorldAction(
+        this["worldStore"],
+        worldMeta,
+        interaction.user.id,
+        "manage_sheets",
+      ))
+    ) {
+      await safeReply(
+        interaction,
+        buildWorldPermissionDeniedMessage("manage_sheets", language),
+        { ephemeral: true },
+      );
+      return;
+    }
+
+    const heading = `W${worldMeta.id} ${worldMeta.name} · C${meta.id} ${meta.name}`;
+    if (input.action === "view") {
+      const loaded = await this["worldFiles"].readCharacterSheet(
+        worldMeta.id,
+        meta.id,
+      );
+      await safeReply(
+        interaction,
+        loaded
+          ? `${heading}\n${formatCharacterSheet(loaded.schema, loaded.sheet, language)}`
+          : buildNoSchemaMessage(worldMeta.id, language),
+        { ephemeral: true },
+      );
+      return;
+    }
+
+    let change: CharacterSheetChange;
+    try {
+      change = parseCharacterSheetCommand(input.field, input.value);
+    } catch (err) {
+      await safeReply(
+        interaction,
+        pickByLanguage(
+          language,
+          `无法解析：${err instanceof Error ? err.message : String(err)}`,
+          `Cannot parse: ${err instanceof Error ? err.message : String(err)}`,
+        ),
+        { ephemeral: true },
+      );
+      return;
+    }
+    const updated = await this["worldFiles"].updateCharacterSheet(
+      worldMeta.id,
+      meta.id,
+      (sheet, schema) => ({
+        result: applyCharacterSheetChanges(schema, sheet, [change]),
+        formatted: formatCharacterSheet(schema, sheet, language),
+      }),
+    );
+    if (!updated) {
+      await safeReply(
+        interaction,
+        buildNoSchemaMessage(worldMeta.id, language),
+        {
+          ephemeral: true,
+        },
+      );
+      return;
+    }
+    if (updated.result.applied.length === 0) {
+      await safeReply(
+        interaction,
+        pickByLanguage(
+          language,
+          `未修改：${updated.result.errors.join("; ")}`,
+          `Nothing changed: ${updated.result.errors.join("; ")}`,
+        ),
+        { ephemeral: true },
+      );
+      return;
+    }
+
+    await this["worldFiles"].appendEvent(worldMeta.id, {
+      type: "character_sheet_updated",
+      worldId: worldMeta.id,
+      characterId: meta.id,
+      userId: interaction.user.id,
+      source: "command",
+      changes: updated.result.applied,
+    });
+    await safeReply(
+      interaction,
+      [
+        pickByLanguage(
+          language,
+          `已更新：${updated.result.applied.join("，")}`,
+          `Updated: ${updated.result.applied.join(", ")}`,
+        ),
+        heading,
+        updated.formatted,
+      ].join("\n"),
+      { ephemeral: true },
+    );
+  };
+}
+
+function buildNoSchemaMessage(
+  worldId: number,
+  language: UserLanguage | null,
+): string {
+  return pickByLanguage(
+    language,
+    `W${worldId} 还没有定义角色卡格式：世界创作者或编辑可用 /world import kind:sheet_schema 上传 JSON 定义。`,
+    `W${worldId} has no character sheet schema yet: the world owner or an editor can upload a JSON definition with /world import kind:sheet_schema.`,
+  );
+}
@@ -929,6 +929,7 @@ export function installDiscordAdapterCharacterSubspace(DiscordAdapterClass: {
       guild: NonNullable<ChatInputCommandInteraction["guild"]>;
       name: string;
       creatorUserId: string;
+      collaboratorUserIds?: string[];
       reason: string;
     },
   ): Promise<{ id: string }> {
@@ -949,6 +950,7 @@ export function installDiscordAdapterCharacterSubspace(DiscordAdapterClass: {
             everyoneRoleId: input.guild.roles.everyone.id,
             creatorUserId: input.creatorUserId,
             botUserId,
+            collaboratorUserIds: input.collaboratorUserIds,
           });
           const setter = (
             existing as unknown as {
@@ -986,6 +988,7 @@ export function installDiscordAdapterCharacterSubspace(DiscordAdapterClass: {
       everyoneRoleId: input.guild.roles.everyone.id,
       creatorUserId: input.creatorUserId,
       botUserId,
+      collaboratorUserIds: input.collaboratorUserIds,
     });
     const channel = await input.guild.channels.create({
       name: channelName,
@@ -1511,6 +1514,7 @@ export function installDiscordAdapterCharacterSubspace(DiscordAdapterClass: {
       worldRoleId: role.id,
       creatorUserId: input.creatorUserId,
       botUserId: botId,
+      staff: await this["worldStore"].listWorldStaff(input.worldId),
     });
 
     const infoChannel = await input.guild.channels.create({
@@ -27,6 +27,8 @@ import {
   OnboardingComponentAction,
   parseOnboardingCustomId,
 } from "./onboarding-custom-id";
+import { parseWorldSubmissionCustomId } from "./world-submission-components";
+import { parseWorldLifecycleCustomId } from "./world-lifecycle-components";
 import {
   ActionRowBuilder,
   APIEmbed,
@@ -181,6 +183,13 @@ export function installDiscordAdapterInteractionOnboarding(DiscordAdapterClass:
       await this["handleStringSelectMenuInteraction"](interaction);
       return;
     }
+    if (interaction.isModalSubmit()) {
+      const submission = parseWorldSubmissionCustomId(interaction.customId);
+      if (submission) {
+        await this["handleWorldSubmissionModal"](interaction, submission);
+      }
+      return;
+    }
     if (!interaction.isChatInputCommand()) {
       return;
     }
@@ -241,7 +250,11 @@ export function installDiscordAdapterInteractionOnboarding(DiscordAdapterClass:
       });
       return;
     }
-    if (commandName === "reset") {
+    if (commandName === "quest") {
+      await this["handleQuestCommand"](interaction);
+      return;
+    }
+    if (commandName === "reset" || commandName === "stop") {
       const channelId = interaction.channelId;
       if (!channelId) {
         await safeReply(interaction, "缺少 channelId，无法处理该指令。", {
@@ -259,9 +272,14 @@ export function installDiscordAdapterInteractionOnboarding(DiscordAdapterClass:
 
       const key = interaction.options.getInteger("key");
       const targetUser = interaction.options.getUser("user");
-      const content = key !== null ? `#${key} /reset` : "/reset";
+      const command = `/${commandName}`;
+      const content = key !== null ? `#${key} ${command}` : command;
 
-      await safeReply(interaction, "收到，正在重置对话…", { ephemeral: true });
+      await safeReply(
+        interaction,
+        commandName === "stop" ? "收到，正在停止回复…" : "收到，正在重置对话…",
+        { ephemeral: true },
+      );
       this["rememberPendingInteractionReply"](interaction);
 
       if (this["listenerCount"]("event") === 0) {
@@ -421,6 +439,16 @@ export function installDiscordAdapterInteractionOnboarding(DiscordAdapterClass:
     this: DiscordAdapter,
     interaction: ButtonInteraction,
   ): Promise<void> {
+    const submission = parseWorldSubmissionCustomId(interaction.customId);
+    if (submission) {
+      await this["handleWorldSubmissionButton"](interaction, submission);
+      return;
+    }
+    const lifecycle = parseWorldLifecycleCustomId(interaction.customId);
+    if (lifecycle) {
+      await this["handleWorldLifecycleButton"](interaction, lifecycle);
+      return;
+    }
     const parsed = parseOnboardingCustomId(interaction.customId);
     if (!parsed) {
       await safeDeferUpdate(interaction);
@@ -1221,7 +1249,7 @@ export function installDiscordAdapterInteractionOnboarding(DiscordAdapterClass:
             : null,
         requesterUserId: interaction.user.id,
         language,
-        requireCreator: true,
+        requiredAction: "edit",
       });
       if (!resolved.ok) {
         await safeComponentFollowUp(interaction, resolved.message, {
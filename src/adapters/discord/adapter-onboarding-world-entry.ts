@@ -8,6 +8,13 @@ import {
 import type { SessionEvent } from "../../types/platform";
 import type { UserLanguage } from "../../user/state-store";
 import { buildWorldBuildGroupId } from "../../world/ids";
+import { splitWorldLoreKeys } from "../../world/lorebook";
+import { splitWorldTimelineTags } from "../../world/timeline";
+import {
+  buildWorldPermissionDeniedMessage,
+  canPerformWorldAction,
+  canViewWorld,
+} from "../../world/permissions";
 import { listActiveWorldEntries } from "../../world/query";
 import {
   LocalizedError,
@@ -70,16 +77,19 @@ export function installDiscordAdapterOnboardingWorldEntry(DiscordAdapterClass: {
       });
       return;
     }
-    const allowed =
-      meta.status !== "draft" || meta.creatorId === input.requesterUserId;
+    const allowed = await canViewWorld(
+      this["worldStore"],
+      meta,
+      input.requesterUserId,
+    );
     if (!allowed) {
       await this["sendRichToChannel"]({
         guildId: input.guildId,
         channelId: input.channelId,
         content: pickByLanguage(
           input.language,
-          "无权限：只有世界创作者可以查看草稿。",
-          "Permission denied: only the world creator can view this draft.",
+          "无权限：只有世界创作者与世界工作人员可以查看草稿。",
+          "Permission denied: only the world owner and staff can view this draft.",
         ),
       });
       return;
@@ -553,13 +563,11 @@ export function installDiscordAdapterOnboardingWorldEntry(DiscordAdapterClass: {
       }
 
       let explicitCharacterId = input.explicitCharacterId;
-      if (
-        !(
-          explicitCharacterId &&
-          Number.isInteger(explicitCharacterId) &&
-          explicitCharacterId > 0
-        )
-      ) {
+      if (!(
+        explicitCharacterId &&
+        Number.isInteger(explicitCharacterId) &&
+        explicitCharacterId > 0
+      )) {
         explicitCharacterId = undefined;
       }
 
@@ -827,6 +835,7 @@ export function installDiscordAdapterOnboardingWorldEntry(DiscordAdapterClass: {
     if (
       commandName !== "reset" &&
       commandName !== "resetall" &&
+      commandName !== "stop" &&
       commandName !== "model"
     ) {
       return null;
@@ -877,6 +886,196 @@ export function installDiscordAdapterOnboardingWorldEntry(DiscordAdapterClass: {
     flags: { isGuildOwner: boolean; isGuildAdmin: boolean },
   ): Promise<void> {
     const subcommand = interaction.options.getSubcommand();
+    if (interaction.options.getSubcommandGroup(false) === "staff") {
+      const worldId =
+        interaction.options.getInteger("world_id") ??
+        (await this["inferWorldIdFromWorldSubspace"](interaction).catch(
+          () => null,
+        ));
+      if (!worldId) {
+        await safeReply(
+          interaction,
+          "缺少 world_id：请在世界子空间频道内执行，或显式提供 world_id。",
+          { ephemeral: true },
+        );
+        return;
+      }
+      if (subcommand === "list") {
+        await this["handleWorldStaff"](interaction, {
+          action: "list",
+          worldId,
+        });
+        return;
+      }
+      const user = interaction.options.getUser("user", true);
+      await this["handleWorldStaff"](interaction, {
+        action: subcommand === "add" ? "add" : "remove",
+        worldId,
+        userId: user.id,
+        role:
+          interaction.options.getString("role") === "moderator"
+            ? "moderator"
+            : "editor",
+      });
+      return;
+    }
+    if (interaction.options.getSubcommandGroup(false) === "lifecycle") {
+      if (subcommand === "remove") {
+        const worldId = interaction.options.getInteger("world_id", true);
+        await this["handleWorldRemove"](interaction, worldId, flags);
+        return;
+      }
+      const worldId =
+        interaction.options.getInteger("world_id") ??
+        (await this["inferWorldIdFromWorldSubspace"](interaction).catch(
+          () => null,
+        ));
+      if (!worldId) {
+        await safeReply(
+          interaction,
+          "缺少 world_id：请在世界子空间频道内执行，或显式提供 world_id。",
+          { ephemeral: true },
+        );
+        return;
+      }
+      await this["handleWorldLifecycle"](interaction, {
+        action:
+          subcommand === "transfer"
+            ? "transfer"
+            : subcommand === "unarchive"
+              ? "unarchive"
+              : "archive",
+        worldId,
+        targetUserId:
+          subcommand === "transfer"
+            ? interaction.options.getUser("user", true).id
+            : undefined,
+      });
+      return;
+    }
+    if (interaction.options.getSubcommandGroup(false) === "lore") {
+      const worldId =
+        interaction.options.getInteger("world_id") ??
+        (await this["inferWorldIdFromWorldSubspace"](interaction).catch(
+          () => null,
+        ));
+      if (!worldId) {
+        await safeReply(
+          interaction,
+          "缺少 world_id：请在世界子空间频道内执行，或显式提供 world_id。",
+          { ephemeral: true },
+        );
+        return;
+      }
+      if (subcommand === "list") {
+        await this["handleWorldLore"](interaction, { action: "list", worldId });
+        return;
+      }
+      if (subcommand === "import") {
+        await this["handleWorldLore"](interaction, {
+          action: "import",
+          worldId,
+          file: interaction.options.getAttachment("file", true),
+          replace: interaction.options.getBoolean("replace") ?? false,
+        });
+        return;
+      }
+      const entryId = interaction.options.getInteger("entry_id") ?? 0;
+      if (subcommand === "remove") {
+        await this["handleWorldLore"](interaction, {
+          action: "remove",
+          worldId,
+          entryId,
+        });
+        return;
+      }
+      const keys = interaction.options.getString("keys");
+      const regex = interaction.options.getString("regex")?.trim();
+      const fields = {
+        title: interaction.options.getString("title")?.trim() || undefined,
+        keys: keys === null ? undefined : splitWorldLoreKeys(keys),
+        content: interaction.options.getString("content")?.trim() || undefined,
+        priority: interaction.options.getInteger("priority") ?? undefined,
+        budgetBytes: interaction.options.getInteger("budget") ?? undefined,
+        regex: regex === "-" ? "" : regex || undefined,
+        enabled: interaction.options.getBoolean("enabled") ?? undefined,
+      };
+      if (subcommand === "add") {
+        await this["handleWorldLore"](interaction, {
+          action: "add",
+          worldId,
+          fields: {
+            ...fields,
+            title: fields.title ?? "",
+            keys: fields.keys ?? [],
+            content: fields.content ?? "",
+          },
+        });
+        return;
+      }
+      await this["handleWorldLore"](interaction, {
+        action: "edit",
+        worldId,
+        entryId,
+        fields,
+      });
+      return;
+    }
+    if (interaction.options.getSubcommandGroup(false) === "timeline") {
+      const worldId =
+        interaction.options.getInteger("world_id") ??
+        (await this["inferWorldIdFromWorldSubspace"](interaction).catch(
+          () => null,
+        ));
+      if (!worldId) {
+        await safeReply(
+          interaction,
+          "缺少 world_id：请在世界子空间频道内执行，或显式提供 world_id。",
+          { ephemeral: true },
+        );
+        return;
+      }
+      const text = (name: string) =>
+        interaction.options.getString(name)?.trim() || undefined;
+      if (subcommand === "list") {
+        await this["handleWorldTimeline"](interaction, {
+          action: "list",
+          worldId,
+          from: text("from"),
+          to: text("to"),
+          tag: text("tag"),
+          query: text("query"),
+          limit: interaction.options.getInteger("limit") ?? undefined,
+        });
+        return;
+      }
+      if (subcommand === "add") {
+        await this["handleWorldTimeline"](interaction, {
+          action: "add",
+          worldId,
+          title: interaction.options.getString("title", true).trim(),
+          date: text("date"),
+          content: text("content"),
+          tags: splitWorldTimelineTags(text("tags") ?? ""),
+        });
+        return;
+      }
+      if (subcommand === "remove") {
+        await this["handleWorldTimeline"](interaction, {
+          action: "remove",
+          worldId,
+          entryId: interaction.options.getInteger("entry_id", true),
+        });
+        return;
+      }
+      await this["handleWorldTimeline"](interaction, {
+        action: "clock",
+        worldId,
+        set: text("set"),
+        advance: text("advance"),
+      });
+      return;
+    }
     if (subcommand === "create") {
       await this["handleWorldCreate"](interaction, flags);
       return;
@@ -907,6 +1106,24 @@ export function installDiscordAdapterOnboardingWorldEntry(DiscordAdapterClass: {
       await this["handleWorldImport"](interaction, { kind, file, worldId });
       return;
     }
+    if (subcommand === "history") {
+      const file = interaction.options.getString("file") ?? undefined;
+      const worldId = interaction.options.getInteger("world_id") ?? undefined;
+      await this["handleWorldHistory"](interaction, { worldId, file });
+      return;
+    }
+    if (subcommand === "diff") {
+      const rev = interaction.options.getInteger("rev", true);
+      const worldId = interaction.options.getInteger("world_id") ?? undefined;
+      await this["handleWorldDiff"](interaction, { rev, worldId });
+      return;
+    }
+    if (subcommand === "rollback") {
+      const rev = interaction.options.getInteger("rev", true);
+      const worldId = interaction.options.getInteger("world_id") ?? undefined;
+      await this["handleWorldRollback"](interaction, { rev, worldId });
+      return;
+    }
     if (subcommand === "image") {
       const name = interaction.options.getString("name", true);
       const file = interaction.options.getAttachment("file", true);
@@ -964,10 +1181,7 @@ export function installDiscordAdapterOnboardingWorldEntry(DiscordAdapterClass: {
     }
     if (subcommand === "submit") {
       const kind = interaction.options.getString("kind", true) as
-        | "canon"
-        | "chronicle"
-        | "task"
-        | "news";
+        "canon" | "chronicle" | "task" | "news";
       const title = interaction.options.getString("title", true);
       const content = interaction.options.getString("content", true);
       const worldId =
@@ -1012,8 +1226,12 @@ export function installDiscordAdapterOnboardingWorldEntry(DiscordAdapterClass: {
       await this["handleWorldApprove"](interaction, { worldId, submissionId });
       return;
     }
-    if (subcommand === "check") {
-      const query = interaction.options.getString("query", true);
+    if (subcommand === "reject") {
+      const submissionId = interaction.options.getInteger(
+        "submission_id",
+        true,
+      );
+      const reason = interaction.options.getString("reason") ?? undefined;
       const worldId =
         interaction.options.getInteger("world_id") ??
         (await this["inferWorldIdFromWorldSubspace"](interaction).catch(
@@ -1027,10 +1245,17 @@ export function installDiscordAdapterOnboardingWorldEntry(DiscordAdapterClass: {
         );
         return;
       }
-      await this["handleWorldCheck"](interaction, { worldId, query });
+      await this["handleWorldReject"](interaction, {
+        worldId,
+        submissionId,
+        reason,
+      });
       return;
     }
-    if (subcommand === "join") {
+    if (subcommand === "submissions") {
+      const status = (interaction.options.getString("status") ?? "pending") as
+        "pending" | "approved" | "rejected";
+      const page = interaction.options.getInteger("page") ?? 1;
       const worldId =
         interaction.options.getInteger("world_id") ??
         (await this["inferWorldIdFromWorldSubspace"](interaction).catch(
@@ -1039,17 +1264,21 @@ export function installDiscordAdapterOnboardingWorldEntry(DiscordAdapterClass: {
       if (!worldId) {
         await safeReply(
           interaction,
-          "缺少 world_id：请显式提供 world_id（或在目标世界子空间频道内执行 /world join）。",
+          "缺少 world_id：请在世界子空间频道内执行，或显式提供 world_id。",
           { ephemeral: true },
         );
         return;
       }
-      const characterId =
-        interaction.options.getInteger("character_id") ?? undefined;
-      await this["handleWorldJoin"](interaction, { worldId, characterId });
+      await this["handleWorldSubmissions"](interaction, {
+        worldId,
+        status,
+        page,
+      });
       return;
     }
-    if (subcommand === "stats") {
+    if (subcommand === "settings") {
+      const autoApproveVotes =
+        interaction.options.getInteger("auto_approve_votes") ?? undefined;
       const worldId =
         interaction.options.getInteger("world_id") ??
         (await this["inferWorldIdFromWorldSubspace"](interaction).catch(
@@ -1063,10 +1292,50 @@ export function installDiscordAdapterOnboardingWorldEntry(DiscordAdapterClass: {
         );
         return;
       }
-      await this["handleWorldStats"](interaction, worldId);
+      await this["handleWorldSettings"](interaction, {
+        worldId,
+        autoApproveVotes,
+      });
       return;
     }
-    if (subcommand === "status") {
+    if (subcommand === "check") {
+      const query = interaction.options.getString("query", true);
+      const worldId =
+        interaction.options.getInteger("world_id") ??
+        (await this["inferWorldIdFromWorldSubspace"](interaction).catch(
+          () => null,
+        ));
+      if (!worldId) {
+        await safeReply(
+          interaction,
+          "缺少 world_id：请在世界子空间频道内执行，或显式提供 world_id。",
+          { ephemeral: true },
+        );
+        return;
+      }
+      await this["handleWorldCheck"](interaction, { worldId, query });
+      return;
+    }
+    if (subcommand === "join") {
+      const worldId =
+        interaction.options.getInteger("world_id") ??
+        (await this["inferWorldIdFromWorldSubspace"](interaction).catch(
+          () => null,
+        ));
+      if (!worldId) {
+        await safeReply(
+          interaction,
+          "缺少 world_id：请显式提供 world_id（或在目标世界子空间频道内执行 /world join）。",
+          { ephemeral: true },
+        );
+        return;
+      }
+      const characterId =
+        interaction.options.getInteger("character_id") ?? undefined;
+      await this["handleWorldJoin"](interaction, { worldId, characterId });
+      return;
+    }
+    if (subcommand === "stats") {
       const worldId =
         interaction.options.getInteger("world_id") ??
         (await this["inferWorldIdFromWorldSubspace"](interaction).catch(
@@ -1089,11 +1358,6 @@ export function installDiscordAdapterOnboardingWorldEntry(DiscordAdapterClass: {
       await this["handleWorldSearch"](interaction, { query, limit });
       return;
     }
-    if (subcommand === "remove") {
-      const worldId = interaction.options.getInteger("world_id", true);
-      await this["handleWorldRemove"](interaction, worldId, flags);
-      return;
-    }
     await safeReply(interaction, `未知子命令：/world ${subcommand}`, {
       ephemeral: false,
     });
@@ -1530,8 +1794,15 @@ export function installDiscordAdapterOnboardingWorldEntry(DiscordAdapterClass: {
       );
       return;
     }
-    if (meta.creatorId !== interaction.user.id) {
-      await safeReply(interaction, "无权限：只有世界创作者可以导出世界文档。", {
+    if (
+      !(await canPerformWorldAction(
+        this["worldStore"],
+        meta,
+        interaction.user.id,
+        "edit",
+      ))
+    ) {
+      await safeReply(interaction, buildWorldPermissionDeniedMessage("edit"), {
         ephemeral: true,
       });
       return;
@@ -1583,6 +1854,29 @@ export function installDiscordAdapterOnboardingWorldEntry(DiscordAdapterClass: {
       { attachment: Buffer.from(news, "utf8"), name: `W${meta.id}-news.md` },
       { attachment: Buffer.from(canon, "utf8"), name: `W${meta.id}-canon.md` },
     ];
+    const lorebook = await this["worldFiles"].readWorldLorebook(meta.id);
+    if (lorebook.entries.length > 0) {
+      files.push({
+        attachment: Buffer.from(JSON.stringify(lorebook, null, 2), "utf8"),
+        name: `W${meta.id}-lorebook.json`,
+      });
+    }
+    const sheetSchema = await this["worldFiles"].readCharacterSheetSchema(
+      meta.id,
+    );
+    if (sheetSchema) {
+      files.push({
+        attachment: Buffer.from(JSON.stringify(sheetSchema, null, 2), "utf8"),
+        name: `W${meta.id}-character-sheet.json`,
+      });
+    }
+    const calendar = await this["worldFiles"].readWorldCalendar(meta.id);
+    if (calendar) {
+      files.push({
+        attachment: Buffer.from(JSON.stringify(calendar, null, 2), "utf8"),
+        name: `W${meta.id}-calendar.json`,
+      });
+    }
 
     await safeReplyRich(
       interaction,
@@ -1592,6 +1886,7 @@ export function installDiscordAdapterOnboardingWorldEntry(DiscordAdapterClass: {
           "改完后把文件作为附件上传，然后用 /world import 覆盖对应文档。",
           "提示：导入 kind=canon 时，会写入 worlds/<id>/canon/<filename>；若文件名带 `W<id>-` 前缀会自动剥离。",
           "支持 .md/.txt（会覆盖原内容）。",
+          "设定条目（lorebook.json）请用 /world lore import 导入；角色卡格式（character-sheet.json）用 /world import kind:sheet_schema 导入；历法（calendar.json）用 /world import kind:calendar 导入。",
         ].join("\n"),
         files,
       },
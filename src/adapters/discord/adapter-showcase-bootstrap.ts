@@ -749,6 +749,7 @@ export function installDiscordAdapterShowcaseBootstrap(DiscordAdapterClass: {
           worldRoleId: meta.roleId,
           creatorUserId: meta.creatorId,
           botUserId: botId,
+          staff: await this["worldStore"].listWorldStaff(meta.id),
         });
 
         const syncPermissions = async (
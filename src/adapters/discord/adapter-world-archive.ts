@@ -0,0 +1,302 @@
+import type { DiscordAdapter } from "./adapter";
+import type { UserLanguage } from "../../user/state-store";
+import {
+  buildWorldPermissionDeniedMessage,
+  canPerformWorldAction,
+  type WorldAction,
+} from "../../world/permissions";
+import type { WorldMeta } from "../../world/store";
+import { pickByLanguage } from "./adapter-internals";
+import { safeDefer, safeReply } from "./interaction-helpers";
+import {
+  syncWorldBuildAccess,
+  syncWorldChannelOverwrites,
+} from "./adapter-world-staff";
+import {
+  buildWorldLifecycleConfirmButtons,
+  type WorldLifecycleAction,
+  type WorldLifecycleRequest,
+} from "./world-lifecycle-components";
+import type {
+  ButtonInteraction,
+  ChatInputCommandInteraction,
+} from "discord.js";
+
+const LIFECYCLE_PERMISSIONS: Record<WorldLifecycleAction, WorldAction> = {
+  archive: "archive",
+  unarchive: "archive",
+  transfer: "transfer",
+};
+
+/**
+ * Shared by the command and the confirm button, so a stale confirmation
+ * cannot archive twice or hand the world to someone who has since left.
+ * Returns an error message, or null when the request may proceed.
+ */
+async function checkWorldLifecycleRequest(
+  adapter: DiscordAdapter,
+  meta: WorldMeta,
+  request: WorldLifecycleRequest,
+  language: UserLanguage | null,
+): Promise<string | null> {
+  if (meta.status === "draft") {
+    return pickByLanguage(
+      language,
+      "世界尚未发布：草稿世界无法归档或转让。",
+      "This world is not published yet: drafts cannot be archived or transferred.",
+    );
+  }
+  const action = LIFECYCLE_PERMISSIONS[request.action];
+  if (
+    !(await canPerformWorldAction(
+      adapter["worldStore"],
+      meta,
+      request.requesterUserId,
+      action,
+    ))
+  ) {
+    return buildWorldPermissionDeniedMessage(action, language);
+  }
+  if (request.action === "archive" && meta.status !== "active") {
+    return pickByLanguage(
+      language,
+      `W${meta.id} 当前状态为 ${meta.status}，无法归档。`,
+      `W${meta.id} is ${meta.status} and cannot be archived.`,
+    );
+  }
+  if (request.action === "unarchive" && meta.status !== "archived") {
+    return pickByLanguage(
+      language,
+      `W${meta.id} 未归档。`,
+      `W${meta.id} is not archived.`,
+    );
+  }
+  if (request.action === "transfer") {
+    const targetUserId = request.targetUserId ?? "";
+    if (!targetUserId || targetUserId === meta.creatorId) {
+      return pickByLanguage(
+        language,
+        "请指定另一位成员作为新创作者。",
+        "Pick another member as the new owner.",
+      );
+    }
+    const [isMember, staffRole] = await Promise.all([
+      adapter["worldStore"].isMember(meta.id, targetUserId),
+      adapter["worldStore"].getWorldStaffRole(meta.id, targetUserId),
+    ]);
+    if (!isMember && !staffRole) {
+      return pickByLanguage(
+        language,
+        `<@${targetUserId}> 还不是 W${meta.id} 的成员：请对方先 /world join。`,
+        `<@${targetUserId}> is not a member of W${meta.id}: ask them to /world join first.`,
+      );
+    }
+  }
+  return null;
+}
+
+function buildLifecyclePrompt(
+  meta: WorldMeta,
+  request: WorldLifecycleRequest,
+  language: UserLanguage | null,
+): string {
+  if (request.action === "archive") {
+    return pickByLanguage(
+      language,
+      `确认归档 W${meta.id} ${meta.name}？\n归档后世界频道变为只读，世界不再出现在 /world list 中；文件与 wiki 页面会保留，可随时 /world lifecycle unarchive 恢复。`,
+      `Archive W${meta.id} ${meta.name}?\nWorld channels become read-only and the world is hidden from /world list; files and wiki pages are kept, and /world lifecycle unarchive restores it.`,
+    );
+  }
+  if (request.action === "unarchive") {
+    return pickByLanguage(
+      language,
+      `确认恢复 W${meta.id} ${meta.name}？世界频道将恢复发言权限。`,
+      `Unarchive W${meta.id} ${meta.name}? World channels will be writable again.`,
+    );
+  }
+  return pickByLanguage(
+    language,
+    `确认将 W${meta.id} ${meta.name} 转让给 <@${request.targetUserId}>？\n转让后你将成为该世界的编辑，只有新创作者可以管理工作人员、归档或再次转让。`,
+    `Transfer W${meta.id} ${meta.name} to <@${request.targetUserId}>?\nYou will stay on as an editor; only the new owner can manage staff, archive or transfer it again.`,
+  );
+}
+
+export function installDiscordAdapterWorldArchive(DiscordAdapterClass: {
+  prototype: DiscordAdapter;
+}): void {
+  (
+    DiscordAdapterClass.prototype as unknown as Record<string, unknown>
+  ).handleWorldLifecycle = async function (
+    this: DiscordAdapter,
+    interaction: ChatInputCommandInteraction,
+    input: {
+      action: WorldLifecycleAction;
+      worldId: number;
+      targetUserId?: string;
+    },
+  ): Promise<void> {
+    await safeDefer(interaction, { ephemeral: true });
+    const language = await this["userState"]
+      .getLanguage(interaction.user.id)
+      .catch(() => null);
+    const meta = await this["worldStore"].getWorld(input.worldId);
+    if (!meta) {
+      await safeReply(
+        interaction,
+        pickByLanguage(
+          language,
+          `世界不存在：W${input.worldId}`,
+          `World not found: W${input.worldId}`,
+        ),
+        { ephemeral: true },
+      );
+      return;
+    }
+    const request: WorldLifecycleRequest = {
+      worldId: meta.id,
+      action: input.action,
+      requesterUserId: interaction.user.id,
+      targetUserId:
+        input.action === "transfer" ? input.targetUserId : undefined,
+    };
+    const error = await checkWorldLifecycleRequest(
+      this,
+      meta,
+      request,
+      language,
+    );
+    if (error) {
+      await safeReply(interaction, error, { ephemeral: true });
+      return;
+    }
+    await interaction
+      .editReply({
+        content: buildLifecyclePrompt(meta, request, language),
+        components: buildWorldLifecycleConfirmButtons(request, {
+          confirm: pickByLanguage(language, "确认", "Confirm"),
+          cancel: pickByLanguage(language, "取消", "Cancel"),
+        }),
+      })
+      .catch(() => null);
+  };
+
+  (
+    DiscordAdapterClass.prototype as unknown as Record<string, unknown>
+  ).handleWorldLifecycleButton = async function (
+    this: DiscordAdapter,
+    interaction: ButtonInteraction,
+    request: WorldLifecycleRequest & { decision: "confirm" | "cancel" },
+  ): Promise<void> {
+    const language = await this["userState"]
+      .getLanguage(interaction.user.id)
+      .catch(() => null);
+    if (interaction.user.id !== request.requesterUserId) {
+      await interaction
+        .reply({
+          content: pickByLanguage(
+            language,
+            "只有发起该操作的用户可以确认或取消。",
+            "Only the user who started this can confirm or cancel it.",
+          ),
+          ephemeral: true,
+        })
+        .catch(() => null);
+      return;
+    }
+    if (request.decision === "cancel") {
+      await interaction
+        .update({
+          content: pickByLanguage(language, "已取消。", "Cancelled."),
+          components: [],
+        })
+        .catch(() => null);
+      return;
+    }
+
+    await interaction.deferUpdate().catch(() => null);
+    const finish = async (content: string) => {
+      await interaction
+        .editReply({ content, components: [] })
+        .catch(() => null);
+    };
+    const meta = await this["worldStore"].getWorld(request.worldId);
+    if (!meta) {
+      await finish(
+        pickByLanguage(
+          language,
+          `世界不存在：W${request.worldId}`,
+          `World not found: W${request.worldId}`,
+        ),
+      );
+      return;
+    }
+    const error = await checkWorldLifecycleRequest(
+      this,
+      meta,
+      request,
+      language,
+    );
+    if (error) {
+      await finish(error);
+      return;
+    }
+
+    const reason = `world ${request.action} W${meta.id} by ${interaction.user.id}`;
+    if (request.action === "transfer" && request.targetUserId) {
+      await this["worldStore"].transferWorldOwnership({
+        worldId: meta.id,
+        fromUserId: meta.creatorId,
+        toUserId: request.targetUserId,
+      });
+      await this["worldFiles"].appendEvent(meta.id, {
+        type: "world_transferred",
+        worldId: meta.id,
+        fromUserId: meta.creatorId,
+        toUserId: request.targetUserId,
+        userId: interaction.user.id,
+      });
+      // The build thread lives in the previous owner's workshop.
+      await syncWorldBuildAccess(
+        this,
+        meta,
+        { userId: request.targetUserId, role: "editor" },
+        reason,
+      );
+    } else {
+      const archived = request.action === "archive";
+      await this["worldStore"].setWorldStatus(
+        meta.id,
+        archived ? "archived" : "active",
+      );
+      await this["worldFiles"].appendEvent(meta.id, {
+        type: archived ? "world_archived" : "world_unarchived",
+        worldId: meta.id,
+        userId: interaction.user.id,
+      });
+    }
+    const updated = await this["worldStore"].getWorld(meta.id);
+    if (updated) {
+      await syncWorldChannelOverwrites(this, updated, reason);
+    }
+
+    await finish(
+      request.action === "archive"
+        ? pickByLanguage(
+            language,
+            `已归档：W${meta.id} ${meta.name}（频道已设为只读）`,
+            `Archived: W${meta.id} ${meta.name} (channels are now read-only)`,
+          )
+        : request.action === "unarchive"
+          ? pickByLanguage(
+              language,
+              `已恢复：W${meta.id} ${meta.name}`,
+              `Unarchived: W${meta.id} ${meta.name}`,
+            )
+          : pickByLanguage(
+              language,
+              `已将 W${meta.id} ${meta.name} 转让给 <@${request.targetUserId}>，你已成为该世界的编辑。`,
+              `Transferred W${meta.id} ${meta.name} to <@${request.targetUserId}>; you are now an editor.`,
+            ),
+    );
+  };
+}
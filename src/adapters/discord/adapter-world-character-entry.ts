@@ -1,20 +1,38 @@
 import type { DiscordAdapter } from "./adapter";
 import { buildCharacterBuildGroupId } from "../../character/ids";
+import {
+  buildTavernCardV2,
+  embedTavernCardInPng,
+  parseCharacterCardMarkdown,
+  parseTavernCardJson,
+  parseTavernCardPng,
+  stripTavernCardFromPng,
+  tavernCharacterToMarkdown,
+} from "../../character/tavern-card";
 import { feishuLogJson } from "../../feishu/webhook";
 import { createTraceId } from "../../telemetry";
 import {
   buildCharacterSourceSeedContent,
   buildDefaultCharacterCard,
   buildDiscordCharacterHelp,
+  buildUsageTotalsLine,
 } from "../../texts";
 import type { UserLanguage } from "../../user/state-store";
+import { isPng } from "../../utils/png-text";
+import { canViewWorld } from "../../world/permissions";
 import type { CharacterVisibility } from "../../world/store";
-import { LocalizedError, pickByLanguage } from "./adapter-internals";
+import {
+  DEFAULT_DISCORD_IMAGE_ATTACHMENT_MAX_BYTES,
+  DEFAULT_DISCORD_IMAGE_ATTACHMENT_TIMEOUT_MS,
+  LocalizedError,
+  pickByLanguage,
+} from "./adapter-internals";
 import {
   extractCharacterNameFromCard,
   extractWorldNameFromCard,
   extractWorldOneLiner,
 } from "./card-parsers";
+import { fetchDiscordImageAttachment } from "./image-fetcher";
 import { safeDefer, safeReply, safeReplyRich } from "./interaction-helpers";
 import {
   buildMarkdownCardEmbeds,
@@ -34,6 +52,8 @@ import {
 } from "discord.js";
 import { rm } from "node:fs/promises";
 
+type CharacterExportFormat = "markdown" | "tavern_json" | "tavern_png";
+
 export function installDiscordAdapterWorldCharacterEntry(DiscordAdapterClass: {
   prototype: DiscordAdapter;
 }): void {
@@ -305,10 +325,10 @@ export function installDiscordAdapterWorldCharacterEntry(DiscordAdapterClass: {
       });
       return;
     }
-    if (meta.status === "draft" && meta.creatorId !== interaction.user.id) {
+    if (!(await canViewWorld(this["worldStore"], meta, interaction.user.id))) {
       await safeReply(
         interaction,
-        `世界尚未发布：W${meta.id}（仅创作者可见）`,
+        `世界尚未发布：W${meta.id}（仅创作者与世界工作人员可见）`,
         {
           ephemeral: false,
         },
@@ -316,11 +336,19 @@ export function installDiscordAdapterWorldCharacterEntry(DiscordAdapterClass: {
       return;
     }
     const stats = await this["worldFiles"].readStats(meta.id);
+    const now = Date.now();
+    const usage = await this["usageStore"].summarize({
+      from: new Date(now - 30 * 24 * 60 * 60 * 1000).toISOString(),
+      to: new Date(now).toISOString(),
+      worldId: meta.id,
+    });
     await safeReply(
       interaction,
       `W${meta.id} ${meta.name}\n状态：${
         meta.status === "draft" ? "draft(未发布)" : meta.status
-      }\n访客数：${stats.visitorCount}\n角色数：${stats.characterCount}`,
+      }\n访客数：${stats.visitorCount}\n角色数：${
+        stats.characterCount
+      }\n近 30 天用量：${buildUsageTotalsLine(usage.totals, "zh")}`,
       { ephemeral: false },
     );
   };
@@ -625,7 +653,14 @@ export function installDiscordAdapterWorldCharacterEntry(DiscordAdapterClass: {
     if (subcommand === "export") {
       const characterId =
         interaction.options.getInteger("character_id") ?? undefined;
-      await this["handleCharacterExport"](interaction, { characterId });
+      const format = (interaction.options.getString("format") ?? undefined) as
+        CharacterExportFormat | undefined;
+      const portrait = interaction.options.getAttachment("portrait");
+      await this["handleCharacterExport"](interaction, {
+        characterId,
+        format,
+        portrait,
+      });
       return;
     }
     if (subcommand === "import") {
@@ -645,6 +680,26 @@ export function installDiscordAdapterWorldCharacterEntry(DiscordAdapterClass: {
       await this["handleCharacterAct"](interaction, characterId);
       return;
     }
+    if (subcommand === "sheet") {
+      const characterId =
+        interaction.options.getInteger("character_id") ?? undefined;
+      await this["handleCharacterSheet"](interaction, {
+        action: "view",
+        characterId,
+      });
+      return;
+    }
+    if (subcommand === "set") {
+      const characterId =
+        interaction.options.getInteger("character_id") ?? undefined;
+      await this["handleCharacterSheet"](interaction, {
+        action: "set",
+        characterId,
+        field: interaction.options.getString("field", true),
+        value: interaction.options.getString("value", true),
+      });
+      return;
+    }
     if (subcommand === "use") {
       const characterId = interaction.options.getInteger("character_id", true);
       await this["handleCharacterUse"](interaction, characterId);
@@ -1028,7 +1083,11 @@ export function installDiscordAdapterWorldCharacterEntry(DiscordAdapterClass: {
   ).handleCharacterExport = async function (
     this: DiscordAdapter,
     interaction: ChatInputCommandInteraction,
-    input: { characterId?: number },
+    input: {
+      characterId?: number;
+      format?: CharacterExportFormat;
+      portrait?: Attachment | null;
+    },
   ): Promise<void> {
     await safeDefer(interaction, { ephemeral: true });
     let characterId: number;
@@ -1068,20 +1127,102 @@ export function installDiscordAdapterWorldCharacterEntry(DiscordAdapterClass: {
       return;
     }
 
+    const format = input.format ?? "markdown";
+    if (format === "markdown") {
+      await safeReplyRich(
+        interaction,
+        {
+          content: [
+            `已导出角色卡：C${meta.id} ${meta.name}`,
+            "改完后把文件作为附件上传，然后用 /character import 覆盖角色卡。",
+            "支持 .md/.txt（会覆盖原内容），也支持 Tavern 角色卡 .json/.png。",
+          ].join("\n"),
+          files: [
+            {
+              attachment: Buffer.from(content, "utf8"),
+              name: `C${meta.id}-character.md`,
+            },
+          ],
+        },
+        { ephemeral: true },
+      );
+      return;
+    }
+
+    const card = buildTavernCardV2(
+      parseCharacterCardMarkdown(content, meta.name),
+      { creator: meta.creatorId },
+    );
+    if (format === "tavern_json") {
+      await safeReplyRich(
+        interaction,
+        {
+          content: `已导出 Tavern V2 角色卡：C${meta.id} ${meta.name}`,
+          files: [
+            {
+              attachment: Buffer.from(JSON.stringify(card, null, 2), "utf8"),
+              name: `C${meta.id}-character.json`,
+            },
+          ],
+        },
+        { ephemeral: true },
+      );
+      return;
+    }
+
+    let portrait: Buffer | null;
+    if (input.portrait) {
+      try {
+        const image = await fetchDiscordImageAttachment(input.portrait, {
+          logger: this["logger"],
+          maxBytes: DEFAULT_DISCORD_IMAGE_ATTACHMENT_MAX_BYTES,
+          timeoutMs: DEFAULT_DISCORD_IMAGE_ATTACHMENT_TIMEOUT_MS,
+        });
+        portrait = image.buffer;
+      } catch (err) {
+        await safeReply(
+          interaction,
+          `读取图片失败：${err instanceof Error ? err.message : String(err)}`,
+          { ephemeral: true },
+        );
+        return;
+      }
+      if (!isPng(portrait)) {
+        await safeReply(interaction, "立绘必须是 PNG 图片。", {
+          ephemeral: true,
+        });
+        return;
+      }
+      portrait = stripTavernCardFromPng(portrait);
+      await this["worldFiles"].writeCharacterPortrait(meta.id, portrait);
+    } else {
+      portrait = await this["worldFiles"].readCharacterPortrait(meta.id);
+    }
+    if (!portrait) {
+      await safeReply(
+        interaction,
+        "该角色还没有立绘：请在 portrait 选项上传一张 PNG 图片（会保存为该角色的立绘）。",
+        { ephemeral: true },
+      );
+      return;
+    }
+
+    let png: Buffer;
+    try {
+      png = embedTavernCardInPng(portrait, card);
+    } catch (err) {
+      await safeReply(
+        interaction,
+        `写入 PNG 失败：${err instanceof Error ? err.message : String(err)}`,
+        { ephemeral: true },
+      );
+      return;
+    }
     await safeReplyRich(
       interaction,
       {
-        content: [
-          `已导出角色卡：C${meta.id} ${meta.name}`,
-          "改完后把文件作为附件上传，然后用 /character import 覆盖角色卡。",
-          "支持 .md/.txt（会覆盖原内容）。",
-        ].join("\n"),
-        files: [
-          {
-            attachment: Buffer.from(content, "utf8"),
-            name: `C${meta.id}-character.md`,
-          },
-        ],
+        content: `已导出 Tavern V2 角色卡（PNG）：C${meta.id} ${meta.name}`,
+        files: [{ attachment: png, name: `C${meta.id}-character.png` }],
       },
       { ephemeral: true },
     );
@@ -1124,12 +1265,60 @@ export function installDiscordAdapterWorldCharacterEntry(DiscordAdapterClass: {
       return;
     }
 
+    const filename = (input.file.name ?? "").trim().toLowerCase();
+    const isTavernPng = filename.endsWith(".png");
+    const isTavernJson = filename.endsWith(".json");
+    if (
+      !isTavernPng &&
+      !isTavernJson &&
+      !isAllowedWikiImportFilename(filename)
+    ) {
+      await safeReply(
+        interaction,
+        "仅支持导入 .md/.markdown/.txt 文件，或 Tavern 角色卡 .json/.png。",
+        { ephemeral: true },
+      );
+      return;
+    }
+
     let doc: { filename: string; content: string };
+    let portrait: Buffer | null = null;
     try {
-      doc = await fetchDiscordTextAttachment(input.file, {
-        logger: this["logger"],
-        maxBytes: DEFAULT_DISCORD_TEXT_ATTACHMENT_MAX_BYTES,
-      });
+      if (isTavernPng) {
+        const image = await fetchDiscordImageAttachment(input.file, {
+          logger: this["logger"],
+          maxBytes: DEFAULT_DISCORD_IMAGE_ATTACHMENT_MAX_BYTES,
+          timeoutMs: DEFAULT_DISCORD_IMAGE_ATTACHMENT_TIMEOUT_MS,
+        });
+        portrait = stripTavernCardFromPng(image.buffer);
+        doc = {
+          filename: image.filename,
+          content: tavernCharacterToMarkdown(parseTavernCardPng(image.buffer), {
+            characterId: meta.id,
+            creatorId: meta.creatorId,
+            language: await this["userState"]
+              .getLanguage(interaction.user.id)
+              .catch(() => null),
+          }),
+        };
+      } else {
+        doc = await fetchDiscordTextAttachment(input.file, {
+          logger: this["logger"],
+          maxBytes: DEFAULT_DISCORD_TEXT_ATTACHMENT_MAX_BYTES,
+        });
+        if (isTavernJson) {
+          doc.content = tavernCharacterToMarkdown(
+            parseTavernCardJson(doc.content),
+            {
+              characterId: meta.id,
+              creatorId: meta.creatorId,
+              language: await this["userState"]
+                .getLanguage(interaction.user.id)
+                .catch(() => null),
+            },
+          );
+        }
+      }
     } catch (err) {
       await safeReply(
         interaction,
@@ -1139,19 +1328,16 @@ export function installDiscordAdapterWorldCharacterEntry(DiscordAdapterClass: {
       return;
     }
 
-    if (!isAllowedWikiImportFilename(doc.filename)) {
-      await safeReply(interaction, "仅支持导入 .md/.markdown/.txt 文件。", {
-        ephemeral: true,
-      });
-      return;
-    }
-
     await this["worldFiles"].writeCharacterCard(meta.id, doc.content);
+    if (portrait) {
+      await this["worldFiles"].writeCharacterPortrait(meta.id, portrait);
+    }
     await this["worldFiles"].appendCharacterEvent(meta.id, {
       type: "character_card_imported",
       characterId: meta.id,
       userId: interaction.user.id,
       filename: doc.filename,
+      format: isTavernPng || isTavernJson ? "tavern" : "markdown",
     });
 
     await safeReply(
@@ -4,7 +4,18 @@ import { buildWorldSubmissionMarkdown } from "../../texts";
 import type { UserLanguage } from "../../user/state-store";
 import { isSafePathSegment } from "../../utils/path";
 import { buildWorldBuildGroupId, parseWorldGroup } from "../../world/ids";
+import {
+  buildWorldPermissionDeniedMessage,
+  canPerformWorldAction,
+  canViewWorld,
+  type WorldAction,
+} from "../../world/permissions";
 import { listActiveWorldEntries } from "../../world/query";
+import { parseWorldCalendar, type WorldCalendar } from "../../world/calendar";
+import {
+  parseCharacterSheetSchema,
+  type CharacterSheetSchema,
+} from "../../world/character-sheet";
 import { WorldStore } from "../../world/store";
 import {
   DEFAULT_DISCORD_IMAGE_ATTACHMENT_MAX_BYTES,
@@ -32,15 +43,18 @@ import {
 import {
   buildWorldDiscussionGuide,
   buildWorldProposalsGuide,
-  parseWorldSubmissionMarkdown,
 } from "./world-showcase-builders";
 import type { WorldShowcaseCoverImage } from "./world-showcase-message";
+import { formatWorldSearchHits } from "./world-search-format";
 import type {
   APIEmbed,
   Attachment,
   ChatInputCommandInteraction,
 } from "discord.js";
 
+const CANON_SEARCH_LIMIT = 5;
+const CHECK_SEARCH_LIMIT = 8;
+
 export function installDiscordAdapterWorldLifecycle(DiscordAdapterClass: {
   prototype: DiscordAdapter;
 }): void {
@@ -81,8 +95,15 @@ export function installDiscordAdapterWorldLifecycle(DiscordAdapterClass: {
       );
       return;
     }
-    if (meta.creatorId !== interaction.user.id) {
-      await safeReply(interaction, "无权限：只有世界创作者可以覆盖世界文档。", {
+    if (
+      !(await canPerformWorldAction(
+        this["worldStore"],
+        meta,
+        interaction.user.id,
+        "edit",
+      ))
+    ) {
+      await safeReply(interaction, buildWorldPermissionDeniedMessage("edit"), {
         ephemeral: true,
       });
       return;
@@ -103,20 +124,55 @@ export function installDiscordAdapterWorldLifecycle(DiscordAdapterClass: {
       return;
     }
 
-    if (!isAllowedWikiImportFilename(doc.filename)) {
+    const kind = input.kind.trim();
+    const isJsonKind = kind === "sheet_schema" || kind === "calendar";
+    if (!isJsonKind && !isAllowedWikiImportFilename(doc.filename)) {
       await safeReply(interaction, "仅支持导入 .md/.markdown/.txt 文件。", {
         ephemeral: true,
       });
       return;
     }
 
-    const kind = input.kind.trim();
     let target: string;
-    if (kind === "world_card") {
-      await this["worldFiles"].writeWorldCard(meta.id, doc.content);
+    if (kind === "sheet_schema") {
+      let schema: CharacterSheetSchema;
+      try {
+        schema = parseCharacterSheetSchema(doc.content);
+      } catch (err) {
+        await safeReply(
+          interaction,
+          `角色卡格式无效：${err instanceof Error ? err.message : String(err)}`,
+          { ephemeral: true },
+        );
+        return;
+      }
+      await this["worldFiles"].writeCharacterSheetSchema(meta.id, schema);
+      target = `character-sheet.json（属性 ${schema.attributes.length}、技能 ${schema.skills.length}、资源 ${schema.resources.length}）`;
+    } else if (kind === "calendar") {
+      let calendar: WorldCalendar;
+      try {
+        calendar = parseWorldCalendar(doc.content);
+      } catch (err) {
+        await safeReply(
+          interaction,
+          `历法定义无效：${err instanceof Error ? err.message : String(err)}`,
+          { ephemeral: true },
+        );
+        return;
+      }
+      await this["worldFiles"].writeWorldCalendar(meta.id, calendar);
+      target = `calendar.json（${calendar.months.length} 个月、每日 ${calendar.hoursPerDay} 小时、纪元 ${calendar.eras.length}）`;
+    } else if (kind === "world_card") {
+      await this["worldFiles"].writeWorldCard(meta.id, doc.content, {
+        author: interaction.user.id,
+        source: "import",
+      });
       target = "world-card.md";
     } else if (kind === "rules") {
-      await this["worldFiles"].writeRules(meta.id, doc.content);
+      await this["worldFiles"].writeRules(meta.id, doc.content, {
+        author: interaction.user.id,
+        source: "import",
+      });
       target = "rules.md";
     } else if (kind === "canon") {
       const canonFilename = resolveCanonImportFilename(meta.id, doc.filename);
@@ -135,12 +191,15 @@ export function installDiscordAdapterWorldLifecycle(DiscordAdapterClass: {
         return;
       }
 
-      await this["worldFiles"].writeCanon(meta.id, canonFilename, doc.content);
+      await this["worldFiles"].writeCanon(meta.id, canonFilename, doc.content, {
+        author: interaction.user.id,
+        source: "import",
+      });
       target = `canon/${canonFilename}`;
     } else {
       await safeReply(
         interaction,
-        `未知 kind：${kind}（可选：world_card/rules/canon）`,
+        `未知 kind：${kind}（可选：world_card/rules/canon/sheet_schema/calendar）`,
         { ephemeral: true },
       );
       return;
@@ -199,14 +258,17 @@ export function installDiscordAdapterWorldLifecycle(DiscordAdapterClass: {
       );
       return;
     }
-    if (meta.creatorId !== interaction.user.id) {
-      await safeReply(
-        interaction,
-        "无权限：只有世界创作者可以上传世界素材图。",
-        {
-          ephemeral: true,
-        },
-      );
+    if (
+      !(await canPerformWorldAction(
+        this["worldStore"],
+        meta,
+        interaction.user.id,
+        "edit",
+      ))
+    ) {
+      await safeReply(interaction, buildWorldPermissionDeniedMessage("edit"), {
+        ephemeral: true,
+      });
       return;
     }
 
@@ -303,14 +365,17 @@ export function installDiscordAdapterWorldLifecycle(DiscordAdapterClass: {
       );
       return;
     }
-    if (meta.creatorId !== interaction.user.id) {
+    if (
+      !(await canPerformWorldAction(
+        this["worldStore"],
+        meta,
+        interaction.user.id,
+        "edit",
+      ))
+    ) {
       await safeReply(
         interaction,
-        pickByLanguage(
-          language,
-          "无权限：只有世界创作者可以编辑世界。",
-          "Permission denied: only the world creator can edit this world.",
-        ),
+        buildWorldPermissionDeniedMessage("edit", language),
         { ephemeral: true },
       );
       return;
@@ -346,11 +411,16 @@ export function installDiscordAdapterWorldLifecycle(DiscordAdapterClass: {
       return;
     }
 
+    // Drafts live in the owner's workshop; editors are let in alongside them.
+    const editorUserIds = (await this["worldStore"].listWorldStaff(meta.id))
+      .filter((entry) => entry.role === "editor")
+      .map((entry) => entry.userId);
     const workshop = await this["createCreatorOnlyChannel"]({
       guild: interaction.guild,
-      name: `world-workshop-${interaction.user.id}`,
-      creatorUserId: interaction.user.id,
-      reason: `world workshop ensure for ${interaction.user.id}`,
+      name: `world-workshop-${meta.creatorId}`,
+      creatorUserId: meta.creatorId,
+      collaboratorUserIds: editorUserIds,
+      reason: `world workshop ensure for ${meta.creatorId}`,
     });
 
     const existingThreadId = meta.buildChannelId?.trim() || "";
@@ -476,7 +546,7 @@ export function installDiscordAdapterWorldLifecycle(DiscordAdapterClass: {
       expectedWorldId: number | null;
       requesterUserId: string;
       language: UserLanguage | null;
-      requireCreator: boolean;
+      requiredAction?: WorldAction;
     },
   ): Promise<
     | {
@@ -524,13 +594,20 @@ export function installDiscordAdapterWorldLifecycle(DiscordAdapterClass: {
         ),
       };
     }
-    if (input.requireCreator && meta.creatorId !== input.requesterUserId) {
+    if (
+      input.requiredAction &&
+      !(await canPerformWorldAction(
+        this["worldStore"],
+        meta,
+        input.requesterUserId,
+        input.requiredAction,
+      ))
+    ) {
       return {
         ok: false,
-        message: pickByLanguage(
+        message: buildWorldPermissionDeniedMessage(
+          input.requiredAction,
           input.language,
-          "无权限：只有世界创作者可以执行该操作。",
-          "Permission denied: only the world creator can do this.",
         ),
       };
     }
@@ -623,7 +700,7 @@ export function installDiscordAdapterWorldLifecycle(DiscordAdapterClass: {
       expectedWorldId: null,
       requesterUserId: input.requesterUserId,
       language: input.language,
-      requireCreator: true,
+      requiredAction: "publish",
     });
     if (!resolved.ok) {
       throw new LocalizedError({
@@ -1008,13 +1085,13 @@ export function installDiscordAdapterWorldLifecycle(DiscordAdapterClass: {
       );
       return;
     }
-    if (meta.status === "draft" && meta.creatorId !== interaction.user.id) {
+    if (!(await canViewWorld(this["worldStore"], meta, interaction.user.id))) {
       await safeReply(
         interaction,
         pickByLanguage(
           language,
-          `世界尚未发布：W${meta.id}（仅创作者可见）`,
-          `World not published yet: W${meta.id} (creator only)`,
+          `世界尚未发布：W${meta.id}（仅创作者与世界工作人员可见）`,
+          `World not published yet: W${meta.id} (owner and staff only)`,
         ),
         {
           ephemeral: false,
@@ -1143,13 +1220,13 @@ export function installDiscordAdapterWorldLifecycle(DiscordAdapterClass: {
       );
       return;
     }
-    if (meta.status === "draft" && meta.creatorId !== interaction.user.id) {
+    if (!(await canViewWorld(this["worldStore"], meta, interaction.user.id))) {
       await safeReply(
         interaction,
         pickByLanguage(
           language,
-          `世界尚未发布：W${meta.id}（仅创作者可见）`,
-          `World not published yet: W${meta.id} (creator only)`,
+          `世界尚未发布：W${meta.id}（仅创作者与世界工作人员可见）`,
+          `World not published yet: W${meta.id} (owner and staff only)`,
         ),
         {
           ephemeral: false,
@@ -1212,44 +1289,34 @@ export function installDiscordAdapterWorldLifecycle(DiscordAdapterClass: {
       });
       return;
     }
-    if (meta.status === "draft" && meta.creatorId !== interaction.user.id) {
+    if (!(await canViewWorld(this["worldStore"], meta, interaction.user.id))) {
       await safeReply(
         interaction,
-        `世界尚未发布：W${meta.id}（仅创作者可见）`,
+        `世界尚未发布：W${meta.id}（仅创作者与世界工作人员可见）`,
         { ephemeral: false },
       );
       return;
     }
 
-    const lowered = query.toLowerCase();
-    const [card, rules, chronicle, tasks, news, canon] = await Promise.all([
-      this["worldFiles"].readWorldCard(meta.id),
-      this["worldFiles"].readRules(meta.id),
-      this["worldFiles"].readCanon(meta.id, "chronicle.md"),
-      this["worldFiles"].readCanon(meta.id, "tasks.md"),
-      this["worldFiles"].readCanon(meta.id, "news.md"),
-      this["worldFiles"].readCanon(meta.id, "canon.md"),
-    ]);
-    const hits: string[] = [];
-    if (meta.name.toLowerCase().includes(lowered)) hits.push("name");
-    if (card?.toLowerCase().includes(lowered)) hits.push("world-card");
-    if (rules?.toLowerCase().includes(lowered)) hits.push("rules");
-    if (chronicle?.toLowerCase().includes(lowered)) hits.push("chronicle");
-    if (tasks?.toLowerCase().includes(lowered)) hits.push("tasks");
-    if (news?.toLowerCase().includes(lowered)) hits.push("news");
-    if (canon?.toLowerCase().includes(lowered)) hits.push("canon");
-
+    const hits = await this["worldFiles"].searchWorld(meta.id, query, {
+      limit: CANON_SEARCH_LIMIT,
+      filter: (file) => !file.startsWith("submissions/"),
+    });
     if (hits.length === 0) {
       await safeReply(
         interaction,
-        `W${meta.id} ${meta.name}\n未找到包含「${query}」的正典内容。`,
+        `W${meta.id} ${meta.name}\n未找到与「${query}」相关的正典内容。`,
         { ephemeral: false },
       );
       return;
     }
     await safeReply(
       interaction,
-      `W${meta.id} ${meta.name}\n命中：${hits.join(", ")}`,
+      [
+        `W${meta.id} ${meta.name}`,
+        `「${query}」相关度最高的 ${hits.length} 段：`,
+        ...formatWorldSearchHits(hits),
+      ].join("\n"),
       { ephemeral: false },
     );
   };
@@ -1273,10 +1340,10 @@ export function installDiscordAdapterWorldLifecycle(DiscordAdapterClass: {
       });
       return;
     }
-    if (meta.status === "draft" && meta.creatorId !== interaction.user.id) {
+    if (!(await canViewWorld(this["worldStore"], meta, interaction.user.id))) {
       await safeReply(
         interaction,
-        `世界尚未发布：W${meta.id}（仅创作者可见）`,
+        `世界尚未发布：W${meta.id}（仅创作者与世界工作人员可见）`,
         {
           ephemeral: true,
         },
@@ -1321,15 +1388,11 @@ export function installDiscordAdapterWorldLifecycle(DiscordAdapterClass: {
     });
 
     if (meta.status === "active") {
-      await this["sendLongTextToChannel"]({
-        guildId: meta.homeGuildId,
-        channelId: meta.proposalsChannelId,
-        content: [
-          `【世界提案】W${meta.id} ${meta.name} / S${submissionId}`,
-          `类型：${input.kind} 标题：${input.title}`,
-          `提交者：<@${interaction.user.id}>`,
-          `审核：/world approve submission_id:${submissionId} world_id:${meta.id}`,
-        ].join("\n"),
+      await this["postWorldSubmissionProposal"](meta, {
+        submissionId,
+        kind: input.kind,
+        title: input.title,
+        submitterUserId: interaction.user.id,
       });
     }
 
@@ -1356,10 +1419,19 @@ export function installDiscordAdapterWorldLifecycle(DiscordAdapterClass: {
       });
       return;
     }
-    if (meta.creatorId !== interaction.user.id) {
-      await safeReply(interaction, "无权限：只有世界创作者可以确认提案。", {
-        ephemeral: true,
-      });
+    if (
+      !(await canPerformWorldAction(
+        this["worldStore"],
+        meta,
+        interaction.user.id,
+        "review_submission",
+      ))
+    ) {
+      await safeReply(
+        interaction,
+        buildWorldPermissionDeniedMessage("review_submission"),
+        { ephemeral: true },
+      );
       return;
     }
     if (meta.status !== "active") {
@@ -1371,90 +1443,21 @@ export function installDiscordAdapterWorldLifecycle(DiscordAdapterClass: {
 
     await safeDefer(interaction, { ephemeral: true });
 
-    const pending = await this["worldFiles"].readSubmission(
-      meta.id,
-      "pending",
-      input.submissionId,
-    );
-    if (!pending) {
+    const approved = await this["approveWorldSubmission"](meta, {
+      submissionId: input.submissionId,
+      approverUserId: interaction.user.id,
+      auto: false,
+    });
+    if (!approved) {
       await safeReply(interaction, `未找到待确认提案：S${input.submissionId}`, {
         ephemeral: true,
       });
       return;
     }
 
-    const parsed = parseWorldSubmissionMarkdown(pending);
-    const kind = parsed?.kind ?? "canon";
-    const title = parsed?.title ?? `(S${input.submissionId})`;
-    const submitter = parsed?.submitterUserId ?? "";
-    const content = parsed?.content ?? pending.trim();
-
-    const moved = await this["worldFiles"].moveSubmission({
-      worldId: meta.id,
-      from: "pending",
-      to: "approved",
-      submissionId: input.submissionId,
-    });
-    if (!moved) {
-      await safeReply(
-        interaction,
-        `提案状态变化：S${input.submissionId} 不存在`,
-        {
-          ephemeral: true,
-        },
-      );
-      return;
-    }
-
-    const filename =
-      kind === "chronicle"
-        ? "chronicle.md"
-        : kind === "task"
-          ? "tasks.md"
-          : kind === "news"
-            ? "news.md"
-            : "canon.md";
-
-    const nowIso = new Date().toISOString();
-    await this["worldFiles"].appendCanon(
-      meta.id,
-      filename,
-      [
-        ``,
-        `## S${input.submissionId} ${title}`,
-        `- 时间：${nowIso}`,
-        submitter ? `- 提交者：<@${submitter}>` : null,
-        `- 来源：submissions/approved/${input.submissionId}.md`,
-        ``,
-        content,
-        ``,
-      ]
-        .filter((line): line is string => Boolean(line))
-        .join("\n"),
-    );
-
-    await this["worldFiles"].appendEvent(meta.id, {
-      type: "world_submission_approved",
-      worldId: meta.id,
-      submissionId: input.submissionId,
-      kind,
-      title,
-      approverUserId: interaction.user.id,
-    });
-
-    await this["sendLongTextToChannel"]({
-      guildId: meta.homeGuildId,
-      channelId: meta.proposalsChannelId,
-      content: [
-        `【提案已确认】W${meta.id} ${meta.name} / S${input.submissionId}`,
-        `类型：${kind} 标题：${title}`,
-        `已写入：canon/${filename}`,
-      ].join("\n"),
-    });
-
     await safeReply(
       interaction,
-      `已确认：S${input.submissionId}（写入 canon/${filename}）`,
+      `已确认：S${input.submissionId}（写入 canon/${approved.filename}）`,
       { ephemeral: true },
     );
   };
@@ -1479,10 +1482,10 @@ export function installDiscordAdapterWorldLifecycle(DiscordAdapterClass: {
       });
       return;
     }
-    if (meta.status === "draft" && meta.creatorId !== interaction.user.id) {
+    if (!(await canViewWorld(this["worldStore"], meta, interaction.user.id))) {
       await safeReply(
         interaction,
-        `世界尚未发布：W${meta.id}（仅创作者可见）`,
+        `世界尚未发布：W${meta.id}（仅创作者与世界工作人员可见）`,
         {
           ephemeral: true,
         },
@@ -1490,29 +1493,13 @@ export function installDiscordAdapterWorldLifecycle(DiscordAdapterClass: {
       return;
     }
 
-    const lowered = query.toLowerCase();
-    const hits: string[] = [];
-
-    const [card, rules] = await Promise.all([
-      this["worldFiles"].readWorldCard(meta.id),
-      this["worldFiles"].readRules(meta.id),
-    ]);
-    if (card?.toLowerCase().includes(lowered)) hits.push("world-card.md");
-    if (rules?.toLowerCase().includes(lowered)) hits.push("rules.md");
-
-    const canonFiles = [
-      "chronicle.md",
-      "tasks.md",
-      "news.md",
-      "canon.md",
-    ] as const;
-    for (const filename of canonFiles) {
-      const content = await this["worldFiles"].readCanon(meta.id, filename);
-      if (content?.toLowerCase().includes(lowered)) {
-        hits.push(`canon/${filename}`);
-      }
-    }
+    const hits = await this["worldFiles"].searchWorld(meta.id, query, {
+      limit: CHECK_SEARCH_LIMIT,
+    });
 
+    // Pending submissions are not canon yet, so they stay out of the index.
+    const lowered = query.toLowerCase();
+    const pendingHits: string[] = [];
     const pendingIds = await this["worldFiles"].listSubmissionIds(
       meta.id,
       "pending",
@@ -1525,41 +1512,36 @@ export function installDiscordAdapterWorldLifecycle(DiscordAdapterClass: {
         id,
       );
       if (content?.toLowerCase().includes(lowered)) {
-        hits.push(`submissions/pending/${id}.md`);
-      }
-    }
-    const approvedIds = await this["worldFiles"].listSubmissionIds(
-      meta.id,
-      "approved",
-      50,
-    );
-    for (const id of approvedIds) {
-      const content = await this["worldFiles"].readSubmission(
-        meta.id,
-        "approved",
-        id,
-      );
-      if (content?.toLowerCase().includes(lowered)) {
-        hits.push(`submissions/approved/${id}.md`);
+        pendingHits.push(`submissions/pending/${id}.md`);
       }
     }
 
-    if (hits.length === 0) {
+    if (hits.length === 0 && pendingHits.length === 0) {
       await safeReply(
         interaction,
-        `W${meta.id} ${meta.name}\n未找到包含「${query}」的内容。`,
+        `W${meta.id} ${meta.name}\n未找到与「${query}」相关的内容。`,
         { ephemeral: true },
       );
       return;
     }
 
-    const lines = hits.slice(0, 30).map((hit) => `- ${hit}`);
-    await safeReply(
-      interaction,
-      [`W${meta.id} ${meta.name}`, `命中 ${hits.length} 处：`, ...lines].join(
-        "\n",
-      ),
-      { ephemeral: true },
-    );
+    const lines = [`W${meta.id} ${meta.name}`];
+    if (hits.length > 0) {
+      lines.push(
+        `已确认内容中相关度最高的 ${hits.length} 段：`,
+        ...formatWorldSearchHits(hits),
+      );
+    }
+    if (pendingHits.length > 0) {
+      lines.push(
+        `待确认提案命中 ${pendingHits.length} 处：`,
+        ...pendingHits.slice(0, 10).map((hit) => `- ${hit}`),
+      );
+    }
+    let content = lines.join("\n");
+    if (content.length > 1_900) {
+      content = `${content.slice(0, 1_900)}\n…（已截断）`;
+    }
+    await safeReply(interaction, content, { ephemeral: true });
   };
 }
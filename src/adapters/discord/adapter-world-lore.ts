@@ -0,0 +1,352 @@
+import type { DiscordAdapter } from "./adapter";
+import type { UserLanguage } from "../../user/state-store";
+import {
+  DEFAULT_WORLD_LORE_PRIORITY,
+  parseWorldLoreImport,
+  validateWorldLoreRegex,
+  type WorldLoreEntry,
+  type WorldLoreEntryInput,
+} from "../../world/lorebook";
+import {
+  buildWorldPermissionDeniedMessage,
+  canPerformWorldAction,
+} from "../../world/permissions";
+import { pickByLanguage } from "./adapter-internals";
+import { safeDefer, safeReply } from "./interaction-helpers";
+import {
+  DEFAULT_DISCORD_TEXT_ATTACHMENT_MAX_BYTES,
+  fetchDiscordTextAttachment,
+} from "./text-attachments";
+import type { Attachment, ChatInputCommandInteraction } from "discord.js";
+
+type WorldLoreFields = {
+  title?: string;
+  keys?: string[];
+  content?: string;
+  priority?: number;
+  budgetBytes?: number;
+  /** Empty string clears the regex. */
+  regex?: string;
+  enabled?: boolean;
+};
+
+type WorldLoreCommand =
+  | { action: "list"; worldId: number }
+  | {
+      action: "add";
+      worldId: number;
+      fields: WorldLoreFields & {
+        title: string;
+        keys: string[];
+        content: string;
+      };
+    }
+  | {
+      action: "edit";
+      worldId: number;
+      entryId: number;
+      fields: WorldLoreFields;
+    }
+  | { action: "remove"; worldId: number; entryId: number }
+  | { action: "import"; worldId: number; file: Attachment; replace: boolean };
+
+const LORE_LIST_MAX_CHARS = 1_800;
+
+function formatLoreEntryLine(
+  entry: WorldLoreEntry,
+  language: UserLanguage | null,
+): string {
+  const flags = [
+    `P${entry.priority}`,
+    entry.budgetBytes > 0 ? `≤${entry.budgetBytes}B` : null,
+    entry.regex ? `/${entry.regex}/` : null,
+    entry.enabled ? null : pickByLanguage(language, "已停用", "disabled"),
+  ].filter((flag): flag is string => Boolean(flag));
+  return `- #${entry.id} ${entry.title} · ${entry.keys.join(", ") || "-"} · ${flags.join(" · ")}`;
+}
+
+function formatLoreList(
+  worldId: number,
+  entries: WorldLoreEntry[],
+  language: UserLanguage | null,
+): string {
+  if (entries.length === 0) {
+    return pickByLanguage(
+      language,
+      `W${worldId} 还没有设定条目：用 /world lore add 或 /world lore import 添加。`,
+      `W${worldId} has no lore entries yet: use /world lore add or /world lore import.`,
+    );
+  }
+  const lines = [
+    pickByLanguage(
+      language,
+      `W${worldId} 设定条目（${entries.length}）：`,
+      `W${worldId} lore entries (${entries.length}):`,
+    ),
+  ];
+  const sorted = [...entries].sort(
+    (a, b) => b.priority - a.priority || a.id - b.id,
+  );
+  for (const [index, entry] of sorted.entries()) {
+    const line = formatLoreEntryLine(entry, language);
+    if (lines.join("\n").length + line.length + 1 > LORE_LIST_MAX_CHARS) {
+      lines.push(
+        pickByLanguage(
+          language,
+          `……另有 ${sorted.length - index} 条`,
+          `…and ${sorted.length - index} more`,
+        ),
+      );
+      break;
+    }
+    lines.push(line);
+  }
+  return lines.join("\n");
+}
+
+/** Returns an error message, or null when the fields are valid. */
+function validateLoreFields(
+  fields: WorldLoreFields,
+  language: UserLanguage | null,
+): string | null {
+  if (fields.keys && fields.keys.length === 0 && !fields.regex) {
+    return pickByLanguage(
+      language,
+      "至少需要一个触发关键词（用逗号分隔）。",
+      "At least one trigger keyword is required (comma separated).",
+    );
+  }
+  const regexError = fields.regex ? validateWorldLoreRegex(fields.regex) : null;
+  if (regexError) {
+    return pickByLanguage(
+      language,
+      `正则无效：${regexError}`,
+      `Invalid regex: ${regexError}`,
+    );
+  }
+  return null;
+}
+
+export function installDiscordAdapterWorldLore(DiscordAdapterClass: {
+  prototype: DiscordAdapter;
+}): void {
+  (
+    DiscordAdapterClass.prototype as unknown as Record<string, unknown>
+  ).handleWorldLore = async function (
+    this: DiscordAdapter,
+    interaction: ChatInputCommandInteraction,
+    input: WorldLoreCommand,
+  ): Promise<void> {
+    await safeDefer(interaction, { ephemeral: true });
+    const language = await this["userState"]
+      .getLanguage(interaction.user.id)
+      .catch(() => null);
+    const meta = await this["worldStore"].getWorld(input.worldId);
+    if (!meta) {
+      await safeReply(
+        interaction,
+        pickByLanguage(
+          language,
+          `世界不存在：W${input.worldId}`,
+          `World not found: W${input.worldId}`,
+        ),
+        { ephemeral: true },
+      );
+      return;
+    }
+    // Lore often spoils the story, so even listing is kept to the staff.
+    if (
+      !(await canPerformWorldAction(
+        this["worldStore"],
+        meta,
+        interaction.user.id,
+        "edit",
+      ))
+    ) {
+      await safeReply(
+        interaction,
+        buildWorldPermissionDeniedMessage("edit", language),
+        { ephemeral: true },
+      );
+      return;
+    }
+
+    if (input.action === "list") {
+      const lorebook = await this["worldFiles"].readWorldLorebook(meta.id);
+      await safeReply(
+        interaction,
+        formatLoreList(meta.id, lorebook.entries, language),
+        { ephemeral: true },
+      );
+      return;
+    }
+
+    if (input.action === "add" || input.action === "edit") {
+      const error = validateLoreFields(input.fields, language);
+      if (error) {
+        await safeReply(interaction, error, { ephemeral: true });
+        return;
+      }
+    }
+
+    let imported: WorldLoreEntryInput[] = [];
+    if (input.action === "import") {
+      try {
+        const doc = await fetchDiscordTextAttachment(input.file, {
+          logger: this["logger"],
+          maxBytes: DEFAULT_DISCORD_TEXT_ATTACHMENT_MAX_BYTES,
+        });
+        imported = parseWorldLoreImport(doc.content);
+      } catch (err) {
+        await safeReply(
+          interaction,
+          pickByLanguage(
+            language,
+            `读取设定条目失败：${err instanceof Error ? err.message : String(err)}`,
+            `Failed to read lore entries: ${err instanceof Error ? err.message : String(err)}`,
+          ),
+          { ephemeral: true },
+        );
+        return;
+      }
+      if (imported.length === 0) {
+        await safeReply(
+          interaction,
+          pickByLanguage(
+            language,
+            "文件中没有可导入的设定条目。",
+            "The file has no lore entries to import.",
+          ),
+          { ephemeral: true },
+        );
+        return;
+      }
+    }
+
+    const now = new Date().toISOString();
+    const userId = interaction.user.id;
+    const result = await this["worldFiles"].updateWorldLorebook(
+      meta.id,
+      (lorebook): WorldLoreEntry | number | null => {
+        if (input.action === "add") {
+          const entry: WorldLoreEntry = {
+            id: lorebook.nextId,
+            title: input.fields.title,
+            keys: input.fields.keys,
+            regex: input.fields.regex || undefined,
+            content: input.fields.content,
+            priority: input.fields.priority ?? DEFAULT_WORLD_LORE_PRIORITY,
+            budgetBytes: input.fields.budgetBytes ?? 0,
+            enabled: input.fields.enabled ?? true,
+            authorId: userId,
+            createdAt: now,
+            updatedAt: now,
+          };
+          lorebook.nextId += 1;
+          lorebook.entries.push(entry);
+          return entry;
+        }
+        if (input.action === "import") {
+          if (input.replace) {
+            lorebook.entries = [];
+          }
+          for (const fields of imported) {
+            lorebook.entries.push({
+              ...fields,
+              id: lorebook.nextId,
+              authorId: userId,
+              createdAt: now,
+              updatedAt: now,
+            });
+            lorebook.nextId += 1;
+          }
+          return imported.length;
+        }
+        const index = lorebook.entries.findIndex(
+          (entry) => entry.id === input.entryId,
+        );
+        const existing = lorebook.entries[index];
+        if (!existing) {
+          return null;
+        }
+        if (input.action === "remove") {
+          lorebook.entries.splice(index, 1);
+          return existing;
+        }
+        const { regex, ...rest } = input.fields;
+        const updated: WorldLoreEntry = {
+          ...existing,
+          ...Object.fromEntries(
+            Object.entries(rest).filter(([, value]) => value !== undefined),
+          ),
+          regex: regex === undefined ? existing.regex : regex || undefined,
+          updatedAt: now,
+        };
+        if (updated.keys.length === 0 && !updated.regex) {
+          return null;
+        }
+        lorebook.entries[index] = updated;
+        return updated;
+      },
+    );
+
+    if (result === null) {
+      await safeReply(
+        interaction,
+        input.action === "edit" || input.action === "remove"
+          ? pickByLanguage(
+              language,
+              `设定条目不存在或修改后缺少触发词：#${input.entryId}`,
+              `Lore entry not found, or left without triggers: #${input.entryId}`,
+            )
+          : pickByLanguage(language, "操作失败。", "Nothing changed."),
+        { ephemeral: true },
+      );
+      return;
+    }
+
+    await this["worldFiles"].appendEvent(meta.id, {
+      type: "world_lore_updated",
+      worldId: meta.id,
+      action: input.action,
+      entryId: typeof result === "number" ? undefined : result.id,
+      count: typeof result === "number" ? result : undefined,
+      userId,
+    });
+
+    if (typeof result === "number") {
+      await safeReply(
+        interaction,
+        pickByLanguage(
+          language,
+          `已导入 ${result} 条设定条目到 W${meta.id}${input.action === "import" && input.replace ? "（已替换原有条目）" : ""}。`,
+          `Imported ${result} lore entries into W${meta.id}${input.action === "import" && input.replace ? " (replacing the old ones)" : ""}.`,
+        ),
+        { ephemeral: true },
+      );
+      return;
+    }
+    const line = formatLoreEntryLine(result, language);
+    await safeReply(
+      interaction,
+      input.action === "add"
+        ? pickByLanguage(
+            language,
+            `已添加设定条目：\n${line}`,
+            `Lore entry added:\n${line}`,
+          )
+        : input.action === "remove"
+          ? pickByLanguage(
+              language,
+              `已删除设定条目 #${result.id} ${result.title}`,
+              `Removed lore entry #${result.id} ${result.title}`,
+            )
+          : pickByLanguage(
+              language,
+              `已更新设定条目：\n${line}`,
+              `Lore entry updated:\n${line}`,
+            ),
+      { ephemeral: true },
+    );
+  };
+}
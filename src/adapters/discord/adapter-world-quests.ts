@@ -0,0 +1,315 @@
+import type { DiscordAdapter } from "./adapter";
+import type { UserLanguage } from "../../user/state-store";
+import {
+  formatWorldQuestDetail,
+  formatWorldQuestSummary,
+  joinWorldQuest,
+  leaveWorldQuest,
+  sortWorldQuests,
+  type WorldQuest,
+  type WorldQuestStatus,
+} from "../../world/quests";
+import { pickByLanguage } from "./adapter-internals";
+import { safeDefer, safeReply } from "./interaction-helpers";
+import type { ChatInputCommandInteraction } from "discord.js";
+
+type QuestListFilter = WorldQuestStatus | "all";
+
+const QUEST_LIST_MAX_CHARS = 1_800;
+
+export function installDiscordAdapterWorldQuests(DiscordAdapterClass: {
+  prototype: DiscordAdapter;
+}): void {
+  (
+    DiscordAdapterClass.prototype as unknown as Record<string, unknown>
+  ).handleQuestCommand = async function (
+    this: DiscordAdapter,
+    interaction: ChatInputCommandInteraction,
+  ): Promise<void> {
+    const subcommand = interaction.options.getSubcommand(true);
+    // Accepting or abandoning is announced to the table; lookups are private.
+    const ephemeral = subcommand === "list" || subcommand === "show";
+    await safeDefer(interaction, { ephemeral });
+    const language = await this["userState"]
+      .getLanguage(interaction.user.id)
+      .catch(() => null);
+
+    const explicitWorldId =
+      interaction.options.getInteger("world_id") ?? undefined;
+    const inferredWorldId =
+      explicitWorldId ??
+      (interaction.channelId
+        ? await this["worldStore"].getWorldIdByChannel(interaction.channelId)
+        : null) ??
+      (await this["inferWorldIdFromWorldSubspace"](interaction).catch(
+        () => null,
+      ));
+    const worldMeta = inferredWorldId
+      ? await this["worldStore"].getWorld(inferredWorldId)
+      : null;
+    if (!worldMeta) {
+      await safeReply(
+        interaction,
+        explicitWorldId
+          ? pickByLanguage(
+              language,
+              `世界不存在：W${explicitWorldId}`,
+              `World not found: W${explicitWorldId}`,
+            )
+          : pickByLanguage(
+              language,
+              "请在世界频道内执行任务指令，或提供 world_id。",
+              "Run quest commands inside the world channels, or pass world_id.",
+            ),
+        { ephemeral },
+      );
+      return;
+    }
+
+    if (subcommand === "list") {
+      const filter = (interaction.options.getString("status") ??
+        "open") as QuestListFilter;
+      const log = await this["worldFiles"].readWorldQuests(worldMeta.id);
+      const quests = sortWorldQuests(log.quests).filter(
+        (quest) => filter === "all" || quest.status === filter,
+      );
+      await safeReply(
+        interaction,
+        formatQuestList(worldMeta.id, worldMeta.name, quests, language),
+        { ephemeral },
+      );
+      return;
+    }
+
+    const questId = interaction.options.getInteger("quest_id", true);
+    if (subcommand === "show") {
+      const log = await this["worldFiles"].readWorldQuests(worldMeta.id);
+      const quest = log.quests.find((item) => item.id === questId);
+      await safeReply(
+        interaction,
+        quest
+          ? formatWorldQuestDetail(quest, language, { mentionUsers: true })
+          : buildQuestMissingMessage(worldMeta.id, questId, language),
+        { ephemeral },
+      );
+      return;
+    }
+
+    if (subcommand === "accept") {
+      if (worldMeta.status === "archived") {
+        await safeReply(
+          interaction,
+          pickByLanguage(
+            language,
+            `W${worldMeta.id} 已归档，不能再接取任务。`,
+            `W${worldMeta.id} is archived; quests can no longer be accepted.`,
+          ),
+          { ephemeral },
+        );
+        return;
+      }
+      const isMember =
+        (await this["worldStore"]
+          .isMember(worldMeta.id, interaction.user.id)
+          .catch(() => false)) ||
+        (await this["worldFiles"]
+          .hasMember(worldMeta.id, interaction.user.id)
+          .catch(() => false));
+      if (!isMember) {
+        await safeReply(
+          interaction,
+          pickByLanguage(
+            language,
+            `你尚未加入 W${worldMeta.id}：先用 /world join 加入世界再接取任务。`,
+            `You haven't joined W${worldMeta.id}: use /world join before accepting quests.`,
+          ),
+          { ephemeral },
+        );
+        return;
+      }
+      const characterId = await this["worldStore"].getActiveCharacterId({
+        worldId: worldMeta.id,
+        userId: interaction.user.id,
+      });
+      const character = characterId
+        ? await this["worldStore"].getCharacter(characterId)
+        : null;
+      const result = await this["worldFiles"].updateWorldQuests(
+        worldMeta.id,
+        (log) =>
+          joinWorldQuest(log, questId, {
+            userId: interaction.user.id,
+            ...(character
+              ? { characterId: character.id, characterName: character.name }
+              : {}),
+            joinedAt: new Date().toISOString(),
+          }),
+      );
+      if (result.kind === "missing") {
+        await safeReply(
+          interaction,
+          buildQuestMissingMessage(worldMeta.id, questId, language),
+          { ephemeral },
+        );
+        return;
+      }
+      const title = `Q${result.quest.id} ${result.quest.title}`;
+      if (result.kind !== "joined") {
+        const reasons = {
+          closed: pickByLanguage(
+            language,
+            `${title} 已结束，不能再接取。`,
+            `${title} is already closed.`,
+          ),
+          full: pickByLanguage(
+            language,
+            `${title} 参与者已满。`,
+            `${title} has no room for more participants.`,
+          ),
+          already: pickByLanguage(
+            language,
+            `你已经接下了 ${title}。`,
+            `You have already accepted ${title}.`,
+          ),
+        };
+        await safeReply(interaction, reasons[result.kind], { ephemeral });
+        return;
+      }
+      await this["worldFiles"].appendEvent(worldMeta.id, {
+        type: "quest_accepted",
+        worldId: worldMeta.id,
+        questId: result.quest.id,
+        userId: interaction.user.id,
+        characterId: character?.id ?? null,
+      });
+      const who = character
+        ? `<@${interaction.user.id}>（C${character.id} ${character.name}）`
+        : `<@${interaction.user.id}>`;
+      await safeReply(
+        interaction,
+        [
+          pickByLanguage(
+            language,
+            `${who} 接下了任务 ${title}。`,
+            `${who} accepted ${title}.`,
+          ),
+          formatWorldQuestDetail(result.quest, language, {
+            mentionUsers: true,
+          }),
+        ].join("\n\n"),
+        { ephemeral },
+      );
+      return;
+    }
+
+    if (subcommand === "abandon") {
+      const result = await this["worldFiles"].updateWorldQuests(
+        worldMeta.id,
+        (log) => leaveWorldQuest(log, questId, interaction.user.id),
+      );
+      if (result.kind === "missing") {
+        await safeReply(
+          interaction,
+          buildQuestMissingMessage(worldMeta.id, questId, language),
+          { ephemeral },
+        );
+        return;
+      }
+      const title = `Q${result.quest.id} ${result.quest.title}`;
+      if (result.kind === "not_participant") {
+        await safeReply(
+          interaction,
+          pickByLanguage(
+            language,
+            `你没有参与 ${title}。`,
+            `You are not on ${title}.`,
+          ),
+          { ephemeral },
+        );
+        return;
+      }
+      await this["worldFiles"].appendEvent(worldMeta.id, {
+        type: "quest_abandoned",
+        worldId: worldMeta.id,
+        questId: result.quest.id,
+        userId: interaction.user.id,
+      });
+      await safeReply(
+        interaction,
+        pickByLanguage(
+          language,
+          `<@${interaction.user.id}> 放弃了任务 ${title}。`,
+          `<@${interaction.user.id}> abandoned ${title}.`,
+        ),
+        { ephemeral },
+      );
+      return;
+    }
+
+    await safeReply(
+      interaction,
+      pickByLanguage(
+        language,
+        `未知子命令：/quest ${subcommand}`,
+        `Unknown subcommand: /quest ${subcommand}`,
+      ),
+      { ephemeral },
+    );
+  };
+}
+
+function formatQuestList(
+  worldId: number,
+  worldName: string,
+  quests: WorldQuest[],
+  language: UserLanguage | null,
+): string {
+  if (quests.length === 0) {
+    return pickByLanguage(
+      language,
+      `W${worldId} ${worldName} 暂无符合条件的任务：任务会在游玩中由主持人发布。`,
+      `W${worldId} ${worldName} has no matching quests: the narrator posts quests during play.`,
+    );
+  }
+  const lines = [
+    pickByLanguage(
+      language,
+      `W${worldId} ${worldName} 任务（${quests.length}）：`,
+      `W${worldId} ${worldName} quests (${quests.length}):`,
+    ),
+  ];
+  for (const [index, quest] of quests.entries()) {
+    const line = `- ${formatWorldQuestSummary(quest, language)}`;
+    if (lines.join("\n").length + line.length + 1 > QUEST_LIST_MAX_CHARS) {
+      lines.push(
+        pickByLanguage(
+          language,
+          `……另有 ${quests.length - index} 个`,
+          `…and ${quests.length - index} more`,
+        ),
+      );
+      break;
+    }
+    lines.push(line);
+  }
+  lines.push(
+    pickByLanguage(
+      language,
+      "用 /quest show quest_id:<编号> 查看详情，/quest accept 接取。",
+      "Use /quest show quest_id:<ID> for details and /quest accept to take one.",
+    ),
+  );
+  return lines.join("\n");
+}
+
+function buildQuestMissingMessage(
+  worldId: number,
+  questId: number,
+  language: UserLanguage | null,
+): string {
+  return pickByLanguage(
+    language,
+    `W${worldId} 没有任务 Q${questId}。`,
+    `W${worldId} has no quest Q${questId}.`,
+  );
+}
@@ -0,0 +1,224 @@
+import type { DiscordAdapter } from "./adapter";
+import type { WorldRevisionRecord } from "../../world/file-store";
+import {
+  buildWorldPermissionDeniedMessage,
+  canPerformWorldAction,
+  type WorldAction,
+} from "../../world/permissions";
+import type { WorldMeta } from "../../world/store";
+import { buildLineDiff } from "../../world/revision-diff";
+import { safeDefer, safeReply } from "./interaction-helpers";
+import type { ChatInputCommandInteraction } from "discord.js";
+
+const HISTORY_LIMIT = 20;
+const DIFF_MAX_CHARS = 1_800;
+
+const SOURCE_LABELS: Record<WorldRevisionRecord["source"], string> = {
+  command: "指令",
+  ai_session: "AI 会话",
+  import: "导入",
+  approval: "审核通过",
+  rollback: "回滚",
+  baseline: "初始快照",
+};
+
+function formatRevisionLine(record: WorldRevisionRecord): string {
+  const restored =
+    record.restoredFrom !== undefined
+      ? `（恢复自 r${record.restoredFrom}）`
+      : "";
+  const author = record.source === "baseline" ? "系统" : `<@${record.author}>`;
+  return `r${record.rev} · ${record.file} · ${SOURCE_LABELS[record.source]} · ${author} · ${record.createdAt}${restored}`;
+}
+
+async function resolvePermittedWorld(
+  adapter: DiscordAdapter,
+  interaction: ChatInputCommandInteraction,
+  worldIdInput: number | undefined,
+  action: WorldAction,
+): Promise<WorldMeta | null> {
+  const worldId =
+    worldIdInput ??
+    (await adapter["inferWorldIdFromWorldSubspace"](interaction).catch(
+      () => null,
+    ));
+  if (!worldId) {
+    await safeReply(
+      interaction,
+      "缺少 world_id：请在世界子空间频道内执行，或显式提供 world_id。",
+      { ephemeral: true },
+    );
+    return null;
+  }
+  const meta = await adapter["worldStore"].getWorld(worldId);
+  if (!meta) {
+    await safeReply(interaction, `世界不存在：W${worldId}`, {
+      ephemeral: true,
+    });
+    return null;
+  }
+  if (
+    !(await canPerformWorldAction(
+      adapter["worldStore"],
+      meta,
+      interaction.user.id,
+      action,
+    ))
+  ) {
+    await safeReply(interaction, buildWorldPermissionDeniedMessage(action), {
+      ephemeral: true,
+    });
+    return null;
+  }
+  return meta;
+}
+
+export function installDiscordAdapterWorldRevisions(DiscordAdapterClass: {
+  prototype: DiscordAdapter;
+}): void {
+  (
+    DiscordAdapterClass.prototype as unknown as Record<string, unknown>
+  ).handleWorldHistory = async function (
+    this: DiscordAdapter,
+    interaction: ChatInputCommandInteraction,
+    input: { worldId?: number; file?: string },
+  ): Promise<void> {
+    await safeDefer(interaction, { ephemeral: true });
+    const meta = await resolvePermittedWorld(
+      this,
+      interaction,
+      input.worldId,
+      "view_history",
+    );
+    if (!meta) {
+      return;
+    }
+    const revisions = await this["worldFiles"].listRevisions(meta.id, {
+      file: input.file?.trim() || undefined,
+      limit: HISTORY_LIMIT,
+    });
+    if (revisions.length === 0) {
+      await safeReply(interaction, `W${meta.id} ${meta.name}\n暂无版本记录。`, {
+        ephemeral: true,
+      });
+      return;
+    }
+    await safeReply(
+      interaction,
+      [
+        `W${meta.id} ${meta.name} 最近 ${revisions.length} 个版本：`,
+        ...revisions.map((record) => `- ${formatRevisionLine(record)}`),
+        "",
+        "查看改动：/world revision diff rev:<版本号>；回滚：/world revision rollback rev:<版本号>",
+      ].join("\n"),
+      { ephemeral: true },
+    );
+  };
+
+  (
+    DiscordAdapterClass.prototype as unknown as Record<string, unknown>
+  ).handleWorldDiff = async function (
+    this: DiscordAdapter,
+    interaction: ChatInputCommandInteraction,
+    input: { rev: number; worldId?: number },
+  ): Promise<void> {
+    await safeDefer(interaction, { ephemeral: true });
+    const meta = await resolvePermittedWorld(
+      this,
+      interaction,
+      input.worldId,
+      "view_history",
+    );
+    if (!meta) {
+      return;
+    }
+    const target = await this["worldFiles"].readRevision(meta.id, input.rev);
+    if (!target) {
+      await safeReply(interaction, `版本不存在：W${meta.id} r${input.rev}`, {
+        ephemeral: true,
+      });
+      return;
+    }
+    const previous = await this["worldFiles"].readPreviousRevision(
+      meta.id,
+      target.record,
+    );
+    const diff = buildLineDiff(previous?.content ?? "", target.content);
+    const header = [
+      `W${meta.id} ${formatRevisionLine(target.record)}`,
+      previous
+        ? `对比 r${previous.record.rev}：+${diff.added} / -${diff.removed}`
+        : `首个版本：+${diff.added}`,
+    ];
+    if (diff.truncated) {
+      await safeReply(
+        interaction,
+        [...header, "文件过大，无法生成差异；请在 wiki 中查看该版本。"].join(
+          "\n",
+        ),
+        { ephemeral: true },
+      );
+      return;
+    }
+    if (diff.lines.length === 0) {
+      await safeReply(interaction, [...header, "内容无变化。"].join("\n"), {
+        ephemeral: true,
+      });
+      return;
+    }
+    let body = diff.lines.join("\n");
+    if (body.length > DIFF_MAX_CHARS) {
+      body = `${body.slice(0, DIFF_MAX_CHARS)}\n…（已截断）`;
+    }
+    await safeReply(
+      interaction,
+      [...header, "```diff", body.replace(/```/g, "`\u200b``"), "```"].join(
+        "\n",
+      ),
+      { ephemeral: true },
+    );
+  };
+
+  (
+    DiscordAdapterClass.prototype as unknown as Record<string, unknown>
+  ).handleWorldRollback = async function (
+    this: DiscordAdapter,
+    interaction: ChatInputCommandInteraction,
+    input: { rev: number; worldId?: number },
+  ): Promise<void> {
+    await safeDefer(interaction, { ephemeral: true });
+    const meta = await resolvePermittedWorld(
+      this,
+      interaction,
+      input.worldId,
+      "rollback",
+    );
+    if (!meta) {
+      return;
+    }
+    const record = await this["worldFiles"].rollbackToRevision(
+      meta.id,
+      input.rev,
+      interaction.user.id,
+    );
+    if (!record) {
+      await safeReply(interaction, `版本不存在：W${meta.id} r${input.rev}`, {
+        ephemeral: true,
+      });
+      return;
+    }
+    await this["worldFiles"].appendEvent(meta.id, {
+      type: "world_file_rolled_back",
+      worldId: meta.id,
+      file: record.file,
+      rev: record.rev,
+      restoredFrom: input.rev,
+      userId: interaction.user.id,
+    });
+    await safeReply(
+      interaction,
+      `已回滚：W${meta.id} ${record.file} → r${input.rev}（新版本 r${record.rev}）`,
+      { ephemeral: true },
+    );
+  };
+}
@@ -0,0 +1,298 @@
+import type { DiscordAdapter } from "./adapter";
+import type { UserLanguage } from "../../user/state-store";
+import {
+  buildWorldPermissionDeniedMessage,
+  canPerformWorldAction,
+  formatWorldRole,
+} from "../../world/permissions";
+import type {
+  WorldMeta,
+  WorldStaffEntry,
+  WorldStaffRole,
+} from "../../world/store";
+import { pickByLanguage } from "./adapter-internals";
+import { safeDefer, safeReply } from "./interaction-helpers";
+import {
+  buildArchivedWorldOverwrites,
+  buildWorldBaseOverwrites,
+  type PermissionOverwrite,
+} from "./permission-overwrites";
+import { ChannelType, type ChatInputCommandInteraction } from "discord.js";
+
+type WorldStaffCommand =
+  | { action: "list"; worldId: number }
+  | {
+      action: "add" | "remove";
+      worldId: number;
+      userId: string;
+      role: WorldStaffRole;
+    };
+
+function formatStaffList(
+  meta: WorldMeta,
+  staff: WorldStaffEntry[],
+  language: UserLanguage | null,
+): string {
+  return [
+    pickByLanguage(
+      language,
+      `W${meta.id} ${meta.name} 工作人员：`,
+      `W${meta.id} ${meta.name} staff:`,
+    ),
+    `- <@${meta.creatorId}> · ${formatWorldRole("owner", language)}`,
+    ...staff.map(
+      (entry) =>
+        `- <@${entry.userId}> · ${formatWorldRole(entry.role, language)}`,
+    ),
+    staff.length === 0
+      ? pickByLanguage(
+          language,
+          "（暂无编辑或管理员）",
+          "(no editors or moderators yet)",
+        )
+      : null,
+  ]
+    .filter((line): line is string => Boolean(line))
+    .join("\n");
+}
+
+/**
+ * Re-applies the overwrites of every world channel from the current owner,
+ * staff and status (archived worlds are frozen). Best-effort: Discord
+ * failures are logged, never thrown.
+ */
+export async function syncWorldChannelOverwrites(
+  adapter: DiscordAdapter,
+  meta: WorldMeta,
+  reason: string,
+): Promise<void> {
+  if (meta.status === "draft") {
+    return;
+  }
+  const guild = await adapter["client"].guilds
+    .fetch(meta.homeGuildId)
+    .catch(() => null);
+  if (!guild) {
+    return;
+  }
+  const input = {
+    everyoneRoleId: guild.roles.everyone.id,
+    worldRoleId: meta.roleId,
+    creatorUserId: meta.creatorId,
+    botUserId: adapter["botUserId"] ?? adapter["client"].user?.id ?? "",
+    staff: await adapter["worldStore"].listWorldStaff(meta.id),
+  };
+  const overwrites =
+    meta.status === "archived"
+      ? buildArchivedWorldOverwrites(input)
+      : buildWorldBaseOverwrites(input);
+  const targets: Array<[string | undefined, PermissionOverwrite[]]> = [
+    [meta.infoChannelId, overwrites.info],
+    [meta.joinChannelId, overwrites.join],
+    [meta.roleplayChannelId, overwrites.roleplay],
+    [meta.forumChannelId, overwrites.forum],
+    [meta.proposalsChannelId, overwrites.proposals],
+    [meta.voiceChannelId, overwrites.voice],
+  ];
+  for (const [channelId, values] of targets) {
+    if (!channelId) {
+      continue;
+    }
+    try {
+      const channel = await guild.channels.fetch(channelId);
+      if (channel && !channel.isThread()) {
+        await channel.permissionOverwrites.set(values, reason);
+      }
+    } catch (err) {
+      adapter["logger"].warn(
+        { err, worldId: meta.id, channelId },
+        "Failed to sync world channel permissions",
+      );
+    }
+  }
+}
+
+/**
+ * Grants editors (or revokes from anyone else) access to the owner's
+ * workshop channel and the world's build thread.
+ */
+export async function syncWorldBuildAccess(
+  adapter: DiscordAdapter,
+  meta: WorldMeta,
+  change: { userId: string; role: WorldStaffRole | null },
+  reason: string,
+): Promise<void> {
+  const guild = await adapter["client"].guilds
+    .fetch(meta.homeGuildId)
+    .catch(() => null);
+  if (!guild) {
+    return;
+  }
+
+  // The workshop is shared by all of the owner's worlds, so only the changed
+  // user's overwrite is touched.
+  const isEditor = change.role === "editor";
+  try {
+    const workshop = guild.channels.cache.find(
+      (candidate) =>
+        candidate.type === ChannelType.GuildText &&
+        candidate.name === `world-workshop-${meta.creatorId}`,
+    );
+    if (workshop && workshop.type === ChannelType.GuildText) {
+      if (isEditor) {
+        await workshop.permissionOverwrites.edit(
+          change.userId,
+          {
+            ViewChannel: true,
+            ReadMessageHistory: true,
+            SendMessages: true,
+            SendMessagesInThreads: true,
+          },
+          { reason },
+        );
+      } else {
+        await workshop.permissionOverwrites.delete(change.userId, reason);
+      }
+    }
+    const buildChannelId = meta.buildChannelId?.trim() ?? "";
+    const thread = buildChannelId
+      ? await guild.channels.fetch(buildChannelId).catch(() => null)
+      : null;
+    if (thread?.isThread()) {
+      if (isEditor) {
+        await thread.members.add(change.userId);
+      } else {
+        await thread.members.remove(change.userId);
+      }
+    }
+  } catch (err) {
+    adapter["logger"].warn(
+      { err, worldId: meta.id, userId: change.userId },
+      "Failed to sync world staff build access",
+    );
+  }
+}
+
+export function installDiscordAdapterWorldStaff(DiscordAdapterClass: {
+  prototype: DiscordAdapter;
+}): void {
+  (
+    DiscordAdapterClass.prototype as unknown as Record<string, unknown>
+  ).handleWorldStaff = async function (
+    this: DiscordAdapter,
+    interaction: ChatInputCommandInteraction,
+    input: WorldStaffCommand,
+  ): Promise<void> {
+    await safeDefer(interaction, { ephemeral: true });
+    const language = await this["userState"]
+      .getLanguage(interaction.user.id)
+      .catch(() => null);
+    const meta = await this["worldStore"].getWorld(input.worldId);
+    if (!meta) {
+      await safeReply(
+        interaction,
+        pickByLanguage(
+          language,
+          `世界不存在：W${input.worldId}`,
+          `World not found: W${input.worldId}`,
+        ),
+        { ephemeral: true },
+      );
+      return;
+    }
+
+    if (input.action === "list") {
+      const staff = await this["worldStore"].listWorldStaff(meta.id);
+      await safeReply(interaction, formatStaffList(meta, staff, language), {
+        ephemeral: true,
+      });
+      return;
+    }
+
+    if (
+      !(await canPerformWorldAction(
+        this["worldStore"],
+        meta,
+        interaction.user.id,
+        "manage_staff",
+      ))
+    ) {
+      await safeReply(
+        interaction,
+        buildWorldPermissionDeniedMessage("manage_staff", language),
+        { ephemeral: true },
+      );
+      return;
+    }
+    if (input.userId === meta.creatorId) {
+      await safeReply(
+        interaction,
+        pickByLanguage(
+          language,
+          "创作者已拥有全部权限，无需设置。",
+          "The owner already has every permission.",
+        ),
+        { ephemeral: true },
+      );
+      return;
+    }
+
+    let role: WorldStaffRole | null = null;
+    if (input.action === "add") {
+      await this["worldStore"].setWorldStaffRole({
+        worldId: meta.id,
+        userId: input.userId,
+        role: input.role,
+      });
+      role = input.role;
+    } else {
+      const removed = await this["worldStore"].removeWorldStaff(
+        meta.id,
+        input.userId,
+      );
+      if (!removed) {
+        await safeReply(
+          interaction,
+          pickByLanguage(
+            language,
+            `<@${input.userId}> 不是 W${meta.id} 的工作人员。`,
+            `<@${input.userId}> is not on the staff of W${meta.id}.`,
+          ),
+          { ephemeral: true },
+        );
+        return;
+      }
+    }
+    await this["worldFiles"].appendEvent(meta.id, {
+      type: "world_staff_updated",
+      worldId: meta.id,
+      targetUserId: input.userId,
+      role,
+      userId: interaction.user.id,
+    });
+    const reason = `world staff sync W${meta.id}`;
+    await syncWorldChannelOverwrites(this, meta, reason);
+    await syncWorldBuildAccess(
+      this,
+      meta,
+      { userId: input.userId, role },
+      reason,
+    );
+
+    await safeReply(
+      interaction,
+      role
+        ? pickByLanguage(
+            language,
+            `已将 <@${input.userId}> 设为 W${meta.id} 的${formatWorldRole(role, language)}。`,
+            `<@${input.userId}> is now ${formatWorldRole(role, language)} of W${meta.id}.`,
+          )
+        : pickByLanguage(
+            language,
+            `已移除 <@${input.userId}> 在 W${meta.id} 的工作人员身份。`,
+            `Removed <@${input.userId}> from the staff of W${meta.id}.`,
+          ),
+      { ephemeral: true },
+    );
+  };
+}
@@ -0,0 +1,738 @@
+import type { DiscordAdapter } from "./adapter";
+import type { WorldSubmissionStatus } from "../../world/file-store";
+import {
+  buildWorldPermissionDeniedMessage,
+  canPerformWorldAction,
+  canViewWorld,
+} from "../../world/permissions";
+import type {
+  WorldActiveMeta,
+  WorldSubmissionTally,
+} from "../../world/store-types";
+import { splitDiscordMessage } from "./card-parsers";
+import { safeDefer, safeReply } from "./interaction-helpers";
+import {
+  buildWorldSubmissionButtons,
+  buildWorldSubmissionCommentModal,
+  buildWorldSubmissionProposalContent,
+  shouldAutoApproveSubmission,
+  WORLD_SUBMISSION_COMMENT_INPUT_ID,
+  type WorldSubmissionAction,
+} from "./world-submission-components";
+import { parseWorldSubmissionMarkdown } from "./world-showcase-builders";
+import type {
+  ButtonInteraction,
+  ChatInputCommandInteraction,
+  ModalSubmitInteraction,
+} from "discord.js";
+
+const SUBMISSIONS_PAGE_SIZE = 10;
+const COMMENT_THREAD_AUTO_ARCHIVE_MINUTES = 10_080;
+
+type SubmissionSummary = {
+  kind: string;
+  title: string;
+  submitterUserId: string;
+  content: string;
+};
+
+function summarizeSubmission(
+  raw: string,
+  submissionId: number,
+): SubmissionSummary {
+  const parsed = parseWorldSubmissionMarkdown(raw);
+  return {
+    kind: parsed?.kind ?? "canon",
+    title: parsed?.title ?? `(S${submissionId})`,
+    submitterUserId: parsed?.submitterUserId ?? "",
+    content: parsed?.content ?? raw.trim(),
+  };
+}
+
+function resolveCanonFilename(kind: string): string {
+  return kind === "chronicle"
+    ? "chronicle.md"
+    : kind === "task"
+      ? "tasks.md"
+      : kind === "news"
+        ? "news.md"
+        : "canon.md";
+}
+
+export function installDiscordAdapterWorldSubmissions(DiscordAdapterClass: {
+  prototype: DiscordAdapter;
+}): void {
+  (
+    DiscordAdapterClass.prototype as unknown as Record<string, unknown>
+  ).postWorldSubmissionProposal = async function (
+    this: DiscordAdapter,
+    meta: WorldActiveMeta,
+    input: {
+      submissionId: number;
+      kind: string;
+      title: string;
+      submitterUserId: string;
+    },
+  ): Promise<boolean> {
+    const channel = await this["client"].channels
+      .fetch(meta.proposalsChannelId)
+      .catch(() => null);
+    if (!channel || !channel.isSendable()) {
+      return false;
+    }
+    const tally: WorldSubmissionTally = { up: 0, down: 0 };
+    const message = await channel
+      .send({
+        content: buildWorldSubmissionProposalContent({
+          worldId: meta.id,
+          worldName: meta.name,
+          submissionId: input.submissionId,
+          kind: input.kind,
+          title: input.title,
+          submitterUserId: input.submitterUserId,
+          status: "pending",
+          tally,
+          autoApproveVotes: meta.submissionAutoApproveVotes,
+        }),
+        components: buildWorldSubmissionButtons({
+          worldId: meta.id,
+          submissionId: input.submissionId,
+          status: "pending",
+          tally,
+        }),
+        allowedMentions: { parse: [] },
+      })
+      .catch((err) => {
+        this["logger"].warn(
+          { err, worldId: meta.id, submissionId: input.submissionId },
+          "Failed to post world submission proposal",
+        );
+        return null;
+      });
+    if (!message) {
+      return false;
+    }
+    const thread = await message
+      .startThread({
+        name: `S${input.submissionId} ${input.title}`.slice(0, 100),
+        autoArchiveDuration: COMMENT_THREAD_AUTO_ARCHIVE_MINUTES,
+      })
+      .catch(() => null);
+    await this["worldStore"].setWorldSubmissionMessage({
+      worldId: meta.id,
+      submissionId: input.submissionId,
+      ref: {
+        channelId: message.channelId,
+        messageId: message.id,
+        threadId: thread?.id,
+      },
+    });
+    return true;
+  };
+
+  (
+    DiscordAdapterClass.prototype as unknown as Record<string, unknown>
+  ).refreshWorldSubmissionProposal = async function (
+    this: DiscordAdapter,
+    meta: WorldActiveMeta,
+    submissionId: number,
+    input: { status: WorldSubmissionStatus; note?: string },
+  ): Promise<void> {
+    const ref = await this["worldStore"]
+      .getWorldSubmissionMessage(meta.id, submissionId)
+      .catch(() => null);
+    if (!ref) {
+      return;
+    }
+    const raw =
+      (await this["worldFiles"].readSubmission(
+        meta.id,
+        input.status,
+        submissionId,
+      )) ?? "";
+    const summary = summarizeSubmission(raw, submissionId);
+    const tally = await this["worldStore"].getWorldSubmissionTally(
+      meta.id,
+      submissionId,
+    );
+    const channel = await this["client"].channels
+      .fetch(ref.channelId)
+      .catch(() => null);
+    if (!channel || !channel.isTextBased()) {
+      return;
+    }
+    const message = await channel.messages
+      .fetch(ref.messageId)
+      .catch(() => null);
+    if (!message) {
+      return;
+    }
+    await message
+      .edit({
+        content: buildWorldSubmissionProposalContent({
+          worldId: meta.id,
+          worldName: meta.name,
+          submissionId,
+          kind: summary.kind,
+          title: summary.title,
+          submitterUserId: summary.submitterUserId,
+          status: input.status,
+          tally,
+          autoApproveVotes: meta.submissionAutoApproveVotes,
+          note: input.note,
+        }),
+        components: buildWorldSubmissionButtons({
+          worldId: meta.id,
+          submissionId,
+          status: input.status,
+          tally,
+        }),
+        allowedMentions: { parse: [] },
+      })
+      .catch((err) => {
+        this["logger"].warn(
+          { err, worldId: meta.id, submissionId },
+          "Failed to refresh world submission proposal",
+        );
+      });
+  };
+
+  (
+    DiscordAdapterClass.prototype as unknown as Record<string, unknown>
+  ).notifyWorldSubmissionSubmitter = async function (
+    this: DiscordAdapter,
+    meta: WorldActiveMeta,
+    input: { submissionId: number; submitterUserId: string; content: string },
+  ): Promise<void> {
+    if (!input.submitterUserId) {
+      return;
+    }
+    const user = await this["client"].users
+      .fetch(input.submitterUserId)
+      .catch(() => null);
+    const sent = user
+      ? await user
+          .send(input.content)
+          .then(() => true)
+          .catch(() => false)
+      : false;
+    if (sent) {
+      return;
+    }
+    // DMs closed: mention the submitter in the proposal thread instead.
+    const ref = await this["worldStore"]
+      .getWorldSubmissionMessage(meta.id, input.submissionId)
+      .catch(() => null);
+    await this["sendLongTextToChannel"]({
+      guildId: meta.homeGuildId,
+      channelId: ref?.threadId ?? meta.proposalsChannelId,
+      content: `<@${input.submitterUserId}> ${input.content}`,
+    });
+  };
+
+  (
+    DiscordAdapterClass.prototype as unknown as Record<string, unknown>
+  ).approveWorldSubmission = async function (
+    this: DiscordAdapter,
+    meta: WorldActiveMeta,
+    input: { submissionId: number; approverUserId: string; auto: boolean },
+  ): Promise<{ kind: string; title: string; filename: string } | null> {
+    const pending = await this["worldFiles"].readSubmission(
+      meta.id,
+      "pending",
+      input.submissionId,
+    );
+    if (!pending) {
+      return null;
+    }
+    const summary = summarizeSubmission(pending, input.submissionId);
+
+    const moved = await this["worldFiles"].moveSubmission({
+      worldId: meta.id,
+      from: "pending",
+      to: "approved",
+      submissionId: input.submissionId,
+    });
+    if (!moved) {
+      return null;
+    }
+
+    const filename = resolveCanonFilename(summary.kind);
+    const nowIso = new Date().toISOString();
+    await this["worldFiles"].appendCanon(
+      meta.id,
+      filename,
+      [
+        ``,
+        `## S${input.submissionId} ${summary.title}`,
+        `- 时间：${nowIso}`,
+        summary.submitterUserId
+          ? `- 提交者：<@${summary.submitterUserId}>`
+          : null,
+        `- 来源：submissions/approved/${input.submissionId}.md`,
+        ``,
+        summary.content,
+        ``,
+      ]
+        .filter((line): line is string => Boolean(line))
+        .join("\n"),
+      { author: input.approverUserId, source: "approval" },
+    );
+
+    const tally = await this["worldStore"].getWorldSubmissionTally(
+      meta.id,
+      input.submissionId,
+    );
+    await this["worldFiles"].appendEvent(meta.id, {
+      type: "world_submission_approved",
+      worldId: meta.id,
+      submissionId: input.submissionId,
+      kind: summary.kind,
+      title: summary.title,
+      approverUserId: input.approverUserId,
+      ...(input.auto ? { autoApproved: true, votes: tally } : {}),
+    });
+
+    const how = input.auto
+      ? `投票自动通过（👍 ${tally.up} / 👎 ${tally.down}）`
+      : "创作者确认";
+    await this["refreshWorldSubmissionProposal"](meta, input.submissionId, {
+      status: "approved",
+      note: `${how}，已写入：canon/${filename}`,
+    });
+    await this["sendLongTextToChannel"]({
+      guildId: meta.homeGuildId,
+      channelId: meta.proposalsChannelId,
+      content: [
+        `【提案已确认】W${meta.id} ${meta.name} / S${input.submissionId}`,
+        `类型：${summary.kind} 标题：${summary.title}`,
+        input.auto ? how : null,
+        `已写入：canon/${filename}`,
+      ]
+        .filter((line): line is string => Boolean(line))
+        .join("\n"),
+    });
+    await this["notifyWorldSubmissionSubmitter"](meta, {
+      submissionId: input.submissionId,
+      submitterUserId: summary.submitterUserId,
+      content: `你的提案已通过：W${meta.id} ${meta.name} / S${input.submissionId}「${summary.title}」（${how}，已写入 canon/${filename}）`,
+    });
+    return { kind: summary.kind, title: summary.title, filename };
+  };
+
+  (
+    DiscordAdapterClass.prototype as unknown as Record<string, unknown>
+  ).handleWorldReject = async function (
+    this: DiscordAdapter,
+    interaction: ChatInputCommandInteraction,
+    input: { worldId: number; submissionId: number; reason?: string },
+  ): Promise<void> {
+    const meta = await this["worldStore"].getWorld(input.worldId);
+    if (!meta) {
+      await safeReply(interaction, `世界不存在：W${input.worldId}`, {
+        ephemeral: true,
+      });
+      return;
+    }
+    if (
+      !(await canPerformWorldAction(
+        this["worldStore"],
+        meta,
+        interaction.user.id,
+        "review_submission",
+      ))
+    ) {
+      await safeReply(
+        interaction,
+        buildWorldPermissionDeniedMessage("review_submission"),
+        { ephemeral: true },
+      );
+      return;
+    }
+    if (meta.status !== "active") {
+      await safeReply(interaction, "世界尚未发布，无法驳回提案。", {
+        ephemeral: true,
+      });
+      return;
+    }
+
+    await safeDefer(interaction, { ephemeral: true });
+
+    const pending = await this["worldFiles"].readSubmission(
+      meta.id,
+      "pending",
+      input.submissionId,
+    );
+    if (!pending) {
+      await safeReply(interaction, `未找到待确认提案：S${input.submissionId}`, {
+        ephemeral: true,
+      });
+      return;
+    }
+    const summary = summarizeSubmission(pending, input.submissionId);
+    const moved = await this["worldFiles"].moveSubmission({
+      worldId: meta.id,
+      from: "pending",
+      to: "rejected",
+      submissionId: input.submissionId,
+    });
+    if (!moved) {
+      await safeReply(
+        interaction,
+        `提案状态变化：S${input.submissionId} 不存在`,
+        { ephemeral: true },
+      );
+      return;
+    }
+
+    const reason = input.reason?.trim() ?? "";
+    const nowIso = new Date().toISOString();
+    await this["worldFiles"].writeSubmission(
+      meta.id,
+      "rejected",
+      input.submissionId,
+      [
+        pending.trimEnd(),
+        "",
+        "## 驳回",
+        `- 时间：${nowIso}`,
+        `- 审核者：<@${interaction.user.id}>`,
+        reason ? `- 原因：${reason}` : null,
+        "",
+      ]
+        .filter((line): line is string => line !== null)
+        .join("\n"),
+    );
+    await this["worldFiles"].appendEvent(meta.id, {
+      type: "world_submission_rejected",
+      worldId: meta.id,
+      submissionId: input.submissionId,
+      kind: summary.kind,
+      title: summary.title,
+      reviewerUserId: interaction.user.id,
+      reason: reason || undefined,
+    });
+
+    await this["refreshWorldSubmissionProposal"](meta, input.submissionId, {
+      status: "rejected",
+      note: reason ? `驳回原因：${reason}` : undefined,
+    });
+    await this["notifyWorldSubmissionSubmitter"](meta, {
+      submissionId: input.submissionId,
+      submitterUserId: summary.submitterUserId,
+      content: `你的提案已被驳回：W${meta.id} ${meta.name} / S${input.submissionId}「${summary.title}」${reason ? `\n原因：${reason}` : ""}`,
+    });
+
+    await safeReply(interaction, `已驳回：S${input.submissionId}`, {
+      ephemeral: true,
+    });
+  };
+
+  (
+    DiscordAdapterClass.prototype as unknown as Record<string, unknown>
+  ).handleWorldSubmissions = async function (
+    this: DiscordAdapter,
+    interaction: ChatInputCommandInteraction,
+    input: { worldId: number; status: WorldSubmissionStatus; page: number },
+  ): Promise<void> {
+    const meta = await this["worldStore"].getWorld(input.worldId);
+    if (!meta) {
+      await safeReply(interaction, `世界不存在：W${input.worldId}`, {
+        ephemeral: true,
+      });
+      return;
+    }
+    if (!(await canViewWorld(this["worldStore"], meta, interaction.user.id))) {
+      await safeReply(
+        interaction,
+        `世界尚未发布：W${meta.id}（仅创作者与世界工作人员可见）`,
+        { ephemeral: true },
+      );
+      return;
+    }
+
+    await safeDefer(interaction, { ephemeral: true });
+
+    const ids = await this["worldFiles"].listSubmissionIds(
+      meta.id,
+      input.status,
+      200,
+    );
+    const pageCount = Math.max(
+      1,
+      Math.ceil(ids.length / SUBMISSIONS_PAGE_SIZE),
+    );
+    const page = Math.min(Math.max(1, input.page), pageCount);
+    const pageIds = ids.slice(
+      (page - 1) * SUBMISSIONS_PAGE_SIZE,
+      page * SUBMISSIONS_PAGE_SIZE,
+    );
+    if (pageIds.length === 0) {
+      await safeReply(
+        interaction,
+        `W${meta.id} ${meta.name}\n暂无 ${input.status} 提案。`,
+        { ephemeral: true },
+      );
+      return;
+    }
+
+    const lines = await Promise.all(
+      pageIds.map(async (submissionId) => {
+        const [raw, tally, comments] = await Promise.all([
+          this["worldFiles"].readSubmission(
+            meta.id,
+            input.status,
+            submissionId,
+          ),
+          this["worldStore"].getWorldSubmissionTally(meta.id, submissionId),
+          this["worldFiles"].listSubmissionComments(meta.id, submissionId),
+        ]);
+        const summary = summarizeSubmission(raw ?? "", submissionId);
+        const submitter = summary.submitterUserId
+          ? ` · <@${summary.submitterUserId}>`
+          : "";
+        return `- S${submissionId} [${summary.kind}] ${summary.title}${submitter} · 👍 ${tally.up} / 👎 ${tally.down} · 💬 ${comments.length}`;
+      }),
+    );
+    await safeReply(
+      interaction,
+      [
+        `W${meta.id} ${meta.name} ${input.status} 提案（第 ${page}/${pageCount} 页，共 ${ids.length} 条）：`,
+        ...lines,
+        page < pageCount
+          ? `下一页：/world submissions status:${input.status} page:${page + 1}`
+          : null,
+      ]
+        .filter((line): line is string => Boolean(line))
+        .join("\n"),
+      { ephemeral: true },
+    );
+  };
+
+  (
+    DiscordAdapterClass.prototype as unknown as Record<string, unknown>
+  ).handleWorldSettings = async function (
+    this: DiscordAdapter,
+    interaction: ChatInputCommandInteraction,
+    input: { worldId: number; autoApproveVotes?: number },
+  ): Promise<void> {
+    const meta = await this["worldStore"].getWorld(input.worldId);
+    if (!meta) {
+      await safeReply(interaction, `世界不存在：W${input.worldId}`, {
+        ephemeral: true,
+      });
+      return;
+    }
+    if (
+      !(await canPerformWorldAction(
+        this["worldStore"],
+        meta,
+        interaction.user.id,
+        "configure",
+      ))
+    ) {
+      await safeReply(
+        interaction,
+        buildWorldPermissionDeniedMessage("configure"),
+        { ephemeral: true },
+      );
+      return;
+    }
+    if (meta.status === "draft") {
+      await safeReply(interaction, "世界尚未发布，暂无可修改的设置。", {
+        ephemeral: true,
+      });
+      return;
+    }
+
+    let current = meta.submissionAutoApproveVotes;
+    if (input.autoApproveVotes !== undefined) {
+      const next = input.autoApproveVotes > 0 ? input.autoApproveVotes : null;
+      await this["worldStore"].setSubmissionAutoApproveVotes(meta.id, next);
+      await this["worldFiles"].appendEvent(meta.id, {
+        type: "world_settings_updated",
+        worldId: meta.id,
+        submissionAutoApproveVotes: next,
+        userId: interaction.user.id,
+      });
+      current = next ?? undefined;
+    }
+    await safeReply(
+      interaction,
+      [
+        `W${meta.id} ${meta.name} 设置：`,
+        current
+          ? `- 提案自动通过：净票数（👍-👎）≥ ${current}`
+          : "- 提案自动通过：关闭（仅创作者确认）",
+      ].join("\n"),
+      { ephemeral: true },
+    );
+  };
+
+  (
+    DiscordAdapterClass.prototype as unknown as Record<string, unknown>
+  ).handleWorldSubmissionButton = async function (
+    this: DiscordAdapter,
+    interaction: ButtonInteraction,
+    input: {
+      worldId: number;
+      submissionId: number;
+      action: WorldSubmissionAction;
+    },
+  ): Promise<void> {
+    if (input.action === "comment") {
+      await interaction
+        .showModal(buildWorldSubmissionCommentModal(input))
+        .catch(() => null);
+      return;
+    }
+
+    await interaction.deferReply({ ephemeral: true }).catch(() => null);
+    const reply = async (content: string) => {
+      await interaction.editReply({ content }).catch(() => null);
+    };
+    const meta = await this["worldStore"].getWorld(input.worldId);
+    if (!meta || meta.status !== "active") {
+      await reply("世界不存在或未发布。");
+      return;
+    }
+    const pending = await this["worldFiles"].readSubmission(
+      meta.id,
+      "pending",
+      input.submissionId,
+    );
+    if (!pending) {
+      await reply("该提案已结束投票。");
+      return;
+    }
+    const summary = summarizeSubmission(pending, input.submissionId);
+    const userId = interaction.user.id;
+    if (summary.submitterUserId === userId) {
+      await reply("不能给自己的提案投票。");
+      return;
+    }
+    const canVote = await canPerformWorldAction(
+      this["worldStore"],
+      meta,
+      userId,
+      "vote_submission",
+    );
+    if (!canVote) {
+      await reply(`只有世界成员可以投票：先 /world join world_id:${meta.id}`);
+      return;
+    }
+
+    const result = await this["worldStore"].voteWorldSubmission({
+      worldId: meta.id,
+      submissionId: input.submissionId,
+      userId,
+      vote: input.action === "up" ? 1 : -1,
+    });
+
+    if (
+      shouldAutoApproveSubmission(result.tally, meta.submissionAutoApproveVotes)
+    ) {
+      const approved = await this["approveWorldSubmission"](meta, {
+        submissionId: input.submissionId,
+        approverUserId: meta.creatorId,
+        auto: true,
+      });
+      if (approved) {
+        await reply(
+          `投票已记录，提案已自动通过并写入 canon/${approved.filename}。`,
+        );
+        return;
+      }
+    }
+
+    await this["refreshWorldSubmissionProposal"](meta, input.submissionId, {
+      status: "pending",
+    });
+    await reply(
+      result.vote === 0
+        ? `已撤回投票（👍 ${result.tally.up} / 👎 ${result.tally.down}）`
+        : `已投票 ${result.vote === 1 ? "👍" : "👎"}（👍 ${result.tally.up} / 👎 ${result.tally.down}）`,
+    );
+  };
+
+  (
+    DiscordAdapterClass.prototype as unknown as Record<string, unknown>
+  ).handleWorldSubmissionModal = async function (
+    this: DiscordAdapter,
+    interaction: ModalSubmitInteraction,
+    input: { worldId: number; submissionId: number },
+  ): Promise<void> {
+    await interaction.deferReply({ ephemeral: true }).catch(() => null);
+    const reply = async (content: string) => {
+      await interaction.editReply({ content }).catch(() => null);
+    };
+
+    const content = interaction.fields
+      .getTextInputValue(WORLD_SUBMISSION_COMMENT_INPUT_ID)
+      .trim();
+    if (!content) {
+      await reply("评论不能为空。");
+      return;
+    }
+    const meta = await this["worldStore"].getWorld(input.worldId);
+    if (!meta || meta.status !== "active") {
+      await reply("世界不存在或未发布。");
+      return;
+    }
+    const statuses: WorldSubmissionStatus[] = [
+      "pending",
+      "approved",
+      "rejected",
+    ];
+    let exists = false;
+    for (const status of statuses) {
+      if (
+        await this["worldFiles"].readSubmission(
+          meta.id,
+          status,
+          input.submissionId,
+        )
+      ) {
+        exists = true;
+        break;
+      }
+    }
+    if (!exists) {
+      await reply(`提案不存在：S${input.submissionId}`);
+      return;
+    }
+
+    await this["worldFiles"].appendSubmissionComment(
+      meta.id,
+      input.submissionId,
+      {
+        userId: interaction.user.id,
+        content,
+        createdAt: new Date().toISOString(),
+      },
+    );
+    const ref = await this["worldStore"]
+      .getWorldSubmissionMessage(meta.id, input.submissionId)
+      .catch(() => null);
+    const thread = ref?.threadId
+      ? await this["client"].channels.fetch(ref.threadId).catch(() => null)
+      : null;
+    if (thread?.isSendable()) {
+      const chunks = splitDiscordMessage(
+        `💬 <@${interaction.user.id}>：${content}`,
+        1800,
+      );
+      for (const chunk of chunks) {
+        await thread
+          .send({ content: chunk, allowedMentions: { parse: [] } })
+          .catch((err) => {
+            this["logger"].warn(
+              { err, worldId: meta.id, submissionId: input.submissionId },
+              "Failed to post world submission comment",
+            );
+          });
+      }
+    }
+    await reply(`已评论提案 S${input.submissionId}。`);
+  };
+}
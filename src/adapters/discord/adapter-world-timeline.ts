@@ -0,0 +1,321 @@
+import type { DiscordAdapter } from "./adapter";
+import type { UserLanguage } from "../../user/state-store";
+import {
+  advanceWorldTime,
+  formatWorldDate,
+  parseWorldDate,
+  parseWorldDuration,
+  type WorldCalendar,
+} from "../../world/calendar";
+import {
+  buildWorldPermissionDeniedMessage,
+  canPerformWorldAction,
+  canViewWorld,
+} from "../../world/permissions";
+import {
+  addWorldTimelineEntry,
+  filterWorldTimeline,
+  formatWorldTimelineEntry,
+  removeWorldTimelineEntry,
+  type WorldTimelineEntry,
+} from "../../world/timeline";
+import { pickByLanguage } from "./adapter-internals";
+import { safeDefer, safeReply } from "./interaction-helpers";
+import type { ChatInputCommandInteraction } from "discord.js";
+
+type WorldTimelineCommand =
+  | {
+      action: "list";
+      worldId: number;
+      from?: string;
+      to?: string;
+      tag?: string;
+      query?: string;
+      limit?: number;
+    }
+  | {
+      action: "add";
+      worldId: number;
+      title: string;
+      /** Missing means "at the current clock". */
+      date?: string;
+      content?: string;
+      tags: string[];
+    }
+  | { action: "remove"; worldId: number; entryId: number }
+  | { action: "clock"; worldId: number; set?: string; advance?: string };
+
+const TIMELINE_LIST_DEFAULT_LIMIT = 20;
+const TIMELINE_LIST_MAX_CHARS = 1_800;
+
+function formatTimelineList(
+  worldId: number,
+  calendar: WorldCalendar,
+  entries: WorldTimelineEntry[],
+  total: number,
+  language: UserLanguage | null,
+): string {
+  if (entries.length === 0) {
+    return total === 0
+      ? pickByLanguage(
+          language,
+          `W${worldId} 的时间线还是空的：用 /world timeline add 记录大事。`,
+          `W${worldId} has no timeline entries yet: use /world timeline add.`,
+        )
+      : pickByLanguage(
+          language,
+          `W${worldId} 没有符合条件的时间线条目。`,
+          `No timeline entries in W${worldId} match those filters.`,
+        );
+  }
+  const lines = [
+    pickByLanguage(
+      language,
+      `W${worldId} 时间线（${entries.length}/${total}）：`,
+      `W${worldId} timeline (${entries.length}/${total}):`,
+    ),
+  ];
+  for (const [index, entry] of entries.entries()) {
+    const line = `- ${formatWorldTimelineEntry(calendar, entry, language)}`;
+    if (lines.join("\n").length + line.length + 1 > TIMELINE_LIST_MAX_CHARS) {
+      lines.push(
+        pickByLanguage(
+          language,
+          `……另有 ${entries.length - index} 条`,
+          `…and ${entries.length - index} more`,
+        ),
+      );
+      break;
+    }
+    lines.push(line);
+  }
+  return lines.join("\n");
+}
+
+export function installDiscordAdapterWorldTimeline(DiscordAdapterClass: {
+  prototype: DiscordAdapter;
+}): void {
+  (
+    DiscordAdapterClass.prototype as unknown as Record<string, unknown>
+  ).handleWorldTimeline = async function (
+    this: DiscordAdapter,
+    interaction: ChatInputCommandInteraction,
+    input: WorldTimelineCommand,
+  ): Promise<void> {
+    await safeDefer(interaction, { ephemeral: true });
+    const language = await this["userState"]
+      .getLanguage(interaction.user.id)
+      .catch(() => null);
+    const meta = await this["worldStore"].getWorld(input.worldId);
+    if (
+      !meta ||
+      !(await canViewWorld(this["worldStore"], meta, interaction.user.id))
+    ) {
+      await safeReply(
+        interaction,
+        pickByLanguage(
+          language,
+          `世界不存在：W${input.worldId}`,
+          `World not found: W${input.worldId}`,
+        ),
+        { ephemeral: true },
+      );
+      return;
+    }
+    const readOnly =
+      input.action === "list" ||
+      (input.action === "clock" && !input.set && !input.advance);
+    if (
+      !readOnly &&
+      !(await canPerformWorldAction(
+        this["worldStore"],
+        meta,
+        interaction.user.id,
+        "manage_timeline",
+      ))
+    ) {
+      await safeReply(
+        interaction,
+        buildWorldPermissionDeniedMessage("manage_timeline", language),
+        { ephemeral: true },
+      );
+      return;
+    }
+    const replyError = async (err: unknown) => {
+      const message = err instanceof Error ? err.message : String(err);
+      await safeReply(
+        interaction,
+        pickByLanguage(language, `无法处理：${message}`, `Invalid: ${message}`),
+        { ephemeral: true },
+      );
+    };
+
+    if (readOnly) {
+      const { calendar, timeline } = await this["worldFiles"].readWorldTimeline(
+        meta.id,
+      );
+      if (input.action === "clock") {
+        await safeReply(
+          interaction,
+          timeline.clock === null
+            ? pickByLanguage(
+                language,
+                `W${meta.id} 还没有设定世界时间：用 /world timeline clock set:<日期> 设定。`,
+                `W${meta.id} has no in-world time yet: use /world timeline clock set:<date>.`,
+              )
+            : pickByLanguage(
+                language,
+                `W${meta.id} 当前世界时间：${formatWorldDate(calendar, timeline.clock, language)}`,
+                `W${meta.id} in-world time: ${formatWorldDate(calendar, timeline.clock, language)}`,
+              ),
+          { ephemeral: true },
+        );
+        return;
+      }
+      if (input.action !== "list") {
+        return;
+      }
+      let filter;
+      try {
+        filter = {
+          from: input.from ? parseWorldDate(calendar, input.from) : undefined,
+          to: input.to
+            ? parseWorldDate(calendar, input.to, { end: true })
+            : undefined,
+          tag: input.tag,
+          query: input.query,
+        };
+      } catch (err) {
+        await replyError(err);
+        return;
+      }
+      const matched = filterWorldTimeline(timeline, filter);
+      const limit = input.limit ?? TIMELINE_LIST_DEFAULT_LIMIT;
+      await safeReply(
+        interaction,
+        formatTimelineList(
+          meta.id,
+          calendar,
+          matched.slice(-limit),
+          matched.length,
+          language,
+        ),
+        { ephemeral: true },
+      );
+      return;
+    }
+
+    const userId = interaction.user.id;
+    let outcome: {
+      calendar: WorldCalendar;
+      entry?: WorldTimelineEntry | null;
+      clock?: number;
+    };
+    try {
+      outcome = await this["worldFiles"].updateWorldTimeline(
+        meta.id,
+        (timeline, calendar) => {
+          if (input.action === "add") {
+            const entry = addWorldTimelineEntry(
+              timeline,
+              {
+                at: input.date
+                  ? parseWorldDate(calendar, input.date)
+                  : (timeline.clock ?? 0),
+                title: input.title,
+                content: input.content,
+                tags: input.tags,
+              },
+              { source: "command", authorId: userId },
+            );
+            return { calendar, entry };
+          }
+          if (input.action === "remove") {
+            return {
+              calendar,
+              entry: removeWorldTimelineEntry(timeline, input.entryId),
+            };
+          }
+          if (input.action === "clock") {
+            timeline.clock = input.set
+              ? parseWorldDate(calendar, input.set)
+              : advanceWorldTime(
+                  calendar,
+                  timeline.clock ?? 0,
+                  parseWorldDuration(input.advance ?? ""),
+                );
+            return { calendar, clock: timeline.clock };
+          }
+          return { calendar };
+        },
+      );
+    } catch (err) {
+      await replyError(err);
+      return;
+    }
+
+    const { calendar, entry, clock } = outcome;
+    if (input.action === "clock" && clock !== undefined) {
+      await this["worldFiles"].appendEvent(meta.id, {
+        type: "world_time_updated",
+        worldId: meta.id,
+        userId,
+        source: "command",
+        changes: [
+          input.set
+            ? `= ${formatWorldDate(calendar, clock)}`
+            : `+${input.advance} → ${formatWorldDate(calendar, clock)}`,
+        ],
+      });
+      await safeReply(
+        interaction,
+        pickByLanguage(
+          language,
+          `W${meta.id} 世界时间已更新为：${formatWorldDate(calendar, clock, language)}`,
+          `W${meta.id} in-world time is now ${formatWorldDate(calendar, clock, language)}`,
+        ),
+        { ephemeral: true },
+      );
+      return;
+    }
+    if (!entry) {
+      await safeReply(
+        interaction,
+        input.action === "remove"
+          ? pickByLanguage(
+              language,
+              `时间线条目不存在：#${input.entryId}`,
+              `Timeline entry not found: #${input.entryId}`,
+            )
+          : pickByLanguage(language, "操作失败。", "Nothing changed."),
+        { ephemeral: true },
+      );
+      return;
+    }
+    await this["worldFiles"].appendEvent(meta.id, {
+      type:
+        input.action === "remove"
+          ? "timeline_entry_removed"
+          : "timeline_entry_added",
+      worldId: meta.id,
+      entryId: entry.id,
+      userId,
+    });
+    const line = formatWorldTimelineEntry(calendar, entry, language);
+    await safeReply(
+      interaction,
+      input.action === "remove"
+        ? pickByLanguage(
+            language,
+            `已删除时间线条目：${line}`,
+            `Removed timeline entry: ${line}`,
+          )
+        : pickByLanguage(
+            language,
+            `已记录到时间线：\n${line}`,
+            `Added to the timeline:\n${line}`,
+          ),
+      { ephemeral: true },
+    );
+  };
+}
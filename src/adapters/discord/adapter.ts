@@ -13,9 +13,11 @@ import {
 } from "discord.js";
 import type {
   Bot,
+  EditMessageOptions,
   MessageHandler,
   PlatformAdapter,
   SendMessageOptions,
+  SentMessageRef,
   SessionEvent,
 } from "../../types/platform";
 import { logger as defaultLogger } from "../../logger";
@@ -29,6 +31,7 @@ import type { BotMessageStore } from "../../store/bot-message-store";
 import { WorldStore, CharacterVisibility } from "../../world/store";
 import { WorldFileStore } from "../../world/file-store";
 import { buildWorldBuildGroupId, parseWorldGroup } from "../../world/ids";
+import { canPerformWorldAction } from "../../world/permissions";
 import { parseCharacterGroup } from "../../character/ids";
 import { getConfig } from "../../config";
 
@@ -63,16 +66,27 @@ import { installDiscordAdapterWorldLifecycle } from "./adapter-world-lifecycle";
 import { installDiscordAdapterWorldCharacterEntry } from "./adapter-world-character-entry";
 import { installDiscordAdapterCharacterSubspace } from "./adapter-character-subspace";
 import { installDiscordAdapterShowcaseBootstrap } from "./adapter-showcase-bootstrap";
+import { installDiscordAdapterWorldRevisions } from "./adapter-world-revisions";
+import { installDiscordAdapterWorldSubmissions } from "./adapter-world-submissions";
+import { installDiscordAdapterWorldStaff } from "./adapter-world-staff";
+import { installDiscordAdapterWorldArchive } from "./adapter-world-archive";
+import { installDiscordAdapterWorldLore } from "./adapter-world-lore";
+import { installDiscordAdapterCharacterSheet } from "./adapter-character-sheet";
+import { installDiscordAdapterWorldQuests } from "./adapter-world-quests";
+import { installDiscordAdapterWorldTimeline } from "./adapter-world-timeline";
 
 import { extractTextFromJsonDocument } from "../../utils/json-text";
 
 import { UserStateStore, UserRole } from "../../user/state-store";
+import { NoopUsageStore, type UsageStore } from "../../session/usage";
 
 export interface DiscordAdapterOptions {
   token?: string;
   applicationId?: string;
   logger?: Logger;
   botMessageStore?: BotMessageStore;
+  /** The entrypoint's store, closed by its owner; usage reads empty without one. */
+  usageStore?: UsageStore;
 }
 
 export interface DiscordInteractionExtras {
@@ -106,6 +120,7 @@ export class DiscordAdapter extends EventEmitter implements PlatformAdapter {
   private worldFiles: WorldFileStore;
   private groupRepository: GroupFileRepository;
   private userState: UserStateStore;
+  private usageStore: UsageStore;
 
   constructor(options: DiscordAdapterOptions = {}) {
     const token = options.token;
@@ -143,6 +158,7 @@ export class DiscordAdapter extends EventEmitter implements PlatformAdapter {
       logger: this.logger,
     });
     this.userState = new UserStateStore({ logger: this.logger });
+    this.usageStore = options.usageStore ?? new NoopUsageStore();
 
     this.client.on("ready", () => {
       const user = this.client.user;
@@ -225,6 +241,8 @@ export class DiscordAdapter extends EventEmitter implements PlatformAdapter {
 
   async connect(bot: Bot): Promise<void> {
     this.bot = bot;
+    bot.capabilities.canEditMessage = true;
+    bot.capabilities.canDeleteMessage = true;
     this.logger.info("Connecting to Discord...");
     await this.client.login(this.token);
   }
@@ -258,6 +276,29 @@ export class DiscordAdapter extends EventEmitter implements PlatformAdapter {
     await this.sender.send(session, content, options);
   }
 
+  async sendDraft(
+    session: SessionEvent,
+    content: string,
+  ): Promise<SentMessageRef | null> {
+    return this.sender.sendDraft(session, content);
+  }
+
+  async editMessage(
+    session: SessionEvent,
+    message: SentMessageRef,
+    content: string,
+    options?: EditMessageOptions,
+  ): Promise<boolean> {
+    return this.sender.editMessage(session, message, content, options);
+  }
+
+  async deleteMessage(
+    _session: SessionEvent,
+    message: SentMessageRef,
+  ): Promise<void> {
+    await this.sender.deleteMessage(message);
+  }
+
   async sendTyping(session: SessionEvent): Promise<void> {
     await this.sender.sendTyping(session);
   }
@@ -527,7 +568,14 @@ export class DiscordAdapter extends EventEmitter implements PlatformAdapter {
     if (!meta) {
       return false;
     }
-    if (meta.creatorId !== message.author.id) {
+    if (
+      !(await canPerformWorldAction(
+        this.worldStore,
+        meta,
+        message.author.id,
+        "edit",
+      ))
+    ) {
       return false;
     }
 
@@ -1649,6 +1697,86 @@ export class DiscordAdapter extends EventEmitter implements PlatformAdapter {
     throw new Error("Method not installed: handleWorldRemove");
   }
 
+  private async handleWorldHistory(..._args: unknown[]): Promise<void> {
+    throw new Error("Method not installed: handleWorldHistory");
+  }
+
+  private async handleWorldDiff(..._args: unknown[]): Promise<void> {
+    throw new Error("Method not installed: handleWorldDiff");
+  }
+
+  private async handleWorldRollback(..._args: unknown[]): Promise<void> {
+    throw new Error("Method not installed: handleWorldRollback");
+  }
+
+  private async handleWorldReject(..._args: unknown[]): Promise<void> {
+    throw new Error("Method not installed: handleWorldReject");
+  }
+
+  private async handleWorldStaff(..._args: unknown[]): Promise<void> {
+    throw new Error("Method not installed: handleWorldStaff");
+  }
+
+  private async handleWorldLore(..._args: unknown[]): Promise<void> {
+    throw new Error("Method not installed: handleWorldLore");
+  }
+
+  private async handleWorldTimeline(..._args: unknown[]): Promise<void> {
+    throw new Error("Method not installed: handleWorldTimeline");
+  }
+
+  private async handleWorldLifecycle(..._args: unknown[]): Promise<void> {
+    throw new Error("Method not installed: handleWorldLifecycle");
+  }
+
+  private async handleWorldLifecycleButton(..._args: unknown[]): Promise<void> {
+    throw new Error("Method not installed: handleWorldLifecycleButton");
+  }
+
+  private async handleWorldSubmissions(..._args: unknown[]): Promise<void> {
+    throw new Error("Method not installed: handleWorldSubmissions");
+  }
+
+  private async handleWorldSettings(..._args: unknown[]): Promise<void> {
+    throw new Error("Method not installed: handleWorldSettings");
+  }
+
+  private async handleWorldSubmissionButton(
+    ..._args: unknown[]
+  ): Promise<void> {
+    throw new Error("Method not installed: handleWorldSubmissionButton");
+  }
+
+  private async handleWorldSubmissionModal(..._args: unknown[]): Promise<void> {
+    throw new Error("Method not installed: handleWorldSubmissionModal");
+  }
+
+  private async postWorldSubmissionProposal(
+    ..._args: unknown[]
+  ): Promise<boolean> {
+    throw new Error("Method not installed: postWorldSubmissionProposal");
+  }
+
+  private async refreshWorldSubmissionProposal(
+    ..._args: unknown[]
+  ): Promise<void> {
+    throw new Error("Method not installed: refreshWorldSubmissionProposal");
+  }
+
+  private async notifyWorldSubmissionSubmitter(
+    ..._args: unknown[]
+  ): Promise<void> {
+    throw new Error("Method not installed: notifyWorldSubmissionSubmitter");
+  }
+
+  private async approveWorldSubmission(..._args: unknown[]): Promise<{
+    kind: string;
+    title: string;
+    filename: string;
+  } | null> {
+    throw new Error("Method not installed: approveWorldSubmission");
+  }
+
   private async handleCharacterCommand(..._args: unknown[]): Promise<void> {
     throw new Error("Method not installed: handleCharacterCommand");
   }
@@ -1687,6 +1815,14 @@ export class DiscordAdapter extends EventEmitter implements PlatformAdapter {
     throw new Error("Method not installed: handleCharacterAct");
   }
 
+  private async handleCharacterSheet(..._args: unknown[]): Promise<void> {
+    throw new Error("Method not installed: handleCharacterSheet");
+  }
+
+  private async handleQuestCommand(..._args: unknown[]): Promise<void> {
+    throw new Error("Method not installed: handleQuestCommand");
+  }
+
   private async handleCharacterOpen(..._args: unknown[]): Promise<void> {
     throw new Error("Method not installed: handleCharacterOpen");
   }
@@ -1939,3 +2075,11 @@ installDiscordAdapterWorldLifecycle(DiscordAdapter);
 installDiscordAdapterWorldCharacterEntry(DiscordAdapter);
 installDiscordAdapterCharacterSubspace(DiscordAdapter);
 installDiscordAdapterShowcaseBootstrap(DiscordAdapter);
+installDiscordAdapterWorldRevisions(DiscordAdapter);
+installDiscordAdapterWorldSubmissions(DiscordAdapter);
+installDiscordAdapterWorldStaff(DiscordAdapter);
+installDiscordAdapterWorldArchive(DiscordAdapter);
+installDiscordAdapterWorldLore(DiscordAdapter);
+installDiscordAdapterCharacterSheet(DiscordAdapter);
+installDiscordAdapterWorldQuests(DiscordAdapter);
+installDiscordAdapterWorldTimeline(DiscordAdapter);
@@ -1,12 +1,22 @@
 import { PermissionFlagsBits } from "discord.js";
+import type { WorldStaffEntry } from "../../world/store-types";
 
-type PermissionOverwrite = { id: string; allow?: bigint[]; deny?: bigint[] };
+export type PermissionOverwrite = {
+  id: string;
+  allow?: bigint[];
+  deny?: bigint[];
+};
 
+/**
+ * Staff (editors and moderators) get the creator's channel rights; `build`
+ * is the creator-only workshop opened up to editors.
+ */
 export function buildWorldBaseOverwrites(input: {
   everyoneRoleId: string;
   worldRoleId: string;
   creatorUserId: string;
   botUserId: string;
+  staff?: WorldStaffEntry[];
 }): {
   info: PermissionOverwrite[];
   join: PermissionOverwrite[];
@@ -14,6 +24,7 @@ export function buildWorldBaseOverwrites(input: {
   forum: PermissionOverwrite[];
   proposals: PermissionOverwrite[];
   voice: PermissionOverwrite[];
+  build: PermissionOverwrite[];
 } {
   const view = PermissionFlagsBits.ViewChannel;
   const readHistory = PermissionFlagsBits.ReadMessageHistory;
@@ -44,32 +55,30 @@ export function buildWorldBaseOverwrites(input: {
         ]
       : [];
 
-  const allowCreatorText =
+  const staffUserIds = (input.staff ?? [])
+    .map((entry) => entry.userId.trim())
+    .filter((userId) => userId && userId !== input.creatorUserId);
+  const privilegedUserIds =
     input.creatorUserId && input.creatorUserId.trim()
-      ? [
-          {
-            id: input.creatorUserId,
-            allow: [
-              view,
-              readHistory,
-              send,
-              sendInThreads,
-              createPublicThreads,
-              manageThreads,
-            ],
-          },
-        ]
-      : [];
+      ? [input.creatorUserId, ...staffUserIds]
+      : staffUserIds;
 
-  const allowCreatorVoice =
-    input.creatorUserId && input.creatorUserId.trim()
-      ? [
-          {
-            id: input.creatorUserId,
-            allow: [view, connect, speak],
-          },
-        ]
-      : [];
+  const allowCreatorText = privilegedUserIds.map((id) => ({
+    id,
+    allow: [
+      view,
+      readHistory,
+      send,
+      sendInThreads,
+      createPublicThreads,
+      manageThreads,
+    ],
+  }));
+
+  const allowCreatorVoice = privilegedUserIds.map((id) => ({
+    id,
+    allow: [view, connect, speak],
+  }));
 
   const everyoneReadOnly = {
     id: input.everyoneRoleId,
@@ -123,6 +132,57 @@ export function buildWorldBaseOverwrites(input: {
       { id: input.worldRoleId, allow: [view, connect, speak] },
       ...allowCreatorVoice,
     ],
+    build: buildDraftCreatorOnlyOverwrites({
+      everyoneRoleId: input.everyoneRoleId,
+      creatorUserId: input.creatorUserId,
+      botUserId: input.botUserId,
+      collaboratorUserIds: (input.staff ?? [])
+        .filter((entry) => entry.role === "editor")
+        .map((entry) => entry.userId),
+    }),
+  };
+}
+
+/**
+ * Archived worlds stay readable but nobody except the bot can post, open
+ * threads or talk in voice.
+ */
+export function buildArchivedWorldOverwrites(
+  input: Parameters<typeof buildWorldBaseOverwrites>[0],
+): Omit<ReturnType<typeof buildWorldBaseOverwrites>, "build"> {
+  const writeFlags = [
+    PermissionFlagsBits.SendMessages,
+    PermissionFlagsBits.SendMessagesInThreads,
+    PermissionFlagsBits.CreatePublicThreads,
+    PermissionFlagsBits.CreatePrivateThreads,
+    PermissionFlagsBits.Connect,
+    PermissionFlagsBits.Speak,
+  ];
+  const freeze = (values: PermissionOverwrite[]): PermissionOverwrite[] =>
+    values.map((value) =>
+      value.id === input.botUserId
+        ? value
+        : {
+            id: value.id,
+            allow: (value.allow ?? []).filter(
+              (flag) => !writeFlags.includes(flag),
+            ),
+            deny: [
+              ...(value.deny ?? []).filter(
+                (flag) => !writeFlags.includes(flag),
+              ),
+              ...writeFlags,
+            ],
+          },
+    );
+  const base = buildWorldBaseOverwrites(input);
+  return {
+    info: freeze(base.info),
+    join: freeze(base.join),
+    roleplay: freeze(base.roleplay),
+    forum: freeze(base.forum),
+    proposals: freeze(base.proposals),
+    voice: freeze(base.voice),
   };
 }
 
@@ -162,6 +222,8 @@ export function buildDraftCreatorOnlyOverwrites(input: {
   everyoneRoleId: string;
   creatorUserId: string;
   botUserId: string;
+  /** Extra users with the creator's access, e.g. world editors. */
+  collaboratorUserIds?: string[];
 }): PermissionOverwrite[] {
   const view = PermissionFlagsBits.ViewChannel;
   const readHistory = PermissionFlagsBits.ReadMessageHistory;
@@ -187,12 +249,18 @@ export function buildDraftCreatorOnlyOverwrites(input: {
         ]
       : [];
 
+  const collaborators = (input.collaboratorUserIds ?? [])
+    .map((userId) => userId.trim())
+    .filter((userId) => userId && userId !== input.creatorUserId)
+    .map((id) => ({ id, allow: [view, readHistory, send, sendInThreads] }));
+
   return [
     { id: input.everyoneRoleId, deny: [view] },
     {
       id: input.creatorUserId,
       allow: [view, readHistory, send, sendInThreads],
     },
+    ...collaborators,
     ...allowBot,
   ];
 }
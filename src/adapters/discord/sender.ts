@@ -1,6 +1,8 @@
 import type { Logger } from "pino";
 import type {
+  EditMessageOptions,
   SendMessageOptions,
+  SentMessageRef,
   SessionElement,
   SessionEvent,
 } from "../../types/platform";
@@ -13,6 +15,8 @@ import { BotMessageStore } from "../../store/bot-message-store";
 import { feishuLogJson } from "../../feishu/webhook";
 import { redactSensitiveText } from "../../utils/redact";
 
+const DISCORD_MAX_CONTENT_LENGTH = 2000;
+
 export class MessageSender {
   private client: Client;
   private logger: Logger;
@@ -147,6 +151,123 @@ export class MessageSender {
     }
   }
 
+  async sendDraft(
+    session: SessionEvent,
+    content: string,
+  ): Promise<SentMessageRef | null> {
+    const traceId = getTraceIdFromExtras(session.extras);
+    const log = traceId ? this.logger.child({ traceId }) : this.logger;
+    if (!session.channelId) {
+      throw new Error("channelId is required for sending messages.");
+    }
+    if (isDiscordInteractionEvent(session.extras)) {
+      return null;
+    }
+    const text = content.trim();
+    if (!text || text.length > DISCORD_MAX_CONTENT_LENGTH) {
+      return null;
+    }
+
+    const channel = await this.resolveChannel(session.channelId);
+    if (!isSendableChannel(channel)) {
+      log.warn({ channelId: session.channelId }, "Channel is not sendable");
+      return null;
+    }
+
+    const payload: MessageCreateOptions = { content: text };
+    const { replyTo } = resolveReplyTarget(session, []);
+    if (replyTo) {
+      payload.reply = { messageReference: replyTo, failIfNotExists: false };
+    }
+    const sent = await channel.send(payload);
+    const messageId =
+      sent && typeof sent === "object" && "id" in sent ? String(sent.id) : "";
+    if (!messageId) {
+      return null;
+    }
+    if (session.selfId) {
+      await this.botMessageStore?.recordSentMessage({
+        platform: session.platform,
+        selfId: session.selfId,
+        messageId,
+      });
+    }
+    log.debug({ channelId: session.channelId, messageId }, "Draft sent");
+    return { channelId: session.channelId, messageId };
+  }
+
+  async editMessage(
+    session: SessionEvent,
+    message: SentMessageRef,
+    content: string,
+    options?: EditMessageOptions,
+  ): Promise<boolean> {
+    const text = content.trim();
+    if (!text || text.length > DISCORD_MAX_CONTENT_LENGTH) {
+      return false;
+    }
+    // Audio markup becomes attachments, which only send() can add.
+    const audioNormalized = normalizeDiscordAudioMarkup(text);
+    if (
+      audioNormalized.audioUrls.length > 0 ||
+      audioNormalized.content !== text.replace(/\n{3,}/g, "\n\n")
+    ) {
+      return false;
+    }
+    const traceId = getTraceIdFromExtras(session.extras);
+    const log = traceId ? this.logger.child({ traceId }) : this.logger;
+    const { replyTo } = resolveReplyTarget(session, []);
+    const replySignature =
+      options?.final && replyTo ? BotMessageStore.hashSignature(text) : "";
+    if (replyTo && replySignature && this.botMessageStore) {
+      const alreadySent = await this.botMessageStore.hasReplySignature({
+        platform: session.platform,
+        selfId: session.selfId,
+        replyTo,
+        signature: replySignature,
+      });
+      if (alreadySent) {
+        log.debug(
+          { replyTo, signature: replySignature },
+          "Skipping duplicate reply",
+        );
+        await this.deleteMessage(message);
+        return true;
+      }
+    }
+    const target = await this.resolveMessage(message);
+    if (!target) {
+      return false;
+    }
+    await target.edit({ content: text });
+    if (replyTo && replySignature) {
+      await this.botMessageStore?.recordReplySignature({
+        platform: session.platform,
+        selfId: session.selfId,
+        replyTo,
+        signature: replySignature,
+      });
+    }
+    feishuLogJson({
+      event: "io.send",
+      platform: session.platform,
+      traceId: traceId ?? undefined,
+      channelId: message.channelId,
+      botId: session.selfId ?? undefined,
+      messageId: message.messageId,
+      contentPreview: previewTextForLog(text, 1200),
+      contentLength: text.length,
+      hasFiles: false,
+      hasEmbeds: false,
+    });
+    return true;
+  }
+
+  async deleteMessage(message: SentMessageRef): Promise<void> {
+    const target = await this.resolveMessage(message);
+    await target?.delete();
+  }
+
   async sendTyping(session: SessionEvent): Promise<void> {
     const traceId = getTraceIdFromExtras(session.extras);
     const log = traceId ? this.logger.child({ traceId }) : this.logger;
@@ -170,6 +291,25 @@ export class MessageSender {
     }
   }
 
+  private async resolveMessage(
+    message: SentMessageRef,
+  ): Promise<EditableMessage | null> {
+    const channel = await this.resolveChannel(message.channelId);
+    if (!hasMessageManager(channel)) {
+      return null;
+    }
+    try {
+      const fetched = await channel.messages.fetch(message.messageId);
+      return isEditableMessage(fetched) ? fetched : null;
+    } catch (err) {
+      this.logger.warn(
+        { err, channelId: message.channelId, messageId: message.messageId },
+        "Failed to fetch message for editing",
+      );
+      return null;
+    }
+  }
+
   private async resolveChannel(
     channelId: string,
   ): Promise<unknown | null | undefined> {
@@ -262,6 +402,36 @@ function isSendableChannel(
   return typeof candidate.send === "function";
 }
 
+type EditableMessage = {
+  edit: (options: { content: string }) => Promise<unknown>;
+  delete: () => Promise<unknown>;
+};
+
+function hasMessageManager(
+  channel: unknown,
+): channel is { messages: { fetch: (id: string) => Promise<unknown> } } {
+  if (!channel || typeof channel !== "object" || !("messages" in channel)) {
+    return false;
+  }
+  const messages = (channel as { messages?: unknown }).messages;
+  return (
+    Boolean(messages) &&
+    typeof messages === "object" &&
+    typeof (messages as { fetch?: unknown }).fetch === "function"
+  );
+}
+
+function isEditableMessage(message: unknown): message is EditableMessage {
+  if (!message || typeof message !== "object") {
+    return false;
+  }
+  const candidate = message as { edit?: unknown; delete?: unknown };
+  return (
+    typeof candidate.edit === "function" &&
+    typeof candidate.delete === "function"
+  );
+}
+
 function isTypableChannel(
   channel: unknown,
 ): channel is { sendTyping: () => Promise<unknown> } {
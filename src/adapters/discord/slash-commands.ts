@@ -44,6 +44,23 @@ export function buildSlashCommands() {
           .setRequired(false),
       )
       .toJSON(),
+    new SlashCommandBuilder()
+      .setName("stop")
+      .setDescription("停止正在进行的回复并丢弃排队消息")
+      .addIntegerOption((option) =>
+        option
+          .setName("key")
+          .setDescription("会话槽位（默认 0）")
+          .setMinValue(0)
+          .setRequired(false),
+      )
+      .addUserOption((option) =>
+        option
+          .setName("user")
+          .setDescription("要停止的用户（默认自己；仅管理员可指定他人）")
+          .setRequired(false),
+      )
+      .toJSON(),
     new SlashCommandBuilder()
       .setName("resetall")
       .setDescription("重置全群对话（仅管理员）")
@@ -127,7 +144,7 @@ export function buildSlashCommands() {
         sub
           .setName("import")
           .setDescription(
-            "上传并覆盖世界文档（world-card/rules/canon，仅创作者）",
+            "上传并覆盖世界文档（world-card/rules/canon/角色卡格式，仅创作者）",
           )
           .addStringOption((option) =>
             option
@@ -137,13 +154,17 @@ export function buildSlashCommands() {
                 { name: "world_card", value: "world_card" },
                 { name: "rules", value: "rules" },
                 { name: "canon", value: "canon" },
+                { name: "sheet_schema", value: "sheet_schema" },
+                { name: "calendar", value: "calendar" },
               )
               .setRequired(true),
           )
           .addAttachmentOption((option) =>
             option
               .setName("file")
-              .setDescription("要覆盖的 Markdown/TXT 文件")
+              .setDescription(
+                "要覆盖的 Markdown/TXT 文件（sheet_schema/calendar 为 JSON）",
+              )
               .setRequired(true),
           )
           .addIntegerOption((option) =>
@@ -154,6 +175,71 @@ export function buildSlashCommands() {
               .setRequired(false),
           ),
       )
+      .addSubcommandGroup((group) =>
+        group
+          .setName("revision")
+          .setDescription("世界文档版本（历史/对比/回滚）")
+          .addSubcommand((sub) =>
+            sub
+              .setName("history")
+              .setDescription("查看世界文档的版本记录（创作者或编辑）")
+              .addStringOption((option) =>
+                option
+                  .setName("file")
+                  .setDescription(
+                    "只看某个文件（如 world-card.md、canon/chronicle.md）",
+                  )
+                  .setRequired(false),
+              )
+              .addIntegerOption((option) =>
+                option
+                  .setName("world_id")
+                  .setDescription("世界ID（在世界子空间/编辑话题内可省略）")
+                  .setMinValue(1)
+                  .setRequired(false),
+              ),
+          )
+          .addSubcommand((sub) =>
+            sub
+              .setName("diff")
+              .setDescription("查看某个版本相对上一版本的改动（创作者或编辑）")
+              .addIntegerOption((option) =>
+                option
+                  .setName("rev")
+                  .setDescription("版本号（见 /world revision history）")
+                  .setMinValue(1)
+                  .setRequired(true),
+              )
+              .addIntegerOption((option) =>
+                option
+                  .setName("world_id")
+                  .setDescription("世界ID（在世界子空间/编辑话题内可省略）")
+                  .setMinValue(1)
+                  .setRequired(false),
+              ),
+          )
+          .addSubcommand((sub) =>
+            sub
+              .setName("rollback")
+              .setDescription(
+                "把文件回滚到指定版本（生成新版本，创作者或编辑）",
+              )
+              .addIntegerOption((option) =>
+                option
+                  .setName("rev")
+                  .setDescription("版本号（见 /world revision history）")
+                  .setMinValue(1)
+                  .setRequired(true),
+              )
+              .addIntegerOption((option) =>
+                option
+                  .setName("world_id")
+                  .setDescription("世界ID（在世界子空间/编辑话题内可省略）")
+                  .setMinValue(1)
+                  .setRequired(false),
+              ),
+          ),
+      )
       .addSubcommand((sub) =>
         sub
           .setName("image")
@@ -298,6 +384,82 @@ export function buildSlashCommands() {
               .setRequired(false),
           ),
       )
+      .addSubcommand((sub) =>
+        sub
+          .setName("reject")
+          .setDescription("创作者驳回提案（会通知提交者）")
+          .addIntegerOption((option) =>
+            option
+              .setName("submission_id")
+              .setDescription("提交ID")
+              .setMinValue(1)
+              .setRequired(true),
+          )
+          .addStringOption((option) =>
+            option
+              .setName("reason")
+              .setDescription("驳回原因（可选）")
+              .setMaxLength(500)
+              .setRequired(false),
+          )
+          .addIntegerOption((option) =>
+            option
+              .setName("world_id")
+              .setDescription("世界ID（在世界子空间频道内可省略）")
+              .setMinValue(1)
+              .setRequired(false),
+          ),
+      )
+      .addSubcommand((sub) =>
+        sub
+          .setName("submissions")
+          .setDescription("查看提案列表（含投票与评论数）")
+          .addStringOption((option) =>
+            option
+              .setName("status")
+              .setDescription("状态（默认 pending）")
+              .addChoices(
+                { name: "pending", value: "pending" },
+                { name: "approved", value: "approved" },
+                { name: "rejected", value: "rejected" },
+              )
+              .setRequired(false),
+          )
+          .addIntegerOption((option) =>
+            option
+              .setName("page")
+              .setDescription("页码（每页 10 条）")
+              .setMinValue(1)
+              .setRequired(false),
+          )
+          .addIntegerOption((option) =>
+            option
+              .setName("world_id")
+              .setDescription("世界ID（在世界子空间频道内可省略）")
+              .setMinValue(1)
+              .setRequired(false),
+          ),
+      )
+      .addSubcommand((sub) =>
+        sub
+          .setName("settings")
+          .setDescription("查看/修改世界设置（仅创作者）")
+          .addIntegerOption((option) =>
+            option
+              .setName("auto_approve_votes")
+              .setDescription("提案净票数（👍-👎）达到该值自动通过；0 关闭")
+              .setMinValue(0)
+              .setMaxValue(100)
+              .setRequired(false),
+          )
+          .addIntegerOption((option) =>
+            option
+              .setName("world_id")
+              .setDescription("世界ID（在世界子空间频道内可省略）")
+              .setMinValue(1)
+              .setRequired(false),
+          ),
+      )
       .addSubcommand((sub) =>
         sub
           .setName("check")
@@ -349,16 +511,61 @@ export function buildSlashCommands() {
               .setRequired(false),
           ),
       )
-      .addSubcommand((sub) =>
-        sub
-          .setName("status")
-          .setDescription("查看世界状态（同 stats）")
-          .addIntegerOption((option) =>
-            option
-              .setName("world_id")
-              .setDescription("世界ID（在世界子空间频道内可省略）")
-              .setMinValue(1)
-              .setRequired(false),
+      .addSubcommandGroup((group) =>
+        group
+          .setName("staff")
+          .setDescription("世界工作人员（编辑/管理员）")
+          .addSubcommand((sub) =>
+            sub
+              .setName("add")
+              .setDescription("添加或调整工作人员（仅创作者）")
+              .addUserOption((option) =>
+                option.setName("user").setDescription("成员").setRequired(true),
+              )
+              .addStringOption((option) =>
+                option
+                  .setName("role")
+                  .setDescription("角色")
+                  .addChoices(
+                    { name: "editor（共同创作）", value: "editor" },
+                    { name: "moderator（审核提案）", value: "moderator" },
+                  )
+                  .setRequired(true),
+              )
+              .addIntegerOption((option) =>
+                option
+                  .setName("world_id")
+                  .setDescription("世界ID（在世界子空间频道内可省略）")
+                  .setMinValue(1)
+                  .setRequired(false),
+              ),
+          )
+          .addSubcommand((sub) =>
+            sub
+              .setName("remove")
+              .setDescription("移除工作人员（仅创作者）")
+              .addUserOption((option) =>
+                option.setName("user").setDescription("成员").setRequired(true),
+              )
+              .addIntegerOption((option) =>
+                option
+                  .setName("world_id")
+                  .setDescription("世界ID（在世界子空间频道内可省略）")
+                  .setMinValue(1)
+                  .setRequired(false),
+              ),
+          )
+          .addSubcommand((sub) =>
+            sub
+              .setName("list")
+              .setDescription("查看世界工作人员")
+              .addIntegerOption((option) =>
+                option
+                  .setName("world_id")
+                  .setDescription("世界ID（在世界子空间频道内可省略）")
+                  .setMinValue(1)
+                  .setRequired(false),
+              ),
           ),
       )
       .addSubcommand((sub) =>
@@ -382,16 +589,398 @@ export function buildSlashCommands() {
               .setRequired(false),
           ),
       )
-      .addSubcommand((sub) =>
-        sub
-          .setName("remove")
-          .setDescription("移除世界（管理员）")
-          .addIntegerOption((option) =>
-            option
-              .setName("world_id")
-              .setDescription("世界ID")
-              .setMinValue(1)
-              .setRequired(true),
+      .addSubcommandGroup((group) =>
+        group
+          .setName("lore")
+          .setDescription("世界设定条目（按关键词注入对话上下文）")
+          .addSubcommand((sub) =>
+            sub
+              .setName("add")
+              .setDescription("添加设定条目（创作者或编辑）")
+              .addStringOption((option) =>
+                option
+                  .setName("title")
+                  .setDescription("条目标题")
+                  .setMaxLength(100)
+                  .setRequired(true),
+              )
+              .addStringOption((option) =>
+                option
+                  .setName("keys")
+                  .setDescription("触发关键词（逗号分隔，不区分大小写）")
+                  .setMaxLength(500)
+                  .setRequired(true),
+              )
+              .addStringOption((option) =>
+                option
+                  .setName("content")
+                  .setDescription("条目内容（命中时注入对话上下文）")
+                  .setMaxLength(4000)
+                  .setRequired(true),
+              )
+              .addIntegerOption((option) =>
+                option
+                  .setName("priority")
+                  .setDescription("优先级（越大越先注入，默认 100）")
+                  .setMinValue(0)
+                  .setMaxValue(10000)
+                  .setRequired(false),
+              )
+              .addIntegerOption((option) =>
+                option
+                  .setName("budget")
+                  .setDescription("该条目最多注入的字节数（0 不限制）")
+                  .setMinValue(0)
+                  .setMaxValue(100000)
+                  .setRequired(false),
+              )
+              .addStringOption((option) =>
+                option
+                  .setName("regex")
+                  .setDescription(
+                    "可选：额外的触发正则（不区分大小写；edit 时填 - 清除）",
+                  )
+                  .setMaxLength(200)
+                  .setRequired(false),
+              )
+              .addBooleanOption((option) =>
+                option
+                  .setName("enabled")
+                  .setDescription("是否启用（默认启用）")
+                  .setRequired(false),
+              )
+              .addIntegerOption((option) =>
+                option
+                  .setName("world_id")
+                  .setDescription("世界ID（在世界子空间频道内可省略）")
+                  .setMinValue(1)
+                  .setRequired(false),
+              ),
+          )
+          .addSubcommand((sub) =>
+            sub
+              .setName("edit")
+              .setDescription("修改设定条目（只改填写的字段；创作者或编辑）")
+              .addIntegerOption((option) =>
+                option
+                  .setName("entry_id")
+                  .setDescription("条目编号（见 /world lore list）")
+                  .setMinValue(1)
+                  .setRequired(true),
+              )
+              .addStringOption((option) =>
+                option
+                  .setName("title")
+                  .setDescription("条目标题")
+                  .setMaxLength(100)
+                  .setRequired(false),
+              )
+              .addStringOption((option) =>
+                option
+                  .setName("keys")
+                  .setDescription("触发关键词（逗号分隔，不区分大小写）")
+                  .setMaxLength(500)
+                  .setRequired(false),
+              )
+              .addStringOption((option) =>
+                option
+                  .setName("content")
+                  .setDescription("条目内容（命中时注入对话上下文）")
+                  .setMaxLength(4000)
+                  .setRequired(false),
+              )
+              .addIntegerOption((option) =>
+                option
+                  .setName("priority")
+                  .setDescription("优先级（越大越先注入，默认 100）")
+                  .setMinValue(0)
+                  .setMaxValue(10000)
+                  .setRequired(false),
+              )
+              .addIntegerOption((option) =>
+                option
+                  .setName("budget")
+                  .setDescription("该条目最多注入的字节数（0 不限制）")
+                  .setMinValue(0)
+                  .setMaxValue(100000)
+                  .setRequired(false),
+              )
+              .addStringOption((option) =>
+                option
+                  .setName("regex")
+                  .setDescription(
+                    "可选：额外的触发正则（不区分大小写；edit 时填 - 清除）",
+                  )
+                  .setMaxLength(200)
+                  .setRequired(false),
+              )
+              .addBooleanOption((option) =>
+                option
+                  .setName("enabled")
+                  .setDescription("是否启用（默认启用）")
+                  .setRequired(false),
+              )
+              .addIntegerOption((option) =>
+                option
+                  .setName("world_id")
+                  .setDescription("世界ID（在世界子空间频道内可省略）")
+                  .setMinValue(1)
+                  .setRequired(false),
+              ),
+          )
+          .addSubcommand((sub) =>
+            sub
+              .setName("remove")
+              .setDescription("删除设定条目（创作者或编辑）")
+              .addIntegerOption((option) =>
+                option
+                  .setName("entry_id")
+                  .setDescription("条目编号（见 /world lore list）")
+                  .setMinValue(1)
+                  .setRequired(true),
+              )
+              .addIntegerOption((option) =>
+                option
+                  .setName("world_id")
+                  .setDescription("世界ID（在世界子空间频道内可省略）")
+                  .setMinValue(1)
+                  .setRequired(false),
+              ),
+          )
+          .addSubcommand((sub) =>
+            sub
+              .setName("list")
+              .setDescription("查看设定条目（创作者或编辑）")
+              .addIntegerOption((option) =>
+                option
+                  .setName("world_id")
+                  .setDescription("世界ID（在世界子空间频道内可省略）")
+                  .setMinValue(1)
+                  .setRequired(false),
+              ),
+          )
+          .addSubcommand((sub) =>
+            sub
+              .setName("import")
+              .setDescription("从 lorebook JSON 导入设定条目（创作者或编辑）")
+              .addAttachmentOption((option) =>
+                option
+                  .setName("file")
+                  .setDescription(
+                    "Tavern/SillyTavern 世界书或 /world export 导出的 JSON",
+                  )
+                  .setRequired(true),
+              )
+              .addBooleanOption((option) =>
+                option
+                  .setName("replace")
+                  .setDescription("替换现有条目（默认追加）")
+                  .setRequired(false),
+              )
+              .addIntegerOption((option) =>
+                option
+                  .setName("world_id")
+                  .setDescription("世界ID（在世界子空间频道内可省略）")
+                  .setMinValue(1)
+                  .setRequired(false),
+              ),
+          ),
+      )
+      .addSubcommandGroup((group) =>
+        group
+          .setName("timeline")
+          .setDescription("世界时间线与世界内时钟")
+          .addSubcommand((sub) =>
+            sub
+              .setName("list")
+              .setDescription("按世界内日期查看时间线")
+              .addStringOption((option) =>
+                option
+                  .setName("from")
+                  .setDescription("起始日期（如 1024、1024-3 或 1024-3-15）")
+                  .setMaxLength(100)
+                  .setRequired(false),
+              )
+              .addStringOption((option) =>
+                option
+                  .setName("to")
+                  .setDescription("结束日期（含当天/当月/当年）")
+                  .setMaxLength(100)
+                  .setRequired(false),
+              )
+              .addStringOption((option) =>
+                option
+                  .setName("tag")
+                  .setDescription("只看带该标签的条目")
+                  .setMaxLength(32)
+                  .setRequired(false),
+              )
+              .addStringOption((option) =>
+                option
+                  .setName("query")
+                  .setDescription("标题或内容包含的文字")
+                  .setMaxLength(100)
+                  .setRequired(false),
+              )
+              .addIntegerOption((option) =>
+                option
+                  .setName("limit")
+                  .setDescription("最多显示最近几条（默认 20）")
+                  .setMinValue(1)
+                  .setMaxValue(50)
+                  .setRequired(false),
+              )
+              .addIntegerOption((option) =>
+                option
+                  .setName("world_id")
+                  .setDescription("世界ID（在世界子空间频道内可省略）")
+                  .setMinValue(1)
+                  .setRequired(false),
+              ),
+          )
+          .addSubcommand((sub) =>
+            sub
+              .setName("add")
+              .setDescription("记录时间线条目（创作者、编辑或管理员）")
+              .addStringOption((option) =>
+                option
+                  .setName("title")
+                  .setDescription("事件标题")
+                  .setMaxLength(100)
+                  .setRequired(true),
+              )
+              .addStringOption((option) =>
+                option
+                  .setName("date")
+                  .setDescription("世界内日期（默认当前世界时间）")
+                  .setMaxLength(100)
+                  .setRequired(false),
+              )
+              .addStringOption((option) =>
+                option
+                  .setName("content")
+                  .setDescription("事件说明")
+                  .setMaxLength(1000)
+                  .setRequired(false),
+              )
+              .addStringOption((option) =>
+                option
+                  .setName("tags")
+                  .setDescription("标签（逗号分隔）")
+                  .setMaxLength(200)
+                  .setRequired(false),
+              )
+              .addIntegerOption((option) =>
+                option
+                  .setName("world_id")
+                  .setDescription("世界ID（在世界子空间频道内可省略）")
+                  .setMinValue(1)
+                  .setRequired(false),
+              ),
+          )
+          .addSubcommand((sub) =>
+            sub
+              .setName("remove")
+              .setDescription("删除时间线条目（创作者、编辑或管理员）")
+              .addIntegerOption((option) =>
+                option
+                  .setName("entry_id")
+                  .setDescription("条目编号（见 /world timeline list）")
+                  .setMinValue(1)
+                  .setRequired(true),
+              )
+              .addIntegerOption((option) =>
+                option
+                  .setName("world_id")
+                  .setDescription("世界ID（在世界子空间频道内可省略）")
+                  .setMinValue(1)
+                  .setRequired(false),
+              ),
+          )
+          .addSubcommand((sub) =>
+            sub
+              .setName("clock")
+              .setDescription("查看、设定或推进世界内时间")
+              .addStringOption((option) =>
+                option
+                  .setName("set")
+                  .setDescription("设定为该日期（如 1024-3-15 08:00）")
+                  .setMaxLength(100)
+                  .setRequired(false),
+              )
+              .addStringOption((option) =>
+                option
+                  .setName("advance")
+                  .setDescription("向前推进（如 3d、2h30m、1年）")
+                  .setMaxLength(32)
+                  .setRequired(false),
+              )
+              .addIntegerOption((option) =>
+                option
+                  .setName("world_id")
+                  .setDescription("世界ID（在世界子空间频道内可省略）")
+                  .setMinValue(1)
+                  .setRequired(false),
+              ),
+          ),
+      )
+      .addSubcommandGroup((group) =>
+        group
+          .setName("lifecycle")
+          .setDescription("世界生命周期（归档/恢复/转让/移除）")
+          .addSubcommand((sub) =>
+            sub
+              .setName("archive")
+              .setDescription("归档世界：频道只读并从列表隐藏（仅创作者）")
+              .addIntegerOption((option) =>
+                option
+                  .setName("world_id")
+                  .setDescription("世界ID（在世界子空间频道内可省略）")
+                  .setMinValue(1)
+                  .setRequired(false),
+              ),
+          )
+          .addSubcommand((sub) =>
+            sub
+              .setName("unarchive")
+              .setDescription("恢复已归档的世界（仅创作者）")
+              .addIntegerOption((option) =>
+                option
+                  .setName("world_id")
+                  .setDescription("世界ID（在世界子空间频道内可省略）")
+                  .setMinValue(1)
+                  .setRequired(false),
+              ),
+          )
+          .addSubcommand((sub) =>
+            sub
+              .setName("transfer")
+              .setDescription("把世界转让给另一位成员（仅创作者）")
+              .addUserOption((option) =>
+                option
+                  .setName("user")
+                  .setDescription("新创作者（需已加入该世界）")
+                  .setRequired(true),
+              )
+              .addIntegerOption((option) =>
+                option
+                  .setName("world_id")
+                  .setDescription("世界ID（在世界子空间频道内可省略）")
+                  .setMinValue(1)
+                  .setRequired(false),
+              ),
+          )
+          .addSubcommand((sub) =>
+            sub
+              .setName("remove")
+              .setDescription("移除世界（管理员）")
+              .addIntegerOption((option) =>
+                option
+                  .setName("world_id")
+                  .setDescription("世界ID")
+                  .setMinValue(1)
+                  .setRequired(true),
+              ),
           ),
       )
       .toJSON(),
@@ -450,6 +1039,25 @@ export function buildSlashCommands() {
               .setDescription("角色ID（在编辑话题中可省略）")
               .setMinValue(1)
               .setRequired(false),
+          )
+          .addStringOption((option) =>
+            option
+              .setName("format")
+              .setDescription("导出格式（默认 markdown）")
+              .addChoices(
+                { name: "markdown", value: "markdown" },
+                { name: "tavern_json", value: "tavern_json" },
+                { name: "tavern_png", value: "tavern_png" },
+              )
+              .setRequired(false),
+          )
+          .addAttachmentOption((option) =>
+            option
+              .setName("portrait")
+              .setDescription(
+                "可选：tavern_png 使用的 PNG 立绘（会保存为角色立绘）",
+              )
+              .setRequired(false),
           ),
       )
       .addSubcommand((sub) =>
@@ -459,7 +1067,7 @@ export function buildSlashCommands() {
           .addAttachmentOption((option) =>
             option
               .setName("file")
-              .setDescription("要覆盖的 Markdown/TXT 文件")
+              .setDescription("Markdown/TXT 文件，或 Tavern 角色卡 JSON/PNG")
               .setRequired(true),
           )
           .addIntegerOption((option) =>
@@ -494,6 +1102,52 @@ export function buildSlashCommands() {
               .setRequired(true),
           ),
       )
+      .addSubcommand((sub) =>
+        sub
+          .setName("sheet")
+          .setDescription(
+            "查看你在本世界的角色卡数值（属性/技能/资源/物品/状态）",
+          )
+          .addIntegerOption((option) =>
+            option
+              .setName("character_id")
+              .setDescription("角色ID（默认当前角色；查看他人需世界工作人员）")
+              .setMinValue(1)
+              .setRequired(false),
+          ),
+      )
+      .addSubcommand((sub) =>
+        sub
+          .setName("set")
+          .setDescription("修改角色卡数值、物品或状态")
+          .addStringOption((option) =>
+            option
+              .setName("field")
+              .setDescription(
+                "字段：属性/技能/资源的键或名称（hp.max 改上限），或 inventory/status",
+              )
+              .setMinLength(1)
+              .setMaxLength(64)
+              .setRequired(true),
+          )
+          .addStringOption((option) =>
+            option
+              .setName("value")
+              .setDescription(
+                "数值 12、增减 +2/-3；物品 +火把 x2/-火把；状态 +中毒:说明/-中毒",
+              )
+              .setMinLength(1)
+              .setMaxLength(200)
+              .setRequired(true),
+          )
+          .addIntegerOption((option) =>
+            option
+              .setName("character_id")
+              .setDescription("角色ID（默认当前角色；修改他人需世界工作人员）")
+              .setMinValue(1)
+              .setRequired(false),
+          ),
+      )
       .addSubcommand((sub) =>
         sub
           .setName("use")
@@ -587,5 +1241,90 @@ export function buildSlashCommands() {
           ),
       )
       .toJSON(),
+    new SlashCommandBuilder()
+      .setName("quest")
+      .setDescription("世界任务")
+      .addSubcommand((sub) =>
+        sub
+          .setName("list")
+          .setDescription("列出本世界的任务")
+          .addStringOption((option) =>
+            option
+              .setName("status")
+              .setDescription("按状态过滤（默认 open）")
+              .addChoices(
+                { name: "open", value: "open" },
+                { name: "completed", value: "completed" },
+                { name: "failed", value: "failed" },
+                { name: "all", value: "all" },
+              )
+              .setRequired(false),
+          )
+          .addIntegerOption((option) =>
+            option
+              .setName("world_id")
+              .setDescription("世界ID（在世界频道内可省略）")
+              .setMinValue(1)
+              .setRequired(false),
+          ),
+      )
+      .addSubcommand((sub) =>
+        sub
+          .setName("show")
+          .setDescription("查看任务详情（委托人、目标、奖励、期限、参与者）")
+          .addIntegerOption((option) =>
+            option
+              .setName("quest_id")
+              .setDescription("任务编号（Q 后的数字）")
+              .setMinValue(1)
+              .setRequired(true),
+          )
+          .addIntegerOption((option) =>
+            option
+              .setName("world_id")
+              .setDescription("世界ID（在世界频道内可省略）")
+              .setMinValue(1)
+              .setRequired(false),
+          ),
+      )
+      .addSubcommand((sub) =>
+        sub
+          .setName("accept")
+          .setDescription("接取任务（需已加入世界）")
+          .addIntegerOption((option) =>
+            option
+              .setName("quest_id")
+              .setDescription("任务编号（Q 后的数字）")
+              .setMinValue(1)
+              .setRequired(true),
+          )
+          .addIntegerOption((option) =>
+            option
+              .setName("world_id")
+              .setDescription("世界ID（在世界频道内可省略）")
+              .setMinValue(1)
+              .setRequired(false),
+          ),
+      )
+      .addSubcommand((sub) =>
+        sub
+          .setName("abandon")
+          .setDescription("放弃已接取的任务")
+          .addIntegerOption((option) =>
+            option
+              .setName("quest_id")
+              .setDescription("任务编号（Q 后的数字）")
+              .setMinValue(1)
+              .setRequired(true),
+          )
+          .addIntegerOption((option) =>
+            option
+              .setName("world_id")
+              .setDescription("世界ID（在世界频道内可省略）")
+              .setMinValue(1)
+              .setRequired(false),
+          ),
+      )
+      .toJSON(),
   ];
 }
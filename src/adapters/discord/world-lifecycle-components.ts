@@ -0,0 +1,89 @@
+import { ActionRowBuilder, ButtonBuilder, ButtonStyle } from "discord.js";
+
+export type WorldLifecycleAction = "archive" | "unarchive" | "transfer";
+
+export type WorldLifecycleRequest = {
+  worldId: number;
+  action: WorldLifecycleAction;
+  /** Only the user who ran the command may confirm or cancel. */
+  requesterUserId: string;
+  /** New owner, for `transfer` only. */
+  targetUserId?: string;
+};
+
+const WORLD_LIFECYCLE_CUSTOM_ID_PREFIX = "wlc";
+
+const DISCORD_ID_PATTERN = /^\d{5,32}$/;
+
+export function buildWorldLifecycleCustomId(
+  request: WorldLifecycleRequest,
+  decision: "confirm" | "cancel",
+): string {
+  return [
+    WORLD_LIFECYCLE_CUSTOM_ID_PREFIX,
+    request.worldId,
+    request.action,
+    decision,
+    request.requesterUserId,
+    request.targetUserId ?? "",
+  ].join(":");
+}
+
+export function parseWorldLifecycleCustomId(
+  customId: string,
+): (WorldLifecycleRequest & { decision: "confirm" | "cancel" }) | null {
+  const [
+    prefix,
+    worldIdRaw,
+    action,
+    decision,
+    requesterUserId,
+    targetUserId,
+    ...rest
+  ] = customId.split(":");
+  if (prefix !== WORLD_LIFECYCLE_CUSTOM_ID_PREFIX || rest.length > 0) {
+    return null;
+  }
+  const worldId = Number(worldIdRaw);
+  if (!Number.isInteger(worldId) || worldId <= 0) {
+    return null;
+  }
+  if (action !== "archive" && action !== "unarchive" && action !== "transfer") {
+    return null;
+  }
+  if (decision !== "confirm" && decision !== "cancel") {
+    return null;
+  }
+  if (!requesterUserId || !DISCORD_ID_PATTERN.test(requesterUserId)) {
+    return null;
+  }
+  if (action === "transfer") {
+    if (!targetUserId || !DISCORD_ID_PATTERN.test(targetUserId)) {
+      return null;
+    }
+    return { worldId, action, decision, requesterUserId, targetUserId };
+  }
+  return targetUserId ? null : { worldId, action, decision, requesterUserId };
+}
+
+export function buildWorldLifecycleConfirmButtons(
+  request: WorldLifecycleRequest,
+  labels: { confirm: string; cancel: string },
+): ActionRowBuilder<ButtonBuilder>[] {
+  return [
+    new ActionRowBuilder<ButtonBuilder>().addComponents(
+      new ButtonBuilder()
+        .setCustomId(buildWorldLifecycleCustomId(request, "confirm"))
+        .setLabel(labels.confirm)
+        .setStyle(
+          request.action === "unarchive"
+            ? ButtonStyle.Success
+            : ButtonStyle.Danger,
+        ),
+      new ButtonBuilder()
+        .setCustomId(buildWorldLifecycleCustomId(request, "cancel"))
+        .setLabel(labels.cancel)
+        .setStyle(ButtonStyle.Secondary),
+    ),
+  ];
+}
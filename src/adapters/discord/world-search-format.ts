@@ -0,0 +1,12 @@
+import type { WorldSearchHit } from "../../world/search-index";
+
+/** One numbered line per hit: location first, then the snippet as a quote. */
+export function formatWorldSearchHits(hits: WorldSearchHit[]): string[] {
+  return hits.flatMap((hit, index) => {
+    const location = hit.heading ? `${hit.file} › ${hit.heading}` : hit.file;
+    return [
+      `${index + 1}. ${location}`,
+      `> ${hit.snippet.replace(/[\r\n]+/g, " ")}`,
+    ];
+  });
+}
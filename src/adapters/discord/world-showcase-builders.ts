@@ -259,6 +259,8 @@ export function buildWorldProposalsGuide(input: {
     "- Content:",
     "",
     "Keep one proposal per thread when possible.",
+    "",
+    "Members can vote 👍/👎 and comment on each `/world submit` proposal using the buttons under it.",
   ].join("\n");
 }
 
@@ -0,0 +1,148 @@
+import {
+  ActionRowBuilder,
+  ButtonBuilder,
+  ButtonStyle,
+  ModalBuilder,
+  TextInputBuilder,
+  TextInputStyle,
+} from "discord.js";
+import type { WorldSubmissionStatus } from "../../world/file-store";
+import type { WorldSubmissionTally } from "../../world/store-types";
+
+export type WorldSubmissionAction = "up" | "down" | "comment";
+
+const WORLD_SUBMISSION_CUSTOM_ID_PREFIX = "wsub";
+
+export const WORLD_SUBMISSION_COMMENT_INPUT_ID = "comment";
+
+export function buildWorldSubmissionCustomId(input: {
+  worldId: number;
+  submissionId: number;
+  action: WorldSubmissionAction;
+}): string {
+  return `${WORLD_SUBMISSION_CUSTOM_ID_PREFIX}:${input.worldId}:${input.submissionId}:${input.action}`;
+}
+
+export function parseWorldSubmissionCustomId(customId: string): {
+  worldId: number;
+  submissionId: number;
+  action: WorldSubmissionAction;
+} | null {
+  const [prefix, worldIdRaw, submissionIdRaw, actionRaw, ...rest] =
+    customId.split(":");
+  if (prefix !== WORLD_SUBMISSION_CUSTOM_ID_PREFIX || rest.length > 0) {
+    return null;
+  }
+  const worldId = Number(worldIdRaw);
+  const submissionId = Number(submissionIdRaw);
+  if (
+    !Number.isInteger(worldId) ||
+    worldId <= 0 ||
+    !Number.isInteger(submissionId) ||
+    submissionId <= 0
+  ) {
+    return null;
+  }
+  if (actionRaw !== "up" && actionRaw !== "down" && actionRaw !== "comment") {
+    return null;
+  }
+  return { worldId, submissionId, action: actionRaw };
+}
+
+/** Net votes reaching the world's threshold approve the submission. */
+export function shouldAutoApproveSubmission(
+  tally: WorldSubmissionTally,
+  threshold: number | undefined,
+): boolean {
+  if (!threshold || threshold <= 0) {
+    return false;
+  }
+  return tally.up - tally.down >= threshold;
+}
+
+export function buildWorldSubmissionProposalContent(input: {
+  worldId: number;
+  worldName: string;
+  submissionId: number;
+  kind: string;
+  title: string;
+  submitterUserId: string;
+  status: WorldSubmissionStatus;
+  tally: WorldSubmissionTally;
+  autoApproveVotes?: number;
+  note?: string;
+}): string {
+  const statusLine =
+    input.status === "approved"
+      ? "状态：已确认"
+      : input.status === "rejected"
+        ? "状态：已驳回"
+        : "状态：待确认";
+  const threshold = input.autoApproveVotes
+    ? `（净票数达到 ${input.autoApproveVotes} 自动通过）`
+    : "";
+  return [
+    `【世界提案】W${input.worldId} ${input.worldName} / S${input.submissionId}`,
+    `类型：${input.kind} 标题：${input.title}`,
+    `提交者：<@${input.submitterUserId}>`,
+    `投票：👍 ${input.tally.up} / 👎 ${input.tally.down}${threshold}`,
+    statusLine,
+    input.note?.trim() ? input.note.trim() : null,
+    input.status === "pending"
+      ? `审核：/world approve submission_id:${input.submissionId} world_id:${input.worldId} 或 /world reject submission_id:${input.submissionId} world_id:${input.worldId}`
+      : null,
+  ]
+    .filter((line): line is string => Boolean(line))
+    .join("\n");
+}
+
+/** Vote and comment buttons; decided submissions get none. */
+export function buildWorldSubmissionButtons(input: {
+  worldId: number;
+  submissionId: number;
+  status: WorldSubmissionStatus;
+  tally: WorldSubmissionTally;
+}): ActionRowBuilder<ButtonBuilder>[] {
+  if (input.status !== "pending") {
+    return [];
+  }
+  const ids = { worldId: input.worldId, submissionId: input.submissionId };
+  return [
+    new ActionRowBuilder<ButtonBuilder>().addComponents(
+      new ButtonBuilder()
+        .setCustomId(buildWorldSubmissionCustomId({ ...ids, action: "up" }))
+        .setLabel(`👍 ${input.tally.up}`)
+        .setStyle(ButtonStyle.Success),
+      new ButtonBuilder()
+        .setCustomId(buildWorldSubmissionCustomId({ ...ids, action: "down" }))
+        .setLabel(`👎 ${input.tally.down}`)
+        .setStyle(ButtonStyle.Danger),
+      new ButtonBuilder()
+        .setCustomId(
+          buildWorldSubmissionCustomId({ ...ids, action: "comment" }),
+        )
+        .setLabel("💬 评论")
+        .setStyle(ButtonStyle.Secondary),
+    ),
+  ];
+}
+
+export function buildWorldSubmissionCommentModal(input: {
+  worldId: number;
+  submissionId: number;
+}): ModalBuilder {
+  return new ModalBuilder()
+    .setCustomId(buildWorldSubmissionCustomId({ ...input, action: "comment" }))
+    .setTitle(`评论提案 S${input.submissionId}`)
+    .addComponents(
+      new ActionRowBuilder<TextInputBuilder>().addComponents(
+        new TextInputBuilder()
+          .setCustomId(WORLD_SUBMISSION_COMMENT_INPUT_ID)
+          .setLabel("评论内容")
+          .setStyle(TextInputStyle.Paragraph)
+          .setMinLength(1)
+          .setMaxLength(1000)
+          .setRequired(true),
+      ),
+    );
+}
@@ -1,12 +1,14 @@
 import type { AppConfig } from "../config";
 import type { PlatformAdapter } from "../types/platform";
 import type { BotMessageStore } from "../store/bot-message-store";
+import type { UsageStore } from "../session/usage";
 import { DiscordAdapter } from "./discord";
 import { QQAdapterPool } from "./qq";
+import { TelegramAdapter } from "./telegram";
 
 export function createPlatformAdapters(
   config: AppConfig,
-  options?: { botMessageStore?: BotMessageStore },
+  options?: { botMessageStore?: BotMessageStore; usageStore?: UsageStore },
 ): PlatformAdapter[] {
   const adapters: PlatformAdapter[] = [];
 
@@ -17,6 +19,24 @@ export function createPlatformAdapters(
         token: discordToken,
         applicationId: config.DISCORD_APPLICATION_ID,
         botMessageStore: options?.botMessageStore,
+        usageStore: options?.usageStore,
+      }),
+    );
+  }
+
+  const telegramToken = config.TELEGRAM_BOT_TOKEN?.trim();
+  if (telegramToken) {
+    adapters.push(
+      new TelegramAdapter({
+        token: telegramToken,
+        apiBaseUrl: config.TELEGRAM_API_BASE_URL,
+        mode: config.TELEGRAM_MODE,
+        pollTimeoutSec: config.TELEGRAM_POLL_TIMEOUT_SEC,
+        webhookUrl: config.TELEGRAM_WEBHOOK_URL,
+        webhookPort: config.TELEGRAM_WEBHOOK_PORT,
+        webhookPath: config.TELEGRAM_WEBHOOK_PATH,
+        webhookSecret: config.TELEGRAM_WEBHOOK_SECRET,
+        botMessageStore: options?.botMessageStore,
       }),
     );
   }
@@ -26,6 +46,14 @@ export function createPlatformAdapters(
       new QQAdapterPool({
         redisUrl: config.REDIS_URL,
         registryPrefix: config.LLBOT_REGISTRY_PREFIX,
+        oneBotAccessToken: config.ONEBOT_ACCESS_TOKEN,
+        oneBotReverseWs:
+          config.ONEBOT_REVERSE_WS_PORT !== undefined
+            ? {
+                port: config.ONEBOT_REVERSE_WS_PORT,
+                path: config.ONEBOT_REVERSE_WS_PATH,
+              }
+            : undefined,
         botMessageStore: options?.botMessageStore,
       }),
     );
@@ -3,5 +3,6 @@
  */
 export { QQAdapter } from "./qq/index";
 export { DiscordAdapter } from "./discord";
+export { TelegramAdapter } from "./telegram";
 export { MultiAdapter } from "./multi";
 export { createPlatformAdapters } from "./factory";
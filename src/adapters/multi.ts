@@ -2,9 +2,11 @@ import type { Logger } from "pino";
 
 import type {
   Bot,
+  EditMessageOptions,
   MessageHandler,
   PlatformAdapter,
   SendMessageOptions,
+  SentMessageRef,
   SessionEvent,
 } from "../types/platform";
 import { logger as defaultLogger } from "../logger";
@@ -85,6 +87,16 @@ export class MultiAdapter implements PlatformAdapter {
     );
   }
 
+  /** Connection state of each wrapped platform adapter. */
+  getPlatformStatuses(): Record<string, Bot["status"]> {
+    return Object.fromEntries(
+      Array.from(this.entries.entries(), ([platform, entry]) => [
+        platform,
+        entry.bot.status,
+      ]),
+    );
+  }
+
   onEvent(handler: MessageHandler): void {
     for (const entry of this.entries.values()) {
       entry.adapter.onEvent(handler);
@@ -125,6 +137,47 @@ export class MultiAdapter implements PlatformAdapter {
     await entry.adapter.sendMessage(session, auditedContent, auditedOptions);
   }
 
+  async sendDraft(
+    session: SessionEvent,
+    content: string,
+  ): Promise<SentMessageRef | null> {
+    const entry = this.resolveEditableEntry(session);
+    if (!entry?.adapter.sendDraft) {
+      return null;
+    }
+    return entry.adapter.sendDraft(session, redactSensitiveText(content));
+  }
+
+  async editMessage(
+    session: SessionEvent,
+    message: SentMessageRef,
+    content: string,
+    options?: EditMessageOptions,
+  ): Promise<boolean> {
+    const entry = this.resolveEditableEntry(session);
+    if (!entry?.adapter.editMessage) {
+      return false;
+    }
+    return entry.adapter.editMessage(
+      session,
+      message,
+      redactSensitiveText(content),
+      options,
+    );
+  }
+
+  async deleteMessage(
+    session: SessionEvent,
+    message: SentMessageRef,
+  ): Promise<void> {
+    const platformKey = session.platform?.toLowerCase();
+    const entry = platformKey ? this.entries.get(platformKey) : null;
+    if (!entry?.bot.capabilities.canDeleteMessage) {
+      return;
+    }
+    await entry.adapter.deleteMessage?.(session, message);
+  }
+
   async sendSuggestedCommandActions(
     input: SuggestedCommandActionsInput,
   ): Promise<boolean> {
@@ -162,6 +215,15 @@ export class MultiAdapter implements PlatformAdapter {
   getBotUserId(): string | null {
     return null;
   }
+
+  private resolveEditableEntry(session: SessionEvent): AdapterEntry | null {
+    const platformKey = session.platform?.toLowerCase();
+    const entry = platformKey ? this.entries.get(platformKey) : null;
+    if (!entry || !entry.bot.capabilities.canEditMessage) {
+      return null;
+    }
+    return entry;
+  }
 }
 
 function createBot(adapter: PlatformAdapter): Bot {
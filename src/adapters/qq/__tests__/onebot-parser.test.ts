@@ -0,0 +1,111 @@
+import { describe, expect, test } from "bun:test";
+import { parseCqCodeString, parseOneBotMessage } from "../onebot-parser";
+
+function buildEvent(overrides: Record<string, unknown>): unknown {
+  return {
+    post_type: "message",
+    message_type: "group",
+    sub_type: "normal",
+    message_id: 1001,
+    user_id: 10001,
+    group_id: 20002,
+    sender: { user_id: 10001, nickname: "Alice", role: "member" },
+    time: 1704067200,
+    self_id: 30003,
+    ...overrides,
+  };
+}
+
+describe("parseOneBotMessage", () => {
+  test("parses segment arrays", () => {
+    const result = parseOneBotMessage(
+      buildEvent({
+        message: [
+          { type: "reply", data: { id: "999" } },
+          { type: "at", data: { qq: "30003" } },
+          { type: "text", data: { text: " hello " } },
+          {
+            type: "image",
+            data: { file: "abc.image", url: "https://img.example/abc.png" },
+          },
+          { type: "face", data: { id: "1" } },
+        ],
+      }),
+    );
+
+    expect(result).not.toBeNull();
+    expect(result!.platform).toBe("qq");
+    expect(result!.selfId).toBe("30003");
+    expect(result!.guildId).toBe("20002");
+    expect(result!.channelId).toBe("20002");
+    expect(result!.messageId).toBe("1001");
+    expect(result!.content).toBe("hello");
+    expect(result!.elements).toEqual([
+      { type: "quote", messageId: "999" },
+      { type: "mention", userId: "30003" },
+      { type: "text", text: "hello" },
+      { type: "image", url: "https://img.example/abc.png" },
+    ]);
+  });
+
+  test("parses CQ-code strings with escaping", () => {
+    const result = parseOneBotMessage(
+      buildEvent({
+        message_type: "private",
+        group_id: undefined,
+        message:
+          "[CQ:at,qq=30003] roll &#91;2d6&#93; &amp; more[CQ:image,file=https://img.example/a.png?x=1&#44;2]",
+      }),
+    );
+
+    expect(result!.guildId).toBeUndefined();
+    expect(result!.channelId).toBe("10001");
+    expect(result!.elements).toEqual([
+      { type: "mention", userId: "30003" },
+      { type: "text", text: "roll [2d6] & more" },
+      { type: "image", url: "https://img.example/a.png?x=1,2" },
+    ]);
+  });
+
+  test("falls back to raw_message and ignores @all", () => {
+    const result = parseOneBotMessage(
+      buildEvent({ raw_message: "[CQ:at,qq=all] announce" }),
+    );
+
+    expect(result!.elements).toEqual([{ type: "text", text: "announce" }]);
+  });
+
+  test("accepts string ids from loose implementations", () => {
+    const result = parseOneBotMessage(
+      buildEvent({
+        message_id: "m-1",
+        user_id: "10001",
+        group_id: "20002",
+        self_id: "30003",
+        message: [{ type: "text", data: { text: "hi" } }],
+      }),
+    );
+
+    expect(result!.messageId).toBe("m-1");
+    expect(result!.guildId).toBe("20002");
+  });
+
+  test("rejects non-message events and group messages without group_id", () => {
+    expect(
+      parseOneBotMessage({ post_type: "meta_event", self_id: 1, time: 1 }),
+    ).toBeNull();
+    expect(
+      parseOneBotMessage(buildEvent({ group_id: undefined, message: "hi" })),
+    ).toBeNull();
+  });
+});
+
+describe("parseCqCodeString", () => {
+  test("splits text and CQ codes", () => {
+    expect(parseCqCodeString("a[CQ:face,id=1]b")).toEqual([
+      { type: "text", data: { text: "a" } },
+      { type: "face", data: { id: "1" } },
+      { type: "text", data: { text: "b" } },
+    ]);
+  });
+});
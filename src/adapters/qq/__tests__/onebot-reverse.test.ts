@@ -0,0 +1,156 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import pino from "pino";
+import { OneBotAdapter } from "../onebot-adapter";
+import {
+  OneBotReverseServer,
+  type OneBotReverseConnection,
+} from "../onebot-reverse";
+import type { Bot, SessionEvent } from "../../../types/platform";
+
+const logger = pino({ level: "silent" });
+
+async function waitFor(predicate: () => boolean): Promise<void> {
+  const deadline = Date.now() + 2000;
+  while (!predicate()) {
+    if (Date.now() > deadline) {
+      throw new Error("Timed out waiting for condition");
+    }
+    await Bun.sleep(10);
+  }
+}
+
+function openClient(
+  port: number,
+  headers: Record<string, string>,
+): Promise<WebSocket> {
+  const ws = new WebSocket(`ws://localhost:${port}/onebot/v11/ws`, {
+    headers,
+  } as unknown as string[]);
+  return new Promise((resolve, reject) => {
+    ws.addEventListener("open", () => resolve(ws), { once: true });
+    ws.addEventListener("error", () => reject(new Error("ws error")), {
+      once: true,
+    });
+  });
+}
+
+describe("OneBotReverseServer", () => {
+  let server: OneBotReverseServer | null = null;
+  const clients: WebSocket[] = [];
+
+  afterEach(() => {
+    for (const client of clients.splice(0)) {
+      client.close();
+    }
+    server?.stop();
+    server = null;
+  });
+
+  test("rejects clients without the access token", async () => {
+    server = new OneBotReverseServer({
+      port: 0,
+      accessToken: "secret",
+      logger,
+      onConnection: () => {},
+    });
+    server.start();
+
+    const response = await fetch(
+      `http://localhost:${server.port}/onebot/v11/ws`,
+      { headers: { "x-self-id": "30003" } },
+    );
+    expect(response.status).toBe(401);
+  });
+
+  test("routes events and action responses through OneBotAdapter", async () => {
+    const connections: OneBotReverseConnection[] = [];
+    server = new OneBotReverseServer({
+      port: 0,
+      accessToken: "secret",
+      logger,
+      onConnection: (connection) => {
+        connections.push(connection);
+      },
+    });
+    server.start();
+
+    const client = await openClient(server.port!, {
+      authorization: "Bearer secret",
+      "x-self-id": "30003",
+      "x-client-role": "Universal",
+    });
+    clients.push(client);
+    await waitFor(() => connections.length === 1);
+    expect(connections[0]?.selfId).toBe("30003");
+
+    const adapter = new OneBotAdapter({ connection: connections[0], logger });
+    const events: SessionEvent[] = [];
+    adapter.onEvent((event) => {
+      events.push(event);
+    });
+    const bot: Bot = {
+      platform: "qq",
+      selfId: "",
+      status: "disconnected",
+      capabilities: {
+        canEditMessage: false,
+        canDeleteMessage: false,
+        canSendRichContent: false,
+      },
+      adapter,
+    };
+    await adapter.connect(bot);
+    expect(bot.selfId).toBe("30003");
+    expect(bot.status).toBe("connected");
+
+    const actions: Array<{ action: string; params: unknown }> = [];
+    client.addEventListener("message", (event) => {
+      const frame = JSON.parse(String(event.data)) as {
+        action: string;
+        params: unknown;
+        echo: string;
+      };
+      actions.push({ action: frame.action, params: frame.params });
+      client.send(
+        JSON.stringify({
+          status: "ok",
+          retcode: 0,
+          data: { message_id: 5 },
+          echo: frame.echo,
+        }),
+      );
+    });
+
+    client.send(
+      JSON.stringify({
+        post_type: "message",
+        message_type: "group",
+        message_id: 1,
+        user_id: 10001,
+        group_id: 20002,
+        message: "[CQ:at,qq=30003] hi",
+        time: 1704067200,
+        self_id: 30003,
+      }),
+    );
+    await waitFor(() => events.length === 1);
+    expect(events[0]?.content).toBe("hi");
+
+    await adapter.sendMessage(events[0]!, "hello back");
+    expect(actions).toEqual([
+      {
+        action: "send_group_msg",
+        params: {
+          group_id: "20002",
+          message: [
+            { type: "reply", data: { id: "1" } },
+            { type: "text", data: { text: "hello back" } },
+          ],
+        },
+      },
+    ]);
+
+    client.close();
+    await waitFor(() => bot.status === "disconnected");
+  });
+});
@@ -1,9 +1,12 @@
 /**
  * QQ Platform Adapter
  *
- * Implements the PlatformAdapter interface for QQ via Milky WebSocket protocol.
+ * Implements the PlatformAdapter interface for QQ via Milky WebSocket protocol
+ * or OneBot v11 (forward / reverse WebSocket).
  */
 
 export { QQAdapter } from "./adapter";
 export type { QQAdapterOptions } from "./adapter";
+export { OneBotAdapter } from "./onebot-adapter";
+export type { OneBotAdapterOptions } from "./onebot-adapter";
 export { QQAdapterPool } from "./pool";
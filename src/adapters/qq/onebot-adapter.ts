@@ -0,0 +1,177 @@
+import { EventEmitter } from "node:events";
+import type { Logger } from "pino";
+import type {
+  Bot,
+  PlatformAdapter,
+  MessageHandler,
+  SendMessageOptions,
+  SessionEvent,
+} from "../../types/platform";
+import { MilkyConnection } from "./connection";
+import type { OneBotReverseConnection } from "./onebot-reverse";
+import { parseOneBotMessage } from "./onebot-parser";
+import { MessageSender, type QQActionTransport } from "./sender";
+import { logger as defaultLogger } from "../../logger";
+import type { BotMessageStore } from "../../store/bot-message-store";
+
+export interface OneBotAdapterOptions {
+  /** Forward WebSocket URL (the adapter dials the OneBot implementation). */
+  url?: string;
+  /** Accepted reverse WebSocket (the OneBot implementation dialed us). */
+  connection?: OneBotReverseConnection;
+  /** OneBot access token; appended as ?access_token= in forward mode. */
+  accessToken?: string;
+  /** Custom logger instance */
+  logger?: Logger;
+  botMessageStore?: BotMessageStore;
+}
+
+interface OneBotConnectionLike extends QQActionTransport {
+  connect(): Promise<void>;
+  disconnect(): Promise<void>;
+  on(event: "disconnect", listener: () => void): unknown;
+}
+
+/**
+ * QQ adapter speaking OneBot v11 (NapCat, go-cqhttp, Lagrange, ...).
+ *
+ * Forward mode reuses MilkyConnection: both protocols exchange the same
+ * `{action, params, echo}` / `post_type` JSON frames over WebSocket.
+ */
+export class OneBotAdapter extends EventEmitter implements PlatformAdapter {
+  readonly platform = "qq";
+
+  private connection: OneBotConnectionLike;
+  private sender: MessageSender;
+  private logger: Logger;
+  private botUserId: string | null = null;
+  private bot: Bot | null = null;
+  private isShuttingDown = false;
+
+  constructor(options: OneBotAdapterOptions = {}) {
+    const url = options.url?.trim();
+    if (!url && !options.connection) {
+      throw new Error(
+        "OneBotAdapter requires a forward WebSocket URL or a reverse connection",
+      );
+    }
+    super();
+    this.logger = (options.logger ?? defaultLogger).child({
+      adapter: "onebot",
+    });
+
+    if (options.connection) {
+      const reverse = options.connection;
+      reverse.setEventHandler(this.handleEvent.bind(this));
+      this.botUserId = reverse.selfId;
+      this.connection = reverse;
+    } else {
+      this.connection = new MilkyConnection({
+        url: appendAccessToken(url!, options.accessToken),
+        logger: this.logger,
+        onEvent: this.handleEvent.bind(this),
+        onBotId: (id: string) => {
+          this.botUserId = id;
+          if (this.bot) {
+            this.bot.selfId = id;
+            this.bot.status = "connected";
+          }
+          this.logger.info({ botId: id }, "Bot ID received");
+        },
+      });
+    }
+
+    this.connection.on("disconnect", () => {
+      if (this.isShuttingDown) {
+        return;
+      }
+      if (this.bot) {
+        this.bot.status = "disconnected";
+      }
+      this.emit("disconnect");
+    });
+
+    this.sender = new MessageSender(
+      this.connection,
+      this.logger,
+      options.botMessageStore,
+    );
+  }
+
+  async connect(bot: Bot): Promise<void> {
+    this.bot = bot;
+    this.isShuttingDown = false;
+    this.logger.info("Connecting to OneBot server...");
+    await this.connection.connect();
+    if (this.botUserId) {
+      bot.selfId = this.botUserId;
+    }
+    bot.status = "connected";
+    this.logger.info("Connected to OneBot server");
+  }
+
+  async disconnect(bot: Bot): Promise<void> {
+    this.isShuttingDown = true;
+    bot.status = "disconnected";
+    this.logger.info("Disconnecting from OneBot server...");
+    await this.connection.disconnect();
+    this.logger.info("Disconnected from OneBot server");
+  }
+
+  onEvent(handler: MessageHandler): void {
+    this.on("event", handler);
+  }
+
+  async sendMessage(
+    session: SessionEvent,
+    content: string,
+    options?: SendMessageOptions,
+  ): Promise<void> {
+    await this.sender.send(session, content, options);
+  }
+
+  getBotUserId(): string | null {
+    return this.botUserId;
+  }
+
+  private async handleEvent(event: unknown): Promise<void> {
+    if (this.listenerCount("event") === 0) {
+      return;
+    }
+    try {
+      const message = parseOneBotMessage(event);
+      if (message) {
+        this.logger.debug({ messageId: message.messageId }, "Message received");
+        await this.emitEvent(message);
+      }
+    } catch (err) {
+      this.logger.error({ err, event }, "Failed to parse event");
+    }
+  }
+
+  private async emitEvent(
+    message: Parameters<MessageHandler>[0],
+  ): Promise<void> {
+    const handlers = this.listeners("event") as MessageHandler[];
+    for (const handler of handlers) {
+      try {
+        await handler(message);
+      } catch (err) {
+        this.logger.error(
+          { err, messageId: message.messageId },
+          "Handler error",
+        );
+      }
+    }
+  }
+}
+
+function appendAccessToken(url: string, accessToken?: string): string {
+  const token = accessToken?.trim();
+  if (!token) {
+    return url;
+  }
+  const parsed = new URL(url);
+  parsed.searchParams.set("access_token", token);
+  return parsed.toString();
+}
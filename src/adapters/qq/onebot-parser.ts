@@ -0,0 +1,190 @@
+import { z } from "zod";
+import type { SessionElement, SessionEvent } from "../../types/platform";
+import {
+  appendTextElement,
+  extractTextFromElements,
+  trimTextElements,
+} from "../utils";
+
+/**
+ * Parse a OneBot v11 message event into SessionEvent.
+ *
+ * Accepts both message formats defined by the standard: segment arrays and
+ * CQ-code strings (with `&amp;`/`&#91;`/`&#93;`/`&#44;` escaping).
+ */
+export function parseOneBotMessage(
+  event: unknown,
+): SessionEvent<OneBotMessageEvent> | null {
+  const parsed = oneBotMessageEventSchema.safeParse(event);
+  if (!parsed.success) {
+    return null;
+  }
+  const parsedEvent = parsed.data;
+
+  const elements = normalizeMessage(parsedEvent);
+  const content = extractTextFromElements(elements);
+  const isGroup = parsedEvent.message_type === "group";
+
+  return {
+    type: "message",
+    platform: "qq",
+    selfId: String(parsedEvent.self_id),
+    channelId: String(isGroup ? parsedEvent.group_id : parsedEvent.user_id),
+    userId: String(parsedEvent.user_id),
+    guildId: isGroup ? String(parsedEvent.group_id) : undefined,
+    messageId: String(parsedEvent.message_id),
+    content,
+    elements,
+    timestamp: parsedEvent.time * 1000,
+    extras: parsedEvent,
+  };
+}
+
+/**
+ * Parse a CQ-code string into segment form.
+ */
+export function parseCqCodeString(raw: string): OneBotMessageSegment[] {
+  const segments: OneBotMessageSegment[] = [];
+  const pattern = /\[CQ:([a-zA-Z0-9_.-]+)((?:,[^\]]*)?)\]/g;
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(raw))) {
+    pushTextSegment(segments, raw.slice(lastIndex, match.index));
+    segments.push({ type: match[1], data: parseCqParams(match[2]) });
+    lastIndex = pattern.lastIndex;
+  }
+  pushTextSegment(segments, raw.slice(lastIndex));
+  return segments;
+}
+
+const idSchema = z.union([z.number(), z.string()]);
+
+const oneBotMessageSegmentSchema = z
+  .object({
+    type: z.string(),
+    data: z.record(z.unknown()).default({}),
+  })
+  .passthrough();
+
+const oneBotMessageEventSchema = z
+  .object({
+    post_type: z.literal("message"),
+    message_type: z.enum(["group", "private"]),
+    sub_type: z.string().optional(),
+    message_id: idSchema,
+    user_id: idSchema,
+    group_id: idSchema.optional(),
+    message: z
+      .union([z.string(), z.array(oneBotMessageSegmentSchema)])
+      .optional(),
+    raw_message: z.string().optional(),
+    sender: z
+      .object({
+        user_id: idSchema.optional(),
+        nickname: z.string().optional(),
+        card: z.string().optional(),
+        role: z.string().optional(),
+      })
+      .passthrough()
+      .optional(),
+    time: z.number(),
+    self_id: idSchema,
+  })
+  .passthrough()
+  .refine(
+    (event) => event.message_type !== "group" || event.group_id !== undefined,
+    { message: "group message requires group_id" },
+  );
+
+export type OneBotMessageEvent = z.infer<typeof oneBotMessageEventSchema>;
+export type OneBotMessageSegment = z.infer<typeof oneBotMessageSegmentSchema>;
+
+function normalizeMessage(event: OneBotMessageEvent): SessionElement[] {
+  const { message, raw_message } = event;
+  if (Array.isArray(message)) {
+    return mapSegmentsToElements(message);
+  }
+  if (typeof message === "string") {
+    return mapSegmentsToElements(parseCqCodeString(message));
+  }
+  if (typeof raw_message === "string") {
+    return mapSegmentsToElements(parseCqCodeString(raw_message));
+  }
+  return [];
+}
+
+function mapSegmentsToElements(
+  segments: ReadonlyArray<OneBotMessageSegment>,
+): SessionElement[] {
+  const elements: SessionElement[] = [];
+  for (const seg of segments) {
+    const data = seg.data ?? {};
+    if (seg.type === "text" && typeof data.text === "string") {
+      appendTextElement(elements, data.text);
+      continue;
+    }
+    if (seg.type === "image") {
+      // OneBot v11 `file` is often a cache file name; prefer the download url.
+      const url = pickString(data.url) ?? pickString(data.file);
+      if (url) {
+        elements.push({ type: "image", url });
+      }
+      continue;
+    }
+    if (seg.type === "at") {
+      const qq = pickId(data.qq);
+      if (qq && qq !== "all") {
+        elements.push({ type: "mention", userId: qq });
+      }
+      continue;
+    }
+    if (seg.type === "reply") {
+      const id = pickId(data.id);
+      if (id) {
+        elements.push({ type: "quote", messageId: id });
+      }
+      continue;
+    }
+  }
+  return trimTextElements(elements);
+}
+
+function pushTextSegment(segments: OneBotMessageSegment[], raw: string): void {
+  if (!raw) {
+    return;
+  }
+  segments.push({ type: "text", data: { text: unescapeCq(raw) } });
+}
+
+function parseCqParams(raw: string): Record<string, string> {
+  const params: Record<string, string> = {};
+  for (const pair of raw.split(",")) {
+    const separatorIndex = pair.indexOf("=");
+    if (separatorIndex <= 0) {
+      continue;
+    }
+    const key = pair.slice(0, separatorIndex);
+    params[key] = unescapeCq(pair.slice(separatorIndex + 1));
+  }
+  return params;
+}
+
+function unescapeCq(value: string): string {
+  return value
+    .replace(/&#91;/g, "[")
+    .replace(/&#93;/g, "]")
+    .replace(/&#44;/g, ",")
+    .replace(/&amp;/g, "&");
+}
+
+function pickString(value: unknown): string | null {
+  return typeof value === "string" && value.trim() ? value.trim() : null;
+}
+
+function pickId(value: unknown): string | null {
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return String(value);
+  }
+  return pickString(value);
+}
@@ -0,0 +1,271 @@
+import { EventEmitter } from "node:events";
+import type { ServerWebSocket } from "bun";
+import type { Logger } from "pino";
+
+export const DEFAULT_ONEBOT_REVERSE_WS_PATH = "/onebot/v11/ws";
+
+const REQUEST_TIMEOUT_MS = 30000;
+
+export interface OneBotReverseServerOptions {
+  port: number;
+  path?: string;
+  /** Expected access token (Authorization: Bearer/Token, or ?access_token=). */
+  accessToken?: string;
+  logger: Logger;
+  onConnection: (connection: OneBotReverseConnection) => void | Promise<void>;
+}
+
+interface SocketData {
+  selfId: string;
+  connection: OneBotReverseConnection | null;
+}
+
+/**
+ * OneBot v11 reverse WebSocket server: the OneBot implementation (NapCat,
+ * go-cqhttp, ...) dials in as a Universal client and identifies itself with
+ * the X-Self-ID header.
+ */
+export class OneBotReverseServer {
+  private readonly options: OneBotReverseServerOptions;
+  private readonly path: string;
+  private readonly logger: Logger;
+  private server: ReturnType<typeof Bun.serve<SocketData>> | null = null;
+
+  constructor(options: OneBotReverseServerOptions) {
+    this.options = options;
+    this.path = options.path?.trim() || DEFAULT_ONEBOT_REVERSE_WS_PATH;
+    this.logger = options.logger.child({ component: "onebot-reverse" });
+  }
+
+  start(): void {
+    if (this.server) {
+      return;
+    }
+    this.server = Bun.serve<SocketData>({
+      port: this.options.port,
+      fetch: (req, server) => {
+        const url = new URL(req.url);
+        if (url.pathname !== this.path) {
+          return new Response("Not Found", { status: 404 });
+        }
+        if (!this.isAuthorized(req, url)) {
+          return new Response("Unauthorized", { status: 401 });
+        }
+        const selfId = req.headers.get("x-self-id")?.trim() ?? "";
+        if (!/^\d+$/.test(selfId)) {
+          return new Response("Missing X-Self-ID", { status: 400 });
+        }
+        const role = req.headers.get("x-client-role")?.trim().toLowerCase();
+        if (role && role !== "universal") {
+          return new Response("Only Universal clients are supported", {
+            status: 400,
+          });
+        }
+        const upgraded = server.upgrade(req, {
+          data: { selfId, connection: null },
+        });
+        return upgraded
+          ? undefined
+          : new Response("Upgrade failed", { status: 400 });
+      },
+      websocket: {
+        open: (ws) => {
+          const connection = new OneBotReverseConnection(
+            ws.data.selfId,
+            ws,
+            this.logger,
+          );
+          ws.data.connection = connection;
+          this.logger.info(
+            { selfId: ws.data.selfId },
+            "OneBot client connected",
+          );
+          void Promise.resolve(this.options.onConnection(connection)).catch(
+            (err) => {
+              this.logger.error(
+                { err, selfId: ws.data.selfId },
+                "Failed to register OneBot connection",
+              );
+            },
+          );
+        },
+        message: (ws, message) => {
+          ws.data.connection?.handleFrame(message);
+        },
+        close: (ws) => {
+          this.logger.warn(
+            { selfId: ws.data.selfId },
+            "OneBot client disconnected",
+          );
+          ws.data.connection?.handleClose();
+        },
+      },
+    });
+    this.logger.info(
+      { port: this.server.port, path: this.path },
+      "OneBot reverse WebSocket server started",
+    );
+  }
+
+  stop(): void {
+    this.server?.stop(true);
+    this.server = null;
+  }
+
+  get port(): number | null {
+    return this.server?.port ?? null;
+  }
+
+  private isAuthorized(req: Request, url: URL): boolean {
+    const expected = this.options.accessToken?.trim();
+    if (!expected) {
+      return true;
+    }
+    const header = req.headers.get("authorization")?.trim() ?? "";
+    const match = header.match(/^(?:bearer|token)\s+(.+)$/i);
+    if (match) {
+      return match[1].trim() === expected;
+    }
+    return url.searchParams.get("access_token") === expected;
+  }
+}
+
+/**
+ * One accepted reverse WebSocket (one bot account).
+ */
+export class OneBotReverseConnection extends EventEmitter {
+  readonly selfId: string;
+
+  private ws: ServerWebSocket<SocketData> | null;
+  private logger: Logger;
+  private onEvent: ((event: unknown) => Promise<void>) | null = null;
+  private echoCounter = 0;
+  private responseCallbacks = new Map<
+    string,
+    {
+      resolve: (data: unknown) => void;
+      reject: (err: Error) => void;
+      timeout: ReturnType<typeof setTimeout>;
+    }
+  >();
+
+  constructor(selfId: string, ws: ServerWebSocket<SocketData>, logger: Logger) {
+    super();
+    this.selfId = selfId;
+    this.ws = ws;
+    this.logger = logger.child({ selfId });
+  }
+
+  setEventHandler(handler: (event: unknown) => Promise<void>): void {
+    this.onEvent = handler;
+  }
+
+  async connect(): Promise<void> {
+    if (!this.ws) {
+      throw new Error("OneBot reverse connection already closed");
+    }
+  }
+
+  async disconnect(): Promise<void> {
+    const ws = this.ws;
+    this.ws = null;
+    this.cancelPendingRequests();
+    try {
+      ws?.close();
+    } catch {
+      // Best-effort shutdown
+    }
+  }
+
+  isConnected(): boolean {
+    return this.ws !== null;
+  }
+
+  async sendRequest(
+    action: string,
+    params: Record<string, unknown> = {},
+  ): Promise<unknown> {
+    const ws = this.ws;
+    if (!ws) {
+      throw new Error("WebSocket not connected");
+    }
+    this.echoCounter += 1;
+    const echo = String(this.echoCounter);
+
+    return new Promise((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        if (this.responseCallbacks.delete(echo)) {
+          reject(new Error(`Request timeout for action: ${action}`));
+        }
+      }, REQUEST_TIMEOUT_MS);
+      this.responseCallbacks.set(echo, { resolve, reject, timeout });
+      try {
+        ws.send(JSON.stringify({ action, params, echo }));
+        this.logger.debug({ action, echo }, "Request sent");
+      } catch (err) {
+        this.responseCallbacks.delete(echo);
+        clearTimeout(timeout);
+        reject(err instanceof Error ? err : new Error("WebSocket send failed"));
+      }
+    });
+  }
+
+  handleFrame(message: string | Buffer): void {
+    let payload: unknown;
+    try {
+      payload = JSON.parse(
+        typeof message === "string" ? message : message.toString("utf8"),
+      );
+    } catch (err) {
+      this.logger.warn({ err }, "Failed to parse OneBot frame");
+      return;
+    }
+    if (!payload || typeof payload !== "object" || Array.isArray(payload)) {
+      return;
+    }
+    const record = payload as Record<string, unknown>;
+    if ("echo" in record && "status" in record) {
+      const echo = String(record.echo);
+      const callback = this.responseCallbacks.get(echo);
+      if (!callback) {
+        return;
+      }
+      this.responseCallbacks.delete(echo);
+      clearTimeout(callback.timeout);
+      if (record.status === "ok") {
+        callback.resolve(record.data);
+      } else {
+        const message =
+          typeof record.message === "string"
+            ? record.message
+            : typeof record.wording === "string"
+              ? record.wording
+              : `Request failed (retcode ${String(record.retcode)})`;
+        callback.reject(new Error(message));
+      }
+      return;
+    }
+    if ("post_type" in record && this.onEvent) {
+      this.onEvent(record).catch((err) => {
+        this.logger.error({ err }, "Event handler error");
+      });
+    }
+  }
+
+  handleClose(): void {
+    if (!this.ws) {
+      return;
+    }
+    this.ws = null;
+    this.cancelPendingRequests();
+    this.emit("disconnect");
+  }
+
+  private cancelPendingRequests(): void {
+    for (const [echo, callback] of this.responseCallbacks) {
+      clearTimeout(callback.timeout);
+      callback.reject(new Error("Connection closed"));
+      this.responseCallbacks.delete(echo);
+    }
+  }
+}
@@ -10,22 +10,35 @@ import type {
 import { logger as defaultLogger } from "../../logger";
 import {
   LlbotRegistry,
+  type LlbotProtocol,
   type LlbotRegistryEntry,
 } from "../../registry/llbot-registry";
 import { QQAdapter } from "./adapter";
+import { OneBotAdapter } from "./onebot-adapter";
+import {
+  OneBotReverseServer,
+  type OneBotReverseConnection,
+} from "./onebot-reverse";
 import type { BotMessageStore } from "../../store/bot-message-store";
 
 interface QQAdapterPoolOptions {
   redisUrl: string;
   registryPrefix: string;
+  /** Access token for OneBot v11 connections (forward and reverse). */
+  oneBotAccessToken?: string;
+  /** Accept OneBot v11 reverse WebSocket clients on this port/path. */
+  oneBotReverseWs?: { port: number; path?: string };
   logger?: Logger;
   botMessageStore?: BotMessageStore;
 }
 
 interface BotConnection {
-  adapter: QQAdapter;
+  adapter: QQAdapter | OneBotAdapter;
   bot: Bot;
+  /** "registry" connections are dialed by us; "reverse" ones dialed in. */
+  source: "registry" | "reverse";
   wsUrl: string;
+  protocol: LlbotProtocol;
 }
 
 export class QQAdapterPool implements PlatformAdapter {
@@ -37,6 +50,8 @@ export class QQAdapterPool implements PlatformAdapter {
   private connections = new Map<string, BotConnection>();
   private connecting = new Set<string>();
   private botMessageStore?: BotMessageStore;
+  private oneBotAccessToken?: string;
+  private reverseServer: OneBotReverseServer | null = null;
 
   constructor(options: QQAdapterPoolOptions) {
     this.logger = (options.logger ?? defaultLogger).child({
@@ -48,10 +63,21 @@ export class QQAdapterPool implements PlatformAdapter {
       logger: this.logger,
     });
     this.botMessageStore = options.botMessageStore;
+    this.oneBotAccessToken = options.oneBotAccessToken;
+    if (options.oneBotReverseWs) {
+      this.reverseServer = new OneBotReverseServer({
+        port: options.oneBotReverseWs.port,
+        path: options.oneBotReverseWs.path,
+        accessToken: options.oneBotAccessToken,
+        logger: this.logger,
+        onConnection: (connection) => this.acceptReverseConnection(connection),
+      });
+    }
   }
 
   async connect(bot: Bot): Promise<void> {
     bot.status = "connected";
+    this.reverseServer?.start();
     await this.registry.start(async (entries) => {
       await this.applyRegistry(entries);
     });
@@ -59,6 +85,7 @@ export class QQAdapterPool implements PlatformAdapter {
 
   async disconnect(bot: Bot): Promise<void> {
     bot.status = "disconnected";
+    this.reverseServer?.stop();
     await this.registry.stop();
     await this.disconnectAll();
   }
@@ -98,6 +125,14 @@ export class QQAdapterPool implements PlatformAdapter {
     return null;
   }
 
+  getConnectionCounts(): Record<BotConnection["source"], number> {
+    const counts = { registry: 0, reverse: 0 };
+    for (const connection of this.connections.values()) {
+      counts[connection.source] += 1;
+    }
+    return counts;
+  }
+
   private async applyRegistry(
     entries: Map<string, LlbotRegistryEntry>,
   ): Promise<void> {
@@ -108,7 +143,14 @@ export class QQAdapterPool implements PlatformAdapter {
       }
       activeBotIds.add(entry.botId);
       const existing = this.connections.get(entry.botId);
-      if (existing && existing.wsUrl === entry.wsUrl) {
+      if (existing?.source === "reverse") {
+        continue;
+      }
+      if (
+        existing &&
+        existing.wsUrl === entry.wsUrl &&
+        existing.protocol === entry.protocol
+      ) {
         continue;
       }
       if (existing) {
@@ -117,8 +159,8 @@ export class QQAdapterPool implements PlatformAdapter {
       await this.connectBot(entry);
     }
 
-    for (const botId of this.connections.keys()) {
-      if (!activeBotIds.has(botId)) {
+    for (const [botId, connection] of this.connections) {
+      if (connection.source === "registry" && !activeBotIds.has(botId)) {
         await this.disconnectBot(botId);
       }
     }
@@ -129,22 +171,20 @@ export class QQAdapterPool implements PlatformAdapter {
       return;
     }
     this.connecting.add(entry.botId);
-    const adapter = new QQAdapter({
-      url: entry.wsUrl,
-      logger: this.logger,
-      botMessageStore: this.botMessageStore,
-    });
-    const bot: Bot = {
-      platform: this.platform,
-      selfId: entry.botId,
-      status: "disconnected",
-      capabilities: {
-        canEditMessage: false,
-        canDeleteMessage: false,
-        canSendRichContent: false,
-      },
-      adapter,
-    };
+    const adapter =
+      entry.protocol === "onebot-v11"
+        ? new OneBotAdapter({
+            url: entry.wsUrl,
+            accessToken: this.oneBotAccessToken,
+            logger: this.logger,
+            botMessageStore: this.botMessageStore,
+          })
+        : new QQAdapter({
+            url: entry.wsUrl,
+            logger: this.logger,
+            botMessageStore: this.botMessageStore,
+          });
+    const bot = this.createBot(entry.botId, adapter);
     for (const handler of this.handlers) {
       adapter.onEvent(handler);
     }
@@ -153,10 +193,12 @@ export class QQAdapterPool implements PlatformAdapter {
       this.connections.set(entry.botId, {
         adapter,
         bot,
+        source: "registry",
         wsUrl: entry.wsUrl,
+        protocol: entry.protocol,
       });
       this.logger.info(
-        { botId: entry.botId, wsUrl: entry.wsUrl },
+        { botId: entry.botId, wsUrl: entry.wsUrl, protocol: entry.protocol },
         "Connected to llbot",
       );
     } catch (err) {
@@ -169,6 +211,53 @@ export class QQAdapterPool implements PlatformAdapter {
     }
   }
 
+  private async acceptReverseConnection(
+    connection: OneBotReverseConnection,
+  ): Promise<void> {
+    const botId = connection.selfId;
+    if (this.connections.has(botId)) {
+      await this.disconnectBot(botId);
+    }
+    const adapter = new OneBotAdapter({
+      connection,
+      logger: this.logger,
+      botMessageStore: this.botMessageStore,
+    });
+    const bot = this.createBot(botId, adapter);
+    for (const handler of this.handlers) {
+      adapter.onEvent(handler);
+    }
+    await adapter.connect(bot);
+    const entry: BotConnection = {
+      adapter,
+      bot,
+      source: "reverse",
+      wsUrl: "",
+      protocol: "onebot-v11",
+    };
+    this.connections.set(botId, entry);
+    adapter.on("disconnect", () => {
+      if (this.connections.get(botId) === entry) {
+        this.connections.delete(botId);
+      }
+    });
+    this.logger.info({ botId }, "Accepted OneBot reverse connection");
+  }
+
+  private createBot(botId: string, adapter: PlatformAdapter): Bot {
+    return {
+      platform: this.platform,
+      selfId: botId,
+      status: "disconnected",
+      capabilities: {
+        canEditMessage: false,
+        canDeleteMessage: false,
+        canSendRichContent: false,
+      },
+      adapter,
+    };
+  }
+
   private async disconnectBot(botId: string): Promise<void> {
     const existing = this.connections.get(botId);
     if (!existing) {
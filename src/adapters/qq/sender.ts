@@ -4,22 +4,32 @@ import type {
   SessionElement,
   SessionEvent,
 } from "../../types/platform";
-import type { MilkyConnection } from "./connection";
 import { getTraceIdFromExtras } from "../../telemetry";
 import type { BotMessageStore } from "../../store/bot-message-store";
 
+/**
+ * Anything that can issue Milky / OneBot v11 actions (both use the same
+ * segment format for send_group_msg / send_private_msg).
+ */
+export interface QQActionTransport {
+  sendRequest(
+    action: string,
+    params?: Record<string, unknown>,
+  ): Promise<unknown>;
+}
+
 interface MilkyMessageSegment {
   type: string;
   data: Record<string, unknown>;
 }
 
 export class MessageSender {
-  private connection: MilkyConnection;
+  private connection: QQActionTransport;
   private logger: Logger;
   private botMessageStore?: BotMessageStore;
 
   constructor(
-    connection: MilkyConnection,
+    connection: QQActionTransport,
     logger: Logger,
     botMessageStore?: BotMessageStore,
   ) {
@@ -0,0 +1,311 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import pino from "pino";
+import { TelegramAdapter } from "../adapter";
+import type { Bot, SessionEvent } from "../../../types/platform";
+
+const TOKEN = "123:test-token";
+
+interface RecordedCall {
+  method: string;
+  params: Record<string, unknown>;
+}
+
+/**
+ * Local stand-in for the Telegram Bot API.
+ */
+class FakeBotApiServer {
+  readonly calls: RecordedCall[] = [];
+  private pendingUpdates: unknown[] = [];
+  private server: ReturnType<typeof Bun.serve>;
+
+  constructor() {
+    this.server = Bun.serve({
+      port: 0,
+      fetch: async (req) => {
+        const url = new URL(req.url);
+        const match = url.pathname.match(/^\/bot([^/]+)\/([A-Za-z]+)$/);
+        if (!match || match[1] !== TOKEN) {
+          return Response.json(
+            { ok: false, error_code: 404, description: "Not Found" },
+            { status: 404 },
+          );
+        }
+        const method = match[2];
+        const params = (await req.json().catch(() => ({}))) as Record<
+          string,
+          unknown
+        >;
+        this.calls.push({ method, params });
+        return Response.json({ ok: true, result: this.respond(method) });
+      },
+    });
+  }
+
+  get baseUrl(): string {
+    return `http://localhost:${this.server.port}`;
+  }
+
+  pushUpdate(update: unknown): void {
+    this.pendingUpdates.push(update);
+  }
+
+  callsTo(method: string): RecordedCall[] {
+    return this.calls.filter((call) => call.method === method);
+  }
+
+  stop(): void {
+    this.server.stop(true);
+  }
+
+  private respond(method: string): unknown {
+    switch (method) {
+      case "getMe":
+        return { id: 999, is_bot: true, first_name: "Bot", username: "bot" };
+      case "getUpdates": {
+        const updates = this.pendingUpdates;
+        this.pendingUpdates = [];
+        return updates;
+      }
+      case "sendMessage":
+      case "sendPhoto":
+        return { message_id: 77 };
+      default:
+        return true;
+    }
+  }
+}
+
+function createBot(adapter: TelegramAdapter): Bot {
+  return {
+    platform: adapter.platform,
+    selfId: "",
+    status: "disconnected",
+    capabilities: {
+      canEditMessage: false,
+      canDeleteMessage: false,
+      canSendRichContent: false,
+    },
+    adapter,
+  };
+}
+
+function buildSession(overrides: Partial<SessionEvent> = {}): SessionEvent {
+  return {
+    type: "message",
+    platform: "telegram",
+    selfId: "999",
+    userId: "123",
+    guildId: "-1001",
+    channelId: "-1001",
+    messageId: "42",
+    content: "hi",
+    elements: [],
+    timestamp: Date.now(),
+    extras: {},
+    ...overrides,
+  };
+}
+
+async function waitFor(predicate: () => boolean): Promise<void> {
+  const deadline = Date.now() + 2000;
+  while (!predicate()) {
+    if (Date.now() > deadline) {
+      throw new Error("Timed out waiting for condition");
+    }
+    await Bun.sleep(10);
+  }
+}
+
+describe("TelegramAdapter", () => {
+  let server: FakeBotApiServer;
+  const logger = pino({ level: "silent" });
+
+  beforeEach(() => {
+    server = new FakeBotApiServer();
+  });
+
+  afterEach(() => {
+    server.stop();
+  });
+
+  test("long polling delivers parsed events and advances the offset", async () => {
+    const adapter = new TelegramAdapter({
+      token: TOKEN,
+      apiBaseUrl: server.baseUrl,
+      pollTimeoutSec: 0,
+      logger,
+    });
+    const events: SessionEvent[] = [];
+    adapter.onEvent((event) => {
+      events.push(event);
+    });
+    const bot = createBot(adapter);
+
+    server.pushUpdate({
+      update_id: 10,
+      message: {
+        message_id: 1,
+        from: { id: 123, is_bot: false, first_name: "Alice" },
+        chat: { id: -1001, type: "group", title: "Tavern" },
+        date: 1704067200,
+        text: "hello",
+        photo: [{ file_id: "f", width: 10, height: 10 }],
+      },
+    });
+    await adapter.connect(bot);
+    await waitFor(() => events.length === 1);
+    await waitFor(() => server.callsTo("getUpdates").length >= 2);
+    await adapter.disconnect(bot);
+
+    expect(bot.selfId).toBe("999");
+    expect(bot.status).toBe("disconnected");
+    expect(adapter.getBotUserId()).toBe("999");
+    expect(server.callsTo("deleteWebhook")).toHaveLength(1);
+    expect(events[0]?.guildId).toBe("-1001");
+    expect(events[0]?.elements).toEqual([
+      { type: "text", text: "hello" },
+      // The download URL carries the token, so only the file_id is kept.
+      { type: "image", url: "telegram-file:f" },
+    ]);
+    expect(server.callsTo("getUpdates")[1]?.params.offset).toBe(11);
+  });
+
+  test("does not consume updates without event handlers", async () => {
+    const adapter = new TelegramAdapter({
+      token: TOKEN,
+      apiBaseUrl: server.baseUrl,
+      logger,
+    });
+    const bot = createBot(adapter);
+
+    await adapter.connect(bot);
+    await adapter.disconnect(bot);
+
+    expect(server.callsTo("getMe")).toHaveLength(1);
+    expect(server.callsTo("getUpdates")).toHaveLength(0);
+    expect(server.callsTo("deleteWebhook")).toHaveLength(0);
+  });
+
+  test("webhook mode registers the webhook and checks the secret", async () => {
+    const adapter = new TelegramAdapter({
+      token: TOKEN,
+      apiBaseUrl: server.baseUrl,
+      mode: "webhook",
+      webhookUrl: "https://bot.example/telegram/webhook",
+      webhookPort: 0,
+      webhookSecret: "s3cret",
+      logger,
+    });
+    const events: SessionEvent[] = [];
+    adapter.onEvent((event) => {
+      events.push(event);
+    });
+    const bot = createBot(adapter);
+    await adapter.connect(bot);
+
+    const setWebhook = server.callsTo("setWebhook")[0];
+    expect(setWebhook?.params.url).toBe("https://bot.example/telegram/webhook");
+    expect(setWebhook?.params.secret_token).toBe("s3cret");
+
+    const webhookUrl = `http://localhost:${adapter.getWebhookPort()}/telegram/webhook`;
+    const update = {
+      update_id: 1,
+      message: {
+        message_id: 5,
+        from: { id: 123, is_bot: false, first_name: "Alice" },
+        chat: { id: 123, type: "private" },
+        date: 1704067200,
+        text: "ping",
+      },
+    };
+    const rejected = await fetch(webhookUrl, {
+      method: "POST",
+      body: JSON.stringify(update),
+    });
+    expect(rejected.status).toBe(401);
+
+    const accepted = await fetch(webhookUrl, {
+      method: "POST",
+      headers: { "x-telegram-bot-api-secret-token": "s3cret" },
+      body: JSON.stringify(update),
+    });
+    expect(accepted.status).toBe(200);
+    await waitFor(() => events.length === 1);
+    await adapter.disconnect(bot);
+
+    expect(events[0]?.content).toBe("ping");
+    expect(events[0]?.guildId).toBeUndefined();
+  });
+
+  test("sendMessage replies in thread with mentions and photos", async () => {
+    const adapter = new TelegramAdapter({
+      token: TOKEN,
+      apiBaseUrl: server.baseUrl,
+      logger,
+    });
+
+    await adapter.sendMessage(
+      buildSession({ extras: { messageThreadId: 8 } }),
+      "",
+      {
+        elements: [
+          { type: "mention", userId: "123" },
+          { type: "text", text: "your roll: 7" },
+          { type: "image", url: "https://img.example/a.png" },
+          { type: "image", url: "telegram-file:f" },
+        ],
+      },
+    );
+
+    const [message] = server.callsTo("sendMessage");
+    expect(message?.params).toEqual({
+      chat_id: "-1001",
+      text: "@123 your roll: 7",
+      entities: [
+        { type: "text_mention", offset: 0, length: 4, user: { id: 123 } },
+      ],
+      message_thread_id: 8,
+      reply_parameters: { message_id: 42, allow_sending_without_reply: true },
+    });
+    const [photo, forwarded] = server.callsTo("sendPhoto");
+    expect(photo?.params).toEqual({
+      chat_id: "-1001",
+      photo: "https://img.example/a.png",
+      message_thread_id: 8,
+    });
+    expect(forwarded?.params.photo).toBe("f");
+  });
+
+  test("sendMessage splits long text", async () => {
+    const adapter = new TelegramAdapter({
+      token: TOKEN,
+      apiBaseUrl: server.baseUrl,
+      logger,
+    });
+    const line = "x".repeat(3000);
+
+    await adapter.sendMessage(buildSession(), `${line}\n${line}`);
+
+    const sent = server.callsTo("sendMessage");
+    expect(sent).toHaveLength(2);
+    expect(sent[0]?.params.text).toBe(`${line}\n`);
+    expect(sent[0]?.params.reply_parameters).toBeDefined();
+    expect(sent[1]?.params.text).toBe(line);
+    expect(sent[1]?.params.reply_parameters).toBeUndefined();
+  });
+
+  test("sendTyping sends a chat action", async () => {
+    const adapter = new TelegramAdapter({
+      token: TOKEN,
+      apiBaseUrl: server.baseUrl,
+      logger,
+    });
+
+    await adapter.sendTyping(buildSession());
+
+    expect(server.callsTo("sendChatAction")[0]?.params).toEqual({
+      chat_id: "-1001",
+      action: "typing",
+    });
+  });
+});
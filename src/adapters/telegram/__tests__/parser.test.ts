@@ -0,0 +1,141 @@
+import { describe, expect, test } from "bun:test";
+import { parseTelegramFileUrl, parseUpdate } from "../parser";
+
+const context = { selfId: "999", selfUsername: "world_bot" };
+
+function buildUpdate(message: Record<string, unknown>): unknown {
+  return {
+    update_id: 100,
+    message: {
+      message_id: 42,
+      from: { id: 123, is_bot: false, first_name: "Alice", last_name: "L" },
+      chat: { id: -1001, type: "supergroup", title: "Tavern" },
+      date: 1704067200,
+      ...message,
+    },
+  };
+}
+
+describe("parseUpdate", () => {
+  test("maps group chats to guildId and channelId", () => {
+    const result = parseUpdate(buildUpdate({ text: "hello" }), context);
+
+    expect(result).not.toBeNull();
+    expect(result!.platform).toBe("telegram");
+    expect(result!.selfId).toBe("999");
+    expect(result!.userId).toBe("123");
+    expect(result!.guildId).toBe("-1001");
+    expect(result!.channelId).toBe("-1001");
+    expect(result!.messageId).toBe("42");
+    expect(result!.content).toBe("hello");
+    expect(result!.timestamp).toBe(1704067200000);
+    expect(result!.extras.authorName).toBe("Alice L");
+    expect(result!.extras.chatType).toBe("supergroup");
+  });
+
+  test("leaves guildId empty for private chats", () => {
+    const result = parseUpdate(
+      buildUpdate({ text: "hi", chat: { id: 123, type: "private" } }),
+      context,
+    );
+
+    expect(result!.guildId).toBeUndefined();
+    expect(result!.channelId).toBe("123");
+  });
+
+  test("converts bot username and text_mention entities to mentions", () => {
+    const result = parseUpdate(
+      buildUpdate({
+        text: "@world_bot roll for Bob please",
+        entities: [
+          { type: "mention", offset: 0, length: 10 },
+          {
+            type: "text_mention",
+            offset: 20,
+            length: 3,
+            user: { id: 456, is_bot: false, first_name: "Bob" },
+          },
+        ],
+      }),
+      context,
+    );
+
+    expect(result!.elements).toEqual([
+      { type: "mention", userId: "999" },
+      { type: "text", text: "roll for " },
+      { type: "mention", userId: "456" },
+      { type: "text", text: " please" },
+    ]);
+    expect(result!.content).toBe("roll for  please");
+  });
+
+  test("keeps mentions of other usernames as text", () => {
+    const result = parseUpdate(
+      buildUpdate({
+        text: "@someone hi",
+        entities: [{ type: "mention", offset: 0, length: 8 }],
+      }),
+      context,
+    );
+
+    expect(result!.elements).toEqual([{ type: "text", text: "@someone hi" }]);
+  });
+
+  test("adds quote and self mention when replying to the bot", () => {
+    const result = parseUpdate(
+      buildUpdate({
+        text: "continue",
+        reply_to_message: {
+          message_id: 41,
+          from: { id: 999, is_bot: true, first_name: "Bot" },
+        },
+      }),
+      context,
+    );
+
+    expect(result!.elements).toEqual([
+      { type: "mention", userId: "999" },
+      { type: "quote", messageId: "41" },
+      { type: "text", text: "continue" },
+    ]);
+  });
+
+  test("uses caption and references the largest photo by file_id", () => {
+    const update = buildUpdate({
+      caption: "look",
+      photo: [
+        { file_id: "small", width: 90, height: 90 },
+        { file_id: "large", width: 1280, height: 960 },
+      ],
+    });
+
+    const result = parseUpdate(update, context);
+    expect(result!.elements).toEqual([
+      { type: "text", text: "look" },
+      { type: "image", url: "telegram-file:large" },
+    ]);
+    expect(parseTelegramFileUrl("telegram-file:large")).toBe("large");
+    expect(parseTelegramFileUrl("https://files.example/a.jpg")).toBeNull();
+  });
+
+  test("ignores bot authors, channel posts and non-message updates", () => {
+    expect(
+      parseUpdate(
+        buildUpdate({
+          text: "x",
+          from: { id: 5, is_bot: true, first_name: "Other" },
+        }),
+        context,
+      ),
+    ).toBeNull();
+    expect(
+      parseUpdate(
+        buildUpdate({ text: "x", chat: { id: -5, type: "channel" } }),
+        context,
+      ),
+    ).toBeNull();
+    expect(parseUpdate({ update_id: 1, edited_message: {} }, context)).toBe(
+      null,
+    );
+  });
+});
@@ -0,0 +1,316 @@
+import { EventEmitter } from "node:events";
+import type { Logger } from "pino";
+import type {
+  Bot,
+  MessageHandler,
+  PlatformAdapter,
+  SendMessageOptions,
+  SessionEvent,
+} from "../../types/platform";
+import { logger as defaultLogger } from "../../logger";
+import type { BotMessageStore } from "../../store/bot-message-store";
+import { TelegramApiError, TelegramBotApi } from "./api";
+import { parseUpdate } from "./parser";
+import { MessageSender } from "./sender";
+
+export type TelegramUpdateMode = "polling" | "webhook";
+
+export interface TelegramAdapterOptions {
+  token?: string;
+  /** Bot API base URL (defaults to https://api.telegram.org). */
+  apiBaseUrl?: string;
+  mode?: TelegramUpdateMode;
+  /** Long-polling timeout passed to getUpdates (seconds). */
+  pollTimeoutSec?: number;
+  /** Public HTTPS URL registered via setWebhook (webhook mode only). */
+  webhookUrl?: string;
+  /** Local port of the webhook receiver (webhook mode only). */
+  webhookPort?: number;
+  /** Local path of the webhook receiver (webhook mode only). */
+  webhookPath?: string;
+  /** Shared secret checked against X-Telegram-Bot-Api-Secret-Token. */
+  webhookSecret?: string;
+  logger?: Logger;
+  botMessageStore?: BotMessageStore;
+}
+
+const DEFAULT_POLL_TIMEOUT_SEC = 30;
+const DEFAULT_WEBHOOK_PATH = "/telegram/webhook";
+const POLL_RETRY_INITIAL_DELAY_MS = 1000;
+const POLL_RETRY_MAX_DELAY_MS = 30_000;
+const ALLOWED_UPDATES = ["message"];
+
+export class TelegramAdapter extends EventEmitter implements PlatformAdapter {
+  readonly platform = "telegram";
+
+  private api: TelegramBotApi;
+  private sender: MessageSender;
+  private logger: Logger;
+  private mode: TelegramUpdateMode;
+  private pollTimeoutSec: number;
+  private webhookUrl: string | null;
+  private webhookPort: number;
+  private webhookPath: string;
+  private webhookSecret: string | null;
+  private botUserId: string | null = null;
+  private botUsername: string | null = null;
+  private pollAbort: AbortController | null = null;
+  private pollLoop: Promise<void> | null = null;
+  private webhookServer: ReturnType<typeof Bun.serve> | null = null;
+  private nextUpdateOffset = 0;
+
+  constructor(options: TelegramAdapterOptions = {}) {
+    const token = options.token?.trim();
+    if (!token) {
+      throw new Error("TelegramAdapter requires TELEGRAM_BOT_TOKEN");
+    }
+    super();
+    this.logger =
+      options.logger ?? defaultLogger.child({ adapter: "telegram" });
+    this.api = new TelegramBotApi({
+      token,
+      baseUrl: options.apiBaseUrl,
+      logger: this.logger,
+    });
+    this.sender = new MessageSender(
+      this.api,
+      this.logger,
+      options.botMessageStore,
+    );
+    this.mode = options.mode ?? "polling";
+    this.pollTimeoutSec = options.pollTimeoutSec ?? DEFAULT_POLL_TIMEOUT_SEC;
+    this.webhookUrl = options.webhookUrl?.trim() || null;
+    this.webhookPort = options.webhookPort ?? 0;
+    this.webhookPath = options.webhookPath?.trim() || DEFAULT_WEBHOOK_PATH;
+    this.webhookSecret = options.webhookSecret?.trim() || null;
+    if (this.mode === "webhook" && !this.webhookUrl) {
+      throw new Error("TelegramAdapter webhook mode requires a webhook URL");
+    }
+  }
+
+  async connect(bot: Bot): Promise<void> {
+    this.logger.info({ mode: this.mode }, "Connecting to Telegram...");
+    const me = await this.api.getMe();
+    this.botUserId = String(me.id);
+    this.botUsername = me.username ?? null;
+    bot.selfId = this.botUserId;
+    bot.capabilities = {
+      ...bot.capabilities,
+      canSendRichContent: true,
+    };
+
+    // Processes that only send replies (e.g. the session worker) never
+    // register event handlers; they must not consume updates, otherwise they
+    // would race the adapter process for getUpdates / the webhook.
+    if (this.listenerCount("event") === 0) {
+      bot.status = "connected";
+      this.logger.info(
+        { botId: this.botUserId },
+        "Connected to Telegram (send-only)",
+      );
+      return;
+    }
+
+    if (this.mode === "webhook") {
+      this.startWebhookServer();
+      await this.api.call("setWebhook", {
+        url: this.webhookUrl,
+        allowed_updates: ALLOWED_UPDATES,
+        ...(this.webhookSecret ? { secret_token: this.webhookSecret } : {}),
+      });
+    } else {
+      await this.api.call("deleteWebhook", { drop_pending_updates: false });
+      this.startPolling();
+    }
+    bot.status = "connected";
+    this.logger.info(
+      { botId: this.botUserId, mode: this.mode },
+      "Connected to Telegram",
+    );
+  }
+
+  async disconnect(bot: Bot): Promise<void> {
+    bot.status = "disconnected";
+    this.logger.info("Disconnecting from Telegram...");
+    this.pollAbort?.abort();
+    this.pollAbort = null;
+    await this.pollLoop?.catch(() => undefined);
+    this.pollLoop = null;
+    if (this.webhookServer) {
+      this.webhookServer.stop(true);
+      this.webhookServer = null;
+    }
+    this.logger.info("Disconnected from Telegram");
+  }
+
+  onEvent(handler: MessageHandler): void {
+    this.on("event", handler);
+  }
+
+  async sendMessage(
+    session: SessionEvent,
+    content: string,
+    options?: SendMessageOptions,
+  ): Promise<void> {
+    await this.sender.send(session, content, options);
+  }
+
+  async sendTyping(session: SessionEvent): Promise<void> {
+    await this.sender.sendTyping(session);
+  }
+
+  getBotUserId(): string | null {
+    return this.botUserId;
+  }
+
+  /**
+   * Local port of the webhook receiver (null unless running in webhook mode).
+   */
+  getWebhookPort(): number | null {
+    return this.webhookServer?.port ?? null;
+  }
+
+  private startPolling(): void {
+    if (this.pollLoop) {
+      return;
+    }
+    const abort = new AbortController();
+    this.pollAbort = abort;
+    this.pollLoop = this.runPollLoop(abort.signal);
+  }
+
+  private async runPollLoop(signal: AbortSignal): Promise<void> {
+    let retryDelayMs = POLL_RETRY_INITIAL_DELAY_MS;
+    while (!signal.aborted) {
+      try {
+        const updates = await this.api.call<unknown[]>(
+          "getUpdates",
+          {
+            offset: this.nextUpdateOffset,
+            timeout: this.pollTimeoutSec,
+            allowed_updates: ALLOWED_UPDATES,
+          },
+          { signal, timeoutMs: (this.pollTimeoutSec + 10) * 1000 },
+        );
+        retryDelayMs = POLL_RETRY_INITIAL_DELAY_MS;
+        for (const update of updates) {
+          const updateId = readUpdateId(update);
+          if (updateId !== null) {
+            this.nextUpdateOffset = Math.max(
+              this.nextUpdateOffset,
+              updateId + 1,
+            );
+          }
+          await this.handleUpdate(update);
+        }
+      } catch (err) {
+        if (signal.aborted) {
+          return;
+        }
+        const delay =
+          err instanceof TelegramApiError && err.retryAfterSec
+            ? err.retryAfterSec * 1000
+            : retryDelayMs;
+        this.logger.warn({ err, delay }, "Telegram getUpdates failed");
+        await sleep(delay, signal);
+        retryDelayMs = Math.min(retryDelayMs * 2, POLL_RETRY_MAX_DELAY_MS);
+      }
+    }
+  }
+
+  private startWebhookServer(): void {
+    if (this.webhookServer) {
+      return;
+    }
+    this.webhookServer = Bun.serve({
+      port: this.webhookPort,
+      fetch: (req) => this.handleWebhookRequest(req),
+    });
+    this.logger.info(
+      { port: this.webhookServer.port, path: this.webhookPath },
+      "Telegram webhook receiver started",
+    );
+  }
+
+  private async handleWebhookRequest(req: Request): Promise<Response> {
+    const url = new URL(req.url);
+    if (url.pathname !== this.webhookPath) {
+      return new Response("Not Found", { status: 404 });
+    }
+    if (req.method !== "POST") {
+      return new Response("Method Not Allowed", {
+        status: 405,
+        headers: { Allow: "POST" },
+      });
+    }
+    if (
+      this.webhookSecret &&
+      req.headers.get("x-telegram-bot-api-secret-token") !== this.webhookSecret
+    ) {
+      return new Response("Unauthorized", { status: 401 });
+    }
+    let update: unknown;
+    try {
+      update = await req.json();
+    } catch {
+      return new Response("Invalid JSON", { status: 400 });
+    }
+    // Acknowledge immediately; Telegram retries slow webhooks.
+    void this.handleUpdate(update);
+    return new Response("ok");
+  }
+
+  private async handleUpdate(update: unknown): Promise<void> {
+    if (this.listenerCount("event") === 0) {
+      return;
+    }
+    try {
+      const message = parseUpdate(update, {
+        selfId: this.botUserId ?? "",
+        selfUsername: this.botUsername,
+      });
+      if (message) {
+        this.logger.debug({ messageId: message.messageId }, "Message received");
+        await this.emitEvent(message);
+      }
+    } catch (err) {
+      this.logger.error({ err }, "Failed to handle Telegram update");
+    }
+  }
+
+  private async emitEvent(
+    message: Parameters<MessageHandler>[0],
+  ): Promise<void> {
+    const handlers = this.listeners("event") as MessageHandler[];
+    for (const handler of handlers) {
+      try {
+        await handler(message);
+      } catch (err) {
+        this.logger.error(
+          { err, messageId: message.messageId },
+          "Handler error",
+        );
+      }
+    }
+  }
+}
+
+function readUpdateId(update: unknown): number | null {
+  if (!update || typeof update !== "object") {
+    return null;
+  }
+  const value = (update as Record<string, unknown>)["update_id"];
+  return typeof value === "number" && Number.isInteger(value) ? value : null;
+}
+
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(done, ms);
+    function done() {
+      clearTimeout(timer);
+      signal.removeEventListener("abort", done);
+      resolve();
+    }
+    signal.addEventListener("abort", done, { once: true });
+  });
+}
@@ -0,0 +1,129 @@
+import type { Logger } from "pino";
+
+export const DEFAULT_TELEGRAM_API_BASE_URL = "https://api.telegram.org";
+
+export interface TelegramBotApiOptions {
+  token: string;
+  /** Bot API base URL (override for local Bot API servers and tests). */
+  baseUrl?: string;
+  logger: Logger;
+  timeoutMs?: number;
+}
+
+export interface TelegramUser {
+  id: number;
+  is_bot: boolean;
+  first_name: string;
+  username?: string;
+}
+
+export interface TelegramFile {
+  file_id: string;
+  file_unique_id: string;
+  file_size?: number;
+  file_path?: string;
+}
+
+export class TelegramApiError extends Error {
+  readonly method: string;
+  readonly errorCode: number | null;
+  readonly retryAfterSec: number | null;
+
+  constructor(
+    method: string,
+    message: string,
+    errorCode: number | null,
+    retryAfterSec: number | null = null,
+  ) {
+    super(`Telegram ${method} failed: ${message}`);
+    this.name = "TelegramApiError";
+    this.method = method;
+    this.errorCode = errorCode;
+    this.retryAfterSec = retryAfterSec;
+  }
+}
+
+const DEFAULT_REQUEST_TIMEOUT_MS = 30_000;
+
+/**
+ * Minimal Telegram Bot API client (JSON over HTTPS).
+ */
+export class TelegramBotApi {
+  private readonly token: string;
+  private readonly baseUrl: string;
+  private readonly logger: Logger;
+  private readonly timeoutMs: number;
+
+  constructor(options: TelegramBotApiOptions) {
+    this.token = options.token;
+    this.baseUrl = (options.baseUrl ?? DEFAULT_TELEGRAM_API_BASE_URL).replace(
+      /\/+$/,
+      "",
+    );
+    this.logger = options.logger.child({ component: "bot-api" });
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS;
+  }
+
+  async call<T>(
+    method: string,
+    params: Record<string, unknown> = {},
+    options?: { signal?: AbortSignal; timeoutMs?: number },
+  ): Promise<T> {
+    const timeoutSignal = AbortSignal.timeout(
+      options?.timeoutMs ?? this.timeoutMs,
+    );
+    const signal = options?.signal
+      ? AbortSignal.any([options.signal, timeoutSignal])
+      : timeoutSignal;
+
+    const response = await fetch(`${this.baseUrl}/bot${this.token}/${method}`, {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify(params),
+      signal,
+    });
+    const payload = (await response.json().catch(() => null)) as {
+      ok?: unknown;
+      result?: unknown;
+      description?: unknown;
+      error_code?: unknown;
+      parameters?: { retry_after?: unknown };
+    } | null;
+
+    if (!payload || payload.ok !== true) {
+      const description =
+        typeof payload?.description === "string"
+          ? payload.description
+          : `HTTP ${response.status}`;
+      const errorCode =
+        typeof payload?.error_code === "number"
+          ? payload.error_code
+          : response.status;
+      const retryAfter = payload?.parameters?.retry_after;
+      throw new TelegramApiError(
+        method,
+        description,
+        errorCode,
+        typeof retryAfter === "number" ? retryAfter : null,
+      );
+    }
+    this.logger.debug({ method }, "Bot API request succeeded");
+    return payload.result as T;
+  }
+
+  getMe(): Promise<TelegramUser> {
+    return this.call<TelegramUser>("getMe");
+  }
+
+  getFile(fileId: string): Promise<TelegramFile> {
+    return this.call<TelegramFile>("getFile", { file_id: fileId });
+  }
+
+  /**
+   * Build the download URL for a file returned by getFile. It embeds the bot
+   * token: fetch it, but never store it in events or logs.
+   */
+  buildFileUrl(filePath: string): string {
+    return `${this.baseUrl}/file/bot${this.token}/${filePath}`;
+  }
+}
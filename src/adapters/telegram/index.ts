@@ -0,0 +1,9 @@
+/**
+ * Telegram Platform Adapter
+ *
+ * Implements the PlatformAdapter interface for Telegram via the Bot API
+ * (long polling or webhook).
+ */
+
+export { TelegramAdapter } from "./adapter";
+export type { TelegramAdapterOptions, TelegramUpdateMode } from "./adapter";
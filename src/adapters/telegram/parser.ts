@@ -0,0 +1,262 @@
+import { z } from "zod";
+import type { SessionElement, SessionEvent } from "../../types/platform";
+import {
+  appendTextElement,
+  extractTextFromElements,
+  trimTextElements,
+} from "../utils";
+
+export interface TelegramMessageExtras {
+  updateId: number;
+  messageId: string;
+  chatId: string;
+  chatType: TelegramChatType;
+  chatTitle?: string;
+  messageThreadId?: number;
+  authorId: string;
+  authorName?: string;
+}
+
+export interface TelegramParseContext {
+  /** Numeric bot user id (from getMe). */
+  selfId: string;
+  /** Bot username without the leading "@". */
+  selfUsername?: string | null;
+}
+
+/**
+ * Inbound photos are referenced by file_id, never by download URL: the Bot
+ * API download URL embeds the bot token, and events are buffered and echoed.
+ */
+const TELEGRAM_FILE_URL_PREFIX = "telegram-file:";
+
+export function formatTelegramFileUrl(fileId: string): string {
+  return `${TELEGRAM_FILE_URL_PREFIX}${fileId}`;
+}
+
+/** The file_id of a `telegram-file:` url, or null for any other url. */
+export function parseTelegramFileUrl(url: string): string | null {
+  return url.startsWith(TELEGRAM_FILE_URL_PREFIX)
+    ? url.slice(TELEGRAM_FILE_URL_PREFIX.length) || null
+    : null;
+}
+
+/**
+ * Parse a Telegram Bot API update into a SessionEvent.
+ */
+export function parseUpdate(
+  update: unknown,
+  context: TelegramParseContext,
+): SessionEvent<TelegramMessageExtras> | null {
+  const parsed = telegramUpdateSchema.safeParse(update);
+  if (!parsed.success) {
+    return null;
+  }
+  const message = parsed.data.message;
+  if (!message || !message.from || message.from.is_bot) {
+    return null;
+  }
+  if (message.chat.type === "channel") {
+    return null;
+  }
+
+  const elements = buildElements(message, context);
+  const content = extractTextFromElements(elements);
+  const isGroup =
+    message.chat.type === "group" || message.chat.type === "supergroup";
+  const chatId = String(message.chat.id);
+
+  return {
+    type: "message",
+    platform: "telegram",
+    selfId: context.selfId,
+    userId: String(message.from.id),
+    guildId: isGroup ? chatId : undefined,
+    channelId: chatId,
+    messageId: String(message.message_id),
+    content,
+    elements,
+    timestamp: message.date * 1000,
+    extras: {
+      updateId: parsed.data.update_id,
+      messageId: String(message.message_id),
+      chatId,
+      chatType: message.chat.type,
+      chatTitle: message.chat.title,
+      messageThreadId: message.is_topic_message
+        ? message.message_thread_id
+        : undefined,
+      authorId: String(message.from.id),
+      authorName: resolveAuthorName(message.from),
+    },
+  };
+}
+
+/** The file_id of the largest photo size, if any. */
+function pickLargestPhotoFileId(
+  photos: TelegramMessage["photo"],
+): string | null {
+  if (!photos || photos.length === 0) {
+    return null;
+  }
+  const largest = photos.reduce((best, current) =>
+    current.width * current.height > best.width * best.height ? current : best,
+  );
+  return largest.file_id;
+}
+
+const telegramUserSchema = z
+  .object({
+    id: z.number(),
+    is_bot: z.boolean(),
+    first_name: z.string(),
+    last_name: z.string().optional(),
+    username: z.string().optional(),
+  })
+  .passthrough();
+
+const telegramEntitySchema = z
+  .object({
+    type: z.string(),
+    offset: z.number().int().min(0),
+    length: z.number().int().min(0),
+    user: telegramUserSchema.optional(),
+  })
+  .passthrough();
+
+const telegramPhotoSizeSchema = z
+  .object({
+    file_id: z.string(),
+    width: z.number(),
+    height: z.number(),
+  })
+  .passthrough();
+
+const telegramChatSchema = z
+  .object({
+    id: z.number(),
+    type: z.enum(["private", "group", "supergroup", "channel"]),
+    title: z.string().optional(),
+  })
+  .passthrough();
+
+const telegramMessageSchema = z
+  .object({
+    message_id: z.number(),
+    message_thread_id: z.number().optional(),
+    is_topic_message: z.boolean().optional(),
+    from: telegramUserSchema.optional(),
+    chat: telegramChatSchema,
+    date: z.number(),
+    text: z.string().optional(),
+    entities: z.array(telegramEntitySchema).optional(),
+    caption: z.string().optional(),
+    caption_entities: z.array(telegramEntitySchema).optional(),
+    photo: z.array(telegramPhotoSizeSchema).optional(),
+    reply_to_message: z
+      .object({
+        message_id: z.number(),
+        from: telegramUserSchema.optional(),
+      })
+      .passthrough()
+      .optional(),
+  })
+  .passthrough();
+
+const telegramUpdateSchema = z
+  .object({
+    update_id: z.number(),
+    message: telegramMessageSchema.optional(),
+  })
+  .passthrough();
+
+type TelegramChatType = z.infer<typeof telegramChatSchema>["type"];
+type TelegramMessage = z.infer<typeof telegramMessageSchema>;
+type TelegramEntity = z.infer<typeof telegramEntitySchema>;
+
+function buildElements(
+  message: TelegramMessage,
+  context: TelegramParseContext,
+): SessionElement[] {
+  const elements: SessionElement[] = [];
+
+  const replyTo = message.reply_to_message;
+  if (replyTo) {
+    elements.push({ type: "quote", messageId: String(replyTo.message_id) });
+  }
+
+  const text = message.text ?? message.caption ?? "";
+  const entities = message.text
+    ? (message.entities ?? [])
+    : (message.caption_entities ?? []);
+  appendTextWithMentions(elements, text, entities, context);
+
+  const photoFileId = pickLargestPhotoFileId(message.photo);
+  if (photoFileId) {
+    elements.push({ type: "image", url: formatTelegramFileUrl(photoFileId) });
+  }
+
+  const selfId = context.selfId;
+  if (
+    selfId &&
+    replyTo?.from &&
+    String(replyTo.from.id) === selfId &&
+    !elements.some(
+      (element) => element.type === "mention" && element.userId === selfId,
+    )
+  ) {
+    elements.unshift({ type: "mention", userId: selfId });
+  }
+
+  return trimTextElements(elements);
+}
+
+function appendTextWithMentions(
+  elements: SessionElement[],
+  text: string,
+  entities: ReadonlyArray<TelegramEntity>,
+  context: TelegramParseContext,
+): void {
+  const selfUsername = context.selfUsername?.toLowerCase() ?? null;
+  const sorted = [...entities].sort((a, b) => a.offset - b.offset);
+  let lastIndex = 0;
+
+  for (const entity of sorted) {
+    if (entity.offset < lastIndex) {
+      continue;
+    }
+    // Entity offsets are UTF-16 code units, which matches JS string indexing.
+    const segment = text.slice(entity.offset, entity.offset + entity.length);
+    let userId: string | null = null;
+    if (entity.type === "text_mention" && entity.user) {
+      userId = String(entity.user.id);
+    } else if (
+      entity.type === "mention" &&
+      selfUsername &&
+      segment.slice(1).toLowerCase() === selfUsername
+    ) {
+      userId = context.selfId;
+    }
+    if (!userId) {
+      continue;
+    }
+    appendTextElement(elements, text.slice(lastIndex, entity.offset));
+    elements.push({ type: "mention", userId });
+    lastIndex = entity.offset + entity.length;
+  }
+
+  appendTextElement(elements, text.slice(lastIndex));
+}
+
+function resolveAuthorName(
+  user: z.infer<typeof telegramUserSchema>,
+): string | undefined {
+  const fullName = [user.first_name, user.last_name]
+    .filter((part): part is string => Boolean(part?.trim()))
+    .join(" ")
+    .trim();
+  if (fullName) {
+    return fullName;
+  }
+  return user.username?.trim() || undefined;
+}
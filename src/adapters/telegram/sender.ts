@@ -0,0 +1,263 @@
+import type { Logger } from "pino";
+import type {
+  SendMessageOptions,
+  SessionElement,
+  SessionEvent,
+} from "../../types/platform";
+import type { TelegramBotApi } from "./api";
+import { parseTelegramFileUrl } from "./parser";
+import { getTraceIdFromExtras } from "../../telemetry";
+import type { BotMessageStore } from "../../store/bot-message-store";
+
+/** Telegram rejects text messages longer than 4096 UTF-16 code units. */
+export const TELEGRAM_MAX_TEXT_LENGTH = 4096;
+
+interface TelegramOutgoingEntity {
+  type: "text_mention";
+  offset: number;
+  length: number;
+  user: { id: number };
+}
+
+interface TelegramOutgoingText {
+  text: string;
+  entities: TelegramOutgoingEntity[];
+}
+
+export class MessageSender {
+  private api: TelegramBotApi;
+  private logger: Logger;
+  private botMessageStore?: BotMessageStore;
+
+  constructor(
+    api: TelegramBotApi,
+    logger: Logger,
+    botMessageStore?: BotMessageStore,
+  ) {
+    this.api = api;
+    this.logger = logger.child({ component: "sender" });
+    this.botMessageStore = botMessageStore;
+  }
+
+  async send(
+    session: SessionEvent,
+    content: string,
+    options?: SendMessageOptions,
+  ): Promise<void> {
+    const traceId = getTraceIdFromExtras(session.extras);
+    const log = traceId ? this.logger.child({ traceId }) : this.logger;
+    const chatId = session.channelId;
+    if (!chatId) {
+      throw new Error("channelId is required for sending messages.");
+    }
+
+    const elements = options?.elements ?? [];
+    const resolvedReply = resolveReplyTarget(session, elements);
+    const outgoing = buildOutgoingText(content, resolvedReply.elements);
+    // sendPhoto takes a file_id as well as a URL.
+    const imageUrls = resolvedReply.elements.flatMap((element) =>
+      element.type === "image"
+        ? [parseTelegramFileUrl(element.url) ?? element.url]
+        : [],
+    );
+    const chunks = splitOutgoingText(outgoing, TELEGRAM_MAX_TEXT_LENGTH);
+    if (chunks.length === 0 && imageUrls.length === 0) {
+      log.debug({ chatId }, "Skipping empty message send");
+      return;
+    }
+
+    const threadId = resolveMessageThreadId(session.extras);
+    let replyTo = resolvedReply.replyTo;
+    try {
+      for (const chunk of chunks) {
+        await this.callAndRecord(session, "sendMessage", {
+          chat_id: chatId,
+          text: chunk.text,
+          ...(chunk.entities.length > 0 ? { entities: chunk.entities } : {}),
+          ...buildCommonParams(threadId, replyTo),
+        });
+        replyTo = null;
+      }
+      for (const url of imageUrls) {
+        await this.callAndRecord(session, "sendPhoto", {
+          chat_id: chatId,
+          photo: url,
+          ...buildCommonParams(threadId, replyTo),
+        });
+        replyTo = null;
+      }
+      log.debug(
+        { chatId, chunks: chunks.length, images: imageUrls.length },
+        "Message sent",
+      );
+    } catch (err) {
+      log.error({ err, chatId }, "Failed to send message");
+      throw err;
+    }
+  }
+
+  async sendTyping(session: SessionEvent): Promise<void> {
+    if (!session.channelId) {
+      return;
+    }
+    const threadId = resolveMessageThreadId(session.extras);
+    await this.api.call("sendChatAction", {
+      chat_id: session.channelId,
+      action: "typing",
+      ...(threadId !== null ? { message_thread_id: threadId } : {}),
+    });
+  }
+
+  private async callAndRecord(
+    session: SessionEvent,
+    method: string,
+    params: Record<string, unknown>,
+  ): Promise<void> {
+    const result = await this.api.call<{ message_id?: unknown }>(
+      method,
+      params,
+    );
+    const messageId = result?.message_id;
+    if (typeof messageId === "number" && session.selfId) {
+      await this.botMessageStore?.recordSentMessage({
+        platform: session.platform,
+        selfId: session.selfId,
+        messageId: String(messageId),
+      });
+    }
+  }
+}
+
+function buildCommonParams(
+  threadId: number | null,
+  replyTo: string | null,
+): Record<string, unknown> {
+  const params: Record<string, unknown> = {};
+  if (threadId !== null) {
+    params.message_thread_id = threadId;
+  }
+  if (replyTo) {
+    params.reply_parameters = {
+      message_id: Number(replyTo),
+      allow_sending_without_reply: true,
+    };
+  }
+  return params;
+}
+
+function buildOutgoingText(
+  content: string,
+  elements: ReadonlyArray<SessionElement>,
+): TelegramOutgoingText {
+  const hasText = elements.some((element) => element.type === "text");
+  let text = "";
+  const entities: TelegramOutgoingEntity[] = [];
+
+  for (const element of elements) {
+    if (element.type === "text") {
+      text += element.text;
+      continue;
+    }
+    if (element.type === "mention" && /^\d+$/.test(element.userId)) {
+      const label = `@${element.userId}`;
+      entities.push({
+        type: "text_mention",
+        offset: text.length,
+        length: label.length,
+        user: { id: Number(element.userId) },
+      });
+      text += `${label} `;
+    }
+  }
+
+  const normalizedContent = hasText ? "" : content.trim();
+  if (normalizedContent) {
+    text += normalizedContent;
+  }
+  return { text: text.trimEnd(), entities };
+}
+
+/**
+ * Split text into chunks of at most maxLength, preferring line breaks.
+ * Mention entities are kept with the chunk that contains them.
+ */
+function splitOutgoingText(
+  outgoing: TelegramOutgoingText,
+  maxLength: number,
+): TelegramOutgoingText[] {
+  const chunks: TelegramOutgoingText[] = [];
+  let start = 0;
+  const { text } = outgoing;
+
+  while (start < text.length) {
+    let end = Math.min(start + maxLength, text.length);
+    if (end < text.length) {
+      const newline = text.lastIndexOf("\n", end);
+      if (newline > start) {
+        end = newline + 1;
+      }
+    }
+    const chunkText = text.slice(start, end);
+    if (chunkText.trim()) {
+      chunks.push({
+        text: chunkText,
+        entities: outgoing.entities
+          .filter(
+            (entity) =>
+              entity.offset >= start && entity.offset + entity.length <= end,
+          )
+          .map((entity) => ({ ...entity, offset: entity.offset - start })),
+      });
+    }
+    start = end;
+  }
+  return chunks;
+}
+
+function resolveReplyTarget(
+  session: SessionEvent,
+  elements: ReadonlyArray<SessionElement>,
+): { replyTo: string | null; elements: SessionElement[] } {
+  let replyTo: string | null = null;
+  const cleanedElements: SessionElement[] = [];
+
+  for (const element of elements) {
+    if (element.type === "quote") {
+      const candidate = element.messageId?.trim();
+      if (candidate && /^\d+$/.test(candidate)) {
+        replyTo = candidate;
+      }
+      continue;
+    }
+    cleanedElements.push(element);
+  }
+
+  if (!replyTo) {
+    const fallback = session.messageId?.trim();
+    if (
+      fallback &&
+      /^\d+$/.test(fallback) &&
+      !isScheduledPushEvent(session.extras)
+    ) {
+      replyTo = fallback;
+    }
+  }
+
+  return { replyTo, elements: cleanedElements };
+}
+
+function resolveMessageThreadId(extras: unknown): number | null {
+  if (!extras || typeof extras !== "object") {
+    return null;
+  }
+  const value = (extras as Record<string, unknown>)["messageThreadId"];
+  return typeof value === "number" && Number.isInteger(value) ? value : null;
+}
+
+function isScheduledPushEvent(extras: unknown): boolean {
+  if (!extras || typeof extras !== "object") {
+    return false;
+  }
+  const record = extras as Record<string, unknown>;
+  return record["isScheduledPush"] === true;
+}
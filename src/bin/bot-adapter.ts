@@ -2,23 +2,31 @@ import path from "node:path";
 import { getConfig } from "../config";
 import { createPlatformAdapters, MultiAdapter } from "../adapters";
 import { DiscordAdapter } from "../adapters/discord";
+import { QQAdapterPool } from "../adapters/qq/pool";
 import { logger } from "../logger";
 import { GroupStore } from "../store";
 import { RouterStore } from "../store/router";
 import { BullmqSessionQueue } from "../queue";
 import { EchoTracker } from "../entry/echo";
+import { RateLimiter } from "../entry/rate-limit";
 import { MessageDispatcher } from "../entry/message-dispatcher";
+import { createDependencyHealthChecks } from "../http/health";
 import { startHttpServer, type HttpServer } from "../http/server";
 import type { Bot } from "../types/platform";
 import { SessionBufferStore } from "../session/buffer";
-import { SessionRepository } from "../session";
+import { RedisSessionCancelBus } from "../session/cancel";
+import { PostgresHistoryStore, SessionRepository } from "../session";
 import { getBotIdAliasMap } from "../utils/bot-id";
 import { shutdownOtel, startOtel } from "../otel";
+import { registerCountsGauge } from "../metrics";
 import { BotMessageStore } from "../store/bot-message-store";
 import { GroupRouteStore } from "../store/group-route-store";
 import { GroupHotPushScheduler } from "../push/scheduler";
 import { createGracefulShutdown } from "../utils/graceful-shutdown";
 import { WorldStore } from "../world/store";
+import { WorldFileStore } from "../world/file-store";
+import { UserStateStore } from "../user/state-store";
+import { createUsageStore, type UsageStore } from "../session/usage";
 
 const config = getConfig();
 
@@ -35,10 +43,15 @@ async function main(): Promise<void> {
   let worldStore: WorldStore | null = null;
   let sessionQueue: BullmqSessionQueue | null = null;
   let bufferStore: SessionBufferStore | null = null;
+  let cancelBus: RedisSessionCancelBus | null = null;
   let echoTracker: EchoTracker | null = null;
+  let rateLimiter: RateLimiter | null = null;
+  let usageStore: UsageStore | null = null;
+  let historyStore: PostgresHistoryStore | null = null;
   let adapter: MultiAdapter | null = null;
   let bot: Bot | null = null;
   let pushScheduler: GroupHotPushScheduler | null = null;
+  let closeHealthChecks: (() => Promise<void>) | null = null;
 
   const shutdownController = createGracefulShutdown({
     logger,
@@ -50,7 +63,12 @@ async function main(): Promise<void> {
         }
         pushScheduler?.stop();
         await bufferStore?.close();
+        await cancelBus?.close();
         await echoTracker?.close();
+        await rateLimiter?.close();
+        await usageStore?.close();
+        await historyStore?.close();
+        await closeHealthChecks?.();
         await sessionQueue?.close();
         await botMessageStore?.close();
         await groupRouteStore?.close();
@@ -82,11 +100,25 @@ async function main(): Promise<void> {
     redisUrl: config.REDIS_URL,
     logger,
   });
-  const platformAdapters = createPlatformAdapters(config, { botMessageStore });
+  const activeUsageStore = createUsageStore({
+    databaseUrl: config.DATABASE_URL,
+    redisUrl: config.REDIS_URL,
+    logger,
+  });
+  usageStore = activeUsageStore;
+  const platformAdapters = createPlatformAdapters(config, {
+    botMessageStore,
+    usageStore: activeUsageStore,
+  });
   for (const platformAdapter of platformAdapters) {
     if (platformAdapter instanceof DiscordAdapter) {
       platformAdapter.enableSlashCommands();
     }
+    if (platformAdapter instanceof QQAdapterPool) {
+      registerCountsGauge("qq_connections", "source", () =>
+        platformAdapter.getConnectionCounts(),
+      );
+    }
   }
   logger.info(
     {
@@ -146,17 +178,44 @@ async function main(): Promise<void> {
     queueName: "session-jobs",
     prefix: config.BULLMQ_PREFIX,
   });
+  const activeSessionQueue = sessionQueue;
+  registerCountsGauge("queue_jobs", "state", () =>
+    activeSessionQueue.getJobCounts(),
+  );
 
   bufferStore = new SessionBufferStore({ redisUrl: config.REDIS_URL });
+  cancelBus = new RedisSessionCancelBus({ redisUrl: config.REDIS_URL, logger });
   const sessionRepository = new SessionRepository({
     dataDir: config.GROUPS_DATA_DIR,
     logger,
   });
 
+  // Read-only here: the session worker writes history_entries.
+  const databaseUrl = config.DATABASE_URL?.trim();
+  historyStore = databaseUrl
+    ? new PostgresHistoryStore(logger, { databaseUrl, maxConnections: 2 })
+    : null;
+
+  const healthChecks = createDependencyHealthChecks({
+    pingRedis: () => activeSessionQueue.ping(),
+    databaseUrl,
+    adapter: multiAdapter,
+  });
+  closeHealthChecks = healthChecks.close;
+
   startHttpServer({
     logger,
     onReloadGroup: async (groupId) =>
       Boolean(await groupStore.reloadGroup(groupId)),
+    usageStore: activeUsageStore,
+    groupStore,
+    worldStore,
+    sessions: {
+      sessionRepository,
+      historyStore: historyStore ?? undefined,
+      bufferStore,
+    },
+    healthChecks: healthChecks.checks,
   })
     .then((server) => {
       httpServer = server;
@@ -169,6 +228,10 @@ async function main(): Promise<void> {
     redisUrl: config.REDIS_URL,
     logger,
   });
+  rateLimiter = new RateLimiter({
+    redisUrl: config.REDIS_URL,
+    logger,
+  });
   const dispatcher = new MessageDispatcher({
     adapter: multiAdapter,
     groupStore,
@@ -177,9 +240,14 @@ async function main(): Promise<void> {
     sessionQueue,
     bufferStore,
     echoTracker,
+    cancelBus,
+    rateLimiter,
+    usageStore: activeUsageStore,
     botMessageStore,
     groupRouteStore,
     worldStore,
+    worldFiles: new WorldFileStore({ logger }),
+    userState: new UserStateStore({ logger }),
     logger,
     forceGroupId: config.FORCE_GROUP_ID,
   });
@@ -23,6 +23,7 @@ async function main(): Promise<void> {
     botId,
     wsUrl,
     platform: config.LLBOT_PLATFORM,
+    protocol: config.LLBOT_REGISTRY_PROTOCOL,
     ttlSec: config.LLBOT_REGISTRY_TTL_SEC,
     refreshIntervalSec: config.LLBOT_REGISTRY_REFRESH_SEC,
   });
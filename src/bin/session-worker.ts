@@ -1,14 +1,25 @@
 import { getConfig } from "../config";
 import { logger } from "../logger";
 import { createPlatformAdapters, MultiAdapter } from "../adapters";
+import { QQAdapterPool } from "../adapters/qq/pool";
 import { OpencodeServerRunner, SessionWorker } from "../worker";
 import { OpencodeServerClient } from "../opencode/server-client";
+import { createDependencyHealthChecks } from "../http/health";
 import { startHttpServer, type HttpServer } from "../http/server";
 import type { Bot } from "../types/platform";
 import { getBotIdAliasMap } from "../utils/bot-id";
 import { shutdownOtel, startOtel } from "../otel";
+import { registerCountsGauge } from "../metrics";
 import { BotMessageStore } from "../store/bot-message-store";
 import { createGracefulShutdown } from "../utils/graceful-shutdown";
+import { createUsageStore } from "../session/usage";
+import { ModelCircuitBreaker } from "../session/model-circuit";
+import { PostgresHistoryStore } from "../session/history";
+import {
+  createOpencodeHistorySummarizer,
+  HistoryCompactor,
+} from "../session/history-summary";
+import { resolveModelRef } from "../session/processor-utils";
 
 const config = getConfig();
 
@@ -24,6 +35,7 @@ async function main(): Promise<void> {
   let worker: SessionWorker | null = null;
   let adapter: MultiAdapter | null = null;
   let bot: Bot | null = null;
+  let closeHealthChecks: (() => Promise<void>) | null = null;
 
   const shutdownController = createGracefulShutdown({
     logger,
@@ -34,6 +46,7 @@ async function main(): Promise<void> {
         if (httpServer) {
           httpServer.stop();
         }
+        await closeHealthChecks?.();
         await botMessageStore?.close();
         if (adapter && bot) {
           await adapter.disconnect(bot);
@@ -54,7 +67,22 @@ async function main(): Promise<void> {
     redisUrl: config.REDIS_URL,
     logger,
   });
-  const platformAdapters = createPlatformAdapters(config, { botMessageStore });
+  const usageStore = createUsageStore({
+    databaseUrl: config.DATABASE_URL,
+    redisUrl: config.REDIS_URL,
+    logger,
+  });
+  const platformAdapters = createPlatformAdapters(config, {
+    botMessageStore,
+    usageStore,
+  });
+  for (const platformAdapter of platformAdapters) {
+    if (platformAdapter instanceof QQAdapterPool) {
+      registerCountsGauge("qq_connections", "source", () =>
+        platformAdapter.getConnectionCounts(),
+      );
+    }
+  }
 
   logger.info(
     {
@@ -86,6 +114,34 @@ async function main(): Promise<void> {
     timeoutMs: config.OPENCODE_SERVER_TIMEOUT_MS,
   });
 
+  // History is persisted whenever there is a database, so the adapter's
+  // history API can read it; only summaries depend on the flag.
+  const databaseUrl = config.DATABASE_URL?.trim();
+  if (config.HISTORY_SUMMARY_ENABLED && !databaseUrl) {
+    logger.warn("HISTORY_SUMMARY_ENABLED requires DATABASE_URL; skipping");
+  }
+  const historyStore = databaseUrl
+    ? new PostgresHistoryStore(logger, { databaseUrl })
+    : undefined;
+  const historyCompactor =
+    historyStore && config.HISTORY_SUMMARY_ENABLED
+      ? new HistoryCompactor({
+          historyStore,
+          summarize: createOpencodeHistorySummarizer({
+            client: opencodeClient,
+            model: resolveModelRef({
+              groupOverride: config.HISTORY_SUMMARY_MODEL,
+              openaiBaseUrl: config.OPENAI_BASE_URL,
+              openaiApiKey: config.OPENAI_API_KEY,
+              modelsCsv: config.OPENCODE_MODELS,
+            }),
+          }),
+          logger,
+          triggerEntries: config.HISTORY_SUMMARY_TRIGGER_ENTRIES,
+          keepRecentEntries: config.HISTORY_SUMMARY_KEEP_ENTRIES,
+        })
+      : undefined;
+
   const botInstance: Bot = {
     platform: multiAdapter.platform,
     selfId: "",
@@ -117,8 +173,21 @@ async function main(): Promise<void> {
       concurrency: config.SESSION_WORKER_CONCURRENCY,
     },
     runner: new OpencodeServerRunner(opencodeClient),
+    historyStore,
+    historyCompactor,
+    usageStore,
+    modelCircuit: new ModelCircuitBreaker({
+      redisUrl: config.REDIS_URL,
+      failureThreshold: config.MODEL_CIRCUIT_FAILURE_THRESHOLD,
+      cooldownMs: config.MODEL_CIRCUIT_COOLDOWN_MS,
+      logger,
+    }),
     logger,
   });
+  const activeWorker = worker;
+  registerCountsGauge("queue_jobs", "state", () =>
+    activeWorker.getQueueJobCounts(),
+  );
 
   try {
     await multiAdapter.connect(botInstance);
@@ -136,10 +205,20 @@ async function main(): Promise<void> {
     return;
   }
 
+  const healthChecks = createDependencyHealthChecks({
+    pingRedis: () => activeWorker.pingRedis(),
+    databaseUrl,
+    opencodeClient,
+    worker: activeWorker,
+    adapter: multiAdapter,
+  });
+  closeHealthChecks = healthChecks.close;
+
   try {
     httpServer = await startHttpServer({
       logger,
       port: config.WORKER_HTTP_PORT,
+      healthChecks: healthChecks.checks,
     });
   } catch (err) {
     logger.error({ err }, "Failed to start HTTP server");
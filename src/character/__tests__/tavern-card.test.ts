@@ -0,0 +1,230 @@
+import { describe, expect, test } from "bun:test";
+import { deflateSync } from "node:zlib";
+
+import { readPngTextChunks } from "../../utils/png-text";
+import {
+  buildTavernCardV2,
+  embedTavernCardInPng,
+  parseCharacterCardMarkdown,
+  parseTavernCardJson,
+  parseTavernCardPng,
+  stripTavernCardFromPng,
+  tavernCharacterToMarkdown,
+  type TavernCharacter,
+} from "../tavern-card";
+
+function chunk(type: string, data: Buffer): Buffer {
+  // CRC is not checked by the reader; a zero CRC keeps the fixture small.
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.byteLength, 0);
+  return Buffer.concat([
+    length,
+    Buffer.from(type, "latin1"),
+    data,
+    Buffer.alloc(4),
+  ]);
+}
+
+function createPng(): Buffer {
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(1, 0);
+  header.writeUInt32BE(1, 4);
+  header[8] = 8;
+  header[9] = 2;
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    chunk("IHDR", header),
+    chunk("IDAT", deflateSync(Buffer.from([0, 255, 255, 255]))),
+    chunk("IEND", Buffer.alloc(0)),
+  ]);
+}
+
+function withCardChunk(png: Buffer, keyword: string, card: unknown): Buffer {
+  const iend = png.byteLength - 12;
+  return Buffer.concat([
+    png.subarray(0, iend),
+    chunk(
+      "tEXt",
+      Buffer.concat([
+        Buffer.from(`${keyword}\0`, "latin1"),
+        Buffer.from(Buffer.from(JSON.stringify(card)).toString("base64")),
+      ]),
+    ),
+    png.subarray(iend),
+  ]);
+}
+
+const character: TavernCharacter = {
+  name: "Aria",
+  description: "A wandering bard.\n\n## Appearance\nSilver hair, green cloak.",
+  personality: "Cheerful, curious",
+  scenario: "A rainy tavern at the edge of the kingdom.",
+  firstMessage: "*tunes her lute* Another traveler?",
+  exampleDialogues: "<START>\n{{user}}: Hi\n{{char}}: Hello there!",
+  creatorNotes: "Works best with slow-burn stories.",
+  tags: ["fantasy", "bard"],
+  lorebook: [
+    {
+      name: "Silver Lute",
+      keys: ["lute", "instrument"],
+      content: "Aria's lute was a gift from the elves.",
+    },
+  ],
+};
+
+describe("tavern character cards", () => {
+  test("markdown round-trip keeps every mapped field", () => {
+    for (const language of ["zh", "en"] as const) {
+      const markdown = tavernCharacterToMarkdown(character, {
+        characterId: 7,
+        creatorId: "123",
+        language,
+      });
+      expect(parseCharacterCardMarkdown(markdown, "fallback")).toEqual(
+        character,
+      );
+    }
+  });
+
+  test("V2 JSON export parses back to the same character", () => {
+    const card = buildTavernCardV2(character, { creator: "123" });
+    expect(card.spec).toBe("chara_card_v2");
+    expect(card.data.first_mes).toBe(character.firstMessage);
+    expect(card.data.character_book?.entries[0]?.keys).toEqual([
+      "lute",
+      "instrument",
+    ]);
+    expect(parseTavernCardJson(JSON.stringify(card))).toEqual(character);
+  });
+
+  test("PNG export embeds the card and keeps the image", () => {
+    const png = createPng();
+    const exported = embedTavernCardInPng(png, buildTavernCardV2(character));
+    expect(readPngTextChunks(exported).has("chara")).toBe(true);
+    expect(
+      exported.includes(deflateSync(Buffer.from([0, 255, 255, 255]))),
+    ).toBe(true);
+    expect(parseTavernCardPng(exported)).toEqual(character);
+
+    const reExported = embedTavernCardInPng(
+      exported,
+      buildTavernCardV2({ ...character, name: "Aria II" }),
+    );
+    expect(parseTavernCardPng(reExported).name).toBe("Aria II");
+  });
+
+  test("reads V1 and V3 cards and prefers the ccv3 chunk", () => {
+    const v1 = parseTavernCardJson(
+      JSON.stringify({
+        name: " Bo ",
+        description: "Guard",
+        first_mes: "Halt!",
+      }),
+    );
+    expect(v1).toMatchObject({
+      name: "Bo",
+      description: "Guard",
+      firstMessage: "Halt!",
+      lorebook: [],
+    });
+
+    const v3 = {
+      spec: "chara_card_v3",
+      spec_version: "3.0",
+      data: {
+        name: "Cy",
+        character_book: {
+          entries: [
+            { keys: ["k"], content: "kept", enabled: true, comment: "Note" },
+            { keys: ["x"], content: "disabled", enabled: false },
+          ],
+        },
+      },
+    };
+    const png = embedTavernCardInPng(
+      createPng(),
+      buildTavernCardV2({ ...character, name: "Legacy" }),
+    );
+    const parsed = parseTavernCardPng(withCardChunk(png, "ccv3", v3));
+    expect(parsed.name).toBe("Cy");
+    expect(parsed.lorebook).toEqual([
+      { name: "Note", keys: ["k"], content: "kept" },
+    ]);
+  });
+
+  test("V3 PNG import → edit → export returns the edited card", () => {
+    const imported = withCardChunk(createPng(), "ccv3", {
+      spec: "chara_card_v3",
+      spec_version: "3.0",
+      data: { name: "Cy", description: "Scout" },
+    });
+    const portrait = stripTavernCardFromPng(imported);
+    expect(readPngTextChunks(portrait).size).toBe(0);
+    expect(
+      portrait.includes(deflateSync(Buffer.from([0, 255, 255, 255]))),
+    ).toBe(true);
+
+    const markdown = tavernCharacterToMarkdown(parseTavernCardPng(imported), {
+      characterId: 9,
+      creatorId: "1",
+      language: "en",
+    });
+    const edited = parseCharacterCardMarkdown(
+      markdown.replace("Scout", "Veteran scout"),
+      "fallback",
+    );
+    for (const source of [portrait, imported]) {
+      const exported = embedTavernCardInPng(source, buildTavernCardV2(edited));
+      expect(readPngTextChunks(exported).has("ccv3")).toBe(false);
+      expect(parseTavernCardPng(exported)).toMatchObject({
+        name: "Cy",
+        description: "Veteran scout",
+      });
+    }
+  });
+
+  test("keeps multi-line creator notes through markdown", () => {
+    const notes = "Slow-burn works best.\n\n- Avoid modern slang.";
+    for (const language of ["zh", "en"] as const) {
+      const markdown = tavernCharacterToMarkdown(
+        { ...character, creatorNotes: notes },
+        { characterId: 7, creatorId: "123", language },
+      );
+      expect(parseCharacterCardMarkdown(markdown, "fallback")).toEqual({
+        ...character,
+        creatorNotes: notes,
+      });
+    }
+  });
+
+  test("rejects files without a card", () => {
+    expect(() => parseTavernCardJson("{}")).toThrow();
+    expect(() => parseTavernCardJson("not json")).toThrow();
+    expect(() => parseTavernCardPng(createPng())).toThrow(
+      "PNG has no embedded character card",
+    );
+    expect(() => parseTavernCardPng(Buffer.from("nope"))).toThrow();
+  });
+
+  test("keeps non-Tavern sections of our own cards in the description", () => {
+    const parsed = parseCharacterCardMarkdown(
+      [
+        "# 角色卡（C3）",
+        "",
+        "- 角色名：Dee",
+        "- 创建者：1",
+        "- 补充：",
+        "",
+        "## 外貌",
+        "- 整体印象：tall",
+        "",
+        "## 性格",
+        "- 核心性格：calm",
+      ].join("\n"),
+      "fallback",
+    );
+    expect(parsed.name).toBe("Dee");
+    expect(parsed.description).toBe("## 外貌\n- 整体印象：tall");
+    expect(parsed.personality).toBe("- 核心性格：calm");
+  });
+});
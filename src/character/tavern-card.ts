@@ -0,0 +1,422 @@
+import { z } from "zod";
+
+import { pick } from "../texts/common";
+import type { UserLanguage } from "../user/state-store";
+import {
+  isPng,
+  readPngTextChunks,
+  removePngTextChunks,
+  writePngTextChunks,
+} from "../utils/png-text";
+
+/**
+ * Tavern Character Card (V1/V2/V3) interop. Cards are mapped onto the
+ * sections of our markdown character card so that import → export keeps
+ * every field we understand; unknown markdown sections fold into the
+ * description.
+ */
+
+export type TavernLorebookEntry = {
+  name: string;
+  keys: string[];
+  content: string;
+};
+
+export type TavernCharacter = {
+  name: string;
+  description: string;
+  personality: string;
+  scenario: string;
+  firstMessage: string;
+  exampleDialogues: string;
+  creatorNotes: string;
+  tags: string[];
+  lorebook: TavernLorebookEntry[];
+};
+
+export type TavernCardV2 = {
+  spec: "chara_card_v2";
+  spec_version: "2.0";
+  data: {
+    name: string;
+    description: string;
+    personality: string;
+    scenario: string;
+    first_mes: string;
+    mes_example: string;
+    creator_notes: string;
+    system_prompt: string;
+    post_history_instructions: string;
+    alternate_greetings: string[];
+    tags: string[];
+    creator: string;
+    character_version: string;
+    extensions: Record<string, unknown>;
+    character_book?: {
+      name?: string;
+      extensions: Record<string, unknown>;
+      entries: Array<{
+        keys: string[];
+        content: string;
+        extensions: Record<string, unknown>;
+        enabled: boolean;
+        insertion_order: number;
+        name?: string;
+        id?: number;
+      }>;
+    };
+  };
+};
+
+type TavernSectionKey =
+  | "description"
+  | "personality"
+  | "scenario"
+  | "firstMessage"
+  | "exampleDialogues"
+  | "creatorNotes"
+  | "lorebook";
+
+const SECTION_HEADINGS: Record<TavernSectionKey, { zh: string; en: string }> = {
+  description: { zh: "描述", en: "Description" },
+  personality: { zh: "性格", en: "Personality" },
+  scenario: { zh: "场景", en: "Scenario" },
+  firstMessage: { zh: "开场白", en: "First Message" },
+  exampleDialogues: { zh: "对话示例", en: "Example Dialogues" },
+  creatorNotes: { zh: "作者备注", en: "Creator Notes" },
+  lorebook: { zh: "世界书", en: "Lorebook" },
+};
+
+const SECTION_ORDER: Array<Exclude<TavernSectionKey, "lorebook">> = [
+  "description",
+  "personality",
+  "scenario",
+  "firstMessage",
+  "exampleDialogues",
+];
+
+export function parseTavernCardJson(input: string): TavernCharacter {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(input.trim());
+  } catch {
+    throw new Error("not a valid JSON character card");
+  }
+  const wrapped = tavernCardWrapperSchema.safeParse(raw);
+  const parsed = tavernCardDataSchema.safeParse(
+    wrapped.success ? wrapped.data.data : raw,
+  );
+  if (!parsed.success || !parsed.data.name.trim()) {
+    throw new Error("character card is missing a name");
+  }
+  const data = parsed.data;
+  return {
+    name: data.name.trim(),
+    description: data.description.trim(),
+    personality: data.personality.trim(),
+    scenario: data.scenario.trim(),
+    firstMessage: data.first_mes.trim(),
+    exampleDialogues: data.mes_example.trim(),
+    creatorNotes: data.creator_notes.trim(),
+    tags: data.tags.map((tag) => tag.trim()).filter(Boolean),
+    lorebook: (data.character_book?.entries ?? [])
+      .filter((entry) => entry.enabled && entry.content.trim())
+      .map((entry) => ({
+        name: (entry.name || entry.comment || entry.keys[0] || "").trim(),
+        keys: entry.keys.map((key) => key.trim()).filter(Boolean),
+        content: entry.content.trim(),
+      })),
+  };
+}
+
+/** Reads the card from a PNG `ccv3` (V3) or `chara` (V1/V2) tEXt chunk. */
+export function parseTavernCardPng(buffer: Buffer): TavernCharacter {
+  if (!isPng(buffer)) {
+    throw new Error("not a PNG file");
+  }
+  const chunks = readPngTextChunks(buffer);
+  const encoded = chunks.get("ccv3") ?? chunks.get("chara");
+  if (!encoded) {
+    throw new Error("PNG has no embedded character card");
+  }
+  return parseTavernCardJson(Buffer.from(encoded, "base64").toString("utf8"));
+}
+
+export function tavernCharacterToMarkdown(
+  character: TavernCharacter,
+  input: {
+    characterId: number;
+    creatorId: string;
+    language: UserLanguage | null | undefined;
+  },
+): string {
+  const heading = (key: TavernSectionKey) =>
+    `## ${pick(input.language, SECTION_HEADINGS[key].zh, SECTION_HEADINGS[key].en)}`;
+  // The notes bullet holds one line; longer notes get their own section.
+  const multilineNotes = character.creatorNotes.includes("\n");
+  const notesBullet = multilineNotes ? "" : character.creatorNotes;
+  const lines = [
+    pick(
+      input.language,
+      `# 角色卡（C${input.characterId}）`,
+      `# Character Card (C${input.characterId})`,
+    ),
+    "",
+    pick(
+      input.language,
+      `- 角色名：${character.name}`,
+      `- Name: ${character.name}`,
+    ),
+    pick(
+      input.language,
+      `- 创建者：${input.creatorId}`,
+      `- Creator: ${input.creatorId}`,
+    ),
+    pick(
+      input.language,
+      `- 补充：${notesBullet}`,
+      `- Notes: ${notesBullet}`,
+    ).trimEnd(),
+  ];
+  if (character.tags.length > 0) {
+    lines.push(
+      pick(
+        input.language,
+        `- 标签：${character.tags.join(", ")}`,
+        `- Tags: ${character.tags.join(", ")}`,
+      ),
+    );
+  }
+  for (const key of SECTION_ORDER) {
+    const value = character[key];
+    if (value) {
+      lines.push("", heading(key), value);
+    }
+  }
+  if (multilineNotes) {
+    lines.push("", heading("creatorNotes"), character.creatorNotes);
+  }
+  if (character.lorebook.length > 0) {
+    lines.push("", heading("lorebook"));
+    for (const entry of character.lorebook) {
+      lines.push(
+        "",
+        `### ${entry.name || entry.keys[0] || "-"}`,
+        pick(
+          input.language,
+          `- 关键词：${entry.keys.join(", ")}`,
+          `- Keys: ${entry.keys.join(", ")}`,
+        ),
+        entry.content,
+      );
+    }
+  }
+  lines.push("");
+  return lines.join("\n");
+}
+
+/**
+ * Maps our markdown card back onto Tavern fields. Sections without a Tavern
+ * counterpart (appearance, background, …) are kept in the description under
+ * their own headings.
+ */
+export function parseCharacterCardMarkdown(
+  markdown: string,
+  fallbackName: string,
+): TavernCharacter {
+  const character: TavernCharacter = {
+    name: fallbackName.trim(),
+    description: "",
+    personality: "",
+    scenario: "",
+    firstMessage: "",
+    exampleDialogues: "",
+    creatorNotes: "",
+    tags: [],
+    lorebook: [],
+  };
+  const extraSections: string[] = [];
+  let current: { title: string; lines: string[] } | null = null;
+
+  const flush = () => {
+    if (!current) {
+      return;
+    }
+    const body = current.lines.join("\n").trim();
+    const key = resolveSectionKey(current.title);
+    if (key === "lorebook") {
+      character.lorebook = parseLorebookSection(body);
+    } else if (key) {
+      character[key] = body;
+    } else if (body) {
+      extraSections.push(`## ${current.title}\n${body}`);
+    }
+  };
+
+  for (const line of markdown.replace(/\r\n/g, "\n").split("\n")) {
+    const sectionMatch = line.match(/^##(?!#)\s*(.+?)\s*$/);
+    if (sectionMatch) {
+      flush();
+      current = { title: sectionMatch[1] ?? "", lines: [] };
+      continue;
+    }
+    if (current) {
+      current.lines.push(line);
+      continue;
+    }
+    const bullet = line.match(/^\s*-\s*([^:：]+?)\s*[:：]\s*(.*?)\s*$/);
+    if (!bullet) {
+      continue;
+    }
+    const field = (bullet[1] ?? "").toLowerCase();
+    const value = bullet[2] ?? "";
+    if ((field === "角色名" || field === "name") && value) {
+      character.name = value;
+    } else if (field === "补充" || field === "notes") {
+      character.creatorNotes = value;
+    } else if (field === "标签" || field === "tags") {
+      character.tags = splitList(value);
+    }
+  }
+  flush();
+
+  character.description = [character.description, ...extraSections]
+    .filter(Boolean)
+    .join("\n\n");
+  return character;
+}
+
+export function buildTavernCardV2(
+  character: TavernCharacter,
+  input: { creator?: string } = {},
+): TavernCardV2 {
+  return {
+    spec: "chara_card_v2",
+    spec_version: "2.0",
+    data: {
+      name: character.name,
+      description: character.description,
+      personality: character.personality,
+      scenario: character.scenario,
+      first_mes: character.firstMessage,
+      mes_example: character.exampleDialogues,
+      creator_notes: character.creatorNotes,
+      system_prompt: "",
+      post_history_instructions: "",
+      alternate_greetings: [],
+      tags: character.tags,
+      creator: input.creator ?? "",
+      character_version: "",
+      extensions: {},
+      ...(character.lorebook.length > 0
+        ? {
+            character_book: {
+              name: character.name,
+              extensions: {},
+              entries: character.lorebook.map((entry, index) => ({
+                id: index + 1,
+                name: entry.name,
+                keys: entry.keys,
+                content: entry.content,
+                extensions: {},
+                enabled: true,
+                insertion_order: index,
+              })),
+            },
+          }
+        : {}),
+    },
+  };
+}
+
+const TAVERN_CARD_PNG_KEYWORDS = ["chara", "ccv3"] as const;
+
+/**
+ * Embeds the card as a base64 `chara` tEXt chunk, as Tavern frontends expect.
+ * A stale `ccv3` chunk is dropped: readers prefer it over `chara`.
+ */
+export function embedTavernCardInPng(png: Buffer, card: TavernCardV2): Buffer {
+  return writePngTextChunks(stripTavernCardFromPng(png), {
+    chara: Buffer.from(JSON.stringify(card), "utf8").toString("base64"),
+  });
+}
+
+/** The image without any embedded card, for storing as a plain portrait. */
+export function stripTavernCardFromPng(png: Buffer): Buffer {
+  return removePngTextChunks(png, TAVERN_CARD_PNG_KEYWORDS);
+}
+
+function resolveSectionKey(title: string): TavernSectionKey | null {
+  const normalized = title.trim().toLowerCase();
+  for (const [key, names] of Object.entries(SECTION_HEADINGS)) {
+    if (normalized === names.zh || normalized === names.en.toLowerCase()) {
+      return key as TavernSectionKey;
+    }
+  }
+  return null;
+}
+
+function parseLorebookSection(body: string): TavernLorebookEntry[] {
+  const entries: TavernLorebookEntry[] = [];
+  let current: { name: string; keys: string[]; lines: string[] } | null = null;
+  const flush = () => {
+    const content = current?.lines.join("\n").trim() ?? "";
+    if (current && content) {
+      entries.push({ name: current.name, keys: current.keys, content });
+    }
+  };
+  for (const line of body.split("\n")) {
+    const entryMatch = line.match(/^###\s*(.+?)\s*$/);
+    if (entryMatch) {
+      flush();
+      current = { name: entryMatch[1] ?? "", keys: [], lines: [] };
+      continue;
+    }
+    if (!current) {
+      continue;
+    }
+    const keysMatch = line.match(/^\s*-\s*(?:关键词|keys)\s*[:：]\s*(.*)$/i);
+    if (keysMatch && current.keys.length === 0 && current.lines.length === 0) {
+      current.keys = splitList(keysMatch[1] ?? "");
+      continue;
+    }
+    current.lines.push(line);
+  }
+  flush();
+  return entries;
+}
+
+function splitList(value: string): string[] {
+  return value
+    .split(/[,，、]/)
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+const tavernLorebookEntrySchema = z.object({
+  keys: z.array(z.string()).catch([]),
+  content: z.string().catch(""),
+  enabled: z.boolean().catch(true),
+  name: z.string().optional().catch(undefined),
+  comment: z.string().optional().catch(undefined),
+});
+
+const tavernCardDataSchema = z.object({
+  name: z.string(),
+  description: z.string().catch(""),
+  personality: z.string().catch(""),
+  scenario: z.string().catch(""),
+  first_mes: z.string().catch(""),
+  mes_example: z.string().catch(""),
+  creator_notes: z.string().catch(""),
+  tags: z.array(z.string()).catch([]),
+  character_book: z
+    .object({ entries: z.array(tavernLorebookEntrySchema).catch([]) })
+    .optional()
+    .catch(undefined),
+});
+
+const tavernCardWrapperSchema = z.object({
+  spec: z.enum(["chara_card_v2", "chara_card_v3"]),
+  data: z.unknown(),
+});
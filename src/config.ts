@@ -32,6 +32,10 @@ const envSchema = z.object({
     .int()
     .min(0)
     .default(300_000),
+  /** Post a placeholder and edit it with run progress where the platform supports edits. */
+  STREAMING_REPLIES_ENABLED: zEnvBoolean(true),
+  /** Record dice results in the user's command transcript for the next prompt. */
+  DICE_ROLL_CONTEXT_ENABLED: zEnvBoolean(false),
   /** SSRF protection: max redirects allowed for any URL fetch. */
   SSRF_MAX_REDIRECTS: z.coerce.number().int().min(0).max(10).default(3),
   /** SSRF protection: allowlist is implemented but disabled by default. */
@@ -43,6 +47,11 @@ const envSchema = z.object({
   OPENAI_API_KEY: z.string().optional(),
   /** Comma-separated model IDs for litellm (slashes are allowed, e.g. vol/glm-4.7). */
   OPENCODE_MODELS: z.string().optional(),
+  /** Comma-separated fallback order tried on 429/5xx/timeouts; entries must be in OPENCODE_MODELS. */
+  OPENCODE_MODEL_FALLBACKS: z.string().optional(),
+  /** Provider failures within the cooldown before a model is skipped by every worker. */
+  MODEL_CIRCUIT_FAILURE_THRESHOLD: z.coerce.number().int().min(1).default(3),
+  MODEL_CIRCUIT_COOLDOWN_MS: z.coerce.number().int().min(1_000).default(60_000),
   /** Optional override for the opencode binary path. */
   OPENCODE_BIN: z.string().optional(),
   /** Enable all tools/permissions by default when running opencode. */
@@ -64,6 +73,18 @@ const envSchema = z.object({
   DISCORD_ONBOARDING_IDENTITY_ROLE_NAMES_CREATOR: z.string().optional(),
   /** Comma-separated role name substrings that map to the "player" identity (case-insensitive). */
   DISCORD_ONBOARDING_IDENTITY_ROLE_NAMES_PLAYER: z.string().optional(),
+  // Telegram platform configuration (enabled when the token is set)
+  TELEGRAM_BOT_TOKEN: z.string().optional(),
+  /** Bot API base URL; override for a self-hosted Bot API server. */
+  TELEGRAM_API_BASE_URL: z.string().url().default("https://api.telegram.org"),
+  /** How updates are received: long polling (default) or webhook. */
+  TELEGRAM_MODE: z.enum(["polling", "webhook"]).default("polling"),
+  TELEGRAM_POLL_TIMEOUT_SEC: z.coerce.number().int().min(0).max(50).default(30),
+  /** Public HTTPS URL registered with setWebhook (webhook mode only). */
+  TELEGRAM_WEBHOOK_URL: z.string().url().optional(),
+  TELEGRAM_WEBHOOK_PORT: z.coerce.number().int().min(0).default(8443),
+  TELEGRAM_WEBHOOK_PATH: z.string().default("/telegram/webhook"),
+  TELEGRAM_WEBHOOK_SECRET: z.string().optional(),
   GROUPS_DATA_DIR: z.string().default("/data/groups"),
   DATA_DIR: z.string().optional(),
   OPENCODE_PROMPT_MAX_BYTES: z.coerce
@@ -84,6 +105,16 @@ const envSchema = z.object({
   /** Optional BullMQ key prefix (must match producer/consumer). */
   BULLMQ_PREFIX: z.string().optional(),
   DATABASE_URL: z.string().optional(),
+  /** Roll older history into stored summaries once a group's window overflows. */
+  HISTORY_SUMMARY_ENABLED: zEnvBoolean(false),
+  /** Model used for summaries; must be in OPENCODE_MODELS (defaults to the first entry). */
+  HISTORY_SUMMARY_MODEL: z.string().optional(),
+  HISTORY_SUMMARY_TRIGGER_ENTRIES: z.coerce.number().int().min(10).default(80),
+  HISTORY_SUMMARY_KEEP_ENTRIES: z.coerce.number().int().min(0).default(20),
+  /** Byte budget for triggered world lorebook entries in the system context; 0 disables injection. */
+  WORLD_LORE_MAX_BYTES: z.coerce.number().int().min(0).default(4000),
+  /** Recent group history entries scanned for lorebook triggers, besides the current input. */
+  WORLD_LORE_SCAN_ENTRIES: z.coerce.number().int().min(0).default(6),
   BOT_ID_ALIASES: z.string().optional(),
   HTTP_PORT: z.coerce.number().int().min(1).default(8080),
   /** Optional public base URL for wiki links in announcements (e.g. https://llbot-0.talesofai.cn). */
@@ -103,6 +134,13 @@ const envSchema = z.object({
   LLBOT_REGISTRY_REFRESH_SEC: z.coerce.number().int().min(1).default(10),
   LLBOT_REGISTRY_BOT_ID: z.string().optional(),
   LLBOT_REGISTRY_WS_URL: z.string().optional(),
+  /** Protocol advertised by the registrar: milky (default) or onebot-v11. */
+  LLBOT_REGISTRY_PROTOCOL: z.enum(["milky", "onebot-v11"]).default("milky"),
+  /** OneBot v11 access token (forward ?access_token= / reverse Authorization). */
+  ONEBOT_ACCESS_TOKEN: z.string().optional(),
+  /** Enables the OneBot v11 reverse WebSocket server on this port (QQ only). */
+  ONEBOT_REVERSE_WS_PORT: z.coerce.number().int().min(0).optional(),
+  ONEBOT_REVERSE_WS_PATH: z.string().default("/onebot/v11/ws"),
   LLBOT_PLATFORM: z.enum(["qq", "discord"]).default("discord"),
 });
 
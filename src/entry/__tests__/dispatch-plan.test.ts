@@ -2,7 +2,14 @@ import { describe, expect, test } from "bun:test";
 
 import type { SessionEvent } from "../../types/platform";
 import { DEFAULT_GROUP_CONFIG } from "../../types/group";
-import { routeDispatch } from "../dispatch-plan";
+import {
+  applyBudgetStatus,
+  applyRateLimitDecision,
+  planRateLimitBuckets,
+  routeDispatch,
+  type DispatchEnvelope,
+  type RouterSnapshot,
+} from "../dispatch-plan";
 
 describe("routeDispatch dice", () => {
   test("routes dice even when triggerMode is mention and message is not a mention", () => {
@@ -31,7 +38,14 @@ describe("routeDispatch dice", () => {
     if (routing.kind !== "dice") {
       throw new Error("expected dice routing");
     }
-    expect(routing.dice).toEqual({ count: 2, sides: 100 });
+    expect(routing.dice).toEqual({
+      type: "roll",
+      expression: {
+        terms: [
+          { kind: "dice", sign: 1, count: 2, sides: 100, explode: false },
+        ],
+      },
+    });
   });
 
   test("drops dice messages when session key exceeds maxSessions", () => {
@@ -89,7 +103,46 @@ describe("routeDispatch dice", () => {
     if (routing.kind !== "dice") {
       throw new Error("expected dice routing");
     }
-    expect(routing.dice).toEqual({ count: 10, sides: 20 });
+    expect(routing.dice).toEqual({
+      type: "roll",
+      expression: {
+        terms: [
+          { kind: "dice", sign: 1, count: 10, sides: 20, explode: false },
+        ],
+      },
+    });
+  });
+
+  test("routes .ra skill checks", () => {
+    const message: SessionEvent = {
+      type: "message",
+      platform: "discord",
+      selfId: "bot",
+      userId: "user",
+      guildId: "guild",
+      channelId: "channel",
+      messageId: "msg",
+      content: ".ra 侦查 60",
+      elements: [{ type: "text", text: ".ra 侦查 60" }],
+      timestamp: Date.now(),
+      extras: {},
+    };
+
+    const routing = routeDispatch({
+      message,
+      groupConfig: { ...DEFAULT_GROUP_CONFIG, triggerMode: "mention" },
+      routerSnapshot: null,
+      botId: "bot",
+    });
+
+    expect(routing.kind).toBe("dice");
+    if (routing.kind !== "dice") {
+      throw new Error("expected dice routing");
+    }
+    expect(routing.dice).toEqual({
+      type: "check",
+      check: { skill: "侦查", value: 60 },
+    });
   });
 });
 
@@ -169,3 +222,256 @@ describe("routeDispatch always-enqueue commands", () => {
     expect(routing.kind).toBe("enqueue");
   });
 });
+
+describe("routeDispatch management commands", () => {
+  const route = (content: string) =>
+    routeDispatch({
+      message: {
+        type: "message",
+        platform: "discord",
+        selfId: "bot",
+        userId: "user",
+        guildId: "guild",
+        channelId: "channel",
+        messageId: "msg",
+        content,
+        elements: [
+          { type: "mention", userId: "bot" },
+          { type: "text", text: content },
+        ],
+        timestamp: Date.now(),
+        extras: {},
+      },
+      groupConfig: DEFAULT_GROUP_CONFIG,
+      routerSnapshot: null,
+      botId: "bot",
+    });
+
+  test("parses /usage with an optional day window", () => {
+    const expectUsage = (content: string, days: number) => {
+      const routing = route(content);
+      if (routing.kind !== "command") {
+        throw new Error(`expected command routing for ${content}`);
+      }
+      expect(routing.command).toEqual({ type: "usage", days });
+    };
+    expectUsage("/usage", 7);
+    expectUsage("/usage 30", 30);
+    expectUsage("/usage 30d", 30);
+    expectUsage("/用量 3天", 3);
+    expectUsage("/usage 99", 90);
+    expect(route("/usage everything").kind).toBe("enqueue");
+  });
+});
+
+describe("rate limit planning", () => {
+  const envelope: DispatchEnvelope = {
+    groupId: "guild",
+    rawBotId: "bot",
+    canonicalBotId: "bot",
+    botId: "discord-bot",
+    userId: "user",
+  };
+
+  const enqueueMessage: SessionEvent = {
+    type: "message",
+    platform: "discord",
+    selfId: "bot",
+    userId: "user",
+    guildId: "guild",
+    channelId: "channel",
+    messageId: "msg",
+    content: "/quest",
+    elements: [{ type: "text", text: "/quest" }],
+    timestamp: Date.now(),
+    extras: {},
+  };
+
+  const routerSnapshot: RouterSnapshot = {
+    globalKeywords: [],
+    globalEchoRate: 0,
+    globalRateLimit: {
+      userPerMinute: 10,
+      groupPerMinute: null,
+      userPerDay: null,
+      groupPerDay: 500,
+    },
+    botConfigs: new Map(),
+  };
+
+  const groupConfig = {
+    ...DEFAULT_GROUP_CONFIG,
+    rateLimit: {
+      userPerMinute: 3,
+      groupPerMinute: 20,
+      userPerDay: null,
+      groupPerDay: null,
+    },
+  };
+
+  const routing = routeDispatch({
+    message: enqueueMessage,
+    groupConfig,
+    routerSnapshot,
+    botId: envelope.botId,
+  });
+
+  test("plans buckets for enqueued messages from group and global limits", () => {
+    expect(
+      planRateLimitBuckets({
+        routing,
+        envelope,
+        groupConfig,
+        routerSnapshot,
+        isAdmin: false,
+      }),
+    ).toEqual([
+      {
+        scope: "user_minute",
+        key: "discord-bot:guild:user:user:minute",
+        capacity: 3,
+        windowMs: 60_000,
+      },
+      {
+        scope: "group_minute",
+        key: "discord-bot:guild:group:minute",
+        capacity: 20,
+        windowMs: 60_000,
+      },
+      {
+        scope: "group_day",
+        key: "discord-bot:guild:group:day",
+        capacity: 500,
+        windowMs: 86_400_000,
+      },
+    ]);
+  });
+
+  test("skips admins, direct-message group limits and non-enqueue plans", () => {
+    expect(
+      planRateLimitBuckets({
+        routing,
+        envelope,
+        groupConfig,
+        routerSnapshot,
+        isAdmin: true,
+      }),
+    ).toEqual([]);
+
+    expect(
+      planRateLimitBuckets({
+        routing,
+        envelope: { ...envelope, groupId: "0" },
+        groupConfig,
+        routerSnapshot,
+        isAdmin: false,
+      }).map((bucket) => bucket.scope),
+    ).toEqual(["user_minute"]);
+
+    expect(
+      planRateLimitBuckets({
+        routing: { kind: "passive", echoRate: 0 },
+        envelope,
+        groupConfig,
+        routerSnapshot,
+        isAdmin: false,
+      }),
+    ).toEqual([]);
+  });
+
+  test("turns a denied decision into a limited plan", () => {
+    expect(applyRateLimitDecision(routing, { allowed: true })).toBe(routing);
+
+    const limited = applyRateLimitDecision(routing, {
+      allowed: false,
+      scope: "user_minute",
+      retryAfterMs: 12_000,
+    });
+    expect(limited).toMatchObject({
+      kind: "limited",
+      key: 0,
+      scope: "user_minute",
+      retryAfterMs: 12_000,
+    });
+  });
+});
+
+describe("budget planning", () => {
+  const message: SessionEvent = {
+    type: "message",
+    platform: "discord",
+    selfId: "bot",
+    userId: "user",
+    guildId: "guild",
+    channelId: "channel",
+    messageId: "msg",
+    content: "/quest",
+    elements: [{ type: "text", text: "/quest" }],
+    timestamp: Date.now(),
+    extras: {},
+  };
+  const routing = routeDispatch({
+    message,
+    groupConfig: DEFAULT_GROUP_CONFIG,
+    routerSnapshot: null,
+    botId: "bot",
+  });
+  const exceeded = {
+    limits: [],
+    exceeded: {
+      window: "monthly" as const,
+      metric: "cost" as const,
+      limit: 10,
+      used: 10,
+      remaining: 0,
+    },
+  };
+  const withPolicy = (
+    onExceeded: (typeof DEFAULT_GROUP_CONFIG)["budget"]["onExceeded"],
+  ) => ({
+    ...DEFAULT_GROUP_CONFIG,
+    budget: { ...DEFAULT_GROUP_CONFIG.budget, onExceeded },
+  });
+
+  test("rejects enqueues once the budget is exceeded", () => {
+    expect(
+      applyBudgetStatus({
+        routing,
+        groupConfig: withPolicy("reject"),
+        status: exceeded,
+        isAdmin: true,
+      }),
+    ).toMatchObject({
+      kind: "over_budget",
+      window: "monthly",
+      policy: "reject",
+    });
+  });
+
+  test("lets admins through under admin_only and everyone under downgrade", () => {
+    expect(
+      applyBudgetStatus({
+        routing,
+        groupConfig: withPolicy("admin_only"),
+        status: exceeded,
+        isAdmin: true,
+      }).kind,
+    ).toBe("enqueue");
+    expect(
+      applyBudgetStatus({
+        routing,
+        groupConfig: withPolicy("admin_only"),
+        status: exceeded,
+        isAdmin: false,
+      }).kind,
+    ).toBe("over_budget");
+    expect(
+      applyBudgetStatus({
+        routing,
+        groupConfig: withPolicy("downgrade"),
+        status: exceeded,
+        isAdmin: false,
+      }).kind,
+    ).toBe("enqueue");
+  });
+});
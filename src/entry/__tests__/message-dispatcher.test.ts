@@ -14,10 +14,16 @@ import type {
 import type { BullmqSessionQueue } from "../../queue";
 import type { SessionJobData } from "../../queue";
 import type { SessionBuffer, SessionBufferKey } from "../../session/buffer";
+import type {
+  SessionCancelBus,
+  SessionCancelRequest,
+} from "../../session/cancel";
 import { GroupStore } from "../../store";
 import { SessionRepository } from "../../session";
+import { UserStateStore } from "../../user/state-store";
 import type { WorldStore } from "../../world/store";
 import { EchoTracker } from "../echo";
+import { InMemoryRateLimitStore, RateLimiter } from "../rate-limit";
 import { MessageDispatcher } from "../message-dispatcher";
 import { resolveDispatchGroupId } from "../message-dispatcher";
 
@@ -161,6 +167,24 @@ class CapturingSessionBuffer implements SessionBuffer {
   async close(): Promise<void> {}
 }
 
+class CapturingCancelBus implements SessionCancelBus {
+  requests: SessionCancelRequest[] = [];
+
+  constructor(
+    private onRequest?: (request: SessionCancelRequest) => Promise<void>,
+  ) {}
+
+  async requestCancel(request: SessionCancelRequest): Promise<number> {
+    this.requests.push(request);
+    await this.onRequest?.(request);
+    return 1;
+  }
+
+  async subscribe(): Promise<void> {}
+
+  async close(): Promise<void> {}
+}
+
 class CapturingSessionQueue {
   jobs: SessionJobData[] = [];
 
@@ -361,6 +385,223 @@ describe("MessageDispatcher management commands", () => {
     }
   });
 
+  test("asks the worker to cancel a running session on /stop", async () => {
+    const tempDir = makeTempDir();
+    const logger = pino({ level: "silent" });
+    const adapter = new MemoryAdapter();
+    const groupStore = new GroupStore({ dataDir: tempDir, logger });
+    await groupStore.init();
+    const sessionRepository = new SessionRepository({
+      dataDir: tempDir,
+      logger,
+    });
+    // The worker finishes the cancelled job and marks the session idle.
+    const cancelBus = new CapturingCancelBus(async (request) => {
+      const session = await sessionRepository.loadSession(
+        request.key.botId,
+        request.key.groupId,
+        "999",
+        request.key.sessionId,
+      );
+      if (session) {
+        await sessionRepository.updateMeta({ ...session.meta, status: "idle" });
+      }
+    });
+
+    const sessionId = await sessionRepository.resolveActiveSessionId(
+      "discord-123",
+      "guild1",
+      "999",
+      0,
+    );
+    const now = new Date().toISOString();
+    await sessionRepository.createSession({
+      sessionId,
+      groupId: "guild1",
+      botId: "discord-123",
+      ownerId: "999",
+      key: 0,
+      status: "running",
+      active: true,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    const dispatcher = new MessageDispatcher({
+      adapter,
+      groupStore,
+      routerStore: null,
+      sessionRepository,
+      sessionQueue: {} as unknown as BullmqSessionQueue,
+      bufferStore: new NoopSessionBuffer(),
+      echoTracker: new EchoTracker({ store: new MemoryEchoStore() }),
+      cancelBus,
+      logger,
+      stopConfirmTimeoutMs: 2_000,
+    });
+
+    try {
+      await dispatcher.dispatch({
+        type: "message",
+        platform: "discord",
+        selfId: "123",
+        userId: "999",
+        guildId: "guild1",
+        channelId: "channel1",
+        messageId: "msg1",
+        content: "停止",
+        elements: [
+          { type: "mention", userId: "123" },
+          { type: "text", text: "停止" },
+        ],
+        timestamp: Date.now(),
+        extras: {},
+      });
+
+      expect(cancelBus.requests).toEqual([
+        {
+          key: { botId: "discord-123", groupId: "guild1", sessionId },
+          requestedBy: "999",
+        },
+      ]);
+      // The handler acks at once; the worker's own reply confirms the stop.
+      expect(adapter.messages).toEqual(["已发送停止请求，正在停止本次回复。"]);
+      await Bun.sleep(400);
+      expect(adapter.messages).toHaveLength(1);
+    } finally {
+      rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  test("replies when no worker confirms a /stop on a stale running session", async () => {
+    const tempDir = makeTempDir();
+    const logger = pino({ level: "silent" });
+    const adapter = new MemoryAdapter();
+    const groupStore = new GroupStore({ dataDir: tempDir, logger });
+    await groupStore.init();
+    const sessionRepository = new SessionRepository({
+      dataDir: tempDir,
+      logger,
+    });
+    const cancelBus = new CapturingCancelBus();
+
+    const sessionId = await sessionRepository.resolveActiveSessionId(
+      "discord-123",
+      "guild1",
+      "999",
+      0,
+    );
+    const now = new Date().toISOString();
+    await sessionRepository.createSession({
+      sessionId,
+      groupId: "guild1",
+      botId: "discord-123",
+      ownerId: "999",
+      key: 0,
+      status: "running",
+      active: true,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    const dispatcher = new MessageDispatcher({
+      adapter,
+      groupStore,
+      routerStore: null,
+      sessionRepository,
+      sessionQueue: {} as unknown as BullmqSessionQueue,
+      bufferStore: new NoopSessionBuffer(),
+      echoTracker: new EchoTracker({ store: new MemoryEchoStore() }),
+      cancelBus,
+      logger,
+      stopConfirmTimeoutMs: 300,
+    });
+
+    try {
+      await dispatcher.dispatch({
+        type: "message",
+        platform: "discord",
+        selfId: "123",
+        userId: "999",
+        guildId: "guild1",
+        channelId: "channel1",
+        messageId: "msg1",
+        content: "停止",
+        elements: [
+          { type: "mention", userId: "123" },
+          { type: "text", text: "停止" },
+        ],
+        timestamp: Date.now(),
+        extras: {},
+      });
+
+      expect(cancelBus.requests).toEqual([
+        {
+          key: { botId: "discord-123", groupId: "guild1", sessionId },
+          requestedBy: "999",
+        },
+      ]);
+      expect(adapter.messages).toHaveLength(1);
+      for (let i = 0; i < 100 && adapter.messages.length < 2; i += 1) {
+        await Bun.sleep(20);
+      }
+      expect(adapter.messages).toHaveLength(2);
+      expect(adapter.messages[1]).toContain("暂未收到停止确认");
+    } finally {
+      rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  test("rejects /stop on another user's session when caller is not an admin", async () => {
+    const tempDir = makeTempDir();
+    const logger = pino({ level: "silent" });
+    const adapter = new MemoryAdapter();
+    const groupStore = new GroupStore({ dataDir: tempDir, logger });
+    await groupStore.init();
+    const sessionRepository = new SessionRepository({
+      dataDir: tempDir,
+      logger,
+    });
+    const cancelBus = new CapturingCancelBus();
+
+    const dispatcher = new MessageDispatcher({
+      adapter,
+      groupStore,
+      routerStore: null,
+      sessionRepository,
+      sessionQueue: {} as unknown as BullmqSessionQueue,
+      bufferStore: new NoopSessionBuffer(),
+      echoTracker: new EchoTracker({ store: new MemoryEchoStore() }),
+      cancelBus,
+      logger,
+    });
+
+    try {
+      await dispatcher.dispatch({
+        type: "message",
+        platform: "discord",
+        selfId: "123",
+        userId: "999",
+        guildId: "guild1",
+        channelId: "channel1",
+        messageId: "msg1",
+        content: "/stop",
+        elements: [
+          { type: "mention", userId: "123" },
+          { type: "mention", userId: "777" },
+          { type: "text", text: "/stop" },
+        ],
+        timestamp: Date.now(),
+        extras: {},
+      });
+
+      expect(cancelBus.requests).toEqual([]);
+      expect(adapter.messages).toEqual(["无权限：你只能停止自己的会话。"]);
+    } finally {
+      rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
   test("allows /model with slashed model id when configured in OPENCODE_MODELS", async () => {
     const tempDir = makeTempDir();
     const logger = pino({ level: "silent" });
@@ -420,6 +661,113 @@ describe("MessageDispatcher management commands", () => {
   });
 });
 
+describe("MessageDispatcher rate limiting", () => {
+  test("stops enqueueing over the per-user limit and replies once", async () => {
+    const tempDir = makeTempDir();
+    const logger = pino({ level: "silent" });
+    const adapter = new MemoryAdapter();
+    const groupStore = new GroupStore({ dataDir: tempDir, logger });
+    await groupStore.init();
+    await groupStore.ensureGroupDir("guild-1");
+    await groupStore.updateGroupConfig("guild-1", (config) => ({
+      ...config,
+      rateLimit: { ...config.rateLimit, userPerMinute: 1 },
+    }));
+    const sessionRepository = new SessionRepository({
+      dataDir: tempDir,
+      logger,
+    });
+    const bufferStore = new CapturingSessionBuffer();
+    const sessionQueue = new CapturingSessionQueue();
+
+    const dispatcher = new MessageDispatcher({
+      adapter,
+      groupStore,
+      routerStore: null,
+      sessionRepository,
+      sessionQueue: sessionQueue as unknown as BullmqSessionQueue,
+      bufferStore,
+      echoTracker: new EchoTracker({ store: new MemoryEchoStore() }),
+      rateLimiter: new RateLimiter({ store: new InMemoryRateLimitStore() }),
+      logger,
+    });
+
+    const message: SessionEvent = {
+      ...baseMessage,
+      content: "/quest",
+      elements: [{ type: "text", text: "/quest" }],
+    };
+
+    try {
+      await dispatcher.dispatch(message);
+      await dispatcher.dispatch({ ...message, messageId: "msg-2" });
+      await dispatcher.dispatch({ ...message, messageId: "msg-3" });
+
+      expect(sessionQueue.jobs).toHaveLength(1);
+      expect(adapter.messages).toHaveLength(1);
+      expect(adapter.messages[0]).toContain("你发得太快了");
+    } finally {
+      rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("MessageDispatcher dice", () => {
+  test("records dice results in the command transcript when enabled", async () => {
+    const tempDir = makeTempDir();
+    const logger = pino({ level: "silent" });
+    const adapter = new MemoryAdapter();
+    const groupStore = new GroupStore({ dataDir: tempDir, logger });
+    await groupStore.init();
+    const sessionRepository = new SessionRepository({
+      dataDir: tempDir,
+      logger,
+    });
+    const userState = new UserStateStore({ logger, dataRoot: tempDir });
+
+    const prevEnabled = process.env.DICE_ROLL_CONTEXT_ENABLED;
+    process.env.DICE_ROLL_CONTEXT_ENABLED = "true";
+    resetConfig();
+
+    const dispatcher = new MessageDispatcher({
+      adapter,
+      groupStore,
+      routerStore: null,
+      sessionRepository,
+      sessionQueue: {} as unknown as BullmqSessionQueue,
+      bufferStore: new NoopSessionBuffer(),
+      echoTracker: new EchoTracker({ store: new MemoryEchoStore() }),
+      userState,
+      logger,
+    });
+
+    try {
+      await dispatcher.dispatch({
+        ...baseMessage,
+        content: ".ra 侦查 60",
+        elements: [{ type: "text", text: ".ra 侦查 60" }],
+      });
+
+      expect(adapter.messages).toHaveLength(1);
+      expect(adapter.messages[0]).toMatch(/^侦查 1d100 = \d+ \/ 60 → /);
+      const transcripts = await userState.getRecentCommandTranscripts(
+        baseMessage.userId,
+      );
+      expect(transcripts).toHaveLength(1);
+      expect(transcripts[0]?.command).toBe(".ra 侦查 60");
+      expect(transcripts[0]?.result).toBe(adapter.messages[0]);
+    } finally {
+      if (prevEnabled === undefined) {
+        delete process.env.DICE_ROLL_CONTEXT_ENABLED;
+      } else {
+        process.env.DICE_ROLL_CONTEXT_ENABLED = prevEnabled;
+      }
+      resetConfig();
+      rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+});
+
 describe("MessageDispatcher telemetry propagation", () => {
   test("enqueues jobs with traceId and timestamps", async () => {
     const tempDir = makeTempDir();
@@ -0,0 +1,91 @@
+import { describe, expect, test } from "bun:test";
+
+import {
+  InMemoryRateLimitStore,
+  MINUTE_MS,
+  RateLimiter,
+  resolveRateLimitPolicy,
+  type RateLimitBucket,
+} from "../rate-limit";
+
+describe("resolveRateLimitPolicy", () => {
+  test("falls back bot, then group, then global per field", () => {
+    expect(
+      resolveRateLimitPolicy(
+        { userPerMinute: 3 },
+        { userPerMinute: 5, groupPerMinute: 20 },
+        { groupPerMinute: 30, userPerDay: 100 },
+      ),
+    ).toEqual({
+      userPerMinute: 3,
+      groupPerMinute: 20,
+      userPerDay: 100,
+      groupPerDay: null,
+    });
+  });
+
+  test("treats zero as an explicit unlimited override", () => {
+    expect(
+      resolveRateLimitPolicy(null, { userPerMinute: 0 }, { userPerMinute: 5 })
+        .userPerMinute,
+    ).toBeNull();
+  });
+});
+
+describe("RateLimiter", () => {
+  const bucket = (
+    scope: RateLimitBucket["scope"],
+    capacity: number,
+  ): RateLimitBucket => ({
+    scope,
+    key: `bot:group:${scope}`,
+    capacity,
+    windowMs: MINUTE_MS,
+  });
+
+  test("denies once the bucket is empty and refills over the window", async () => {
+    let now = 0;
+    const limiter = new RateLimiter({
+      store: new InMemoryRateLimitStore(),
+      now: () => now,
+    });
+    const buckets = [bucket("user_minute", 2)];
+
+    expect(await limiter.consume(buckets)).toEqual({ allowed: true });
+    expect(await limiter.consume(buckets)).toEqual({ allowed: true });
+    expect(await limiter.consume(buckets)).toEqual({
+      allowed: false,
+      scope: "user_minute",
+      retryAfterMs: 30_000,
+    });
+
+    now = 30_000;
+    expect(await limiter.consume(buckets)).toEqual({ allowed: true });
+  });
+
+  test("does not consume any bucket when one of them is empty", async () => {
+    const limiter = new RateLimiter({
+      store: new InMemoryRateLimitStore(),
+      now: () => 0,
+    });
+    const user = bucket("user_minute", 5);
+    const group = bucket("group_minute", 1);
+
+    expect(await limiter.consume([user, group])).toEqual({ allowed: true });
+    const denied = await limiter.consume([user, group]);
+    expect(denied.allowed).toBe(false);
+    // The user bucket still has 4 tokens because the denied call took none.
+    for (let i = 0; i < 4; i += 1) {
+      expect(await limiter.consume([user])).toEqual({ allowed: true });
+    }
+    expect((await limiter.consume([user])).allowed).toBe(false);
+  });
+
+  test("notifies once per cooldown", async () => {
+    const limiter = new RateLimiter({ store: new InMemoryRateLimitStore() });
+
+    expect(await limiter.shouldNotify("bot:group:user", 30_000)).toBe(true);
+    expect(await limiter.shouldNotify("bot:group:user", 30_000)).toBe(false);
+    expect(await limiter.shouldNotify("bot:group:other", 30_000)).toBe(true);
+  });
+});
@@ -11,10 +11,19 @@ import {
   shouldEnqueue,
 } from "./trigger";
 import { resolveEchoRate } from "./echo-rate";
+import {
+  DAY_MS,
+  MINUTE_MS,
+  resolveRateLimitPolicy,
+  type RateLimitBucket,
+  type RateLimitDecision,
+  type RateLimitScope,
+} from "./rate-limit";
 import { isSafePathSegment } from "../utils/path";
 import { buildBotFsId, resolveCanonicalBotId } from "../utils/bot-id";
-import type { DiceSpec } from "../utils/dice";
-import { parseDiceSpec } from "../utils/dice";
+import type { DiceCommand } from "../utils/dice";
+import type { BudgetStatus, BudgetWindow } from "../session/budget";
+import { parseDiceExpression, parseSkillCheck } from "../utils/dice";
 
 export type DispatchEnvelope = {
   groupId: string;
@@ -80,6 +89,7 @@ export function authorizeDispatch(input: {
 
 export type ManagementCommand =
   | { type: "reset"; scope: "self" | "all" }
+  | { type: "stop" }
   | { type: "model"; model: string | null }
   | {
       type: "push";
@@ -87,7 +97,8 @@ export type ManagementCommand =
       time?: string;
     }
   | { type: "login"; token: string | null }
-  | { type: "logout" };
+  | { type: "logout" }
+  | { type: "usage"; days: number };
 
 export type DispatchRoutingPlan =
   | { kind: "passive"; echoRate: number }
@@ -100,7 +111,7 @@ export type DispatchRoutingPlan =
   | {
       kind: "dice";
       key: number;
-      dice: DiceSpec;
+      dice: DiceCommand;
       session: SessionEvent;
       contentHash: string;
       contentLength: number;
@@ -118,6 +129,22 @@ export type DispatchRoutingPlan =
       session: SessionEvent;
       contentHash: string;
       contentLength: number;
+    }
+  | {
+      kind: "limited";
+      key: number;
+      scope: RateLimitScope;
+      retryAfterMs: number;
+      contentHash: string;
+      contentLength: number;
+    }
+  | {
+      kind: "over_budget";
+      key: number;
+      window: BudgetWindow;
+      policy: "reject" | "admin_only";
+      contentHash: string;
+      contentLength: number;
     };
 
 export type RouterSnapshot = Awaited<ReturnType<RouterStore["getSnapshot"]>>;
@@ -213,12 +240,110 @@ export function routeDispatch(input: {
   };
 }
 
-function parseDiceCommand(input: string): DiceSpec | null {
-  const match = input.match(/^\.rd(?:\s+|$)(.*)$/i);
+function parseDiceCommand(input: string): DiceCommand | null {
+  const match = input.match(/^\.(ra|rd|r)(?:\s+|$)(.*)$/i);
   if (!match) {
     return null;
   }
-  return parseDiceSpec(match[1]?.trim() ?? "");
+  const body = match[2]?.trim() ?? "";
+  if (match[1]?.toLowerCase() === "ra") {
+    const check = parseSkillCheck(body);
+    return check ? { type: "check", check } : null;
+  }
+  const expression = parseDiceExpression(body);
+  return expression ? { type: "roll", expression } : null;
+}
+
+/**
+ * Buckets an enqueue plan must draw from. Only messages that would reach the
+ * model are limited; dice, management commands and admins are exempt.
+ */
+export function planRateLimitBuckets(input: {
+  routing: DispatchRoutingPlan;
+  envelope: DispatchEnvelope;
+  groupConfig: GroupConfig;
+  routerSnapshot: RouterSnapshot | null | undefined;
+  isAdmin: boolean;
+}): RateLimitBucket[] {
+  if (input.routing.kind !== "enqueue" || input.isAdmin) {
+    return [];
+  }
+  const botConfig = input.routerSnapshot?.botConfigs.get(input.envelope.botId);
+  const policy = resolveRateLimitPolicy(
+    botConfig?.rateLimit,
+    input.groupConfig.rateLimit,
+    input.routerSnapshot?.globalRateLimit,
+  );
+
+  const { botId, groupId, userId } = input.envelope;
+  const userKey = `${botId}:${groupId}:user:${userId}`;
+  const groupKey = `${botId}:${groupId}:group`;
+  // Direct messages all share groupId "0", so group limits do not apply there.
+  const isGroup = groupId !== "0";
+  const candidates: Array<[RateLimitScope, string, number | null, number]> = [
+    ["user_minute", `${userKey}:minute`, policy.userPerMinute, MINUTE_MS],
+    [
+      "group_minute",
+      `${groupKey}:minute`,
+      isGroup ? policy.groupPerMinute : null,
+      MINUTE_MS,
+    ],
+    ["user_day", `${userKey}:day`, policy.userPerDay, DAY_MS],
+    [
+      "group_day",
+      `${groupKey}:day`,
+      isGroup ? policy.groupPerDay : null,
+      DAY_MS,
+    ],
+  ];
+  return candidates.flatMap(([scope, key, capacity, windowMs]) =>
+    capacity ? [{ scope, key, capacity, windowMs }] : [],
+  );
+}
+
+export function applyRateLimitDecision(
+  routing: DispatchRoutingPlan,
+  decision: RateLimitDecision,
+): DispatchRoutingPlan {
+  if (decision.allowed || routing.kind !== "enqueue") {
+    return routing;
+  }
+  return {
+    kind: "limited",
+    key: routing.key,
+    scope: decision.scope,
+    retryAfterMs: decision.retryAfterMs,
+    contentHash: routing.contentHash,
+    contentLength: routing.contentLength,
+  };
+}
+
+/**
+ * Turns an enqueue plan into `over_budget` once the group budget is spent.
+ * The downgrade policy keeps the plan; the worker switches models instead.
+ */
+export function applyBudgetStatus(input: {
+  routing: DispatchRoutingPlan;
+  groupConfig: GroupConfig;
+  status: BudgetStatus | null;
+  isAdmin: boolean;
+}): DispatchRoutingPlan {
+  const { routing, status } = input;
+  const policy = input.groupConfig.budget.onExceeded;
+  if (routing.kind !== "enqueue" || !status?.exceeded) {
+    return routing;
+  }
+  if (policy === "downgrade" || (policy === "admin_only" && input.isAdmin)) {
+    return routing;
+  }
+  return {
+    kind: "over_budget",
+    key: routing.key,
+    window: status.exceeded.window,
+    policy,
+    contentHash: routing.contentHash,
+    contentLength: routing.contentLength,
+  };
 }
 
 export function normalizeDispatchMessage(input: {
@@ -374,6 +499,10 @@ function parseManagementCommand(input: string): ManagementCommand | null {
     return null;
   }
 
+  if (trimmed.match(/^(?:\/stop|stop)$/i) || trimmed.match(/^\/?停止$/)) {
+    return { type: "stop" };
+  }
+
   const modelMatch =
     trimmed.match(/^(?:\/model|model)(?:\s+|$)(.*)$/i) ??
     trimmed.match(/^(?:\/模型|模型)(?:\s+|$)(.*)$/);
@@ -441,5 +570,13 @@ function parseManagementCommand(input: string): ManagementCommand | null {
     return { type: "logout" };
   }
 
+  const usageMatch =
+    trimmed.match(/^\/usage(?:\s+(\d{1,2})d?)?$/i) ??
+    trimmed.match(/^\/用量(?:\s+(\d{1,2})天?)?$/);
+  if (usageMatch) {
+    const days = Number(usageMatch[1] ?? 7);
+    return { type: "usage", days: Math.min(Math.max(days, 1), 90) };
+  }
+
   return null;
 }
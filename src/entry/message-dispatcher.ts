@@ -12,10 +12,13 @@ import { parseOpencodeModelIdsCsv } from "../opencode/model-ids";
 import type { BotMessageStore } from "../store/bot-message-store";
 import type { GroupRouteStore } from "../store/group-route-store";
 import type { WorldStore } from "../world/store";
-import { buildWorldGroupId } from "../world/ids";
+import type { WorldFileStore } from "../world/file-store";
+import { buildWorldGroupId, parseWorldGroup } from "../world/ids";
+import { lookupCharacterSheetValue } from "../world/character-sheet";
 import { EchoTracker } from "./echo";
 import { isSafePathSegment } from "../utils/path";
 import type { SessionBuffer } from "../session/buffer";
+import type { SessionCancelBus } from "../session/cancel";
 import { feishuLogJson } from "../feishu/webhook";
 import {
   type TelemetrySpanInput,
@@ -24,18 +27,42 @@ import {
   setTraceIdOnExtras,
   withTelemetrySpan,
 } from "../telemetry";
+import { incrementCounter } from "../metrics";
 import { redactSensitiveText } from "../utils/redact";
 import {
+  applyBudgetStatus,
+  applyRateLimitDecision,
   authorizeDispatch,
   type DispatchEnvelope,
   parseDispatchEnvelope,
   planEnqueue,
+  planRateLimitBuckets,
   routeDispatch,
   type DispatchRoutingPlan,
   type ManagementCommand,
+  type RouterSnapshot,
 } from "./dispatch-plan";
+import { DAY_MS, MINUTE_MS, type RateLimiter } from "./rate-limit";
+import type { UsageStore } from "../session/usage";
+import { hasBudgetLimits, loadBudgetStatus } from "../session/budget";
+import {
+  buildBudgetRemainingText,
+  buildDiceOutcomeLabel,
+  buildDiceSheetValueMissingReply,
+  buildSessionOverBudgetReply,
+  buildSessionRateLimitedReply,
+  buildUsageReport,
+} from "../texts";
 import { extractSessionKey } from "./trigger";
-import { formatDiceResult, rollDice } from "../utils/dice";
+import {
+  type DiceCommand,
+  formatDiceExpression,
+  formatDiceResult,
+  listDiceReferences,
+  resolveDiceReferences,
+  rollDiceCommand,
+} from "../utils/dice";
+import type { UserStateStore } from "../user/state-store";
 import {
   hasDiscordInteractionId,
   isGroupAdminUser,
@@ -56,13 +83,24 @@ export interface MessageDispatcherOptions {
   sessionQueue: BullmqSessionQueue;
   bufferStore: SessionBuffer;
   echoTracker: EchoTracker;
+  cancelBus?: SessionCancelBus;
+  rateLimiter?: RateLimiter;
+  usageStore?: UsageStore;
   botMessageStore?: BotMessageStore;
   groupRouteStore?: GroupRouteStore;
   worldStore?: WorldStore;
+  /** Character sheets for `.ra`/`.rd` checks that name a sheet value. */
+  worldFiles?: WorldFileStore;
+  userState?: UserStateStore;
   logger: Logger;
   forceGroupId?: string;
+  /** How long `/stop` waits for the session to leave `running`. */
+  stopConfirmTimeoutMs?: number;
 }
 
+const DEFAULT_STOP_CONFIRM_TIMEOUT_MS = 8_000;
+const STOP_CONFIRM_POLL_MS = 250;
+
 type MessageDispatchSpan = <T>(
   step: string,
   input: {
@@ -89,11 +127,17 @@ export class MessageDispatcher {
   private sessionQueue: BullmqSessionQueue;
   private bufferStore: SessionBuffer;
   private echoTracker: EchoTracker;
+  private cancelBus?: SessionCancelBus;
+  private rateLimiter?: RateLimiter;
+  private usageStore?: UsageStore;
   private botMessageStore?: BotMessageStore;
   private groupRouteStore?: GroupRouteStore;
   private worldStore?: WorldStore;
+  private worldFiles?: WorldFileStore;
+  private userState?: UserStateStore;
   private logger: Logger;
   private forceGroupId?: string;
+  private stopConfirmTimeoutMs: number;
 
   constructor(options: MessageDispatcherOptions) {
     this.adapter = options.adapter;
@@ -103,10 +147,17 @@ export class MessageDispatcher {
     this.sessionQueue = options.sessionQueue;
     this.bufferStore = options.bufferStore;
     this.echoTracker = options.echoTracker;
+    this.cancelBus = options.cancelBus;
+    this.rateLimiter = options.rateLimiter;
+    this.usageStore = options.usageStore;
     this.botMessageStore = options.botMessageStore;
     this.groupRouteStore = options.groupRouteStore;
     this.worldStore = options.worldStore;
+    this.worldFiles = options.worldFiles;
+    this.userState = options.userState;
     this.logger = options.logger;
+    this.stopConfirmTimeoutMs =
+      options.stopConfirmTimeoutMs ?? DEFAULT_STOP_CONFIRM_TIMEOUT_MS;
     const forceGroupId = options.forceGroupId?.trim();
     this.forceGroupId = forceGroupId ? forceGroupId : undefined;
   }
@@ -316,13 +367,26 @@ export class MessageDispatcher {
       envelope,
     });
 
-    const routing = routeDispatch({
+    const planned = routeDispatch({
       message: pendingRouting.message,
       groupConfig: auth.groupConfig,
       routerSnapshot,
       botId,
       forceEnqueue: forceEnqueue || pendingRouting.forceEnqueue,
     });
+    const budgeted = await this.applyBudget({
+      runtime,
+      envelope,
+      groupConfig: auth.groupConfig,
+      routing: planned,
+    });
+    const routing = await this.applyRateLimit({
+      runtime,
+      envelope,
+      groupConfig: auth.groupConfig,
+      routerSnapshot,
+      routing: budgeted,
+    });
 
     await this.handleDispatchRouting({
       runtime,
@@ -332,6 +396,82 @@ export class MessageDispatcher {
     });
   }
 
+  private async applyBudget(input: {
+    runtime: MessageDispatchRuntime;
+    envelope: DispatchEnvelope;
+    groupConfig: GroupConfig;
+    routing: DispatchRoutingPlan;
+  }): Promise<DispatchRoutingPlan> {
+    const usageStore = this.usageStore;
+    const budget = input.groupConfig.budget;
+    if (
+      !usageStore ||
+      input.routing.kind !== "enqueue" ||
+      !hasBudgetLimits(budget)
+    ) {
+      return input.routing;
+    }
+    const status = await input.runtime.span(
+      "budget_check",
+      {
+        message: {
+          ...input.runtime.baseSpanMessage,
+          botId: input.envelope.botId,
+          groupId: input.envelope.groupId,
+        },
+      },
+      async () =>
+        loadBudgetStatus(usageStore, input.envelope.groupId, budget).catch(
+          (err) => {
+            input.runtime.log.warn({ err }, "Budget check failed, allowing");
+            return null;
+          },
+        ),
+    );
+    return applyBudgetStatus({
+      routing: input.routing,
+      groupConfig: input.groupConfig,
+      status,
+      isAdmin: isGroupAdminUser(input.runtime.message, input.groupConfig),
+    });
+  }
+
+  private async applyRateLimit(input: {
+    runtime: MessageDispatchRuntime;
+    envelope: DispatchEnvelope;
+    groupConfig: GroupConfig;
+    routerSnapshot: RouterSnapshot | null | undefined;
+    routing: DispatchRoutingPlan;
+  }): Promise<DispatchRoutingPlan> {
+    const rateLimiter = this.rateLimiter;
+    if (!rateLimiter) {
+      return input.routing;
+    }
+    const buckets = planRateLimitBuckets({
+      routing: input.routing,
+      envelope: input.envelope,
+      groupConfig: input.groupConfig,
+      routerSnapshot: input.routerSnapshot,
+      isAdmin: isGroupAdminUser(input.runtime.message, input.groupConfig),
+    });
+    if (buckets.length === 0) {
+      return input.routing;
+    }
+    const decision = await input.runtime.span(
+      "rate_limit",
+      {
+        message: {
+          ...input.runtime.baseSpanMessage,
+          botId: input.envelope.botId,
+          groupId: input.envelope.groupId,
+        },
+        attrs: { scopes: buckets.map((bucket) => bucket.scope).join(",") },
+      },
+      async () => rateLimiter.consume(buckets),
+    );
+    return applyRateLimitDecision(input.routing, decision);
+  }
+
   private async resolvePendingUserInputRouting(input: {
     message: SessionEvent;
     envelope: DispatchEnvelope;
@@ -381,6 +521,7 @@ export class MessageDispatcher {
     groupConfig: GroupConfig;
     routing: DispatchRoutingPlan;
   }): Promise<void> {
+    incrementCounter("dispatch_plans_total", { kind: input.routing.kind });
     switch (input.routing.kind) {
       case "passive": {
         await this.handlePassiveRouting({
@@ -423,6 +564,22 @@ export class MessageDispatcher {
         });
         return;
       }
+      case "limited": {
+        await this.handleLimitedRouting({
+          runtime: input.runtime,
+          envelope: input.envelope,
+          routing: input.routing,
+        });
+        return;
+      }
+      case "over_budget": {
+        await this.handleOverBudgetRouting({
+          runtime: input.runtime,
+          envelope: input.envelope,
+          routing: input.routing,
+        });
+        return;
+      }
     }
   }
 
@@ -485,6 +642,90 @@ export class MessageDispatcher {
     }
   }
 
+  private async handleLimitedRouting(input: {
+    runtime: MessageDispatchRuntime;
+    envelope: DispatchEnvelope;
+    routing: Extract<DispatchRoutingPlan, { kind: "limited" }>;
+  }): Promise<void> {
+    const message = input.runtime.message;
+    input.runtime.log.info(
+      {
+        id: message.messageId,
+        channelId: message.channelId,
+        userId: message.userId,
+        botId: input.envelope.botId,
+        groupId: input.envelope.groupId,
+        scope: input.routing.scope,
+        retryAfterMs: input.routing.retryAfterMs,
+        contentHash: input.routing.contentHash,
+      },
+      "Message rate limited",
+    );
+
+    const notify = await this.rateLimiter?.shouldNotify(
+      `${input.envelope.botId}:${input.envelope.groupId}:${input.envelope.userId}`,
+      input.routing.retryAfterMs,
+    );
+    if (!notify) {
+      return;
+    }
+    const language = this.userState
+      ? await this.userState.getLanguage(message.userId).catch(() => null)
+      : null;
+    await this.adapter.sendMessage(
+      message,
+      buildSessionRateLimitedReply(
+        {
+          scope: input.routing.scope,
+          retryAfterMs: input.routing.retryAfterMs,
+        },
+        language,
+      ),
+    );
+  }
+
+  private async handleOverBudgetRouting(input: {
+    runtime: MessageDispatchRuntime;
+    envelope: DispatchEnvelope;
+    routing: Extract<DispatchRoutingPlan, { kind: "over_budget" }>;
+  }): Promise<void> {
+    const message = input.runtime.message;
+    input.runtime.log.info(
+      {
+        id: message.messageId,
+        channelId: message.channelId,
+        userId: message.userId,
+        botId: input.envelope.botId,
+        groupId: input.envelope.groupId,
+        window: input.routing.window,
+        policy: input.routing.policy,
+        contentHash: input.routing.contentHash,
+      },
+      "Message over budget",
+    );
+
+    // Without a rate limiter there is no notice dedupe; reply every time.
+    const notify = this.rateLimiter
+      ? await this.rateLimiter.shouldNotify(
+          `budget:${input.envelope.botId}:${input.envelope.groupId}:${input.envelope.userId}`,
+          10 * MINUTE_MS,
+        )
+      : true;
+    if (!notify) {
+      return;
+    }
+    const language = this.userState
+      ? await this.userState.getLanguage(message.userId).catch(() => null)
+      : null;
+    await this.adapter.sendMessage(
+      message,
+      buildSessionOverBudgetReply(
+        { window: input.routing.window, policy: input.routing.policy },
+        language,
+      ),
+    );
+  }
+
   private async handleDiceRouting(input: {
     runtime: MessageDispatchRuntime;
     envelope: DispatchEnvelope;
@@ -503,8 +744,32 @@ export class MessageDispatcher {
       "Dice roll requested",
     );
 
-    const result = rollDice(input.routing.dice);
-    const output = formatDiceResult(input.routing.dice, result);
+    const message = input.runtime.message;
+    const language = this.userState
+      ? await this.userState.getLanguage(message.userId).catch(() => null)
+      : null;
+    const resolved = await this.resolveDiceSheetValues(
+      input.envelope.groupId,
+      message.userId,
+      input.routing.dice,
+    ).catch((err) => {
+      input.runtime.log.warn({ err }, "Failed to read character sheet");
+      return {
+        command: input.routing.dice,
+        missing: listDiceReferences(input.routing.dice),
+      };
+    });
+    if (resolved.missing.length > 0) {
+      await this.adapter.sendMessage(
+        message,
+        buildDiceSheetValueMissingReply(resolved.missing, language),
+      );
+      return;
+    }
+    const rolled = rollDiceCommand(resolved.command);
+    const output = formatDiceResult(rolled, (outcome) =>
+      buildDiceOutcomeLabel(outcome, language),
+    );
 
     await input.runtime.span(
       "dice_send",
@@ -516,14 +781,66 @@ export class MessageDispatcher {
           key: input.routing.key,
         },
         attrs: {
-          dice: `${input.routing.dice.count}d${input.routing.dice.sides}`,
-          total: result.total,
+          dice:
+            rolled.type === "check"
+              ? `check:${rolled.check.value}`
+              : formatDiceExpression(rolled.expression),
+          total:
+            rolled.type === "check" ? rolled.result.roll : rolled.result.total,
         },
       },
       async () => {
-        await this.adapter.sendMessage(input.runtime.message, output);
+        await this.adapter.sendMessage(message, output);
       },
     );
+
+    if (this.userState && getConfig().DICE_ROLL_CONTEXT_ENABLED) {
+      await this.userState
+        .appendCommandTranscript({
+          userId: message.userId,
+          command: input.routing.session.content,
+          result: output,
+          platform: message.platform,
+          guildId: message.guildId,
+          channelId: message.channelId,
+        })
+        .catch((err) => {
+          input.runtime.log.warn({ err }, "Failed to record dice roll");
+        });
+    }
+  }
+
+  /**
+   * Fills sheet references from the user's active character in a world
+   * play channel; outside one, every reference is missing.
+   */
+  private async resolveDiceSheetValues(
+    groupId: string,
+    userId: string,
+    dice: DiceCommand,
+  ): Promise<{ command: DiceCommand; missing: string[] }> {
+    const references = listDiceReferences(dice);
+    if (references.length === 0) {
+      return { command: dice, missing: [] };
+    }
+    const world = parseWorldGroup(groupId);
+    const characterId =
+      world?.kind === "play" && this.worldStore
+        ? await this.worldStore.getActiveCharacterId({
+            worldId: world.worldId,
+            userId,
+          })
+        : null;
+    const loaded =
+      world && characterId && this.worldFiles
+        ? await this.worldFiles.readCharacterSheet(world.worldId, characterId)
+        : null;
+    if (!loaded) {
+      return { command: dice, missing: references };
+    }
+    return resolveDiceReferences(dice, (name) =>
+      lookupCharacterSheetValue(loaded.schema, loaded.sheet, name),
+    );
   }
 
   private async handleCommandRouting(input: {
@@ -716,6 +1033,16 @@ export class MessageDispatcher {
         });
         return;
       }
+      case "stop": {
+        await this.handleStopCommand({
+          message,
+          groupId,
+          botId,
+          key,
+          groupConfig,
+        });
+        return;
+      }
       case "model": {
         await this.handleModelCommand({
           message,
@@ -753,9 +1080,53 @@ export class MessageDispatcher {
         });
         return;
       }
+      case "usage": {
+        await this.handleUsageCommand({
+          message,
+          groupId,
+          groupConfig,
+          days: command.days,
+        });
+        return;
+      }
     }
   }
 
+  private async handleUsageCommand(input: {
+    message: SessionEvent;
+    groupId: string;
+    groupConfig: GroupConfig;
+    days: number;
+  }): Promise<void> {
+    const { message, groupId, groupConfig, days } = input;
+    if (!this.usageStore) {
+      await this.adapter.sendMessage(message, "当前部署未启用用量统计。");
+      return;
+    }
+    if (!message.guildId) {
+      await this.adapter.sendMessage(message, "该指令仅支持在群内使用。");
+      return;
+    }
+    if (!isGroupAdminUser(message, groupConfig)) {
+      await this.adapter.sendMessage(message, "无权限：仅管理员可查看用量。");
+      return;
+    }
+
+    const now = Date.now();
+    const summary = await this.usageStore.summarize({
+      from: new Date(now - days * DAY_MS).toISOString(),
+      to: new Date(now).toISOString(),
+      groupId,
+    });
+    const language = this.userState
+      ? await this.userState.getLanguage(message.userId).catch(() => null)
+      : null;
+    await this.adapter.sendMessage(
+      message,
+      buildUsageReport({ days, summary }, language),
+    );
+  }
+
   private async handlePushCommand(input: {
     message: SessionEvent;
     groupId: string;
@@ -916,6 +1287,147 @@ export class MessageDispatcher {
     await this.adapter.sendMessage(message, "登录态已从当前会话移除。");
   }
 
+  private async handleStopCommand(input: {
+    message: SessionEvent;
+    groupId: string;
+    botId: string;
+    key: number;
+    groupConfig: GroupConfig;
+  }): Promise<void> {
+    const { message, groupId, botId, key, groupConfig } = input;
+    if (!this.cancelBus) {
+      await this.adapter.sendMessage(message, "当前部署未启用停止指令。");
+      return;
+    }
+
+    const stopTarget = resolveResetTargetUserId(message);
+    if (stopTarget.error) {
+      await this.adapter.sendMessage(message, stopTarget.error);
+      return;
+    }
+    const targetUserId = stopTarget.targetUserId;
+    if (!isSafePathSegment(targetUserId)) {
+      await this.adapter.sendMessage(message, "目标用户不合法，无法停止。");
+      return;
+    }
+    if (
+      targetUserId !== message.userId &&
+      !isGroupAdminUser(message, groupConfig)
+    ) {
+      await this.adapter.sendMessage(message, "无权限：你只能停止自己的会话。");
+      return;
+    }
+
+    const sessionId = await this.sessionRepository.resolveActiveSessionId(
+      botId,
+      groupId,
+      targetUserId,
+      key,
+    );
+    const existing = await this.sessionRepository.loadSession(
+      botId,
+      groupId,
+      targetUserId,
+      sessionId,
+    );
+    if (!existing || existing.meta.status !== "running") {
+      await this.adapter.sendMessage(message, "当前没有正在进行的回复。");
+      return;
+    }
+
+    // The worker holding the session gate aborts the run and confirms.
+    const receivers = await this.cancelBus.requestCancel({
+      key: { botId, groupId, sessionId },
+      requestedBy: message.userId,
+    });
+    this.logger.info(
+      {
+        botId,
+        groupId,
+        issuerUserId: message.userId,
+        targetUserId,
+        key,
+        sessionId,
+        receivers,
+      },
+      "Session stop requested",
+    );
+    if (receivers === 0) {
+      await this.adapter.sendMessage(
+        message,
+        "停止失败：没有在线的 worker 接收指令，请稍后重试。",
+      );
+      return;
+    }
+
+    await this.adapter.sendMessage(
+      message,
+      "已发送停止请求，正在停止本次回复。",
+    );
+
+    // A receiver only means some worker is subscribed; the one that held
+    // the job may have crashed, leaving a stale `running` status behind.
+    // Watched in the background so the event handler returns right away.
+    void this.followUpSessionStop(message, {
+      botId,
+      groupId,
+      userId: targetUserId,
+      sessionId,
+    }).catch((err) => {
+      this.logger.warn(
+        { err, botId, groupId, targetUserId, sessionId },
+        "Failed to follow up on session stop",
+      );
+    });
+  }
+
+  private async followUpSessionStop(
+    message: SessionEvent,
+    input: {
+      botId: string;
+      groupId: string;
+      userId: string;
+      sessionId: string;
+    },
+  ): Promise<void> {
+    if (await this.waitForSessionToStop(input)) {
+      return;
+    }
+    this.logger.warn(
+      {
+        botId: input.botId,
+        groupId: input.groupId,
+        targetUserId: input.userId,
+        sessionId: input.sessionId,
+      },
+      "Session stop not confirmed",
+    );
+    await this.adapter.sendMessage(
+      message,
+      "暂未收到停止确认：该回复可能已中断（例如 worker 重启），如仍无响应可直接发送新消息或重置会话。",
+    );
+  }
+
+  /** The worker confirms in chat itself; this only detects silence. */
+  private async waitForSessionToStop(input: {
+    botId: string;
+    groupId: string;
+    userId: string;
+    sessionId: string;
+  }): Promise<boolean> {
+    const deadline = Date.now() + this.stopConfirmTimeoutMs;
+    while (Date.now() < deadline) {
+      await new Promise((resolve) => setTimeout(resolve, STOP_CONFIRM_POLL_MS));
+      const session = await this.sessionRepository
+        .loadSession(input.botId, input.groupId, input.userId, input.sessionId)
+        .catch(() => null);
+      if (!session || session.meta.status !== "running") {
+        return true;
+      }
+    }
+    return false;
+  }
+
   private async handleResetCommand(input: {
     message: SessionEvent;
     groupId: string;
@@ -1133,10 +1645,21 @@ export class MessageDispatcher {
     }
 
     if (model === "") {
-      await this.adapter.sendMessage(
-        message,
+      const lines = [
+        `当前模型：${groupConfig.model ?? "(默认)"}`,
         "用法：`/model <name>` 或 `/model default`（清除群配置 model 覆盖）。",
-      );
+      ];
+      const budgetStatus = this.usageStore
+        ? await loadBudgetStatus(
+            this.usageStore,
+            groupId,
+            groupConfig.budget,
+          ).catch(() => null)
+        : null;
+      if (budgetStatus) {
+        lines.push(buildBudgetRemainingText(budgetStatus, "zh"));
+      }
+      await this.adapter.sendMessage(message, lines.join("\n"));
       return;
     }
 
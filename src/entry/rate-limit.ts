@@ -0,0 +1,251 @@
+import IORedis from "ioredis";
+import type { Logger } from "pino";
+import type { RateLimitConfig } from "../types/group";
+
+export type RateLimitScope =
+  | "user_minute"
+  | "group_minute"
+  | "user_day"
+  | "group_day";
+
+/** Effective limits after fallback; null means unlimited. */
+export type RateLimitPolicy = {
+  userPerMinute: number | null;
+  groupPerMinute: number | null;
+  userPerDay: number | null;
+  groupPerDay: number | null;
+};
+
+export type RateLimitBucket = {
+  scope: RateLimitScope;
+  key: string;
+  capacity: number;
+  windowMs: number;
+};
+
+export type RateLimitDecision =
+  | { allowed: true }
+  | { allowed: false; scope: RateLimitScope; retryAfterMs: number };
+
+export const MINUTE_MS = 60_000;
+export const DAY_MS = 24 * 60 * MINUTE_MS;
+
+/**
+ * Field-wise fallback bot > group > global, matching echoRate.
+ * 0 explicitly disables a limit so it can override an inherited value.
+ */
+export function resolveRateLimitPolicy(
+  botRateLimit: Partial<RateLimitConfig> | null | undefined,
+  groupRateLimit: Partial<RateLimitConfig> | null | undefined,
+  globalRateLimit: Partial<RateLimitConfig> | null | undefined,
+): RateLimitPolicy {
+  const pick = (field: keyof RateLimitConfig): number | null => {
+    const value =
+      botRateLimit?.[field] ??
+      groupRateLimit?.[field] ??
+      globalRateLimit?.[field] ??
+      null;
+    return value && value > 0 ? value : null;
+  };
+  return {
+    userPerMinute: pick("userPerMinute"),
+    groupPerMinute: pick("groupPerMinute"),
+    userPerDay: pick("userPerDay"),
+    groupPerDay: pick("groupPerDay"),
+  };
+}
+
+interface RateLimitStore {
+  /** Take one token from every bucket, or none if any bucket is empty. */
+  consume(
+    buckets: RateLimitBucket[],
+    nowMs: number,
+  ): Promise<RateLimitDecision>;
+  /** Returns true for the first caller within ttlMs. */
+  claimNotice(key: string, ttlMs: number): Promise<boolean>;
+  close(): Promise<void>;
+}
+
+// KEYS: bucket keys. ARGV: now, then capacity/windowMs pairs per key.
+// Returns {0, 0} when allowed, otherwise {deniedIndex (1-based), retryAfterMs}.
+const CONSUME_SCRIPT = `
+local now = tonumber(ARGV[1])
+local levels = {}
+for i = 1, #KEYS do
+  local capacity = tonumber(ARGV[i * 2])
+  local window = tonumber(ARGV[i * 2 + 1])
+  local state = redis.call("HMGET", KEYS[i], "tokens", "ts")
+  local tokens = tonumber(state[1])
+  local ts = tonumber(state[2])
+  if tokens == nil or ts == nil then
+    tokens = capacity
+    ts = now
+  end
+  tokens = math.min(capacity, tokens + math.max(0, now - ts) * capacity / window)
+  if tokens < 1 then
+    return {i, math.ceil((1 - tokens) * window / capacity)}
+  end
+  levels[i] = tokens
+end
+for i = 1, #KEYS do
+  redis.call("HSET", KEYS[i], "tokens", tostring(levels[i] - 1), "ts", tostring(now))
+  redis.call("PEXPIRE", KEYS[i], tonumber(ARGV[i * 2 + 1]))
+end
+return {0, 0}
+`;
+
+class RedisRateLimitStore implements RateLimitStore {
+  private redis: IORedis;
+
+  constructor(redisUrl: string) {
+    this.redis = new IORedis(redisUrl, { maxRetriesPerRequest: null });
+  }
+
+  async consume(
+    buckets: RateLimitBucket[],
+    nowMs: number,
+  ): Promise<RateLimitDecision> {
+    const args = [String(nowMs)];
+    for (const bucket of buckets) {
+      args.push(String(bucket.capacity), String(bucket.windowMs));
+    }
+    const [denied, retryAfterMs] = (await this.redis.eval(
+      CONSUME_SCRIPT,
+      buckets.length,
+      ...buckets.map((bucket) => bucket.key),
+      ...args,
+    )) as [number, number];
+    const bucket = denied > 0 ? buckets[denied - 1] : undefined;
+    if (!bucket) {
+      return { allowed: true };
+    }
+    return { allowed: false, scope: bucket.scope, retryAfterMs };
+  }
+
+  async claimNotice(key: string, ttlMs: number): Promise<boolean> {
+    const result = await this.redis.set(key, "1", "PX", ttlMs, "NX");
+    return result === "OK";
+  }
+
+  async close(): Promise<void> {
+    await this.redis.quit();
+  }
+}
+
+/** Same token-bucket semantics as the Redis script, for tests and local runs. */
+export class InMemoryRateLimitStore implements RateLimitStore {
+  private buckets = new Map<string, { tokens: number; ts: number }>();
+  private notices = new Map<string, number>();
+
+  async consume(
+    buckets: RateLimitBucket[],
+    nowMs: number,
+  ): Promise<RateLimitDecision> {
+    const levels: number[] = [];
+    for (const bucket of buckets) {
+      const state = this.buckets.get(bucket.key) ?? {
+        tokens: bucket.capacity,
+        ts: nowMs,
+      };
+      const tokens = Math.min(
+        bucket.capacity,
+        state.tokens +
+          (Math.max(0, nowMs - state.ts) * bucket.capacity) / bucket.windowMs,
+      );
+      if (tokens < 1) {
+        return {
+          allowed: false,
+          scope: bucket.scope,
+          retryAfterMs: Math.ceil(
+            ((1 - tokens) * bucket.windowMs) / bucket.capacity,
+          ),
+        };
+      }
+      levels.push(tokens);
+    }
+    buckets.forEach((bucket, index) => {
+      this.buckets.set(bucket.key, {
+        tokens: (levels[index] ?? 1) - 1,
+        ts: nowMs,
+      });
+    });
+    return { allowed: true };
+  }
+
+  async claimNotice(key: string, ttlMs: number): Promise<boolean> {
+    const now = Date.now();
+    const expiresAt = this.notices.get(key);
+    if (expiresAt !== undefined && expiresAt > now) {
+      return false;
+    }
+    this.notices.set(key, now + ttlMs);
+    return true;
+  }
+
+  async close(): Promise<void> {}
+}
+
+export interface RateLimiterOptions {
+  redisUrl?: string;
+  store?: RateLimitStore;
+  keyPrefix?: string;
+  now?: () => number;
+  logger?: Logger;
+}
+
+export class RateLimiter {
+  private store: RateLimitStore;
+  private keyPrefix: string;
+  private now: () => number;
+  private logger?: Logger;
+
+  constructor(options: RateLimiterOptions = {}) {
+    if (options.store) {
+      this.store = options.store;
+    } else if (options.redisUrl) {
+      this.store = new RedisRateLimitStore(options.redisUrl);
+    } else {
+      throw new Error("RateLimiter requires redisUrl or store");
+    }
+    this.keyPrefix = options.keyPrefix ?? "ratelimit";
+    this.now = options.now ?? Date.now;
+    this.logger = options.logger;
+  }
+
+  /** Fails open: a Redis outage must not stop the bot from replying. */
+  async consume(buckets: RateLimitBucket[]): Promise<RateLimitDecision> {
+    if (buckets.length === 0) {
+      return { allowed: true };
+    }
+    try {
+      return await this.store.consume(
+        buckets.map((bucket) => ({
+          ...bucket,
+          key: `${this.keyPrefix}:${bucket.key}`,
+        })),
+        this.now(),
+      );
+    } catch (err) {
+      this.logger?.warn({ err }, "Rate limit check failed, allowing message");
+      return { allowed: true };
+    }
+  }
+
+  /** Whether to send a cooldown reply; at most one per user per window. */
+  async shouldNotify(key: string, retryAfterMs: number): Promise<boolean> {
+    const ttlMs = Math.min(Math.max(retryAfterMs, 1_000), 10 * MINUTE_MS);
+    try {
+      return await this.store.claimNotice(
+        `${this.keyPrefix}:notice:${key}`,
+        ttlMs,
+      );
+    } catch (err) {
+      this.logger?.warn({ err }, "Failed to claim rate limit notice");
+      return false;
+    }
+  }
+
+  async close(): Promise<void> {
+    await this.store.close();
+  }
+}
@@ -0,0 +1,184 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import pino from "pino";
+
+import { GroupStore } from "../../store/group";
+import { handleHttpRequest, type HttpRequestHandlerContext } from "../server";
+
+describe("group admin API", () => {
+  let dataDir: string;
+  let groupStore: GroupStore;
+  let reloaded: string[];
+  let context: HttpRequestHandlerContext;
+
+  const send = (
+    method: string,
+    pathname: string,
+    body?: unknown,
+    token: string | null = "secret-token",
+  ) =>
+    handleHttpRequest(
+      new Request(`http://test${pathname}`, {
+        method,
+        headers: {
+          ...(token ? { Authorization: `Bearer ${token}` } : {}),
+          ...(body === undefined ? {} : { "Content-Type": "application/json" }),
+        },
+        body:
+          body === undefined
+            ? undefined
+            : typeof body === "string"
+              ? body
+              : JSON.stringify(body),
+      }),
+      context,
+    );
+
+  beforeEach(async () => {
+    const logger = pino({ level: "silent" });
+    dataDir = await mkdtemp(path.join(os.tmpdir(), "group-admin-"));
+    groupStore = new GroupStore({ dataDir, logger });
+    await groupStore.ensureGroupDir("g1");
+    await groupStore.ensureGroupDir("g2");
+    await groupStore.ensureGroupDir("g3");
+    reloaded = [];
+    groupStore.onReload((groupId) => {
+      reloaded.push(groupId);
+    });
+    context = {
+      logger,
+      startedAt: 0,
+      version: "test",
+      apiToken: "secret-token",
+      dataRoot: dataDir,
+      groupStore,
+    };
+  });
+
+  afterEach(async () => {
+    await rm(dataDir, { recursive: true, force: true });
+  });
+
+  test("requires API_TOKEN and a valid bearer token", async () => {
+    expect((await send("GET", "/api/v1/groups", undefined, null)).status).toBe(
+      401,
+    );
+    expect(
+      (await send("GET", "/api/v1/groups/g1/config", undefined, "wrong"))
+        .status,
+    ).toBe(401);
+
+    context = { ...context, apiToken: null };
+    expect((await send("GET", "/api/v1/groups")).status).toBe(404);
+  });
+
+  test("lists groups with offset pagination", async () => {
+    const first = await send("GET", "/api/v1/groups?limit=2");
+    expect(first.status).toBe(200);
+    expect(await first.json()).toEqual({
+      groups: [
+        { id: "g1", enabled: true, triggerMode: "keyword" },
+        { id: "g2", enabled: true, triggerMode: "keyword" },
+      ],
+      total: 3,
+      offset: 0,
+      limit: 2,
+      nextOffset: 2,
+    });
+    const second = (await (
+      await send("GET", "/api/v1/groups?offset=2&limit=2")
+    ).json()) as { groups: Array<{ id: string }>; nextOffset: number | null };
+    expect(second.groups.map((group) => group.id)).toEqual(["g3"]);
+    expect(second.nextOffset).toBeNull();
+
+    expect((await send("GET", "/api/v1/groups?limit=0")).status).toBe(400);
+    expect((await send("POST", "/api/v1/groups")).status).toBe(405);
+  });
+
+  test("replaces and patches config.yaml, then reloads the group", async () => {
+    const current = (await (
+      await send("GET", "/api/v1/groups/g1/config")
+    ).json()) as { config: Record<string, unknown> };
+    expect(current.config.triggerMode).toBe("keyword");
+
+    const put = await send("PUT", "/api/v1/groups/g1/config", {
+      ...current.config,
+      triggerMode: "mention",
+      keywords: ["小助手"],
+    });
+    expect(put.status).toBe(200);
+    expect(reloaded).toEqual(["g1"]);
+    expect(
+      await readFile(path.join(dataDir, "g1", "config.yaml"), "utf8"),
+    ).toContain("triggerMode: mention");
+
+    const patch = await send("PATCH", "/api/v1/groups/g1/config", {
+      keywords: ["bot"],
+      push: { enabled: true },
+    });
+    expect(patch.status).toBe(200);
+    const patched = (await patch.json()) as {
+      config: {
+        triggerMode: string;
+        keywords: string[];
+        push: { enabled: boolean; time: string };
+      };
+    };
+    expect(patched.config.triggerMode).toBe("mention");
+    expect(patched.config.keywords).toEqual(["bot"]);
+    expect(patched.config.push).toMatchObject({ enabled: true, time: "09:00" });
+    expect((await groupStore.getGroup("g1"))?.config.keywords).toEqual(["bot"]);
+
+    const invalid = await send("PATCH", "/api/v1/groups/g1/config", {
+      triggerMode: "always",
+    });
+    expect(invalid.status).toBe(400);
+    expect(await invalid.text()).toStartWith("Invalid config: triggerMode:");
+    expect(
+      (await send("PUT", "/api/v1/groups/g1/config", "not json")).status,
+    ).toBe(400);
+    expect(
+      (await send("PUT", "/api/v1/groups/missing/config", current.config))
+        .status,
+    ).toBe(404);
+    expect((await send("DELETE", "/api/v1/groups/g1/config")).status).toBe(405);
+  });
+
+  test("reads and writes the agent prompt per language", async () => {
+    const put = await send("PUT", "/api/v1/groups/g2/agent?lang=en", {
+      frontmatter: { name: "helper" },
+      content: "You are a helpful assistant.",
+    });
+    expect(put.status).toBe(200);
+    expect(await put.json()).toEqual({
+      groupId: "g2",
+      language: "en",
+      frontmatter: { name: "helper" },
+      content: "You are a helpful assistant.",
+    });
+    expect(reloaded).toEqual(["g2"]);
+    const raw = await readFile(path.join(dataDir, "g2", "agent.en.md"), "utf8");
+    expect(raw).toStartWith("---\nname: helper\n---\n");
+
+    await send("PUT", "/api/v1/groups/g2/agent", { content: "你是助手。" });
+    const zh = (await (
+      await send("GET", "/api/v1/groups/g2/agent")
+    ).json()) as { language: string; content: string };
+    expect(zh).toMatchObject({ language: "zh", content: "你是助手。" });
+    expect(await readFile(path.join(dataDir, "g2", "agent.md"), "utf8")).toBe(
+      "你是助手。\n",
+    );
+
+    expect((await send("GET", "/api/v1/groups/g2/agent?lang=fr")).status).toBe(
+      400,
+    );
+    expect(
+      (await send("PUT", "/api/v1/groups/g2/agent", { content: 42 })).status,
+    ).toBe(400);
+    expect((await send("GET", "/api/v1/groups/missing/agent")).status).toBe(
+      404,
+    );
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, expect, test } from "bun:test";
+import pino from "pino";
+
+import type { Bot } from "../../types/platform";
+import { createDependencyHealthChecks } from "../health";
+import { handleHttpRequest, type HttpRequestHandlerContext } from "../server";
+
+type ProbeBody = {
+  status: string;
+  checks: Record<string, { status: string; latencyMs: number; error?: string }>;
+};
+
+describe("health probes", () => {
+  const buildContext = (
+    options: Parameters<typeof createDependencyHealthChecks>[0],
+  ): HttpRequestHandlerContext => ({
+    logger: pino({ level: "silent" }),
+    startedAt: 0,
+    version: "test",
+    apiToken: null,
+    dataRoot: "/data",
+    healthChecks: createDependencyHealthChecks(options).checks,
+  });
+  const probe = async (
+    pathname: string,
+    context: HttpRequestHandlerContext,
+  ): Promise<{ status: number; body: ProbeBody }> => {
+    const response = await handleHttpRequest(
+      new Request(`http://test${pathname}`),
+      context,
+    );
+    return {
+      status: response.status,
+      body: (await response.json()) as ProbeBody,
+    };
+  };
+
+  test("reports each dependency with its latency", async () => {
+    const signals: AbortSignal[] = [];
+    const context = buildContext({
+      pingRedis: async () => undefined,
+      opencodeClient: {
+        ping: async ({ signal } = {}) => {
+          if (signal) {
+            signals.push(signal);
+          }
+        },
+      },
+      worker: { isRunning: () => true },
+      adapter: {
+        getPlatformStatuses: () => ({ discord: "connected", qq: "connected" }),
+      },
+    });
+
+    const ready = await probe("/health/ready", context);
+    expect(ready.status).toBe(200);
+    expect(ready.body.status).toBe("ok");
+    expect(Object.keys(ready.body.checks)).toEqual([
+      "redis",
+      "opencode",
+      "worker",
+      "platforms",
+    ]);
+    expect(ready.body.checks.redis).toMatchObject({ status: "ok" });
+    expect(typeof ready.body.checks.redis?.latencyMs).toBe("number");
+    expect(signals).toHaveLength(1);
+
+    const live = await probe("/health/live", context);
+    expect(live.status).toBe(200);
+    expect(Object.keys(live.body.checks)).toEqual(["worker"]);
+  });
+
+  test("returns 503 with the failing dependencies", async () => {
+    let status: Bot["status"] = "disconnected";
+    const context = buildContext({
+      pingRedis: async () => {
+        throw new Error("connect ECONNREFUSED redis:6379");
+      },
+      worker: { isRunning: () => false },
+      adapter: { getPlatformStatuses: () => ({ discord: status }) },
+    });
+
+    const ready = await probe("/health/ready", context);
+    expect(ready.status).toBe(503);
+    expect(ready.body.status).toBe("unavailable");
+    expect(ready.body.checks).toMatchObject({
+      redis: { status: "error", error: "connect ECONNREFUSED redis:6379" },
+      worker: { status: "error", error: "BullMQ worker is not running" },
+      platforms: { status: "error", error: "Disconnected: discord" },
+    });
+
+    const live = await probe("/health/live", context);
+    expect(live.status).toBe(503);
+
+    status = "connected";
+    const platforms = (await probe("/health/ready", context)).body.checks
+      .platforms;
+    expect(platforms?.status).toBe("ok");
+  });
+
+  test("keeps /health as a plain uptime check", async () => {
+    const context = buildContext({
+      pingRedis: async () => {
+        throw new Error("down");
+      },
+    });
+    const response = await handleHttpRequest(
+      new Request("http://test/health"),
+      context,
+    );
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ status: "ok" });
+  });
+});
@@ -0,0 +1,254 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import pino from "pino";
+
+import { WorldFileStore } from "../../world/file-store";
+import type { CharacterMeta, WorldMeta } from "../../world/store";
+import type { PublicApiWorldStore } from "../public-api";
+import { handleHttpRequest, type HttpRequestHandlerContext } from "../server";
+
+function buildWorld(
+  id: number,
+  status: WorldMeta["status"],
+  createdAt: string,
+): WorldMeta {
+  const base = {
+    id,
+    homeGuildId: "g1",
+    creatorId: "u1",
+    name: `World ${id}`,
+    createdAt,
+    updatedAt: createdAt,
+  };
+  if (status === "draft") {
+    return { ...base, status, buildChannelId: "build" };
+  }
+  return {
+    ...base,
+    status,
+    roleId: `role-${id}`,
+    categoryId: `category-${id}`,
+    infoChannelId: `info-${id}`,
+    roleplayChannelId: `roleplay-${id}`,
+    proposalsChannelId: `proposals-${id}`,
+    voiceChannelId: `voice-${id}`,
+  };
+}
+
+function buildCharacter(
+  id: number,
+  creatorId: string,
+  visibility: CharacterMeta["visibility"],
+  status: CharacterMeta["status"] = "active",
+): CharacterMeta {
+  const createdAt = `2026-03-0${id}T00:00:00.000Z`;
+  return {
+    id,
+    creatorId,
+    name: `Character ${id}`,
+    visibility,
+    status,
+    createdAt,
+    updatedAt: createdAt,
+  };
+}
+
+describe("public world/character API", () => {
+  let dataDir: string;
+  let context: HttpRequestHandlerContext;
+
+  const worlds = new Map<number, WorldMeta>([
+    [1, buildWorld(1, "active", "2026-02-01T00:00:00.000Z")],
+    [2, buildWorld(2, "active", "2026-02-02T00:00:00.000Z")],
+    [3, buildWorld(3, "draft", "2026-02-03T00:00:00.000Z")],
+    [4, buildWorld(4, "failed", "2026-02-04T00:00:00.000Z")],
+    [5, buildWorld(5, "archived", "2026-02-05T00:00:00.000Z")],
+  ]);
+  const characters = new Map<number, CharacterMeta>([
+    [1, buildCharacter(1, "u1", "public")],
+    [2, buildCharacter(2, "u1", "private")],
+    [3, buildCharacter(3, "u2", "public")],
+    [4, buildCharacter(4, "u1", "public", "failed")],
+    [5, buildCharacter(5, "u1", "public", "retired")],
+  ]);
+  const worldStore: PublicApiWorldStore = {
+    listWorldIds: async (limit = 50) =>
+      [...worlds.keys()].sort((a, b) => b - a).slice(0, limit),
+    getWorld: async (id) => worlds.get(id) ?? null,
+    memberCount: async (id) => id * 10,
+    getCharacter: async (id) => characters.get(id) ?? null,
+    // Unordered on purpose, like the Redis set behind it.
+    listUserCharacterIds: async (userId) =>
+      [1, 5, 2, 4, 3].filter((id) => characters.get(id)?.creatorId === userId),
+    listPublicCharacterIds: async () => [5, 4, 3, 1],
+  };
+
+  const get = (pathname: string, headers: Record<string, string> = {}) =>
+    handleHttpRequest(
+      new Request(`http://test${pathname}`, { headers }),
+      context,
+    );
+
+  beforeEach(async () => {
+    const logger = pino({ level: "silent" });
+    dataDir = await mkdtemp(path.join(os.tmpdir(), "public-api-"));
+    for (const [id, visitorCount] of [
+      [1, 9],
+      [2, 3],
+    ]) {
+      const worldDir = path.join(dataDir, "worlds", String(id));
+      await mkdir(path.join(worldDir, "canon"), { recursive: true });
+      await writeFile(
+        path.join(worldDir, "stats.json"),
+        JSON.stringify({
+          version: 1,
+          visitorCount,
+          characterCount: 1,
+          updatedAt: "2026-02-25T00:00:00.000Z",
+        }),
+      );
+    }
+    const worldDir = path.join(dataDir, "worlds", "1");
+    await writeFile(path.join(worldDir, "world-card.md"), "# 世界卡\n");
+    await writeFile(path.join(worldDir, "rules.md"), "# 规则\n");
+    await writeFile(path.join(worldDir, "canon", "history.md"), "往事\n");
+    await writeFile(path.join(worldDir, "canon", "notes.json"), "{}");
+    await mkdir(path.join(dataDir, "characters"), { recursive: true });
+    await writeFile(path.join(dataDir, "characters", "1.md"), "# 角色卡\n");
+    await writeFile(path.join(dataDir, "characters", "2.md"), "# 私密\n");
+    context = {
+      logger,
+      startedAt: 0,
+      version: "test",
+      apiToken: null,
+      dataRoot: dataDir,
+      worldStore,
+      worldFiles: new WorldFileStore({ logger, dataRoot: dataDir }),
+    };
+  });
+
+  afterEach(async () => {
+    await rm(dataDir, { recursive: true, force: true });
+  });
+
+  test("lists active worlds by creation or visitors", async () => {
+    const created = await get("/api/v1/worlds");
+    expect(created.status).toBe(200);
+    const body = (await created.json()) as {
+      worlds: Array<Record<string, unknown>>;
+      total: number;
+      nextOffset: number | null;
+    };
+    expect(body.worlds.map((world) => world.id)).toEqual([2, 1]);
+    expect(body.total).toBe(2);
+    expect(body.nextOffset).toBeNull();
+    expect(body.worlds[0]).toEqual({
+      id: 2,
+      name: "World 2",
+      status: "active",
+      creatorId: "u1",
+      homeGuildId: "g1",
+      createdAt: "2026-02-02T00:00:00.000Z",
+      updatedAt: "2026-02-02T00:00:00.000Z",
+      stats: { visitorCount: 3, characterCount: 1 },
+    });
+
+    const byVisitors = (await (
+      await get("/api/v1/worlds?sort=visitors&limit=1")
+    ).json()) as { worlds: Array<{ id: number }>; nextOffset: number | null };
+    expect(byVisitors.worlds.map((world) => world.id)).toEqual([1]);
+    expect(byVisitors.nextOffset).toBe(1);
+
+    expect((await get("/api/v1/worlds?sort=name")).status).toBe(400);
+    expect((await get("/api/v1/worlds?limit=500")).status).toBe(400);
+  });
+
+  test("returns world details without drafts or failed worlds", async () => {
+    const response = await get("/api/v1/worlds/1");
+    expect(response.status).toBe(200);
+    const world = (await response.json()) as Record<string, unknown>;
+    expect(world).toMatchObject({
+      id: 1,
+      stats: { visitorCount: 9, characterCount: 1, memberCount: 10 },
+      card: "# 世界卡\n",
+      rules: "# 规则\n",
+      canon: [
+        {
+          filename: "history.md",
+          size: Buffer.byteLength("往事\n"),
+          url: "/wiki/worlds/W1/canon/history.md",
+        },
+      ],
+    });
+    expect(world).not.toHaveProperty("roleId");
+
+    expect((await get("/api/v1/worlds/5")).status).toBe(200);
+    expect((await get("/api/v1/worlds/3")).status).toBe(404);
+    expect((await get("/api/v1/worlds/4")).status).toBe(404);
+    expect((await get("/api/v1/worlds/99")).status).toBe(404);
+  });
+
+  test("only exposes public characters", async () => {
+    const response = await get("/api/v1/characters/1");
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({
+      id: 1,
+      creatorId: "u1",
+      card: "# 角色卡\n",
+    });
+    expect((await get("/api/v1/characters/2")).status).toBe(404);
+    expect((await get("/api/v1/characters/4")).status).toBe(404);
+
+    const byCreator = (await (
+      await get("/api/v1/characters?creator=u1")
+    ).json()) as { characters: Array<{ id: number }>; total: number };
+    expect(byCreator.characters.map((character) => character.id)).toEqual([
+      5, 1,
+    ]);
+    expect(byCreator.total).toBe(2);
+
+    const all = (await (await get("/api/v1/characters")).json()) as {
+      characters: Array<{ id: number }>;
+    };
+    expect(all.characters.map((character) => character.id)).toEqual([5, 3, 1]);
+
+    expect((await get("/api/v1/characters?creator=..")).status).toBe(400);
+  });
+
+  test("answers If-None-Match with 304", async () => {
+    const first = await get("/api/v1/worlds/1");
+    const etag = first.headers.get("etag");
+    expect(etag).toBeTruthy();
+    expect(first.headers.get("cache-control")).toBe("no-cache");
+
+    const cached = await get("/api/v1/worlds/1", {
+      "If-None-Match": `"other", W/${etag}`,
+    });
+    expect(cached.status).toBe(304);
+    expect(await cached.text()).toBe("");
+
+    await writeFile(
+      path.join(dataDir, "worlds", "1", "world-card.md"),
+      "# 新世界卡\n",
+    );
+    const changed = await get("/api/v1/worlds/1", {
+      "If-None-Match": etag ?? "",
+    });
+    expect(changed.status).toBe(200);
+    expect(changed.headers.get("etag")).not.toBe(etag);
+  });
+
+  test("is read-only and disabled without a world store", async () => {
+    const post = await handleHttpRequest(
+      new Request("http://test/api/v1/worlds", { method: "POST" }),
+      context,
+    );
+    expect(post.status).toBe(405);
+    expect(post.headers.get("allow")).toBe("GET");
+
+    context = { ...context, worldStore: undefined };
+    expect((await get("/api/v1/worlds")).status).toBe(404);
+  });
+});
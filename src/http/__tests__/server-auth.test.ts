@@ -1,6 +1,11 @@
 import { describe, expect, test } from "bun:test";
 import pino from "pino";
 
+import {
+  InMemoryUsageStore,
+  UnsupportedUsageQueryError,
+  type UsageStore,
+} from "../../session/usage";
 import { handleHttpRequest, type HttpRequestHandlerContext } from "../server";
 
 describe("HTTP server auth", () => {
@@ -71,4 +76,99 @@ describe("HTTP server auth", () => {
       groupId: "group-1",
     });
   });
+
+  test("serves usage aggregates behind API_TOKEN with filters", async () => {
+    const logger = pino({ level: "silent" });
+    const usageStore = new InMemoryUsageStore();
+    const base = {
+      botId: "bot",
+      userId: "user-1",
+      sessionId: "session-1",
+      modelId: "model-a",
+      inputTokens: 100,
+      outputTokens: 10,
+      reasoningTokens: 0,
+      cacheReadTokens: 0,
+      cacheWriteTokens: 0,
+      cost: 0,
+    };
+    await usageStore.record({
+      ...base,
+      groupId: "group-1",
+      createdAt: "2026-10-03T08:00:00.000Z",
+    });
+    await usageStore.record({
+      ...base,
+      groupId: "group-2",
+      createdAt: "2026-10-03T09:00:00.000Z",
+    });
+    await usageStore.record({
+      ...base,
+      groupId: "group-1",
+      createdAt: "2026-10-05T09:00:00.000Z",
+    });
+    const context: HttpRequestHandlerContext = {
+      logger,
+      startedAt: 0,
+      version: "test",
+      apiToken: "secret-token",
+      dataRoot: "/data",
+      usageStore,
+    };
+    const get = (query: string, token?: string) =>
+      handleHttpRequest(
+        new Request(`http://test/api/v1/usage${query}`, {
+          headers: token ? { Authorization: `Bearer ${token}` } : {},
+        }),
+        context,
+      );
+
+    expect((await get("?groupId=group-1")).status).toBe(401);
+
+    const ok = await get(
+      "?from=2026-10-01&to=2026-10-03&groupId=group-1",
+      "secret-token",
+    );
+    expect(ok.status).toBe(200);
+    const body = (await ok.json()) as {
+      from: string;
+      to: string;
+      groupId: string;
+      totals: { runs: number; inputTokens: number };
+    };
+    expect(body.from).toBe("2026-10-01T00:00:00.000Z");
+    expect(body.to).toBe("2026-10-04T00:00:00.000Z");
+    expect(body.groupId).toBe("group-1");
+    expect(body.totals).toMatchObject({ runs: 1, inputTokens: 100 });
+
+    expect(
+      (await get("?from=2026-10-05&to=2026-10-01", "secret-token")).status,
+    ).toBe(400);
+    expect((await get("?from=yesterday", "secret-token")).status).toBe(400);
+  });
+
+  test("rejects usage filters the store cannot combine", async () => {
+    const usageStore: UsageStore = {
+      record: async () => undefined,
+      summarize: async () => {
+        throw new UnsupportedUsageQueryError("worldId cannot be combined");
+      },
+      close: async () => undefined,
+    };
+    const response = await handleHttpRequest(
+      new Request("http://test/api/v1/usage?groupId=group-1&worldId=3", {
+        headers: { Authorization: "Bearer secret-token" },
+      }),
+      {
+        logger: pino({ level: "silent" }),
+        startedAt: 0,
+        version: "test",
+        apiToken: "secret-token",
+        dataRoot: "/data",
+        usageStore,
+      },
+    );
+    expect(response.status).toBe(400);
+    expect(await response.text()).toBe("worldId cannot be combined");
+  });
 });
@@ -0,0 +1,269 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import pino from "pino";
+
+import type { SessionBufferSnapshot } from "../../session/buffer";
+import { InMemoryHistoryStore } from "../../session/history";
+import { SessionRepository } from "../../session/repository";
+import type { SessionMeta } from "../../types/session";
+import { handleHttpRequest, type HttpRequestHandlerContext } from "../server";
+
+const botId = "discord-100";
+const groupId = "200";
+const nietaToken = "nieta-secret-token-0123456789";
+const telegramToken = "123456789:AAHdqTcvCH1vGWJxfSeofSAs0K5PALwxyz";
+
+function buildMeta(
+  sessionId: string,
+  ownerId: string,
+  updatedAt: string,
+): SessionMeta {
+  return {
+    sessionId,
+    groupId,
+    botId,
+    ownerId,
+    key: 0,
+    status: "idle",
+    opencodeSessionId: `oc-${sessionId}`,
+    nietaToken,
+    createdAt: "2026-10-01T00:00:00.000Z",
+    updatedAt,
+  };
+}
+
+describe("session inspection API", () => {
+  let dataDir: string;
+  let repository: SessionRepository;
+  let historyStore: InMemoryHistoryStore;
+  let bufferKeys: unknown[];
+  let context: HttpRequestHandlerContext;
+
+  const get = (pathname: string, token: string | null = "secret-token") =>
+    handleHttpRequest(
+      new Request(`http://test${pathname}`, {
+        headers: token ? { Authorization: `Bearer ${token}` } : {},
+      }),
+      context,
+    );
+
+  beforeEach(async () => {
+    const logger = pino({ level: "silent" });
+    dataDir = await mkdtemp(path.join(os.tmpdir(), "session-inspection-"));
+    repository = new SessionRepository({ dataDir, logger });
+    const active = await repository.resolveActiveSessionId(
+      botId,
+      groupId,
+      "u1",
+      0,
+    );
+    await repository.createSession(
+      buildMeta(active, "u1", "2026-10-03T00:00:00.000Z"),
+    );
+    await repository.createSession({
+      ...buildMeta("s-old", "u1", "2026-10-02T00:00:00.000Z"),
+      active: false,
+      archivedAt: "2026-10-02T00:00:00.000Z",
+    });
+    await repository.createSession({
+      ...buildMeta("s-other", "u2", "2026-10-04T00:00:00.000Z"),
+      status: "running",
+      opencodePendingUserInput: {
+        kind: "question",
+        channelId: "c1",
+        createdAt: "2026-10-04T00:00:00.000Z",
+      },
+    });
+
+    historyStore = new InMemoryHistoryStore();
+    const historyKey = { botAccountId: "discord:100", userId: "u1" };
+    for (const [role, content, createdAt, sessionId] of [
+      ["user", "你好", "2026-10-02T01:00:00.000Z", "s-old"],
+      ["assistant", "在的", "2026-10-02T01:00:01.000Z", "s-old"],
+      [
+        "user",
+        "token=abcdef123456 怎么用",
+        "2026-10-03T01:00:00.000Z",
+        "s-old",
+      ],
+      ["user", "别的会话", "2026-10-03T02:00:00.000Z", "s-other"],
+    ] as const) {
+      await historyStore.appendHistory(historyKey, {
+        role,
+        content,
+        createdAt,
+        groupId,
+        sessionId,
+      });
+    }
+
+    bufferKeys = [];
+    context = {
+      logger,
+      startedAt: 0,
+      version: "test",
+      apiToken: "secret-token",
+      dataRoot: dataDir,
+      sessions: {
+        sessionRepository: repository,
+        historyStore,
+        bufferStore: {
+          inspect: async (key): Promise<SessionBufferSnapshot> => {
+            bufferKeys.push(key);
+            return {
+              length: 1,
+              events: [
+                {
+                  type: "message",
+                  platform: "discord",
+                  selfId: "100",
+                  userId: "u1",
+                  channelId: "c1",
+                  content: "Bearer abcdefghijklmnop",
+                  elements: [
+                    { type: "text", text: `leaked ${telegramToken}` },
+                    {
+                      type: "image",
+                      url: `https://api.telegram.org/file/bot${telegramToken}/photos/a.jpg`,
+                    },
+                  ],
+                  timestamp: 0,
+                  extras: { nietaToken },
+                },
+              ],
+              gate: { token: "gate-token-0123456789", ttlSeconds: 42 },
+            };
+          },
+        },
+      },
+    };
+  });
+
+  afterEach(async () => {
+    await rm(dataDir, { recursive: true, force: true });
+  });
+
+  test("requires API_TOKEN and a valid bearer token", async () => {
+    const listPath = `/api/v1/sessions?botId=${botId}&groupId=${groupId}`;
+    expect((await get(listPath, null)).status).toBe(401);
+    expect((await get(listPath, "wrong")).status).toBe(401);
+    context = { ...context, apiToken: null };
+    expect((await get(listPath)).status).toBe(404);
+  });
+
+  test("lists sessions of a group, newest update first", async () => {
+    const response = await get(
+      `/api/v1/sessions?botId=${botId}&groupId=${groupId}`,
+    );
+    expect(response.status).toBe(200);
+    const body = (await response.json()) as {
+      sessions: Array<Record<string, unknown>>;
+      total: number;
+    };
+    expect(body.total).toBe(3);
+    expect(body.sessions.map((session) => session.sessionId)).toEqual([
+      "s-other",
+      expect.stringMatching(/^s-/),
+      "s-old",
+    ]);
+    expect(body.sessions[0]).toMatchObject({
+      userId: "u2",
+      status: "running",
+      activeKey: null,
+      opencodeSessionId: "oc-s-other",
+      pendingUserInput: { kind: "question", channelId: "c1" },
+    });
+    expect(body.sessions[1]).toMatchObject({ userId: "u1", activeKey: 0 });
+    expect(body.sessions[2]).toMatchObject({ active: false, activeKey: null });
+    expect(JSON.stringify(body)).not.toContain(nietaToken);
+
+    const scoped = (await (
+      await get(`/api/v1/sessions?botId=${botId}&groupId=${groupId}&userId=u2`)
+    ).json()) as { total: number };
+    expect(scoped.total).toBe(1);
+    expect((await get(`/api/v1/sessions?botId=${botId}`)).status).toBe(400);
+  });
+
+  test("returns session meta with secrets redacted", async () => {
+    const response = await get(`/api/v1/sessions/${botId}/${groupId}/u1/s-old`);
+    expect(response.status).toBe(200);
+    const { meta } = (await response.json()) as { meta: SessionMeta };
+    expect(meta.sessionId).toBe("s-old");
+    expect(meta.nietaToken).toBe("niet***6789");
+
+    expect(
+      (await get(`/api/v1/sessions/${botId}/${groupId}/u2/s-old`)).status,
+    ).toBe(404);
+    expect(
+      (await get(`/api/v1/sessions/${botId}/${groupId}/u1/a%2Fb`)).status,
+    ).toBe(400);
+  });
+
+  test("pages through a session's history with filters", async () => {
+    const base = `/api/v1/sessions/${botId}/${groupId}/u1/s-old/history`;
+    const first = (await (await get(`${base}?limit=2`)).json()) as {
+      entries: Array<{ id: string; content: string }>;
+      nextBefore: string | null;
+    };
+    expect(first.entries.map((entry) => entry.content)).toEqual([
+      "token: *** 怎么用",
+      "在的",
+    ]);
+    expect(first.nextBefore).toBe(first.entries[1]?.id ?? "");
+
+    const second = (await (
+      await get(`${base}?limit=2&before=${first.nextBefore}`)
+    ).json()) as { entries: Array<{ content: string }>; nextBefore: null };
+    expect(second.entries.map((entry) => entry.content)).toEqual(["你好"]);
+    expect(second.nextBefore).toBeNull();
+
+    const filtered = (await (
+      await get(`${base}?role=user&to=2026-10-02`)
+    ).json()) as { entries: Array<{ content: string }> };
+    expect(filtered.entries.map((entry) => entry.content)).toEqual(["你好"]);
+
+    expect((await get(`${base}?role=tool`)).status).toBe(400);
+    expect((await get(`${base}?from=yesterday`)).status).toBe(400);
+    expect((await get(`${base}?before=abc`)).status).toBe(400);
+
+    context = {
+      ...context,
+      sessions: { sessionRepository: repository },
+    };
+    expect((await get(base)).status).toBe(404);
+  });
+
+  test("inspects the buffer and gate for a buffer key", async () => {
+    const response = await get(`/api/v1/buffers/${botId}/${groupId}/s-old`);
+    expect(response.status).toBe(200);
+    expect(bufferKeys).toEqual([{ botId, groupId, sessionId: "s-old" }]);
+    const body = (await response.json()) as {
+      length: number;
+      events: Array<{
+        content: string;
+        elements: Array<{ text?: string; url?: string }>;
+        extras: { nietaToken: string };
+      }>;
+      gate: { token: string; ttlSeconds: number };
+    };
+    expect(body.length).toBe(1);
+    expect(body.events[0]?.content).toBe("Bearer abcd***mnop");
+    expect(body.events[0]?.extras.nietaToken).toBe("niet***6789");
+    expect(body.events[0]?.elements[0]?.text).toBe("leaked 1234***wxyz");
+    expect(body.events[0]?.elements[1]?.url).toBe(
+      "https://api.telegram.org/file/bot1234***wxyz/photos/a.jpg",
+    );
+    expect(body.gate).toEqual({ token: "gate***6789", ttlSeconds: 42 });
+
+    const post = await handleHttpRequest(
+      new Request(`http://test/api/v1/buffers/${botId}/${groupId}/s-old`, {
+        method: "POST",
+        headers: { Authorization: "Bearer secret-token" },
+      }),
+      context,
+    );
+    expect(post.status).toBe(405);
+  });
+});
@@ -4,6 +4,10 @@ import os from "node:os";
 import path from "node:path";
 import pino from "pino";
 
+import { WorldFileStore } from "../../world/file-store";
+import { parseWorldCalendar } from "../../world/calendar";
+import { applyWorldQuestChanges } from "../../world/quests";
+import { applyWorldTimeChanges } from "../../world/timeline";
 import { handleHttpRequest, type HttpRequestHandlerContext } from "../server";
 
 describe("/wiki", () => {
@@ -176,6 +180,215 @@ describe("/wiki", () => {
     expect(await canon.text()).toContain("# canon");
   });
 
+  test("lists world revisions and serves revision snapshots", async () => {
+    const logger = pino({ level: "silent" });
+    const dataRoot = await mkdtemp(path.join(os.tmpdir(), "wiki-history-"));
+    const worldFiles = new WorldFileStore({ logger, dataRoot });
+    await worldFiles.writeWorldCard(1, "# card v1", {
+      author: "u1",
+      source: "command",
+    });
+    await worldFiles.writeWorldCard(1, "# card v2", {
+      author: "u1",
+      source: "ai_session",
+    });
+    const context: HttpRequestHandlerContext = {
+      logger,
+      startedAt: 0,
+      version: "test",
+      apiToken: null,
+      dataRoot,
+    };
+
+    const history = await handleHttpRequest(
+      new Request("http://test/wiki/worlds/W1/history"),
+      context,
+    );
+    expect(history.status).toBe(200);
+    const historyText = await history.text();
+    expect(historyText).toContain("W1 版本记录");
+    expect(historyText.indexOf("[r2]")).toBeLessThan(
+      historyText.indexOf("[r1]"),
+    );
+    expect(historyText).toContain("ai_session");
+
+    const snapshot = await handleHttpRequest(
+      new Request("http://test/wiki/en/worlds/W1/revisions/1.md"),
+      context,
+    );
+    expect(snapshot.status).toBe(200);
+    expect(await snapshot.text()).toBe("# card v1\n");
+
+    const empty = await handleHttpRequest(
+      new Request("http://test/wiki/en/worlds/W2/history.md"),
+      context,
+    );
+    expect(await empty.text()).toContain("(No revisions)");
+  });
+
+  test("lists open and closed world quests", async () => {
+    const logger = pino({ level: "silent" });
+    const dataRoot = await mkdtemp(path.join(os.tmpdir(), "wiki-quests-"));
+    const worldFiles = new WorldFileStore({ logger, dataRoot });
+    await worldFiles.updateWorldQuests(1, (log) =>
+      applyWorldQuestChanges(
+        log,
+        [
+          {
+            op: "create",
+            title: "失踪的商队",
+            objectives: ["找到营地"],
+            rewards: [],
+          },
+          { op: "create", title: "清理地窖", objectives: [], rewards: [] },
+          { op: "complete", quest: 2 },
+        ],
+        { createdBy: "ai" },
+      ),
+    );
+    const context: HttpRequestHandlerContext = {
+      logger,
+      startedAt: 0,
+      version: "test",
+      apiToken: null,
+      dataRoot,
+    };
+
+    const page = await handleHttpRequest(
+      new Request("http://test/wiki/worlds/W1/quests.md"),
+      context,
+    );
+    expect(page.status).toBe(200);
+    const text = await page.text();
+    expect(text).toContain("# W1 任务");
+    expect(text).toContain("### Q1 失踪的商队 [进行中]");
+    expect(text).toContain("  - [ ] 1. 找到营地");
+    expect(text.indexOf("## 已结束")).toBeLessThan(
+      text.indexOf("### Q2 清理地窖"),
+    );
+
+    const empty = await handleHttpRequest(
+      new Request("http://test/wiki/en/worlds/W2/quests"),
+      context,
+    );
+    expect(await empty.text()).toContain("(No open quests)");
+  });
+
+  test("renders the world timeline grouped by year", async () => {
+    const logger = pino({ level: "silent" });
+    const dataRoot = await mkdtemp(path.join(os.tmpdir(), "wiki-timeline-"));
+    const worldFiles = new WorldFileStore({ logger, dataRoot });
+    await worldFiles.writeWorldCalendar(
+      1,
+      parseWorldCalendar(
+        JSON.stringify({
+          months: [
+            { name: "霜月", days: 30 },
+            { name: "花月", days: 30 },
+          ],
+        }),
+      ),
+    );
+    await worldFiles.updateWorldTimeline(1, (timeline, calendar) =>
+      applyWorldTimeChanges(
+        calendar,
+        timeline,
+        [
+          { op: "set", to: "1024-霜月-15 08:00" },
+          {
+            op: "record",
+            title: "黑塔陷落",
+            content: "守夜人撤出北境。",
+            tags: ["战争"],
+            date: "1020-2-1",
+          },
+          { op: "record", title: "抵达王都", tags: [] },
+          { op: "record", title: "日蚀", tags: [], date: "1025" },
+        ],
+        { source: "command", authorId: "u1" },
+      ),
+    );
+    const context: HttpRequestHandlerContext = {
+      logger,
+      startedAt: 0,
+      version: "test",
+      apiToken: null,
+      dataRoot,
+    };
+
+    const page = await handleHttpRequest(
+      new Request("http://test/wiki/worlds/W1/timeline.md"),
+      context,
+    );
+    expect(page.status).toBe(200);
+    const text = await page.text();
+    expect(text).toContain("世界时间：**1024年 霜月 15日 08:00**");
+    expect(text).toContain("- #1 1020年 花月 1日 00:00 · 黑塔陷落 [战争]");
+    expect(text).toContain("  - 守夜人撤出北境。");
+    expect(text).toContain("· 日蚀 _(未到来)_");
+    expect(text.indexOf("## 1020 年")).toBeLessThan(text.indexOf("## 1024 年"));
+
+    const empty = await handleHttpRequest(
+      new Request("http://test/wiki/en/worlds/W2/timeline"),
+      context,
+    );
+    expect(await empty.text()).toContain("(No entries)");
+  });
+
+  test("serves ranked world search as markdown and json", async () => {
+    const logger = pino({ level: "silent" });
+    const dataRoot = await mkdtemp(path.join(os.tmpdir(), "wiki-search-"));
+    const worldFiles = new WorldFileStore({ logger, dataRoot });
+    const origin = { author: "u1", source: "command" } as const;
+    await worldFiles.writeWorldCard(1, "# 世界卡\n- 世界名称：灰烬\n", origin);
+    await worldFiles.writeCanon(
+      1,
+      "chronicle.md",
+      "# 编年史\n\n## 黑塔之战\n守夜人击退灰潮。\n",
+      origin,
+    );
+    const context: HttpRequestHandlerContext = {
+      logger,
+      startedAt: 0,
+      version: "test",
+      apiToken: null,
+      dataRoot,
+    };
+
+    const markdown = await handleHttpRequest(
+      new Request(
+        `http://test/wiki/worlds/W1/search?q=${encodeURIComponent("守夜人")}`,
+      ),
+      context,
+    );
+    expect(markdown.status).toBe(200);
+    const text = await markdown.text();
+    expect(text).toContain("W1 搜索：守夜人");
+    expect(text).toContain(
+      `(worlds/W1/canon/chronicle.md?id=${encodeURIComponent("黑塔之战")})`,
+    );
+
+    const json = await handleHttpRequest(
+      new Request(
+        `http://test/wiki/worlds/W1/search?format=json&q=${encodeURIComponent("守夜人")}`,
+      ),
+      context,
+    );
+    const body = (await json.json()) as { hits: Array<{ anchor: string }> };
+    expect(body.hits[0]?.anchor).toBe("canon/chronicle.md#黑塔之战");
+
+    const missingQuery = await handleHttpRequest(
+      new Request("http://test/wiki/worlds/W1/search"),
+      context,
+    );
+    expect(missingQuery.status).toBe(400);
+    const missingWorld = await handleHttpRequest(
+      new Request("http://test/wiki/worlds/W9/search?q=x"),
+      context,
+    );
+    expect(missingWorld.status).toBe(404);
+  });
+
   test("rejects unsafe canon filenames", async () => {
     const logger = pino({ level: "silent" });
     const dataRoot = await mkdtemp(path.join(os.tmpdir(), "wiki-unsafe-"));
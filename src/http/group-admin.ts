@@ -0,0 +1,244 @@
+import type { Logger } from "pino";
+import type { ZodError } from "zod";
+
+import type { GroupStore } from "../store/group";
+import { AgentFrontmatterSchema, GroupConfigSchema } from "../types/group";
+import type { UserLanguage } from "../user/state-store";
+import { isSafePathSegment } from "../utils/path";
+import { buildPage, parsePageParams } from "./query-params";
+
+export type GroupAdminStore = Pick<
+  GroupStore,
+  | "listGroupIds"
+  | "getGroup"
+  | "replaceGroupConfig"
+  | "getAgentPrompt"
+  | "saveAgentPrompt"
+>;
+
+const DEFAULT_GROUP_PAGE_SIZE = 50;
+const MAX_GROUP_PAGE_SIZE = 200;
+const MAX_AGENT_PROMPT_LENGTH = 100_000;
+
+const GROUP_LIST_PATH = "/api/v1/groups";
+const GROUP_RESOURCE_PATTERN = /^\/api\/v1\/groups\/([^/]+)\/(config|agent)$/;
+
+/** Whether the path belongs to the group admin API (auth is checked by the caller). */
+export function isGroupAdminPath(pathname: string): boolean {
+  return pathname === GROUP_LIST_PATH || GROUP_RESOURCE_PATTERN.test(pathname);
+}
+
+export async function handleGroupAdminRequest(
+  req: Request,
+  url: URL,
+  store: GroupAdminStore,
+  logger: Logger,
+): Promise<Response> {
+  if (url.pathname === GROUP_LIST_PATH) {
+    if (req.method !== "GET") {
+      return methodNotAllowed(["GET"]);
+    }
+    return listGroups(url.searchParams, store);
+  }
+
+  const match = url.pathname.match(GROUP_RESOURCE_PATTERN);
+  if (!match) {
+    return new Response("Not Found", { status: 404 });
+  }
+  let groupId: string;
+  try {
+    groupId = decodeURIComponent(match[1]);
+  } catch {
+    return new Response("Invalid groupId", { status: 400 });
+  }
+  if (!isSafePathSegment(groupId)) {
+    return new Response("Invalid groupId", { status: 400 });
+  }
+
+  try {
+    if (match[2] === "config") {
+      return await handleConfigRequest(req, groupId, store);
+    }
+    return await handleAgentRequest(req, url, groupId, store);
+  } catch (err) {
+    logger.error(
+      { err, groupId, method: req.method, path: url.pathname },
+      "Group admin request failed",
+    );
+    return new Response("Group admin request failed", { status: 500 });
+  }
+}
+
+async function listGroups(
+  params: URLSearchParams,
+  store: GroupAdminStore,
+): Promise<Response> {
+  const pageParams = parsePageParams(params, {
+    defaultLimit: DEFAULT_GROUP_PAGE_SIZE,
+    maxLimit: MAX_GROUP_PAGE_SIZE,
+  });
+  if (typeof pageParams === "string") {
+    return new Response(pageParams, { status: 400 });
+  }
+  const { items, ...page } = buildPage(await store.listGroupIds(), pageParams);
+  const groups = await Promise.all(
+    items.map(async (id) => {
+      const group = await store.getGroup(id);
+      return group
+        ? {
+            id,
+            enabled: group.config.enabled,
+            triggerMode: group.config.triggerMode,
+          }
+        : // Directory without a readable config.yaml.
+          { id, enabled: null, triggerMode: null };
+    }),
+  );
+  return Response.json({ groups, ...page });
+}
+
+async function handleConfigRequest(
+  req: Request,
+  groupId: string,
+  store: GroupAdminStore,
+): Promise<Response> {
+  if (req.method === "GET") {
+    const group = await store.getGroup(groupId);
+    if (!group) {
+      return new Response("Not Found", { status: 404 });
+    }
+    return Response.json({ groupId, config: group.config });
+  }
+  if (req.method !== "PUT" && req.method !== "PATCH") {
+    return methodNotAllowed(["GET", "PUT", "PATCH"]);
+  }
+
+  const body = await readJsonBody(req);
+  if (!isPlainObject(body)) {
+    return new Response("Body must be a JSON object", { status: 400 });
+  }
+  let candidate: unknown = body;
+  if (req.method === "PATCH") {
+    const group = await store.getGroup(groupId);
+    if (!group) {
+      return new Response("Not Found", { status: 404 });
+    }
+    candidate = applyMergePatch(group.config, body);
+  }
+  const parsed = GroupConfigSchema.safeParse(candidate);
+  if (!parsed.success) {
+    return new Response(formatValidationError("config", parsed.error), {
+      status: 400,
+    });
+  }
+  const saved = await store.replaceGroupConfig(groupId, parsed.data);
+  if (!saved) {
+    return new Response("Not Found", { status: 404 });
+  }
+  return Response.json({ groupId, config: saved });
+}
+
+async function handleAgentRequest(
+  req: Request,
+  url: URL,
+  groupId: string,
+  store: GroupAdminStore,
+): Promise<Response> {
+  const language = parseLanguageParam(url.searchParams.get("lang"));
+  if (!language) {
+    return new Response("Invalid lang: use zh or en", { status: 400 });
+  }
+  if (req.method === "GET") {
+    const agent = await store.getAgentPrompt(groupId, language);
+    if (!agent) {
+      return new Response("Not Found", { status: 404 });
+    }
+    return Response.json({ groupId, language, ...agent });
+  }
+  if (req.method !== "PUT") {
+    return methodNotAllowed(["GET", "PUT"]);
+  }
+
+  const body = await readJsonBody(req);
+  if (!isPlainObject(body) || typeof body.content !== "string") {
+    return new Response("Body must be a JSON object with string content", {
+      status: 400,
+    });
+  }
+  if (body.content.length > MAX_AGENT_PROMPT_LENGTH) {
+    return new Response(
+      `content must be at most ${MAX_AGENT_PROMPT_LENGTH} characters`,
+      { status: 400 },
+    );
+  }
+  const frontmatter = AgentFrontmatterSchema.safeParse(body.frontmatter ?? {});
+  if (!frontmatter.success) {
+    return new Response(
+      formatValidationError("frontmatter", frontmatter.error),
+      { status: 400 },
+    );
+  }
+  const saved = await store.saveAgentPrompt(groupId, language, {
+    frontmatter: frontmatter.data,
+    content: body.content,
+  });
+  if (!saved) {
+    return new Response("Not Found", { status: 404 });
+  }
+  return Response.json({ groupId, language, ...saved });
+}
+
+/**
+ * JSON Merge Patch (RFC 7396): objects merge recursively, `null` removes a
+ * key (so the schema default applies again) and anything else replaces it.
+ */
+function applyMergePatch(target: unknown, patch: unknown): unknown {
+  if (!isPlainObject(patch)) {
+    return patch;
+  }
+  const result: Record<string, unknown> = isPlainObject(target)
+    ? { ...target }
+    : {};
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === null) {
+      delete result[key];
+    } else {
+      result[key] = applyMergePatch(result[key], value);
+    }
+  }
+  return result;
+}
+
+async function readJsonBody(req: Request): Promise<unknown> {
+  try {
+    return await req.json();
+  } catch {
+    return undefined;
+  }
+}
+
+function formatValidationError(label: string, error: ZodError): string {
+  const issues = error.issues.map(
+    (issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`,
+  );
+  return `Invalid ${label}: ${issues.join("; ")}`;
+}
+
+function parseLanguageParam(value: string | null): UserLanguage | null {
+  const trimmed = value?.trim().toLowerCase();
+  if (!trimmed) {
+    return "zh";
+  }
+  return trimmed === "zh" || trimmed === "en" ? trimmed : null;
+}
+
+function methodNotAllowed(methods: string[]): Response {
+  return new Response("Method Not Allowed", {
+    status: 405,
+    headers: { Allow: methods.join(", ") },
+  });
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
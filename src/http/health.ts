@@ -0,0 +1,162 @@
+import type { Sql } from "postgres";
+
+import { createPostgresClient } from "../db/postgres";
+import type { MultiAdapter } from "../adapters/multi";
+import type { OpencodeServerClient } from "../opencode/server-client";
+import { redactSensitiveText } from "../utils/redact";
+
+export interface HealthCheck {
+  name: string;
+  /**
+   * Also part of /health/live. Only process-local failures belong there:
+   * restarting a pod does not bring Redis or Postgres back.
+   */
+  liveness?: boolean;
+  /** Rejects when the dependency is unavailable. */
+  run: (signal: AbortSignal) => Promise<void>;
+}
+
+export interface HealthCheckResult {
+  status: "ok" | "error";
+  latencyMs: number;
+  error?: string;
+}
+
+export interface DependencyHealthCheckOptions {
+  pingRedis: () => Promise<void>;
+  /** Adds a `SELECT 1` check over a dedicated single-connection client. */
+  databaseUrl?: string;
+  opencodeClient?: Pick<OpencodeServerClient, "ping">;
+  worker?: { isRunning(): boolean };
+  adapter?: Pick<MultiAdapter, "getPlatformStatuses">;
+}
+
+const HEALTH_CHECK_TIMEOUT_MS = 2_000;
+const LIVE_PATH = "/health/live";
+const READY_PATH = "/health/ready";
+
+export function isHealthProbePath(pathname: string): boolean {
+  return pathname === LIVE_PATH || pathname === READY_PATH;
+}
+
+/** Builds the checks both entrypoints share; `close` releases the Postgres client. */
+export function createDependencyHealthChecks(
+  options: DependencyHealthCheckOptions,
+): { checks: HealthCheck[]; close: () => Promise<void> } {
+  const checks: HealthCheck[] = [
+    { name: "redis", run: () => options.pingRedis() },
+  ];
+
+  const databaseUrl = options.databaseUrl?.trim();
+  let sql: Sql | null = null;
+  if (databaseUrl) {
+    const client = createPostgresClient({ databaseUrl, maxConnections: 1 });
+    sql = client;
+    checks.push({
+      name: "postgres",
+      run: async () => {
+        await client`SELECT 1`;
+      },
+    });
+  }
+
+  const { opencodeClient, worker, adapter } = options;
+  if (opencodeClient) {
+    checks.push({
+      name: "opencode",
+      run: (signal) => opencodeClient.ping({ signal }),
+    });
+  }
+  if (worker) {
+    checks.push({
+      name: "worker",
+      liveness: true,
+      run: async () => {
+        if (!worker.isRunning()) {
+          throw new Error("BullMQ worker is not running");
+        }
+      },
+    });
+  }
+  if (adapter) {
+    checks.push({
+      name: "platforms",
+      run: async () => {
+        const disconnected = Object.entries(adapter.getPlatformStatuses())
+          .filter(([, status]) => status !== "connected")
+          .map(([platform]) => platform);
+        if (disconnected.length > 0) {
+          throw new Error(`Disconnected: ${disconnected.join(", ")}`);
+        }
+      },
+    });
+  }
+
+  return {
+    checks,
+    close: async () => {
+      await sql?.end({ timeout: 5 });
+    },
+  };
+}
+
+/**
+ * /health/live runs only liveness checks, /health/ready runs all of them.
+ * Any failure turns the response into a 503.
+ */
+export async function handleHealthProbeRequest(
+  url: URL,
+  checks: HealthCheck[],
+  info: { version: string; uptime: string },
+): Promise<Response> {
+  const selected =
+    url.pathname === LIVE_PATH
+      ? checks.filter((check) => check.liveness)
+      : checks;
+  const results = await Promise.all(
+    selected.map(async (check) => [check.name, await runCheck(check)] as const),
+  );
+  const healthy = results.every(([, result]) => result.status === "ok");
+  return Response.json(
+    {
+      status: healthy ? "ok" : "unavailable",
+      version: info.version,
+      uptime: info.uptime,
+      checks: Object.fromEntries(results),
+    },
+    {
+      status: healthy ? 200 : 503,
+      headers: { "cache-control": "no-store" },
+    },
+  );
+}
+
+async function runCheck(check: HealthCheck): Promise<HealthCheckResult> {
+  const startedAt = performance.now();
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new Error(`Timed out after ${HEALTH_CHECK_TIMEOUT_MS}ms`));
+    }, HEALTH_CHECK_TIMEOUT_MS);
+  });
+  try {
+    await Promise.race([check.run(controller.signal), timeout]);
+    return { status: "ok", latencyMs: elapsedMs(startedAt) };
+  } catch (err) {
+    return {
+      status: "error",
+      latencyMs: elapsedMs(startedAt),
+      error: redactSensitiveText(
+        err instanceof Error ? err.message : String(err),
+      ),
+    };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+function elapsedMs(startedAt: number): number {
+  return Math.round((performance.now() - startedAt) * 10) / 10;
+}
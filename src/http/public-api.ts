@@ -0,0 +1,275 @@
+import { createHash } from "node:crypto";
+
+import type { Logger } from "pino";
+
+import { isSafePathSegment } from "../utils/path";
+import type { WorldFileStore } from "../world/file-store";
+import { listActiveWorldEntries } from "../world/query";
+import type {
+  CharacterMeta,
+  WorldActiveMeta,
+  WorldStore,
+} from "../world/store";
+import { buildPage, parsePageParams } from "./query-params";
+
+export type PublicApiWorldStore = Pick<
+  WorldStore,
+  | "listWorldIds"
+  | "getWorld"
+  | "memberCount"
+  | "getCharacter"
+  | "listUserCharacterIds"
+  | "listPublicCharacterIds"
+>;
+
+export type PublicApiWorldFiles = Pick<
+  WorldFileStore,
+  | "readWorldCard"
+  | "readRules"
+  | "readStats"
+  | "listCanonFiles"
+  | "readCharacterCard"
+>;
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+/** The world/character indexes only ever return this many ids. */
+const MAX_INDEXED_ENTRIES = 200;
+
+const WORLD_LIST_PATH = "/api/v1/worlds";
+const WORLD_PATTERN = /^\/api\/v1\/worlds\/(\d+)$/;
+const CHARACTER_LIST_PATH = "/api/v1/characters";
+const CHARACTER_PATTERN = /^\/api\/v1\/characters\/(\d+)$/;
+
+/** Whether the path belongs to the public read-only world/character API. */
+export function isPublicApiPath(pathname: string): boolean {
+  return (
+    pathname === WORLD_LIST_PATH ||
+    pathname === CHARACTER_LIST_PATH ||
+    WORLD_PATTERN.test(pathname) ||
+    CHARACTER_PATTERN.test(pathname)
+  );
+}
+
+/**
+ * Serves only what the wiki already publishes: drafts, failed worlds and
+ * private or failed characters all look like 404s.
+ */
+export async function handlePublicApiRequest(
+  req: Request,
+  url: URL,
+  stores: { worldStore: PublicApiWorldStore; worldFiles: PublicApiWorldFiles },
+  logger: Logger,
+): Promise<Response> {
+  if (req.method !== "GET") {
+    return new Response("Method Not Allowed", {
+      status: 405,
+      headers: { Allow: "GET" },
+    });
+  }
+
+  try {
+    let body: unknown;
+    if (url.pathname === WORLD_LIST_PATH) {
+      body = await listWorlds(url.searchParams, stores);
+    } else if (url.pathname === CHARACTER_LIST_PATH) {
+      body = await listCharacters(url.searchParams, stores.worldStore);
+    } else {
+      const worldMatch = url.pathname.match(WORLD_PATTERN);
+      const characterMatch = url.pathname.match(CHARACTER_PATTERN);
+      body = worldMatch
+        ? await getWorldDetail(Number(worldMatch[1]), stores)
+        : characterMatch
+          ? await getCharacterDetail(Number(characterMatch[1]), stores)
+          : null;
+    }
+    if (body instanceof Response) {
+      return body;
+    }
+    if (body === null) {
+      return new Response("Not Found", { status: 404 });
+    }
+    return buildCachedJsonResponse(req, body);
+  } catch (err) {
+    logger.error(
+      { err, method: req.method, path: url.pathname },
+      "Public API request failed",
+    );
+    return new Response("Public API request failed", { status: 500 });
+  }
+}
+
+async function listWorlds(
+  params: URLSearchParams,
+  stores: { worldStore: PublicApiWorldStore; worldFiles: PublicApiWorldFiles },
+): Promise<unknown> {
+  const pageParams = parsePageParams(params, {
+    defaultLimit: DEFAULT_PAGE_SIZE,
+    maxLimit: MAX_PAGE_SIZE,
+  });
+  if (typeof pageParams === "string") {
+    return new Response(pageParams, { status: 400 });
+  }
+  const sort = params.get("sort")?.trim() || "created";
+  if (sort !== "created" && sort !== "visitors") {
+    return new Response("Invalid sort: use created or visitors", {
+      status: 400,
+    });
+  }
+  const entries = await listActiveWorldEntries({
+    worldStore: stores.worldStore,
+    worldFiles: stores.worldFiles,
+    limit: MAX_INDEXED_ENTRIES,
+    sortBy: sort === "visitors" ? "visitors_desc" : "created_at_desc",
+  });
+  const { items, ...page } = buildPage(entries, pageParams);
+  return {
+    worlds: items.map((entry) => ({
+      ...toPublicWorld(entry.meta),
+      stats: {
+        visitorCount: entry.stats.visitorCount,
+        characterCount: entry.stats.characterCount,
+      },
+    })),
+    sort,
+    ...page,
+  };
+}
+
+async function getWorldDetail(
+  worldId: number,
+  stores: { worldStore: PublicApiWorldStore; worldFiles: PublicApiWorldFiles },
+): Promise<unknown> {
+  if (!Number.isSafeInteger(worldId) || worldId <= 0) {
+    return null;
+  }
+  const meta = await stores.worldStore.getWorld(worldId);
+  if (!meta || meta.status === "draft" || meta.status === "failed") {
+    return null;
+  }
+  const [stats, memberCount, card, rules, canon] = await Promise.all([
+    stores.worldFiles.readStats(meta.id),
+    stores.worldStore.memberCount(meta.id),
+    stores.worldFiles.readWorldCard(meta.id),
+    stores.worldFiles.readRules(meta.id),
+    stores.worldFiles.listCanonFiles(meta.id),
+  ]);
+  return {
+    ...toPublicWorld(meta),
+    stats: {
+      visitorCount: stats.visitorCount,
+      characterCount: stats.characterCount,
+      memberCount,
+    },
+    card,
+    rules,
+    canon: canon.map((file) => ({
+      ...file,
+      url: `/wiki/worlds/W${meta.id}/canon/${encodeURIComponent(file.filename)}`,
+    })),
+  };
+}
+
+async function listCharacters(
+  params: URLSearchParams,
+  worldStore: PublicApiWorldStore,
+): Promise<unknown> {
+  const pageParams = parsePageParams(params, {
+    defaultLimit: DEFAULT_PAGE_SIZE,
+    maxLimit: MAX_PAGE_SIZE,
+  });
+  if (typeof pageParams === "string") {
+    return new Response(pageParams, { status: 400 });
+  }
+  const creator = params.get("creator")?.trim() || null;
+  if (creator !== null && !isSafePathSegment(creator)) {
+    return new Response("Invalid creator", { status: 400 });
+  }
+  const ids = creator
+    ? await worldStore.listUserCharacterIds(creator, MAX_INDEXED_ENTRIES)
+    : await worldStore.listPublicCharacterIds(MAX_INDEXED_ENTRIES);
+  const metas = await Promise.all(ids.map((id) => worldStore.getCharacter(id)));
+  const visible = metas
+    .filter((meta): meta is CharacterMeta => isPublicCharacter(meta))
+    // Per-user ids come from an unordered set.
+    .sort(
+      (left, right) =>
+        right.createdAt.localeCompare(left.createdAt) || right.id - left.id,
+    );
+  const { items, ...page } = buildPage(visible, pageParams);
+  return {
+    characters: items.map(toPublicCharacter),
+    creator,
+    ...page,
+  };
+}
+
+async function getCharacterDetail(
+  characterId: number,
+  stores: { worldStore: PublicApiWorldStore; worldFiles: PublicApiWorldFiles },
+): Promise<unknown> {
+  if (!Number.isSafeInteger(characterId) || characterId <= 0) {
+    return null;
+  }
+  const meta = await stores.worldStore.getCharacter(characterId);
+  if (!isPublicCharacter(meta)) {
+    return null;
+  }
+  const card = await stores.worldFiles.readCharacterCard(meta.id);
+  return { ...toPublicCharacter(meta), card };
+}
+
+function isPublicCharacter(meta: CharacterMeta | null): meta is CharacterMeta {
+  return Boolean(
+    meta && meta.visibility === "public" && meta.status !== "failed",
+  );
+}
+
+/** Channel/role ids and moderation settings stay internal. */
+function toPublicWorld(meta: WorldActiveMeta) {
+  return {
+    id: meta.id,
+    name: meta.name,
+    status: meta.status,
+    creatorId: meta.creatorId,
+    homeGuildId: meta.homeGuildId,
+    createdAt: meta.createdAt,
+    updatedAt: meta.updatedAt,
+  };
+}
+
+function toPublicCharacter(meta: CharacterMeta) {
+  return {
+    id: meta.id,
+    name: meta.name,
+    status: meta.status,
+    creatorId: meta.creatorId,
+    createdAt: meta.createdAt,
+    updatedAt: meta.updatedAt,
+  };
+}
+
+function buildCachedJsonResponse(req: Request, body: unknown): Response {
+  const json = JSON.stringify(body);
+  const etag = `"${createHash("sha256").update(json).digest("base64url").slice(0, 27)}"`;
+  const headers = {
+    "content-type": "application/json; charset=utf-8",
+    "cache-control": "no-cache",
+    etag,
+  };
+  if (matchesEtag(req.headers.get("if-none-match"), etag)) {
+    return new Response(null, { status: 304, headers });
+  }
+  return new Response(json, { headers });
+}
+
+/** Weak comparison, as If-None-Match requires (RFC 9110 §13.1.2). */
+function matchesEtag(header: string | null, etag: string): boolean {
+  if (!header) {
+    return false;
+  }
+  return header
+    .split(",")
+    .map((candidate) => candidate.trim().replace(/^W\//, ""))
+    .some((candidate) => candidate === "*" || candidate === etag);
+}
@@ -0,0 +1,68 @@
+export type PageParams = { offset: number; limit: number };
+
+/** Reads `offset`/`limit`; returns an error message for a 400 response. */
+export function parsePageParams(
+  params: URLSearchParams,
+  options: { defaultLimit: number; maxLimit: number },
+): PageParams | string {
+  const offset = parseIntegerParam(params.get("offset"), 0);
+  if (offset === null || offset < 0) {
+    return "Invalid offset";
+  }
+  const limit = parseLimitParam(params, options);
+  return typeof limit === "string" ? limit : { offset, limit };
+}
+
+/** Reads `limit` alone, for cursor-based endpoints. */
+export function parseLimitParam(
+  params: URLSearchParams,
+  options: { defaultLimit: number; maxLimit: number },
+): number | string {
+  const limit = parseIntegerParam(params.get("limit"), options.defaultLimit);
+  if (limit === null || limit < 1 || limit > options.maxLimit) {
+    return `Invalid limit: use 1-${options.maxLimit}`;
+  }
+  return limit;
+}
+
+export function buildPage<T>(
+  items: T[],
+  page: PageParams,
+): { items: T[]; total: number; nextOffset: number | null } & PageParams {
+  const end = page.offset + page.limit;
+  return {
+    items: items.slice(page.offset, end),
+    total: items.length,
+    ...page,
+    nextOffset: end < items.length ? end : null,
+  };
+}
+
+function parseIntegerParam(
+  value: string | null,
+  fallback: number,
+): number | null {
+  const trimmed = value?.trim();
+  if (!trimmed) {
+    return fallback;
+  }
+  const parsed = Number(trimmed);
+  return Number.isInteger(parsed) ? parsed : null;
+}
+
+/** Date-only values are UTC days; a date-only `to` includes that whole day. */
+export function parseTimeParam(
+  value: string | null,
+  endOfDay: boolean,
+): number | null {
+  const trimmed = value?.trim();
+  if (!trimmed) {
+    return null;
+  }
+  const parsed = Date.parse(trimmed);
+  if (Number.isNaN(parsed)) {
+    return Number.NaN;
+  }
+  const isDateOnly = /^\d{4}-\d{2}-\d{2}$/.test(trimmed);
+  return isDateOnly && endOfDay ? parsed + 24 * 60 * 60 * 1000 : parsed;
+}
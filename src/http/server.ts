@@ -1,14 +1,52 @@
 import type { Logger } from "pino";
 
 import { getConfig } from "../config";
+import { renderPrometheusMetrics } from "../metrics";
+import {
+  UnsupportedUsageQueryError,
+  type UsageQuery,
+  type UsageStore,
+} from "../session/usage";
 import { resolveDataRoot } from "../utils/data-root";
 import { isSafePathSegment } from "../utils/path";
+import { WorldFileStore } from "../world/file-store";
+import {
+  handleGroupAdminRequest,
+  isGroupAdminPath,
+  type GroupAdminStore,
+} from "./group-admin";
+import {
+  handleHealthProbeRequest,
+  isHealthProbePath,
+  type HealthCheck,
+} from "./health";
+import {
+  handlePublicApiRequest,
+  isPublicApiPath,
+  type PublicApiWorldFiles,
+  type PublicApiWorldStore,
+} from "./public-api";
+import { parseTimeParam } from "./query-params";
+import {
+  handleSessionInspectionRequest,
+  isSessionInspectionPath,
+  type SessionInspectionStores,
+} from "./session-inspection";
 import { handleWikiRequest } from "./wiki";
 
 export interface HttpServerOptions {
   logger: Logger;
   port?: number;
   onReloadGroup?: (groupId: string) => Promise<boolean>;
+  usageStore?: UsageStore;
+  /** Enables the group config/agent admin API (needs API_TOKEN). */
+  groupStore?: GroupAdminStore;
+  /** Enables the public read-only world/character API. */
+  worldStore?: PublicApiWorldStore;
+  /** Enables the session/history/buffer inspection API (needs API_TOKEN). */
+  sessions?: SessionInspectionStores;
+  /** Dependency checks behind /health/live and /health/ready. */
+  healthChecks?: HealthCheck[];
 }
 
 export type HttpServer = ReturnType<typeof Bun.serve>;
@@ -20,8 +58,17 @@ export interface HttpRequestHandlerContext {
   apiToken: string | null;
   dataRoot: string;
   onReloadGroup?: (groupId: string) => Promise<boolean>;
+  usageStore?: UsageStore;
+  groupStore?: GroupAdminStore;
+  worldStore?: PublicApiWorldStore;
+  worldFiles?: PublicApiWorldFiles;
+  sessions?: SessionInspectionStores;
+  healthChecks?: HealthCheck[];
 }
 
+const DEFAULT_USAGE_RANGE_MS = 7 * 24 * 60 * 60 * 1000;
+const MAX_USAGE_RANGE_MS = 366 * 24 * 60 * 60 * 1000;
+
 let cachedVersion: string | null = null;
 
 export async function startHttpServer(
@@ -41,6 +88,14 @@ export async function startHttpServer(
     apiToken,
     dataRoot,
     onReloadGroup: options.onReloadGroup,
+    usageStore: options.usageStore,
+    groupStore: options.groupStore,
+    worldStore: options.worldStore,
+    worldFiles: options.worldStore
+      ? new WorldFileStore({ logger: options.logger, dataRoot })
+      : undefined,
+    sessions: options.sessions,
+    healthChecks: options.healthChecks,
   };
 
   const server = Bun.serve({
@@ -61,6 +116,8 @@ export function handleHttpRequest(
   let url = new URL(req.url);
   if (
     url.pathname !== "/health" &&
+    !isHealthProbePath(url.pathname) &&
+    url.pathname !== "/metrics" &&
     !url.pathname.startsWith("/wiki") &&
     !url.pathname.startsWith("/api/") &&
     (req.method === "GET" || req.method === "HEAD")
@@ -80,6 +137,22 @@ export function handleHttpRequest(
     });
   }
 
+  if (isHealthProbePath(url.pathname)) {
+    return handleHealthProbeRequest(url, context.healthChecks ?? [], {
+      version: context.version,
+      uptime: formatUptime(Date.now() - context.startedAt),
+    });
+  }
+
+  if (url.pathname === "/metrics") {
+    return renderPrometheusMetrics(context.logger).then(
+      (body) =>
+        new Response(body, {
+          headers: { "content-type": "text/plain; version=0.0.4" },
+        }),
+    );
+  }
+
   if (url.pathname.startsWith("/wiki")) {
     return handleWikiRequest(req, context).then((response) => {
       if (response) {
@@ -89,6 +162,30 @@ export function handleHttpRequest(
     });
   }
 
+  if (url.pathname === "/api/v1/usage") {
+    return handleUsageRequest(req, url, context);
+  }
+
+  if (isGroupAdminPath(url.pathname)) {
+    return handleGroupAdmin(req, url, context);
+  }
+
+  if (isSessionInspectionPath(url.pathname)) {
+    return handleSessionInspection(req, url, context);
+  }
+
+  if (isPublicApiPath(url.pathname)) {
+    if (!context.worldStore || !context.worldFiles) {
+      return new Response("Not Found", { status: 404 });
+    }
+    return handlePublicApiRequest(
+      req,
+      url,
+      { worldStore: context.worldStore, worldFiles: context.worldFiles },
+      context.logger,
+    );
+  }
+
   const reloadMatch = url.pathname.match(
     /^\/api\/v1\/groups\/([^/]+)\/reload$/,
   );
@@ -138,6 +235,129 @@ export function handleHttpRequest(
     });
 }
 
+function handleGroupAdmin(
+  req: Request,
+  url: URL,
+  context: HttpRequestHandlerContext,
+): Response | Promise<Response> {
+  const groupStore = context.groupStore;
+  if (!groupStore || !context.apiToken) {
+    return new Response("Not Found", { status: 404 });
+  }
+
+  if (!isAuthorized(req, context.apiToken)) {
+    return new Response("Unauthorized", {
+      status: 401,
+      headers: { "WWW-Authenticate": 'Bearer realm="api"' },
+    });
+  }
+
+  return handleGroupAdminRequest(req, url, groupStore, context.logger);
+}
+
+function handleSessionInspection(
+  req: Request,
+  url: URL,
+  context: HttpRequestHandlerContext,
+): Response | Promise<Response> {
+  const sessions = context.sessions;
+  if (!sessions || !context.apiToken) {
+    return new Response("Not Found", { status: 404 });
+  }
+
+  if (!isAuthorized(req, context.apiToken)) {
+    return new Response("Unauthorized", {
+      status: 401,
+      headers: { "WWW-Authenticate": 'Bearer realm="api"' },
+    });
+  }
+
+  return handleSessionInspectionRequest(req, url, sessions, context.logger);
+}
+
+function handleUsageRequest(
+  req: Request,
+  url: URL,
+  context: HttpRequestHandlerContext,
+): Response | Promise<Response> {
+  const usageStore = context.usageStore;
+  if (!usageStore || !context.apiToken) {
+    return new Response("Not Found", { status: 404 });
+  }
+
+  if (!isAuthorized(req, context.apiToken)) {
+    return new Response("Unauthorized", {
+      status: 401,
+      headers: { "WWW-Authenticate": 'Bearer realm="api"' },
+    });
+  }
+
+  if (req.method !== "GET") {
+    return new Response("Method Not Allowed", {
+      status: 405,
+      headers: { Allow: "GET" },
+    });
+  }
+
+  const query = parseUsageQuery(url.searchParams);
+  if (typeof query === "string") {
+    return new Response(query, { status: 400 });
+  }
+
+  return usageStore
+    .summarize(query)
+    .then((summary) => Response.json({ ...query, ...summary }))
+    .catch((err) => {
+      if (err instanceof UnsupportedUsageQueryError) {
+        return new Response(err.message, { status: 400 });
+      }
+      context.logger.error({ err, query }, "Failed to summarize usage");
+      return new Response("Usage query failed", { status: 500 });
+    });
+}
+
+/** Returns the parsed query, or an error message for a 400 response. */
+function parseUsageQuery(params: URLSearchParams): UsageQuery | string {
+  const now = Date.now();
+  const to = parseTimeParam(params.get("to"), true) ?? now;
+  const from =
+    parseTimeParam(params.get("from"), false) ?? to - DEFAULT_USAGE_RANGE_MS;
+  if (Number.isNaN(from) || Number.isNaN(to)) {
+    return "Invalid from/to: use ISO 8601 or YYYY-MM-DD";
+  }
+  if (from >= to) {
+    return "from must be before to";
+  }
+  if (to - from > MAX_USAGE_RANGE_MS) {
+    return "Range must not exceed 366 days";
+  }
+
+  const query: UsageQuery = {
+    from: new Date(from).toISOString(),
+    to: new Date(to).toISOString(),
+  };
+  const groupId = params.get("groupId")?.trim();
+  if (groupId) {
+    if (!isSafePathSegment(groupId)) {
+      return "Invalid groupId";
+    }
+    query.groupId = groupId;
+  }
+  const userId = params.get("userId")?.trim();
+  if (userId) {
+    query.userId = userId;
+  }
+  const worldId = params.get("worldId")?.trim();
+  if (worldId) {
+    const parsed = Number(worldId);
+    if (!Number.isInteger(parsed) || parsed <= 0) {
+      return "Invalid worldId";
+    }
+    query.worldId = parsed;
+  }
+  return query;
+}
+
 async function resolveVersion(): Promise<string> {
   if (cachedVersion) {
     return cachedVersion;
@@ -0,0 +1,240 @@
+import type { Logger } from "pino";
+
+import type { SessionBufferStore } from "../session/buffer";
+import type { HistoryStore } from "../session/history";
+import type { SessionRepository } from "../session/repository";
+import type { HistoryEntry } from "../types/session";
+import { botFsIdToAccountId } from "../utils/bot-id";
+import { isSafePathSegment } from "../utils/path";
+import { redactSensitiveValue } from "../utils/redact";
+import {
+  buildPage,
+  parseLimitParam,
+  parsePageParams,
+  parseTimeParam,
+} from "./query-params";
+
+export interface SessionInspectionStores {
+  sessionRepository: Pick<SessionRepository, "listSessions" | "loadSession">;
+  /** History endpoints return 404 without it (no DATABASE_URL). */
+  historyStore?: Pick<HistoryStore, "readSessionHistory">;
+  bufferStore?: Pick<SessionBufferStore, "inspect">;
+}
+
+const DEFAULT_SESSION_PAGE_SIZE = 50;
+const MAX_SESSION_PAGE_SIZE = 200;
+const DEFAULT_HISTORY_PAGE_SIZE = 50;
+const MAX_HISTORY_PAGE_SIZE = 200;
+const BUFFER_EVENT_LIMIT = 100;
+const HISTORY_ROLES = new Set<string>(["user", "assistant", "system"]);
+
+const SESSION_LIST_PATH = "/api/v1/sessions";
+const SESSION_PATTERN =
+  /^\/api\/v1\/sessions\/([^/]+)\/([^/]+)\/([^/]+)\/([^/]+)(\/history)?$/;
+const BUFFER_PATTERN = /^\/api\/v1\/buffers\/([^/]+)\/([^/]+)\/([^/]+)$/;
+
+/** Whether the path belongs to the session inspection API (auth is checked by the caller). */
+export function isSessionInspectionPath(pathname: string): boolean {
+  return (
+    pathname === SESSION_LIST_PATH ||
+    SESSION_PATTERN.test(pathname) ||
+    BUFFER_PATTERN.test(pathname)
+  );
+}
+
+/** Read-only views for support staff; secrets are redacted from every body. */
+export async function handleSessionInspectionRequest(
+  req: Request,
+  url: URL,
+  stores: SessionInspectionStores,
+  logger: Logger,
+): Promise<Response> {
+  if (req.method !== "GET") {
+    return new Response("Method Not Allowed", {
+      status: 405,
+      headers: { Allow: "GET" },
+    });
+  }
+
+  try {
+    if (url.pathname === SESSION_LIST_PATH) {
+      return await listSessions(url.searchParams, stores);
+    }
+    const sessionMatch = url.pathname.match(SESSION_PATTERN);
+    if (sessionMatch) {
+      const segments = decodeSegments(sessionMatch.slice(1, 5));
+      if (!segments) {
+        return new Response("Invalid session path", { status: 400 });
+      }
+      const [botId, groupId, userId, sessionId] = segments;
+      const session = await stores.sessionRepository.loadSession(
+        botId,
+        groupId,
+        userId,
+        sessionId,
+      );
+      if (!session) {
+        return new Response("Not Found", { status: 404 });
+      }
+      if (!sessionMatch[5]) {
+        return Response.json({ meta: redactSensitiveValue(session.meta) });
+      }
+      return await readHistory(url.searchParams, stores, {
+        botId,
+        groupId,
+        sessionId,
+      });
+    }
+    const bufferMatch = url.pathname.match(BUFFER_PATTERN);
+    if (bufferMatch) {
+      return await inspectBuffer(bufferMatch.slice(1, 4), stores);
+    }
+    return new Response("Not Found", { status: 404 });
+  } catch (err) {
+    logger.error(
+      { err, method: req.method, path: url.pathname },
+      "Session inspection request failed",
+    );
+    return new Response("Session inspection request failed", { status: 500 });
+  }
+}
+
+async function listSessions(
+  params: URLSearchParams,
+  stores: SessionInspectionStores,
+): Promise<Response> {
+  const botId = params.get("botId")?.trim() ?? "";
+  const groupId = params.get("groupId")?.trim() ?? "";
+  const userId = params.get("userId")?.trim() || undefined;
+  if (!isSafePathSegment(botId) || !isSafePathSegment(groupId)) {
+    return new Response("botId and groupId are required", { status: 400 });
+  }
+  if (userId !== undefined && !isSafePathSegment(userId)) {
+    return new Response("Invalid userId", { status: 400 });
+  }
+  const pageParams = parsePageParams(params, {
+    defaultLimit: DEFAULT_SESSION_PAGE_SIZE,
+    maxLimit: MAX_SESSION_PAGE_SIZE,
+  });
+  if (typeof pageParams === "string") {
+    return new Response(pageParams, { status: 400 });
+  }
+
+  const sessions = await stores.sessionRepository.listSessions(
+    botId,
+    groupId,
+    userId,
+  );
+  const { items, ...page } = buildPage(sessions, pageParams);
+  return Response.json(
+    redactSensitiveValue({
+      sessions: items.map(({ meta, activeKey }) => ({
+        sessionId: meta.sessionId,
+        userId: meta.ownerId,
+        key: meta.key,
+        activeKey,
+        status: meta.status,
+        active: meta.active !== false,
+        opencodeSessionId: meta.opencodeSessionId ?? null,
+        pendingUserInput: meta.opencodePendingUserInput ?? null,
+        createdAt: meta.createdAt,
+        updatedAt: meta.updatedAt,
+        archivedAt: meta.archivedAt ?? null,
+      })),
+      ...page,
+    }),
+  );
+}
+
+async function readHistory(
+  params: URLSearchParams,
+  stores: SessionInspectionStores,
+  session: { botId: string; groupId: string; sessionId: string },
+): Promise<Response> {
+  if (!stores.historyStore) {
+    return new Response("Not Found", { status: 404 });
+  }
+  const botAccountId = botFsIdToAccountId(session.botId);
+  if (!botAccountId) {
+    return new Response("Invalid botId", { status: 400 });
+  }
+  const limit = parseLimitParam(params, {
+    defaultLimit: DEFAULT_HISTORY_PAGE_SIZE,
+    maxLimit: MAX_HISTORY_PAGE_SIZE,
+  });
+  if (typeof limit === "string") {
+    return new Response(limit, { status: 400 });
+  }
+  const role = params.get("role")?.trim() || undefined;
+  if (role !== undefined && !HISTORY_ROLES.has(role)) {
+    return new Response("Invalid role: use user, assistant or system", {
+      status: 400,
+    });
+  }
+  const from = parseTimeParam(params.get("from"), false);
+  const to = parseTimeParam(params.get("to"), true);
+  if (Number.isNaN(from) || Number.isNaN(to)) {
+    return new Response("Invalid from/to: use ISO 8601 or YYYY-MM-DD", {
+      status: 400,
+    });
+  }
+  const beforeId = params.get("before")?.trim() || undefined;
+  if (beforeId !== undefined && !/^\d+$/.test(beforeId)) {
+    return new Response("Invalid before: use an entry id", { status: 400 });
+  }
+
+  const entries = await stores.historyStore.readSessionHistory(
+    {
+      botAccountId,
+      groupId: session.groupId,
+      sessionId: session.sessionId,
+    },
+    {
+      role: role as HistoryEntry["role"] | undefined,
+      from: from === null ? undefined : new Date(from).toISOString(),
+      to: to === null ? undefined : new Date(to).toISOString(),
+      beforeId,
+      limit,
+    },
+  );
+  const last = entries[entries.length - 1];
+  return Response.json(
+    redactSensitiveValue({
+      sessionId: session.sessionId,
+      entries,
+      nextBefore: entries.length === limit ? (last?.id ?? null) : null,
+    }),
+  );
+}
+
+async function inspectBuffer(
+  rawSegments: string[],
+  stores: SessionInspectionStores,
+): Promise<Response> {
+  if (!stores.bufferStore) {
+    return new Response("Not Found", { status: 404 });
+  }
+  const segments = decodeSegments(rawSegments);
+  if (!segments) {
+    return new Response("Invalid buffer key", { status: 400 });
+  }
+  const [botId, groupId, sessionId] = segments;
+  const snapshot = await stores.bufferStore.inspect(
+    { botId, groupId, sessionId },
+    BUFFER_EVENT_LIMIT,
+  );
+  return Response.json(
+    redactSensitiveValue({ key: { botId, groupId, sessionId }, ...snapshot }),
+  );
+}
+
+function decodeSegments(raw: string[]): string[] | null {
+  try {
+    const decoded = raw.map((segment) => decodeURIComponent(segment));
+    return decoded.every((segment) => isSafePathSegment(segment))
+      ? decoded
+      : null;
+  } catch {
+    return null;
+  }
+}
@@ -5,6 +5,27 @@ import path from "node:path";
 import { fileURLToPath } from "node:url";
 
 import { isSafePathSegment } from "../utils/path";
+import {
+  parseWorldRevisionIndex,
+  WorldFileStore,
+  type WorldRevisionRecord,
+} from "../world/file-store";
+import type { WorldSearchHit } from "../world/search-index";
+import {
+  formatWorldDate,
+  minutesToWorldDate,
+  type WorldCalendar,
+} from "../world/calendar";
+import {
+  formatWorldQuestDetail,
+  sortWorldQuests,
+  type WorldQuest,
+} from "../world/quests";
+import {
+  filterWorldTimeline,
+  formatWorldTimelineEntry,
+  type WorldTimeline,
+} from "../world/timeline";
 
 export interface WikiRequestContext {
   logger: Logger;
@@ -16,6 +37,8 @@ type WikiLanguage = "zh" | "en";
 const WIKI_PREFIX = "/wiki";
 const CONTENT_TYPE_HTML = "text/html; charset=utf-8";
 const CONTENT_TYPE_MARKDOWN = "text/markdown; charset=utf-8";
+const CONTENT_TYPE_JSON = "application/json; charset=utf-8";
+const WIKI_SEARCH_LIMIT = 10;
 
 const PROJECT_ROOT = path.resolve(
   path.dirname(fileURLToPath(import.meta.url)),
@@ -133,6 +156,125 @@ export async function handleWikiRequest(
     return serveTextFile(filePath, CONTENT_TYPE_MARKDOWN);
   }
 
+  const worldHistoryMatch = subpath.match(
+    /^\/worlds\/W(\d+)\/history(?:\.md)?$/,
+  );
+  if (worldHistoryMatch) {
+    const worldId = Number(worldHistoryMatch[1]);
+    if (!Number.isInteger(worldId) || worldId <= 0) {
+      return new Response("Invalid worldId", { status: 400 });
+    }
+    const raw = await readTextFile(
+      path.join(
+        context.dataRoot,
+        "worlds",
+        String(worldId),
+        "revisions",
+        "index.jsonl",
+      ),
+    );
+    const records = parseWorldRevisionIndex(raw).reverse();
+    return new Response(buildWorldHistoryMarkdown(worldId, records, lang), {
+      headers: buildWikiHeaders(CONTENT_TYPE_MARKDOWN),
+    });
+  }
+
+  const worldQuestsMatch = subpath.match(/^\/worlds\/W(\d+)\/quests(?:\.md)?$/);
+  if (worldQuestsMatch) {
+    const worldId = Number(worldQuestsMatch[1]);
+    if (!Number.isInteger(worldId) || worldId <= 0) {
+      return new Response("Invalid worldId", { status: 400 });
+    }
+    const store = new WorldFileStore({
+      logger: context.logger,
+      dataRoot: context.dataRoot,
+    });
+    const quests = await store.readWorldQuests(worldId);
+    return new Response(
+      buildWorldQuestsMarkdown(worldId, quests.quests, lang),
+      { headers: buildWikiHeaders(CONTENT_TYPE_MARKDOWN) },
+    );
+  }
+
+  const worldTimelineMatch = subpath.match(
+    /^\/worlds\/W(\d+)\/timeline(?:\.md)?$/,
+  );
+  if (worldTimelineMatch) {
+    const worldId = Number(worldTimelineMatch[1]);
+    if (!Number.isInteger(worldId) || worldId <= 0) {
+      return new Response("Invalid worldId", { status: 400 });
+    }
+    const store = new WorldFileStore({
+      logger: context.logger,
+      dataRoot: context.dataRoot,
+    });
+    const { calendar, timeline } = await store.readWorldTimeline(worldId);
+    return new Response(
+      buildWorldTimelineMarkdown(worldId, calendar, timeline, lang),
+      { headers: buildWikiHeaders(CONTENT_TYPE_MARKDOWN) },
+    );
+  }
+
+  const worldSearchMatch = subpath.match(
+    /^\/worlds\/W(\d+)\/search(?:\.md|\.json)?$/,
+  );
+  if (worldSearchMatch) {
+    const worldId = Number(worldSearchMatch[1]);
+    if (!Number.isInteger(worldId) || worldId <= 0) {
+      return new Response("Invalid worldId", { status: 400 });
+    }
+    const query = (url.searchParams.get("q") ?? "").trim();
+    if (!query) {
+      return new Response("Missing q", { status: 400 });
+    }
+    const card = await readTextFile(
+      path.join(context.dataRoot, "worlds", String(worldId), "world-card.md"),
+    );
+    if (card === null) {
+      return new Response("Not Found", { status: 404 });
+    }
+    const store = new WorldFileStore({
+      logger: context.logger,
+      dataRoot: context.dataRoot,
+    });
+    const hits = await store.searchWorld(worldId, query, {
+      limit: WIKI_SEARCH_LIMIT,
+    });
+    if (
+      subpath.endsWith(".json") ||
+      url.searchParams.get("format") === "json"
+    ) {
+      return new Response(JSON.stringify({ worldId, query, hits }), {
+        headers: buildWikiHeaders(CONTENT_TYPE_JSON),
+      });
+    }
+    return new Response(buildWorldSearchMarkdown(worldId, query, hits, lang), {
+      headers: buildWikiHeaders(CONTENT_TYPE_MARKDOWN),
+    });
+  }
+
+  const worldRevisionMatch = subpath.match(
+    /^\/worlds\/W(\d+)\/revisions\/(\d+)\.md$/,
+  );
+  if (worldRevisionMatch) {
+    const worldId = Number(worldRevisionMatch[1]);
+    const rev = Number(worldRevisionMatch[2]);
+    if (!Number.isInteger(worldId) || worldId <= 0) {
+      return new Response("Invalid worldId", { status: 400 });
+    }
+    if (!Number.isInteger(rev) || rev <= 0) {
+      return new Response("Invalid revision", { status: 400 });
+    }
+    const filePath = path.join(
+      context.dataRoot,
+      "worlds",
+      String(worldId),
+      "revisions",
+      `${String(rev)}.md`,
+    );
+    return serveTextFile(filePath, CONTENT_TYPE_MARKDOWN);
+  }
+
   const worldCanonMatch = subpath.match(/^\/worlds\/W(\d+)\/canon\/([^/]+)$/);
   if (worldCanonMatch) {
     const worldId = Number(worldCanonMatch[1]);
@@ -349,6 +491,9 @@ async function buildWikiSidebar(
       lines.push(`  - ${escapeSidebarText(display)}`);
       lines.push(`    - [world-card](worlds/W${world.id}/world-card.md)`);
       lines.push(`    - [rules](worlds/W${world.id}/rules.md)`);
+      lines.push(`    - [history](worlds/W${world.id}/history.md)`);
+      lines.push(`    - [quests](worlds/W${world.id}/quests.md)`);
+      lines.push(`    - [timeline](worlds/W${world.id}/timeline.md)`);
       if (world.canonFiles.length > 0) {
         lines.push("    - canon");
         for (const filename of world.canonFiles) {
@@ -438,6 +583,170 @@ async function listCharacterEntries(
   return results;
 }
 
+function buildWorldHistoryMarkdown(
+  worldId: number,
+  records: WorldRevisionRecord[],
+  lang: WikiLanguage,
+): string {
+  const title =
+    lang === "en" ? `# W${worldId} revisions` : `# W${worldId} 版本记录`;
+  if (records.length === 0) {
+    return [
+      title,
+      "",
+      lang === "en" ? "(No revisions)" : "(暂无版本记录)",
+      "",
+    ].join("\n");
+  }
+  const header =
+    lang === "en"
+      ? "| rev | file | source | author | time | sha256 |"
+      : "| 版本 | 文件 | 来源 | 作者 | 时间 | sha256 |";
+  const lines = [title, "", header, "| --- | --- | --- | --- | --- | --- |"];
+  for (const record of records.slice(0, 500)) {
+    const restored =
+      record.restoredFrom !== undefined ? ` ← r${record.restoredFrom}` : "";
+    lines.push(
+      `| [r${record.rev}](worlds/W${worldId}/revisions/${record.rev}.md) | ${escapeSidebarText(record.file)} | ${record.source}${restored} | ${escapeSidebarText(record.author)} | ${record.createdAt} | \`${record.hash.slice(0, 12)}\` |`,
+    );
+  }
+  lines.push("");
+  return lines.join("\n");
+}
+
+function buildWorldQuestsMarkdown(
+  worldId: number,
+  quests: WorldQuest[],
+  lang: WikiLanguage,
+): string {
+  const sorted = sortWorldQuests(quests);
+  const open = sorted.filter((quest) => quest.status === "open");
+  const closed = sorted.filter((quest) => quest.status !== "open");
+  const lines = [lang === "en" ? `# W${worldId} quests` : `# W${worldId} 任务`];
+  const section = (title: string, items: WorldQuest[], empty: string) => {
+    lines.push("", `## ${title}`, "");
+    if (items.length === 0) {
+      lines.push(empty);
+      return;
+    }
+    for (const quest of items.slice(0, 200)) {
+      const [heading = "", ...rest] = formatWorldQuestDetail(quest, lang).split(
+        "\n",
+      );
+      // Field lines become a list; objectives nest under the last field.
+      const body = rest.map((line) =>
+        line.startsWith("- ") ? `  ${line}` : `- ${line}`,
+      );
+      lines.push(`### ${escapeSidebarText(heading)}`, "", ...body, "");
+    }
+  };
+  section(
+    lang === "en" ? "Open" : "进行中",
+    open,
+    lang === "en" ? "(No open quests)" : "(暂无进行中的任务)",
+  );
+  section(
+    lang === "en" ? "Closed" : "已结束",
+    closed,
+    lang === "en" ? "(No closed quests)" : "(暂无已结束的任务)",
+  );
+  lines.push("");
+  return lines.join("\n");
+}
+
+function buildWorldTimelineMarkdown(
+  worldId: number,
+  calendar: WorldCalendar,
+  timeline: WorldTimeline,
+  lang: WikiLanguage,
+): string {
+  const lines = [
+    lang === "en" ? `# W${worldId} timeline` : `# W${worldId} 时间线`,
+    "",
+    timeline.clock === null
+      ? lang === "en"
+        ? "In-world time: (not set)"
+        : "世界时间：(未设定)"
+      : `${lang === "en" ? "In-world time: " : "世界时间："}**${formatWorldDate(calendar, timeline.clock, lang)}**`,
+  ];
+  const entries = filterWorldTimeline(timeline, {});
+  if (entries.length === 0) {
+    lines.push("", lang === "en" ? "(No entries)" : "(暂无时间线条目)", "");
+    return lines.join("\n");
+  }
+  let currentYear: number | null = null;
+  for (const entry of entries) {
+    const { year } = minutesToWorldDate(calendar, entry.at);
+    if (year !== currentYear) {
+      currentYear = year;
+      lines.push("", lang === "en" ? `## Year ${year}` : `## ${year} 年`, "");
+    }
+    // Anything after the clock has not happened yet in the story.
+    const upcoming =
+      timeline.clock !== null && entry.at > timeline.clock
+        ? lang === "en"
+          ? " _(upcoming)_"
+          : " _(未到来)_"
+        : "";
+    lines.push(
+      `- ${escapeSidebarText(formatWorldTimelineEntry(calendar, entry, lang))}${upcoming}`,
+    );
+    if (entry.content) {
+      lines.push(
+        `  - ${escapeSidebarText(entry.content.replace(/\n+/g, " "))}`,
+      );
+    }
+  }
+  lines.push("");
+  return lines.join("\n");
+}
+
+function buildWorldSearchMarkdown(
+  worldId: number,
+  query: string,
+  hits: WorldSearchHit[],
+  lang: WikiLanguage,
+): string {
+  const title =
+    lang === "en"
+      ? `# W${worldId} search: ${escapeSidebarText(query)}`
+      : `# W${worldId} 搜索：${escapeSidebarText(query)}`;
+  if (hits.length === 0) {
+    return [title, "", lang === "en" ? "(No results)" : "(无结果)", ""].join(
+      "\n",
+    );
+  }
+  const lines = [title, ""];
+  hits.forEach((hit, index) => {
+    const label = escapeSidebarText(
+      hit.heading ? `${hit.file} › ${hit.heading}` : hit.file,
+    );
+    const link = buildWorldFileWikiLink(worldId, hit);
+    lines.push(
+      `${index + 1}. ${link ? `[${label}](${link})` : label}`,
+      `   > ${escapeSidebarText(hit.snippet)}`,
+    );
+  });
+  lines.push("");
+  return lines.join("\n");
+}
+
+/** Submissions have no wiki page, so their hits are left unlinked. */
+function buildWorldFileWikiLink(
+  worldId: number,
+  hit: WorldSearchHit,
+): string | null {
+  const [file, slug] = hit.anchor.split("#", 2);
+  const anchor = slug ? `?id=${encodeURIComponent(slug)}` : "";
+  if (file === "world-card.md" || file === "rules.md") {
+    return `worlds/W${worldId}/${file}${anchor}`;
+  }
+  if (file?.startsWith("canon/")) {
+    return `worlds/W${worldId}/canon/${encodeURIComponent(file.slice("canon/".length))}${anchor}`;
+  }
+  return null;
+}
+
 function parseWorldName(content: string): string {
   const match = content.match(
     /^\s*-\s*(?:世界名称|World Name)\s*[:：]\s*(.+?)\s*$/im,
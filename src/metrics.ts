@@ -0,0 +1,376 @@
+import type { Logger } from "pino";
+
+import type { TelemetrySpanInput } from "./telemetry";
+
+const METRIC_PREFIX = "opencode_bot_";
+
+const DURATION_BUCKETS = [
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30,
+];
+const LONG_DURATION_BUCKETS = [0.5, 1, 2.5, 5, 10, 20, 30, 60, 120, 300, 600];
+
+/**
+ * Every exported series is declared here; names get the `opencode_bot_`
+ * prefix when rendered.
+ */
+const METRIC_DEFINITIONS = {
+  messages_received_total: {
+    type: "counter",
+    help: "Messages received by the adapter dispatcher.",
+    labelNames: ["platform"],
+  },
+  dispatch_plans_total: {
+    type: "counter",
+    help: "Dispatch routing plans by kind.",
+    labelNames: ["kind"],
+  },
+  telemetry_step_duration_seconds: {
+    type: "histogram",
+    help: "Duration of telemetry span steps, sampled or not.",
+    labelNames: ["phase", "step", "outcome"],
+    buckets: DURATION_BUCKETS,
+  },
+  enqueue_latency_seconds: {
+    type: "histogram",
+    help: "Time from receiving a message to enqueueing its session job.",
+    labelNames: [],
+    buckets: DURATION_BUCKETS,
+  },
+  queue_jobs: {
+    type: "gauge",
+    help: "BullMQ session queue jobs by state.",
+    labelNames: ["state"],
+  },
+  session_job_duration_seconds: {
+    type: "histogram",
+    help: "Session job processing duration in the worker.",
+    labelNames: ["outcome"],
+    buckets: LONG_DURATION_BUCKETS,
+  },
+  opencode_run_duration_seconds: {
+    type: "histogram",
+    help: "opencode run duration by model and outcome.",
+    labelNames: ["model", "outcome"],
+    buckets: LONG_DURATION_BUCKETS,
+  },
+  send_failures_total: {
+    type: "counter",
+    help: "Replies that failed to send.",
+    labelNames: ["platform"],
+  },
+  buffer_recoveries_total: {
+    type: "counter",
+    help: "Orphaned session buffers re-enqueued by the worker.",
+    labelNames: [],
+  },
+  qq_connections: {
+    type: "gauge",
+    help: "Active QQ bot connections by source.",
+    labelNames: ["source"],
+  },
+} as const satisfies Record<string, MetricDefinition>;
+
+type MetricDefinition =
+  | { type: "counter" | "gauge"; help: string; labelNames: readonly string[] }
+  | {
+      type: "histogram";
+      help: string;
+      labelNames: readonly string[];
+      buckets: readonly number[];
+    };
+
+type Definitions = typeof METRIC_DEFINITIONS;
+type MetricNameOfType<T extends MetricDefinition["type"]> = {
+  [K in keyof Definitions]: Definitions[K]["type"] extends T ? K : never;
+}[keyof Definitions];
+
+export type CounterName = MetricNameOfType<"counter">;
+export type HistogramName = MetricNameOfType<"histogram">;
+export type GaugeName = MetricNameOfType<"gauge">;
+export type MetricLabels = Record<string, string>;
+
+export interface GaugeSample {
+  labels?: MetricLabels;
+  value: number;
+}
+
+/** Gauges are read at scrape time instead of being kept up to date. */
+export type GaugeCollector = () => Promise<GaugeSample[]> | GaugeSample[];
+
+interface CounterSeries {
+  labels: MetricLabels;
+  value: number;
+}
+
+interface HistogramSeries {
+  labels: MetricLabels;
+  bucketCounts: number[];
+  sum: number;
+  count: number;
+}
+
+const counters = new Map<CounterName, Map<string, CounterSeries>>();
+const histograms = new Map<HistogramName, Map<string, HistogramSeries>>();
+const gaugeCollectors = new Map<GaugeName, Set<GaugeCollector>>();
+
+export function incrementCounter(
+  name: CounterName,
+  labels: MetricLabels = {},
+  value = 1,
+): void {
+  const series = getOrCreate(counters, name);
+  const key = serializeLabels(labels);
+  const existing = series.get(key);
+  if (existing) {
+    existing.value += value;
+    return;
+  }
+  series.set(key, { labels, value });
+}
+
+export function observeHistogram(
+  name: HistogramName,
+  labels: MetricLabels,
+  seconds: number,
+): void {
+  if (!Number.isFinite(seconds)) {
+    return;
+  }
+  const buckets = METRIC_DEFINITIONS[name].buckets;
+  const series = getOrCreate(histograms, name);
+  const key = serializeLabels(labels);
+  let entry = series.get(key);
+  if (!entry) {
+    entry = {
+      labels,
+      bucketCounts: buckets.map(() => 0),
+      sum: 0,
+      count: 0,
+    };
+    series.set(key, entry);
+  }
+  buckets.forEach((bound, index) => {
+    if (seconds <= bound) {
+      entry.bucketCounts[index] += 1;
+    }
+  });
+  entry.sum += seconds;
+  entry.count += 1;
+}
+
+/** Returns a function that removes the collector again (e.g. on shutdown). */
+export function registerGaugeCollector(
+  name: GaugeName,
+  collector: GaugeCollector,
+): () => void {
+  const collectors = gaugeCollectors.get(name) ?? new Set<GaugeCollector>();
+  collectors.add(collector);
+  gaugeCollectors.set(name, collectors);
+  return () => {
+    collectors.delete(collector);
+  };
+}
+
+/** Registers a gauge fed by a `{ [labelValue]: count }` snapshot. */
+export function registerCountsGauge(
+  name: GaugeName,
+  labelName: string,
+  readCounts: () => Promise<Record<string, number>> | Record<string, number>,
+): () => void {
+  return registerGaugeCollector(name, async () =>
+    Object.entries(await readCounts()).map(([labelValue, value]) => ({
+      labels: { [labelName]: labelValue },
+      value,
+    })),
+  );
+}
+
+/**
+ * Derives metrics from a finished `withTelemetrySpan` step. Called for every
+ * span, including those skipped by TELEMETRY_SAMPLE_RATE.
+ */
+export function recordTelemetryStep(
+  input: TelemetrySpanInput,
+  durationSeconds: number,
+  ok: boolean,
+): void {
+  const outcome = ok ? "ok" : "error";
+  const platform = input.message?.platform?.toLowerCase() || "unknown";
+  observeHistogram(
+    "telemetry_step_duration_seconds",
+    { phase: input.phase, step: input.step, outcome },
+    durationSeconds,
+  );
+  switch (input.step) {
+    case "dispatch":
+      incrementCounter("messages_received_total", { platform });
+      return;
+    case "queue_enqueue": {
+      const startedAt = input.attrs?.traceStartedAt;
+      const enqueuedAt = input.attrs?.enqueuedAt;
+      if (
+        ok &&
+        typeof startedAt === "number" &&
+        typeof enqueuedAt === "number"
+      ) {
+        observeHistogram(
+          "enqueue_latency_seconds",
+          {},
+          Math.max(0, enqueuedAt - startedAt) / 1000,
+        );
+      }
+      return;
+    }
+    case "job_process":
+      observeHistogram(
+        "session_job_duration_seconds",
+        { outcome },
+        durationSeconds,
+      );
+      return;
+    case "opencode_run":
+      observeHistogram(
+        "opencode_run_duration_seconds",
+        { model: formatModelLabel(input.attrs), outcome },
+        durationSeconds,
+      );
+      return;
+    case "send_response":
+      if (!ok) {
+        incrementCounter("send_failures_total", { platform });
+      }
+      return;
+    default:
+      return;
+  }
+}
+
+/** Prometheus text exposition format 0.0.4. */
+export async function renderPrometheusMetrics(
+  logger?: Logger,
+): Promise<string> {
+  const lines: string[] = [];
+  for (const [name, definition] of Object.entries(METRIC_DEFINITIONS) as [
+    keyof Definitions,
+    MetricDefinition,
+  ][]) {
+    const fullName = `${METRIC_PREFIX}${name}`;
+    lines.push(`# HELP ${fullName} ${definition.help}`);
+    lines.push(`# TYPE ${fullName} ${definition.type}`);
+    const unlabeled = definition.labelNames.length === 0;
+    if (definition.type === "counter") {
+      const series = counters.get(name as CounterName);
+      if (!series?.size && unlabeled) {
+        lines.push(`${fullName} 0`);
+      }
+      for (const entry of series?.values() ?? []) {
+        lines.push(
+          `${fullName}${formatLabels(entry.labels)} ${formatValue(entry.value)}`,
+        );
+      }
+    } else if (definition.type === "histogram") {
+      const series = histograms.get(name as HistogramName);
+      const entries = [...(series?.values() ?? [])];
+      if (entries.length === 0 && unlabeled) {
+        entries.push({
+          labels: {},
+          bucketCounts: definition.buckets.map(() => 0),
+          sum: 0,
+          count: 0,
+        });
+      }
+      for (const entry of entries) {
+        definition.buckets.forEach((bound, index) => {
+          lines.push(
+            `${fullName}_bucket${formatLabels({ ...entry.labels, le: formatValue(bound) })} ${entry.bucketCounts[index]}`,
+          );
+        });
+        lines.push(
+          `${fullName}_bucket${formatLabels({ ...entry.labels, le: "+Inf" })} ${entry.count}`,
+        );
+        lines.push(
+          `${fullName}_sum${formatLabels(entry.labels)} ${formatValue(entry.sum)}`,
+        );
+        lines.push(
+          `${fullName}_count${formatLabels(entry.labels)} ${entry.count}`,
+        );
+      }
+    } else {
+      for (const collector of gaugeCollectors.get(name as GaugeName) ?? []) {
+        try {
+          for (const sample of await collector()) {
+            lines.push(
+              `${fullName}${formatLabels(sample.labels ?? {})} ${formatValue(sample.value)}`,
+            );
+          }
+        } catch (err) {
+          logger?.warn({ err, metric: fullName }, "Gauge collector failed");
+        }
+      }
+    }
+  }
+  return `${lines.join("\n")}\n`;
+}
+
+/** Clears all series and collectors; for tests. */
+export function resetMetrics(): void {
+  counters.clear();
+  histograms.clear();
+  gaugeCollectors.clear();
+}
+
+function formatModelLabel(attrs: Record<string, unknown> | undefined): string {
+  const provider = attrs?.modelProvider;
+  const model = attrs?.modelId;
+  if (typeof model !== "string" || !model) {
+    return "default";
+  }
+  return typeof provider === "string" && provider
+    ? `${provider}/${model}`
+    : model;
+}
+
+function getOrCreate<K, V>(map: Map<K, Map<string, V>>, key: K) {
+  let series = map.get(key);
+  if (!series) {
+    series = new Map<string, V>();
+    map.set(key, series);
+  }
+  return series;
+}
+
+function serializeLabels(labels: MetricLabels): string {
+  return JSON.stringify(
+    Object.keys(labels)
+      .sort()
+      .map((key) => [key, labels[key]]),
+  );
+}
+
+function formatLabels(labels: MetricLabels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) {
+    return "";
+  }
+  const rendered = entries.map(
+    ([key, value]) => `${key}="${escapeLabelValue(value)}"`,
+  );
+  return `{${rendered.join(",")}}`;
+}
+
+function escapeLabelValue(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, "\\n");
+}
+
+function formatValue(value: number): string {
+  if (value === Number.POSITIVE_INFINITY) {
+    return "+Inf";
+  }
+  if (value === Number.NEGATIVE_INFINITY) {
+    return "-Inf";
+  }
+  return String(value);
+}
@@ -1,6 +1,6 @@
 import { describe, expect, test } from "bun:test";
 
-import { buildOpencodePrompt } from "../prompt";
+import { buildOpencodePrompt, buildOpencodeSystemContext } from "../prompt";
 import { buildSystemPrompt } from "../default-system-prompt";
 
 describe("buildSystemPrompt", () => {
@@ -34,3 +34,71 @@ describe("buildOpencodePrompt", () => {
     expect(prompt).toContain("User:\nping");
   });
 });
+
+describe("buildOpencodeSystemContext", () => {
+  test("renders summaries before the recent window", () => {
+    const system = buildOpencodeSystemContext({
+      systemPrompt: "SYSTEM",
+      history: [
+        {
+          role: "system",
+          content: "勇者已离开王城。",
+          createdAt: "t",
+          context: "summary",
+        },
+        {
+          role: "user",
+          content: "hi",
+          createdAt: "t",
+          context: "group_window",
+        },
+      ],
+    });
+    expect(system).toBe(
+      "SYSTEM\n\n早前对话摘要:\n勇者已离开王城。\n\n群窗口:\nuser [t]: hi",
+    );
+  });
+
+  test("places triggered world lore right after the system prompt", () => {
+    const system = buildOpencodeSystemContext({
+      systemPrompt: "SYSTEM",
+      history: [
+        {
+          role: "system",
+          content: "勇者已离开王城。",
+          createdAt: "t",
+          context: "summary",
+        },
+      ],
+      worldLore: "### 王城\n王城位于北方。",
+    });
+    expect(system).toBe(
+      "SYSTEM\n\n世界设定条目（按关键词触发）:\n### 王城\n王城位于北方。\n\n早前对话摘要:\n勇者已离开王城。",
+    );
+  });
+
+  test("adds the character sheet after world lore", () => {
+    const system = buildOpencodeSystemContext({
+      systemPrompt: "SYSTEM",
+      history: [],
+      worldLore: "### 王城\n王城位于北方。",
+      characterSheet: "C3 艾琳\n资源：生命 7/10",
+    });
+    expect(system).toBe(
+      "SYSTEM\n\n世界设定条目（按关键词触发）:\n### 王城\n王城位于北方。\n\n当前角色状态（以此为准）:\nC3 艾琳\n资源：生命 7/10",
+    );
+  });
+
+  test("adds world time and open quests after the character sheet", () => {
+    const system = buildOpencodeSystemContext({
+      systemPrompt: "SYSTEM",
+      history: [],
+      characterSheet: "C3 艾琳",
+      worldTime: "当前：1024年 3月 15日 08:00",
+      worldQuests: "Q1 失踪的商队 [进行中]",
+    });
+    expect(system).toBe(
+      "SYSTEM\n\n当前角色状态（以此为准）:\nC3 艾琳\n\n世界时间（以此为准）:\n当前：1024年 3月 15日 08:00\n\n世界任务（进行中，以此为准）:\nQ1 失踪的商队 [进行中]",
+    );
+  });
+});
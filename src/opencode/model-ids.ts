@@ -34,3 +34,18 @@ export function selectOpencodeModelId(
   }
   return allowedModelIds[0];
 }
+
+/** Budget fallback: the configured model if allowed, else the last entry. */
+export function selectOpencodeDowngradeModelId(
+  allowedModelIds: readonly string[],
+  downgradeModel: string | null | undefined,
+): string {
+  if (allowedModelIds.length === 0) {
+    throw new Error(OPENCODE_MODELS_EMPTY_ERROR);
+  }
+  const requested = sanitizeOpencodeModelIdOverride(downgradeModel ?? "");
+  if (requested && allowedModelIds.includes(requested)) {
+    return requested;
+  }
+  return allowedModelIds[allowedModelIds.length - 1];
+}
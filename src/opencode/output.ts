@@ -17,6 +17,18 @@ export type OpencodePendingUserInput = {
   opencodeCallId?: string;
 };
 
+/** Token counts and cost summed over every assistant message of one run. */
+export type OpencodeRunUsage = {
+  providerId?: string;
+  modelId?: string;
+  inputTokens: number;
+  outputTokens: number;
+  reasoningTokens: number;
+  cacheReadTokens: number;
+  cacheWriteTokens: number;
+  cost: number;
+};
+
 export interface OpencodeRunResult {
   output?: string;
   /**
@@ -34,6 +46,7 @@ export interface OpencodeRunResult {
    * user input (e.g. the interactive `question` tool).
    */
   pendingUserInput?: OpencodePendingUserInput;
+  usage?: OpencodeRunUsage;
 }
 
 export function parseOpencodeOutput(
@@ -16,6 +16,9 @@ export function buildOpencodePrompt(input: OpencodePromptInput): string {
   }
 
   const grouped = groupHistoryLines(input.history);
+  if (grouped.summary.length > 0) {
+    sections.push(`History (摘要):\n${grouped.summary.join("\n")}`);
+  }
   if (grouped.groupWindow.length > 0) {
     sections.push(`History (群窗口):\n${grouped.groupWindow.join("\n")}`);
   }
@@ -37,14 +40,41 @@ export function buildOpencodePrompt(input: OpencodePromptInput): string {
 export function buildOpencodeSystemContext(input: {
   systemPrompt: string;
   history: HistoryEntry[];
+  /** World lorebook entries triggered by the recent conversation. */
+  worldLore?: string;
+  /** The speaking character's sheet: stats, resources, items and statuses. */
+  characterSheet?: string;
+  /** In-world clock and the latest timeline entries. */
+  worldTime?: string;
+  /** Open quests of the world with objectives and participants. */
+  worldQuests?: string;
 }): string {
   const sections: string[] = [];
   const systemPrompt = input.systemPrompt.trim();
   if (systemPrompt) {
     sections.push(systemPrompt);
   }
+  const worldLore = input.worldLore?.trim();
+  if (worldLore) {
+    sections.push(`世界设定条目（按关键词触发）:\n${worldLore}`);
+  }
+  const characterSheet = input.characterSheet?.trim();
+  if (characterSheet) {
+    sections.push(`当前角色状态（以此为准）:\n${characterSheet}`);
+  }
+  const worldTime = input.worldTime?.trim();
+  if (worldTime) {
+    sections.push(`世界时间（以此为准）:\n${worldTime}`);
+  }
+  const worldQuests = input.worldQuests?.trim();
+  if (worldQuests) {
+    sections.push(`世界任务（进行中，以此为准）:\n${worldQuests}`);
+  }
 
   const grouped = groupHistoryLines(input.history);
+  if (grouped.summary.length > 0) {
+    sections.push(`早前对话摘要:\n${grouped.summary.join("\n")}`);
+  }
   if (grouped.groupWindow.length > 0) {
     sections.push(`群窗口:\n${grouped.groupWindow.join("\n")}`);
   }
@@ -59,15 +89,24 @@ export function buildOpencodeSystemContext(input: {
 }
 
 function groupHistoryLines(history: HistoryEntry[]): {
+  summary: string[];
   groupWindow: string[];
   userMemory: string[];
   other: string[];
 } {
+  const summary: string[] = [];
   const groupWindow: string[] = [];
   const userMemory: string[] = [];
   const other: string[] = [];
 
   for (const entry of history) {
+    if (entry.context === "summary") {
+      const content = entry.content.trim();
+      if (content) {
+        summary.push(content);
+      }
+      continue;
+    }
     const line = formatHistoryLine(entry);
     if (!line) {
       continue;
@@ -84,7 +123,7 @@ function groupHistoryLines(history: HistoryEntry[]): {
     other.push(line);
   }
 
-  return { groupWindow, userMemory, other };
+  return { summary, groupWindow, userMemory, other };
 }
 
 function formatHistoryLine(entry: HistoryEntry): string | null {
@@ -85,6 +85,11 @@ export interface OpencodeClient {
     sessionId: string;
     signal?: AbortSignal;
   }): Promise<OpencodeSessionInfo | null>;
+  abortSession(input: {
+    directory: string;
+    sessionId: string;
+    signal?: AbortSignal;
+  }): Promise<boolean>;
   listMessages(input: {
     directory: string;
     sessionId: string;
@@ -177,6 +182,27 @@ export class OpencodeServerClient implements OpencodeClient {
     }
   }
 
+  async abortSession(input: {
+    directory: string;
+    sessionId: string;
+    signal?: AbortSignal;
+  }): Promise<boolean> {
+    try {
+      await this.requestJson({
+        method: "POST",
+        path: `/session/${encodeURIComponent(input.sessionId)}/abort`,
+        directory: input.directory,
+        signal: input.signal,
+      });
+      return true;
+    } catch (err) {
+      if (isHttpError(err) && err.status === 404) {
+        return false;
+      }
+      throw err;
+    }
+  }
+
   async listMessages(input: {
     directory: string;
     sessionId: string;
@@ -205,17 +231,28 @@ export class OpencodeServerClient implements OpencodeClient {
     });
   }
 
+  /** Reachability probe; throws unless the server answers its health route. */
+  async ping(input: { signal?: AbortSignal } = {}): Promise<void> {
+    await this.requestJson<unknown>({
+      method: "GET",
+      path: "/global/health",
+      signal: input.signal,
+    });
+  }
+
   private async requestJson<T>(input: {
     method: "GET" | "POST" | "PATCH" | "DELETE";
     path: string;
-    directory: string;
+    directory?: string;
     body?: unknown;
     signal?: AbortSignal;
   }): Promise<T> {
     const url = `${this.baseUrl}${input.path}`;
     const headers = new Headers();
     headers.set("Accept", "application/json");
-    headers.set("x-opencode-directory", input.directory);
+    if (input.directory) {
+      headers.set("x-opencode-directory", input.directory);
+    }
     if (this.authHeader) {
       headers.set("Authorization", this.authHeader);
     }
@@ -15,6 +15,14 @@ export interface SessionJobData {
   enqueuedAt?: number;
 }
 
+const SESSION_QUEUE_JOB_STATES = [
+  "waiting",
+  "active",
+  "delayed",
+  "prioritized",
+  "failed",
+] as const;
+
 export interface SessionJob {
   id: string;
   data: SessionJobData;
@@ -70,6 +78,15 @@ export class BullmqSessionQueue {
     };
   }
 
+  async ping(): Promise<void> {
+    await this.connection.ping();
+  }
+
+  /** Queue depth by state, for the /metrics gauge. */
+  async getJobCounts(): Promise<Record<string, number>> {
+    return this.queue.getJobCounts(...SESSION_QUEUE_JOB_STATES);
+  }
+
   async close(): Promise<void> {
     await this.queue.close();
     await this.connection.quit();
@@ -1,6 +1,7 @@
 import IORedis, { type RedisKey } from "ioredis";
 import type { Logger } from "pino";
 import { logger as defaultLogger } from "../logger";
+import type { LlbotProtocol } from "./llbot-registry";
 
 interface RedisClient {
   set(key: RedisKey, value: string): Promise<unknown>;
@@ -16,6 +17,7 @@ export interface LlbotRegistrarOptions {
   botId: string;
   wsUrl: string;
   platform: string;
+  protocol?: LlbotProtocol;
   indexKey?: string;
   ttlSec?: number;
   refreshIntervalSec?: number;
@@ -27,7 +29,11 @@ export class LlbotRegistrar {
   private redis: RedisClient;
   private key: string;
   private updateChannel: string;
-  private payloadBase: { wsUrl: string; platform: string };
+  private payloadBase: {
+    wsUrl: string;
+    platform: string;
+    protocol: LlbotProtocol;
+  };
   private indexKey: string;
   private ttlSec: number | null;
   private refreshIntervalSec: number;
@@ -47,7 +53,11 @@ export class LlbotRegistrar {
     this.key = `${options.prefix}:${options.botId}`;
     this.indexKey = options.indexKey ?? `${options.prefix}:index`;
     this.updateChannel = `${options.prefix}:updates`;
-    this.payloadBase = { wsUrl: options.wsUrl, platform: options.platform };
+    this.payloadBase = {
+      wsUrl: options.wsUrl,
+      platform: options.platform,
+      protocol: options.protocol ?? "milky",
+    };
     this.ttlSec = ttlSec;
     this.refreshIntervalSec = refreshIntervalSec;
     this.logger = (options.logger ?? defaultLogger).child({
@@ -3,10 +3,14 @@ import type { Logger } from "pino";
 import { z } from "zod";
 import { logger as defaultLogger } from "../logger";
 
+export type LlbotProtocol = "milky" | "onebot-v11";
+
 export interface LlbotRegistryEntry {
   botId: string;
   wsUrl: string;
   platform: string;
+  /** Wire protocol spoken at wsUrl (entries without one are Milky). */
+  protocol: LlbotProtocol;
   lastSeenAt?: string;
 }
 
@@ -134,9 +138,10 @@ export class LlbotRegistry {
       return null;
     }
     const platform = data?.platform ?? "qq";
+    const protocol = data?.protocol ?? "milky";
     const lastSeenAt = data?.lastSeenAt;
 
-    return { botId, wsUrl, platform, lastSeenAt };
+    return { botId, wsUrl, platform, protocol, lastSeenAt };
   }
 }
 
@@ -144,6 +149,7 @@ const registryEntrySchema = z
   .object({
     wsUrl: z.string(),
     platform: z.string().optional(),
+    protocol: z.enum(["milky", "onebot-v11"]).optional(),
     lastSeenAt: z.string().optional(),
   })
   .passthrough();
@@ -0,0 +1,158 @@
+import { describe, expect, test } from "bun:test";
+
+import { DEFAULT_BUDGET } from "../../types/group";
+import { evaluateBudget, loadBudgetStatus } from "../budget";
+import { resolveModelFallbackChain, resolveModelRef } from "../processor-utils";
+import { emptyUsageTotals, InMemoryUsageStore } from "../usage";
+
+describe("evaluateBudget", () => {
+  test("reports remaining amounts and the first exhausted limit", () => {
+    const status = evaluateBudget(
+      { ...DEFAULT_BUDGET, dailyTokens: 1_000, monthlyCost: 5 },
+      {
+        daily: { ...emptyUsageTotals(), inputTokens: 900, outputTokens: 150 },
+        monthly: { ...emptyUsageTotals(), cost: 2 },
+      },
+    );
+    expect(status.limits).toEqual([
+      {
+        window: "daily",
+        metric: "tokens",
+        limit: 1_000,
+        used: 1_050,
+        remaining: 0,
+      },
+      { window: "monthly", metric: "cost", limit: 5, used: 2, remaining: 3 },
+    ]);
+    expect(status.exceeded?.window).toBe("daily");
+  });
+});
+
+describe("loadBudgetStatus", () => {
+  test("sums the group's usage for the current UTC day and month", async () => {
+    const store = new InMemoryUsageStore();
+    const base = {
+      botId: "bot",
+      userId: "user",
+      sessionId: "session",
+      modelId: "model",
+      inputTokens: 400,
+      outputTokens: 100,
+      reasoningTokens: 0,
+      cacheReadTokens: 10_000,
+      cacheWriteTokens: 0,
+      cost: 0,
+    };
+    await store.record({
+      ...base,
+      groupId: "group",
+      createdAt: "2026-10-01T01:00:00.000Z",
+    });
+    await store.record({
+      ...base,
+      groupId: "group",
+      createdAt: "2026-10-19T01:00:00.000Z",
+    });
+    await store.record({
+      ...base,
+      groupId: "other",
+      createdAt: "2026-10-19T02:00:00.000Z",
+    });
+
+    const status = await loadBudgetStatus(
+      store,
+      "group",
+      { ...DEFAULT_BUDGET, dailyTokens: 800, monthlyTokens: 1_000 },
+      Date.parse("2026-10-19T12:00:00.000Z"),
+    );
+    expect(status?.limits.map((limit) => limit.used)).toEqual([500, 1_000]);
+    expect(status?.exceeded?.window).toBe("monthly");
+
+    expect(await loadBudgetStatus(store, "group", DEFAULT_BUDGET)).toBeNull();
+  });
+});
+
+describe("resolveModelRef budget", () => {
+  const input = {
+    groupOverride: "gpt-5.2",
+    openaiBaseUrl: "http://127.0.0.1:8124/v1",
+    openaiApiKey: "sk-test",
+    modelsCsv: "gpt-5.2,gpt-5.1,gpt-5-mini",
+  };
+  const exceeded = evaluateBudget(
+    { ...DEFAULT_BUDGET, dailyTokens: 1 },
+    {
+      daily: { ...emptyUsageTotals(), inputTokens: 1 },
+      monthly: emptyUsageTotals(),
+    },
+  );
+
+  test("downgrades to the configured or last allowed model once exceeded", () => {
+    expect(
+      resolveModelRef({
+        ...input,
+        budget: {
+          config: { ...DEFAULT_BUDGET, onExceeded: "downgrade" },
+          status: exceeded,
+        },
+      }).modelID,
+    ).toBe("gpt-5-mini");
+    expect(
+      resolveModelRef({
+        ...input,
+        budget: {
+          config: {
+            ...DEFAULT_BUDGET,
+            onExceeded: "downgrade",
+            downgradeModel: "gpt-5.1",
+          },
+          status: exceeded,
+        },
+      }).modelID,
+    ).toBe("gpt-5.1");
+  });
+
+  test("keeps the group model under budget or for other policies", () => {
+    expect(
+      resolveModelRef({
+        ...input,
+        budget: {
+          config: { ...DEFAULT_BUDGET, onExceeded: "downgrade" },
+          status: null,
+        },
+      }).modelID,
+    ).toBe("gpt-5.2");
+    expect(
+      resolveModelRef({
+        ...input,
+        budget: { config: DEFAULT_BUDGET, status: exceeded },
+      }).modelID,
+    ).toBe("gpt-5.2");
+  });
+
+  test("does not fall back past a budget downgrade", () => {
+    const budget = {
+      config: { ...DEFAULT_BUDGET, onExceeded: "downgrade" as const },
+      status: exceeded,
+    };
+    const primary = resolveModelRef({ ...input, budget });
+    expect(
+      resolveModelFallbackChain({
+        primary,
+        groupFallbacks: ["gpt-5.2", "gpt-5.1"],
+        fallbacksCsv: undefined,
+        modelsCsv: input.modelsCsv,
+        budget,
+      }),
+    ).toEqual([primary]);
+    expect(
+      resolveModelFallbackChain({
+        primary,
+        groupFallbacks: ["gpt-5.2"],
+        fallbacksCsv: undefined,
+        modelsCsv: input.modelsCsv,
+        budget: { ...budget, status: null },
+      }).map((model) => model.modelID),
+    ).toEqual(["gpt-5-mini", "gpt-5.2"]);
+  });
+});
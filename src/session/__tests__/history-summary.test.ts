@@ -0,0 +1,99 @@
+import { describe, expect, test } from "bun:test";
+import pino from "pino";
+
+import { InMemoryHistoryStore } from "../history";
+import {
+  HistoryCompactor,
+  type HistorySummarizeInput,
+} from "../history-summary";
+
+const logger = pino({ level: "silent" });
+const botAccountId = "qq:bot";
+const groupKey = { botAccountId, groupId: "group-1" };
+
+async function seed(store: InMemoryHistoryStore, count: number) {
+  for (let index = 1; index <= count; index += 1) {
+    await store.appendHistory(
+      { botAccountId, userId: "user-1" },
+      {
+        role: index % 2 === 1 ? "user" : "assistant",
+        content: `message ${index}`,
+        createdAt: new Date(Date.UTC(2026, 9, 1, 0, 0, index)).toISOString(),
+        groupId: "group-1",
+      },
+    );
+  }
+}
+
+describe("HistoryCompactor", () => {
+  test("summarizes entries beyond the recent window once it overflows", async () => {
+    const store = new InMemoryHistoryStore();
+    const calls: HistorySummarizeInput[] = [];
+    const compactor = new HistoryCompactor({
+      historyStore: store,
+      logger,
+      triggerEntries: 6,
+      keepRecentEntries: 2,
+      summarize: async (input) => {
+        calls.push(input);
+        return { content: `summary ${calls.length}`, model: "glm-4.7" };
+      },
+    });
+
+    await seed(store, 6);
+    expect(await compactor.compact(groupKey, { directory: "/tmp" })).toBeNull();
+
+    await seed(store, 1);
+    const first = await compactor.compact(groupKey, { directory: "/tmp" });
+    expect(first?.summary).toEqual({
+      fromId: "1",
+      toId: "5",
+      entryCount: 5,
+      model: "glm-4.7",
+      previousSummaryId: undefined,
+    });
+    expect(calls[0]?.previousSummary).toBeNull();
+
+    await seed(store, 5);
+    const second = await compactor.compact(groupKey, { directory: "/tmp" });
+    expect(calls[1]?.previousSummary).toBe("summary 1");
+    expect(calls[1]?.entries.map((entry) => entry.id)).toEqual([
+      "6",
+      "7",
+      "9",
+      "10",
+      "11",
+    ]);
+    expect(second?.summary).toMatchObject({
+      fromId: "1",
+      toId: "11",
+      entryCount: 10,
+      previousSummaryId: first?.id,
+    });
+  });
+
+  test("group reads with summary return the summary and the uncovered window", async () => {
+    const store = new InMemoryHistoryStore();
+    const compactor = new HistoryCompactor({
+      historyStore: store,
+      logger,
+      triggerEntries: 4,
+      keepRecentEntries: 2,
+      summarize: async () => ({ content: "earlier plot", model: "glm-4.7" }),
+    });
+    await seed(store, 5);
+    await compactor.compact(groupKey, { directory: "/tmp" });
+
+    const history = await store.readGroupHistory(groupKey, {
+      withSummary: true,
+    });
+    expect(history.map((entry) => [entry.context, entry.content])).toEqual([
+      ["summary", "earlier plot"],
+      [undefined, "message 4"],
+      [undefined, "message 5"],
+    ]);
+    expect(
+      (await store.readGroupHistory(groupKey)).map((entry) => entry.content),
+    ).toHaveLength(5);
+  });
+});
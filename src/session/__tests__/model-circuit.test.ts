@@ -0,0 +1,112 @@
+import { describe, expect, test } from "bun:test";
+
+import {
+  InMemoryModelCircuitStore,
+  ModelCircuitBreaker,
+} from "../model-circuit";
+import {
+  isModelFallbackError,
+  resolveModelFallbackChain,
+} from "../processor-utils";
+
+describe("ModelCircuitBreaker", () => {
+  test("opens after repeated failures and closes after the cooldown", async () => {
+    let now = 1_000_000;
+    const breaker = new ModelCircuitBreaker({
+      store: new InMemoryModelCircuitStore(() => now),
+      failureThreshold: 2,
+      cooldownMs: 60_000,
+    });
+
+    expect(await breaker.recordFailure("gpt-5.2")).toBe(false);
+    expect(await breaker.isOpen("gpt-5.2")).toBe(false);
+    expect(await breaker.recordFailure("gpt-5.2")).toBe(true);
+    expect(await breaker.isOpen("gpt-5.2")).toBe(true);
+    expect(await breaker.isOpen("gpt-5.1")).toBe(false);
+
+    now += 60_001;
+    expect(await breaker.isOpen("gpt-5.2")).toBe(false);
+  });
+
+  test("a success resets the failure count", async () => {
+    const breaker = new ModelCircuitBreaker({
+      store: new InMemoryModelCircuitStore(),
+      failureThreshold: 2,
+    });
+
+    await breaker.recordFailure("gpt-5.2");
+    await breaker.recordSuccess("gpt-5.2");
+    expect(await breaker.recordFailure("gpt-5.2")).toBe(false);
+    expect(await breaker.isOpen("gpt-5.2")).toBe(false);
+  });
+});
+
+describe("resolveModelFallbackChain", () => {
+  const primary = { providerID: "litellm", modelID: "gpt-5.2" };
+  const modelsCsv = "gpt-5.2,gpt-5.1,glm-4.7";
+
+  test("appends allowed global fallbacks after the primary model", () => {
+    expect(
+      resolveModelFallbackChain({
+        primary,
+        groupFallbacks: undefined,
+        fallbacksCsv: "gpt-5.2,unknown,glm-4.7,gpt-5.1",
+        modelsCsv,
+      }).map((model) => model.modelID),
+    ).toEqual(["gpt-5.2", "glm-4.7", "gpt-5.1"]);
+  });
+
+  test("group fallbacks override the global list", () => {
+    expect(
+      resolveModelFallbackChain({
+        primary,
+        groupFallbacks: ["gpt-5.1"],
+        fallbacksCsv: "glm-4.7",
+        modelsCsv,
+      }).map((model) => model.modelID),
+    ).toEqual(["gpt-5.2", "gpt-5.1"]);
+    expect(
+      resolveModelFallbackChain({
+        primary,
+        groupFallbacks: [],
+        fallbacksCsv: "glm-4.7",
+        modelsCsv,
+      }),
+    ).toEqual([primary]);
+  });
+
+  test("does not fall back from the built-in model", () => {
+    const builtin = { providerID: "opencode", modelID: "glm-4.7-free" };
+    expect(
+      resolveModelFallbackChain({
+        primary: builtin,
+        groupFallbacks: undefined,
+        fallbacksCsv: "gpt-5.1",
+        modelsCsv,
+      }),
+    ).toEqual([builtin]);
+  });
+});
+
+describe("isModelFallbackError", () => {
+  test("matches rate limits, server errors and timeouts", () => {
+    expect(isModelFallbackError({ status: 429, timeoutPoint: null })).toBe(
+      true,
+    );
+    expect(isModelFallbackError({ status: 502, timeoutPoint: null })).toBe(
+      true,
+    );
+    expect(
+      isModelFallbackError({
+        status: null,
+        timeoutPoint: "worker->opencode-server",
+      }),
+    ).toBe(true);
+    expect(isModelFallbackError({ status: 404, timeoutPoint: null })).toBe(
+      false,
+    );
+    expect(isModelFallbackError({ status: null, timeoutPoint: null })).toBe(
+      false,
+    );
+  });
+});
@@ -16,6 +16,7 @@ import type {
   PlatformAdapter,
   Bot,
   MessageHandler,
+  SentMessageRef,
 } from "../../types/platform";
 import { InMemoryHistoryStore } from "../history";
 import { SessionRepository } from "../repository";
@@ -33,6 +34,7 @@ function makeTempDir(): string {
 class FakeOpencodeClient implements OpencodeClient {
   sessions = new Set<string>();
   createCalls = 0;
+  abortCalls: string[] = [];
 
   async createSession(input: {
     directory: string;
@@ -70,6 +72,17 @@ class FakeOpencodeClient implements OpencodeClient {
     return this.sessions.has(input.sessionId) ? { id: input.sessionId } : null;
   }
 
+  async abortSession(input: {
+    directory: string;
+    sessionId: string;
+    signal?: AbortSignal;
+  }): Promise<boolean> {
+    void input.directory;
+    void input.signal;
+    this.abortCalls.push(input.sessionId);
+    return true;
+  }
+
   async listMessages(input: {
     directory: string;
     sessionId: string;
@@ -138,6 +151,28 @@ class MemoryAdapter implements PlatformAdapter {
   }
 }
 
+class EditableMemoryAdapter extends MemoryAdapter {
+  drafts: string[] = [];
+  edits: string[] = [];
+
+  async sendDraft(
+    session: SessionEvent,
+    content: string,
+  ): Promise<SentMessageRef | null> {
+    this.drafts.push(content);
+    return { channelId: session.channelId, messageId: "draft-1" };
+  }
+
+  async editMessage(
+    _session: SessionEvent,
+    _message: SentMessageRef,
+    content: string,
+  ): Promise<boolean> {
+    this.edits.push(content);
+    return true;
+  }
+}
+
 class CountingRunner implements OpencodeRunner {
   runs = 0;
 
@@ -949,6 +984,9 @@ describe("SessionProcessor", () => {
       async getSession(): Promise<{ id: string } | null> {
         return null;
       }
+      async abortSession(): Promise<boolean> {
+        return false;
+      }
       async listMessages(_input: {
         directory: string;
         sessionId: string;
@@ -1620,4 +1658,190 @@ describe("SessionProcessor", () => {
       ].join("\n"),
     ]);
   });
+
+  test("streams progress into an editable draft and finalizes it in place", async () => {
+    const tempDir = makeTempDir();
+    const logger = pino({ level: "silent" });
+    const groupRepository = new GroupFileRepository({
+      dataDir: tempDir,
+      logger,
+    });
+    const sessionRepository = new SessionRepository({
+      dataDir: tempDir,
+      logger,
+    });
+    const historyStore = new InMemoryHistoryStore();
+    const adapter = new EditableMemoryAdapter();
+    const activityIndex = new MemoryActivityIndex();
+    const bufferStore = new MemorySessionBuffer({ gateTtlSeconds: 3600 });
+    const opencodeClient = new FakeOpencodeClient();
+
+    const jobData: SessionJobData = {
+      botId: "discord-123",
+      groupId: "group-1",
+      sessionId: "user-1-0",
+      userId: "user-1",
+      key: 0,
+      gateToken: "gate-token",
+    };
+    const bufferKey: SessionBufferKey = {
+      botId: jobData.botId,
+      groupId: jobData.groupId,
+      sessionId: jobData.sessionId,
+    };
+
+    const message: SessionEvent = {
+      type: "message",
+      platform: "discord",
+      selfId: "123",
+      userId: jobData.userId,
+      guildId: jobData.groupId,
+      channelId: "channel-1",
+      messageId: "msg-1",
+      content: "hello",
+      elements: [{ type: "text", text: "hello" }],
+      timestamp: Date.now(),
+      extras: {},
+    };
+    await bufferStore.appendAndRequestJob(
+      bufferKey,
+      message,
+      jobData.gateToken,
+    );
+
+    class ProgressRunner implements OpencodeRunner {
+      async run(input: OpencodeRunInput): Promise<OpencodeRunResult> {
+        input.onProgress?.({ text: "partial", toolCalls: [] });
+        return { output: "final answer" };
+      }
+    }
+
+    const processor = new SessionProcessor({
+      logger,
+      adapter,
+      groupRepository,
+      sessionRepository,
+      historyStore,
+      opencodeClient,
+      runner: new ProgressRunner(),
+      activityIndex,
+      bufferStore,
+    });
+
+    try {
+      await processor.process({ id: 0, data: jobData }, jobData);
+    } finally {
+      await processor.close();
+      rmSync(tempDir, { recursive: true, force: true });
+    }
+
+    expect(adapter.drafts).toHaveLength(1);
+    expect(adapter.edits.at(-1)).toBe("final answer");
+    expect(adapter.messages).toEqual([]);
+  });
+
+  test("aborts the in-flight run and discards queued messages on cancel", async () => {
+    const tempDir = makeTempDir();
+    const logger = pino({ level: "silent" });
+    const groupRepository = new GroupFileRepository({
+      dataDir: tempDir,
+      logger,
+    });
+    const sessionRepository = new SessionRepository({
+      dataDir: tempDir,
+      logger,
+    });
+    const historyStore = new InMemoryHistoryStore();
+    const adapter = new MemoryAdapter();
+    const activityIndex = new MemoryActivityIndex();
+    const bufferStore = new MemorySessionBuffer({ gateTtlSeconds: 3600 });
+    const opencodeClient = new FakeOpencodeClient();
+
+    const jobData: SessionJobData = {
+      botId: "qq-123",
+      groupId: "group-1",
+      sessionId: "user-1-0",
+      userId: "user-1",
+      key: 0,
+      gateToken: "gate-token",
+    };
+    const bufferKey: SessionBufferKey = {
+      botId: jobData.botId,
+      groupId: jobData.groupId,
+      sessionId: jobData.sessionId,
+    };
+
+    const message: SessionEvent = {
+      type: "message",
+      platform: "qq",
+      selfId: "123",
+      userId: jobData.userId,
+      guildId: jobData.groupId,
+      channelId: jobData.groupId,
+      messageId: "msg-1",
+      content: "hello",
+      elements: [{ type: "text", text: "hello" }],
+      timestamp: Date.now(),
+      extras: {},
+    };
+    await bufferStore.appendAndRequestJob(
+      bufferKey,
+      message,
+      jobData.gateToken,
+    );
+
+    let markStarted: () => void = () => {};
+    const started = new Promise<void>((resolve) => {
+      markStarted = resolve;
+    });
+    class BlockingRunner implements OpencodeRunner {
+      runs = 0;
+      async run(input: OpencodeRunInput): Promise<OpencodeRunResult> {
+        this.runs += 1;
+        markStarted();
+        return new Promise((_resolve, reject) => {
+          input.signal?.addEventListener("abort", () => {
+            reject(new DOMException("aborted", "AbortError"));
+          });
+        });
+      }
+    }
+    const runner = new BlockingRunner();
+
+    const processor = new SessionProcessor({
+      logger,
+      adapter,
+      groupRepository,
+      sessionRepository,
+      historyStore,
+      opencodeClient,
+      runner,
+      activityIndex,
+      bufferStore,
+    });
+
+    try {
+      const processing = processor.process({ id: 0, data: jobData }, jobData);
+      await started;
+      await bufferStore.append(bufferKey, { ...message, messageId: "msg-2" });
+
+      expect(
+        processor.cancel({ key: bufferKey, requestedBy: jobData.userId }),
+      ).toBe(true);
+      await processing;
+
+      expect(runner.runs).toBe(1);
+      expect(opencodeClient.abortCalls).toHaveLength(1);
+      expect(bufferStore.bufferLength(bufferKey)).toBe(0);
+      expect(adapter.messages).toEqual([
+        "已停止本次回复，排队中的消息也已丢弃。",
+      ]);
+      expect(
+        processor.cancel({ key: bufferKey, requestedBy: jobData.userId }),
+      ).toBe(false);
+    } finally {
+      await processor.close();
+      rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
 });
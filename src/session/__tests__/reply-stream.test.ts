@@ -0,0 +1,158 @@
+import { describe, expect, test } from "bun:test";
+import pino from "pino";
+
+import type {
+  Bot,
+  EditMessageOptions,
+  MessageHandler,
+  PlatformAdapter,
+  SentMessageRef,
+  SessionEvent,
+} from "../../types/platform";
+import { ReplyStream } from "../reply-stream";
+
+class EditableAdapter implements PlatformAdapter {
+  platform = "discord";
+  sent: string[] = [];
+  drafts: string[] = [];
+  edits: string[] = [];
+  finalEdits: string[] = [];
+  deleted: string[] = [];
+  maxEditLength = Number.POSITIVE_INFINITY;
+
+  async connect(_bot: Bot): Promise<void> {}
+
+  async disconnect(_bot: Bot): Promise<void> {}
+
+  onEvent(_handler: MessageHandler): void {}
+
+  async sendMessage(_session: SessionEvent, content: string): Promise<void> {
+    this.sent.push(content);
+  }
+
+  async sendDraft(
+    session: SessionEvent,
+    content: string,
+  ): Promise<SentMessageRef | null> {
+    this.drafts.push(content);
+    return { channelId: session.channelId, messageId: "draft-1" };
+  }
+
+  async editMessage(
+    _session: SessionEvent,
+    _message: SentMessageRef,
+    content: string,
+    options?: EditMessageOptions,
+  ): Promise<boolean> {
+    if (content.length > this.maxEditLength) {
+      return false;
+    }
+    this.edits.push(content);
+    if (options?.final) {
+      this.finalEdits.push(content);
+    }
+    return true;
+  }
+
+  async deleteMessage(
+    _session: SessionEvent,
+    message: SentMessageRef,
+  ): Promise<void> {
+    this.deleted.push(message.messageId);
+  }
+
+  getBotUserId(): string | null {
+    return null;
+  }
+}
+
+const session: SessionEvent = {
+  type: "message",
+  platform: "discord",
+  selfId: "bot",
+  userId: "user",
+  guildId: "guild",
+  channelId: "channel",
+  messageId: "m1",
+  content: "hi",
+  elements: [{ type: "text", text: "hi" }],
+  timestamp: Date.now(),
+  extras: {},
+};
+
+function createStream(adapter: PlatformAdapter): ReplyStream {
+  return new ReplyStream({
+    adapter,
+    session,
+    logger: pino({ level: "silent" }),
+    placeholder: "thinking",
+    formatToolProgress: (tools) => `tools: ${tools.join(", ")}`,
+    minEditIntervalMs: 20,
+  });
+}
+
+describe("ReplyStream", () => {
+  test("coalesces progress updates into throttled edits", async () => {
+    const adapter = new EditableAdapter();
+    const stream = createStream(adapter);
+
+    expect(await stream.start()).toBe(true);
+    stream.update({ text: "par", toolCalls: [] });
+    stream.update({ text: "partial", toolCalls: [{ tool: "read" }] });
+    await Bun.sleep(40);
+
+    expect(adapter.drafts).toEqual(["thinking"]);
+    expect(adapter.edits).toEqual(["partial\n\ntools: read"]);
+
+    expect(await stream.finalize("final answer")).toBe(true);
+    expect(adapter.edits).toEqual(["partial\n\ntools: read", "final answer"]);
+    // Only the final edit lets the adapter apply its reply handling.
+    expect(adapter.finalEdits).toEqual(["final answer"]);
+    expect(adapter.deleted).toEqual([]);
+  });
+
+  test("drops pending edits once finalized", async () => {
+    const adapter = new EditableAdapter();
+    const stream = createStream(adapter);
+
+    await stream.start();
+    stream.update({ text: "partial", toolCalls: [] });
+    expect(await stream.finalize("final answer")).toBe(true);
+    await Bun.sleep(40);
+
+    expect(adapter.edits).toEqual(["final answer"]);
+  });
+
+  test("hides agent state blocks while they stream", async () => {
+    const adapter = new EditableAdapter();
+    const stream = createStream(adapter);
+
+    await stream.start();
+    stream.update({
+      text: '你挥剑。\n```character-state\n{"hp": -3}\n```\n敌人倒下。\n```quest-up',
+      toolCalls: [],
+    });
+    await Bun.sleep(40);
+    stream.update({
+      text: '你挥剑。\n\n敌人倒下。\n```world-time\n{"advance": "1h',
+      toolCalls: [],
+    });
+    await Bun.sleep(40);
+
+    expect(adapter.edits).toEqual(["你挥剑。\n\n敌人倒下。"]);
+    await stream.discard();
+  });
+
+  test("removes the draft when the final reply does not fit", async () => {
+    const adapter = new EditableAdapter();
+    adapter.maxEditLength = 5;
+    const stream = createStream(adapter);
+
+    await stream.start();
+    expect(await stream.finalize("a much longer final answer")).toBe(false);
+    expect(adapter.deleted).toEqual(["draft-1"]);
+
+    await stream.discard();
+    expect(adapter.deleted).toEqual(["draft-1"]);
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, expect, test } from "bun:test";
+
+import { InMemoryUsageStore, type UsageRecord } from "../usage";
+
+function record(overrides: Partial<UsageRecord>): UsageRecord {
+  return {
+    botId: "bot",
+    groupId: "group-1",
+    userId: "user-1",
+    sessionId: "session-1",
+    modelId: "model-a",
+    inputTokens: 100,
+    outputTokens: 10,
+    reasoningTokens: 0,
+    cacheReadTokens: 50,
+    cacheWriteTokens: 0,
+    cost: 0.5,
+    createdAt: "2026-10-01T12:00:00.000Z",
+    ...overrides,
+  };
+}
+
+describe("InMemoryUsageStore", () => {
+  test("aggregates totals with model and group breakdowns", async () => {
+    const store = new InMemoryUsageStore();
+    await store.record(record({}));
+    await store.record(record({ modelId: "model-b", inputTokens: 400 }));
+    await store.record(record({ groupId: "group-2", userId: "user-2" }));
+
+    const summary = await store.summarize({
+      from: "2026-10-01T00:00:00.000Z",
+      to: "2026-10-02T00:00:00.000Z",
+    });
+    expect(summary.totals).toEqual({
+      runs: 3,
+      inputTokens: 600,
+      outputTokens: 30,
+      reasoningTokens: 0,
+      cacheReadTokens: 150,
+      cacheWriteTokens: 0,
+      cost: 1.5,
+    });
+    expect(summary.byModel.map((row) => [row.key, row.runs])).toEqual([
+      ["model-b", 1],
+      ["model-a", 2],
+    ]);
+    expect(summary.byGroup.map((row) => [row.key, row.inputTokens])).toEqual([
+      ["group-1", 500],
+      ["group-2", 100],
+    ]);
+  });
+
+  test("filters by date range, group, user and world", async () => {
+    const store = new InMemoryUsageStore();
+    await store.record(record({ worldId: 3, groupId: "world_3" }));
+    await store.record(record({ createdAt: "2026-09-30T23:59:59.000Z" }));
+    await store.record(record({ userId: "user-2" }));
+
+    const range = {
+      from: "2026-10-01T00:00:00.000Z",
+      to: "2026-10-02T00:00:00.000Z",
+    };
+    expect((await store.summarize(range)).totals.runs).toBe(2);
+    expect((await store.summarize({ ...range, worldId: 3 })).totals.runs).toBe(
+      1,
+    );
+    expect(
+      (await store.summarize({ ...range, groupId: "group-1" })).totals.runs,
+    ).toBe(1);
+    expect(
+      (await store.summarize({ ...range, userId: "user-1" })).totals.runs,
+    ).toBe(1);
+  });
+});
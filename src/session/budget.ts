@@ -0,0 +1,136 @@
+import type { BudgetConfig } from "../types/group";
+import type { UsageStore, UsageTotals } from "./usage";
+
+export type BudgetWindow = "daily" | "monthly";
+export type BudgetMetric = "tokens" | "cost";
+
+export type BudgetLimitState = {
+  window: BudgetWindow;
+  metric: BudgetMetric;
+  limit: number;
+  used: number;
+  remaining: number;
+};
+
+export type BudgetStatus = {
+  limits: BudgetLimitState[];
+  /** First limit that has been reached, if any. */
+  exceeded: BudgetLimitState | null;
+};
+
+export function hasBudgetLimits(budget: BudgetConfig): boolean {
+  return (
+    budget.dailyTokens !== null ||
+    budget.monthlyTokens !== null ||
+    budget.dailyCost !== null ||
+    budget.monthlyCost !== null
+  );
+}
+
+/** Cache reads are billed at a fraction of input and are left out. */
+export function countBudgetTokens(totals: UsageTotals): number {
+  return totals.inputTokens + totals.outputTokens + totals.reasoningTokens;
+}
+
+export function evaluateBudget(
+  budget: BudgetConfig,
+  usage: { daily: UsageTotals; monthly: UsageTotals },
+): BudgetStatus {
+  const candidates: Array<{
+    window: BudgetWindow;
+    metric: BudgetMetric;
+    limit: number | null;
+    used: number;
+  }> = [
+    {
+      window: "daily",
+      metric: "tokens",
+      limit: budget.dailyTokens,
+      used: countBudgetTokens(usage.daily),
+    },
+    {
+      window: "monthly",
+      metric: "tokens",
+      limit: budget.monthlyTokens,
+      used: countBudgetTokens(usage.monthly),
+    },
+    {
+      window: "daily",
+      metric: "cost",
+      limit: budget.dailyCost,
+      used: usage.daily.cost,
+    },
+    {
+      window: "monthly",
+      metric: "cost",
+      limit: budget.monthlyCost,
+      used: usage.monthly.cost,
+    },
+  ];
+  const limits: BudgetLimitState[] = [];
+  for (const candidate of candidates) {
+    if (candidate.limit === null) {
+      continue;
+    }
+    limits.push({
+      window: candidate.window,
+      metric: candidate.metric,
+      limit: candidate.limit,
+      used: candidate.used,
+      remaining: Math.max(0, candidate.limit - candidate.used),
+    });
+  }
+  return {
+    limits,
+    exceeded: limits.find((limit) => limit.remaining <= 0) ?? null,
+  };
+}
+
+/** Budget windows follow UTC calendar days and months. */
+export function resolveBudgetWindows(nowMs: number): {
+  dayStart: string;
+  monthStart: string;
+  now: string;
+} {
+  const now = new Date(nowMs);
+  const dayStart = Date.UTC(
+    now.getUTCFullYear(),
+    now.getUTCMonth(),
+    now.getUTCDate(),
+  );
+  const monthStart = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1);
+  return {
+    dayStart: new Date(dayStart).toISOString(),
+    monthStart: new Date(monthStart).toISOString(),
+    now: new Date(nowMs + 1).toISOString(),
+  };
+}
+
+/** Returns null when the group has no budget configured. */
+export async function loadBudgetStatus(
+  usageStore: UsageStore,
+  groupId: string,
+  budget: BudgetConfig,
+  nowMs: number = Date.now(),
+): Promise<BudgetStatus | null> {
+  if (!hasBudgetLimits(budget)) {
+    return null;
+  }
+  const windows = resolveBudgetWindows(nowMs);
+  const needsMonthly =
+    budget.monthlyTokens !== null || budget.monthlyCost !== null;
+  const [daily, monthly] = await Promise.all([
+    usageStore.summarize({ from: windows.dayStart, to: windows.now, groupId }),
+    needsMonthly
+      ? usageStore.summarize({
+          from: windows.monthStart,
+          to: windows.now,
+          groupId,
+        })
+      : null,
+  ]);
+  return evaluateBudget(budget, {
+    daily: daily.totals,
+    monthly: monthly?.totals ?? daily.totals,
+  });
+}
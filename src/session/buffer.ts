@@ -14,6 +14,13 @@ export interface SessionBufferKey {
   sessionId: string;
 }
 
+export interface SessionBufferSnapshot {
+  /** Total buffered events; `events` may be truncated to the requested limit. */
+  length: number;
+  events: SessionEvent[];
+  gate: { token: string; ttlSeconds: number } | null;
+}
+
 export interface SessionBuffer {
   getGateTtlSeconds(): number;
   append(key: SessionBufferKey, message: SessionEvent): Promise<void>;
@@ -162,6 +169,35 @@ export class SessionBufferStore implements SessionBuffer {
     return result === 1;
   }
 
+  /** Reads the buffer and gate without draining or claiming anything. */
+  async inspect(
+    key: SessionBufferKey,
+    limit = 100,
+  ): Promise<SessionBufferSnapshot> {
+    const redisKey = this.bufferKey(key);
+    const gateKey = this.gateKey(key);
+    const [length, raw, token, ttlSeconds] = await Promise.all([
+      this.redis.llen(redisKey),
+      this.redis.lrange(redisKey, 0, Math.max(0, limit - 1)),
+      this.redis.get(gateKey),
+      this.redis.ttl(gateKey),
+    ]);
+    const events = raw
+      .map((entry) => {
+        try {
+          return JSON.parse(entry) as SessionEvent;
+        } catch {
+          return null;
+        }
+      })
+      .filter((entry): entry is SessionEvent => entry !== null);
+    return {
+      length,
+      events,
+      gate: token === null ? null : { token, ttlSeconds },
+    };
+  }
+
   async close(): Promise<void> {
     await this.redis.quit();
   }
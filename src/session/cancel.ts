@@ -0,0 +1,103 @@
+import IORedis from "ioredis";
+import type { Logger } from "pino";
+import { z } from "zod";
+
+import { logger as defaultLogger } from "../logger";
+import type { SessionBufferKey } from "./buffer";
+
+export interface SessionCancelRequest {
+  key: SessionBufferKey;
+  requestedBy: string;
+}
+
+export type SessionCancelHandler = (request: SessionCancelRequest) => void;
+
+export interface SessionCancelBus {
+  /** Returns how many workers received the request. */
+  requestCancel(request: SessionCancelRequest): Promise<number>;
+  subscribe(handler: SessionCancelHandler): Promise<void>;
+  close(): Promise<void>;
+}
+
+export interface SessionCancelBusOptions {
+  redisUrl: string;
+  channel?: string;
+  logger?: Logger;
+}
+
+const cancelRequestSchema = z.object({
+  key: z.object({
+    botId: z.string().min(1),
+    groupId: z.string().min(1),
+    sessionId: z.string().min(1),
+  }),
+  requestedBy: z.string(),
+});
+
+export function encodeSessionCancelKey(key: SessionBufferKey): string {
+  return `${key.botId}:${key.groupId}:${key.sessionId}`;
+}
+
+/**
+ * Broadcasts cancel requests from the adapter process to session workers.
+ * Only the worker holding the session gate acts on a request.
+ */
+export class RedisSessionCancelBus implements SessionCancelBus {
+  private redisUrl: string;
+  private publisher: IORedis;
+  private subscriber: IORedis | null = null;
+  private channel: string;
+  private logger: Logger;
+
+  constructor(options: SessionCancelBusOptions) {
+    this.redisUrl = options.redisUrl;
+    this.publisher = new IORedis(options.redisUrl, {
+      maxRetriesPerRequest: null,
+    });
+    this.channel = options.channel ?? "session:cancel";
+    this.logger = (options.logger ?? defaultLogger).child({
+      component: "session-cancel-bus",
+    });
+  }
+
+  async requestCancel(request: SessionCancelRequest): Promise<number> {
+    return this.publisher.publish(this.channel, JSON.stringify(request));
+  }
+
+  async subscribe(handler: SessionCancelHandler): Promise<void> {
+    if (!this.subscriber) {
+      this.subscriber = new IORedis(this.redisUrl, {
+        maxRetriesPerRequest: null,
+      });
+    }
+    this.subscriber.on("message", (channel, message) => {
+      if (channel !== this.channel) {
+        return;
+      }
+      const parsed = cancelRequestSchema.safeParse(tryParseJson(message));
+      if (!parsed.success) {
+        this.logger.warn({ message }, "Ignoring malformed cancel request");
+        return;
+      }
+      handler(parsed.data);
+    });
+    await this.subscriber.subscribe(this.channel);
+  }
+
+  async close(): Promise<void> {
+    if (this.subscriber) {
+      this.subscriber.removeAllListeners("message");
+      await this.subscriber.quit();
+      this.subscriber = null;
+    }
+    await this.publisher.quit();
+  }
+}
+
+function tryParseJson(raw: string): unknown {
+  try {
+    return JSON.parse(raw) as unknown;
+  } catch {
+    return null;
+  }
+}
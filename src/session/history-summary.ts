@@ -0,0 +1,213 @@
+import type { Logger } from "pino";
+import type { HistoryEntry } from "../types/session";
+import {
+  extractAssistantText,
+  type OpencodeClient,
+  type OpencodeModelRef,
+} from "../opencode/server-client";
+import type { GroupHistoryKey, HistoryStore } from "./history";
+import { truncateTextByBytes } from "./processor-utils";
+
+export type HistorySummarizeInput = {
+  /** Workspace the throwaway opencode session runs in. */
+  directory: string;
+  previousSummary: string | null;
+  entries: HistoryEntry[];
+};
+
+export type HistorySummarizeResult = {
+  content: string;
+  model: string;
+};
+
+export type HistorySummarizer = (
+  input: HistorySummarizeInput,
+) => Promise<HistorySummarizeResult>;
+
+const SUMMARY_SYSTEM_PROMPT = [
+  "你是对话记录压缩器。把给出的旧摘要与新对话合并成一份新的滚动摘要，供后续对话作为长期记忆。",
+  "保留：人物与称呼、已发生的关键情节与决定、未完成的约定或任务、重要设定与数值。",
+  "省略：寒暄、重复内容、工具输出细节。",
+  "只输出摘要正文，使用与对话相同的语言，不超过 600 字。",
+].join("\n");
+
+const ENTRY_MAX_BYTES = 2_000;
+
+const NO_TOOLS: Record<string, boolean> = {
+  bash: false,
+  read: false,
+  write: false,
+  edit: false,
+  list: false,
+  glob: false,
+  grep: false,
+  webfetch: false,
+  task: false,
+  todowrite: false,
+  todoread: false,
+  question: false,
+};
+
+export function formatHistorySummaryInput(
+  input: Pick<HistorySummarizeInput, "previousSummary" | "entries">,
+): string {
+  const sections: string[] = [];
+  const previous = input.previousSummary?.trim();
+  if (previous) {
+    sections.push(`旧摘要:\n${previous}`);
+  }
+  const lines = input.entries.map((entry) => {
+    const speaker =
+      entry.role === "user" && entry.userId
+        ? `user:${entry.userId}`
+        : entry.role;
+    const content = truncateTextByBytes(entry.content.trim(), ENTRY_MAX_BYTES);
+    return `${speaker}: ${content.content}`;
+  });
+  sections.push(`新对话:\n${lines.join("\n")}`);
+  return sections.join("\n\n");
+}
+
+/** Runs each summary in a throwaway opencode session with tools disabled. */
+export function createOpencodeHistorySummarizer(options: {
+  client: OpencodeClient;
+  model: OpencodeModelRef;
+}): HistorySummarizer {
+  return async (input) => {
+    const session = await options.client.createSession({
+      directory: input.directory,
+      title: "history-summary",
+    });
+    try {
+      const response = await options.client.prompt({
+        directory: input.directory,
+        sessionId: session.id,
+        body: {
+          model: options.model,
+          system: SUMMARY_SYSTEM_PROMPT,
+          tools: NO_TOOLS,
+          parts: [{ type: "text", text: formatHistorySummaryInput(input) }],
+        },
+      });
+      const content = extractAssistantText(response);
+      if (!content) {
+        throw new Error("History summarizer returned no text");
+      }
+      return { content, model: options.model.modelID };
+    } finally {
+      await options.client
+        .deleteSession({ directory: input.directory, sessionId: session.id })
+        .catch(() => false);
+    }
+  };
+}
+
+export interface HistoryCompactorOptions {
+  historyStore: HistoryStore;
+  summarize: HistorySummarizer;
+  logger: Logger;
+  /** Unsummarized entries that trigger a compaction. */
+  triggerEntries?: number;
+  /** Newest entries left out of the summary so the recent window stays verbatim. */
+  keepRecentEntries?: number;
+}
+
+/**
+ * Rolls older context entries of a group (or dm) into a single summary entry.
+ * Each new summary folds in the previous one, so only the latest is read back.
+ */
+export class HistoryCompactor {
+  private historyStore: HistoryStore;
+  private summarize: HistorySummarizer;
+  private logger: Logger;
+  private triggerEntries: number;
+  private keepRecentEntries: number;
+  private running = new Set<string>();
+
+  constructor(options: HistoryCompactorOptions) {
+    this.historyStore = options.historyStore;
+    this.summarize = options.summarize;
+    this.logger = options.logger.child({ component: "history-compactor" });
+    this.keepRecentEntries = Math.max(0, options.keepRecentEntries ?? 20);
+    this.triggerEntries = Math.max(
+      this.keepRecentEntries + 1,
+      options.triggerEntries ?? 80,
+    );
+  }
+
+  /**
+   * Returns the stored summary, or null when the window has not overflowed
+   * (force compacts whatever lies beyond the recent window).
+   */
+  async compact(
+    key: GroupHistoryKey,
+    input: { directory: string; force?: boolean },
+  ): Promise<HistoryEntry | null> {
+    const scope = `${key.botAccountId}:${key.groupId}:${key.userId ?? ""}`;
+    if (this.running.has(scope)) {
+      return null;
+    }
+    this.running.add(scope);
+    try {
+      return await this.compactScope(key, input);
+    } finally {
+      this.running.delete(scope);
+    }
+  }
+
+  private async compactScope(
+    key: GroupHistoryKey,
+    input: { directory: string; force?: boolean },
+  ): Promise<HistoryEntry | null> {
+    const previous = await this.historyStore.readLatestSummary(key);
+    const pending = await this.historyStore.readGroupHistoryAfter(
+      key,
+      previous?.summary?.toId ?? null,
+      this.triggerEntries + 1,
+    );
+    if (!input.force && pending.length <= this.triggerEntries) {
+      return null;
+    }
+    const covered = pending.slice(
+      0,
+      Math.max(0, pending.length - this.keepRecentEntries),
+    );
+    const first = covered[0];
+    const last = covered[covered.length - 1];
+    if (!first?.id || !last?.id) {
+      return null;
+    }
+
+    const result = await this.summarize({
+      directory: input.directory,
+      previousSummary: previous?.content ?? null,
+      entries: covered,
+    });
+    const entry: HistoryEntry = {
+      role: "system",
+      content: result.content,
+      createdAt: new Date().toISOString(),
+      groupId: key.groupId,
+      context: "summary",
+      summary: {
+        fromId: previous?.summary?.fromId ?? first.id,
+        toId: last.id,
+        entryCount: (previous?.summary?.entryCount ?? 0) + covered.length,
+        model: result.model,
+        previousSummaryId: previous?.id,
+      },
+    };
+    await this.historyStore.appendSummary(key, entry);
+    this.logger.info(
+      {
+        groupId: key.groupId,
+        fromId: entry.summary?.fromId,
+        toId: entry.summary?.toId,
+        entries: covered.length,
+        model: result.model,
+      },
+      "History compacted",
+    );
+    return (await this.historyStore.readLatestSummary(key)) ?? entry;
+  }
+}
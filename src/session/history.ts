@@ -6,6 +6,8 @@ import { createPostgresClient } from "../db/postgres";
 export interface HistoryReadOptions {
   maxBytes?: number;
   maxEntries?: number;
+  /** Group reads only: prepend the latest summary and drop entries it covers. */
+  withSummary?: boolean;
 }
 
 export interface HistoryKey {
@@ -20,6 +22,24 @@ export interface GroupHistoryKey {
   userId?: string;
 }
 
+export interface SessionHistoryKey {
+  botAccountId: string;
+  groupId: string;
+  sessionId: string;
+}
+
+/** Filters for support tooling; summaries and hidden entries are included. */
+export interface SessionHistoryQuery {
+  role?: HistoryEntry["role"];
+  /** ISO 8601, inclusive. */
+  from?: string;
+  /** ISO 8601, exclusive. */
+  to?: string;
+  /** Only entries older than this id, for paging backwards. */
+  beforeId?: string;
+  limit: number;
+}
+
 export interface HistoryStore {
   readHistory(
     key: HistoryKey,
@@ -29,7 +49,20 @@ export interface HistoryStore {
     key: GroupHistoryKey,
     options?: HistoryReadOptions,
   ): Promise<HistoryEntry[]>;
+  /** Context entries after the cursor id, oldest first; summaries excluded. */
+  readGroupHistoryAfter(
+    key: GroupHistoryKey,
+    afterId: string | null,
+    limit: number,
+  ): Promise<HistoryEntry[]>;
+  readLatestSummary(key: GroupHistoryKey): Promise<HistoryEntry | null>;
+  /** All stored entries of one session, newest first. */
+  readSessionHistory(
+    key: SessionHistoryKey,
+    query: SessionHistoryQuery,
+  ): Promise<HistoryEntry[]>;
   appendHistory(key: HistoryKey, entry: HistoryEntry): Promise<void>;
+  appendSummary(key: GroupHistoryKey, entry: HistoryEntry): Promise<void>;
   close(): Promise<void>;
 }
 
@@ -42,19 +75,38 @@ export class NoopHistoryStore implements HistoryStore {
     return [];
   }
 
+  async readGroupHistoryAfter(): Promise<HistoryEntry[]> {
+    return [];
+  }
+
+  async readLatestSummary(): Promise<HistoryEntry | null> {
+    return null;
+  }
+
+  async readSessionHistory(): Promise<HistoryEntry[]> {
+    return [];
+  }
+
   async appendHistory(): Promise<void> {}
 
+  async appendSummary(): Promise<void> {}
+
   async close(): Promise<void> {}
 }
 
 export class InMemoryHistoryStore implements HistoryStore {
   private entries = new Map<string, HistoryEntry[]>();
+  /** Stand-ins for BIGSERIAL ids, kept off the stored entries themselves. */
+  private ids = new WeakMap<HistoryEntry, string>();
+  private nextId = 1;
 
   async readHistory(
     key: HistoryKey,
     options: HistoryReadOptions = {},
   ): Promise<HistoryEntry[]> {
-    const stored = this.entries.get(composeKey(key)) ?? [];
+    const stored = (this.entries.get(composeKey(key)) ?? []).filter(
+      (entry) => entry.context !== "summary",
+    );
     const maxEntries = options.maxEntries ?? 0;
     const selected =
       maxEntries > 0
@@ -79,6 +131,9 @@ export class InMemoryHistoryStore implements HistoryStore {
         if (entry.includeInContext === false) {
           continue;
         }
+        if (entry.context === "summary") {
+          continue;
+        }
         collected.push(entry);
       }
     }
@@ -88,17 +143,103 @@ export class InMemoryHistoryStore implements HistoryStore {
       maxEntries > 0
         ? collected.slice(Math.max(0, collected.length - maxEntries))
         : collected;
-    return applyMaxBytes([...selected], options.maxBytes);
+    const window = applyMaxBytes([...selected], options.maxBytes);
+    return options.withSummary
+      ? mergeSummaryWindow(
+          await this.readLatestSummary(key),
+          window.map((entry) => this.withId(entry)),
+        )
+      : window;
+  }
+
+  async readGroupHistoryAfter(
+    key: GroupHistoryKey,
+    afterId: string | null,
+    limit: number,
+  ): Promise<HistoryEntry[]> {
+    return this.listGroupEntries(key)
+      .filter(
+        (entry) =>
+          entry.context !== "summary" &&
+          entry.includeInContext !== false &&
+          (key.userId === undefined || entry.userId === key.userId) &&
+          (afterId === null || compareHistoryIds(entry.id, afterId) > 0),
+      )
+      .slice(0, limit);
+  }
+
+  async readLatestSummary(key: GroupHistoryKey): Promise<HistoryEntry | null> {
+    const summaryKey = composeKey(resolveSummaryOwner(key));
+    const summaries = (this.entries.get(summaryKey) ?? []).filter(
+      (entry) => entry.context === "summary" && entry.groupId === key.groupId,
+    );
+    const latest = summaries[summaries.length - 1];
+    return latest ? this.withId(latest) : null;
+  }
+
+  async readSessionHistory(
+    key: SessionHistoryKey,
+    query: SessionHistoryQuery,
+  ): Promise<HistoryEntry[]> {
+    const from = query.from ? Date.parse(query.from) : null;
+    const to = query.to ? Date.parse(query.to) : null;
+    return this.listGroupEntries(key)
+      .filter((entry) => {
+        const createdAt = Date.parse(entry.createdAt);
+        return (
+          entry.sessionId === key.sessionId &&
+          (query.role === undefined || entry.role === query.role) &&
+          (from === null || createdAt >= from) &&
+          (to === null || createdAt < to) &&
+          (query.beforeId === undefined ||
+            compareHistoryIds(entry.id, query.beforeId) < 0)
+        );
+      })
+      .reverse()
+      .slice(0, query.limit);
   }
 
   async appendHistory(key: HistoryKey, entry: HistoryEntry): Promise<void> {
     const composed = composeKey(key);
     const stored = this.entries.get(composed) ?? [];
-    stored.push(entry);
+    const copy = { ...entry };
+    this.ids.set(copy, entry.id ?? String(this.nextId++));
+    stored.push(copy);
     this.entries.set(composed, stored);
   }
 
+  async appendSummary(
+    key: GroupHistoryKey,
+    entry: HistoryEntry,
+  ): Promise<void> {
+    await this.appendHistory(resolveSummaryOwner(key), {
+      ...entry,
+      groupId: key.groupId,
+      context: "summary",
+    });
+  }
+
   async close(): Promise<void> {}
+
+  private listGroupEntries(key: GroupHistoryKey): HistoryEntry[] {
+    const collected: HistoryEntry[] = [];
+    for (const [composed, stored] of this.entries) {
+      if (!composed.startsWith(`${key.botAccountId}:`)) {
+        continue;
+      }
+      for (const entry of stored) {
+        if (entry.groupId === key.groupId) {
+          collected.push(this.withId(entry));
+        }
+      }
+    }
+    return collected.sort((a, b) => compareHistoryIds(a.id, b.id ?? "0"));
+  }
+
+  private withId(entry: HistoryEntry): HistoryEntry {
+    const id = entry.id ?? this.ids.get(entry);
+    return id ? { ...entry, id } : entry;
+  }
 }
 
 export interface PostgresHistoryStoreOptions {
@@ -154,6 +295,7 @@ export class PostgresHistoryStore implements HistoryStore {
          FROM history_entries
          WHERE bot_account_id = ${key.botAccountId}
            AND user_id = ${key.userId}
+           AND meta->>'context' IS DISTINCT FROM 'summary'
          ORDER BY id DESC
          LIMIT ${limit}
       `;
@@ -188,6 +330,7 @@ export class PostgresHistoryStore implements HistoryStore {
              WHERE bot_account_id = ${key.botAccountId}
                AND group_id = ${key.groupId}
                AND user_id = ${scopedUserId}
+               AND meta->>'context' IS DISTINCT FROM 'summary'
              ORDER BY id DESC
              LIMIT ${limit}
           `
@@ -203,17 +346,112 @@ export class PostgresHistoryStore implements HistoryStore {
               FROM history_entries
              WHERE bot_account_id = ${key.botAccountId}
                AND group_id = ${key.groupId}
+               AND meta->>'context' IS DISTINCT FROM 'summary'
              ORDER BY id DESC
              LIMIT ${limit}
           `;
       const ordered = rows.reverse().map((row) => parseHistoryRow(row));
-      return applyMaxBytes(ordered, options.maxBytes);
+      const window = applyMaxBytes(ordered, options.maxBytes);
+      return options.withSummary
+        ? mergeSummaryWindow(await this.readLatestSummary(key), window)
+        : window;
     } catch (err) {
       this.logger.warn({ err, key }, "Failed to read group history");
       return [];
     }
   }
 
+  async readGroupHistoryAfter(
+    key: GroupHistoryKey,
+    afterId: string | null,
+    limit: number,
+  ): Promise<HistoryEntry[]> {
+    await this.init();
+    const scopedUserId = key.userId?.trim();
+    try {
+      const rows = await this.sql<HistoryRow[]>`
+        SELECT id::text AS id,
+               user_id AS "userId",
+               role,
+               content,
+               created_at AS "createdAt",
+               group_id AS "groupId",
+               session_id AS "sessionId",
+               meta
+          FROM history_entries
+         WHERE bot_account_id = ${key.botAccountId}
+           AND group_id = ${key.groupId}
+           ${scopedUserId ? this.sql`AND user_id = ${scopedUserId}` : this.sql``}
+           ${afterId ? this.sql`AND id > ${afterId}` : this.sql``}
+           AND meta->>'context' IS DISTINCT FROM 'summary'
+           AND meta->>'includeInContext' IS DISTINCT FROM 'false'
+         ORDER BY id ASC
+         LIMIT ${limit}
+      `;
+      return rows.map((row) => parseHistoryRow(row));
+    } catch (err) {
+      this.logger.warn({ err, key }, "Failed to read history after cursor");
+      return [];
+    }
+  }
+
+  async readLatestSummary(key: GroupHistoryKey): Promise<HistoryEntry | null> {
+    await this.init();
+    const owner = resolveSummaryOwner(key);
+    try {
+      const rows = await this.sql<HistoryRow[]>`
+        SELECT id::text AS id,
+               user_id AS "userId",
+               role,
+               content,
+               created_at AS "createdAt",
+               group_id AS "groupId",
+               session_id AS "sessionId",
+               meta
+          FROM history_entries
+         WHERE bot_account_id = ${owner.botAccountId}
+           AND group_id = ${key.groupId}
+           AND user_id = ${owner.userId}
+           AND meta->>'context' = 'summary'
+         ORDER BY id DESC
+         LIMIT 1
+      `;
+      const row = rows[0];
+      return row ? parseHistoryRow(row) : null;
+    } catch (err) {
+      this.logger.warn({ err, key }, "Failed to read history summary");
+      return null;
+    }
+  }
+
+  async readSessionHistory(
+    key: SessionHistoryKey,
+    query: SessionHistoryQuery,
+  ): Promise<HistoryEntry[]> {
+    await this.init();
+    const rows = await this.sql<HistoryRow[]>`
+      SELECT id::text AS id,
+             user_id AS "userId",
+             role,
+             content,
+             created_at AS "createdAt",
+             group_id AS "groupId",
+             session_id AS "sessionId",
+             meta
+        FROM history_entries
+       WHERE bot_account_id = ${key.botAccountId}
+         AND group_id = ${key.groupId}
+         AND session_id = ${key.sessionId}
+         ${query.role ? this.sql`AND role = ${query.role}` : this.sql``}
+         ${query.from ? this.sql`AND created_at >= ${query.from}` : this.sql``}
+         ${query.to ? this.sql`AND created_at < ${query.to}` : this.sql``}
+         ${query.beforeId ? this.sql`AND id < ${query.beforeId}` : this.sql``}
+       ORDER BY id DESC
+       LIMIT ${query.limit}
+    `;
+    return rows.map((row) => parseHistoryRow(row));
+  }
+
   async appendHistory(key: HistoryKey, entry: HistoryEntry): Promise<void> {
     await this.init();
     const { role, content, createdAt, groupId, sessionId, ...meta } = entry;
@@ -237,6 +475,17 @@ export class PostgresHistoryStore implements HistoryStore {
     }
   }
 
+  async appendSummary(
+    key: GroupHistoryKey,
+    entry: HistoryEntry,
+  ): Promise<void> {
+    await this.appendHistory(resolveSummaryOwner(key), {
+      ...entry,
+      groupId: key.groupId,
+      context: "summary",
+    });
+  }
+
   async close(): Promise<void> {
     await this.sql.end();
   }
@@ -284,6 +533,11 @@ export class PostgresHistoryStore implements HistoryStore {
       CREATE INDEX IF NOT EXISTS history_entries_group_session_lookup_idx
         ON history_entries (bot_account_id, group_id, session_id, id)
     `;
+    await this.sql`
+      CREATE INDEX IF NOT EXISTS history_entries_summary_lookup_idx
+        ON history_entries (bot_account_id, group_id, user_id, id)
+        WHERE meta->>'context' = 'summary'
+    `;
   }
 
   private async ensureSessionIdColumn(): Promise<void> {
@@ -335,6 +589,35 @@ function composeKey(key: HistoryKey): string {
   return `${key.botAccountId}:${key.userId}`;
 }
 
+/** Group summaries are stored under user "0"; dm summaries under the user. */
+function resolveSummaryOwner(key: GroupHistoryKey): HistoryKey {
+  return {
+    botAccountId: key.botAccountId,
+    userId: key.userId?.trim() || "0",
+  };
+}
+
+/** Ids are BIGSERIAL values rendered as text; missing ids sort first. */
+export function compareHistoryIds(a: string | undefined, b: string): number {
+  const left = a && /^\d+$/.test(a) ? BigInt(a) : -1n;
+  const right = /^\d+$/.test(b) ? BigInt(b) : -1n;
+  return left === right ? 0 : left < right ? -1 : 1;
+}
+
+function mergeSummaryWindow(
+  summary: HistoryEntry | null,
+  entries: HistoryEntry[],
+): HistoryEntry[] {
+  const coveredToId = summary?.summary?.toId;
+  if (!summary || !coveredToId) {
+    return entries;
+  }
+  return [
+    summary,
+    ...entries.filter((entry) => compareHistoryIds(entry.id, coveredToId) > 0),
+  ];
+}
+
 function parseHistoryRow(row: HistoryRow): HistoryEntry {
   const base: HistoryEntry = {
     id: row.id,
@@ -1,5 +1,5 @@
 export { SessionRepository } from "./repository";
-export type { SessionRepositoryOptions } from "./repository";
+export type { SessionListEntry, SessionRepositoryOptions } from "./repository";
 export { createSession } from "./session-ops";
 export type { CreateSessionInput } from "./session-ops";
 
@@ -9,7 +9,36 @@ export type {
   HistoryKey,
   HistoryReadOptions,
   HistoryStore,
+  SessionHistoryKey,
+  SessionHistoryQuery,
 } from "./history";
+export {
+  createOpencodeHistorySummarizer,
+  HistoryCompactor,
+} from "./history-summary";
+export type {
+  HistoryCompactorOptions,
+  HistorySummarizer,
+} from "./history-summary";
+export {
+  createUsageStore,
+  InMemoryUsageStore,
+  PostgresUsageStore,
+  RedisUsageStore,
+} from "./usage";
+export type {
+  UsageBreakdown,
+  UsageQuery,
+  UsageRecord,
+  UsageStore,
+  UsageSummary,
+  UsageTotals,
+} from "./usage";
+export {
+  InMemoryModelCircuitStore,
+  ModelCircuitBreaker,
+} from "./model-circuit";
+export type { ModelCircuitBreakerOptions } from "./model-circuit";
 export { SessionBusyError } from "./errors";
 export { SessionTtlCleaner } from "./ttl-cleaner";
 export type { SessionTtlCleanerOptions } from "./ttl-cleaner";
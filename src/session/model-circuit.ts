@@ -0,0 +1,191 @@
+import IORedis from "ioredis";
+import type { Logger } from "pino";
+
+interface ModelCircuitStore {
+  isOpen(key: string): Promise<boolean>;
+  /** Counts one failure; returns true when this failure opened the circuit. */
+  recordFailure(
+    key: string,
+    threshold: number,
+    cooldownMs: number,
+  ): Promise<boolean>;
+  reset(key: string): Promise<void>;
+  close(): Promise<void>;
+}
+
+// KEYS: failure counter, open flag. ARGV: threshold, cooldownMs.
+// Failures are counted within a cooldown-sized window; reaching the threshold
+// sets the open flag for cooldownMs and restarts the count.
+const RECORD_FAILURE_SCRIPT = `
+local count = redis.call("INCR", KEYS[1])
+if count == 1 then
+  redis.call("PEXPIRE", KEYS[1], tonumber(ARGV[2]))
+end
+if count >= tonumber(ARGV[1]) then
+  redis.call("SET", KEYS[2], "1", "PX", tonumber(ARGV[2]))
+  redis.call("DEL", KEYS[1])
+  return 1
+end
+return 0
+`;
+
+class RedisModelCircuitStore implements ModelCircuitStore {
+  private redis: IORedis;
+
+  constructor(redisUrl: string) {
+    this.redis = new IORedis(redisUrl, { maxRetriesPerRequest: null });
+  }
+
+  async isOpen(key: string): Promise<boolean> {
+    return (await this.redis.exists(`${key}:open`)) === 1;
+  }
+
+  async recordFailure(
+    key: string,
+    threshold: number,
+    cooldownMs: number,
+  ): Promise<boolean> {
+    const opened = (await this.redis.eval(
+      RECORD_FAILURE_SCRIPT,
+      2,
+      `${key}:failures`,
+      `${key}:open`,
+      String(threshold),
+      String(cooldownMs),
+    )) as number;
+    return opened === 1;
+  }
+
+  async reset(key: string): Promise<void> {
+    await this.redis.del(`${key}:failures`);
+  }
+
+  async close(): Promise<void> {
+    await this.redis.quit();
+  }
+}
+
+/** Same semantics as the Redis script, for tests and local runs. */
+export class InMemoryModelCircuitStore implements ModelCircuitStore {
+  private failures = new Map<string, { count: number; expiresAt: number }>();
+  private openUntil = new Map<string, number>();
+  private now: () => number;
+
+  constructor(now: () => number = Date.now) {
+    this.now = now;
+  }
+
+  async isOpen(key: string): Promise<boolean> {
+    const until = this.openUntil.get(key);
+    return until !== undefined && until > this.now();
+  }
+
+  async recordFailure(
+    key: string,
+    threshold: number,
+    cooldownMs: number,
+  ): Promise<boolean> {
+    const now = this.now();
+    const current = this.failures.get(key);
+    const state =
+      current && current.expiresAt > now
+        ? current
+        : { count: 0, expiresAt: now + cooldownMs };
+    state.count += 1;
+    if (state.count >= threshold) {
+      this.openUntil.set(key, now + cooldownMs);
+      this.failures.delete(key);
+      return true;
+    }
+    this.failures.set(key, state);
+    return false;
+  }
+
+  async reset(key: string): Promise<void> {
+    this.failures.delete(key);
+  }
+
+  async close(): Promise<void> {}
+}
+
+export interface ModelCircuitBreakerOptions {
+  redisUrl?: string;
+  store?: ModelCircuitStore;
+  keyPrefix?: string;
+  /** Provider failures within the cooldown window before a model is skipped. */
+  failureThreshold?: number;
+  cooldownMs?: number;
+  logger?: Logger;
+}
+
+/**
+ * Shared across workers so one worker's 429s steer the others away from the
+ * same model until the cooldown passes.
+ */
+export class ModelCircuitBreaker {
+  private store: ModelCircuitStore;
+  private keyPrefix: string;
+  private failureThreshold: number;
+  private cooldownMs: number;
+  private logger?: Logger;
+
+  constructor(options: ModelCircuitBreakerOptions = {}) {
+    if (options.store) {
+      this.store = options.store;
+    } else if (options.redisUrl) {
+      this.store = new RedisModelCircuitStore(options.redisUrl);
+    } else {
+      throw new Error("ModelCircuitBreaker requires redisUrl or store");
+    }
+    this.keyPrefix = options.keyPrefix ?? "model-circuit";
+    this.failureThreshold = Math.max(1, options.failureThreshold ?? 3);
+    this.cooldownMs = Math.max(1_000, options.cooldownMs ?? 60_000);
+    this.logger = options.logger;
+  }
+
+  /** A Redis outage must not block models: treat the circuit as closed. */
+  async isOpen(modelId: string): Promise<boolean> {
+    try {
+      return await this.store.isOpen(this.key(modelId));
+    } catch (err) {
+      this.logger?.warn({ err, modelId }, "Model circuit check failed");
+      return false;
+    }
+  }
+
+  async recordFailure(modelId: string): Promise<boolean> {
+    try {
+      const opened = await this.store.recordFailure(
+        this.key(modelId),
+        this.failureThreshold,
+        this.cooldownMs,
+      );
+      if (opened) {
+        this.logger?.warn(
+          { modelId, cooldownMs: this.cooldownMs },
+          "Model circuit opened",
+        );
+      }
+      return opened;
+    } catch (err) {
+      this.logger?.warn({ err, modelId }, "Failed to record model failure");
+      return false;
+    }
+  }
+
+  async recordSuccess(modelId: string): Promise<void> {
+    try {
+      await this.store.reset(this.key(modelId));
+    } catch (err) {
+      this.logger?.warn({ err, modelId }, "Failed to reset model circuit");
+    }
+  }
+
+  async close(): Promise<void> {
+    await this.store.close();
+  }
+
+  private key(modelId: string): string {
+    return `${this.keyPrefix}:${modelId}`;
+  }
+}
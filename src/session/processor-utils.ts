@@ -1,15 +1,19 @@
 import type { SessionJobData } from "../queue";
 import type { OpencodeRequestSpec } from "../worker/runner";
+import type { OpencodeModelRef } from "../opencode/server-client";
 import type { SessionEvent } from "../types/platform";
-import type { HistoryKey } from "./history";
+import type { GroupHistoryKey, HistoryKey } from "./history";
 import type { SessionBufferKey } from "./buffer";
 import type { SessionInfo } from "../types/session";
 import { buildBotAccountId } from "../utils/bot-id";
 import { parseWorldGroup } from "../world/ids";
 import {
   parseOpencodeModelIdsCsv,
+  selectOpencodeDowngradeModelId,
   selectOpencodeModelId,
 } from "../opencode/model-ids";
+import type { BudgetConfig } from "../types/group";
+import type { BudgetStatus } from "./budget";
 
 const YOLO_TOOLS: Record<string, boolean> = {
   bash: true,
@@ -151,6 +155,18 @@ export function resolveHistoryKey(session: SessionEvent): HistoryKey | null {
   };
 }
 
+/** Summaries are per group; dms are scoped to the user. */
+export function resolveGroupHistoryKey(
+  key: HistoryKey,
+  groupId: string,
+): GroupHistoryKey {
+  return {
+    botAccountId: key.botAccountId,
+    groupId,
+    userId: groupId === "0" ? key.userId : undefined,
+  };
+}
+
 export function toBufferKey(jobData: SessionJobData): SessionBufferKey {
   return {
     botId: jobData.botId,
@@ -175,6 +191,7 @@ export function resolveModelRef(
     openaiBaseUrl: string | undefined;
     openaiApiKey: string | undefined;
     modelsCsv: string | undefined;
+    budget?: Readonly<{ config: BudgetConfig; status: BudgetStatus | null }>;
   }>,
 ): { providerID: string; modelID: string } {
   const externalBaseUrl = input.openaiBaseUrl?.trim();
@@ -188,10 +205,77 @@ export function resolveModelRef(
   }
 
   const allowed = parseOpencodeModelIdsCsv(modelsCsv!);
+  const budget = input.budget;
+  if (budget && isBudgetDowngradeActive(budget)) {
+    return {
+      providerID: "litellm",
+      modelID: selectOpencodeDowngradeModelId(
+        allowed,
+        budget.config.downgradeModel,
+      ),
+    };
+  }
   const selected = selectOpencodeModelId(allowed, input.groupOverride);
   return { providerID: "litellm", modelID: selected };
 }
 
+/**
+ * Ordered models to try for one prompt: the resolved model first, then the
+ * group's modelFallbacks (or the global list). Only litellm models listed in
+ * OPENCODE_MODELS take part; the built-in free model and a budget downgrade
+ * never fall back.
+ */
+export function resolveModelFallbackChain(
+  input: Readonly<{
+    primary: OpencodeModelRef;
+    groupFallbacks: readonly string[] | undefined;
+    fallbacksCsv: string | undefined;
+    modelsCsv: string | undefined;
+    budget?: Readonly<{ config: BudgetConfig; status: BudgetStatus | null }>;
+  }>,
+): OpencodeModelRef[] {
+  const chain = [input.primary];
+  if (
+    input.primary.providerID !== "litellm" ||
+    (input.budget && isBudgetDowngradeActive(input.budget))
+  ) {
+    return chain;
+  }
+  const allowed = parseOpencodeModelIdsCsv(input.modelsCsv ?? "");
+  const fallbacks =
+    input.groupFallbacks ?? parseOpencodeModelIdsCsv(input.fallbacksCsv ?? "");
+  for (const entry of fallbacks) {
+    const modelID = entry.trim();
+    if (
+      !allowed.includes(modelID) ||
+      chain.some((model) => model.modelID === modelID)
+    ) {
+      continue;
+    }
+    chain.push({ providerID: "litellm", modelID });
+  }
+  return chain;
+}
+
+function isBudgetDowngradeActive(
+  budget: Readonly<{ config: BudgetConfig; status: BudgetStatus | null }>,
+): boolean {
+  return Boolean(
+    budget.status?.exceeded && budget.config.onExceeded === "downgrade",
+  );
+}
+
+/** Rate limits, upstream 5xx and timeouts are worth retrying on another model. */
+export function isModelFallbackError(input: {
+  status: number | null;
+  timeoutPoint: string | null;
+}): boolean {
+  if (input.timeoutPoint) {
+    return true;
+  }
+  return input.status === 429 || (input.status !== null && input.status >= 500);
+}
+
 export function buildOpencodeSessionTitle(sessionInfo: SessionInfo): string {
   const groupId = sessionInfo.meta.groupId;
   const location = groupId === "0" ? "dm:0" : `group:${groupId}`;
@@ -4,6 +4,10 @@ import path from "node:path";
 import type { SessionInfo } from "../types/session";
 import { parseCharacterGroup } from "../character/ids";
 import { parseWorldGroup } from "../world/ids";
+import {
+  buildWorldPermissionDeniedMessage,
+  canPerformWorldAction,
+} from "../world/permissions";
 import { WorldFileStore } from "../world/file-store";
 import { WorldStore } from "../world/store";
 
@@ -140,6 +144,11 @@ export async function ensureWorldWorkspaceWithDeps(
   }
 
   await rm(sourcePath, { force: true });
+  // Read by the world-canon-search skill so play stays consistent with canon.
+  await atomicWrite(
+    path.join(worldDir, "search-index.json"),
+    JSON.stringify(await deps.worldFiles.readSearchIndex(worldId)),
+  );
 
   const activeCharacterId = await deps.worldStore.getActiveCharacterId({
     worldId,
@@ -267,8 +276,15 @@ export async function syncWorldFilesFromWorkspaceWithDeps(
     if (!meta) {
       throw new Error(`世界不存在：W${worldId}`);
     }
-    if (meta.creatorId !== sessionInfo.meta.ownerId) {
-      throw new Error("无权限：只有世界创作者可以修改世界文件。");
+    if (
+      !(await canPerformWorldAction(
+        deps.worldStore,
+        meta,
+        sessionInfo.meta.ownerId,
+        "edit",
+      ))
+    ) {
+      throw new Error(buildWorldPermissionDeniedMessage("edit"));
     }
 
     const [workspaceCard, workspaceRules, storedCard, storedRules] =
@@ -284,14 +300,20 @@ export async function syncWorldFilesFromWorkspaceWithDeps(
       workspaceCard?.trim() &&
       workspaceCard.trimEnd() !== (storedCard ?? "").trimEnd()
     ) {
-      await deps.worldFiles.writeWorldCard(worldId, workspaceCard);
+      await deps.worldFiles.writeWorldCard(worldId, workspaceCard, {
+        author: sessionInfo.meta.ownerId,
+        source: "ai_session",
+      });
       changed.push("world-card.md");
     }
     if (
       workspaceRules?.trim() &&
       workspaceRules.trimEnd() !== (storedRules ?? "").trimEnd()
     ) {
-      await deps.worldFiles.writeRules(worldId, workspaceRules);
+      await deps.worldFiles.writeRules(worldId, workspaceRules, {
+        author: sessionInfo.meta.ownerId,
+        source: "ai_session",
+      });
       changed.push("rules.md");
     }
 
@@ -6,12 +6,19 @@ import type { HistoryEntry, SessionInfo } from "../types/session";
 import { GroupFileRepository } from "../store/repository";
 import { SessionRepository } from "./repository";
 import type { HistoryKey, HistoryStore } from "./history";
+import { NoopUsageStore, type UsageStore } from "./usage";
+import { loadBudgetStatus } from "./budget";
+import type { ModelCircuitBreaker } from "./model-circuit";
+import type { HistoryCompactor } from "./history-summary";
 import { createSession } from "./session-ops";
 import {
   buildBufferedInput,
   buildOpencodeSystemContext,
 } from "../opencode/prompt";
-import type { OpencodeStreamEvent } from "../opencode/output";
+import type {
+  OpencodeRunResult,
+  OpencodeStreamEvent,
+} from "../opencode/output";
 import type { OpencodeToolCall } from "../opencode/output";
 import type { OpencodeRequestSpec, OpencodeRunner } from "../worker/runner";
 import type { SessionActivityIndex } from "./activity-store";
@@ -21,13 +28,40 @@ import {
   extractOutputElements,
   type CommandActionSuggestion,
 } from "./output-elements";
+import { ReplyStream } from "./reply-stream";
+import { encodeSessionCancelKey, type SessionCancelRequest } from "./cancel";
 import { redactSensitiveText } from "../utils/redact";
-import type { OpencodeClient } from "../opencode/server-client";
+import type {
+  OpencodeClient,
+  OpencodeModelRef,
+} from "../opencode/server-client";
 import { appendInputAuditIfSuspicious } from "../opencode/input-audit";
 import { ensureOpencodeSkills } from "../opencode/skills";
 import { getConfig } from "../config";
 import { WorldFileStore } from "../world/file-store";
 import { parseWorldGroup } from "../world/ids";
+import {
+  formatWorldLoreContext,
+  selectWorldLoreInjections,
+} from "../world/lorebook";
+import {
+  applyCharacterSheetChanges,
+  extractCharacterStateBlocks,
+  formatCharacterSheet,
+  type CharacterSheetChange,
+} from "../world/character-sheet";
+import {
+  applyWorldQuestChanges,
+  extractQuestUpdateBlocks,
+  formatWorldQuestContext,
+  type WorldQuestChange,
+} from "../world/quests";
+import {
+  applyWorldTimeChanges,
+  extractWorldTimeBlocks,
+  formatWorldTimeContext,
+  type WorldTimeChange,
+} from "../world/timeline";
 import { WorldStore } from "../world/store";
 import { feishuLogJson } from "../feishu/webhook";
 import { parseCharacterGroup } from "../character/ids";
@@ -38,9 +72,12 @@ import {
 } from "../user/state-store";
 import {
   buildLanguageDirective,
+  buildSessionCancelledReply,
   buildSessionOpencodeRunErrorReply,
   buildSessionOpencodeResumePrompt,
   buildSessionPromptContextFailedReply,
+  buildSessionStreamingPlaceholderText,
+  buildSessionStreamingToolProgressText,
   buildSystemPrompt,
 } from "../texts";
 import {
@@ -56,7 +93,10 @@ import {
   isLikelyOpencodeSessionId,
   parseWebfetchStatusCode,
   readHttpStatusCode,
+  resolveGroupHistoryKey,
   resolveHistoryKey,
+  isModelFallbackError,
+  resolveModelFallbackChain,
   resolveModelRef,
   resolveOpencodeAssistantMessageId,
   resolveOutput,
@@ -83,6 +123,9 @@ export interface SessionProcessorOptions {
   groupRepository: GroupFileRepository;
   sessionRepository: SessionRepository;
   historyStore: HistoryStore;
+  historyCompactor?: HistoryCompactor;
+  usageStore?: UsageStore;
+  modelCircuit?: ModelCircuitBreaker;
   opencodeClient: OpencodeClient;
   runner: OpencodeRunner;
   activityIndex: SessionActivityIndex;
@@ -105,6 +148,18 @@ type SessionProcessorRuntime = {
   span: SessionProcessorSpan;
   bufferKey: SessionBufferKey;
   gateToken: string;
+  cancel: SessionCancelState;
+};
+
+type SessionCancelState = {
+  controller: AbortController;
+  requestedBy?: string;
+};
+
+/** What one agent state block changed, plus its world event type and extras. */
+type AppliedReplyBlockChanges = {
+  result: { applied: string[]; errors: string[] };
+  event: { type: string } & Record<string, unknown>;
 };
 
 export class SessionProcessor {
@@ -113,6 +168,10 @@ export class SessionProcessor {
   private groupRepository: GroupFileRepository;
   private sessionRepository: SessionRepository;
   private historyStore: HistoryStore;
+  private historyCompactor: HistoryCompactor | null;
+  private pendingCompactions = new Set<Promise<void>>();
+  private usageStore: UsageStore;
+  private modelCircuit: ModelCircuitBreaker | null;
   private opencodeClient: OpencodeClient;
   private runner: OpencodeRunner;
   private activityIndex: SessionActivityIndex;
@@ -121,6 +180,8 @@ export class SessionProcessor {
   private worldFiles: WorldFileStore;
   private userState: UserStateStore;
   private isDevelopmentMode: boolean;
+  private streamingRepliesEnabled: boolean;
+  private activeJobs = new Map<string, SessionProcessorRuntime>();
 
   constructor(options: SessionProcessorOptions) {
     this.logger = options.logger.child({ component: "session-processor" });
@@ -128,6 +189,9 @@ export class SessionProcessor {
     this.groupRepository = options.groupRepository;
     this.sessionRepository = options.sessionRepository;
     this.historyStore = options.historyStore;
+    this.historyCompactor = options.historyCompactor ?? null;
+    this.usageStore = options.usageStore ?? new NoopUsageStore();
+    this.modelCircuit = options.modelCircuit ?? null;
     this.opencodeClient = options.opencodeClient;
     this.runner = options.runner;
     this.activityIndex = options.activityIndex;
@@ -136,6 +200,7 @@ export class SessionProcessor {
     const config = getConfig();
     this.isDevelopmentMode =
       (config.NODE_ENV ?? "development") === "development";
+    this.streamingRepliesEnabled = config.STREAMING_REPLIES_ENABLED;
     this.worldStore = new WorldStore({
       redisUrl: config.REDIS_URL,
       logger: this.logger,
@@ -207,14 +272,41 @@ export class SessionProcessor {
       span,
       bufferKey: toBufferKey(jobData),
       gateToken: jobData.gateToken,
+      cancel: { controller: new AbortController() },
     };
 
-    await span("job_process", async () => this.runJob(runtime), {
-      traceStartedAt: jobData.traceStartedAt,
-      enqueuedAt: jobData.enqueuedAt,
-      queueDelayMs,
-      e2eAgeMs,
-    });
+    const activeKey = encodeSessionCancelKey(runtime.bufferKey);
+    this.activeJobs.set(activeKey, runtime);
+    try {
+      await span("job_process", async () => this.runJob(runtime), {
+        traceStartedAt: jobData.traceStartedAt,
+        enqueuedAt: jobData.enqueuedAt,
+        queueDelayMs,
+        e2eAgeMs,
+      });
+    } finally {
+      if (this.activeJobs.get(activeKey) === runtime) {
+        this.activeJobs.delete(activeKey);
+      }
+    }
+  }
+
+  /**
+   * Abort the in-flight run for a session if this processor holds its gate.
+   * Returns false when the session is not being processed here.
+   */
+  cancel(request: SessionCancelRequest): boolean {
+    const runtime = this.activeJobs.get(encodeSessionCancelKey(request.key));
+    if (!runtime) {
+      return false;
+    }
+    runtime.log.info(
+      { requestedBy: request.requestedBy },
+      "Session cancel requested",
+    );
+    runtime.cancel.requestedBy = request.requestedBy;
+    runtime.cancel.controller.abort();
+    return true;
   }
 
   private async runJob(runtime: SessionProcessorRuntime): Promise<void> {
@@ -349,11 +441,21 @@ export class SessionProcessor {
       );
 
     const historyKey = resolveHistoryKey(mergedWithTrace);
+    if (runtime.cancel.controller.signal.aborted) {
+      return this.finishCancelledBatch(runtime, {
+        sessionInfo,
+        session: mergedWithTrace,
+        historyKey,
+        batchSpan,
+      });
+    }
     const stopTyping = this.startTyping(mergedWithTrace, runtime.log);
+    let replyStream: ReplyStream | null = null;
     try {
       let promptContext: {
         history: HistoryEntry[];
         request: OpencodeRequestSpec;
+        modelChain: OpencodeModelRef[];
         promptBytes: number;
         language: UserLanguage | null;
       };
@@ -362,6 +464,7 @@ export class SessionProcessor {
           runtime.jobData.groupId,
           sessionInfo,
           promptInput,
+          historyKey,
           {
             traceId: runtime.traceId,
             jobId: runtime.jobId,
@@ -452,7 +555,14 @@ export class SessionProcessor {
         return "continue";
       }
 
-      const { history, request, promptBytes, language } = promptContext;
+      const { history, request, modelChain, promptBytes, language } =
+        promptContext;
+      replyStream = await this.startReplyStream(
+        mergedWithTrace,
+        language,
+        runtime.log,
+      );
+      const activeReplyStream = replyStream;
 
       const parsedWorld = parseWorldGroup(sessionInfo.meta.groupId);
       const parsedCharacter = parseCharacterGroup(sessionInfo.meta.groupId);
@@ -475,7 +585,10 @@ export class SessionProcessor {
       const resumeParts = [{ type: "text" as const, text: resumePrompt }];
 
       let result: Awaited<ReturnType<OpencodeRunner["run"]>> | null = null;
-      const maxRunAttempts = 3;
+      // Every fallback model adds one attempt on top of the usual retries.
+      const maxRunAttempts = 2 + modelChain.length;
+      let modelIndex = (await this.selectAvailableModel(modelChain, -1)) ?? 0;
+      request.body.model = modelChain[modelIndex];
       const originalParts = request.body.parts;
       let promptMode: "original" | "resume" = "original";
 
@@ -485,8 +598,12 @@ export class SessionProcessor {
         status: number | null;
         isAbort: boolean;
       } | null = null;
+      const cancelSignal = runtime.cancel.controller.signal;
 
       for (let runAttempt = 1; runAttempt <= maxRunAttempts; runAttempt += 1) {
+        if (cancelSignal.aborted) {
+          break;
+        }
         const isFinalAttempt = runAttempt === maxRunAttempts;
         const isResumeAttempt = promptMode === "resume";
         request.body.parts = isResumeAttempt ? resumeParts : originalParts;
@@ -500,15 +617,24 @@ export class SessionProcessor {
                 history,
                 request,
                 language,
+                signal: cancelSignal,
+                onProgress: activeReplyStream
+                  ? (progress) => activeReplyStream.update(progress)
+                  : undefined,
               }),
             {
               historyEntries: history.length,
               promptBytes,
               modelProvider: request.body.model?.providerID,
               modelId: request.body.model?.modelID,
+              fallbackIndex: modelIndex,
               attempt: runAttempt,
             },
           );
+          if (request.body.model) {
+            await this.modelCircuit?.recordSuccess(request.body.model.modelID);
+          }
+          await this.recordUsage(sessionInfo, result, request, runtime.log);
           const output = resolveOutput(result.output);
           const assistantMessageId = resolveOpencodeAssistantMessageId(result);
           const isStaleReply =
@@ -581,6 +707,10 @@ export class SessionProcessor {
           result = null;
           break;
         } catch (err) {
+          if (cancelSignal.aborted) {
+            result = null;
+            break;
+          }
           const errMessage = err instanceof Error ? err.message : String(err);
           const errName = err instanceof Error ? err.name : undefined;
           const isAbort = isAbortError(err);
@@ -593,6 +723,13 @@ export class SessionProcessor {
             status,
           });
           const timeoutHint = timeoutPoint ? ` timeout:${timeoutPoint}` : "";
+          const failedModel: OpencodeModelRef | undefined = request.body.model;
+          const shouldFallback =
+            Boolean(failedModel) &&
+            isModelFallbackError({ status, timeoutPoint });
+          if (shouldFallback && failedModel) {
+            await this.modelCircuit?.recordFailure(failedModel.modelID);
+          }
 
           feishuLogJson({
             event: "log.warn",
@@ -609,7 +746,7 @@ export class SessionProcessor {
             characterId: parsedCharacter?.characterId,
             component: "session-processor",
             step: "opencode_run",
-            msg: `opencode失败${timeoutHint} attempt:${runAttempt}/${maxRunAttempts} abort:${isAbort} status:${status ?? "n/a"}`,
+            msg: `opencode失败${timeoutHint} attempt:${runAttempt}/${maxRunAttempts} abort:${isAbort} status:${status ?? "n/a"} model:${failedModel?.modelID ?? "n/a"}`,
             timeoutPoint: timeoutPoint ?? undefined,
             errName,
             errMessage,
@@ -620,6 +757,21 @@ export class SessionProcessor {
               { err, attempt: runAttempt, status },
               "Opencode run failed; retrying",
             );
+            if (shouldFallback) {
+              const nextIndex: number | null = await batchSpan(
+                "model_fallback",
+                async () => this.selectAvailableModel(modelChain, modelIndex),
+                {
+                  fromModelId: failedModel?.modelID,
+                  status,
+                  timeoutPoint: timeoutPoint ?? undefined,
+                },
+              );
+              if (nextIndex !== null) {
+                modelIndex = nextIndex;
+                request.body.model = modelChain[nextIndex];
+              }
+            }
             if (shouldResetOpencodeSession) {
               const nowIso = new Date().toISOString();
               const cleared = await this.sessionRepository.updateMeta({
@@ -672,6 +824,35 @@ export class SessionProcessor {
         }
       }
 
+      if (result && modelIndex > 0) {
+        runtime.log.info(
+          {
+            primaryModelId: modelChain[0]?.modelID,
+            answeredModelId: request.body.model?.modelID,
+          },
+          "Fallback model answered",
+        );
+      }
+
+      if (!result && cancelSignal.aborted) {
+        try {
+          await this.opencodeClient.abortSession({
+            directory: request.directory,
+            sessionId: request.sessionId,
+          });
+        } catch (err) {
+          runtime.log.warn({ err }, "Failed to abort opencode session");
+        }
+        return await this.finishCancelledBatch(runtime, {
+          sessionInfo,
+          session: mergedWithTrace,
+          historyKey,
+          batchSpan,
+          language,
+          replyStream,
+        });
+      }
+
       if (!result) {
         const timeoutPoint = classifyOpencodeTimeoutPoint({
           errName: lastError?.errName,
@@ -744,7 +925,8 @@ export class SessionProcessor {
           try {
             await batchSpan(
               "send_response",
-              async () => this.sendResponse(mergedWithTrace, responseOutput),
+              async () =>
+                this.sendResponse(mergedWithTrace, responseOutput, replyStream),
               {
                 outputBytes: responseOutputBytes,
                 outputPreview: responseOutputPreview.content,
@@ -870,7 +1052,30 @@ export class SessionProcessor {
         sessionInfo.meta = updated.meta;
       }
 
-      const responseOutput = auditedOutput;
+      const stateOutput = await batchSpan("apply_character_state", async () =>
+        this.applyReplyBlocks(sessionInfo, auditedOutput, runtime.log, {
+          kind: "character-state",
+          extract: extractCharacterStateBlocks,
+          apply: (worldId, changes) =>
+            this.applyAgentCharacterState(sessionInfo, worldId, changes),
+        }),
+      );
+      const questOutput = await batchSpan("apply_quest_updates", async () =>
+        this.applyReplyBlocks(sessionInfo, stateOutput, runtime.log, {
+          kind: "quest-update",
+          extract: extractQuestUpdateBlocks,
+          apply: (worldId, changes) =>
+            this.applyAgentQuestUpdates(sessionInfo, worldId, changes),
+        }),
+      );
+      const responseOutput = await batchSpan("apply_world_time", async () =>
+        this.applyReplyBlocks(sessionInfo, questOutput, runtime.log, {
+          kind: "world-time",
+          extract: extractWorldTimeBlocks,
+          apply: (worldId, changes) =>
+            this.applyAgentWorldTime(sessionInfo, worldId, changes),
+        }),
+      );
       const syncResult = await batchSpan("sync_workspace_files", async () => {
         try {
           const changed =
@@ -895,7 +1100,8 @@ export class SessionProcessor {
         : { content: "", truncated: false };
       await batchSpan(
         "send_response",
-        async () => this.sendResponse(mergedWithTrace, responseOutput),
+        async () =>
+          this.sendResponse(mergedWithTrace, responseOutput, replyStream),
         {
           outputBytes: responseOutputBytes,
           outputPreview: responseOutputPreview.content,
@@ -946,6 +1152,7 @@ export class SessionProcessor {
           { stdout: result.rawStdout, stderr: result.rawStderr },
         ),
       );
+      this.scheduleHistoryCompaction(sessionInfo, historyKey, runtime.log);
       await batchSpan("record_activity", async () =>
         this.recordActivity(sessionInfo, runtime.log),
       );
@@ -953,13 +1160,72 @@ export class SessionProcessor {
       return "continue";
     } finally {
       stopTyping();
+      await replyStream?.discard();
     }
   }
 
+  private async finishCancelledBatch(
+    runtime: SessionProcessorRuntime,
+    input: {
+      sessionInfo: SessionInfo;
+      session: SessionEvent;
+      historyKey: HistoryKey | null;
+      batchSpan: SessionProcessorSpan;
+      language?: UserLanguage | null;
+      replyStream?: ReplyStream | null;
+    },
+  ): Promise<"continue"> {
+    const { sessionInfo, session, historyKey, batchSpan } = input;
+    const requestedBy = runtime.cancel.requestedBy;
+    // Later messages start with a fresh signal once this cancel is handled.
+    runtime.cancel = { controller: new AbortController() };
+
+    const discarded = await this.bufferStore.drain(runtime.bufferKey);
+    runtime.log.info(
+      { requestedBy, discardedCount: discarded.length },
+      "Session run cancelled",
+    );
+
+    const language =
+      input.language ??
+      (await this.userState
+        .getLanguage(sessionInfo.meta.ownerId)
+        .catch(() => null));
+    const responseOutput = buildSessionCancelledReply(language);
+    try {
+      await batchSpan(
+        "send_response",
+        async () =>
+          this.sendResponse(session, responseOutput, input.replyStream),
+        { cancelled: true, requestedBy },
+      );
+    } catch (err) {
+      runtime.log.error({ err }, "Failed to send cancel confirmation");
+    }
+    await batchSpan("append_history", async () =>
+      this.appendHistoryFromJob(
+        sessionInfo,
+        session,
+        historyKey,
+        undefined,
+        undefined,
+        responseOutput,
+        { stderr: "opencode_run_cancelled" },
+      ),
+    );
+    await batchSpan("record_activity", async () =>
+      this.recordActivity(sessionInfo, runtime.log),
+    );
+    return "continue";
+  }
+
   async close(): Promise<void> {
     await this.activityIndex.close();
     await this.bufferStore.close();
+    await Promise.allSettled(this.pendingCompactions);
     await this.historyStore.close();
+    await this.usageStore.close();
+    await this.modelCircuit?.close();
     await this.worldStore.close();
   }
 
@@ -967,6 +1233,7 @@ export class SessionProcessor {
     groupId: string,
     sessionInfo: SessionInfo,
     promptInput: string,
+    historyKey: HistoryKey | null,
     telemetry?: {
       traceId: string;
       jobId: string;
@@ -976,6 +1243,7 @@ export class SessionProcessor {
   ): Promise<{
     history: HistoryEntry[];
     request: OpencodeRequestSpec;
+    modelChain: OpencodeModelRef[];
     promptBytes: number;
     language: UserLanguage | null;
   }> {
@@ -1030,10 +1298,59 @@ export class SessionProcessor {
       async () =>
         this.userState.getRecentCommandTranscripts(sessionInfo.meta.ownerId, 8),
     );
+    const historySummary = historyKey
+      ? await span("load_history_summary", async () =>
+          this.historyStore.readLatestSummary(
+            resolveGroupHistoryKey(historyKey, sessionInfo.meta.groupId),
+          ),
+        )
+      : null;
+    const worldLore = await span("load_world_lore", async () =>
+      this.buildWorldLoreContext(sessionInfo, rawUserText, historyKey).catch(
+        (err) => {
+          (telemetry?.logger ?? this.logger).warn(
+            { err },
+            "Failed to load world lorebook",
+          );
+          return "";
+        },
+      ),
+    );
+    const characterSheet = await span("load_character_sheet", async () =>
+      this.buildCharacterSheetContext(sessionInfo, language).catch((err) => {
+        (telemetry?.logger ?? this.logger).warn(
+          { err },
+          "Failed to load character sheet",
+        );
+        return "";
+      }),
+    );
+    const worldTime = await span("load_world_time", async () =>
+      this.buildWorldTimeContext(sessionInfo, language).catch((err) => {
+        (telemetry?.logger ?? this.logger).warn(
+          { err },
+          "Failed to load world timeline",
+        );
+        return "";
+      }),
+    );
+    const worldQuests = await span("load_world_quests", async () =>
+      this.buildWorldQuestContext(sessionInfo, language).catch((err) => {
+        (telemetry?.logger ?? this.logger).warn(
+          { err },
+          "Failed to load world quests",
+        );
+        return "";
+      }),
+    );
     const systemPrompt = buildSystemPrompt(agentPrompt, language);
     const system = buildOpencodeSystemContext({
       systemPrompt,
-      history: [],
+      history: historySummary ? [historySummary] : [],
+      worldLore,
+      characterSheet,
+      worldTime,
+      worldQuests,
     });
     const languageDirective = buildLanguageDirective(language);
     const commandTranscriptContext = this.buildCommandTranscriptContext(
@@ -1069,17 +1386,40 @@ export class SessionProcessor {
       },
     );
 
+    const budgetStatus = await span("load_budget", async () =>
+      loadBudgetStatus(this.usageStore, groupId, groupConfig.budget).catch(
+        (err) => {
+          (telemetry?.logger ?? this.logger).warn(
+            { err },
+            "Failed to load budget status",
+          );
+          return null;
+        },
+      ),
+    );
+
+    const budget = { config: groupConfig.budget, status: budgetStatus };
+    const model = resolveModelRef({
+      groupOverride: groupConfig.model,
+      openaiBaseUrl: config.OPENAI_BASE_URL,
+      openaiApiKey: config.OPENAI_API_KEY,
+      modelsCsv: config.OPENCODE_MODELS,
+      budget,
+    });
+    const modelChain = resolveModelFallbackChain({
+      primary: model,
+      groupFallbacks: groupConfig.modelFallbacks,
+      fallbacksCsv: config.OPENCODE_MODEL_FALLBACKS,
+      modelsCsv: config.OPENCODE_MODELS,
+      budget,
+    });
+
     const request: OpencodeRequestSpec = {
       directory: sessionInfo.workspacePath,
       sessionId: opencodeSessionId,
       body: {
         system,
-        model: resolveModelRef({
-          groupOverride: groupConfig.model,
-          openaiBaseUrl: config.OPENAI_BASE_URL,
-          openaiApiKey: config.OPENAI_API_KEY,
-          modelsCsv: config.OPENCODE_MODELS,
-        }),
+        model,
         tools: config.OPENCODE_YOLO
           ? resolveSessionTools(sessionInfo.meta.groupId)
           : undefined,
@@ -1087,7 +1427,245 @@ export class SessionProcessor {
       },
     };
 
-    return { history: [], request, promptBytes, language };
+    return { history: [], request, modelChain, promptBytes, language };
+  }
+
+  /**
+   * Lorebook entries of the session's world triggered by the current input
+   * or the last few group messages, rendered within WORLD_LORE_MAX_BYTES.
+   */
+  private async buildWorldLoreContext(
+    sessionInfo: SessionInfo,
+    input: string,
+    historyKey: HistoryKey | null,
+  ): Promise<string> {
+    const config = getConfig();
+    const world = parseWorldGroup(sessionInfo.meta.groupId);
+    if (!world || world.kind !== "play" || config.WORLD_LORE_MAX_BYTES <= 0) {
+      return "";
+    }
+    const lorebook = await this.worldFiles.readWorldLorebook(world.worldId);
+    if (!lorebook.entries.some((entry) => entry.enabled)) {
+      return "";
+    }
+    const recent =
+      historyKey && config.WORLD_LORE_SCAN_ENTRIES > 0
+        ? await this.historyStore.readGroupHistory(
+            resolveGroupHistoryKey(historyKey, sessionInfo.meta.groupId),
+            { maxEntries: config.WORLD_LORE_SCAN_ENTRIES },
+          )
+        : [];
+    const scanText = [...recent.map((entry) => entry.content), input].join(
+      "\n",
+    );
+    return formatWorldLoreContext(
+      await selectWorldLoreInjections(
+        lorebook.entries,
+        scanText,
+        config.WORLD_LORE_MAX_BYTES,
+      ),
+    );
+  }
+
+  /** Sheet of the owner's active character in a world play session. */
+  private async buildCharacterSheetContext(
+    sessionInfo: SessionInfo,
+    language: UserLanguage | null,
+  ): Promise<string> {
+    const world = parseWorldGroup(sessionInfo.meta.groupId);
+    if (!world || world.kind !== "play") {
+      return "";
+    }
+    const characterId = await this.worldStore.getActiveCharacterId({
+      worldId: world.worldId,
+      userId: sessionInfo.meta.ownerId,
+    });
+    if (!characterId) {
+      return "";
+    }
+    const loaded = await this.worldFiles.readCharacterSheet(
+      world.worldId,
+      characterId,
+    );
+    if (!loaded) {
+      return "";
+    }
+    const meta = await this.worldStore.getCharacter(characterId);
+    const heading = meta ? `C${characterId} ${meta.name}` : `C${characterId}`;
+    return `${heading}\n${formatCharacterSheet(loaded.schema, loaded.sheet, language)}`;
+  }
+
+  /** Applies character-state changes to the owner's active character sheet. */
+  private async applyAgentCharacterState(
+    sessionInfo: SessionInfo,
+    worldId: number,
+    changes: CharacterSheetChange[],
+  ): Promise<AppliedReplyBlockChanges | null> {
+    const characterId = await this.worldStore.getActiveCharacterId({
+      worldId,
+      userId: sessionInfo.meta.ownerId,
+    });
+    const result = characterId
+      ? await this.worldFiles.updateCharacterSheet(
+          worldId,
+          characterId,
+          (sheet, schema) => applyCharacterSheetChanges(schema, sheet, changes),
+        )
+      : null;
+    return result
+      ? { result, event: { type: "character_sheet_updated", characterId } }
+      : null;
+  }
+
+  /** In-world clock and recent timeline entries in a play session. */
+  private async buildWorldTimeContext(
+    sessionInfo: SessionInfo,
+    language: UserLanguage | null,
+  ): Promise<string> {
+    const world = parseWorldGroup(sessionInfo.meta.groupId);
+    if (!world || world.kind !== "play") {
+      return "";
+    }
+    const { calendar, timeline } = await this.worldFiles.readWorldTimeline(
+      world.worldId,
+    );
+    return formatWorldTimeContext(calendar, timeline, language);
+  }
+
+  /** Applies world-time changes to the world clock and timeline. */
+  private async applyAgentWorldTime(
+    sessionInfo: SessionInfo,
+    worldId: number,
+    changes: WorldTimeChange[],
+  ): Promise<AppliedReplyBlockChanges> {
+    const result = await this.worldFiles.updateWorldTimeline(
+      worldId,
+      (timeline, calendar) =>
+        applyWorldTimeChanges(calendar, timeline, changes, {
+          source: "ai_session",
+          authorId: sessionInfo.meta.ownerId,
+        }),
+    );
+    return { result, event: { type: "world_time_updated" } };
+  }
+
+  /** Open quests of the session's world in a play session. */
+  private async buildWorldQuestContext(
+    sessionInfo: SessionInfo,
+    language: UserLanguage | null,
+  ): Promise<string> {
+    const world = parseWorldGroup(sessionInfo.meta.groupId);
+    if (!world || world.kind !== "play") {
+      return "";
+    }
+    return formatWorldQuestContext(
+      await this.worldFiles.readWorldQuests(world.worldId),
+      language,
+    );
+  }
+
+  /**
+   * Applies quest updates to the world quest log; "join" adds the session
+   * owner with their active character.
+   */
+  private async applyAgentQuestUpdates(
+    sessionInfo: SessionInfo,
+    worldId: number,
+    changes: WorldQuestChange[],
+  ): Promise<AppliedReplyBlockChanges> {
+    const userId = sessionInfo.meta.ownerId;
+    const characterId = changes.some((change) => change.op === "join")
+      ? await this.worldStore.getActiveCharacterId({ worldId, userId })
+      : null;
+    const character = characterId
+      ? await this.worldStore.getCharacter(characterId)
+      : null;
+    const result = await this.worldFiles.updateWorldQuests(worldId, (quests) =>
+      applyWorldQuestChanges(quests, changes, {
+        createdBy: "ai",
+        participant: {
+          userId,
+          ...(character
+            ? { characterId: character.id, characterName: character.name }
+            : {}),
+        },
+      }),
+    );
+    return { result, event: { type: "quest_updated" } };
+  }
+
+  /**
+   * Strips one kind of agent state block from the reply and, in a play
+   * session, applies its changes and logs a world event. Failures are only
+   * logged: the stripped reply is sent either way.
+   */
+  private async applyReplyBlocks<T>(
+    sessionInfo: SessionInfo,
+    output: string | undefined,
+    log: Logger,
+    block: {
+      kind: string;
+      extract: (output: string) => { content: string; changes: T[] };
+      apply: (
+        worldId: number,
+        changes: T[],
+      ) => Promise<AppliedReplyBlockChanges | null>;
+    },
+  ): Promise<string | undefined> {
+    if (!output) {
+      return output;
+    }
+    const { content, changes } = block.extract(output);
+    const world = parseWorldGroup(sessionInfo.meta.groupId);
+    if (changes.length === 0 || world?.kind !== "play") {
+      return content;
+    }
+    try {
+      const applied = await block.apply(world.worldId, changes);
+      if (!applied) {
+        log.warn(
+          { kind: block.kind, worldId: world.worldId },
+          "Agent state changes have no target",
+        );
+        return content;
+      }
+      const { result, event } = applied;
+      if (result.errors.length > 0) {
+        log.warn(
+          { kind: block.kind, errors: result.errors },
+          "Skipped agent state changes",
+        );
+      }
+      if (result.applied.length > 0) {
+        await this.worldFiles.appendEvent(world.worldId, {
+          ...event,
+          worldId: world.worldId,
+          userId: sessionInfo.meta.ownerId,
+          source: "ai_session",
+          changes: result.applied,
+        });
+      }
+    } catch (err) {
+      log.warn(
+        { err, kind: block.kind },
+        "Failed to apply agent state changes",
+      );
+    }
+    return content;
+  }
+
+  /** Next model after afterIndex whose circuit is closed, or null. */
+  private async selectAvailableModel(
+    chain: OpencodeModelRef[],
+    afterIndex: number,
+  ): Promise<number | null> {
+    for (let index = afterIndex + 1; index < chain.length; index += 1) {
+      const model = chain[index];
+      if (model && !(await this.modelCircuit?.isOpen(model.modelID))) {
+        return index;
+      }
+    }
+    return null;
   }
 
   private async ensureWorkspaceBindings(
@@ -1347,6 +1925,29 @@ export class SessionProcessor {
     }
   }
 
+  /** Runs in the background so summarizing never delays the reply. */
+  private scheduleHistoryCompaction(
+    sessionInfo: SessionInfo,
+    historyKey: HistoryKey | null,
+    log: Logger,
+  ): void {
+    if (!this.historyCompactor || !historyKey) {
+      return;
+    }
+    const task = this.historyCompactor
+      .compact(resolveGroupHistoryKey(historyKey, sessionInfo.meta.groupId), {
+        directory: sessionInfo.workspacePath,
+      })
+      .then(
+        () => undefined,
+        (err) => {
+          log.warn({ err }, "History compaction failed");
+        },
+      );
+    this.pendingCompactions.add(task);
+    void task.finally(() => this.pendingCompactions.delete(task));
+  }
+
   private async recordActivity(
     sessionInfo: SessionInfo,
     log: Logger,
@@ -1362,6 +1963,39 @@ export class SessionProcessor {
     }
   }
 
+  /** Every attempt is billed, including stale or empty replies. */
+  private async recordUsage(
+    sessionInfo: SessionInfo,
+    result: OpencodeRunResult,
+    request: OpencodeRequestSpec,
+    log: Logger,
+  ): Promise<void> {
+    const usage = result.usage;
+    if (!usage) {
+      return;
+    }
+    try {
+      await this.usageStore.record({
+        botId: sessionInfo.meta.botId,
+        groupId: sessionInfo.meta.groupId,
+        userId: sessionInfo.meta.ownerId,
+        sessionId: sessionInfo.meta.sessionId,
+        worldId: parseWorldGroup(sessionInfo.meta.groupId)?.worldId,
+        providerId: usage.providerId ?? request.body.model?.providerID,
+        modelId: usage.modelId ?? request.body.model?.modelID ?? "unknown",
+        inputTokens: usage.inputTokens,
+        outputTokens: usage.outputTokens,
+        reasoningTokens: usage.reasoningTokens,
+        cacheReadTokens: usage.cacheReadTokens,
+        cacheWriteTokens: usage.cacheWriteTokens,
+        cost: usage.cost,
+        createdAt: new Date().toISOString(),
+      });
+    } catch (err) {
+      log.warn({ err }, "Failed to record usage");
+    }
+  }
+
   private mapJob(job: SessionJobContext): SessionJob {
     const id = String(job.id ?? `job-${Date.now()}`);
     return { id, data: job.data };
@@ -1370,6 +2004,7 @@ export class SessionProcessor {
   private async sendResponse(
     session: SessionEvent,
     output?: string,
+    replyStream?: ReplyStream | null,
   ): Promise<void> {
     if (!output) {
       return;
@@ -1380,11 +2015,19 @@ export class SessionProcessor {
     }
 
     if (content || elements.length > 0) {
-      await this.adapter.sendMessage(
-        session,
-        content,
-        elements.length > 0 ? { elements } : undefined,
-      );
+      // Drafts only hold plain text; replies with attachments are sent fresh.
+      const streamed =
+        replyStream && elements.length === 0
+          ? await replyStream.finalize(content)
+          : false;
+      if (!streamed) {
+        await replyStream?.discard();
+        await this.adapter.sendMessage(
+          session,
+          content,
+          elements.length > 0 ? { elements } : undefined,
+        );
+      }
     }
 
     if (commandActions && commandActions.actions.length > 0) {
@@ -1499,6 +2142,28 @@ export class SessionProcessor {
     }
   }
 
+  private async startReplyStream(
+    session: SessionEvent,
+    language: UserLanguage | null,
+    log: Logger,
+  ): Promise<ReplyStream | null> {
+    if (
+      !this.streamingRepliesEnabled ||
+      !ReplyStream.isSupportedBy(this.adapter)
+    ) {
+      return null;
+    }
+    const stream = new ReplyStream({
+      adapter: this.adapter,
+      session,
+      logger: log,
+      placeholder: buildSessionStreamingPlaceholderText(language),
+      formatToolProgress: (tools) =>
+        buildSessionStreamingToolProgressText(language, tools),
+    });
+    return (await stream.start()) ? stream : null;
+  }
+
   private startTyping(session: SessionEvent, log: Logger): () => void {
     if (session.platform !== "discord") {
       return () => {};
@@ -0,0 +1,225 @@
+import type { Logger } from "pino";
+
+import type {
+  PlatformAdapter,
+  SentMessageRef,
+  SessionEvent,
+} from "../types/platform";
+import type { OpencodeRunProgress } from "../worker/runner";
+import { stripHiddenReplyBlocks } from "../world/reply-blocks";
+import { extractOutputElements } from "./output-elements";
+
+const DEFAULT_EDIT_INTERVAL_MS = 2_000;
+const PLATFORM_EDIT_INTERVAL_MS: Record<string, number> = {
+  // Discord allows 5 edits per 5 seconds on a channel.
+  discord: 1_200,
+  // Telegram starts rejecting edits above roughly one per second per chat.
+  telegram: 1_000,
+};
+const MAX_PREVIEW_CHARS = 1_800;
+const MAX_TOOL_NAMES = 5;
+
+export interface ReplyStreamOptions {
+  adapter: PlatformAdapter;
+  session: SessionEvent;
+  logger: Logger;
+  placeholder: string;
+  formatToolProgress: (tools: ReadonlyArray<string>) => string;
+  minEditIntervalMs?: number;
+  now?: () => number;
+}
+
+export function resolveReplyStreamEditIntervalMs(platform: string): number {
+  return (
+    PLATFORM_EDIT_INTERVAL_MS[platform.toLowerCase()] ??
+    DEFAULT_EDIT_INTERVAL_MS
+  );
+}
+
+/**
+ * Keeps one editable draft message in sync with an in-flight opencode run.
+ * Edits are coalesced so at most one is issued per platform interval.
+ */
+export class ReplyStream {
+  private adapter: PlatformAdapter;
+  private session: SessionEvent;
+  private logger: Logger;
+  private placeholder: string;
+  private formatToolProgress: (tools: ReadonlyArray<string>) => string;
+  private minEditIntervalMs: number;
+  private now: () => number;
+  private draft: SentMessageRef | null = null;
+  private closed = false;
+  private pendingText: string | null = null;
+  private lastRendered = "";
+  private lastEditAt = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private editChain: Promise<void> = Promise.resolve();
+
+  static isSupportedBy(adapter: PlatformAdapter): boolean {
+    return (
+      typeof adapter.sendDraft === "function" &&
+      typeof adapter.editMessage === "function"
+    );
+  }
+
+  constructor(options: ReplyStreamOptions) {
+    this.adapter = options.adapter;
+    this.session = options.session;
+    this.logger = options.logger;
+    this.placeholder = options.placeholder;
+    this.formatToolProgress = options.formatToolProgress;
+    this.minEditIntervalMs =
+      options.minEditIntervalMs ??
+      resolveReplyStreamEditIntervalMs(options.session.platform);
+    this.now = options.now ?? Date.now;
+  }
+
+  async start(): Promise<boolean> {
+    if (!this.adapter.sendDraft) {
+      return false;
+    }
+    try {
+      this.draft = await this.adapter.sendDraft(this.session, this.placeholder);
+    } catch (err) {
+      this.logger.warn({ err }, "Failed to send streaming reply draft");
+      this.draft = null;
+    }
+    if (this.draft) {
+      this.lastRendered = this.placeholder;
+      this.lastEditAt = this.now();
+    }
+    return this.draft !== null;
+  }
+
+  update(progress: OpencodeRunProgress): void {
+    if (!this.draft || this.closed) {
+      return;
+    }
+    const text = this.renderProgress(progress);
+    if (!text || text === this.lastRendered) {
+      return;
+    }
+    this.pendingText = text;
+    if (this.timer) {
+      return;
+    }
+    const waitMs = Math.max(
+      0,
+      this.lastEditAt + this.minEditIntervalMs - this.now(),
+    );
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.flush();
+    }, waitMs);
+  }
+
+  /**
+   * Replace the draft with the final reply. Returns false when the draft could
+   * not hold it or the adapter needs its send path for it; the draft is
+   * removed and the caller sends the reply normally.
+   */
+  async finalize(content: string): Promise<boolean> {
+    const draft = this.close();
+    if (!draft) {
+      return false;
+    }
+    await this.editChain;
+    try {
+      if (
+        await this.adapter.editMessage?.(this.session, draft, content, {
+          final: true,
+        })
+      ) {
+        return true;
+      }
+    } catch (err) {
+      this.logger.warn({ err }, "Failed to finalize streaming reply draft");
+    }
+    await this.removeDraft(draft);
+    return false;
+  }
+
+  /** Remove the draft when the run ends without a reply for it. */
+  async discard(): Promise<void> {
+    const draft = this.close();
+    if (!draft) {
+      return;
+    }
+    await this.editChain;
+    await this.removeDraft(draft);
+  }
+
+  private close(): SentMessageRef | null {
+    if (this.closed) {
+      return null;
+    }
+    this.closed = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    return this.draft;
+  }
+
+  private flush(): void {
+    const draft = this.draft;
+    const text = this.pendingText;
+    this.pendingText = null;
+    if (!draft || !text || this.closed) {
+      return;
+    }
+    this.lastEditAt = this.now();
+    this.editChain = this.editChain.then(async () => {
+      if (this.closed) {
+        return;
+      }
+      try {
+        const edited = await this.adapter.editMessage?.(
+          this.session,
+          draft,
+          text,
+        );
+        if (edited) {
+          this.lastRendered = text;
+        }
+      } catch (err) {
+        this.logger.debug({ err }, "Failed to edit streaming reply draft");
+      }
+    });
+  }
+
+  private async removeDraft(draft: SentMessageRef): Promise<void> {
+    try {
+      await this.adapter.deleteMessage?.(this.session, draft);
+    } catch (err) {
+      this.logger.warn({ err }, "Failed to delete streaming reply draft");
+    }
+  }
+
+  private renderProgress(progress: OpencodeRunProgress): string {
+    const sections: string[] = [];
+    const text = progress.text
+      ? extractOutputElements(
+          stripHiddenReplyBlocks(progress.text),
+        ).content.trim()
+      : "";
+    if (text) {
+      sections.push(
+        text.length > MAX_PREVIEW_CHARS
+          ? `${text.slice(0, MAX_PREVIEW_CHARS).trimEnd()} …`
+          : text,
+      );
+    } else {
+      sections.push(this.placeholder);
+    }
+
+    const toolNames = Array.from(
+      new Set(progress.toolCalls.map((call) => call.tool)),
+    ).slice(-MAX_TOOL_NAMES);
+    if (toolNames.length > 0) {
+      sections.push(this.formatToolProgress(toolNames));
+    }
+    return sections.join("\n\n");
+  }
+}
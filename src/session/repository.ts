@@ -20,6 +20,12 @@ export interface SessionRepositoryOptions {
   logger: Logger;
 }
 
+export interface SessionListEntry {
+  meta: SessionMeta;
+  /** The key this session is currently active for, if any. */
+  activeKey: number | null;
+}
+
 interface SessionPaths {
   sessionPath: string;
   metaPath: string;
@@ -58,6 +64,62 @@ export class SessionRepository {
       .filter((userId) => isSafePathSegment(userId));
   }
 
+  /** Stored sessions of a group (optionally one user), newest update first. */
+  async listSessions(
+    botId: string,
+    groupId: string,
+    userId?: string,
+  ): Promise<SessionListEntry[]> {
+    assertSafePathSegment(botId, "botId");
+    assertSafePathSegment(groupId, "groupId");
+    const userIds = userId ? [userId] : await this.listUserIds(botId, groupId);
+
+    const results: SessionListEntry[] = [];
+    for (const ownerId of userIds) {
+      const paths = this.buildUserPaths(botId, groupId, ownerId);
+      let entries;
+      try {
+        entries = await readdir(paths.userPath, { withFileTypes: true });
+      } catch {
+        continue;
+      }
+      const index = await this.readSessionIndex(paths.indexPath);
+      const activeKeys = new Map<string, number>();
+      for (const [key, sessionId] of Object.entries(index.active)) {
+        const parsedKey = Number(key);
+        if (Number.isInteger(parsedKey) && parsedKey >= 0) {
+          activeKeys.set(sessionId, parsedKey);
+        }
+      }
+      for (const entry of entries) {
+        if (
+          !entry.isDirectory() ||
+          entry.name.startsWith(".") ||
+          !isSafePathSegment(entry.name)
+        ) {
+          continue;
+        }
+        const sessionPaths = this.buildSessionPaths(
+          botId,
+          groupId,
+          ownerId,
+          entry.name,
+        );
+        const meta = await this.readMeta(sessionPaths.metaPath);
+        if (
+          !meta ||
+          !this.isMetaConsistent(meta, botId, groupId, ownerId, entry.name)
+        ) {
+          continue;
+        }
+        results.push({ meta, activeKey: activeKeys.get(entry.name) ?? null });
+      }
+    }
+    return results.sort((a, b) =>
+      b.meta.updatedAt.localeCompare(a.meta.updatedAt),
+    );
+  }
+
   async hasPendingOpencodeUserInput(input: {
     botId: string;
     groupId: string;
@@ -0,0 +1,528 @@
+import IORedis from "ioredis";
+import type { Logger } from "pino";
+import type { Sql } from "postgres";
+import { createPostgresClient } from "../db/postgres";
+
+export interface UsageTokens {
+  inputTokens: number;
+  outputTokens: number;
+  reasoningTokens: number;
+  cacheReadTokens: number;
+  cacheWriteTokens: number;
+}
+
+export interface UsageRecord extends UsageTokens {
+  botId: string;
+  groupId: string;
+  userId: string;
+  sessionId: string;
+  worldId?: number;
+  providerId?: string;
+  modelId: string;
+  cost: number;
+  createdAt: string;
+}
+
+export interface UsageTotals extends UsageTokens {
+  runs: number;
+  cost: number;
+}
+
+export interface UsageBreakdown extends UsageTotals {
+  key: string;
+}
+
+export interface UsageQuery {
+  /** Inclusive ISO timestamp. */
+  from: string;
+  /** Exclusive ISO timestamp. */
+  to: string;
+  groupId?: string;
+  userId?: string;
+  worldId?: number;
+}
+
+export interface UsageSummary {
+  totals: UsageTotals;
+  byModel: UsageBreakdown[];
+  byGroup: UsageBreakdown[];
+}
+
+export interface UsageStore {
+  record(record: UsageRecord): Promise<void>;
+  summarize(query: UsageQuery): Promise<UsageSummary>;
+  close(): Promise<void>;
+}
+
+/** The backend keeps no counters for this combination of filters. */
+export class UnsupportedUsageQueryError extends Error {
+  constructor(message = "Usage filters cannot be combined") {
+    super(message);
+    this.name = "UnsupportedUsageQueryError";
+  }
+}
+
+export function emptyUsageTotals(): UsageTotals {
+  return {
+    runs: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    reasoningTokens: 0,
+    cacheReadTokens: 0,
+    cacheWriteTokens: 0,
+    cost: 0,
+  };
+}
+
+export class NoopUsageStore implements UsageStore {
+  async record(): Promise<void> {}
+
+  async summarize(): Promise<UsageSummary> {
+    return { totals: emptyUsageTotals(), byModel: [], byGroup: [] };
+  }
+
+  async close(): Promise<void> {}
+}
+
+export class InMemoryUsageStore implements UsageStore {
+  private records: UsageRecord[] = [];
+
+  async record(record: UsageRecord): Promise<void> {
+    this.records.push(record);
+  }
+
+  async summarize(query: UsageQuery): Promise<UsageSummary> {
+    const from = Date.parse(query.from);
+    const to = Date.parse(query.to);
+    const builder = new UsageSummaryBuilder();
+    for (const record of this.records) {
+      const createdAt = Date.parse(record.createdAt);
+      if (createdAt < from || createdAt >= to) {
+        continue;
+      }
+      if (query.groupId && record.groupId !== query.groupId) {
+        continue;
+      }
+      if (query.userId && record.userId !== query.userId) {
+        continue;
+      }
+      if (query.worldId && record.worldId !== query.worldId) {
+        continue;
+      }
+      builder.add(record.modelId, record.groupId, {
+        ...record,
+        runs: 1,
+      });
+    }
+    return builder.build();
+  }
+
+  async close(): Promise<void> {}
+}
+
+export interface PostgresUsageStoreOptions {
+  databaseUrl: string;
+  maxConnections?: number;
+  /** Enable runtime DDL (dev only). Production should use migrations. */
+  ensureSchema?: boolean;
+}
+
+interface UsageRow {
+  key: string;
+  runs: string | number;
+  inputTokens: string | number;
+  outputTokens: string | number;
+  reasoningTokens: string | number;
+  cacheReadTokens: string | number;
+  cacheWriteTokens: string | number;
+  cost: string | number;
+}
+
+export class PostgresUsageStore implements UsageStore {
+  private logger: Logger;
+  private sql: Sql;
+  private initPromise: Promise<void> | null = null;
+  private ensureSchema: boolean;
+
+  constructor(logger: Logger, options: PostgresUsageStoreOptions) {
+    this.logger = logger.child({ component: "usage-store" });
+    this.sql = createPostgresClient({
+      databaseUrl: options.databaseUrl,
+      maxConnections: options.maxConnections,
+    });
+    this.ensureSchema = options.ensureSchema ?? false;
+  }
+
+  async record(record: UsageRecord): Promise<void> {
+    await this.init();
+    try {
+      await this.sql`
+        INSERT INTO usage_entries
+          (bot_account_id, user_id, group_id, session_id, world_id, provider_id, model_id,
+           input_tokens, output_tokens, reasoning_tokens, cache_read_tokens, cache_write_tokens,
+           cost, created_at)
+        VALUES
+          (${record.botId}, ${record.userId}, ${record.groupId}, ${record.sessionId}, ${record.worldId ?? null}, ${record.providerId ?? null}, ${record.modelId},
+           ${record.inputTokens}, ${record.outputTokens}, ${record.reasoningTokens}, ${record.cacheReadTokens}, ${record.cacheWriteTokens},
+           ${record.cost}, ${record.createdAt})
+      `;
+    } catch (err) {
+      this.logger.warn(
+        { err, groupId: record.groupId },
+        "Failed to record usage",
+      );
+    }
+  }
+
+  async summarize(query: UsageQuery): Promise<UsageSummary> {
+    await this.init();
+    const sql = this.sql;
+    const where = sql`
+      created_at >= ${query.from}
+      AND created_at < ${query.to}
+      ${query.groupId ? sql`AND group_id = ${query.groupId}` : sql``}
+      ${query.userId ? sql`AND user_id = ${query.userId}` : sql``}
+      ${query.worldId ? sql`AND world_id = ${query.worldId}` : sql``}
+    `;
+    const columns = sql`
+      COUNT(*) AS runs,
+      COALESCE(SUM(input_tokens), 0) AS "inputTokens",
+      COALESCE(SUM(output_tokens), 0) AS "outputTokens",
+      COALESCE(SUM(reasoning_tokens), 0) AS "reasoningTokens",
+      COALESCE(SUM(cache_read_tokens), 0) AS "cacheReadTokens",
+      COALESCE(SUM(cache_write_tokens), 0) AS "cacheWriteTokens",
+      COALESCE(SUM(cost), 0) AS cost
+    `;
+    try {
+      const [totals, byModel, byGroup] = await Promise.all([
+        sql<UsageRow[]>`
+          SELECT '' AS key, ${columns} FROM usage_entries WHERE ${where}
+        `,
+        sql<UsageRow[]>`
+          SELECT model_id AS key, ${columns} FROM usage_entries WHERE ${where}
+           GROUP BY model_id
+        `,
+        sql<UsageRow[]>`
+          SELECT group_id AS key, ${columns} FROM usage_entries WHERE ${where}
+           GROUP BY group_id
+        `,
+      ]);
+      const totalsRow = totals[0];
+      return {
+        totals: totalsRow ? parseUsageRow(totalsRow) : emptyUsageTotals(),
+        byModel: sortBreakdown(byModel.map((row) => parseBreakdownRow(row))),
+        byGroup: sortBreakdown(byGroup.map((row) => parseBreakdownRow(row))),
+      };
+    } catch (err) {
+      this.logger.warn({ err, query }, "Failed to summarize usage");
+      return { totals: emptyUsageTotals(), byModel: [], byGroup: [] };
+    }
+  }
+
+  async close(): Promise<void> {
+    await this.sql.end();
+  }
+
+  private async init(): Promise<void> {
+    if (this.initPromise) {
+      return this.initPromise;
+    }
+    this.initPromise = this.ensureSchema
+      ? this.ensureSchemaReady().catch((err) => {
+          this.logger.warn(
+            { err },
+            "Failed to ensure usage schema; continuing without runtime DDL",
+          );
+        })
+      : Promise.resolve();
+    return this.initPromise;
+  }
+
+  private async ensureSchemaReady(): Promise<void> {
+    await this.sql`
+      CREATE TABLE IF NOT EXISTS usage_entries (
+        id BIGSERIAL PRIMARY KEY,
+        bot_account_id TEXT NOT NULL,
+        user_id TEXT NOT NULL,
+        group_id TEXT NOT NULL,
+        session_id TEXT NOT NULL,
+        world_id INTEGER,
+        provider_id TEXT,
+        model_id TEXT NOT NULL,
+        input_tokens BIGINT NOT NULL DEFAULT 0,
+        output_tokens BIGINT NOT NULL DEFAULT 0,
+        reasoning_tokens BIGINT NOT NULL DEFAULT 0,
+        cache_read_tokens BIGINT NOT NULL DEFAULT 0,
+        cache_write_tokens BIGINT NOT NULL DEFAULT 0,
+        cost DOUBLE PRECISION NOT NULL DEFAULT 0,
+        created_at TIMESTAMPTZ NOT NULL
+      )
+    `;
+    await this.sql`
+      CREATE INDEX IF NOT EXISTS usage_entries_created_idx
+        ON usage_entries (created_at)
+    `;
+    await this.sql`
+      CREATE INDEX IF NOT EXISTS usage_entries_group_created_idx
+        ON usage_entries (group_id, created_at)
+    `;
+    await this.sql`
+      CREATE INDEX IF NOT EXISTS usage_entries_world_created_idx
+        ON usage_entries (world_id, created_at)
+    `;
+  }
+}
+
+const USAGE_METRICS = [
+  "runs",
+  "inputTokens",
+  "outputTokens",
+  "reasoningTokens",
+  "cacheReadTokens",
+  "cacheWriteTokens",
+  "cost",
+] as const satisfies ReadonlyArray<keyof UsageTotals>;
+
+const REDIS_USAGE_TTL_SECONDS = 400 * 24 * 60 * 60;
+const REDIS_USAGE_MAX_DAYS = 366;
+
+export interface RedisUsageStoreOptions {
+  redisUrl: string;
+  keyPrefix?: string;
+}
+
+/**
+ * Fallback when Postgres is not configured: one hash of daily counters per
+ * scope (all, group, group+user, user, world). Queries resolve to a single
+ * scope and ranges are whole UTC days; a world filter combined with a group
+ * or user filter has no scope and is rejected.
+ */
+export class RedisUsageStore implements UsageStore {
+  private logger: Logger;
+  private redis: IORedis;
+  private keyPrefix: string;
+
+  constructor(logger: Logger, options: RedisUsageStoreOptions) {
+    this.logger = logger.child({ component: "usage-store" });
+    this.redis = new IORedis(options.redisUrl, { maxRetriesPerRequest: null });
+    this.keyPrefix = options.keyPrefix ?? "usage";
+  }
+
+  async record(record: UsageRecord): Promise<void> {
+    const day = record.createdAt.slice(0, 10);
+    const scopes = ["all", `group:${record.groupId}`, `user:${record.userId}`];
+    scopes.push(`group:${record.groupId}:user:${record.userId}`);
+    if (record.worldId) {
+      scopes.push(`world:${record.worldId}`);
+    }
+    const values: UsageTotals = { ...record, runs: 1 };
+    try {
+      const pipeline = this.redis.pipeline();
+      for (const scope of scopes) {
+        const key = this.buildKey(day, scope);
+        for (const metric of USAGE_METRICS) {
+          const value = values[metric];
+          if (!value) {
+            continue;
+          }
+          for (const field of [
+            `total|${metric}`,
+            `model|${record.modelId}|${metric}`,
+            `group|${record.groupId}|${metric}`,
+          ]) {
+            if (metric === "cost") {
+              pipeline.hincrbyfloat(key, field, value);
+            } else {
+              pipeline.hincrby(key, field, value);
+            }
+          }
+        }
+        pipeline.expire(key, REDIS_USAGE_TTL_SECONDS);
+      }
+      await pipeline.exec();
+    } catch (err) {
+      this.logger.warn(
+        { err, groupId: record.groupId },
+        "Failed to record usage",
+      );
+    }
+  }
+
+  async summarize(query: UsageQuery): Promise<UsageSummary> {
+    const scope = resolveRedisUsageScope(query);
+    const keys = listUtcDays(query.from, query.to).map((day) =>
+      this.buildKey(day, scope),
+    );
+    const builder = new UsageSummaryBuilder();
+    try {
+      const pipeline = this.redis.pipeline();
+      for (const key of keys) {
+        pipeline.hgetall(key);
+      }
+      const results = (await pipeline.exec()) ?? [];
+      for (const [err, hash] of results) {
+        if (err || !hash || typeof hash !== "object") {
+          continue;
+        }
+        for (const [field, raw] of Object.entries(
+          hash as Record<string, string>,
+        )) {
+          builder.addField(field, Number(raw));
+        }
+      }
+    } catch (err) {
+      this.logger.warn({ err, query }, "Failed to summarize usage");
+    }
+    return builder.build();
+  }
+
+  async close(): Promise<void> {
+    await this.redis.quit();
+  }
+
+  private buildKey(day: string, scope: string): string {
+    return `${this.keyPrefix}:${day}:${scope}`;
+  }
+}
+
+export interface CreateUsageStoreOptions {
+  databaseUrl?: string;
+  redisUrl: string;
+  logger: Logger;
+}
+
+/** Postgres when DATABASE_URL is set, Redis counters otherwise. */
+export function createUsageStore(options: CreateUsageStoreOptions): UsageStore {
+  const databaseUrl = options.databaseUrl?.trim();
+  if (databaseUrl) {
+    return new PostgresUsageStore(options.logger, { databaseUrl });
+  }
+  return new RedisUsageStore(options.logger, { redisUrl: options.redisUrl });
+}
+
+function resolveRedisUsageScope(query: UsageQuery): string {
+  if (query.worldId && (query.groupId || query.userId)) {
+    throw new UnsupportedUsageQueryError(
+      "worldId cannot be combined with groupId or userId without DATABASE_URL",
+    );
+  }
+  if (query.groupId && query.userId) {
+    return `group:${query.groupId}:user:${query.userId}`;
+  }
+  if (query.groupId) {
+    return `group:${query.groupId}`;
+  }
+  if (query.userId) {
+    return `user:${query.userId}`;
+  }
+  if (query.worldId) {
+    return `world:${query.worldId}`;
+  }
+  return "all";
+}
+
+function listUtcDays(from: string, to: string): string[] {
+  const start = Date.parse(from);
+  const end = Date.parse(to);
+  if (!Number.isFinite(start) || !Number.isFinite(end)) {
+    return [];
+  }
+  const days: string[] = [];
+  const cursor = new Date(start);
+  cursor.setUTCHours(0, 0, 0, 0);
+  while (cursor.getTime() < end && days.length < REDIS_USAGE_MAX_DAYS) {
+    days.push(cursor.toISOString().slice(0, 10));
+    cursor.setUTCDate(cursor.getUTCDate() + 1);
+  }
+  return days;
+}
+
+class UsageSummaryBuilder {
+  private totals = emptyUsageTotals();
+  private byModel = new Map<string, UsageTotals>();
+  private byGroup = new Map<string, UsageTotals>();
+
+  add(modelId: string, groupId: string, values: UsageTotals): void {
+    for (const metric of USAGE_METRICS) {
+      this.increment(this.totals, metric, values[metric]);
+      this.increment(bucketOf(this.byModel, modelId), metric, values[metric]);
+      this.increment(bucketOf(this.byGroup, groupId), metric, values[metric]);
+    }
+  }
+
+  /** Applies one Redis hash field: `total|metric` or `model|<id>|metric`. */
+  addField(field: string, value: number): void {
+    const first = field.indexOf("|");
+    const last = field.lastIndexOf("|");
+    const metric = field.slice(last + 1) as keyof UsageTotals;
+    if (first < 0 || !USAGE_METRICS.includes(metric)) {
+      return;
+    }
+    const dimension = field.slice(0, first);
+    const key = field.slice(first + 1, last);
+    if (dimension === "total") {
+      this.increment(this.totals, metric, value);
+    } else if (dimension === "model") {
+      this.increment(bucketOf(this.byModel, key), metric, value);
+    } else if (dimension === "group") {
+      this.increment(bucketOf(this.byGroup, key), metric, value);
+    }
+  }
+
+  build(): UsageSummary {
+    const toRows = (map: Map<string, UsageTotals>): UsageBreakdown[] =>
+      sortBreakdown(
+        [...map.entries()].map(([key, totals]) => ({ key, ...totals })),
+      );
+    return {
+      totals: this.totals,
+      byModel: toRows(this.byModel),
+      byGroup: toRows(this.byGroup),
+    };
+  }
+
+  private increment(
+    target: UsageTotals,
+    metric: keyof UsageTotals,
+    value: number,
+  ): void {
+    if (Number.isFinite(value)) {
+      target[metric] += value;
+    }
+  }
+}
+
+function bucketOf(map: Map<string, UsageTotals>, key: string): UsageTotals {
+  const existing = map.get(key);
+  if (existing) {
+    return existing;
+  }
+  const created = emptyUsageTotals();
+  map.set(key, created);
+  return created;
+}
+
+function sortBreakdown(rows: UsageBreakdown[]): UsageBreakdown[] {
+  return rows.sort(
+    (left, right) =>
+      right.inputTokens +
+      right.outputTokens -
+      (left.inputTokens + left.outputTokens),
+  );
+}
+
+function parseUsageRow(row: UsageRow): UsageTotals {
+  return {
+    runs: Number(row.runs),
+    inputTokens: Number(row.inputTokens),
+    outputTokens: Number(row.outputTokens),
+    reasoningTokens: Number(row.reasoningTokens),
+    cacheReadTokens: Number(row.cacheReadTokens),
+    cacheWriteTokens: Number(row.cacheWriteTokens),
+    cost: Number(row.cost),
+  };
+}
+
+function parseBreakdownRow(row: UsageRow): UsageBreakdown {
+  return { key: row.key, ...parseUsageRow(row) };
+}
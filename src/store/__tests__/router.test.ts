@@ -50,6 +50,31 @@ describe("RouterStore", () => {
     expect(content).toBe('keywords: ["custom"]\n');
   });
 
+  test("loads rate limits from global and bot configs", async () => {
+    await store.init();
+    await writeFile(
+      path.join(rootDir, "router", "global.yaml"),
+      "keywords: []\nrateLimit:\n  userPerMinute: 5\n",
+      "utf8",
+    );
+    const botDir = path.join(rootDir, "bots", "qq-123");
+    await mkdir(botDir, { recursive: true });
+    await writeFile(
+      path.join(botDir, "config.yaml"),
+      "rateLimit:\n  groupPerDay: 200\n",
+      "utf8",
+    );
+
+    const snapshot = await store.getSnapshot();
+    expect(snapshot.globalRateLimit.userPerMinute).toBe(5);
+    expect(snapshot.botConfigs.get("qq-123")?.rateLimit).toEqual({
+      userPerMinute: null,
+      groupPerMinute: null,
+      userPerDay: null,
+      groupPerDay: 200,
+    });
+  });
+
   test("rejects unsafe bot ids", async () => {
     await expect(store.ensureBotConfig("../escape")).rejects.toThrow(
       "botId must be a safe path segment",
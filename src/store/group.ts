@@ -1,7 +1,8 @@
 import { mkdir, readdir } from "node:fs/promises";
 import { LRUCache } from "lru-cache";
 import type { Logger } from "pino";
-import type { GroupConfig, GroupData } from "../types/group";
+import type { AgentContent, GroupConfig, GroupData } from "../types/group";
+import type { UserLanguage } from "../user/state-store";
 import { getConfig } from "../config";
 import { logger as defaultLogger } from "../logger";
 import { GroupFileRepository } from "./repository";
@@ -102,6 +103,69 @@ export class GroupStore {
     return reloaded?.config ?? next;
   }
 
+  /**
+   * IDs of every group directory on disk (sorted), loaded or not
+   */
+  async listGroupIds(): Promise<string[]> {
+    const entries = await readdir(this.dataDir, { withFileTypes: true }).catch(
+      () => [],
+    );
+    return entries
+      .filter((entry) => entry.isDirectory() && !entry.name.startsWith("."))
+      .map((entry) => entry.name)
+      .sort((a, b) => a.localeCompare(b));
+  }
+
+  /**
+   * Replace an existing group's config.yaml and reload it.
+   * Returns null when the group does not exist.
+   */
+  async replaceGroupConfig(
+    groupId: string,
+    config: GroupConfig,
+  ): Promise<GroupConfig | null> {
+    const groupPath = await this.repository.resolveGroupPath(groupId);
+    if (!groupPath) {
+      return null;
+    }
+    await this.repository.saveConfig(groupPath, config);
+    const reloaded = await this.reloadGroup(groupId);
+    return reloaded?.config ?? config;
+  }
+
+  /**
+   * Read the agent prompt for a language (falls back like sessions do).
+   * Returns null when the group does not exist.
+   */
+  async getAgentPrompt(
+    groupId: string,
+    language: UserLanguage | null,
+  ): Promise<AgentContent | null> {
+    const groupPath = await this.repository.resolveGroupPath(groupId);
+    if (!groupPath) {
+      return null;
+    }
+    return this.repository.loadAgentPromptForLanguage(groupPath, language);
+  }
+
+  /**
+   * Write agent.md / agent.en.md and reload the group.
+   * Returns null when the group does not exist.
+   */
+  async saveAgentPrompt(
+    groupId: string,
+    language: UserLanguage | null,
+    agent: AgentContent,
+  ): Promise<AgentContent | null> {
+    const groupPath = await this.repository.resolveGroupPath(groupId);
+    if (!groupPath) {
+      return null;
+    }
+    await this.repository.saveAgentPrompt(groupPath, language, agent);
+    await this.reloadGroup(groupId);
+    return this.repository.loadAgentPromptForLanguage(groupPath, language);
+  }
+
   /**
    * Load a single group's data
    */
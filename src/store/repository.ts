@@ -173,6 +173,37 @@ export class GroupFileRepository {
     await rename(tmpPath, configPath);
   }
 
+  /** Writes agent.md (or agent.en.md); frontmatter is omitted when empty. */
+  async saveAgentPrompt(
+    groupPath: string,
+    language: UserLanguage | null | undefined,
+    agent: AgentContent,
+  ): Promise<void> {
+    const agentPath = join(
+      groupPath,
+      language === "en" ? "agent.en.md" : "agent.md",
+    );
+    const frontmatter = AgentFrontmatterSchema.parse(agent.frontmatter);
+    const body = agent.content.trim();
+    const payload =
+      Object.keys(frontmatter).length > 0
+        ? matter.stringify(body, frontmatter).trimEnd()
+        : body;
+    const tmpPath = join(
+      dirname(agentPath),
+      `.${basename(agentPath)}.${process.pid}.${Date.now()}.tmp`,
+    );
+    await writeFile(tmpPath, `${payload}\n`, "utf-8");
+    await rename(tmpPath, agentPath);
+  }
+
+  /** Group directory when it exists; null for unknown groups. */
+  async resolveGroupPath(groupId: string): Promise<string | null> {
+    assertSafePathSegment(groupId, "groupId");
+    const groupPath = join(this.dataDir, groupId);
+    return (await this.exists(groupPath)) ? groupPath : null;
+  }
+
   async loadAgentPrompt(groupPath: string): Promise<AgentContent> {
     const agentPath = join(groupPath, "agent.md");
 
@@ -6,9 +6,12 @@ import type { Logger } from "pino";
 import { logger as defaultLogger } from "../logger";
 import { assertSafePathSegment, isSafePathSegment } from "../utils/path";
 import {
+  DEFAULT_RATE_LIMIT,
   EchoRateSchema,
   KeywordRoutingSchema,
+  RateLimitSchema,
   type KeywordRouting,
+  type RateLimitConfig,
 } from "../types/group";
 
 const DEFAULT_GLOBAL_CONFIG_YAML = `# 全局关键词配置
@@ -31,6 +34,7 @@ const GlobalConfigSchema = z
   .object({
     keywords: z.array(z.string()).default([]),
     echoRate: EchoRateSchema.default(0),
+    rateLimit: RateLimitSchema.default(DEFAULT_RATE_LIMIT),
   })
   .passthrough();
 
@@ -43,6 +47,7 @@ const BotConfigSchema = z
       enableBot: true,
     }),
     echoRate: EchoRateSchema.nullable().default(null),
+    rateLimit: RateLimitSchema.default(DEFAULT_RATE_LIMIT),
   })
   .passthrough();
 
@@ -50,6 +55,7 @@ export interface BotKeywordConfig {
   keywords: string[];
   keywordRouting: KeywordRouting;
   echoRate: number | null;
+  rateLimit: RateLimitConfig;
 }
 
 export interface RouterStoreOptions {
@@ -61,6 +67,7 @@ export interface RouterStoreOptions {
 interface RouterSnapshot {
   globalKeywords: string[];
   globalEchoRate: number;
+  globalRateLimit: RateLimitConfig;
   botConfigs: Map<string, BotKeywordConfig>;
 }
 
@@ -145,29 +152,41 @@ export class RouterStore {
     return {
       globalKeywords: globalConfig.keywords,
       globalEchoRate: globalConfig.echoRate,
+      globalRateLimit: globalConfig.rateLimit,
       botConfigs,
     };
   }
 
-  private async loadGlobalConfig(
-    path: string,
-  ): Promise<{ keywords: string[]; echoRate: number }> {
+  private async loadGlobalConfig(path: string): Promise<{
+    keywords: string[];
+    echoRate: number;
+    rateLimit: RateLimitConfig;
+  }> {
+    const fallback = {
+      keywords: [],
+      echoRate: 0,
+      rateLimit: DEFAULT_RATE_LIMIT,
+    };
     try {
       const fileStat = await stat(path);
       if (!fileStat.isFile()) {
-        return { keywords: [], echoRate: 0 };
+        return fallback;
       }
     } catch {
-      return { keywords: [], echoRate: 0 };
+      return fallback;
     }
     try {
       const content = await readFile(path, "utf-8");
       const parsed = parseYaml(content);
       const config = GlobalConfigSchema.parse(parsed);
-      return { keywords: config.keywords, echoRate: config.echoRate };
+      return {
+        keywords: config.keywords,
+        echoRate: config.echoRate,
+        rateLimit: config.rateLimit,
+      };
     } catch (err) {
       this.logger.warn({ err, path }, "Failed to load keywords config");
-      return { keywords: [], echoRate: 0 };
+      return fallback;
     }
   }
 
@@ -223,6 +242,7 @@ export class RouterStore {
         keywords: config.keywords,
         keywordRouting: config.keywordRouting,
         echoRate: config.echoRate,
+        rateLimit: config.rateLimit,
       };
     } catch (err) {
       this.logger.warn({ err, path }, "Failed to load bot config");
@@ -9,6 +9,7 @@ import {
   trace,
 } from "@opentelemetry/api";
 import { getConfig } from "./config";
+import { recordTelemetryStep } from "./metrics";
 import { getOtelTracer, isOtelStarted } from "./otel";
 
 const TRACE_ID_RE = /^[a-f0-9]{32}$/;
@@ -131,7 +132,7 @@ export async function withTelemetrySpan<T>(
   fn: () => Promise<T>,
 ): Promise<T> {
   if (!shouldEmitTelemetry(input.traceId)) {
-    return fn();
+    return withStepMetrics(input, fn);
   }
 
   const startedAt = Date.now();
@@ -149,6 +150,7 @@ export async function withTelemetrySpan<T>(
       ? await otelContext.with(otelSpanContext, fn)
       : await fn();
     const durationMs = Number(process.hrtime.bigint() - startedHr) / 1e6;
+    recordTelemetryStep(input, durationMs / 1000, true);
     if (otelSpan) {
       otelSpan.setStatus({ code: SpanStatusCode.OK });
       otelSpan.end();
@@ -170,6 +172,7 @@ export async function withTelemetrySpan<T>(
     return result;
   } catch (err) {
     const durationMs = Number(process.hrtime.bigint() - startedHr) / 1e6;
+    recordTelemetryStep(input, durationMs / 1000, false);
     const error = normalizeError(err);
     if (otelSpan) {
       otelSpan.recordException(err as Error);
@@ -199,6 +202,24 @@ export async function withTelemetrySpan<T>(
   }
 }
 
+/** Unsampled steps still feed /metrics, just without logs or spans. */
+async function withStepMetrics<T>(
+  input: TelemetrySpanInput,
+  fn: () => Promise<T>,
+): Promise<T> {
+  const startedHr = process.hrtime.bigint();
+  const elapsedSeconds = () =>
+    Number(process.hrtime.bigint() - startedHr) / 1e9;
+  try {
+    const result = await fn();
+    recordTelemetryStep(input, elapsedSeconds(), true);
+    return result;
+  } catch (err) {
+    recordTelemetryStep(input, elapsedSeconds(), false);
+    throw err;
+  }
+}
+
 function getOtelParent(input: TelemetrySpanInput) {
   const active = trace.getSpan(otelContext.active());
   const activeTraceId = active?.spanContext().traceId;
@@ -7,6 +7,11 @@ export {
   buildInputAuditReminder,
   buildSessionPromptContextFailedReply,
   buildSessionProgressHeartbeatText,
+  buildSessionCancelledReply,
+  buildSessionRateLimitedReply,
+  buildSessionOverBudgetReply,
+  buildSessionStreamingPlaceholderText,
+  buildSessionStreamingToolProgressText,
   buildSessionOpencodeRunErrorReply,
   buildSessionOpencodeTimeoutReply,
   buildSessionOpencodeResumePrompt,
@@ -31,6 +36,15 @@ export {
   buildDiscordCharacterBuildKickoff,
   buildDiscordWorldCharacterBuildKickoff,
 } from "./texts/discord";
+export {
+  buildDiceOutcomeLabel,
+  buildDiceSheetValueMissingReply,
+} from "./texts/dice";
+export {
+  buildBudgetRemainingText,
+  buildUsageReport,
+  buildUsageTotalsLine,
+} from "./texts/usage";
 export {
   buildWorldSourceSeedContent,
   buildCharacterSourceSeedContent,
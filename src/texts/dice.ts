@@ -0,0 +1,35 @@
+import type { UserLanguage } from "../user/state-store";
+import type { DiceOutcome } from "../utils/dice";
+import { pick } from "./common";
+
+export function buildDiceOutcomeLabel(
+  outcome: DiceOutcome,
+  language: UserLanguage | null | undefined,
+): string {
+  switch (outcome) {
+    case "critical":
+      return pick(language, "大成功", "Critical success");
+    case "extreme":
+      return pick(language, "极难成功", "Extreme success");
+    case "hard":
+      return pick(language, "困难成功", "Hard success");
+    case "success":
+      return pick(language, "成功", "Success");
+    case "failure":
+      return pick(language, "失败", "Failure");
+    case "fumble":
+      return pick(language, "大失败", "Fumble");
+  }
+}
+
+export function buildDiceSheetValueMissingReply(
+  names: string[],
+  language: UserLanguage | null | undefined,
+): string {
+  const list = names.join(pick(language, "、", ", "));
+  return pick(
+    language,
+    `找不到角色卡数值：${list}。请在世界频道内用 /character act 选择角色，并确认该世界的角色卡定义了这些数值（或直接写出数值，如 .ra 侦查 60）。`,
+    `No character sheet value for: ${list}. Pick a character with /character act inside the world channels and make sure the world's sheet defines it (or give the value, e.g. .ra Spot Hidden 60).`,
+  );
+}
@@ -60,12 +60,14 @@ export function buildDiscordHelp(
       "- `/nano ...` 画图/生成图片",
       "- `/polish ...` 润色改写（不新增设定）",
       "- `/quest ...` 给出 3–5 个下一步小任务",
-      "- `.rd 2d6` / `.rd 10d20` 掷骰（格式：.rd NdM）",
+      "- `.rd 2d6` / `.r 4d6kh3` / `.r d20+5 vs 15` 掷骰（支持加减、取高/低、爆骰、优势/劣势 adv/dis、成功数 6d10>=7）",
+      "- `.ra 侦查 60` CoC 技能检定（大成功/极难/困难/成功/失败/大失败）；世界内可用 `.ra 侦查`、`.rd d20+力量` 读取当前角色卡数值",
       "",
       "【Slash Commands】",
       "- `/world help` / `/character help`（详细帮助）",
+      "- `/quest list|show|accept|abandon`（世界任务：查看、接取、放弃）",
       "- `/language lang:zh|en`",
-      "- `/reset` / `/resetall`",
+      "- `/reset` / `/resetall` / `/stop`",
       "- `/model` / `/ping` / `/help`",
     ].join("\n"),
     [
@@ -80,12 +82,14 @@ export function buildDiscordHelp(
       "- `/nano ...` generate an image",
       "- `/polish ...` rewrite/polish (no new canon)",
       "- `/quest ...` propose 3–5 actionable next steps",
-      "- `.rd 2d6` / `.rd 10d20` roll dice (format: .rd NdM)",
+      "- `.rd 2d6` / `.r 4d6kh3` / `.r d20+5 vs 15` roll dice (modifiers, keep/drop, exploding `!`, adv/dis, success counting like 6d10>=7)",
+      "- `.ra Spot Hidden 60` CoC skill check (critical/extreme/hard/success/failure/fumble); inside a world, `.ra Spot` and `.rd d20+STR` read your active character sheet",
       "",
       "[Slash Commands]",
       "- `/world help` / `/character help` (detailed help)",
+      "- `/quest list|show|accept|abandon` (world quests: view, accept, abandon)",
       "- `/language lang:zh|en`",
-      "- `/reset` / `/resetall`",
+      "- `/reset` / `/resetall` / `/stop`",
       "- `/model` / `/ping` / `/help`",
     ].join("\n"),
   );
@@ -183,22 +187,43 @@ export function buildDiscordWorldHelp(
       "世界系统指令：",
       "- /world create（默认仅管理员；可配置 world.createPolicy）",
       "  - 执行后会创建一个编辑话题：粘贴/上传设定原文，多轮补全；用 /world publish 发布世界并创建子空间",
-      "- /world open world_id:<世界ID>（仅创作者；打开该世界的编辑话题）",
-      "- /world publish [cover:<图片>]（仅创作者；在编辑话题中发布草稿世界，可附带 world-index 封面图）",
-      "- /world export [world_id:<世界ID>]（仅创作者；导出世界卡/世界规则/正典文档）",
-      "- /world import kind:world_card|rules|canon file:<文件> [world_id:<世界ID>]（仅创作者；上传并覆盖世界文档；kind=canon 会写入该世界正典库，如带 W<id>- 前缀会自动剥离）",
-      "- /world image name:<名称> file:<图片> [world_id:<世界ID>]（仅创作者；上传图片并写入世界书素材区）",
+      "- /world open world_id:<世界ID>（创作者或编辑；打开该世界的编辑话题）",
+      "- /world publish [cover:<图片>]（创作者或编辑；在编辑话题中发布草稿世界，可附带 world-index 封面图）",
+      "- /world export [world_id:<世界ID>]（创作者或编辑；导出世界卡/世界规则/正典文档）",
+      "- /world import kind:world_card|rules|canon|sheet_schema|calendar file:<文件> [world_id:<世界ID>]（创作者或编辑；上传并覆盖世界文档；kind=canon 会写入该世界正典库，如带 W<id>- 前缀会自动剥离；kind=sheet_schema 上传角色卡定义 JSON；kind=calendar 上传历法定义 JSON）",
+      "- /world image name:<名称> file:<图片> [world_id:<世界ID>]（创作者或编辑；上传图片并写入世界书素材区）",
+      "- /world revision history [file:<文件>] [world_id:<世界ID>]（创作者或编辑；查看世界文档版本记录）",
+      "- /world revision diff rev:<版本号> [world_id:<世界ID>]（创作者或编辑；查看该版本的改动）",
+      "- /world revision rollback rev:<版本号> [world_id:<世界ID>]（创作者或编辑；回滚到该版本，生成新版本）",
       "- /world list [limit:<1-100>]",
       "- /world search query:<关键词> [limit:<1-50>]",
       "- /world info [world_id:<世界ID>]（在世界子空间频道内可省略 world_id）",
       "- /world rules [world_id:<世界ID>]（在世界子空间频道内可省略 world_id）",
       "- /world canon query:<关键词> [world_id:<世界ID>]（搜索该世界正典：世界卡/世界规则/正典补充；可在入口频道省略 world_id）",
       "- /world submit kind:<类型> title:<标题> content:<内容> [world_id:<世界ID>]（提案/任务/编年史/正典补充）",
-      "- /world approve submission_id:<提交ID> [world_id:<世界ID>]（仅创作者；确认提案并写入 canon）",
+      "- /world approve submission_id:<提交ID> [world_id:<世界ID>]（创作者、编辑或管理员；确认提案并写入 canon）",
+      "- /world reject submission_id:<提交ID> [reason:<原因>] [world_id:<世界ID>]（创作者、编辑或管理员；驳回提案并通知提交者）",
+      "- /world submissions [status:pending|approved|rejected] [page:<页码>] [world_id:<世界ID>]（查看提案、投票与评论数）",
+      "- /world settings [auto_approve_votes:<票数>] [world_id:<世界ID>]（创作者或编辑；提案净票数达标自动通过，0 关闭）",
       "- /world check query:<关键词> [world_id:<世界ID>]（冲突/检索：世界卡/世界规则/正典/提案）",
       "- /world join world_id:<世界ID> [character_id:<角色ID>]（加入世界获得发言权限；在世界子空间频道内可省略 world_id）",
-      "- /world stats [world_id:<世界ID>]（或 /world status；在世界子空间频道内可省略 world_id）",
-      "- /world remove world_id:<世界ID>（管理员）",
+      "- /world stats [world_id:<世界ID>]（在世界子空间频道内可省略 world_id）",
+      "- /world staff add user:<成员> role:editor|moderator [world_id:<世界ID>]（仅创作者；editor 可共同编辑/发布/回滚，moderator 可审核提案）",
+      "- /world staff remove user:<成员> [world_id:<世界ID>]（仅创作者）",
+      "- /world staff list [world_id:<世界ID>]（查看世界工作人员）",
+      "- /world lore add title:<标题> keys:<关键词> content:<内容> [priority:<优先级>] [budget:<字节>] [regex:<正则>] [world_id:<世界ID>]（创作者或编辑；添加设定条目，对话中命中关键词时注入上下文）",
+      "- /world lore edit entry_id:<编号> [title/keys/content/priority/budget/regex/enabled] [world_id:<世界ID>]（创作者或编辑；regex:- 清除正则）",
+      "- /world lore remove entry_id:<编号> [world_id:<世界ID>]（创作者或编辑）",
+      "- /world lore list [world_id:<世界ID>]（创作者或编辑；查看设定条目）",
+      "- /world lore import file:<JSON> [replace:true] [world_id:<世界ID>]（创作者或编辑；导入 Tavern/SillyTavern 世界书）",
+      "- /world timeline list [from:<日期>] [to:<日期>] [tag:<标签>] [query:<文字>] [limit:<条数>] [world_id:<世界ID>]（按世界内日期查看时间线）",
+      "- /world timeline add title:<标题> [date:<日期>] [content:<说明>] [tags:<标签>] [world_id:<世界ID>]（创作者、编辑或管理员；date 省略时记在当前世界时间）",
+      "- /world timeline remove entry_id:<编号> [world_id:<世界ID>]（创作者、编辑或管理员）",
+      "- /world timeline clock [set:<日期>] [advance:<时长>] [world_id:<世界ID>]（查看世界时间；设定或推进需创作者、编辑或管理员）",
+      "- /world lifecycle archive [world_id:<世界ID>]（仅创作者；归档：频道只读、从列表隐藏，文件与 wiki 保留）",
+      "- /world lifecycle unarchive [world_id:<世界ID>]（仅创作者；恢复已归档的世界）",
+      "- /world lifecycle transfer user:<成员> [world_id:<世界ID>]（仅创作者；转让给已加入的成员，原创作者保留为编辑）",
+      "- /world lifecycle remove world_id:<世界ID>（管理员；删除世界与全部文件）",
       "",
       "提示：",
       "- 所有人默认可查看世界子空间（只读）；加入后获得发言权限",
@@ -208,22 +233,43 @@ export function buildDiscordWorldHelp(
       "World commands:",
       "- /world create (admin-only by default; configurable via world.createPolicy)",
       "  - Creates an editing thread for pasting/uploading source lore; use /world publish to publish and create the world subspace",
-      "- /world open world_id:<WORLD_ID> (creator only; open the editing thread)",
-      "- /world publish [cover:<IMAGE>] (creator only; publish the draft world from the editing thread, optionally with a world-index cover image)",
-      "- /world export [world_id:<WORLD_ID>] (creator only; export world card / world rules / canon docs)",
-      "- /world import kind:world_card|rules|canon file:<FILE> [world_id:<WORLD_ID>] (creator only; overwrite world docs; kind=canon writes into the world's canon library and strips leading W<id>- if present)",
-      "- /world image name:<NAME> file:<IMAGE> [world_id:<WORLD_ID>] (creator only; upload an image and append it into worldbook assets)",
+      "- /world open world_id:<WORLD_ID> (owner or editor; open the editing thread)",
+      "- /world publish [cover:<IMAGE>] (owner or editor; publish the draft world from the editing thread, optionally with a world-index cover image)",
+      "- /world export [world_id:<WORLD_ID>] (owner or editor; export world card / world rules / canon docs)",
+      "- /world import kind:world_card|rules|canon|sheet_schema|calendar file:<FILE> [world_id:<WORLD_ID>] (owner or editor; overwrite world docs; kind=canon writes into the world's canon library and strips leading W<id>- if present; kind=sheet_schema uploads the character sheet schema JSON; kind=calendar uploads the calendar definition JSON)",
+      "- /world image name:<NAME> file:<IMAGE> [world_id:<WORLD_ID>] (owner or editor; upload an image and append it into worldbook assets)",
+      "- /world revision history [file:<FILE>] [world_id:<WORLD_ID>] (owner or editor; list world doc revisions)",
+      "- /world revision diff rev:<REV> [world_id:<WORLD_ID>] (owner or editor; show what that revision changed)",
+      "- /world revision rollback rev:<REV> [world_id:<WORLD_ID>] (owner or editor; restore that revision as a new one)",
       "- /world list [limit:<1-100>]",
       "- /world search query:<KEYWORD> [limit:<1-50>]",
       "- /world info [world_id:<WORLD_ID>] (world_id can be omitted inside world channels)",
       "- /world rules [world_id:<WORLD_ID>] (world_id can be omitted inside world channels)",
       "- /world canon query:<KEYWORD> [world_id:<WORLD_ID>] (search canon: world card / world rules / canon addenda; world_id can be omitted inside entry channels)",
       "- /world submit kind:<KIND> title:<TITLE> content:<CONTENT> [world_id:<WORLD_ID>] (proposal/task/chronicle/canon addendum)",
-      "- /world approve submission_id:<SUBMISSION_ID> [world_id:<WORLD_ID>] (creator only; approve and write into canon)",
+      "- /world approve submission_id:<SUBMISSION_ID> [world_id:<WORLD_ID>] (owner, editor or moderator; approve and write into canon)",
+      "- /world reject submission_id:<SUBMISSION_ID> [reason:<REASON>] [world_id:<WORLD_ID>] (owner, editor or moderator; reject and notify the submitter)",
+      "- /world submissions [status:pending|approved|rejected] [page:<PAGE>] [world_id:<WORLD_ID>] (list submissions with votes and comment counts)",
+      "- /world settings [auto_approve_votes:<VOTES>] [world_id:<WORLD_ID>] (owner or editor; auto-approve proposals at this net vote count, 0 = off)",
       "- /world check query:<KEYWORD> [world_id:<WORLD_ID>] (conflict/search: world card / world rules / canon / submissions)",
       "- /world join world_id:<WORLD_ID> [character_id:<CHARACTER_ID>] (join to gain talk permission; world_id can be omitted inside world channels)",
-      "- /world stats [world_id:<WORLD_ID>] (or /world status; world_id can be omitted inside world channels)",
-      "- /world remove world_id:<WORLD_ID> (admin)",
+      "- /world stats [world_id:<WORLD_ID>] (world_id can be omitted inside world channels)",
+      "- /world staff add user:<USER> role:editor|moderator [world_id:<WORLD_ID>] (owner only; editors co-edit, publish and roll back; moderators review proposals)",
+      "- /world staff remove user:<USER> [world_id:<WORLD_ID>] (owner only)",
+      "- /world staff list [world_id:<WORLD_ID>] (list world staff)",
+      "- /world lore add title:<TITLE> keys:<KEYWORDS> content:<CONTENT> [priority:<PRIORITY>] [budget:<BYTES>] [regex:<REGEX>] [world_id:<WORLD_ID>] (owner or editor; add a lorebook entry that is injected when its keywords come up)",
+      "- /world lore edit entry_id:<ID> [title/keys/content/priority/budget/regex/enabled] [world_id:<WORLD_ID>] (owner or editor; regex:- clears the regex)",
+      "- /world lore remove entry_id:<ID> [world_id:<WORLD_ID>] (owner or editor)",
+      "- /world lore list [world_id:<WORLD_ID>] (owner or editor; list lorebook entries)",
+      "- /world lore import file:<JSON> [replace:true] [world_id:<WORLD_ID>] (owner or editor; import a Tavern/SillyTavern lorebook)",
+      "- /world timeline list [from:<DATE>] [to:<DATE>] [tag:<TAG>] [query:<TEXT>] [limit:<N>] [world_id:<WORLD_ID>] (list timeline entries by in-world date)",
+      "- /world timeline add title:<TITLE> [date:<DATE>] [content:<TEXT>] [tags:<TAGS>] [world_id:<WORLD_ID>] (owner, editor or moderator; date defaults to the current in-world time)",
+      "- /world timeline remove entry_id:<ID> [world_id:<WORLD_ID>] (owner, editor or moderator)",
+      "- /world timeline clock [set:<DATE>] [advance:<DURATION>] [world_id:<WORLD_ID>] (show the in-world time; setting or advancing it needs owner, editor or moderator)",
+      "- /world lifecycle archive [world_id:<WORLD_ID>] (owner only; read-only channels, hidden from lists, files and wiki kept)",
+      "- /world lifecycle unarchive [world_id:<WORLD_ID>] (owner only; restore an archived world)",
+      "- /world lifecycle transfer user:<USER> [world_id:<WORLD_ID>] (owner only; hand over to a joined member, the previous owner stays as editor)",
+      "- /world lifecycle remove world_id:<WORLD_ID> (admin; delete the world and all its files)",
       "",
       "Notes:",
       "- Everyone can view world channels by default (read-only); joining grants talk permissions.",
@@ -242,8 +288,8 @@ export function buildDiscordCharacterHelp(
       "- /character create [name:<角色名>] [visibility:public|private] [description:<补充>]",
       "  - 会创建一个编辑话题，多轮补全角色卡；默认 visibility=private",
       "- /character open character_id:<角色ID>（仅创作者；打开该角色的编辑话题）",
-      "- /character export [character_id:<角色ID>]（仅创作者；导出角色卡；在编辑话题中可省略 character_id）",
-      "- /character import file:<文件> [character_id:<角色ID>]（仅创作者；上传并覆盖角色卡；在编辑话题中可省略 character_id）",
+      "- /character export [character_id:<角色ID>] [format:<markdown|tavern_json|tavern_png>] [portrait:<PNG>]（仅创作者；导出角色卡，可选 Tavern V2 JSON/PNG；在编辑话题中可省略 character_id）",
+      "- /character import file:<文件> [character_id:<角色ID>]（仅创作者；上传并覆盖角色卡，支持 Markdown/TXT 与 Tavern 角色卡 JSON/PNG；在编辑话题中可省略 character_id）",
       "- /character view character_id:<角色ID>（遵循 visibility 权限）",
       "- /character use character_id:<角色ID>（设置你的默认角色，全局）",
       "- /character act character_id:<角色ID>（在世界频道内执行：设置你在该世界的当前角色）",
@@ -252,14 +298,16 @@ export function buildDiscordCharacterHelp(
       "- /character list [limit:<1-100>]（列出我的角色）",
       "- /character search query:<关键词> [limit:<1-50>]（搜索 public 角色）",
       "- /character adopt character_id:<角色ID> mode:copy|fork（把 public 角色变成你的角色）",
+      "- /character sheet [character_id:<角色ID>]（世界频道内；查看角色卡数值，默认当前角色）",
+      "- /character set field:<字段> value:<值> [character_id:<角色ID>]（世界频道内；修改数值/物品/状态，如 value:+2、value:+火把 x2）",
     ].join("\n"),
     [
       "Character commands:",
       "- /character create [name:<NAME>] [visibility:public|private] [description:<EXTRA>]",
       "  - Creates an editing thread for iterative character-card refinement; default visibility=private",
       "- /character open character_id:<CHARACTER_ID> (creator only; open the editing thread)",
-      "- /character export [character_id:<CHARACTER_ID>] (creator only; export the character card; character_id can be omitted inside the editing thread)",
-      "- /character import file:<FILE> [character_id:<CHARACTER_ID>] (creator only; upload and overwrite the character card; character_id can be omitted inside the editing thread)",
+      "- /character export [character_id:<CHARACTER_ID>] [format:<markdown|tavern_json|tavern_png>] [portrait:<PNG>] (creator only; export the character card, optionally as Tavern V2 JSON/PNG; character_id can be omitted inside the editing thread)",
+      "- /character import file:<FILE> [character_id:<CHARACTER_ID>] (creator only; upload and overwrite the character card from Markdown/TXT or a Tavern card JSON/PNG; character_id can be omitted inside the editing thread)",
       "- /character view character_id:<CHARACTER_ID> (subject to visibility)",
       "- /character use character_id:<CHARACTER_ID> (set your global default character)",
       "- /character act character_id:<CHARACTER_ID> (run inside a world channel to set your active character in that world)",
@@ -268,6 +316,8 @@ export function buildDiscordCharacterHelp(
       "- /character list [limit:<1-100>] (list my characters)",
       "- /character search query:<KEYWORD> [limit:<1-50>] (search public characters)",
       "- /character adopt character_id:<CHARACTER_ID> mode:copy|fork (turn a public character into yours)",
+      "- /character sheet [character_id:<CHARACTER_ID>] (inside a world; view sheet values, defaults to your active character)",
+      "- /character set field:<FIELD> value:<VALUE> [character_id:<CHARACTER_ID>] (inside a world; change stats/inventory/statuses, e.g. value:+2, value:+Torch x2)",
     ].join("\n"),
   );
 }
@@ -147,6 +147,96 @@ export function buildSessionProgressHeartbeatText(
   );
 }
 
+export function buildSessionCancelledReply(
+  language: UserLanguage | null | undefined,
+): string {
+  return pick(
+    language,
+    "已停止本次回复，排队中的消息也已丢弃。",
+    "Stopped this reply and discarded any queued messages.",
+  );
+}
+
+export function buildSessionRateLimitedReply(
+  input: {
+    scope: "user_minute" | "group_minute" | "user_day" | "group_day";
+    retryAfterMs: number;
+  },
+  language: UserLanguage | null | undefined,
+): string {
+  const seconds = Math.max(1, Math.ceil(input.retryAfterMs / 1000));
+  const minutes = Math.ceil(seconds / 60);
+  const hours = Math.ceil(minutes / 60);
+  const wait =
+    seconds < 60
+      ? pick(language, `${seconds} 秒`, `${seconds}s`)
+      : minutes < 60
+        ? pick(language, `${minutes} 分钟`, `${minutes} min`)
+        : pick(language, `约 ${hours} 小时`, `about ${hours}h`);
+  switch (input.scope) {
+    case "user_minute":
+      return pick(
+        language,
+        `你发得太快了，请 ${wait} 后再试。`,
+        `You're sending messages too fast. Please try again in ${wait}.`,
+      );
+    case "group_minute":
+      return pick(
+        language,
+        `本群消息太多，我有点忙不过来，请 ${wait} 后再试。`,
+        `This group is busy right now. Please try again in ${wait}.`,
+      );
+    case "user_day":
+      return pick(
+        language,
+        `你今天的对话额度已用完，${wait}后恢复一条。`,
+        `You've used up your daily quota. One more message frees up in ${wait}.`,
+      );
+    case "group_day":
+      return pick(
+        language,
+        `本群今天的对话额度已用完，${wait}后恢复一条。`,
+        `This group has used up its daily quota. One more message frees up in ${wait}.`,
+      );
+  }
+}
+
+export function buildSessionOverBudgetReply(
+  input: { window: "daily" | "monthly"; policy: "reject" | "admin_only" },
+  language: UserLanguage | null | undefined,
+): string {
+  const period =
+    input.window === "daily"
+      ? pick(language, "今日", "daily")
+      : pick(language, "本月", "monthly");
+  if (input.policy === "admin_only") {
+    return pick(
+      language,
+      `本群${period}用量预算已用完，目前仅管理员可以继续对话。`,
+      `This group has used up its ${period} budget. Only admins can chat until it resets.`,
+    );
+  }
+  return pick(
+    language,
+    `本群${period}用量预算已用完，请等预算重置后再试。`,
+    `This group has used up its ${period} budget. Please try again after it resets.`,
+  );
+}
+
+export function buildSessionStreamingPlaceholderText(
+  language: UserLanguage | null | undefined,
+): string {
+  return pick(language, "⏳ 正在思考…", "⏳ Thinking…");
+}
+
+export function buildSessionStreamingToolProgressText(
+  language: UserLanguage | null | undefined,
+  tools: ReadonlyArray<string>,
+): string {
+  const list = tools.join(", ");
+  return pick(language, `🔧 正在使用工具：${list}`, `🔧 Using tools: ${list}`);
+}
+
 export function buildSessionOpencodeRunErrorReply(input: {
   language: UserLanguage | null | undefined;
   isDev: boolean;
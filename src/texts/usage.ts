@@ -0,0 +1,80 @@
+import type { BudgetStatus } from "../session/budget";
+import type { UsageSummary, UsageTotals } from "../session/usage";
+import type { UserLanguage } from "../user/state-store";
+import { pick } from "./common";
+
+function formatTokenCount(value: number): string {
+  if (value >= 1_000_000) {
+    return `${(value / 1_000_000).toFixed(1)}M`;
+  }
+  if (value >= 1_000) {
+    return `${(value / 1_000).toFixed(1)}k`;
+  }
+  return String(value);
+}
+
+export function buildUsageTotalsLine(
+  totals: UsageTotals,
+  language: UserLanguage | null | undefined,
+): string {
+  const input = formatTokenCount(totals.inputTokens);
+  const output = formatTokenCount(totals.outputTokens);
+  const cache = formatTokenCount(
+    totals.cacheReadTokens + totals.cacheWriteTokens,
+  );
+  const cost = totals.cost > 0 ? ` · $${totals.cost.toFixed(4)}` : "";
+  return pick(
+    language,
+    `${totals.runs} 次调用 · 输入 ${input} / 输出 ${output} / 缓存 ${cache} tokens${cost}`,
+    `${totals.runs} runs · ${input} in / ${output} out / ${cache} cache tokens${cost}`,
+  );
+}
+
+export function buildUsageReport(
+  input: { days: number; summary: UsageSummary },
+  language: UserLanguage | null | undefined,
+): string {
+  const { days, summary } = input;
+  if (summary.totals.runs === 0) {
+    return pick(
+      language,
+      `近 ${days} 天没有用量记录。`,
+      `No usage recorded in the last ${days} days.`,
+    );
+  }
+  const lines = [
+    pick(language, `近 ${days} 天用量：`, `Usage in the last ${days} days:`),
+    buildUsageTotalsLine(summary.totals, language),
+  ];
+  const models = summary.byModel.slice(0, 5);
+  if (models.length > 1) {
+    lines.push(pick(language, "按模型：", "By model:"));
+    for (const model of models) {
+      lines.push(`- ${model.key}: ${buildUsageTotalsLine(model, language)}`);
+    }
+  }
+  return lines.join("\n");
+}
+
+export function buildBudgetRemainingText(
+  status: BudgetStatus,
+  language: UserLanguage | null | undefined,
+): string {
+  const lines = status.limits.map((limit) => {
+    const period =
+      limit.window === "daily"
+        ? pick(language, "今日", "Today")
+        : pick(language, "本月", "This month");
+    const format = (value: number) =>
+      limit.metric === "cost"
+        ? `$${value.toFixed(2)}`
+        : formatTokenCount(value);
+    const unit = limit.metric === "cost" ? "" : " tokens";
+    return pick(
+      language,
+      `${period}剩余：${format(limit.remaining)} / ${format(limit.limit)}${unit}`,
+      `${period} remaining: ${format(limit.remaining)} / ${format(limit.limit)}${unit}`,
+    );
+  });
+  return [pick(language, "预算：", "Budget:"), ...lines].join("\n");
+}
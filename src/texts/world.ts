@@ -86,6 +86,10 @@ export function buildWorldAgentPrompt(input: {
       `3) 当前是游玩会话（只读）。当用户请求修改世界设定/正典时：不要直接改写文件；应引导联系世界创作者执行 /world open world_id:${input.worldId} 后修改，并用 /world publish 发布更新。`,
       "4) 游玩会话请遵循技能 `world-readonly` 的只读原则与回应风格。",
       "5) 内部可使用工作区路径读取资料，但对用户的回复里禁止出现任何路径/文件名；统一使用“世界书/角色卡”等产品术语。",
+      "6) 涉及世界卡与规则之外的人物、事件或历史时，先用技能 `world-canon-search` 检索正典与已确认提案，保持与正典一致。",
+      "7) 如果系统上下文里有“当前角色状态”：数值、物品与状态以其为准，禁止凭空改动；剧情造成变化（受伤、消耗、获得物品、附加状态）时，按技能 `character-sheet` 在回复末尾追加 ```character-state 块记录变化。",
+      "8) 系统上下文里的“世界任务”是本世界进行中的任务，进展以其为准；剧情中有人委托新任务、目标达成或失败、玩家接下任务时，按技能 `quest-tracker` 在回复末尾追加 ```quest-update 块记录，不要凭空宣布任务完成。",
+      "9) 系统上下文里的“世界时间”是本世界当前的世界内时间与近期大事，叙述中的时刻与先后顺序以其为准；剧情推进了时间或发生值得载入编年的大事时，按技能 `world-timeline` 在回复末尾追加 ```world-time 块记录。",
       "",
     ].join("\n"),
     [
@@ -102,6 +106,10 @@ export function buildWorldAgentPrompt(input: {
       `3) This is a play session (read-only). If the user asks to change world settings/canon, do not edit files directly; instruct them to contact the world creator to run /world open world_id:${input.worldId} and then publish updates via /world publish.`,
       "4) Follow skill `world-readonly` for read-only behavior and response style in play sessions.",
       "5) You may use workspace paths internally, but never expose any path or filename in user-facing replies; use product terms like Worldbook / Character Card.",
+      "6) For people, events or history beyond the world card and rules, search canon and approved submissions with skill `world-canon-search` first so play stays consistent with canon.",
+      "7) If the system context has a current character state section, its stats, items and statuses are authoritative; never change them silently. When the story changes them (damage, spending, new items, conditions), append a ```character-state block at the end of the reply as described in skill `character-sheet`.",
+      "8) The world quests section of the system context lists the world's open quests and is authoritative for their progress. When someone offers a new quest, an objective is achieved or failed, or the player takes on a quest, append a ```quest-update block at the end of the reply as described in skill `quest-tracker`; never declare a quest finished without recording it.",
+      "9) The world time section of the system context gives the current in-world time and recent events and is authoritative for chronology. When the story moves time forward or something worth recording in the chronicle happens, append a ```world-time block at the end of the reply as described in skill `world-timeline`.",
       "",
     ].join("\n"),
   );
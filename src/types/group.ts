@@ -14,6 +14,54 @@ export const KeywordRoutingSchema = z.object({
 export type KeywordRouting = z.infer<typeof KeywordRoutingSchema>;
 export const EchoRateSchema = z.number().int().min(0).max(100);
 
+/**
+ * Message limits; null inherits from the next level, 0 disables the limit.
+ */
+export const RateLimitSchema = z.object({
+  userPerMinute: z.number().int().min(0).nullable().default(null),
+  groupPerMinute: z.number().int().min(0).nullable().default(null),
+  userPerDay: z.number().int().min(0).nullable().default(null),
+  groupPerDay: z.number().int().min(0).nullable().default(null),
+});
+
+export type RateLimitConfig = z.infer<typeof RateLimitSchema>;
+
+export const DEFAULT_RATE_LIMIT: RateLimitConfig = {
+  userPerMinute: null,
+  groupPerMinute: null,
+  userPerDay: null,
+  groupPerDay: null,
+};
+
+export const BudgetPolicySchema = z.enum(["reject", "downgrade", "admin_only"]);
+
+export type BudgetPolicy = z.infer<typeof BudgetPolicySchema>;
+
+/**
+ * Spending caps per group; tokens count input + output + reasoning.
+ * null means no cap for that window.
+ */
+export const BudgetSchema = z.object({
+  dailyTokens: z.number().int().min(1).nullable().default(null),
+  monthlyTokens: z.number().int().min(1).nullable().default(null),
+  dailyCost: z.number().positive().nullable().default(null),
+  monthlyCost: z.number().positive().nullable().default(null),
+  onExceeded: BudgetPolicySchema.default("reject"),
+  /** Model used by the downgrade policy; defaults to the last OPENCODE_MODELS entry. */
+  downgradeModel: z.string().nullable().default(null),
+});
+
+export type BudgetConfig = z.infer<typeof BudgetSchema>;
+
+export const DEFAULT_BUDGET: BudgetConfig = {
+  dailyTokens: null,
+  monthlyTokens: null,
+  dailyCost: null,
+  monthlyCost: null,
+  onExceeded: "reject",
+  downgradeModel: null,
+};
+
 export const WorldCreatePolicySchema = z.enum(["admin", "whitelist", "open"]);
 
 export const WorldConfigSchema = z
@@ -36,10 +84,14 @@ export const GroupConfigSchema = z.object({
     enableBot: true,
   }),
   echoRate: EchoRateSchema.nullable().default(null),
+  rateLimit: RateLimitSchema.default(DEFAULT_RATE_LIMIT),
+  budget: BudgetSchema.default(DEFAULT_BUDGET),
   adminUsers: z.array(z.string()).default([]),
   world: WorldConfigSchema,
   maxSessions: z.number().int().min(1).default(1),
   model: z.string().optional(),
+  /** Overrides OPENCODE_MODEL_FALLBACKS for this group; [] disables fallback. */
+  modelFallbacks: z.array(z.string()).optional(),
   push: z
     .object({
       enabled: z.boolean().default(false),
@@ -102,6 +154,8 @@ export const DEFAULT_GROUP_CONFIG: GroupConfig = {
     enableBot: true,
   },
   echoRate: null,
+  rateLimit: DEFAULT_RATE_LIMIT,
+  budget: DEFAULT_BUDGET,
   adminUsers: [],
   world: {
     createPolicy: "admin",
@@ -36,6 +36,17 @@ export interface SendMessageOptions {
   elements?: ReadonlyArray<SessionElement>;
 }
 
+export interface EditMessageOptions {
+  /** The draft becomes the final reply instead of showing progress. */
+  final?: boolean;
+}
+
+/** Reference to a message the bot posted, used for later edits. */
+export interface SentMessageRef {
+  channelId: string;
+  messageId: string;
+}
+
 export type MessageHandler<TExtras = unknown> = (
   session: SessionEvent<TExtras>,
 ) => Promise<void> | void;
@@ -51,5 +62,24 @@ export interface PlatformAdapter {
     content: string,
     options?: SendMessageOptions,
   ): Promise<void>;
+  /**
+   * Post a plain-text message that will be edited in place later.
+   * Returns null when the target cannot host an editable draft.
+   */
+  sendDraft?(
+    session: SessionEvent,
+    content: string,
+  ): Promise<SentMessageRef | null>;
+  /**
+   * Replace the text of a draft; false means the content cannot fit or needs
+   * the normal send path (e.g. markup the adapter turns into attachments).
+   */
+  editMessage?(
+    session: SessionEvent,
+    message: SentMessageRef,
+    content: string,
+    options?: EditMessageOptions,
+  ): Promise<boolean>;
+  deleteMessage?(session: SessionEvent, message: SentMessageRef): Promise<void>;
   getBotUserId(): string | null;
 }
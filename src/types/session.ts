@@ -27,6 +27,17 @@ export interface SessionMeta {
   updatedAt: string;
 }
 
+/** Which stored entries a rolling summary condenses. */
+export interface HistorySummaryProvenance {
+  /** First and last history_entries id covered, inclusive. */
+  fromId: string;
+  toId: string;
+  entryCount: number;
+  model: string;
+  /** The summary this one rolled forward, if any. */
+  previousSummaryId?: string;
+}
+
 export interface HistoryEntry {
   id?: string;
   role: "user" | "assistant" | "system";
@@ -36,7 +47,8 @@ export interface HistoryEntry {
   groupId?: string;
   sessionId?: string;
   includeInContext?: boolean;
-  context?: "group_window" | "user_memory" | (string & {});
+  context?: "group_window" | "user_memory" | "summary" | (string & {});
+  summary?: HistorySummaryProvenance;
   [key: string]: unknown;
 }
 
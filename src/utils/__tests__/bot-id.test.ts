@@ -1,6 +1,10 @@
 import { describe, expect, test } from "bun:test";
 
-import { parseBotIdAliases, resolveCanonicalBotId } from "../bot-id";
+import {
+  botFsIdToAccountId,
+  parseBotIdAliases,
+  resolveCanonicalBotId,
+} from "../bot-id";
 
 describe("parseBotIdAliases", () => {
   test("parses comma separated aliases", () => {
@@ -31,3 +35,12 @@ describe("resolveCanonicalBotId", () => {
     expect(resolveCanonicalBotId("plain-bot")).toBe("plain-bot");
   });
 });
+
+describe("botFsIdToAccountId", () => {
+  test("splits at the first dash", () => {
+    expect(botFsIdToAccountId("discord-123")).toBe("discord:123");
+    expect(botFsIdToAccountId("qq-plain-bot")).toBe("qq:plain-bot");
+    expect(botFsIdToAccountId("discord")).toBeNull();
+    expect(botFsIdToAccountId("-123")).toBeNull();
+  });
+});
@@ -1,57 +1,252 @@
 import { describe, expect, test } from "bun:test";
 
-import { formatDiceResult, parseDiceSpec, rollDice } from "../dice";
+import {
+  formatDiceExpression,
+  formatDiceResult,
+  listDiceReferences,
+  parseDiceExpression,
+  parseSkillCheck,
+  rollDiceCommand,
+  rollDiceExpression,
+  rollSkillCheck,
+  resolveDiceReferences,
+  type DiceExpression,
+  type DieRoller,
+} from "../dice";
 
-describe("parseDiceSpec", () => {
-  test("parses valid dice specs", () => {
-    expect(parseDiceSpec("1d1")).toEqual({ count: 1, sides: 1 });
-    expect(parseDiceSpec("2d100")).toEqual({ count: 2, sides: 100 });
-    expect(parseDiceSpec(" 10 d 20 ")).toEqual({ count: 10, sides: 20 });
-    expect(parseDiceSpec("3D6")).toEqual({ count: 3, sides: 6 });
+function sequence(...values: number[]): DieRoller {
+  let index = 0;
+  return () => {
+    const value = values[index];
+    index += 1;
+    if (value === undefined) {
+      throw new Error("roll sequence exhausted");
+    }
+    return value;
+  };
+}
+
+function parse(input: string): DiceExpression {
+  const expression = parseDiceExpression(input);
+  if (!expression) {
+    throw new Error(`expected ${input} to parse`);
+  }
+  return expression;
+}
+
+describe("parseDiceExpression", () => {
+  test("parses plain and multi-term expressions", () => {
+    expect(formatDiceExpression(parse("2d100"))).toBe("2d100");
+    expect(formatDiceExpression(parse(" 10 d 20 "))).toBe("10d20");
+    expect(formatDiceExpression(parse("d20"))).toBe("1d20");
+    expect(formatDiceExpression(parse("d%"))).toBe("1d100");
+    expect(formatDiceExpression(parse("2d6 + 1d4 - 2"))).toBe("2d6+1d4-2");
+  });
+
+  test("parses keep/drop, exploding and success modifiers", () => {
+    expect(formatDiceExpression(parse("4d6kh3"))).toBe("4d6kh3");
+    expect(formatDiceExpression(parse("4d6k"))).toBe("4d6kh1");
+    expect(formatDiceExpression(parse("4d6dl1"))).toBe("4d6dl1");
+    expect(formatDiceExpression(parse("3d6!"))).toBe("3d6!");
+    expect(formatDiceExpression(parse("6d10>=7"))).toBe("6d10>=7");
+  });
+
+  test("turns advantage and vs into kept d20 and a target", () => {
+    expect(formatDiceExpression(parse("d20+5 adv"))).toBe("2d20kh1+5");
+    expect(formatDiceExpression(parse("劣势 d20"))).toBe("2d20kl1");
+    expect(formatDiceExpression(parse("d20+5 vs 15"))).toBe("1d20+5 vs 15");
+  });
+
+  test("rejects out-of-range and malformed expressions", () => {
+    expect(parseDiceExpression("0d6")).toBeNull();
+    expect(parseDiceExpression("101d6")).toBeNull();
+    expect(parseDiceExpression("2d0")).toBeNull();
+    expect(parseDiceExpression("2d1001")).toBeNull();
+    expect(parseDiceExpression("4d6kh5")).toBeNull();
+    expect(parseDiceExpression("1d1!")).toBeNull();
+    expect(parseDiceExpression("100d6+100d6+1d6")).toBeNull();
+    expect(parseDiceExpression("2d")).toBeNull();
+    expect(parseDiceExpression("2d6+")).toBeNull();
+    expect(parseDiceExpression("roll 2d100")).toBeNull();
+    expect(parseDiceExpression("2d100 please")).toBeNull();
+    expect(parseDiceExpression("2d6 adv")).toBeNull();
+  });
+});
+
+describe("parseSkillCheck", () => {
+  test("parses skill name and value", () => {
+    expect(parseSkillCheck("侦查 60")).toEqual({ skill: "侦查", value: 60 });
+    expect(parseSkillCheck("spot hidden 45")).toEqual({
+      skill: "spot hidden",
+      value: 45,
+    });
+    expect(parseSkillCheck("侦查60")).toEqual({ skill: "侦查", value: 60 });
+    expect(parseSkillCheck("70")).toEqual({ skill: "", value: 70 });
   });
 
-  test("rejects out-of-range dice specs", () => {
-    expect(parseDiceSpec("0d6")).toBeNull();
-    expect(parseDiceSpec("11d6")).toBeNull();
-    expect(parseDiceSpec("2d0")).toBeNull();
-    expect(parseDiceSpec("2d101")).toBeNull();
+  test("leaves the value to the character sheet when only a skill is given", () => {
+    expect(parseSkillCheck("侦查")).toEqual({ skill: "侦查" });
+    expect(parseSkillCheck("  ")).toBeNull();
   });
 
-  test("rejects non-dice strings", () => {
-    expect(parseDiceSpec("d100")).toBeNull();
-    expect(parseDiceSpec("2d")).toBeNull();
-    expect(parseDiceSpec("2d100+1")).toBeNull();
-    expect(parseDiceSpec("roll 2d100")).toBeNull();
-    expect(parseDiceSpec("2d100 please")).toBeNull();
+  test("rejects out-of-range values", () => {
+    expect(parseSkillCheck("侦查 0")).toBeNull();
+    expect(parseSkillCheck("侦查 101")).toBeNull();
   });
 });
 
-describe("rollDice", () => {
+describe("rollDiceExpression", () => {
   test("returns rolls in range and sums correctly", () => {
-    const spec = { count: 10, sides: 100 };
+    const expression = parse("10d100");
     for (let i = 0; i < 50; i += 1) {
-      const result = rollDice(spec);
-      expect(result.rolls).toHaveLength(10);
-      for (const value of result.rolls) {
-        expect(value).toBeGreaterThanOrEqual(1);
-        expect(value).toBeLessThanOrEqual(100);
+      const result = rollDiceExpression(expression);
+      const rolls = result.terms[0]?.rolls ?? [];
+      expect(rolls).toHaveLength(10);
+      for (const die of rolls) {
+        expect(die.value).toBeGreaterThanOrEqual(1);
+        expect(die.value).toBeLessThanOrEqual(100);
       }
-      const sum = result.rolls.reduce((acc, v) => acc + v, 0);
+      const sum = rolls.reduce((acc, die) => acc + die.value, 0);
       expect(result.total).toBe(sum);
     }
   });
+
+  test("keeps highest dice and applies modifiers", () => {
+    const result = rollDiceExpression(parse("4d6kh3-1"), sequence(3, 6, 1, 5));
+    expect(result.terms[0]?.rolls.map((die) => die.dropped ?? false)).toEqual([
+      false,
+      false,
+      true,
+      false,
+    ]);
+    expect(result.total).toBe(13);
+  });
+
+  test("rerolls exploding dice and counts successes", () => {
+    expect(rollDiceExpression(parse("2d6!"), sequence(6, 6, 2, 3)).total).toBe(
+      17,
+    );
+    expect(
+      rollDiceExpression(parse("4d10>=7"), sequence(7, 3, 10, 6)).total,
+    ).toBe(2);
+  });
+
+  test("resolves vs targets with natural 20 and natural 1", () => {
+    const expression = parse("d20+5 vs 15");
+    expect(rollDiceExpression(expression, sequence(10)).outcome).toBe(
+      "success",
+    );
+    expect(rollDiceExpression(expression, sequence(9)).outcome).toBe("failure");
+    expect(rollDiceExpression(expression, sequence(20)).outcome).toBe(
+      "critical",
+    );
+    expect(rollDiceExpression(expression, sequence(1)).outcome).toBe("fumble");
+  });
+});
+
+describe("rollSkillCheck", () => {
+  test("maps rolls to CoC success tiers", () => {
+    const check = { skill: "侦查", value: 60 };
+    expect(rollSkillCheck(check, sequence(1)).outcome).toBe("critical");
+    expect(rollSkillCheck(check, sequence(12)).outcome).toBe("extreme");
+    expect(rollSkillCheck(check, sequence(30)).outcome).toBe("hard");
+    expect(rollSkillCheck(check, sequence(60)).outcome).toBe("success");
+    expect(rollSkillCheck(check, sequence(61)).outcome).toBe("failure");
+    expect(rollSkillCheck(check, sequence(96)).outcome).toBe("failure");
+    expect(rollSkillCheck(check, sequence(100)).outcome).toBe("fumble");
+    expect(rollSkillCheck({ skill: "", value: 40 }, sequence(96)).outcome).toBe(
+      "fumble",
+    );
+  });
 });
 
 describe("formatDiceResult", () => {
-  test("formats single die result", () => {
+  test("formats plain dice", () => {
+    const single = parse("1d20");
     expect(
-      formatDiceResult({ count: 1, sides: 20 }, { rolls: [7], total: 7 }),
+      formatDiceResult(
+        rollDiceCommand({ type: "roll", expression: single }, sequence(7)),
+      ),
     ).toBe("1d20 = 7");
+    const multi = parse("2d6");
+    expect(
+      formatDiceResult(
+        rollDiceCommand({ type: "roll", expression: multi }, sequence(1, 6)),
+      ),
+    ).toBe("2d6 = 1 + 6 = 7");
   });
 
-  test("formats multi-dice result", () => {
+  test("shows the per-term breakdown", () => {
+    const expression = parse("4d6kh3+1d4!+2");
     expect(
-      formatDiceResult({ count: 2, sides: 6 }, { rolls: [1, 6], total: 7 }),
-    ).toBe("2d6 = 1 + 6 = 7");
+      formatDiceResult(
+        rollDiceCommand(
+          { type: "roll", expression },
+          sequence(3, 6, 1, 5, 4, 2),
+        ),
+      ),
+    ).toBe("4d6kh3+1d4!+2 = [3, 6, (1), 5] + [4!, 2] + 2 = 22");
+  });
+
+  test("labels vs outcomes and skill checks through the caller's labels", () => {
+    const expression = parse("d20+5 vs 15");
+    expect(
+      formatDiceResult(
+        rollDiceCommand({ type: "roll", expression }, sequence(12)),
+      ),
+    ).toBe("1d20+5 = [12] + 5 = 17 vs 15 → success");
+    expect(
+      formatDiceResult(
+        rollDiceCommand(
+          { type: "check", check: { skill: "Spot Hidden", value: 60 } },
+          sequence(25),
+        ),
+        (outcome) => outcome.toUpperCase(),
+      ),
+    ).toBe("Spot Hidden 1d100 = 25 / 60 → HARD");
+  });
+});
+
+describe("resolveDiceReferences", () => {
+  const lookup = (name: string) =>
+    ({ 力量: 3, str: 3, 侦查: 55, 诅咒: -2 })[name] ?? null;
+
+  test("parses sheet references only alongside dice", () => {
+    expect(formatDiceExpression(parse("d20+力量"))).toBe("1d20+力量");
+    expect(parseDiceExpression("力量")).toBeNull();
+    expect(parseDiceExpression("roll")).toBeNull();
+    expect(
+      listDiceReferences({ type: "roll", expression: parse("d20+str") }),
+    ).toEqual(["str"]);
+  });
+
+  test("replaces references with sheet values before rolling", () => {
+    const { command, missing } = resolveDiceReferences(
+      { type: "roll", expression: parse("d20+力量+诅咒") },
+      lookup,
+    );
+    expect(missing).toEqual([]);
+    const rolled = rollDiceCommand(command, sequence(12));
+    expect(formatDiceResult(rolled)).toBe("1d20+力量-诅咒 = [12] + 3 - 2 = 13");
+  });
+
+  test("fills skill checks and reports missing names", () => {
+    const check = resolveDiceReferences(
+      { type: "check", check: { skill: "侦查" } },
+      lookup,
+    );
+    expect(check.command).toEqual({
+      type: "check",
+      check: { skill: "侦查", value: 55 },
+    });
+    expect(
+      resolveDiceReferences(
+        { type: "roll", expression: parse("d20+魅力") },
+        lookup,
+      ).missing,
+    ).toEqual(["魅力"]);
+    expect(() =>
+      rollDiceCommand({ type: "check", check: { skill: "侦查" } }),
+    ).toThrow();
   });
 });
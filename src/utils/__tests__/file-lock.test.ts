@@ -0,0 +1,84 @@
+import { describe, expect, test } from "bun:test";
+import {
+  existsSync,
+  mkdtempSync,
+  rmSync,
+  statSync,
+  utimesSync,
+  writeFileSync,
+} from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { withFileLock } from "../file-lock";
+
+function makeTempDir(): string {
+  return mkdtempSync(join(tmpdir(), "file-lock-test-"));
+}
+
+describe("withFileLock", () => {
+  test("runs holders one at a time in call order and removes the lock file", async () => {
+    const tempDir = makeTempDir();
+    const lockPath = join(tempDir, "locks", "a.lock");
+    try {
+      let active = 0;
+      let maxActive = 0;
+      const order: number[] = [];
+      await Promise.all(
+        [1, 2, 3].map((id) =>
+          withFileLock(lockPath, async () => {
+            active += 1;
+            maxActive = Math.max(maxActive, active);
+            order.push(id);
+            await new Promise((resolve) => setTimeout(resolve, 10));
+            active -= 1;
+          }),
+        ),
+      );
+      expect(maxActive).toBe(1);
+      expect(order).toEqual([1, 2, 3]);
+      expect(existsSync(lockPath)).toBe(false);
+    } finally {
+      rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  test("takes over a stale lock and times out on a live one", async () => {
+    const tempDir = makeTempDir();
+    const lockPath = join(tempDir, "a.lock");
+    try {
+      writeFileSync(lockPath, "crashed");
+      const past = new Date(Date.now() - 60_000);
+      utimesSync(lockPath, past, past);
+      expect(await withFileLock(lockPath, async () => "ok")).toBe("ok");
+
+      writeFileSync(lockPath, "held");
+      await expect(
+        withFileLock(lockPath, async () => "never", { timeoutMs: 50 }),
+      ).rejects.toThrow("Timed out waiting for lock");
+      expect(existsSync(lockPath)).toBe(true);
+    } finally {
+      rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  test("refreshes the lock file's mtime while it is held", async () => {
+    const tempDir = makeTempDir();
+    const lockPath = join(tempDir, "a.lock");
+    try {
+      const mtimes = await withFileLock(
+        lockPath,
+        async () => {
+          const first = statSync(lockPath).mtimeMs;
+          await new Promise((resolve) => setTimeout(resolve, 200));
+          return [first, statSync(lockPath).mtimeMs];
+        },
+        { staleMs: 60 },
+      );
+      expect(mtimes[1]).toBeGreaterThan(mtimes[0]);
+      expect(existsSync(lockPath)).toBe(false);
+    } finally {
+      rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -21,6 +21,15 @@ export function buildBotFsId(platform: string, botId: string): string {
   return fsId;
 }
 
+/** Inverse of `buildBotFsId`; platform names never contain "-". */
+export function botFsIdToAccountId(fsId: string): string | null {
+  const separator = fsId.indexOf("-");
+  if (separator <= 0 || separator === fsId.length - 1) {
+    return null;
+  }
+  return `${fsId.slice(0, separator)}:${fsId.slice(separator + 1)}`;
+}
+
 export function getBotIdAliasMap(): Map<string, string> {
   return new Map(getAliases());
 }
@@ -1,54 +1,596 @@
 import { randomInt } from "node:crypto";
 
-export type DiceSpec = {
-  count: number;
-  sides: number;
+const MAX_TERMS = 10;
+const MAX_DICE_PER_TERM = 100;
+const MAX_TOTAL_DICE = 200;
+const MAX_SIDES = 1000;
+const MAX_CONSTANT = 10_000;
+const MAX_EXPLOSIONS_PER_TERM = 100;
+const MAX_SKILL_VALUE = 100;
+
+export type DiceKeepMode = "kh" | "kl" | "dh" | "dl";
+export type DiceComparator = ">=" | "<=" | ">" | "<" | "=";
+
+export type DiceTerm =
+  | {
+      kind: "dice";
+      sign: 1 | -1;
+      count: number;
+      sides: number;
+      explode: boolean;
+      keep?: { mode: DiceKeepMode; count: number };
+      /** When set, the term counts rolls meeting the target instead of summing. */
+      success?: { comparator: DiceComparator; target: number };
+    }
+  | {
+      kind: "constant";
+      sign: 1 | -1;
+      value: number;
+      /** Character sheet name the value was read from. */
+      label?: string;
+    }
+  /** A character sheet value, replaced by a constant before rolling. */
+  | { kind: "reference"; sign: 1 | -1; name: string };
+
+export type DiceExpression = {
+  terms: DiceTerm[];
+  advantage?: "advantage" | "disadvantage";
+  /** Difficulty class for `vs N`; the roll succeeds when total >= versus. */
+  versus?: number;
 };
 
-export function parseDiceSpec(input: string): DiceSpec | null {
-  const trimmed = input.trim();
-  if (!trimmed) {
+export type SkillCheck = {
+  skill: string;
+  /** Missing until it is looked up on the character sheet by skill name. */
+  value?: number;
+};
+
+export type DiceCommand =
+  | { type: "roll"; expression: DiceExpression }
+  | { type: "check"; check: SkillCheck };
+
+export type DiceOutcome =
+  "critical" | "extreme" | "hard" | "success" | "failure" | "fumble";
+
+export type DieRoll = {
+  value: number;
+  dropped?: boolean;
+  exploded?: boolean;
+  success?: boolean;
+};
+
+export type DiceTermResult = {
+  term: DiceTerm;
+  rolls: DieRoll[];
+  /** Unsigned contribution of the term; the term sign is applied to total. */
+  value: number;
+};
+
+export type DiceRollResult = {
+  terms: DiceTermResult[];
+  total: number;
+  outcome?: DiceOutcome;
+};
+
+export type SkillCheckResult = {
+  roll: number;
+  outcome: DiceOutcome;
+};
+
+export type DiceCommandResult =
+  | { type: "roll"; expression: DiceExpression; result: DiceRollResult }
+  | { type: "check"; check: SkillCheck; result: SkillCheckResult };
+
+/** Returns an integer in [1, sides]. */
+export type DieRoller = (sides: number) => number;
+
+const defaultDieRoller: DieRoller = (sides) => randomInt(1, sides + 1);
+
+const TERM_PATTERN =
+  /(\d{1,3})?d(\d{1,4}|%)(!)?(?:(kh|kl|dh|dl|k)(\d{1,3})?)?(?:(>=|<=|>|<|=)(\d{1,4}))?|(\d{1,5})|([\p{L}_][\p{L}\p{N}_]{0,31})/uy;
+const VERSUS_PATTERN = /\s+(?:vs|dc)\s*(\d{1,4})$/;
+const ADVANTAGE_KEYWORDS: Record<string, "advantage" | "disadvantage"> = {
+  adv: "advantage",
+  advantage: "advantage",
+  优势: "advantage",
+  dis: "disadvantage",
+  disadvantage: "disadvantage",
+  劣势: "disadvantage",
+};
+
+/**
+ * Parse a dice expression such as `2d6+3`, `4d6kh3`, `3d6!`, `6d10>=7`,
+ * `d20+5 adv`, `d20+5 vs 15` or `d20+力量` (a character sheet reference,
+ * only alongside dice). Returns null for anything out of range.
+ */
+export function parseDiceExpression(input: string): DiceExpression | null {
+  let rest = input.trim().toLowerCase();
+  if (!rest) {
     return null;
   }
-  const match = trimmed.match(/^(\d{1,2})\s*[dD]\s*(\d{1,3})$/);
-  if (!match) {
+
+  let versus: number | undefined;
+  const versusMatch = rest.match(VERSUS_PATTERN);
+  if (versusMatch) {
+    versus = Number(versusMatch[1]);
+    rest = rest.slice(0, versusMatch.index).trim();
+  }
+
+  let advantage: DiceExpression["advantage"];
+  const words = rest.split(/\s+/);
+  const leading = ADVANTAGE_KEYWORDS[words[0] ?? ""];
+  const trailing = ADVANTAGE_KEYWORDS[words[words.length - 1] ?? ""];
+  if (words.length > 1 && (leading || trailing)) {
+    advantage = leading ?? trailing;
+    rest = (leading ? words.slice(1) : words.slice(0, -1)).join(" ");
+  }
+
+  const terms = parseTerms(rest.replace(/\s+/g, ""));
+  if (!terms) {
+    return null;
+  }
+  if (
+    terms.some((term) => term.kind === "reference") &&
+    !terms.some((term) => term.kind === "dice")
+  ) {
+    return null;
+  }
+  if (advantage && !applyAdvantage(terms, advantage)) {
+    return null;
+  }
+  const totalDice = terms.reduce(
+    (sum, term) => sum + (term.kind === "dice" ? term.count : 0),
+    0,
+  );
+  if (totalDice > MAX_TOTAL_DICE) {
     return null;
   }
 
-  const count = Number(match[1]);
-  const sides = Number(match[2]);
-  if (!Number.isInteger(count) || count < 1 || count > 10) {
+  return {
+    terms,
+    ...(advantage ? { advantage } : {}),
+    ...(versus !== undefined ? { versus } : {}),
+  };
+}
+
+/**
+ * Parse a CoC-style check body: `<skill> <value>`, `<skill><value>`,
+ * `<value>`, or `<skill>` alone to use the character sheet value.
+ */
+export function parseSkillCheck(input: string): SkillCheck | null {
+  const trimmed = input.trim();
+  const match = trimmed.match(/^(.*?)\s*(\d{1,3})$/);
+  if (!match) {
+    return trimmed && trimmed.length <= 32 ? { skill: trimmed } : null;
+  }
+  const value = Number(match[2]);
+  if (!Number.isInteger(value) || value < 1 || value > MAX_SKILL_VALUE) {
     return null;
   }
-  if (!Number.isInteger(sides) || sides < 1 || sides > 100) {
+  const skill = (match[1] ?? "").trim();
+  if (skill.length > 32) {
     return null;
   }
+  return { skill, value };
+}
+
+export function rollDiceExpression(
+  expression: DiceExpression,
+  roll: DieRoller = defaultDieRoller,
+): DiceRollResult {
+  const terms = expression.terms.map((term) => rollTerm(term, roll));
+  const total = terms.reduce(
+    (sum, result) => sum + result.term.sign * result.value,
+    0,
+  );
+  const result: DiceRollResult = { terms, total };
+  if (expression.versus !== undefined) {
+    result.outcome = resolveVersusOutcome(terms, total, expression.versus);
+  }
+  return result;
+}
+
+/** Call of Cthulhu 7e: 01 critical, 100 (or 96+ below 50) fumble. */
+export function rollSkillCheck(
+  check: SkillCheck,
+  roll: DieRoller = defaultDieRoller,
+): SkillCheckResult {
+  if (check.value === undefined) {
+    throw new Error(`Skill check value is not resolved: ${check.skill}`);
+  }
+  const value = roll(100);
+  return { roll: value, outcome: resolveSkillOutcome(value, check.value) };
+}
 
-  return { count, sides };
+/** Character sheet names the command needs before it can be rolled. */
+export function listDiceReferences(command: DiceCommand): string[] {
+  if (command.type === "check") {
+    return command.check.value === undefined ? [command.check.skill] : [];
+  }
+  return command.expression.terms.flatMap((term) =>
+    term.kind === "reference" ? [term.name] : [],
+  );
 }
 
-export function rollDice(spec: DiceSpec): { rolls: number[]; total: number } {
-  const rolls: number[] = [];
-  let total = 0;
-  for (let i = 0; i < spec.count; i += 1) {
-    const value = randomInt(1, spec.sides + 1);
-    rolls.push(value);
-    total += value;
+/**
+ * Replaces sheet references with the values lookup returns. Names lookup
+ * cannot resolve are listed in missing and left in place.
+ */
+export function resolveDiceReferences(
+  command: DiceCommand,
+  lookup: (name: string) => number | null,
+): { command: DiceCommand; missing: string[] } {
+  const missing: string[] = [];
+  if (command.type === "check") {
+    if (command.check.value !== undefined) {
+      return { command, missing };
+    }
+    const value = lookup(command.check.skill);
+    if (value === null) {
+      return { command, missing: [command.check.skill] };
+    }
+    const clamped = Math.max(1, Math.min(MAX_SKILL_VALUE, Math.round(value)));
+    return {
+      command: { type: "check", check: { ...command.check, value: clamped } },
+      missing,
+    };
   }
-  return { rolls, total };
+  const terms = command.expression.terms.map((term): DiceTerm => {
+    if (term.kind !== "reference") {
+      return term;
+    }
+    const value = lookup(term.name);
+    if (value === null) {
+      missing.push(term.name);
+      return term;
+    }
+    const rounded = Math.round(value);
+    return {
+      kind: "constant",
+      sign: rounded < 0 ? (term.sign === 1 ? -1 : 1) : term.sign,
+      value: Math.min(Math.abs(rounded), MAX_CONSTANT),
+      label: term.name,
+    };
+  });
+  return {
+    command: { type: "roll", expression: { ...command.expression, terms } },
+    missing,
+  };
+}
+
+export function rollDiceCommand(
+  command: DiceCommand,
+  roll: DieRoller = defaultDieRoller,
+): DiceCommandResult {
+  if (command.type === "check") {
+    return {
+      type: "check",
+      check: command.check,
+      result: rollSkillCheck(command.check, roll),
+    };
+  }
+  return {
+    type: "roll",
+    expression: command.expression,
+    result: rollDiceExpression(command.expression, roll),
+  };
+}
+
+export function formatDiceExpression(expression: DiceExpression): string {
+  const body = formatDiceTerms(expression.terms);
+  return expression.versus !== undefined
+    ? `${body} vs ${expression.versus}`
+    : body;
 }
 
+/**
+ * Render a roll with its per-term breakdown, e.g. `2d6+3 = [1, 6] + 3 = 10`.
+ * formatOutcome labels success levels; callers pass localized text.
+ */
 export function formatDiceResult(
-  spec: DiceSpec,
-  result: {
-    rolls: number[];
-    total: number;
-  },
+  rolled: DiceCommandResult,
+  formatOutcome: (outcome: DiceOutcome) => string = String,
 ): string {
-  const notation = `${spec.count}d${spec.sides}`;
-  if (result.rolls.length <= 1) {
-    const value = result.rolls[0] ?? 0;
-    return `${notation} = ${value}`;
+  if (rolled.type === "check") {
+    const prefix = rolled.check.skill ? `${rolled.check.skill} ` : "";
+    const outcome = formatOutcome(rolled.result.outcome);
+    return `${prefix}1d100 = ${rolled.result.roll} / ${rolled.check.value} → ${outcome}`;
+  }
+
+  const { expression, result } = rolled;
+  const notation = formatDiceTerms(expression.terms);
+  const [first] = result.terms;
+  let line: string;
+  if (result.terms.length === 1 && first && isPlainDiceTerm(first.term)) {
+    line =
+      first.rolls.length <= 1
+        ? `${notation} = ${first.value}`
+        : `${notation} = ${first.rolls.map((die) => die.value).join(" + ")} = ${result.total}`;
+  } else {
+    const breakdown = result.terms
+      .map((termResult, index) => {
+        const part =
+          termResult.term.kind === "constant"
+            ? String(termResult.term.value)
+            : `[${termResult.rolls.map(formatDieRoll).join(", ")}]`;
+        if (index === 0) {
+          return termResult.term.sign < 0 ? `-${part}` : part;
+        }
+        return `${termResult.term.sign < 0 ? "-" : "+"} ${part}`;
+      })
+      .join(" ");
+    line = `${notation} = ${breakdown} = ${result.total}`;
+  }
+
+  if (expression.versus !== undefined && result.outcome) {
+    const outcome = formatOutcome(result.outcome);
+    return `${line} vs ${expression.versus} → ${outcome}`;
+  }
+  return line;
+}
+
+function parseTerms(compact: string): DiceTerm[] | null {
+  const terms: DiceTerm[] = [];
+  let index = 0;
+  while (index < compact.length || terms.length === 0) {
+    let sign: 1 | -1 = 1;
+    const operator = compact[index];
+    if (operator === "+" || operator === "-") {
+      sign = operator === "-" ? -1 : 1;
+      index += 1;
+    } else if (terms.length > 0) {
+      return null;
+    }
+
+    TERM_PATTERN.lastIndex = index;
+    const match = TERM_PATTERN.exec(compact);
+    if (!match || match[0].length === 0) {
+      return null;
+    }
+    index = TERM_PATTERN.lastIndex;
+
+    const term = buildTerm(match, sign);
+    if (!term) {
+      return null;
+    }
+    terms.push(term);
+    if (terms.length > MAX_TERMS) {
+      return null;
+    }
+  }
+  return terms;
+}
+
+function buildTerm(match: RegExpExecArray, sign: 1 | -1): DiceTerm | null {
+  const name = match[9];
+  if (name !== undefined) {
+    return { kind: "reference", sign, name };
+  }
+  const constant = match[8];
+  if (constant !== undefined) {
+    const value = Number(constant);
+    return value <= MAX_CONSTANT ? { kind: "constant", sign, value } : null;
+  }
+
+  const count = match[1] === undefined ? 1 : Number(match[1]);
+  const sides = match[2] === "%" ? 100 : Number(match[2]);
+  if (count < 1 || count > MAX_DICE_PER_TERM) {
+    return null;
+  }
+  if (sides < 1 || sides > MAX_SIDES) {
+    return null;
+  }
+  const explode = match[3] === "!";
+  if (explode && sides < 2) {
+    return null;
+  }
+
+  const term: DiceTerm = { kind: "dice", sign, count, sides, explode };
+  if (match[4] !== undefined) {
+    const mode = (match[4] === "k" ? "kh" : match[4]) as DiceKeepMode;
+    const keepCount = match[5] === undefined ? 1 : Number(match[5]);
+    if (keepCount < 1 || keepCount > count) {
+      return null;
+    }
+    term.keep = { mode, count: keepCount };
+  }
+  if (match[6] !== undefined) {
+    term.success = {
+      comparator: match[6] as DiceComparator,
+      target: Number(match[7]),
+    };
+  }
+  return term;
+}
+
+function applyAdvantage(
+  terms: DiceTerm[],
+  advantage: "advantage" | "disadvantage",
+): boolean {
+  const target = terms.find(
+    (term) => term.kind === "dice" && term.count === 1 && !term.keep,
+  );
+  if (!target || target.kind !== "dice") {
+    return false;
+  }
+  target.count = 2;
+  target.keep = { mode: advantage === "advantage" ? "kh" : "kl", count: 1 };
+  return true;
+}
+
+function rollTerm(term: DiceTerm, roll: DieRoller): DiceTermResult {
+  if (term.kind === "constant") {
+    return { term, rolls: [], value: term.value };
+  }
+  if (term.kind === "reference") {
+    throw new Error(`Dice reference is not resolved: ${term.name}`);
+  }
+
+  const rolls: DieRoll[] = [];
+  let explosions = 0;
+  for (let i = 0; i < term.count; i += 1) {
+    let die: DieRoll = { value: roll(term.sides) };
+    rolls.push(die);
+    while (
+      term.explode &&
+      die.value === term.sides &&
+      explosions < MAX_EXPLOSIONS_PER_TERM
+    ) {
+      die.exploded = true;
+      explosions += 1;
+      die = { value: roll(term.sides) };
+      rolls.push(die);
+    }
+  }
+
+  if (term.keep) {
+    markDropped(rolls, term.keep);
+  }
+
+  const kept = rolls.filter((die) => !die.dropped);
+  if (term.success) {
+    let successes = 0;
+    for (const die of kept) {
+      die.success = compareDie(die.value, term.success);
+      successes += die.success ? 1 : 0;
+    }
+    return { term, rolls, value: successes };
+  }
+  return {
+    term,
+    rolls,
+    value: kept.reduce((sum, die) => sum + die.value, 0),
+  };
+}
+
+function markDropped(
+  rolls: DieRoll[],
+  keep: { mode: DiceKeepMode; count: number },
+): void {
+  const order = rolls
+    .map((die, index) => ({ value: die.value, index }))
+    .sort((a, b) => b.value - a.value || a.index - b.index);
+  const keepCount =
+    keep.mode === "kh" || keep.mode === "kl"
+      ? Math.min(keep.count, rolls.length)
+      : Math.max(rolls.length - keep.count, 0);
+  const keepHighest = keep.mode === "kh" || keep.mode === "dl";
+  const keptIndexes = new Set(
+    (keepHighest ? order : order.slice().reverse())
+      .slice(0, keepCount)
+      .map((entry) => entry.index),
+  );
+  rolls.forEach((die, index) => {
+    if (!keptIndexes.has(index)) {
+      die.dropped = true;
+    }
+  });
+}
+
+function compareDie(
+  value: number,
+  success: { comparator: DiceComparator; target: number },
+): boolean {
+  switch (success.comparator) {
+    case ">=":
+      return value >= success.target;
+    case "<=":
+      return value <= success.target;
+    case ">":
+      return value > success.target;
+    case "<":
+      return value < success.target;
+    case "=":
+      return value === success.target;
+  }
+}
+
+function resolveVersusOutcome(
+  terms: DiceTermResult[],
+  total: number,
+  versus: number,
+): DiceOutcome {
+  // D&D natural 20 / natural 1 on a single kept d20.
+  const d20 = terms.find(
+    (result) => result.term.kind === "dice" && result.term.sides === 20,
+  );
+  if (d20?.term.kind === "dice" && !d20.term.explode) {
+    const kept = d20.rolls.filter((die) => !die.dropped);
+    const [natural] = kept;
+    if (kept.length === 1 && natural?.value === 20) {
+      return "critical";
+    }
+    if (kept.length === 1 && natural?.value === 1) {
+      return "fumble";
+    }
+  }
+  return total >= versus ? "success" : "failure";
+}
+
+function resolveSkillOutcome(roll: number, value: number): DiceOutcome {
+  if (roll === 1) {
+    return "critical";
+  }
+  if (roll === 100 || (value < 50 && roll >= 96)) {
+    return "fumble";
+  }
+  if (roll <= Math.floor(value / 5)) {
+    return "extreme";
+  }
+  if (roll <= Math.floor(value / 2)) {
+    return "hard";
+  }
+  return roll <= value ? "success" : "failure";
+}
+
+function formatDiceTerms(terms: DiceTerm[]): string {
+  return terms
+    .map((term, index) => {
+      const notation =
+        term.kind === "constant"
+          ? (term.label ?? String(term.value))
+          : term.kind === "reference"
+            ? term.name
+            : formatDiceTerm(term);
+      if (term.sign < 0) {
+        return `-${notation}`;
+      }
+      return index === 0 ? notation : `+${notation}`;
+    })
+    .join("");
+}
+
+function isPlainDiceTerm(term: DiceTerm): boolean {
+  return (
+    term.kind === "dice" &&
+    term.sign > 0 &&
+    !term.explode &&
+    !term.keep &&
+    !term.success
+  );
+}
+
+function formatDiceTerm(term: Extract<DiceTerm, { kind: "dice" }>): string {
+  let notation = `${term.count}d${term.sides}`;
+  if (term.explode) {
+    notation += "!";
+  }
+  if (term.keep) {
+    notation += `${term.keep.mode}${term.keep.count}`;
+  }
+  if (term.success) {
+    notation += `${term.success.comparator}${term.success.target}`;
+  }
+  return notation;
+}
+
+function formatDieRoll(die: DieRoll): string {
+  let text = String(die.value);
+  if (die.exploded) {
+    text += "!";
+  }
+  if (die.success) {
+    text += "*";
   }
-  return `${notation} = ${result.rolls.join(" + ")} = ${result.total}`;
+  return die.dropped ? `(${text})` : text;
 }
@@ -0,0 +1,138 @@
+import { randomUUID } from "node:crypto";
+import {
+  link,
+  mkdir,
+  readFile,
+  rename,
+  stat,
+  unlink,
+  utimes,
+  writeFile,
+} from "node:fs/promises";
+import path from "node:path";
+
+export interface FileLockOptions {
+  /** Give up waiting after this long. */
+  timeoutMs?: number;
+  /**
+   * A lock file not touched for this long was left behind by a crashed
+   * holder; live holders refresh its mtime well within this window.
+   */
+  staleMs?: number;
+  retryMs?: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 10_000;
+const DEFAULT_STALE_MS = 30_000;
+const DEFAULT_RETRY_MS = 20;
+
+/** Callers in this process queue here first, so they get the lock in order. */
+const localQueues = new Map<string, Promise<unknown>>();
+
+/**
+ * Runs fn while holding lockPath. The lock file is created exclusively (wx),
+ * so it also excludes other processes sharing the directory, e.g. the adapter
+ * and the worker on the same data volume.
+ */
+export async function withFileLock<T>(
+  lockPath: string,
+  fn: () => Promise<T>,
+  options: FileLockOptions = {},
+): Promise<T> {
+  const key = path.resolve(lockPath);
+  const previous = localQueues.get(key) ?? Promise.resolve();
+  const next = previous
+    .catch(() => undefined)
+    .then(async () => {
+      const token = await acquireFileLock(lockPath, options);
+      const staleMs = options.staleMs ?? DEFAULT_STALE_MS;
+      const refresh = setInterval(() => {
+        void touchFileLock(lockPath, token);
+      }, staleMs / 3);
+      refresh.unref?.();
+      try {
+        return await fn();
+      } finally {
+        clearInterval(refresh);
+        await releaseFileLock(lockPath, token);
+      }
+    });
+  localQueues.set(key, next);
+  try {
+    return await next;
+  } finally {
+    if (localQueues.get(key) === next) {
+      localQueues.delete(key);
+    }
+  }
+}
+
+async function acquireFileLock(
+  lockPath: string,
+  options: FileLockOptions,
+): Promise<string> {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const staleMs = options.staleMs ?? DEFAULT_STALE_MS;
+  const retryMs = options.retryMs ?? DEFAULT_RETRY_MS;
+  const token = `${process.pid}:${randomUUID()}`;
+  const deadline = Date.now() + timeoutMs;
+  await mkdir(path.dirname(lockPath), { recursive: true });
+  for (;;) {
+    try {
+      await writeFile(lockPath, token, { encoding: "utf8", flag: "wx" });
+      return token;
+    } catch (err) {
+      if ((err as { code?: unknown })?.code !== "EEXIST") {
+        throw err;
+      }
+    }
+    const info = await stat(lockPath).catch(() => null);
+    if (info && Date.now() - info.mtimeMs > staleMs) {
+      await breakStaleFileLock(lockPath, token, staleMs);
+      continue;
+    }
+    if (Date.now() >= deadline) {
+      throw new Error(`Timed out waiting for lock ${lockPath}`);
+    }
+    await new Promise((resolve) => setTimeout(resolve, retryMs));
+  }
+}
+
+/**
+ * Moves the stale lock aside under a unique name, so two waiters can never
+ * both remove it. When the file moved turns out to be fresh (another waiter
+ * broke the stale one and locked first), it is put back.
+ */
+async function breakStaleFileLock(
+  lockPath: string,
+  token: string,
+  staleMs: number,
+): Promise<void> {
+  const asidePath = `${lockPath}.${token.replace(/[^\w-]/g, "_")}.stale`;
+  try {
+    await rename(lockPath, asidePath);
+  } catch {
+    return;
+  }
+  const info = await stat(asidePath).catch(() => null);
+  if (info && Date.now() - info.mtimeMs <= staleMs) {
+    await link(asidePath, lockPath).catch(() => undefined);
+  }
+  await unlink(asidePath).catch(() => undefined);
+}
+
+async function touchFileLock(lockPath: string, token: string): Promise<void> {
+  const current = await readFile(lockPath, "utf8").catch(() => null);
+  if (current === token) {
+    const now = new Date();
+    await utimes(lockPath, now, now).catch(() => undefined);
+  }
+}
+
+/** Leaves the file alone when a stale-lock takeover already replaced it. */
+async function releaseFileLock(lockPath: string, token: string): Promise<void> {
+  const current = await readFile(lockPath, "utf8").catch(() => null);
+  if (current === token) {
+    await unlink(lockPath).catch(() => undefined);
+  }
+}
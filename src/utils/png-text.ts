@@ -0,0 +1,134 @@
+const PNG_SIGNATURE = Buffer.from([
+  0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a,
+]);
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n += 1) {
+    let c = n;
+    for (let k = 0; k < 8; k += 1) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of bytes) {
+    crc = (CRC_TABLE[(crc ^ byte) & 0xff] ?? 0) ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+type PngChunk = { type: string; data: Buffer };
+
+export function isPng(buffer: Uint8Array): boolean {
+  return (
+    buffer.byteLength >= PNG_SIGNATURE.byteLength &&
+    PNG_SIGNATURE.equals(buffer.subarray(0, PNG_SIGNATURE.byteLength))
+  );
+}
+
+function readPngChunks(buffer: Buffer): PngChunk[] {
+  if (!isPng(buffer)) {
+    throw new Error("not a PNG file");
+  }
+  const chunks: PngChunk[] = [];
+  let offset = PNG_SIGNATURE.byteLength;
+  while (offset + 12 <= buffer.byteLength) {
+    const length = buffer.readUInt32BE(offset);
+    const end = offset + 12 + length;
+    if (end > buffer.byteLength) {
+      throw new Error("PNG chunk is truncated");
+    }
+    const type = buffer.toString("latin1", offset + 4, offset + 8);
+    chunks.push({
+      type,
+      data: buffer.subarray(offset + 8, offset + 8 + length),
+    });
+    offset = end;
+    if (type === "IEND") {
+      return chunks;
+    }
+  }
+  throw new Error("PNG is missing IEND");
+}
+
+function encodePngChunk(chunk: PngChunk): Buffer {
+  const header = Buffer.alloc(8);
+  header.writeUInt32BE(chunk.data.byteLength, 0);
+  header.write(chunk.type, 4, "latin1");
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(Buffer.concat([header.subarray(4), chunk.data])), 0);
+  return Buffer.concat([header, chunk.data, crc]);
+}
+
+/** Reads uncompressed tEXt chunks as keyword → text (latin1, per the PNG spec). */
+export function readPngTextChunks(buffer: Buffer): Map<string, string> {
+  const result = new Map<string, string>();
+  for (const chunk of readPngChunks(buffer)) {
+    if (chunk.type !== "tEXt") {
+      continue;
+    }
+    const separator = chunk.data.indexOf(0);
+    if (separator <= 0) {
+      continue;
+    }
+    const keyword = chunk.data.toString("latin1", 0, separator);
+    if (!result.has(keyword)) {
+      result.set(keyword, chunk.data.toString("latin1", separator + 1));
+    }
+  }
+  return result;
+}
+
+/**
+ * Returns a copy of the PNG with the given tEXt chunks set, replacing any
+ * existing chunk with the same keyword. Text must be latin1-safe (e.g. base64).
+ */
+export function writePngTextChunks(
+  buffer: Buffer,
+  entries: Record<string, string>,
+): Buffer {
+  const kept = withoutTextChunks(
+    readPngChunks(buffer),
+    new Set(Object.keys(entries)),
+  );
+  const added = Object.entries(entries).map(([keyword, text]) => ({
+    type: "tEXt",
+    data: Buffer.concat([
+      Buffer.from(keyword, "latin1"),
+      Buffer.from([0]),
+      Buffer.from(text, "latin1"),
+    ]),
+  }));
+  const iend = kept.length - 1;
+  return encodePng([...kept.slice(0, iend), ...added, ...kept.slice(iend)]);
+}
+
+/** Returns a copy of the PNG without tEXt chunks using any of the keywords. */
+export function removePngTextChunks(
+  buffer: Buffer,
+  keywords: readonly string[],
+): Buffer {
+  return encodePng(withoutTextChunks(readPngChunks(buffer), new Set(keywords)));
+}
+
+function withoutTextChunks(
+  chunks: PngChunk[],
+  keywords: ReadonlySet<string>,
+): PngChunk[] {
+  return chunks.filter(
+    (chunk) =>
+      chunk.type !== "tEXt" ||
+      !keywords.has(
+        chunk.data.toString("latin1", 0, Math.max(0, chunk.data.indexOf(0))),
+      ),
+  );
+}
+
+function encodePng(chunks: PngChunk[]): Buffer {
+  return Buffer.concat([PNG_SIGNATURE, ...chunks.map(encodePngChunk)]);
+}
@@ -0,0 +1,6 @@
+/** The value as a plain object; null for arrays, primitives and null. */
+export function asRecord(value: unknown): Record<string, unknown> | null {
+  return value && typeof value === "object" && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : null;
+}
@@ -12,6 +12,12 @@ export function redactSensitiveText(input: string): string {
     (token) => maskToken(token),
   );
 
+  // Telegram bot tokens, bare or inside Bot API URLs (`/bot<token>/...`)
+  out = out.replace(
+    /\b(bot)?(\d+:[A-Za-z0-9_-]{30,})/g,
+    (_m, prefix, token) => `${prefix ?? ""}${maskToken(String(token))}`,
+  );
+
   // OpenAI-style keys
   out = out.replace(/\bsk-[A-Za-z0-9]{10,}\b/g, (token) => maskToken(token));
 
@@ -56,6 +62,33 @@ export function redactSensitiveElements(
   return changed ? next : [...elements];
 }
 
+const SENSITIVE_KEY_PATTERN = /token|secret|password|api[_-]?key/i;
+
+/**
+ * Deep copy for JSON output: string values under token/secret-like keys
+ * (e.g. `nietaToken`) are masked, every other string goes through
+ * `redactSensitiveText`.
+ */
+export function redactSensitiveValue(value: unknown, key?: string): unknown {
+  if (typeof value === "string") {
+    return key && SENSITIVE_KEY_PATTERN.test(key)
+      ? maskToken(value)
+      : redactSensitiveText(value);
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redactSensitiveValue(item));
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([entryKey, entry]) => [
+        entryKey,
+        redactSensitiveValue(entry, entryKey),
+      ]),
+    );
+  }
+  return value;
+}
+
 function maskToken(token: string): string {
   const trimmed = token.trim();
   if (trimmed.length <= 12) {
@@ -0,0 +1,62 @@
+import { spawn } from "node:child_process";
+
+/** Reads `{ sources, flags, text }` from stdin and prints one 1/0 line per source. */
+const MATCHER_SCRIPT = `
+let input = "";
+process.stdin.setEncoding("utf8");
+process.stdin.on("data", (chunk) => (input += chunk));
+process.stdin.on("end", () => {
+  const { sources, flags, text } = JSON.parse(input);
+  for (const source of sources) {
+    let matched = false;
+    try {
+      matched = new RegExp(source, flags).test(text);
+    } catch {}
+    process.stdout.write(matched ? "1\\n" : "0\\n");
+  }
+});
+`;
+
+/**
+ * Tests each regex source against text in a child process that is killed
+ * once timeoutMs runs out. A running match cannot be interrupted in-process
+ * (terminating a worker thread does not stop it under Bun), so this is what
+ * bounds a backtracking-prone pattern. Sources the child did not get to
+ * before the deadline, or that failed to compile, count as no match.
+ */
+export async function testRegexesWithinBudget(
+  sources: string[],
+  flags: string,
+  text: string,
+  timeoutMs: number,
+): Promise<boolean[]> {
+  const results = sources.map(() => false);
+  if (sources.length === 0) {
+    return results;
+  }
+  return new Promise((resolve) => {
+    let output = "";
+    const child = spawn(process.execPath, ["-e", MATCHER_SCRIPT], {
+      stdio: ["pipe", "pipe", "ignore"],
+      timeout: timeoutMs,
+      killSignal: "SIGKILL",
+    });
+    child.stdout.setEncoding("utf8");
+    child.stdout.on("data", (chunk: string) => {
+      output += chunk;
+    });
+    const finish = () => {
+      output
+        .split("\n")
+        .slice(0, sources.length)
+        .forEach((line, i) => {
+          results[i] = line === "1";
+        });
+      resolve(results);
+    };
+    child.on("error", finish);
+    child.on("close", finish);
+    child.stdin.on("error", () => undefined);
+    child.stdin.end(JSON.stringify({ sources, flags, text }));
+  });
+}
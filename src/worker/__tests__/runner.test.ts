@@ -4,7 +4,7 @@ import type {
   OpencodeClient,
   OpencodeMessagePart,
 } from "../../opencode/server-client";
-import { OpencodeServerRunner } from "../runner";
+import { OpencodeServerRunner, type OpencodeRunProgress } from "../runner";
 
 type FakePromptResponse = {
   info?: Record<string, unknown>;
@@ -29,6 +29,9 @@ function createFakeClient(responses: FakePromptResponse[]): {
     async getSession() {
       return { id: "ses_test" };
     },
+    async abortSession() {
+      return true;
+    },
     async listMessages() {
       return [];
     },
@@ -335,6 +338,84 @@ describe("OpencodeServerRunner", () => {
     });
   });
 
+  test("sums token usage across continued steps", async () => {
+    const { client } = createFakeClient([
+      {
+        info: {
+          providerID: "anthropic",
+          modelID: "claude-sonnet",
+          cost: 0.01,
+          tokens: {
+            input: 1200,
+            output: 40,
+            reasoning: 0,
+            cache: { read: 800, write: 100 },
+          },
+        },
+        parts: [
+          { type: "tool", tool: "read", state: { status: "completed" } },
+          { type: "step-finish", reason: "tool-calls" },
+        ],
+      },
+      {
+        info: {
+          providerID: "anthropic",
+          modelID: "claude-sonnet",
+          cost: 0.02,
+          tokens: { input: 1500, output: 300, cache: { read: 1000 } },
+        },
+        parts: [{ type: "text", text: "final" }],
+      },
+    ]);
+    const runner = new OpencodeServerRunner(client);
+    const result = await runner.run({
+      job: {
+        id: "job",
+        data: {
+          botId: "bot",
+          groupId: "group",
+          sessionId: "session",
+          userId: "user",
+          key: 0,
+          gateToken: "gate",
+        },
+      },
+      session: {
+        meta: {
+          sessionId: "session",
+          groupId: "group",
+          botId: "bot",
+          ownerId: "user",
+          key: 0,
+          status: "running",
+          createdAt: new Date().toISOString(),
+          updatedAt: new Date().toISOString(),
+        },
+        groupPath: "/tmp",
+        workspacePath: "/tmp",
+      },
+      history: [],
+      request: {
+        directory: "/tmp/workspace",
+        sessionId: "ses_test",
+        body: {
+          parts: [{ type: "text", text: "user" }],
+        },
+      },
+    });
+
+    expect(result.usage).toEqual({
+      providerId: "anthropic",
+      modelId: "claude-sonnet",
+      inputTokens: 2700,
+      outputTokens: 340,
+      reasoningTokens: 0,
+      cacheReadTokens: 1800,
+      cacheWriteTokens: 100,
+      cost: 0.03,
+    });
+  });
+
   test("formats question tool as plain text and requests user input", async () => {
     const { client } = createFakeClient([
       {
@@ -526,4 +607,110 @@ describe("OpencodeServerRunner", () => {
       }),
     ).rejects.toThrow("Opencode run aborted before start");
   });
+
+  test("reports in-flight assistant parts through onProgress", async () => {
+    let prompting = false;
+    const client: OpencodeClient = {
+      async createSession() {
+        return { id: "ses_test" };
+      },
+      async deleteSession() {
+        return true;
+      },
+      async getSession() {
+        return { id: "ses_test" };
+      },
+      async abortSession() {
+        return true;
+      },
+      async listMessages() {
+        const previous = {
+          info: {
+            id: "msg_old",
+            sessionID: "ses_test",
+            role: "assistant" as const,
+          },
+          parts: [{ type: "text", text: "old reply" }],
+        };
+        if (!prompting) {
+          return [previous];
+        }
+        return [
+          previous,
+          {
+            info: {
+              id: "msg_new",
+              sessionID: "ses_test",
+              role: "assistant" as const,
+            },
+            parts: [
+              { type: "tool", tool: "webfetch", state: { status: "running" } },
+              { type: "text", text: "partial" },
+            ],
+          },
+        ];
+      },
+      async prompt(input) {
+        prompting = true;
+        await new Promise((resolve) => setTimeout(resolve, 60));
+        return {
+          info: {
+            id: "msg_new",
+            sessionID: input.sessionId,
+            role: "assistant",
+          },
+          parts: [{ type: "text", text: "partial answer" }],
+        };
+      },
+    };
+    const runner = new OpencodeServerRunner(client, {
+      progressPollIntervalMs: 10,
+    });
+    const progress: OpencodeRunProgress[] = [];
+
+    const result = await runner.run({
+      job: {
+        id: "job",
+        data: {
+          botId: "bot",
+          groupId: "group",
+          sessionId: "session",
+          userId: "user",
+          key: 0,
+          gateToken: "gate",
+        },
+      },
+      session: {
+        meta: {
+          sessionId: "session",
+          groupId: "group",
+          botId: "bot",
+          ownerId: "user",
+          key: 0,
+          status: "running",
+          createdAt: new Date().toISOString(),
+          updatedAt: new Date().toISOString(),
+        },
+        groupPath: "/tmp",
+        workspacePath: "/tmp",
+      },
+      history: [],
+      request: {
+        directory: "/tmp/workspace",
+        sessionId: "ses_test",
+        body: {
+          parts: [{ type: "text", text: "user" }],
+        },
+      },
+      onProgress: (update) => progress.push(update),
+    });
+
+    expect(result.output).toBe("partial answer");
+    expect(progress).toEqual([
+      {
+        text: "partial",
+        toolCalls: [{ tool: "webfetch", status: "running" }],
+      },
+    ]);
+  });
 });
@@ -34,6 +34,9 @@ const opencodeClient: OpencodeClient = {
   async getSession(input) {
     return { id: input.sessionId };
   },
+  async abortSession() {
+    return true;
+  },
   async listMessages() {
     return [];
   },
@@ -1,13 +1,14 @@
 import type { HistoryEntry, SessionInfo } from "../types/session";
 import type { SessionJob } from "../queue";
 import type { OpencodeRunResult } from "../opencode/output";
-import type { OpencodeToolCall } from "../opencode/output";
+import type { OpencodeRunUsage, OpencodeToolCall } from "../opencode/output";
 import type { UserLanguage } from "../user/state-store";
 import type {
   OpencodeClient,
   OpencodePromptBody,
   OpencodeAssistantMessageWithParts,
   OpencodeMessagePart,
+  OpencodeMessageWithParts,
 } from "../opencode/server-client";
 import { extractAssistantText } from "../opencode/server-client";
 import {
@@ -31,6 +32,21 @@ export interface OpencodeRunInput {
   request: OpencodeRequestSpec;
   language?: UserLanguage | null;
   signal?: AbortSignal;
+  /**
+   * Receives partial assistant text and tool calls while the run is still in
+   * flight. Progress is best-effort and never carries the final output.
+   */
+  onProgress?: (progress: OpencodeRunProgress) => void;
+}
+
+export interface OpencodeRunProgress {
+  text?: string;
+  toolCalls: OpencodeToolCall[];
+}
+
+export interface OpencodeServerRunnerOptions {
+  /** Poll interval for in-flight assistant parts when progress is requested. */
+  progressPollIntervalMs?: number;
 }
 
 export interface OpencodeRunner {
@@ -39,20 +55,32 @@ export interface OpencodeRunner {
 
 export class OpencodeServerRunner implements OpencodeRunner {
   private client: OpencodeClient;
+  private progressPollIntervalMs: number;
 
-  constructor(client: OpencodeClient) {
+  constructor(client: OpencodeClient, options?: OpencodeServerRunnerOptions) {
     this.client = client;
+    this.progressPollIntervalMs = options?.progressPollIntervalMs ?? 1_500;
   }
 
   async run(input: OpencodeRunInput): Promise<OpencodeRunResult> {
     if (input.signal?.aborted) {
       throw new Error("Opencode run aborted before start");
     }
+    const stopProgress = await this.startProgressPolling(input);
+    try {
+      return await this.runSteps(input);
+    } finally {
+      stopProgress();
+    }
+  }
+
+  private async runSteps(input: OpencodeRunInput): Promise<OpencodeRunResult> {
     const createdAt = new Date().toISOString();
     const maxSteps = 6;
 
     let requestBody: OpencodePromptBody = input.request.body;
     const toolCalls: OpencodeToolCall[] = [];
+    let usage: OpencodeRunUsage | undefined;
     for (let step = 0; step < maxSteps; step += 1) {
       const response = await this.client.prompt({
         directory: input.request.directory,
@@ -65,6 +93,7 @@ export class OpencodeServerRunner implements OpencodeRunner {
         throw responseError;
       }
 
+      usage = mergeRunUsage(usage, extractRunUsage(response));
       toolCalls.push(...extractToolCalls(response.parts ?? []));
       const assistantMessageId =
         typeof response.info?.id === "string" ? response.info.id : undefined;
@@ -90,6 +119,7 @@ export class OpencodeServerRunner implements OpencodeRunner {
             opencodeCallId: question.opencodeCallId,
           },
           toolCalls: toolCalls.length ? toolCalls : undefined,
+          usage,
         };
       }
 
@@ -101,6 +131,7 @@ export class OpencodeServerRunner implements OpencodeRunner {
             { role: "assistant", content: output, createdAt },
           ] satisfies HistoryEntry[],
           toolCalls: toolCalls.length ? toolCalls : undefined,
+          usage,
         };
       }
 
@@ -108,6 +139,7 @@ export class OpencodeServerRunner implements OpencodeRunner {
         return {
           opencodeAssistantMessageId: assistantMessageId,
           toolCalls: toolCalls.length ? toolCalls : undefined,
+          usage,
         };
       }
 
@@ -119,7 +151,70 @@ export class OpencodeServerRunner implements OpencodeRunner {
       };
     }
 
-    return { toolCalls: toolCalls.length ? toolCalls : undefined };
+    return { toolCalls: toolCalls.length ? toolCalls : undefined, usage };
+  }
+
+  /**
+   * The prompt endpoint blocks until the assistant finishes, so in-flight
+   * parts are read back by polling the messages created after the run began.
+   */
+  private async startProgressPolling(
+    input: OpencodeRunInput,
+  ): Promise<() => void> {
+    const onProgress = input.onProgress;
+    if (!onProgress || this.progressPollIntervalMs <= 0) {
+      return () => {};
+    }
+    const listMessages = async () =>
+      this.client.listMessages({
+        directory: input.request.directory,
+        sessionId: input.request.sessionId,
+        signal: input.signal,
+      });
+
+    let knownMessageIds: Set<string>;
+    try {
+      const existing = await listMessages();
+      knownMessageIds = new Set(existing.map((message) => message.info.id));
+    } catch {
+      return () => {};
+    }
+
+    let stopped = false;
+    let inFlight = false;
+    let lastSignature = "";
+    const poll = async () => {
+      if (inFlight) {
+        return;
+      }
+      inFlight = true;
+      try {
+        const progress = buildRunProgress(
+          await listMessages(),
+          knownMessageIds,
+        );
+        if (!progress || stopped) {
+          return;
+        }
+        const signature = JSON.stringify(progress);
+        if (signature === lastSignature) {
+          return;
+        }
+        lastSignature = signature;
+        onProgress(progress);
+      } catch {
+        // Best-effort: the blocking prompt call reports real failures.
+      } finally {
+        inFlight = false;
+      }
+    };
+    const timer = setInterval(() => {
+      void poll();
+    }, this.progressPollIntervalMs);
+    return () => {
+      stopped = true;
+      clearInterval(timer);
+    };
   }
 }
 
@@ -129,6 +224,38 @@ export class NoopOpencodeRunner implements OpencodeRunner {
   }
 }
 
+function buildRunProgress(
+  messages: OpencodeMessageWithParts[],
+  knownMessageIds: ReadonlySet<string>,
+): OpencodeRunProgress | null {
+  const fresh = messages.filter(
+    (message) =>
+      message.info.role === "assistant" &&
+      !knownMessageIds.has(message.info.id),
+  );
+  const latest = fresh[fresh.length - 1];
+  if (!latest) {
+    return null;
+  }
+  const toolCalls = fresh.flatMap((message) =>
+    extractToolCalls(message.parts ?? []),
+  );
+  const text = (latest.parts ?? [])
+    .filter(
+      (part) =>
+        part.type === "text" &&
+        typeof part.text === "string" &&
+        !part.synthetic,
+    )
+    .map((part) => String(part.text))
+    .join("")
+    .trim();
+  if (!text && toolCalls.length === 0) {
+    return null;
+  }
+  return { text: text || undefined, toolCalls };
+}
+
 function shouldContinueAfterToolCalls(
   response: OpencodeAssistantMessageWithParts,
 ): boolean {
@@ -347,6 +474,60 @@ function extractUrls(value: unknown): string[] {
   return [...urls];
 }
 
+/** Reads `tokens`, `cost` and model ids from an assistant message info. */
+function extractRunUsage(
+  response: OpencodeAssistantMessageWithParts,
+): OpencodeRunUsage | null {
+  const info = isRecord(response.info) ? response.info : null;
+  const tokens = info && isRecord(info.tokens) ? info.tokens : null;
+  if (!info || !tokens) {
+    return null;
+  }
+  const cache = isRecord(tokens.cache) ? tokens.cache : null;
+  return {
+    providerId: readString(info.providerID),
+    modelId: readString(info.modelID),
+    inputTokens: readCount(tokens.input),
+    outputTokens: readCount(tokens.output),
+    reasoningTokens: readCount(tokens.reasoning),
+    cacheReadTokens: readCount(cache?.read),
+    cacheWriteTokens: readCount(cache?.write),
+    cost: readCount(info.cost),
+  };
+}
+
+function mergeRunUsage(
+  total: OpencodeRunUsage | undefined,
+  next: OpencodeRunUsage | null,
+): OpencodeRunUsage | undefined {
+  if (!next) {
+    return total;
+  }
+  if (!total) {
+    return next;
+  }
+  return {
+    providerId: next.providerId ?? total.providerId,
+    modelId: next.modelId ?? total.modelId,
+    inputTokens: total.inputTokens + next.inputTokens,
+    outputTokens: total.outputTokens + next.outputTokens,
+    reasoningTokens: total.reasoningTokens + next.reasoningTokens,
+    cacheReadTokens: total.cacheReadTokens + next.cacheReadTokens,
+    cacheWriteTokens: total.cacheWriteTokens + next.cacheWriteTokens,
+    cost: total.cost + next.cost,
+  };
+}
+
+function readString(value: unknown): string | undefined {
+  return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+function readCount(value: unknown): number {
+  return typeof value === "number" && Number.isFinite(value) && value > 0
+    ? value
+    : 0;
+}
+
 function extractAssistantResponseError(
   response: OpencodeAssistantMessageWithParts,
 ): Error | null {
@@ -8,6 +8,9 @@ import { GroupFileRepository } from "../store/repository";
 import { SessionRepository } from "../session/repository";
 import type { HistoryStore } from "../session/history";
 import { NoopHistoryStore } from "../session/history";
+import type { UsageStore } from "../session/usage";
+import type { ModelCircuitBreaker } from "../session/model-circuit";
+import type { HistoryCompactor } from "../session/history-summary";
 import type { OpencodeRunner } from "./runner";
 import type { OpencodeClient } from "../opencode/server-client";
 import type { PlatformAdapter } from "../types/platform";
@@ -15,6 +18,8 @@ import { SessionActivityStore } from "../session/activity-store";
 import { assertValidSessionKey } from "../session/utils";
 import { assertSafePathSegment } from "../utils/path";
 import { SessionBufferStore } from "../session/buffer";
+import { incrementCounter } from "../metrics";
+import { RedisSessionCancelBus } from "../session/cancel";
 import { SessionProcessor } from "../session/processor";
 
 export interface SessionWorkerOptions {
@@ -22,6 +27,9 @@ export interface SessionWorkerOptions {
   dataDir: string;
   adapter: PlatformAdapter;
   historyStore?: HistoryStore;
+  historyCompactor?: HistoryCompactor;
+  usageStore?: UsageStore;
+  modelCircuit?: ModelCircuitBreaker;
   opencodeClient: OpencodeClient;
   onFatalError?: (err: unknown) => void | Promise<void>;
   redis: {
@@ -45,6 +53,7 @@ export class SessionWorker {
   private processor: SessionProcessor;
   private sessionRepository: SessionRepository;
   private bufferStore: SessionBufferStore;
+  private cancelBus: RedisSessionCancelBus;
   private recoveryQueue: BullmqSessionQueue;
   private recoveryTimer: ReturnType<typeof setInterval> | null = null;
   private recoveryRunning = false;
@@ -85,6 +94,10 @@ export class SessionWorker {
     });
     const bufferStore = new SessionBufferStore({ redisUrl: options.redis.url });
     this.bufferStore = bufferStore;
+    this.cancelBus = new RedisSessionCancelBus({
+      redisUrl: options.redis.url,
+      logger: this.logger,
+    });
     this.recoveryQueue = new BullmqSessionQueue({
       redisUrl: options.redis.url,
       queueName: options.queue.name,
@@ -96,6 +109,9 @@ export class SessionWorker {
       groupRepository,
       sessionRepository,
       historyStore,
+      historyCompactor: options.historyCompactor,
+      usageStore: options.usageStore,
+      modelCircuit: options.modelCircuit,
       opencodeClient: options.opencodeClient,
       runner: options.runner,
       activityIndex,
@@ -149,17 +165,34 @@ export class SessionWorker {
         }),
       ]);
 
+      await this.cancelBus.subscribe((request) => {
+        this.processor.cancel(request);
+      });
       this.startRecoveryLoop();
     })();
 
     return this.startPromise;
   }
 
+  /** False once the BullMQ run loop has stopped or crashed. */
+  isRunning(): boolean {
+    return this.worker.isRunning() && !this.fatalErrorHandled;
+  }
+
+  async pingRedis(): Promise<void> {
+    await this.workerConnection.ping();
+  }
+
+  getQueueJobCounts(): Promise<Record<string, number>> {
+    return this.recoveryQueue.getJobCounts();
+  }
+
   async stop(): Promise<void> {
     this.stopRecoveryLoop();
     await this.worker.close();
     await this.workerConnection.quit();
     await this.recoveryQueue.close();
+    await this.cancelBus.close();
     await this.processor.close();
   }
 
@@ -238,6 +271,9 @@ export class SessionWorker {
           recovered += 1;
         }
       }
+      if (recovered > 0) {
+        incrementCounter("buffer_recoveries_total", {}, recovered);
+      }
     } catch (err) {
       this.logger.warn({ err }, "Session buffer recovery scan failed");
     } finally {
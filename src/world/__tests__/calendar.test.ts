@@ -0,0 +1,163 @@
+import { describe, expect, test } from "bun:test";
+
+import {
+  advanceWorldTime,
+  DEFAULT_WORLD_CALENDAR,
+  formatWorldDate,
+  minutesToWorldDate,
+  parseWorldCalendar,
+  parseWorldDate,
+  parseWorldDuration,
+  worldDateToMinutes,
+} from "../calendar";
+
+const calendar = parseWorldCalendar(
+  JSON.stringify({
+    months: [
+      { name: "霜月", days: 30 },
+      { name: "花月", days: 28 },
+      { name: "炎月", days: 31 },
+    ],
+    hoursPerDay: 20,
+    weekdays: ["日曜", "月曜", "火曜"],
+    eras: [
+      { name: "第三纪元", startYear: 100 },
+      { name: "第二纪元", startYear: 1 },
+    ],
+  }),
+);
+
+describe("parseWorldCalendar", () => {
+  test("normalizes the definition and sorts eras", () => {
+    expect(calendar.hoursPerDay).toBe(20);
+    expect(calendar.eras.map((era) => era.name)).toEqual([
+      "第二纪元",
+      "第三纪元",
+    ]);
+  });
+
+  test("rejects unusable definitions", () => {
+    expect(() => parseWorldCalendar("[]")).toThrow("JSON object");
+    expect(() => parseWorldCalendar('{"months":[]}')).toThrow("non-empty");
+    expect(() =>
+      parseWorldCalendar('{"months":[{"name":"A","days":0}]}'),
+    ).toThrow("days between");
+    expect(() =>
+      parseWorldCalendar(
+        '{"months":[{"name":"A","days":3},{"name":"a","days":3}]}',
+      ),
+    ).toThrow("duplicate month");
+  });
+});
+
+describe("world dates", () => {
+  test("round-trips between dates and minutes", () => {
+    const date = { year: 101, month: 2, day: 28, hour: 19, minute: 59 };
+    expect(
+      minutesToWorldDate(calendar, worldDateToMinutes(calendar, date)),
+    ).toEqual(date);
+    expect(minutesToWorldDate(calendar, 0)).toEqual({
+      year: 1,
+      month: 1,
+      day: 1,
+      hour: 0,
+      minute: 0,
+    });
+  });
+
+  test("parses numeric, named and era dates", () => {
+    const expected = worldDateToMinutes(calendar, {
+      year: 102,
+      month: 2,
+      day: 3,
+      hour: 8,
+      minute: 30,
+    });
+    expect(parseWorldDate(calendar, "102-2-3 08:30")).toBe(expected);
+    expect(parseWorldDate(calendar, "102/花月/3 8:30")).toBe(expected);
+    expect(parseWorldDate(calendar, "第三纪元 3年 花月 3日 08:30")).toBe(
+      expected,
+    );
+    expect(parseWorldDate(calendar, "第三纪元 3-2-3 08:30")).toBe(expected);
+    expect(() => parseWorldDate(calendar, "102-2-29")).toThrow("between 1");
+    expect(() => parseWorldDate(calendar, "102-2-3 20:00")).toThrow("before");
+    expect(() => parseWorldDate(calendar, "黄金纪元 3年")).toThrow(
+      "unknown era",
+    );
+  });
+
+  test("resolves partial dates to the start or end of the period", () => {
+    const yearStart = parseWorldDate(calendar, "5");
+    const yearEnd = parseWorldDate(calendar, "5", { end: true });
+    expect(minutesToWorldDate(calendar, yearStart)).toMatchObject({
+      year: 5,
+      month: 1,
+      day: 1,
+    });
+    expect(minutesToWorldDate(calendar, yearEnd)).toEqual({
+      year: 5,
+      month: 3,
+      day: 31,
+      hour: 19,
+      minute: 59,
+    });
+    expect(
+      minutesToWorldDate(
+        calendar,
+        parseWorldDate(calendar, "5-花月", { end: true }),
+      ),
+    ).toMatchObject({ month: 2, day: 28, hour: 19 });
+  });
+
+  test("formats with era, month name and weekday", () => {
+    const at = parseWorldDate(calendar, "102-2-3 08:30");
+    expect(formatWorldDate(calendar, at)).toMatch(
+      /^第三纪元 3年 花月 3日（.曜） 08:30$/,
+    );
+    expect(formatWorldDate(DEFAULT_WORLD_CALENDAR, 0, "en")).toBe(
+      "1月 1, 1, 00:00",
+    );
+  });
+});
+
+describe("durations", () => {
+  test("parses mixed units in English and Chinese", () => {
+    expect(parseWorldDuration("1y 2mo 3d 4h 5m")).toEqual({
+      years: 1,
+      months: 2,
+      days: 3,
+      hours: 4,
+      minutes: 5,
+    });
+    expect(parseWorldDuration("2周3天2小时")).toMatchObject({
+      days: 17,
+      hours: 2,
+    });
+    expect(() => parseWorldDuration("soon")).toThrow("cannot read duration");
+    expect(() => parseWorldDuration("3 fortnights")).toThrow(
+      "unknown time unit",
+    );
+  });
+
+  test("advances months with the day clamped to the target month", () => {
+    const start = parseWorldDate(calendar, "1-1-30 10:00");
+    const next = advanceWorldTime(calendar, start, parseWorldDuration("1mo"));
+    expect(minutesToWorldDate(calendar, next)).toMatchObject({
+      year: 1,
+      month: 2,
+      day: 28,
+      hour: 10,
+    });
+    const wrapped = advanceWorldTime(
+      calendar,
+      start,
+      parseWorldDuration("2mo 1d 12h"),
+    );
+    expect(minutesToWorldDate(calendar, wrapped)).toMatchObject({
+      year: 2,
+      month: 1,
+      day: 1,
+      hour: 2,
+    });
+  });
+});
@@ -0,0 +1,190 @@
+import { describe, expect, test } from "bun:test";
+
+import {
+  applyCharacterSheetChanges,
+  createCharacterSheet,
+  extractCharacterStateBlocks,
+  formatCharacterSheet,
+  lookupCharacterSheetValue,
+  parseCharacterSheet,
+  parseCharacterSheetCommand,
+  parseCharacterSheetSchema,
+  resolveCharacterSheetField,
+} from "../character-sheet";
+
+const schema = parseCharacterSheetSchema(
+  JSON.stringify({
+    attributes: [
+      { key: "str", label: "力量", default: 50, min: 0, max: 99 },
+      { key: "dex", label: "敏捷", default: 40 },
+    ],
+    skills: [{ key: "spot", label: "侦查", default: 25 }],
+    resources: [{ key: "hp", label: "生命", max: 10 }],
+  }),
+);
+
+describe("character sheet schema", () => {
+  test("fills labels and clamps defaults", () => {
+    const parsed = parseCharacterSheetSchema(
+      JSON.stringify({
+        attributes: [{ key: "luck", default: 120, max: 100 }],
+      }),
+    );
+    expect(parsed.attributes).toEqual([
+      { key: "luck", label: "luck", default: 100, max: 100 },
+    ]);
+    expect(parsed.skills).toEqual([]);
+  });
+
+  test("rejects invalid schemas", () => {
+    expect(() => parseCharacterSheetSchema("nope")).toThrow("JSON");
+    expect(() => parseCharacterSheetSchema("{}")).toThrow("defines no");
+    expect(() =>
+      parseCharacterSheetSchema(
+        JSON.stringify({
+          attributes: [{ key: "hp" }],
+          resources: [{ key: "HP", max: 5 }],
+        }),
+      ),
+    ).toThrow("duplicate");
+    expect(() =>
+      parseCharacterSheetSchema(JSON.stringify({ resources: [{ key: "hp" }] })),
+    ).toThrow("max");
+    expect(() =>
+      parseCharacterSheetSchema(
+        JSON.stringify({ skills: [{ key: "a b", default: 1 }] }),
+      ),
+    ).toThrow("key");
+  });
+});
+
+describe("character sheet values", () => {
+  test("starts from defaults and follows schema changes", () => {
+    const sheet = createCharacterSheet(schema, 3);
+    expect(sheet.attributes).toEqual({ str: 50, dex: 40 });
+    expect(sheet.resources).toEqual({ hp: { current: 10, max: 10 } });
+
+    const stored = JSON.stringify({
+      ...sheet,
+      attributes: { str: 70, removed: 1 },
+      resources: { hp: { current: 4, max: 12 } },
+    });
+    const reloaded = parseCharacterSheet(schema, 3, stored);
+    expect(reloaded.attributes).toEqual({ str: 70, dex: 40 });
+    expect(reloaded.resources.hp).toEqual({ current: 4, max: 12 });
+    expect(parseCharacterSheet(schema, 3, "{broken").skills).toEqual({
+      spot: 25,
+    });
+  });
+
+  test("resolves fields by key or label", () => {
+    expect(resolveCharacterSheetField(schema, "力量")).toMatchObject({
+      section: "attributes",
+      key: "str",
+    });
+    expect(resolveCharacterSheetField(schema, "HP.max")).toMatchObject({
+      section: "resources",
+      part: "max",
+    });
+    expect(resolveCharacterSheetField(schema, "str.max")).toBeNull();
+    expect(resolveCharacterSheetField(schema, "charm")).toBeNull();
+
+    const sheet = createCharacterSheet(schema, 3);
+    expect(lookupCharacterSheetValue(schema, sheet, "侦查")).toBe(25);
+    expect(lookupCharacterSheetValue(schema, sheet, "hp")).toBe(10);
+  });
+
+  test("applies changes with clamping and reports skipped ones", () => {
+    const sheet = createCharacterSheet(schema, 3);
+    const result = applyCharacterSheetChanges(schema, sheet, [
+      { op: "adjust", field: "生命", delta: -15 },
+      { op: "set", field: "str", value: 150 },
+      { op: "set", field: "hp.max", value: 12 },
+      { op: "add_item", item: "火把", quantity: 2 },
+      { op: "add_item", item: "火把" },
+      { op: "remove_item", item: "火把", quantity: 1 },
+      { op: "add_status", status: "中毒", note: "每回合 -1" },
+      { op: "remove_status", status: "惊恐" },
+      { op: "adjust", field: "charm", delta: 1 },
+    ]);
+    expect(result.applied).toEqual([
+      "生命 10 → 0",
+      "力量 50 → 99",
+      "生命.max 10 → 12",
+      "+火把 ×2",
+      "+火把 ×1",
+      "-火把 ×1",
+      "+中毒",
+    ]);
+    expect(result.errors).toEqual([
+      'no status "惊恐"',
+      'unknown field "charm"',
+    ]);
+    expect(sheet.inventory).toEqual([{ name: "火把", quantity: 2 }]);
+    expect(formatCharacterSheet(schema, sheet)).toBe(
+      [
+        "属性：力量 99 · 敏捷 40",
+        "技能：侦查 25",
+        "资源：生命 0/12",
+        "物品：火把 ×2",
+        "状态：中毒（每回合 -1）",
+      ].join("\n"),
+    );
+  });
+});
+
+describe("character sheet commands", () => {
+  test("parses numbers, items and statuses", () => {
+    expect(parseCharacterSheetCommand("hp", "-3")).toEqual({
+      op: "adjust",
+      field: "hp",
+      delta: -3,
+    });
+    expect(parseCharacterSheetCommand("hp", "=-3")).toEqual({
+      op: "set",
+      field: "hp",
+      value: -3,
+    });
+    expect(parseCharacterSheetCommand("力量", "60")).toEqual({
+      op: "set",
+      field: "力量",
+      value: 60,
+    });
+    expect(parseCharacterSheetCommand("inventory", "+绳索 x2")).toEqual({
+      op: "add_item",
+      item: "绳索",
+      quantity: 2,
+    });
+    expect(parseCharacterSheetCommand("物品", "-绳索")).toEqual({
+      op: "remove_item",
+      item: "绳索",
+    });
+    expect(parseCharacterSheetCommand("status", "+中毒：每回合 -1")).toEqual({
+      op: "add_status",
+      status: "中毒",
+      note: "每回合 -1",
+    });
+    expect(() => parseCharacterSheetCommand("hp", "lots")).toThrow();
+  });
+
+  test("extracts character-state blocks from agent replies", () => {
+    const output = [
+      "你被毒箭擦伤。",
+      "",
+      "```character-state",
+      '{"changes":[{"op":"adjust","field":"hp","delta":-2},{"op":"fly"}]}',
+      "```",
+      "",
+      "```character-state",
+      '[{"op":"add_status","status":"中毒"}]',
+      "```",
+    ].join("\n");
+    const { content, changes } = extractCharacterStateBlocks(output);
+    expect(content.trim()).toBe("你被毒箭擦伤。");
+    expect(changes).toEqual([
+      { op: "adjust", field: "hp", delta: -2 },
+      { op: "add_status", status: "中毒" },
+    ]);
+    expect(extractCharacterStateBlocks("plain").content).toBe("plain");
+  });
+});
@@ -1,5 +1,11 @@
 import { describe, expect, test } from "bun:test";
-import { mkdtempSync, readFileSync, rmSync } from "node:fs";
+import {
+  mkdirSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from "node:fs";
 import { tmpdir } from "node:os";
 import { join } from "node:path";
 import pino from "pino";
@@ -252,3 +258,333 @@ describe("WorldFileStore stats", () => {
     }
   });
 });
+
+describe("WorldFileStore revisions", () => {
+  test("records one revision per changed write with author and source", async () => {
+    const tempDir = makeTempDir();
+    const logger = pino({ level: "silent" });
+    const store = new WorldFileStore({ logger, dataRoot: tempDir });
+
+    try {
+      expect(await store.listRevisions(1)).toEqual([]);
+
+      const first = await store.writeWorldCard(1, "# card v1", {
+        author: "u1",
+        source: "command",
+      });
+      expect(first).toMatchObject({
+        rev: 1,
+        file: "world-card.md",
+        author: "u1",
+        source: "command",
+      });
+      expect(first?.hash).toHaveLength(64);
+
+      expect(
+        await store.writeWorldCard(1, "# card v1\n", {
+          author: "u2",
+          source: "ai_session",
+        }),
+      ).toBeNull();
+
+      await store.writeRules(1, "# rules", { author: "u1", source: "import" });
+      await store.appendCanon(1, "chronicle.md", "## S1", {
+        author: "u3",
+        source: "approval",
+      });
+      await store.writeWorldCard(1, "# card v2", {
+        author: "u2",
+        source: "ai_session",
+      });
+
+      const revisions = await store.listRevisions(1);
+      expect(revisions.map((record) => [record.rev, record.file])).toEqual([
+        [4, "world-card.md"],
+        [3, "canon/chronicle.md"],
+        [2, "rules.md"],
+        [1, "world-card.md"],
+      ]);
+      expect(
+        (await store.listRevisions(1, { file: "world-card.md", limit: 1 }))[0]
+          ?.rev,
+      ).toBe(4);
+      expect((await store.readRevision(1, 3))?.content).toBe("## S1\n");
+
+      const previous = await store.readPreviousRevision(1, revisions[0]!);
+      expect(previous?.record.rev).toBe(1);
+    } finally {
+      rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  test("rollbackToRevision restores content as a new revision", async () => {
+    const tempDir = makeTempDir();
+    const logger = pino({ level: "silent" });
+    const store = new WorldFileStore({ logger, dataRoot: tempDir });
+
+    try {
+      await store.writeRules(1, "# rules v1", {
+        author: "u1",
+        source: "import",
+      });
+      await store.writeRules(1, "# rules v2", {
+        author: "u1",
+        source: "ai_session",
+      });
+
+      const restored = await store.rollbackToRevision(1, 1, "u1");
+      expect(restored).toMatchObject({
+        rev: 3,
+        file: "rules.md",
+        source: "rollback",
+        restoredFrom: 1,
+      });
+      expect(await store.readRules(1)).toBe("# rules v1\n");
+      expect((await store.readRevision(1, 2))?.content).toBe("# rules v2\n");
+      expect(await store.rollbackToRevision(1, 99, "u1")).toBeNull();
+    } finally {
+      rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  test("snapshots untracked files before the first revisioned write", async () => {
+    const tempDir = makeTempDir();
+    const logger = pino({ level: "silent" });
+    const store = new WorldFileStore({ logger, dataRoot: tempDir });
+    const origin = { author: "u1", source: "command" } as const;
+
+    try {
+      const canonDir = join(tempDir, "worlds", "1", "canon");
+      mkdirSync(canonDir, { recursive: true });
+      writeFileSync(join(tempDir, "worlds", "1", "rules.md"), "# legacy\n");
+      writeFileSync(join(canonDir, "chronicle.md"), "## old\n");
+
+      await store.writeRules(1, "# rules v2", origin);
+      await store.appendCanon(1, "chronicle.md", "## new", origin);
+      await store.writeRules(1, "# rules v3", origin);
+
+      const revisions = await store.listRevisions(1);
+      expect(
+        revisions.map((record) => [record.rev, record.file, record.source]),
+      ).toEqual([
+        [5, "rules.md", "command"],
+        [4, "canon/chronicle.md", "command"],
+        [3, "canon/chronicle.md", "baseline"],
+        [2, "rules.md", "command"],
+        [1, "rules.md", "baseline"],
+      ]);
+      expect((await store.readRevision(1, 1))?.content).toBe("# legacy\n");
+      expect((await store.readRevision(1, 3))?.content).toBe("## old\n");
+    } finally {
+      rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  test("keeps one baseline and ordered revisions under concurrent appends", async () => {
+    const tempDir = makeTempDir();
+    const logger = pino({ level: "silent" });
+    const store = new WorldFileStore({ logger, dataRoot: tempDir });
+    const origin = { author: "u1", source: "command" } as const;
+
+    try {
+      const canonDir = join(tempDir, "worlds", "1", "canon");
+      mkdirSync(canonDir, { recursive: true });
+      writeFileSync(join(canonDir, "chronicle.md"), "## old\n");
+
+      await Promise.all(
+        [1, 2, 3, 4].map((n) =>
+          store.appendCanon(1, "chronicle.md", `## entry ${n}`, origin),
+        ),
+      );
+
+      const revisions = (await store.listRevisions(1)).reverse();
+      expect(revisions.map((record) => [record.rev, record.source])).toEqual([
+        [1, "baseline"],
+        [2, "command"],
+        [3, "command"],
+        [4, "command"],
+        [5, "command"],
+      ]);
+      // Each revision holds exactly the file as of its own append.
+      for (const record of revisions.slice(1)) {
+        const content = (await store.readRevision(1, record.rev))?.content;
+        expect(content?.split("\n").filter(Boolean)).toHaveLength(record.rev);
+      }
+    } finally {
+      rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("WorldFileStore submission comments", () => {
+  test("appends and lists comments per submission", async () => {
+    const tempDir = makeTempDir();
+    const logger = pino({ level: "silent" });
+    const store = new WorldFileStore({ logger, dataRoot: tempDir });
+
+    try {
+      expect(await store.listSubmissionComments(1, 7)).toEqual([]);
+      await store.appendSubmissionComment(1, 7, {
+        userId: "u1",
+        content: "支持",
+        createdAt: "2026-10-01T00:00:00.000Z",
+      });
+      await store.appendSubmissionComment(1, 7, {
+        userId: "u2",
+        content: "第二段需要改",
+        createdAt: "2026-10-01T00:01:00.000Z",
+      });
+      await store.appendSubmissionComment(1, 8, {
+        userId: "u3",
+        content: "other",
+        createdAt: "2026-10-01T00:02:00.000Z",
+      });
+
+      const comments = await store.listSubmissionComments(1, 7);
+      expect(comments.map((comment) => comment.userId)).toEqual(["u1", "u2"]);
+      expect(await store.listSubmissionIds(1, "pending", 10)).toEqual([]);
+    } finally {
+      rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("WorldFileStore search index", () => {
+  test("updates incrementally on canon writes and approvals", async () => {
+    const tempDir = makeTempDir();
+    const logger = pino({ level: "silent" });
+    const store = new WorldFileStore({ logger, dataRoot: tempDir });
+    const origin = { author: "u1", source: "command" } as const;
+
+    try {
+      await store.writeWorldCard(1, "# 世界卡\n- 世界名称：灰烬\n", origin);
+      await store.appendCanon(
+        1,
+        "chronicle.md",
+        "## 黑塔之战\n守夜人击退灰潮。",
+        origin,
+      );
+      let hits = await store.searchWorld(1, "守夜人");
+      expect(hits[0]?.anchor).toBe("canon/chronicle.md#黑塔之战");
+
+      await store.writeSubmission(1, "pending", 1, "# 提案\n星港开放。\n");
+      expect(await store.searchWorld(1, "星港")).toEqual([]);
+      await store.moveSubmission({
+        worldId: 1,
+        from: "pending",
+        to: "approved",
+        submissionId: 1,
+      });
+      hits = await store.searchWorld(1, "星港");
+      expect(hits[0]?.file).toBe("submissions/approved/1.md");
+
+      await store.writeCanon(1, "chronicle.md", "# 编年史\n", origin);
+      expect(await store.searchWorld(1, "守夜人")).toEqual([]);
+    } finally {
+      rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  test("rebuilds a missing index from disk", async () => {
+    const tempDir = makeTempDir();
+    const logger = pino({ level: "silent" });
+    const store = new WorldFileStore({ logger, dataRoot: tempDir });
+
+    try {
+      await store.writeRules(1, "# 规则\n禁止时间旅行。", {
+        author: "u1",
+        source: "command",
+      });
+      rmSync(join(tempDir, "worlds", "1", "search-index.json"));
+      const hits = await store.searchWorld(1, "时间旅行");
+      expect(hits[0]?.file).toBe("rules.md");
+      expect(
+        readFileSync(join(tempDir, "worlds", "1", "search-index.json"), "utf8"),
+      ).toContain("rules.md");
+    } finally {
+      rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("WorldFileStore lorebook", () => {
+  test("serializes concurrent updates", async () => {
+    const tempDir = makeTempDir();
+    const logger = pino({ level: "silent" });
+    const store = new WorldFileStore({ logger, dataRoot: tempDir });
+
+    try {
+      expect((await store.readWorldLorebook(1)).entries).toEqual([]);
+      const ids = await Promise.all(
+        ["a", "b", "c"].map((key) =>
+          store.updateWorldLorebook(1, (lorebook) => {
+            const id = lorebook.nextId;
+            lorebook.nextId += 1;
+            lorebook.entries.push({
+              id,
+              title: key,
+              keys: [key],
+              content: key,
+              priority: 100,
+              budgetBytes: 0,
+              enabled: true,
+              authorId: "u1",
+              createdAt: "t",
+              updatedAt: "t",
+            });
+            return id;
+          }),
+        ),
+      );
+      expect(ids).toEqual([1, 2, 3]);
+      const stored = await store.readWorldLorebook(1);
+      expect(stored.nextId).toBe(4);
+      expect(stored.entries.map((entry) => entry.title)).toEqual([
+        "a",
+        "b",
+        "c",
+      ]);
+    } finally {
+      rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("WorldFileStore character sheets", () => {
+  test("needs a schema and serializes concurrent updates", async () => {
+    const tempDir = makeTempDir();
+    const logger = pino({ level: "silent" });
+    const store = new WorldFileStore({ logger, dataRoot: tempDir });
+
+    try {
+      expect(await store.readCharacterSheet(1, 7)).toBeNull();
+      expect(
+        await store.updateCharacterSheet(1, 7, () => "unreachable"),
+      ).toBeNull();
+
+      await store.writeCharacterSheetSchema(1, {
+        version: 1,
+        attributes: [],
+        skills: [],
+        resources: [{ key: "hp", label: "HP", max: 10 }],
+      });
+      await Promise.all(
+        [1, 2, 3].map(() =>
+          store.updateCharacterSheet(1, 7, (sheet) => {
+            const hp = sheet.resources.hp;
+            if (hp) {
+              hp.current -= 1;
+            }
+          }),
+        ),
+      );
+      const loaded = await store.readCharacterSheet(1, 7);
+      expect(loaded?.sheet.resources.hp).toEqual({ current: 7, max: 10 });
+      expect(
+        (await store.readCharacterSheet(1, 8))?.sheet.resources.hp,
+      ).toEqual({ current: 10, max: 10 });
+    } finally {
+      rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,167 @@
+import { describe, expect, test } from "bun:test";
+
+import {
+  formatWorldLoreContext,
+  parseWorldLoreImport,
+  parseWorldLorebook,
+  selectWorldLoreInjections,
+  splitWorldLoreKeys,
+  validateWorldLoreRegex,
+  worldLoreEntryMatches,
+  type WorldLoreEntry,
+} from "../lorebook";
+
+function entry(
+  id: number,
+  overrides: Partial<WorldLoreEntry> = {},
+): WorldLoreEntry {
+  return {
+    id,
+    title: `Entry ${id}`,
+    keys: [],
+    content: `content ${id}`,
+    priority: 100,
+    budgetBytes: 0,
+    enabled: true,
+    authorId: "u",
+    createdAt: "t",
+    updatedAt: "t",
+    ...overrides,
+  };
+}
+
+describe("world lorebook", () => {
+  test("matches keys case-insensitively and optional regexes", async () => {
+    const dragon = entry(1, { keys: ["Dragon", "巨龙"] });
+    expect(await worldLoreEntryMatches(dragon, "a DRAGON appears")).toBe(true);
+    expect(await worldLoreEntryMatches(dragon, "远方传来巨龙的吼声")).toBe(
+      true,
+    );
+    expect(await worldLoreEntryMatches(dragon, "a drake appears")).toBe(false);
+
+    const regex = entry(2, { regex: "\\bking(dom)?\\b" });
+    expect(await worldLoreEntryMatches(regex, "The Kingdom falls")).toBe(true);
+    expect(await worldLoreEntryMatches(regex, "thinking")).toBe(false);
+
+    expect(
+      await worldLoreEntryMatches({ ...dragon, enabled: false }, "dragon"),
+    ).toBe(false);
+    expect(validateWorldLoreRegex("(")).not.toBeNull();
+    expect(validateWorldLoreRegex("(a+)+$")).not.toBeNull();
+    expect(validateWorldLoreRegex("(?:a|aa)*b")).not.toBeNull();
+    expect(validateWorldLoreRegex("((x\\w*))*")).not.toBeNull();
+    expect(validateWorldLoreRegex("(king|queen)s?\\b[a+]+")).toBeNull();
+    expect(validateWorldLoreRegex("\\(a+\\)+")).toBeNull();
+    expect(
+      await worldLoreEntryMatches(
+        entry(5, { regex: "dragon" }),
+        `dragon ${"x".repeat(5_000)}`,
+      ),
+    ).toBe(false);
+    expect(splitWorldLoreKeys("a, b，c、a")).toEqual(["a", "b", "c"]);
+  });
+
+  test("gives up on a backtracking regex after the time budget", async () => {
+    const slow = entry(2, { keys: ["never"], regex: "\\w*\\w*\\w*\\w*!" });
+    expect(validateWorldLoreRegex(slow.regex ?? "")).toBeNull();
+    const startedAt = Date.now();
+    const selected = await selectWorldLoreInjections(
+      [entry(1, { regex: "^a{3}" }), slow, entry(3, { keys: ["aaa"] })],
+      "a".repeat(300),
+      1000,
+    );
+    expect(Date.now() - startedAt).toBeLessThan(5_000);
+    expect(selected.map((item) => item.entry.id)).toEqual([1, 3]);
+  });
+
+  test("injects by priority within the byte budget", async () => {
+    const entries = [
+      entry(1, { keys: ["x"], priority: 10, content: "low" }),
+      entry(2, { keys: ["x"], priority: 50, content: "a".repeat(100) }),
+      entry(3, { keys: ["x"], priority: 90, content: "high" }),
+      entry(4, { keys: ["y"], priority: 99, content: "untriggered" }),
+    ];
+    const selected = await selectWorldLoreInjections(entries, "x", 60);
+    // Entry 2 does not fit and is skipped; entry 1 still does.
+    expect(selected.map((item) => item.entry.id)).toEqual([3, 1]);
+    expect(formatWorldLoreContext(selected)).toBe(
+      "### Entry 3\nhigh\n\n### Entry 1\nlow",
+    );
+    expect(await selectWorldLoreInjections(entries, "x", 0)).toEqual([]);
+  });
+
+  test("caps each entry at its own budget", async () => {
+    const [selected] = await selectWorldLoreInjections(
+      [entry(1, { keys: ["龙"], content: "龙".repeat(10), budgetBytes: 10 })],
+      "龙",
+      1000,
+    );
+    expect(selected?.content).toBe("龙龙…");
+  });
+
+  test("imports Tavern character books and SillyTavern world info", () => {
+    const tavern = parseWorldLoreImport(
+      JSON.stringify({
+        spec: "chara_card_v2",
+        data: {
+          character_book: {
+            entries: [
+              {
+                keys: ["lute"],
+                content: "A gift from the elves.",
+                enabled: true,
+                insertion_order: 5,
+                name: "Silver Lute",
+              },
+              { keys: ["x"], content: "" },
+            ],
+          },
+        },
+      }),
+    );
+    expect(tavern).toEqual([
+      {
+        title: "Silver Lute",
+        keys: ["lute"],
+        regex: undefined,
+        content: "A gift from the elves.",
+        priority: 5,
+        budgetBytes: 0,
+        enabled: true,
+      },
+    ]);
+
+    const sillyTavern = parseWorldLoreImport(
+      JSON.stringify({
+        entries: {
+          "0": {
+            key: ["王城"],
+            keysecondary: ["王都"],
+            comment: "王城",
+            content: "王城位于北方。",
+            order: 200,
+            disable: true,
+          },
+        },
+      }),
+    );
+    expect(sillyTavern[0]).toMatchObject({
+      title: "王城",
+      keys: ["王城", "王都"],
+      priority: 200,
+      enabled: false,
+    });
+
+    expect(() => parseWorldLoreImport("{}")).toThrow();
+    expect(() => parseWorldLoreImport("nope")).toThrow();
+  });
+
+  test("parses stored lorebooks and repairs nextId", () => {
+    const parsed = parseWorldLorebook(
+      JSON.stringify({ version: 1, nextId: 1, entries: [entry(4)] }),
+    );
+    expect(parsed.nextId).toBe(5);
+    expect(parseWorldLorebook("garbage").entries).toEqual([]);
+    expect(parseWorldLorebook(null).nextId).toBe(1);
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, expect, test } from "bun:test";
+
+import {
+  buildWorldPermissionDeniedMessage,
+  canPerformWorldAction,
+  canViewWorld,
+  resolveWorldRole,
+  worldRoleAllows,
+  type WorldRoleLookup,
+} from "../permissions";
+import { parseWorldStaff } from "../store-parsers";
+import type { WorldStaffRole } from "../store-types";
+
+function createLookup(input: {
+  staff?: Record<string, WorldStaffRole>;
+  members?: string[];
+}): WorldRoleLookup {
+  return {
+    getWorldStaffRole: async (_worldId, userId) =>
+      input.staff?.[userId] ?? null,
+    isMember: async (_worldId, userId) =>
+      (input.members ?? []).includes(userId),
+  };
+}
+
+const draft = { id: 1, creatorId: "owner", status: "draft" as const };
+const active = { id: 1, creatorId: "owner", status: "active" as const };
+
+describe("world permissions", () => {
+  test("resolves owner, staff, member and outsider roles", async () => {
+    const lookup = createLookup({
+      staff: { ed: "editor", mod: "moderator", owner: "moderator" },
+      members: ["ed", "mem"],
+    });
+    expect(await resolveWorldRole(lookup, draft, "owner")).toBe("owner");
+    expect(await resolveWorldRole(lookup, draft, "ed")).toBe("editor");
+    expect(await resolveWorldRole(lookup, draft, "mod")).toBe("moderator");
+    expect(await resolveWorldRole(lookup, draft, "mem")).toBe("member");
+    expect(await resolveWorldRole(lookup, draft, "other")).toBeNull();
+    expect(await resolveWorldRole(lookup, draft, "")).toBeNull();
+  });
+
+  test("keeps staff management with the owner", () => {
+    expect(worldRoleAllows("owner", "manage_staff")).toBe(true);
+    expect(worldRoleAllows("editor", "manage_staff")).toBe(false);
+    expect(worldRoleAllows("editor", "archive")).toBe(false);
+    expect(worldRoleAllows("editor", "transfer")).toBe(false);
+    expect(worldRoleAllows("editor", "rollback")).toBe(true);
+    expect(worldRoleAllows("moderator", "review_submission")).toBe(true);
+    expect(worldRoleAllows("moderator", "edit")).toBe(false);
+    expect(worldRoleAllows("member", "vote_submission")).toBe(true);
+    expect(worldRoleAllows("member", "view_draft")).toBe(false);
+    expect(worldRoleAllows(null, "vote_submission")).toBe(false);
+  });
+
+  test("limits drafts to staff but shows published worlds to everyone", async () => {
+    const lookup = createLookup({ staff: { mod: "moderator" } });
+    expect(await canViewWorld(lookup, draft, "mod")).toBe(true);
+    expect(await canViewWorld(lookup, draft, "other")).toBe(false);
+    expect(await canViewWorld(lookup, active, "other")).toBe(true);
+    expect(await canPerformWorldAction(lookup, active, "mod", "publish")).toBe(
+      false,
+    );
+  });
+
+  test("names the roles that may perform an action", () => {
+    expect(buildWorldPermissionDeniedMessage("manage_staff")).toBe(
+      "无权限：只有世界创作者可以执行该操作。",
+    );
+    expect(buildWorldPermissionDeniedMessage("edit", "en")).toBe(
+      "Permission denied: only the world owner / editor can do this.",
+    );
+  });
+
+  test("parses staff hashes and drops unknown roles", () => {
+    expect(
+      parseWorldStaff({ b: "moderator", c: "editor", a: "admin", d: "editor" }),
+    ).toEqual([
+      { userId: "c", role: "editor" },
+      { userId: "d", role: "editor" },
+      { userId: "b", role: "moderator" },
+    ]);
+  });
+});
@@ -0,0 +1,156 @@
+import { describe, expect, test } from "bun:test";
+
+import {
+  applyWorldQuestChanges,
+  createEmptyWorldQuestLog,
+  extractQuestUpdateBlocks,
+  formatWorldQuestContext,
+  formatWorldQuestDetail,
+  formatWorldQuestSummary,
+  joinWorldQuest,
+  leaveWorldQuest,
+  parseWorldQuestLog,
+  type WorldQuestLog,
+} from "../quests";
+
+function seedLog(): WorldQuestLog {
+  const log = createEmptyWorldQuestLog();
+  applyWorldQuestChanges(
+    log,
+    [
+      {
+        op: "create",
+        title: "失踪的商队",
+        giver: "玛尔塔",
+        objectives: ["找到营地", "查明袭击者"],
+        rewards: ["200 金币"],
+        deadline: "七日之内",
+      },
+    ],
+    { createdBy: "ai" },
+  );
+  return log;
+}
+
+describe("extractQuestUpdateBlocks", () => {
+  test("strips blocks and keeps valid changes only", () => {
+    const output = [
+      "玛尔塔把地图推到你面前。",
+      "",
+      "```quest-update",
+      JSON.stringify({
+        changes: [
+          { op: "create", title: "失踪的商队", objectives: ["找到营地"] },
+          { op: "join", quest: "Q1" },
+          { op: "complete_objective", quest: 1, objective: 0 },
+          { op: "teleport", quest: 1 },
+        ],
+      }),
+      "```",
+    ].join("\n");
+    const { content, changes } = extractQuestUpdateBlocks(output);
+    expect(content.trim()).toBe("玛尔塔把地图推到你面前。");
+    expect(changes).toEqual([
+      {
+        op: "create",
+        title: "失踪的商队",
+        objectives: ["找到营地"],
+        rewards: [],
+      },
+      { op: "join", quest: 1 },
+    ]);
+    expect(extractQuestUpdateBlocks("普通回复").content).toBe("普通回复");
+  });
+});
+
+describe("applyWorldQuestChanges", () => {
+  test("creates, advances and closes quests by id or title", () => {
+    const log = seedLog();
+    const result = applyWorldQuestChanges(
+      log,
+      [
+        { op: "join", quest: "失踪的商队" },
+        { op: "complete_objective", quest: 1, objective: 1 },
+        { op: "add_objective", quest: 1, text: "护送幸存者回城" },
+        { op: "fail_objective", quest: 1, objective: 9 },
+        { op: "complete", quest: 1 },
+        { op: "update", quest: 1, deadline: "明天" },
+      ],
+      {
+        createdBy: "ai",
+        participant: { userId: "u1", characterId: 3, characterName: "艾琳" },
+      },
+    );
+    expect(result.applied).toEqual([
+      "Q1 +u1",
+      "Q1.1 [x]",
+      "Q1.3 +护送幸存者回城",
+      "Q1 completed",
+    ]);
+    expect(result.errors).toEqual([
+      "objective not found: Q1.9",
+      "Q1 is already completed",
+    ]);
+    const quest = log.quests[0];
+    expect(quest?.status).toBe("completed");
+    expect(quest?.deadline).toBe("七日之内");
+    expect(quest?.participants.map((item) => item.characterId)).toEqual([3]);
+    expect(log.nextId).toBe(2);
+  });
+
+  test("round-trips through the stored JSON", () => {
+    const log = seedLog();
+    const parsed = parseWorldQuestLog(JSON.stringify(log));
+    expect(parsed).toEqual(log);
+    expect(parseWorldQuestLog("{broken")).toEqual(createEmptyWorldQuestLog());
+  });
+});
+
+describe("joinWorldQuest / leaveWorldQuest", () => {
+  test("tracks participants and refuses closed quests", () => {
+    const log = seedLog();
+    const participant = { userId: "u1", joinedAt: "2026-01-01T00:00:00Z" };
+    expect(joinWorldQuest(log, 1, participant).kind).toBe("joined");
+    expect(joinWorldQuest(log, 1, participant).kind).toBe("already");
+    expect(joinWorldQuest(log, 2, participant).kind).toBe("missing");
+    expect(leaveWorldQuest(log, 1, "u2").kind).toBe("not_participant");
+    expect(leaveWorldQuest(log, 1, "u1").kind).toBe("left");
+
+    applyWorldQuestChanges(log, [{ op: "fail", quest: 1 }], {
+      createdBy: "ai",
+    });
+    expect(joinWorldQuest(log, 1, participant).kind).toBe("closed");
+  });
+});
+
+describe("formatting", () => {
+  test("renders summary, detail and prompt context", () => {
+    const log = seedLog();
+    joinWorldQuest(log, 1, {
+      userId: "u1",
+      joinedAt: "2026-01-01T00:00:00Z",
+    });
+    const quest = log.quests[0]!;
+    expect(formatWorldQuestSummary(quest)).toBe(
+      "Q1 [进行中] 失踪的商队（目标 0/2 · 参与者 1）",
+    );
+    expect(formatWorldQuestDetail(quest, "en", { mentionUsers: true })).toBe(
+      [
+        "Q1 失踪的商队 [Open]",
+        "Giver: 玛尔塔",
+        "Deadline: 七日之内",
+        "Rewards: 200 金币",
+        "Participants: <@u1>",
+        "Objectives:",
+        "- [ ] 1. 找到营地",
+        "- [ ] 2. 查明袭击者",
+      ].join("\n"),
+    );
+    expect(formatWorldQuestContext(log)).toContain("参与者：u1");
+
+    applyWorldQuestChanges(log, [{ op: "complete", quest: 1 }], {
+      createdBy: "ai",
+    });
+    expect(formatWorldQuestContext(log)).toBe("");
+  });
+});
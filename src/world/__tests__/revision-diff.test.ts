@@ -0,0 +1,24 @@
+import { describe, expect, test } from "bun:test";
+
+import { buildLineDiff } from "../revision-diff";
+
+describe("buildLineDiff", () => {
+  test("marks added and removed lines with surrounding context", () => {
+    const before = ["a", "b", "c", "d", "e", "f", "g"].join("\n");
+    const after = ["a", "b", "c", "D", "e", "f", "g", "h"].join("\n");
+
+    const diff = buildLineDiff(before, after, { context: 1 });
+    expect(diff).toEqual({
+      lines: [" c", "-d", "+D", " e", "@@", " g", "+h"],
+      added: 2,
+      removed: 1,
+      truncated: false,
+    });
+  });
+
+  test("reports oversized inputs instead of diffing them", () => {
+    const diff = buildLineDiff("a\nb\nc", "a", { maxLines: 2 });
+    expect(diff.truncated).toBe(true);
+    expect(diff.lines).toEqual([]);
+  });
+});
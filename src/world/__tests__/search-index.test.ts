@@ -0,0 +1,119 @@
+import { describe, expect, test } from "bun:test";
+import { spawnSync } from "node:child_process";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import {
+  buildWorldSearchChunks,
+  createEmptyWorldSearchIndex,
+  parseWorldSearchIndex,
+  searchWorldIndex,
+  slugifyWorldHeading,
+  tokenizeWorldSearchText,
+  updateWorldSearchIndex,
+} from "../search-index";
+
+describe("tokenizeWorldSearchText", () => {
+  test("splits CJK runs into bigrams and keeps latin words whole", () => {
+    expect(tokenizeWorldSearchText("黑塔守夜人 Order-of Dawn 312")).toEqual([
+      "黑塔",
+      "塔守",
+      "守夜",
+      "夜人",
+      "order",
+      "of",
+      "dawn",
+      "312",
+    ]);
+    expect(tokenizeWorldSearchText("王")).toEqual(["王"]);
+  });
+});
+
+describe("buildWorldSearchChunks", () => {
+  test("chunks by heading and slugs headings like docsify", () => {
+    const chunks = buildWorldSearchChunks(
+      "intro line\n\n## 黑塔之战\n守夜人击退灰潮。\n\n## Year 312!\nnew king\n",
+    );
+    expect(chunks.map((chunk) => chunk.heading)).toEqual([
+      "",
+      "黑塔之战",
+      "Year 312!",
+    ]);
+    expect(chunks[2]?.slug).toBe("year-312");
+    expect(slugifyWorldHeading("  Hello, World ")).toBe("hello-world");
+  });
+});
+
+describe("searchWorldIndex", () => {
+  const index = [
+    {
+      file: "world-card.md",
+      content: "# 世界卡\n- 世界名称：灰烬\n黑塔是北境的要塞。\n",
+    },
+    {
+      file: "canon/chronicle.md",
+      content:
+        "# 编年史\n\n## 黑塔之战\n守夜人在黑塔击退了灰潮，黑塔从此封闭。\n\n## 王国历 312 年\n新王登基。\n",
+    },
+    { file: "rules.md", content: "# 规则\n禁止时间旅行。\n" },
+  ].reduce(
+    (acc, doc) => updateWorldSearchIndex(acc, doc.file, doc.content),
+    createEmptyWorldSearchIndex(),
+  );
+
+  test("ranks the densest matching section first with an anchor", () => {
+    const hits = searchWorldIndex(index, "黑塔 守夜人");
+    expect(hits[0]?.file).toBe("canon/chronicle.md");
+    expect(hits[0]?.anchor).toBe("canon/chronicle.md#黑塔之战");
+    expect(hits[0]?.snippet).toContain("守夜人");
+    expect(hits[0]?.snippet).not.toContain("##");
+    expect(hits.map((hit) => hit.file)).toContain("world-card.md");
+    expect(hits.map((hit) => hit.file)).not.toContain("rules.md");
+  });
+
+  test("applies filter and limit, and returns nothing for empty queries", () => {
+    expect(
+      searchWorldIndex(index, "黑塔", {
+        filter: (file) => !file.startsWith("canon/"),
+      }).map((hit) => hit.file),
+    ).toEqual(["world-card.md"]);
+    expect(searchWorldIndex(index, "黑塔", { limit: 1 })).toHaveLength(1);
+    expect(searchWorldIndex(index, "  ！ ")).toEqual([]);
+  });
+
+  test("drops files on null content and round-trips through JSON", () => {
+    const pruned = updateWorldSearchIndex(index, "canon/chronicle.md", null);
+    expect(searchWorldIndex(pruned, "守夜人")).toEqual([]);
+    expect(parseWorldSearchIndex(JSON.stringify(index))?.docs).toEqual(
+      index.docs,
+    );
+    expect(parseWorldSearchIndex('{"version":2,"docs":{}}')).toBeNull();
+    expect(parseWorldSearchIndex("not json")).toBeNull();
+  });
+
+  test("matches the world-canon-search skill script on the same index", () => {
+    const script = join(
+      import.meta.dir,
+      "../../../configs/skills/world-canon-search/scripts/search_canon.mjs",
+    );
+    const tempDir = mkdtempSync(join(tmpdir(), "search-index-test-"));
+    try {
+      const indexPath = join(tempDir, "search-index.json");
+      writeFileSync(indexPath, JSON.stringify(index));
+      for (const query of ["黑塔 守夜人", "黑塔", "312 新王", "Year"]) {
+        const result = spawnSync(
+          process.execPath,
+          [script, query, "--index", indexPath, "--limit", "10", "--json"],
+          { encoding: "utf8" },
+        );
+        expect(result.status).toBe(0);
+        expect(JSON.parse(result.stdout)).toEqual(
+          searchWorldIndex(index, query, { limit: 10 }),
+        );
+      }
+    } finally {
+      rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, expect, test } from "bun:test";
+
+import { DEFAULT_WORLD_CALENDAR, parseWorldDate } from "../calendar";
+import {
+  addWorldTimelineEntry,
+  applyWorldTimeChanges,
+  createEmptyWorldTimeline,
+  extractWorldTimeBlocks,
+  filterWorldTimeline,
+  formatWorldTimeContext,
+  parseWorldTimeline,
+  removeWorldTimelineEntry,
+  splitWorldTimelineTags,
+} from "../timeline";
+
+const calendar = DEFAULT_WORLD_CALENDAR;
+const origin = { source: "command" as const, authorId: "u1" };
+
+describe("extractWorldTimeBlocks", () => {
+  test("strips blocks and keeps valid changes only", () => {
+    const output = [
+      "三天后，你们抵达了北境。",
+      "",
+      "```world-time",
+      JSON.stringify({
+        changes: [
+          { op: "advance", by: "3d" },
+          { op: "record", title: "抵达北境", tags: ["旅途", 7] },
+          { op: "record" },
+          { op: "rewind", by: "1d" },
+        ],
+      }),
+      "```",
+    ].join("\n");
+    const { content, changes } = extractWorldTimeBlocks(output);
+    expect(content.trim()).toBe("三天后，你们抵达了北境。");
+    expect(changes).toEqual([
+      { op: "advance", by: "3d" },
+      { op: "record", title: "抵达北境", tags: ["旅途"] },
+    ]);
+    expect(extractWorldTimeBlocks("普通回复").content).toBe("普通回复");
+  });
+});
+
+describe("applyWorldTimeChanges", () => {
+  test("moves the clock and records events at the current time", () => {
+    const timeline = createEmptyWorldTimeline();
+    const result = applyWorldTimeChanges(
+      calendar,
+      timeline,
+      [
+        { op: "set", to: "1024-3-15 08:00" },
+        { op: "advance", by: "2h" },
+        { op: "record", title: "黑塔陷落", tags: ["战争"] },
+        { op: "record", title: "王子诞生", tags: [], date: "1000-1-1" },
+        { op: "set", to: "1024-13-1" },
+      ],
+      { source: "ai_session", authorId: "ai" },
+    );
+    expect(result.applied).toHaveLength(4);
+    expect(result.errors).toEqual(['unknown month "13"']);
+    expect(timeline.clock).toBe(parseWorldDate(calendar, "1024-3-15 10:00"));
+    expect(timeline.entries.map((entry) => entry.at)).toEqual([
+      parseWorldDate(calendar, "1024-3-15 10:00"),
+      parseWorldDate(calendar, "1000-1-1"),
+    ]);
+    expect(parseWorldTimeline(JSON.stringify(timeline))).toEqual(timeline);
+  });
+});
+
+describe("filterWorldTimeline", () => {
+  test("filters by range, tag and text in chronological order", () => {
+    const timeline = createEmptyWorldTimeline();
+    for (const [date, title, tags] of [
+      ["1024-5-1", "加冕礼", "王室"],
+      ["1020-1-1", "北境战争", "战争, 北境"],
+      ["1024-1-1", "停战协定", "战争；王室"],
+    ] as const) {
+      addWorldTimelineEntry(
+        timeline,
+        {
+          at: parseWorldDate(calendar, date),
+          title,
+          tags: splitWorldTimelineTags(tags),
+        },
+        origin,
+      );
+    }
+    const titles = (filter: Parameters<typeof filterWorldTimeline>[1]) =>
+      filterWorldTimeline(timeline, filter).map((entry) => entry.title);
+    expect(titles({})).toEqual(["北境战争", "停战协定", "加冕礼"]);
+    expect(titles({ tag: "战争" })).toEqual(["北境战争", "停战协定"]);
+    expect(
+      titles({
+        from: parseWorldDate(calendar, "1024"),
+        to: parseWorldDate(calendar, "1024-1", { end: true }),
+      }),
+    ).toEqual(["停战协定"]);
+    expect(titles({ query: "加冕" })).toEqual(["加冕礼"]);
+
+    expect(removeWorldTimelineEntry(timeline, 2)?.title).toBe("北境战争");
+    expect(removeWorldTimelineEntry(timeline, 2)).toBeNull();
+  });
+});
+
+describe("formatWorldTimeContext", () => {
+  test("shows the clock and only events that already happened", () => {
+    const timeline = createEmptyWorldTimeline();
+    expect(formatWorldTimeContext(calendar, timeline)).toBe("");
+    timeline.clock = parseWorldDate(calendar, "1024-3-15 08:00");
+    addWorldTimelineEntry(
+      timeline,
+      { at: parseWorldDate(calendar, "1024-1-1"), title: "停战", tags: [] },
+      origin,
+    );
+    addWorldTimelineEntry(
+      timeline,
+      { at: parseWorldDate(calendar, "1025-1-1"), title: "预言之日", tags: [] },
+      origin,
+    );
+    const context = formatWorldTimeContext(calendar, timeline);
+    expect(context).toStartWith("当前：1024年 3月 15日");
+    expect(context).toContain("停战");
+    expect(context).not.toContain("预言之日");
+  });
+});
@@ -0,0 +1,426 @@
+import type { UserLanguage } from "../user/state-store";
+import { asRecord } from "../utils/record";
+
+export type WorldCalendarMonth = { name: string; days: number };
+
+/** Years from startYear on are shown as years of this era. */
+export type WorldCalendarEra = { name: string; startYear: number };
+
+export type WorldCalendar = {
+  version: 1;
+  months: WorldCalendarMonth[];
+  hoursPerDay: number;
+  /** Optional week cycle; day 1 of year 1 is the first weekday. */
+  weekdays: string[];
+  eras: WorldCalendarEra[];
+};
+
+/** A calendar position; month and day are 1-based, year starts at 1. */
+export type WorldDate = {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+};
+
+export type WorldDuration = {
+  years: number;
+  months: number;
+  days: number;
+  hours: number;
+  minutes: number;
+};
+
+const MAX_MONTHS = 36;
+const MAX_DAYS_PER_MONTH = 400;
+const MAX_HOURS_PER_DAY = 100;
+const MAX_WEEKDAYS = 20;
+const MAX_ERAS = 20;
+const MAX_NAME_LENGTH = 32;
+const MAX_YEAR = 999_999;
+
+const DURATION_UNITS: Array<[RegExp, keyof WorldDuration, number]> = [
+  [/^(?:years?|y|年)$/i, "years", 1],
+  [/^(?:months?|mo|个月|月)$/i, "months", 1],
+  [/^(?:weeks?|w|周|星期)$/i, "days", 7],
+  [/^(?:days?|d|天|日)$/i, "days", 1],
+  [/^(?:hours?|h|hrs?|小时|时)$/i, "hours", 1],
+  [/^(?:minutes?|mins?|m|分钟|分)$/i, "minutes", 1],
+];
+
+export const DEFAULT_WORLD_CALENDAR: WorldCalendar = {
+  version: 1,
+  months: Array.from({ length: 12 }, (_, index) => ({
+    name: `${index + 1}月`,
+    days: 30,
+  })),
+  hoursPerDay: 24,
+  weekdays: [],
+  eras: [],
+};
+
+/**
+ * Reads a calendar file such as
+ * `{"months":[{"name":"霜月","days":30}],"hoursPerDay":24,"eras":[{"name":"第三纪元","startYear":1}]}`.
+ * Throws with a short reason when it is not usable.
+ */
+export function parseWorldCalendar(raw: string): WorldCalendar {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new Error("calendar is not valid JSON");
+  }
+  const record = asRecord(parsed);
+  if (!record) {
+    throw new Error("calendar must be a JSON object");
+  }
+  if (!Array.isArray(record.months) || record.months.length === 0) {
+    throw new Error("months must be a non-empty list");
+  }
+  if (record.months.length > MAX_MONTHS) {
+    throw new Error(`at most ${MAX_MONTHS} months`);
+  }
+  const months = record.months.map((item, index) => {
+    const month = asRecord(item);
+    const name = readName(month?.name);
+    const days = month?.days;
+    if (!name) {
+      throw new Error(`month ${index + 1} needs a name`);
+    }
+    if (
+      typeof days !== "number" ||
+      !Number.isInteger(days) ||
+      days < 1 ||
+      days > MAX_DAYS_PER_MONTH
+    ) {
+      throw new Error(
+        `month "${name}" needs days between 1 and ${MAX_DAYS_PER_MONTH}`,
+      );
+    }
+    return { name, days };
+  });
+  assertUniqueNames(
+    months.map((month) => month.name),
+    "month",
+  );
+
+  const hoursPerDay = record.hoursPerDay ?? 24;
+  if (
+    typeof hoursPerDay !== "number" ||
+    !Number.isInteger(hoursPerDay) ||
+    hoursPerDay < 1 ||
+    hoursPerDay > MAX_HOURS_PER_DAY
+  ) {
+    throw new Error(`hoursPerDay must be between 1 and ${MAX_HOURS_PER_DAY}`);
+  }
+
+  const weekdaysRaw = record.weekdays ?? [];
+  if (!Array.isArray(weekdaysRaw) || weekdaysRaw.length > MAX_WEEKDAYS) {
+    throw new Error(`weekdays must be a list of at most ${MAX_WEEKDAYS} names`);
+  }
+  const weekdays = weekdaysRaw.map((item) => {
+    const name = readName(item);
+    if (!name) {
+      throw new Error("weekday names must be non-empty strings");
+    }
+    return name;
+  });
+
+  const erasRaw = record.eras ?? [];
+  if (!Array.isArray(erasRaw) || erasRaw.length > MAX_ERAS) {
+    throw new Error(`eras must be a list of at most ${MAX_ERAS} entries`);
+  }
+  const eras = erasRaw
+    .map((item) => {
+      const era = asRecord(item);
+      const name = readName(era?.name);
+      const startYear = era?.startYear;
+      if (
+        !name ||
+        typeof startYear !== "number" ||
+        !Number.isInteger(startYear) ||
+        startYear < 1
+      ) {
+        throw new Error("each era needs a name and a startYear of at least 1");
+      }
+      return { name, startYear };
+    })
+    .sort((a, b) => a.startYear - b.startYear);
+  assertUniqueNames(
+    eras.map((era) => era.name),
+    "era",
+  );
+
+  return { version: 1, months, hoursPerDay, weekdays, eras };
+}
+
+/** Stored calendar, or null when missing or unreadable. */
+export function readStoredWorldCalendar(
+  raw: string | null,
+): WorldCalendar | null {
+  if (!raw) {
+    return null;
+  }
+  try {
+    return parseWorldCalendar(raw);
+  } catch {
+    return null;
+  }
+}
+
+export function worldDateToMinutes(
+  calendar: WorldCalendar,
+  date: WorldDate,
+): number {
+  const daysBeforeMonth = calendar.months
+    .slice(0, date.month - 1)
+    .reduce((sum, month) => sum + month.days, 0);
+  const days =
+    (date.year - 1) * daysPerYear(calendar) + daysBeforeMonth + date.day - 1;
+  return (days * calendar.hoursPerDay + date.hour) * 60 + date.minute;
+}
+
+export function minutesToWorldDate(
+  calendar: WorldCalendar,
+  minutes: number,
+): WorldDate {
+  const total = Math.max(0, Math.floor(minutes));
+  const minutesPerDay = calendar.hoursPerDay * 60;
+  let days = Math.floor(total / minutesPerDay);
+  const inDay = total - days * minutesPerDay;
+  const year = Math.floor(days / daysPerYear(calendar)) + 1;
+  days -= (year - 1) * daysPerYear(calendar);
+  let month = 1;
+  for (const def of calendar.months) {
+    if (days < def.days) {
+      break;
+    }
+    days -= def.days;
+    month += 1;
+  }
+  return {
+    year,
+    month,
+    day: days + 1,
+    hour: Math.floor(inDay / 60),
+    minute: inDay % 60,
+  };
+}
+
+/**
+ * Parses `1024-3-15`, `1024/霜月/15 08:30`, `第三纪元 12年霜月3日` or a
+ * shorter `1024` / `1024-3`. Missing parts resolve to the start of the
+ * period, or to its last minute with `end`. Throws when unreadable.
+ */
+export function parseWorldDate(
+  calendar: WorldCalendar,
+  text: string,
+  options?: { end?: boolean },
+): number {
+  let rest = text.normalize("NFKC").trim();
+  let time: { hour: number; minute: number } | null = null;
+  const timeMatch = rest.match(/\s*(\d{1,3}):(\d{2})$/);
+  if (timeMatch) {
+    time = { hour: Number(timeMatch[1]), minute: Number(timeMatch[2]) };
+    rest = rest.slice(0, timeMatch.index).trim();
+  }
+
+  let eraName = "";
+  let yearText = "";
+  let monthText: string | undefined;
+  let dayText: string | undefined;
+  const chinese = rest.match(
+    /^(.*?)(\d+)\s*年\s*(?:(.+?)\s*(?:(\d+)\s*日)?)?$/u,
+  );
+  if (chinese) {
+    [, eraName = "", yearText = "", monthText, dayText] = chinese;
+  } else {
+    const parts = rest.split(/\s*[-/]\s*/);
+    const head = (parts[0] ?? "").match(/^(.*?)\s*(\d+)$/u);
+    if (!head || parts.length > 3) {
+      throw new Error(`cannot read date "${text}"`);
+    }
+    [, eraName = "", yearText = ""] = head;
+    [, monthText, dayText] = parts;
+  }
+
+  const year = resolveYear(calendar, eraName.trim(), Number(yearText));
+  const month = monthText ? resolveMonth(calendar, monthText) : null;
+  const day = dayText ? Number(dayText) : null;
+  if (month !== null && day !== null) {
+    const days = calendar.months[month - 1]?.days ?? 0;
+    if (!Number.isInteger(day) || day < 1 || day > days) {
+      throw new Error(`day must be between 1 and ${days}`);
+    }
+  }
+  if (time && (time.hour >= calendar.hoursPerDay || time.minute >= 60)) {
+    throw new Error(`time must be before ${calendar.hoursPerDay}:00`);
+  }
+
+  const end = options?.end === true;
+  const start = worldDateToMinutes(calendar, {
+    year,
+    month: month ?? 1,
+    day: day ?? 1,
+    hour: time?.hour ?? 0,
+    minute: time?.minute ?? 0,
+  });
+  if (!end || time) {
+    return start;
+  }
+  // End of the named period: the minute before the next year/month/day.
+  const minutesPerDay = calendar.hoursPerDay * 60;
+  const periodDays =
+    day !== null
+      ? 1
+      : month !== null
+        ? (calendar.months[month - 1]?.days ?? 1)
+        : daysPerYear(calendar);
+  return start + periodDays * minutesPerDay - 1;
+}
+
+/** Parses `3d`, `2h30m`, `1 year 2 months`, `3天2小时`. */
+export function parseWorldDuration(text: string): WorldDuration {
+  const duration: WorldDuration = {
+    years: 0,
+    months: 0,
+    days: 0,
+    hours: 0,
+    minutes: 0,
+  };
+  const normalized = text.normalize("NFKC").trim().replace(/^\+/, "");
+  const pattern = /(\d+)\s*([a-z]+|[一-鿿]+)[\s,，]*/giy;
+  let matched = 0;
+  let found = false;
+  for (const match of normalized.matchAll(pattern)) {
+    const unit = DURATION_UNITS.find(([regex]) => regex.test(match[2] ?? ""));
+    if (!unit) {
+      throw new Error(`unknown time unit "${match[2]}"`);
+    }
+    const [, key, factor] = unit;
+    duration[key] += Number(match[1]) * factor;
+    matched += match[0].length;
+    found = true;
+  }
+  if (!found || matched !== normalized.length) {
+    throw new Error(`cannot read duration "${text}" (e.g. 3d, 2h30m, 1年)`);
+  }
+  return duration;
+}
+
+/** Adds a duration; years and months keep the day, clamped to the month. */
+export function advanceWorldTime(
+  calendar: WorldCalendar,
+  minutes: number,
+  duration: WorldDuration,
+): number {
+  const date = minutesToWorldDate(calendar, minutes);
+  const monthIndex = date.month - 1 + duration.months;
+  const year = Math.min(
+    MAX_YEAR,
+    date.year +
+      duration.years +
+      Math.floor(monthIndex / calendar.months.length),
+  );
+  const month = (monthIndex % calendar.months.length) + 1;
+  const day = Math.min(date.day, calendar.months[month - 1]?.days ?? 1);
+  const shifted = worldDateToMinutes(calendar, { ...date, year, month, day });
+  return (
+    shifted +
+    (duration.days * calendar.hoursPerDay + duration.hours) * 60 +
+    duration.minutes
+  );
+}
+
+/** e.g. `第三纪元 12年 霜月 3日 08:00` or `霜月 3, 第三纪元 12, 08:00`. */
+export function formatWorldDate(
+  calendar: WorldCalendar,
+  minutes: number,
+  language?: UserLanguage | null,
+): string {
+  const date = minutesToWorldDate(calendar, minutes);
+  const era = [...calendar.eras]
+    .reverse()
+    .find((item) => item.startYear <= date.year);
+  const year = era
+    ? `${era.name} ${date.year - era.startYear + 1}`
+    : String(date.year);
+  const month = calendar.months[date.month - 1]?.name ?? String(date.month);
+  const time = `${String(date.hour).padStart(2, "0")}:${String(date.minute).padStart(2, "0")}`;
+  const weekday =
+    calendar.weekdays.length > 0
+      ? calendar.weekdays[
+          Math.floor(minutes / (calendar.hoursPerDay * 60)) %
+            calendar.weekdays.length
+        ]
+      : null;
+  if (language === "en") {
+    return `${weekday ? `${weekday}, ` : ""}${month} ${date.day}, ${year}, ${time}`;
+  }
+  return `${year}年 ${month} ${date.day}日${weekday ? `（${weekday}）` : ""} ${time}`;
+}
+
+function daysPerYear(calendar: WorldCalendar): number {
+  return calendar.months.reduce((sum, month) => sum + month.days, 0);
+}
+
+function resolveYear(
+  calendar: WorldCalendar,
+  eraName: string,
+  year: number,
+): number {
+  if (!Number.isInteger(year) || year < 1 || year > MAX_YEAR) {
+    throw new Error(`year must be between 1 and ${MAX_YEAR}`);
+  }
+  if (!eraName) {
+    return year;
+  }
+  const key = normalizeName(eraName);
+  const era = calendar.eras.find((item) => normalizeName(item.name) === key);
+  if (!era) {
+    throw new Error(`unknown era "${eraName}"`);
+  }
+  return era.startYear + year - 1;
+}
+
+function resolveMonth(calendar: WorldCalendar, text: string): number {
+  const key = normalizeName(text);
+  const byName = calendar.months.findIndex(
+    (month) => normalizeName(month.name) === key,
+  );
+  if (byName >= 0) {
+    return byName + 1;
+  }
+  const number = Number(key.replace(/月$/u, ""));
+  if (
+    !Number.isInteger(number) ||
+    number < 1 ||
+    number > calendar.months.length
+  ) {
+    throw new Error(`unknown month "${text}"`);
+  }
+  return number;
+}
+
+function assertUniqueNames(names: string[], kind: string): void {
+  const seen = new Set<string>();
+  for (const name of names) {
+    const key = normalizeName(name);
+    if (seen.has(key)) {
+      throw new Error(`duplicate ${kind} name "${name}"`);
+    }
+    seen.add(key);
+  }
+}
+
+function normalizeName(name: string): string {
+  return name.normalize("NFKC").trim().toLowerCase();
+}
+
+function readName(value: unknown): string | null {
+  return typeof value === "string" && value.trim()
+    ? value.trim().slice(0, MAX_NAME_LENGTH)
+    : null;
+}
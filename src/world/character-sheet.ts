@@ -0,0 +1,727 @@
+import type { UserLanguage } from "../user/state-store";
+import { asRecord } from "../utils/record";
+import { extractReplyBlockChanges } from "./reply-blocks";
+
+export type CharacterSheetStatSection = "attributes" | "skills";
+
+export type CharacterSheetStatDef = {
+  key: string;
+  label: string;
+  default: number;
+  min?: number;
+  max?: number;
+};
+
+export type CharacterSheetResourceDef = {
+  key: string;
+  label: string;
+  /** Starting maximum; current starts full. */
+  max: number;
+};
+
+/** Per-world sheet layout; inventory and status effects are always free-form. */
+export type CharacterSheetSchema = {
+  version: 1;
+  attributes: CharacterSheetStatDef[];
+  skills: CharacterSheetStatDef[];
+  resources: CharacterSheetResourceDef[];
+};
+
+export type CharacterSheetItem = {
+  name: string;
+  quantity: number;
+  note?: string;
+};
+
+export type CharacterSheetStatus = {
+  name: string;
+  note?: string;
+};
+
+export type CharacterSheet = {
+  version: 1;
+  characterId: number;
+  attributes: Record<string, number>;
+  skills: Record<string, number>;
+  resources: Record<string, { current: number; max: number }>;
+  inventory: CharacterSheetItem[];
+  statuses: CharacterSheetStatus[];
+  updatedAt: string;
+};
+
+/** One state change, shared by `/character set` and the world agent's `character-state` block. */
+export type CharacterSheetChange =
+  | { op: "set"; field: string; value: number }
+  | { op: "adjust"; field: string; delta: number }
+  | { op: "add_item"; item: string; quantity?: number; note?: string }
+  | { op: "remove_item"; item: string; quantity?: number }
+  | { op: "add_status"; status: string; note?: string }
+  | { op: "remove_status"; status: string };
+
+export type CharacterSheetChangeResult = {
+  /** Short descriptions such as `hp 10 → 7` or `+torch ×2`. */
+  applied: string[];
+  errors: string[];
+};
+
+export type CharacterSheetField =
+  | {
+      section: CharacterSheetStatSection;
+      key: string;
+      label: string;
+      part: "value";
+    }
+  | {
+      section: "resources";
+      key: string;
+      label: string;
+      part: "current" | "max";
+    };
+
+const MAX_SCHEMA_ENTRIES = 50;
+const MAX_SHEET_NUMBER = 1_000_000;
+const MAX_NAME_LENGTH = 64;
+const MAX_NOTE_LENGTH = 200;
+const MAX_INVENTORY_ITEMS = 100;
+const MAX_STATUSES = 30;
+const MAX_STATE_CHANGES = 20;
+const SCHEMA_KEY_PATTERN = /^[\p{L}\p{N}_]{1,32}$/u;
+const INVENTORY_FIELDS = new Set([
+  "inventory",
+  "item",
+  "items",
+  "物品",
+  "背包",
+]);
+const STATUS_FIELDS = new Set(["status", "statuses", "状态"]);
+
+const SECTION_LABELS: Record<
+  "attributes" | "skills" | "resources" | "inventory" | "statuses",
+  { zh: string; en: string }
+> = {
+  attributes: { zh: "属性", en: "Attributes" },
+  skills: { zh: "技能", en: "Skills" },
+  resources: { zh: "资源", en: "Resources" },
+  inventory: { zh: "物品", en: "Inventory" },
+  statuses: { zh: "状态", en: "Status effects" },
+};
+
+/**
+ * Reads a schema file such as
+ * `{"attributes":[{"key":"str","label":"力量","default":50}],"resources":[{"key":"hp","max":10}]}`.
+ * Throws with a short reason when it is not usable.
+ */
+export function parseCharacterSheetSchema(raw: string): CharacterSheetSchema {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw.trim());
+  } catch {
+    throw new Error("not a valid JSON sheet schema");
+  }
+  const root = asRecord(parsed);
+  if (!root) {
+    throw new Error("sheet schema must be a JSON object");
+  }
+  const seen = new Set<string>();
+  const claim = (key: string) => {
+    const normalized = normalizeName(key);
+    if (seen.has(normalized)) {
+      throw new Error(`duplicate key "${key}"`);
+    }
+    seen.add(normalized);
+  };
+
+  const readStats = (section: CharacterSheetStatSection) =>
+    readSchemaList(root[section], section).map(
+      (entry): CharacterSheetStatDef => {
+        const key = readSchemaKey(entry, section);
+        claim(key);
+        const min = readOptionalNumber(entry.min, `${section}.${key}.min`);
+        const max = readOptionalNumber(entry.max, `${section}.${key}.max`);
+        if (min !== undefined && max !== undefined && min > max) {
+          throw new Error(`${section}.${key}: min is greater than max`);
+        }
+        const fallback = min ?? 0;
+        const value = readOptionalNumber(
+          entry.default,
+          `${section}.${key}.default`,
+        );
+        return {
+          key,
+          label: readLabel(entry, key),
+          default: clamp(value ?? fallback, min, max),
+          ...(min !== undefined ? { min } : {}),
+          ...(max !== undefined ? { max } : {}),
+        };
+      },
+    );
+
+  const attributes = readStats("attributes");
+  const skills = readStats("skills");
+  const resources = readSchemaList(root.resources, "resources").map(
+    (entry): CharacterSheetResourceDef => {
+      const key = readSchemaKey(entry, "resources");
+      claim(key);
+      const max = readOptionalNumber(entry.max, `resources.${key}.max`);
+      if (max === undefined || max < 0) {
+        throw new Error(`resources.${key}: max must be a number >= 0`);
+      }
+      return { key, label: readLabel(entry, key), max };
+    },
+  );
+  if (attributes.length + skills.length + resources.length === 0) {
+    throw new Error("sheet schema defines no attributes, skills or resources");
+  }
+  return { version: 1, attributes, skills, resources };
+}
+
+/** Stored schema, or null when the file is missing or damaged. */
+export function readStoredCharacterSheetSchema(
+  raw: string | null,
+): CharacterSheetSchema | null {
+  if (!raw) {
+    return null;
+  }
+  try {
+    return parseCharacterSheetSchema(raw);
+  } catch {
+    return null;
+  }
+}
+
+export function createCharacterSheet(
+  schema: CharacterSheetSchema,
+  characterId: number,
+): CharacterSheet {
+  return normalizeCharacterSheet(schema, {
+    version: 1,
+    characterId,
+    attributes: {},
+    skills: {},
+    resources: {},
+    inventory: [],
+    statuses: [],
+    updatedAt: new Date().toISOString(),
+  });
+}
+
+/**
+ * Parses a stored sheet and lines it up with the current schema: new
+ * fields get their defaults, removed ones are dropped.
+ */
+export function parseCharacterSheet(
+  schema: CharacterSheetSchema,
+  characterId: number,
+  raw: string | null,
+): CharacterSheet {
+  if (!raw) {
+    return createCharacterSheet(schema, characterId);
+  }
+  try {
+    const parsed = JSON.parse(raw) as Partial<CharacterSheet>;
+    if (parsed.version !== 1) {
+      return createCharacterSheet(schema, characterId);
+    }
+    return normalizeCharacterSheet(schema, {
+      version: 1,
+      characterId,
+      attributes: asNumberRecord(parsed.attributes),
+      skills: asNumberRecord(parsed.skills),
+      resources: asRecord(parsed.resources)
+        ? (parsed.resources as CharacterSheet["resources"])
+        : {},
+      inventory: Array.isArray(parsed.inventory)
+        ? parsed.inventory.filter(
+            (item): item is CharacterSheetItem =>
+              Boolean(item) &&
+              typeof item.name === "string" &&
+              Number.isFinite(item.quantity),
+          )
+        : [],
+      statuses: Array.isArray(parsed.statuses)
+        ? parsed.statuses.filter(
+            (status): status is CharacterSheetStatus =>
+              Boolean(status) && typeof status.name === "string",
+          )
+        : [],
+      updatedAt:
+        typeof parsed.updatedAt === "string"
+          ? parsed.updatedAt
+          : new Date().toISOString(),
+    });
+  } catch {
+    return createCharacterSheet(schema, characterId);
+  }
+}
+
+/** Matches a schema key or label, case-insensitively; `hp.max` targets a resource maximum. */
+export function resolveCharacterSheetField(
+  schema: CharacterSheetSchema,
+  name: string,
+): CharacterSheetField | null {
+  let wanted = normalizeName(name);
+  let wantsMax = false;
+  if (wanted.endsWith(".max")) {
+    wanted = wanted.slice(0, -".max".length);
+    wantsMax = true;
+  }
+  const matches = (def: { key: string; label: string }) =>
+    normalizeName(def.key) === wanted || normalizeName(def.label) === wanted;
+
+  const resource = schema.resources.find(matches);
+  if (resource) {
+    return {
+      section: "resources",
+      key: resource.key,
+      label: resource.label,
+      part: wantsMax ? "max" : "current",
+    };
+  }
+  if (wantsMax) {
+    return null;
+  }
+  for (const section of ["attributes", "skills"] as const) {
+    const stat = schema[section].find(matches);
+    if (stat) {
+      return { section, key: stat.key, label: stat.label, part: "value" };
+    }
+  }
+  return null;
+}
+
+/** The value a dice check can use for name: an attribute, skill or current resource. */
+export function lookupCharacterSheetValue(
+  schema: CharacterSheetSchema,
+  sheet: CharacterSheet,
+  name: string,
+): number | null {
+  const field = resolveCharacterSheetField(schema, name);
+  if (!field) {
+    return null;
+  }
+  return readFieldValue(sheet, field);
+}
+
+/**
+ * Parses `/character set <field> <value>`: numbers (`12`, `=-3`) set a
+ * value, `+2`/`-2` adjust it; for inventory `+torch x2`/`-torch`, for
+ * status `+poisoned: -1 HP per turn`/`-poisoned`.
+ */
+export function parseCharacterSheetCommand(
+  field: string,
+  value: string,
+): CharacterSheetChange {
+  const fieldName = normalizeName(field);
+  const raw = value.trim();
+  if (!raw) {
+    throw new Error("value is empty");
+  }
+
+  if (INVENTORY_FIELDS.has(fieldName)) {
+    const sign = raw[0] === "-" ? "-" : "+";
+    const body = raw.replace(/^[+-]\s*/, "");
+    const match = body.match(/^(.*?)(?:\s*[x×*]\s*(\d{1,4}))?$/i);
+    const item = (match?.[1] ?? body).trim();
+    if (!item) {
+      throw new Error("item name is empty");
+    }
+    const quantity = match?.[2] ? Number(match[2]) : undefined;
+    return sign === "-"
+      ? { op: "remove_item", item, ...(quantity ? { quantity } : {}) }
+      : { op: "add_item", item, ...(quantity ? { quantity } : {}) };
+  }
+
+  if (STATUS_FIELDS.has(fieldName)) {
+    const sign = raw[0] === "-" ? "-" : "+";
+    const body = raw.replace(/^[+-]\s*/, "");
+    const [name = "", ...noteParts] = body.split(/[:：]/);
+    const status = name.trim();
+    const note = noteParts.join(":").trim();
+    if (!status) {
+      throw new Error("status name is empty");
+    }
+    return sign === "-"
+      ? { op: "remove_status", status }
+      : { op: "add_status", status, ...(note ? { note } : {}) };
+  }
+
+  const relative = raw.match(/^([+-])\s*(\d+(?:\.\d+)?)$/);
+  if (relative) {
+    const amount = Number(relative[2]);
+    return {
+      op: "adjust",
+      field,
+      delta: relative[1] === "-" ? -amount : amount,
+    };
+  }
+  const absolute = raw.match(/^=?\s*(-?\d+(?:\.\d+)?)$/);
+  if (absolute) {
+    return { op: "set", field, value: Number(absolute[1]) };
+  }
+  throw new Error(`"${raw}" is not a number, +N or -N`);
+}
+
+/** Validates one change from untrusted JSON; returns null when unusable. */
+export function parseCharacterSheetChange(
+  raw: unknown,
+): CharacterSheetChange | null {
+  const record = asRecord(raw);
+  const op = typeof record?.op === "string" ? record.op.trim() : "";
+  if (!record || !op) {
+    return null;
+  }
+  const text = (value: unknown, maxLength: number) =>
+    typeof value === "string" && value.trim()
+      ? value.trim().slice(0, maxLength)
+      : undefined;
+  const count = (value: unknown) =>
+    typeof value === "number" && Number.isInteger(value) && value > 0
+      ? Math.min(value, MAX_SHEET_NUMBER)
+      : undefined;
+  const field = text(record.field, MAX_NAME_LENGTH);
+  const number = (value: unknown) =>
+    typeof value === "number" && Number.isFinite(value) ? value : undefined;
+
+  if (op === "set" || op === "adjust") {
+    const amount = number(op === "set" ? record.value : record.delta);
+    if (!field || amount === undefined) {
+      return null;
+    }
+    return op === "set"
+      ? { op, field, value: amount }
+      : { op, field, delta: amount };
+  }
+  if (op === "add_item" || op === "remove_item") {
+    const item = text(record.item, MAX_NAME_LENGTH);
+    if (!item) {
+      return null;
+    }
+    const quantity = count(record.quantity);
+    const note = op === "add_item" ? text(record.note, MAX_NOTE_LENGTH) : null;
+    return {
+      op,
+      item,
+      ...(quantity ? { quantity } : {}),
+      ...(note ? { note } : {}),
+    } as CharacterSheetChange;
+  }
+  if (op === "add_status" || op === "remove_status") {
+    const status = text(record.status, MAX_NAME_LENGTH);
+    if (!status) {
+      return null;
+    }
+    const note =
+      op === "add_status" ? text(record.note, MAX_NOTE_LENGTH) : null;
+    return { op, status, ...(note ? { note } : {}) } as CharacterSheetChange;
+  }
+  return null;
+}
+
+/** Strips ```character-state blocks from an agent reply. */
+export function extractCharacterStateBlocks(output: string): {
+  content: string;
+  changes: CharacterSheetChange[];
+} {
+  return extractReplyBlockChanges(
+    output,
+    "character-state",
+    parseCharacterSheetChange,
+    MAX_STATE_CHANGES,
+  );
+}
+
+/**
+ * Applies changes in order, clamping numbers to the schema bounds (resources
+ * to 0..max). Changes that name unknown fields or missing items are skipped
+ * and reported in errors.
+ */
+export function applyCharacterSheetChanges(
+  schema: CharacterSheetSchema,
+  sheet: CharacterSheet,
+  changes: CharacterSheetChange[],
+): CharacterSheetChangeResult {
+  const result: CharacterSheetChangeResult = { applied: [], errors: [] };
+  for (const change of changes) {
+    if (change.op === "set" || change.op === "adjust") {
+      const field = resolveCharacterSheetField(schema, change.field);
+      if (!field) {
+        result.errors.push(`unknown field "${change.field}"`);
+        continue;
+      }
+      const before = readFieldValue(sheet, field);
+      const target = change.op === "set" ? change.value : before + change.delta;
+      const after = writeFieldValue(schema, sheet, field, target);
+      const name = field.part === "max" ? `${field.label}.max` : field.label;
+      result.applied.push(`${name} ${before} → ${after}`);
+      continue;
+    }
+
+    if (change.op === "add_item") {
+      const quantity = change.quantity ?? 1;
+      const existing = findByName(sheet.inventory, change.item);
+      if (existing) {
+        existing.quantity = Math.min(
+          existing.quantity + quantity,
+          MAX_SHEET_NUMBER,
+        );
+        if (change.note) {
+          existing.note = change.note;
+        }
+      } else if (sheet.inventory.length >= MAX_INVENTORY_ITEMS) {
+        result.errors.push(`inventory is full (${MAX_INVENTORY_ITEMS} items)`);
+        continue;
+      } else {
+        sheet.inventory.push({
+          name: change.item,
+          quantity,
+          ...(change.note ? { note: change.note } : {}),
+        });
+      }
+      result.applied.push(`+${change.item} ×${quantity}`);
+      continue;
+    }
+
+    if (change.op === "remove_item") {
+      const existing = findByName(sheet.inventory, change.item);
+      if (!existing) {
+        result.errors.push(`no item "${change.item}"`);
+        continue;
+      }
+      const quantity = Math.min(
+        change.quantity ?? existing.quantity,
+        existing.quantity,
+      );
+      existing.quantity -= quantity;
+      if (existing.quantity <= 0) {
+        sheet.inventory.splice(sheet.inventory.indexOf(existing), 1);
+      }
+      result.applied.push(`-${existing.name} ×${quantity}`);
+      continue;
+    }
+
+    if (change.op === "add_status") {
+      const existing = findByName(sheet.statuses, change.status);
+      if (existing) {
+        existing.note = change.note ?? existing.note;
+      } else if (sheet.statuses.length >= MAX_STATUSES) {
+        result.errors.push(`too many status effects (${MAX_STATUSES})`);
+        continue;
+      } else {
+        sheet.statuses.push({
+          name: change.status,
+          ...(change.note ? { note: change.note } : {}),
+        });
+      }
+      result.applied.push(`+${change.status}`);
+      continue;
+    }
+
+    const existing = findByName(sheet.statuses, change.status);
+    if (!existing) {
+      result.errors.push(`no status "${change.status}"`);
+      continue;
+    }
+    sheet.statuses.splice(sheet.statuses.indexOf(existing), 1);
+    result.applied.push(`-${existing.name}`);
+  }
+  if (result.applied.length > 0) {
+    sheet.updatedAt = new Date().toISOString();
+  }
+  return result;
+}
+
+/** One line per section; empty sections are left out. */
+export function formatCharacterSheet(
+  schema: CharacterSheetSchema,
+  sheet: CharacterSheet,
+  language?: UserLanguage | null,
+): string {
+  const lang = language === "en" ? "en" : "zh";
+  const none = lang === "en" ? "none" : "无";
+  const lines: string[] = [];
+  for (const section of ["attributes", "skills"] as const) {
+    if (schema[section].length > 0) {
+      const values = schema[section].map(
+        (def) => `${def.label} ${sheet[section][def.key] ?? def.default}`,
+      );
+      lines.push(`${SECTION_LABELS[section][lang]}：${values.join(" · ")}`);
+    }
+  }
+  if (schema.resources.length > 0) {
+    const values = schema.resources.map((def) => {
+      const resource = sheet.resources[def.key];
+      return `${def.label} ${resource?.current ?? def.max}/${resource?.max ?? def.max}`;
+    });
+    lines.push(`${SECTION_LABELS.resources[lang]}：${values.join(" · ")}`);
+  }
+  const items = sheet.inventory.map((item) => {
+    const quantity = item.quantity === 1 ? "" : ` ×${item.quantity}`;
+    return `${item.name}${quantity}${item.note ? `（${item.note}）` : ""}`;
+  });
+  lines.push(
+    `${SECTION_LABELS.inventory[lang]}：${items.length > 0 ? items.join(" · ") : none}`,
+  );
+  const statuses = sheet.statuses.map(
+    (status) => `${status.name}${status.note ? `（${status.note}）` : ""}`,
+  );
+  lines.push(
+    `${SECTION_LABELS.statuses[lang]}：${statuses.length > 0 ? statuses.join(" · ") : none}`,
+  );
+  return lines.join("\n");
+}
+
+function normalizeCharacterSheet(
+  schema: CharacterSheetSchema,
+  sheet: CharacterSheet,
+): CharacterSheet {
+  const stats = (section: CharacterSheetStatSection) =>
+    Object.fromEntries(
+      schema[section].map((def) => [
+        def.key,
+        clamp(sheet[section][def.key] ?? def.default, def.min, def.max),
+      ]),
+    );
+  const resources = Object.fromEntries(
+    schema.resources.map((def) => {
+      const stored = asRecord(sheet.resources[def.key]);
+      const max = Number.isFinite(stored?.max) ? Number(stored?.max) : def.max;
+      const current = Number.isFinite(stored?.current)
+        ? Number(stored?.current)
+        : max;
+      return [def.key, { current: clamp(current, 0, max), max }];
+    }),
+  );
+  return {
+    ...sheet,
+    attributes: stats("attributes"),
+    skills: stats("skills"),
+    resources,
+  };
+}
+
+function readFieldValue(
+  sheet: CharacterSheet,
+  field: CharacterSheetField,
+): number {
+  if (field.section === "resources") {
+    const resource = sheet.resources[field.key];
+    return (field.part === "max" ? resource?.max : resource?.current) ?? 0;
+  }
+  return sheet[field.section][field.key] ?? 0;
+}
+
+/** Returns the stored value after clamping. */
+function writeFieldValue(
+  schema: CharacterSheetSchema,
+  sheet: CharacterSheet,
+  field: CharacterSheetField,
+  value: number,
+): number {
+  const rounded = Math.round(clamp(value, -MAX_SHEET_NUMBER, MAX_SHEET_NUMBER));
+  if (field.section === "resources") {
+    const resource = sheet.resources[field.key] ?? { current: 0, max: 0 };
+    if (field.part === "max") {
+      resource.max = Math.max(0, rounded);
+      resource.current = Math.min(resource.current, resource.max);
+    } else {
+      resource.current = clamp(rounded, 0, resource.max);
+    }
+    sheet.resources[field.key] = resource;
+    return field.part === "max" ? resource.max : resource.current;
+  }
+  const def = schema[field.section].find((entry) => entry.key === field.key);
+  const next = clamp(rounded, def?.min, def?.max);
+  sheet[field.section][field.key] = next;
+  return next;
+}
+
+function findByName<T extends { name: string }>(
+  list: T[],
+  name: string,
+): T | undefined {
+  const wanted = normalizeName(name);
+  return list.find((entry) => normalizeName(entry.name) === wanted);
+}
+
+function normalizeName(value: string): string {
+  return value.normalize("NFKC").trim().toLowerCase();
+}
+
+function clamp(value: number, min?: number, max?: number): number {
+  let result = value;
+  if (min !== undefined && result < min) {
+    result = min;
+  }
+  if (max !== undefined && result > max) {
+    result = max;
+  }
+  return result;
+}
+
+function readSchemaList(
+  value: unknown,
+  section: string,
+): Record<string, unknown>[] {
+  if (value === undefined) {
+    return [];
+  }
+  if (!Array.isArray(value)) {
+    throw new Error(`${section} must be an array`);
+  }
+  if (value.length > MAX_SCHEMA_ENTRIES) {
+    throw new Error(`${section} has more than ${MAX_SCHEMA_ENTRIES} entries`);
+  }
+  return value.map((item, index) => {
+    const record = asRecord(item);
+    if (!record) {
+      throw new Error(`${section}[${index}] must be an object`);
+    }
+    return record;
+  });
+}
+
+function readSchemaKey(
+  entry: Record<string, unknown>,
+  section: string,
+): string {
+  const key = typeof entry.key === "string" ? entry.key.trim() : "";
+  if (!SCHEMA_KEY_PATTERN.test(key)) {
+    throw new Error(
+      `${section}: key "${key}" must be 1-32 letters, digits or underscores`,
+    );
+  }
+  return key;
+}
+
+function readLabel(entry: Record<string, unknown>, key: string): string {
+  return typeof entry.label === "string" && entry.label.trim()
+    ? entry.label.trim().slice(0, MAX_NAME_LENGTH)
+    : key;
+}
+
+function readOptionalNumber(value: unknown, where: string): number | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (
+    typeof value !== "number" ||
+    !Number.isFinite(value) ||
+    Math.abs(value) > MAX_SHEET_NUMBER
+  ) {
+    throw new Error(`${where} must be a number`);
+  }
+  return value;
+}
+
+function asNumberRecord(value: unknown): Record<string, number> {
+  const record = asRecord(value);
+  if (!record) {
+    return {};
+  }
+  return Object.fromEntries(
+    Object.entries(record).filter(
+      (entry): entry is [string, number] =>
+        typeof entry[1] === "number" && Number.isFinite(entry[1]),
+    ),
+  );
+}
@@ -1,4 +1,4 @@
-import { randomBytes } from "node:crypto";
+import { createHash, randomBytes } from "node:crypto";
 import { constants } from "node:fs";
 import {
   access,
@@ -7,6 +7,7 @@ import {
   readdir,
   readFile,
   rename,
+  stat,
   writeFile,
 } from "node:fs/promises";
 import path from "node:path";
@@ -14,11 +15,35 @@ import path from "node:path";
 import type { Logger } from "pino";
 
 import { resolveDataRoot } from "../utils/data-root";
+import { withFileLock } from "../utils/file-lock";
 import { getConfig } from "../config";
 import { normalizeWorldId, type WorldId } from "./ids";
 import type { UserLanguage } from "../user/state-store";
-import { assertSafePathSegment } from "../utils/path";
+import { assertSafePathSegment, isSafePathSegment } from "../utils/path";
 import { buildDefaultWorldCard, buildDefaultWorldRules } from "../texts";
+import {
+  createEmptyWorldSearchIndex,
+  parseWorldSearchIndex,
+  searchWorldIndex,
+  updateWorldSearchIndex,
+  type WorldSearchHit,
+  type WorldSearchIndex,
+  type WorldSearchOptions,
+} from "./search-index";
+import { parseWorldLorebook, type WorldLorebook } from "./lorebook";
+import {
+  parseCharacterSheet,
+  readStoredCharacterSheetSchema,
+  type CharacterSheet,
+  type CharacterSheetSchema,
+} from "./character-sheet";
+import { parseWorldQuestLog, type WorldQuestLog } from "./quests";
+import {
+  DEFAULT_WORLD_CALENDAR,
+  readStoredWorldCalendar,
+  type WorldCalendar,
+} from "./calendar";
+import { parseWorldTimeline, type WorldTimeline } from "./timeline";
 
 export interface WorldFileStoreOptions {
   logger: Logger;
@@ -29,6 +54,12 @@ export type WorldFileKind = "world_card" | "rules" | "events" | "source_latest";
 
 export type WorldSubmissionStatus = "pending" | "approved" | "rejected";
 
+export type WorldSubmissionComment = {
+  userId: string;
+  content: string;
+  createdAt: string;
+};
+
 export type WorldStatsV1 = {
   version: 1;
   visitorCount: number;
@@ -36,6 +67,12 @@ export type WorldStatsV1 = {
   updatedAt: string;
 };
 
+export type WorldCanonFileInfo = {
+  filename: string;
+  size: number;
+  updatedAt: string;
+};
+
 export type WorldImageAssetRecord = {
   name: string;
   filename: string;
@@ -47,6 +84,32 @@ export type WorldImageAssetRecord = {
   sizeBytes: number;
 };
 
+/**
+ * Who wrote a world file: slash command, AI build session, import, approval
+ * or rollback. `baseline` snapshots content that predates revision tracking.
+ */
+export type WorldRevisionSource =
+  "command" | "ai_session" | "import" | "approval" | "rollback" | "baseline";
+
+export type WorldRevisionOrigin = {
+  author: string;
+  source: WorldRevisionSource;
+};
+
+export type WorldRevisionRecord = {
+  rev: number;
+  /** Relative to the world dir: world-card.md, rules.md or canon/<name>. */
+  file: string;
+  author: string;
+  source: WorldRevisionSource;
+  createdAt: string;
+  /** sha256 of the stored content. */
+  hash: string;
+  bytes: number;
+  /** Set when this revision restores an earlier one. */
+  restoredFrom?: number;
+};
+
 export class WorldFileStore {
   private logger: Logger;
   private dataRoot: string;
@@ -101,12 +164,20 @@ export class WorldFileStore {
     return path.join(this.characterDir(), "sources", String(characterId));
   }
 
-  async writeWorldCard(worldId: WorldId, content: string): Promise<void> {
-    await this.atomicWrite(this.worldFilePath(worldId, "world_card"), content);
+  async writeWorldCard(
+    worldId: WorldId,
+    content: string,
+    origin: WorldRevisionOrigin,
+  ): Promise<WorldRevisionRecord | null> {
+    return this.writeRevisioned(worldId, "world-card.md", content, origin);
   }
 
-  async writeRules(worldId: WorldId, content: string): Promise<void> {
-    await this.atomicWrite(this.worldFilePath(worldId, "rules"), content);
+  async writeRules(
+    worldId: WorldId,
+    content: string,
+    origin: WorldRevisionOrigin,
+  ): Promise<WorldRevisionRecord | null> {
+    return this.writeRevisioned(worldId, "rules.md", content, origin);
   }
 
   async readWorldCard(worldId: WorldId): Promise<string | null> {
@@ -137,6 +208,42 @@ export class WorldFileStore {
     return this.readTextFile(filePath);
   }
 
+  /** The character's portrait, kept as PNG so it can carry an embedded card. */
+  async writeCharacterPortrait(
+    characterId: number,
+    png: Buffer,
+  ): Promise<void> {
+    if (!Number.isInteger(characterId) || characterId <= 0) {
+      throw new Error("characterId must be a positive integer");
+    }
+    const dir = await this.ensureCharacterDir();
+    await this.atomicWriteBuffer(
+      path.join(dir, `${characterId}.portrait.png`),
+      png,
+    );
+  }
+
+  async readCharacterPortrait(characterId: number): Promise<Buffer | null> {
+    if (!Number.isInteger(characterId) || characterId <= 0) {
+      return null;
+    }
+    const filePath = path.join(
+      this.characterDir(),
+      `${characterId}.portrait.png`,
+    );
+    try {
+      return await readFile(filePath);
+    } catch (err) {
+      if ((err as { code?: unknown })?.code !== "ENOENT") {
+        this.logger.warn(
+          { err, filePath },
+          "Failed to read character portrait",
+        );
+      }
+      return null;
+    }
+  }
+
   async appendCharacterEvent(
     characterId: number,
     event: Record<string, unknown>,
@@ -325,6 +432,7 @@ export class WorldFileStore {
           creatorId: input.creatorId,
           language: input.language,
         }),
+        { author: input.creatorId, source: "command" },
       );
     }
     const existingRules = await this.readRules(input.worldId);
@@ -332,6 +440,7 @@ export class WorldFileStore {
       await this.writeRules(
         input.worldId,
         buildDefaultWorldRules(input.language),
+        { author: input.creatorId, source: "command" },
       );
     }
 
@@ -524,6 +633,13 @@ export class WorldFileStore {
       this.submissionPath(worldId, status, submissionId),
       content,
     );
+    if (status === "approved") {
+      await this.updateSearchIndex(
+        worldId,
+        `submissions/approved/${submissionId}.md`,
+        content,
+      );
+    }
   }
 
   async readSubmission(
@@ -572,7 +688,6 @@ export class WorldFileStore {
     );
     try {
       await rename(fromPath, toPath);
-      return { fromPath, toPath };
     } catch (err) {
       if (err && typeof err === "object" && "code" in err) {
         if ((err as { code?: unknown }).code === "ENOENT") {
@@ -581,15 +696,72 @@ export class WorldFileStore {
       }
       throw err;
     }
+    const indexedFile = `submissions/approved/${input.submissionId}.md`;
+    if (input.to === "approved") {
+      await this.updateSearchIndex(
+        input.worldId,
+        indexedFile,
+        await this.readTextFile(toPath),
+      );
+    } else if (input.from === "approved") {
+      await this.updateSearchIndex(input.worldId, indexedFile, null);
+    }
+    return { fromPath, toPath };
   }
 
-  canonPath(worldId: WorldId, filename: string): string {
-    const safeFilename = filename.trim();
-    if (!safeFilename) {
-      throw new Error("filename is required");
+  async appendSubmissionComment(
+    worldId: WorldId,
+    submissionId: number,
+    comment: WorldSubmissionComment,
+  ): Promise<void> {
+    await this.ensureWorldDir(worldId);
+    const filePath = this.submissionCommentsPath(worldId, submissionId);
+    await mkdir(path.dirname(filePath), { recursive: true });
+    await appendFile(filePath, `${JSON.stringify(comment)}\n`, "utf8");
+  }
+
+  /** Oldest first. */
+  async listSubmissionComments(
+    worldId: WorldId,
+    submissionId: number,
+  ): Promise<WorldSubmissionComment[]> {
+    const raw = await this.readTextFile(
+      this.submissionCommentsPath(worldId, submissionId),
+    );
+    if (!raw) {
+      return [];
     }
-    assertSafePathSegment(safeFilename, "filename");
-    return path.join(this.worldDir(worldId), "canon", safeFilename);
+    const comments: WorldSubmissionComment[] = [];
+    for (const line of raw.split("\n")) {
+      if (!line.trim()) {
+        continue;
+      }
+      try {
+        const parsed = JSON.parse(line) as Partial<WorldSubmissionComment>;
+        if (
+          typeof parsed.userId === "string" &&
+          typeof parsed.content === "string" &&
+          typeof parsed.createdAt === "string"
+        ) {
+          comments.push({
+            userId: parsed.userId,
+            content: parsed.content,
+            createdAt: parsed.createdAt,
+          });
+        }
+      } catch {
+        continue;
+      }
+    }
+    return comments;
+  }
+
+  canonPath(worldId: WorldId, filename: string): string {
+    return path.join(
+      this.worldDir(worldId),
+      "canon",
+      normalizeCanonFilename(filename),
+    );
   }
 
   private worldImageIndexPath(worldId: WorldId): string {
@@ -601,26 +773,409 @@ export class WorldFileStore {
     return this.readTextFile(this.canonPath(worldId, filename));
   }
 
+  /** Text documents under canon/, sorted by filename. */
+  async listCanonFiles(worldId: WorldId): Promise<WorldCanonFileInfo[]> {
+    const dir = path.join(this.worldDir(worldId), "canon");
+    const entries = await readdir(dir, { withFileTypes: true }).catch(() => []);
+    const filenames = entries
+      .filter(
+        (entry) =>
+          entry.isFile() &&
+          isSafePathSegment(entry.name) &&
+          /\.(?:md|markdown|txt)$/i.test(entry.name),
+      )
+      .map((entry) => entry.name)
+      .sort((a, b) => a.localeCompare(b));
+    const files = await Promise.all(
+      filenames.map(async (filename) => {
+        const info = await stat(path.join(dir, filename)).catch(() => null);
+        return info
+          ? { filename, size: info.size, updatedAt: info.mtime.toISOString() }
+          : null;
+      }),
+    );
+    return files.filter((file): file is WorldCanonFileInfo => file !== null);
+  }
+
   async writeCanon(
     worldId: WorldId,
     filename: string,
     content: string,
-  ): Promise<void> {
+    origin: WorldRevisionOrigin,
+  ): Promise<WorldRevisionRecord | null> {
     await this.ensureWorldDir(worldId);
-    await this.atomicWrite(this.canonPath(worldId, filename), content);
+    return this.writeRevisioned(
+      worldId,
+      `canon/${normalizeCanonFilename(filename)}`,
+      content,
+      origin,
+    );
   }
 
   async appendCanon(
     worldId: WorldId,
     filename: string,
     content: string,
-  ): Promise<void> {
+    origin: WorldRevisionOrigin,
+  ): Promise<WorldRevisionRecord | null> {
     await this.ensureWorldDir(worldId);
-    const filePath = this.canonPath(worldId, filename);
-    await appendFile(
+    const file = `canon/${normalizeCanonFilename(filename)}`;
+    const filePath = this.revisionedFilePath(worldId, file);
+    return this.withWorldLock(worldId, "revisions", async () => {
+      await this.recordBaselineRevision(worldId, file);
+      await appendFile(
+        filePath,
+        content.endsWith("\n") ? content : `${content}\n`,
+        "utf8",
+      );
+      const updated = await this.readTextFile(filePath);
+      if (updated === null) {
+        return null;
+      }
+      await this.updateSearchIndex(worldId, file, updated);
+      return this.recordRevision(worldId, file, updated, origin);
+    });
+  }
+
+  /** Newest first; does not create the world directory. */
+  async listRevisions(
+    worldId: WorldId,
+    options: { file?: string; limit?: number } = {},
+  ): Promise<WorldRevisionRecord[]> {
+    const raw = await this.readTextFile(this.revisionIndexPath(worldId));
+    const records = parseWorldRevisionIndex(raw)
+      .filter((record) => !options.file || record.file === options.file)
+      .reverse();
+    const limit = options.limit ?? 0;
+    return limit > 0 ? records.slice(0, limit) : records;
+  }
+
+  async readRevision(
+    worldId: WorldId,
+    rev: number,
+  ): Promise<{ record: WorldRevisionRecord; content: string } | null> {
+    if (!Number.isInteger(rev) || rev <= 0) {
+      return null;
+    }
+    const records = await this.listRevisions(worldId);
+    const record = records.find((entry) => entry.rev === rev);
+    if (!record) {
+      return null;
+    }
+    const content = await this.readTextFile(this.revisionPath(worldId, rev));
+    return content === null ? null : { record, content };
+  }
+
+  /** The revision of the same file right before rev, if any. */
+  async readPreviousRevision(
+    worldId: WorldId,
+    record: WorldRevisionRecord,
+  ): Promise<{ record: WorldRevisionRecord; content: string } | null> {
+    const previous = (
+      await this.listRevisions(worldId, { file: record.file })
+    ).find((entry) => entry.rev < record.rev);
+    return previous ? this.readRevision(worldId, previous.rev) : null;
+  }
+
+  /** Writes the stored content of rev back as a new revision. */
+  async rollbackToRevision(
+    worldId: WorldId,
+    rev: number,
+    author: string,
+  ): Promise<WorldRevisionRecord | null> {
+    const target = await this.readRevision(worldId, rev);
+    if (!target) {
+      return null;
+    }
+    return this.writeRevisioned(
+      worldId,
+      target.record.file,
+      target.content,
+      { author, source: "rollback" },
+      rev,
+    );
+  }
+
+  async readWorldLorebook(worldId: WorldId): Promise<WorldLorebook> {
+    return parseWorldLorebook(
+      await this.readTextFile(this.lorebookPath(worldId)),
+    );
+  }
+
+  /**
+   * Applies mutate to the stored lorebook and writes the result back.
+   * Returns whatever mutate returns; the book is saved even when it is not
+   * changed.
+   */
+  async updateWorldLorebook<T>(
+    worldId: WorldId,
+    mutate: (lorebook: WorldLorebook) => T,
+  ): Promise<T> {
+    return this.updateJsonFile(
+      worldId,
+      "lorebook",
+      this.lorebookPath(worldId),
+      () => this.readWorldLorebook(worldId),
+      mutate,
+    );
+  }
+
+  async readWorldQuests(worldId: WorldId): Promise<WorldQuestLog> {
+    return parseWorldQuestLog(
+      await this.readTextFile(this.questsPath(worldId)),
+    );
+  }
+
+  /**
+   * Applies mutate to the stored quest log and writes the result back.
+   * Returns whatever mutate returns.
+   */
+  async updateWorldQuests<T>(
+    worldId: WorldId,
+    mutate: (log: WorldQuestLog) => T,
+  ): Promise<T> {
+    return this.updateJsonFile(
+      worldId,
+      "quests",
+      this.questsPath(worldId),
+      () => this.readWorldQuests(worldId),
+      mutate,
+    );
+  }
+
+  /** The world's own calendar, or null when it uses the default one. */
+  async readWorldCalendar(worldId: WorldId): Promise<WorldCalendar | null> {
+    return readStoredWorldCalendar(
+      await this.readTextFile(this.calendarPath(worldId)),
+    );
+  }
+
+  async writeWorldCalendar(
+    worldId: WorldId,
+    calendar: WorldCalendar,
+  ): Promise<void> {
+    await this.atomicWrite(
+      this.calendarPath(worldId),
+      JSON.stringify(calendar, null, 2),
+    );
+  }
+
+  /** Timeline plus the calendar its times are read with. */
+  async readWorldTimeline(
+    worldId: WorldId,
+  ): Promise<{ calendar: WorldCalendar; timeline: WorldTimeline }> {
+    const [calendar, raw] = await Promise.all([
+      this.readWorldCalendar(worldId),
+      this.readTextFile(this.timelinePath(worldId)),
+    ]);
+    return {
+      calendar: calendar ?? DEFAULT_WORLD_CALENDAR,
+      timeline: parseWorldTimeline(raw),
+    };
+  }
+
+  /**
+   * Applies mutate to the stored timeline and writes the result back.
+   * Returns whatever mutate returns.
+   */
+  async updateWorldTimeline<T>(
+    worldId: WorldId,
+    mutate: (timeline: WorldTimeline, calendar: WorldCalendar) => T,
+  ): Promise<T> {
+    const calendar =
+      (await this.readWorldCalendar(worldId)) ?? DEFAULT_WORLD_CALENDAR;
+    const filePath = this.timelinePath(worldId);
+    return this.updateJsonFile(
+      worldId,
+      "timeline",
       filePath,
-      content.endsWith("\n") ? content : `${content}\n`,
-      "utf8",
+      async () => parseWorldTimeline(await this.readTextFile(filePath)),
+      (timeline) => mutate(timeline, calendar),
+    );
+  }
+
+  async readCharacterSheetSchema(
+    worldId: WorldId,
+  ): Promise<CharacterSheetSchema | null> {
+    return readStoredCharacterSheetSchema(
+      await this.readTextFile(this.characterSheetSchemaPath(worldId)),
+    );
+  }
+
+  async writeCharacterSheetSchema(
+    worldId: WorldId,
+    schema: CharacterSheetSchema,
+  ): Promise<void> {
+    await this.atomicWrite(
+      this.characterSheetSchemaPath(worldId),
+      JSON.stringify(schema, null, 2),
+    );
+  }
+
+  /**
+   * The character's sheet in this world, filled with schema defaults when it
+   * has not been written yet. Null when the world defines no sheet schema.
+   */
+  async readCharacterSheet(
+    worldId: WorldId,
+    characterId: number,
+  ): Promise<{ schema: CharacterSheetSchema; sheet: CharacterSheet } | null> {
+    const schema = await this.readCharacterSheetSchema(worldId);
+    if (!schema) {
+      return null;
+    }
+    const raw = await this.readTextFile(
+      this.characterSheetPath(worldId, characterId),
+    );
+    return { schema, sheet: parseCharacterSheet(schema, characterId, raw) };
+  }
+
+  /**
+   * Applies mutate to the character's sheet and writes the result back.
+   * Returns null without writing when the world defines no sheet schema.
+   */
+  async updateCharacterSheet<T>(
+    worldId: WorldId,
+    characterId: number,
+    mutate: (sheet: CharacterSheet, schema: CharacterSheetSchema) => T,
+  ): Promise<T | null> {
+    const schema = await this.readCharacterSheetSchema(worldId);
+    if (!schema) {
+      return null;
+    }
+    const filePath = this.characterSheetPath(worldId, characterId);
+    return this.updateJsonFile(
+      worldId,
+      `character-sheet-${characterId}`,
+      filePath,
+      async () =>
+        parseCharacterSheet(
+          schema,
+          characterId,
+          await this.readTextFile(filePath),
+        ),
+      (sheet) => mutate(sheet, schema),
+    );
+  }
+
+  /**
+   * Ranked search over the world card, rules, canon files and approved
+   * submissions. Does not create the world directory.
+   */
+  async searchWorld(
+    worldId: WorldId,
+    query: string,
+    options: WorldSearchOptions = {},
+  ): Promise<WorldSearchHit[]> {
+    return searchWorldIndex(
+      await this.readSearchIndex(worldId),
+      query,
+      options,
+    );
+  }
+
+  /** Builds the index from disk when it is missing or unreadable. */
+  async readSearchIndex(worldId: WorldId): Promise<WorldSearchIndex> {
+    const existing = parseWorldSearchIndex(
+      await this.readTextFile(this.searchIndexPath(worldId)),
+    );
+    if (existing) {
+      return existing;
+    }
+    const rebuilt = await this.buildSearchIndexFromDisk(worldId);
+    if (Object.keys(rebuilt.docs).length === 0) {
+      return rebuilt;
+    }
+    return this.withWorldLock(worldId, "search-index", async () => {
+      const filePath = this.searchIndexPath(worldId);
+      const written = parseWorldSearchIndex(await this.readTextFile(filePath));
+      if (written) {
+        return written;
+      }
+      await this.atomicWrite(filePath, JSON.stringify(rebuilt));
+      return rebuilt;
+    });
+  }
+
+  private async buildSearchIndexFromDisk(
+    worldId: WorldId,
+  ): Promise<WorldSearchIndex> {
+    const dir = this.worldDir(worldId);
+    const files = ["world-card.md", "rules.md"];
+    const canonEntries = await readdir(path.join(dir, "canon"), {
+      withFileTypes: true,
+    }).catch(() => []);
+    for (const entry of canonEntries) {
+      if (entry.isFile() && entry.name.endsWith(".md")) {
+        files.push(`canon/${entry.name}`);
+      }
+    }
+    const approvedEntries = await readdir(
+      path.join(dir, "submissions", "approved"),
+      { withFileTypes: true },
+    ).catch(() => []);
+    for (const entry of approvedEntries) {
+      if (entry.isFile() && entry.name.endsWith(".md")) {
+        files.push(`submissions/approved/${entry.name}`);
+      }
+    }
+
+    let index = createEmptyWorldSearchIndex();
+    for (const file of files) {
+      const content = await this.readTextFile(path.join(dir, file));
+      if (content !== null) {
+        index = updateWorldSearchIndex(index, file, content);
+      }
+    }
+    return index;
+  }
+
+  /** Index failures are logged, never surfaced: the file write already succeeded. */
+  private async updateSearchIndex(
+    worldId: WorldId,
+    file: string,
+    content: string | null,
+  ): Promise<void> {
+    await this.withWorldLock(worldId, "search-index", async () => {
+      const filePath = this.searchIndexPath(worldId);
+      const existing = parseWorldSearchIndex(await this.readTextFile(filePath));
+      const index = existing
+        ? updateWorldSearchIndex(existing, file, content)
+        : await this.buildSearchIndexFromDisk(worldId);
+      await this.atomicWrite(filePath, JSON.stringify(index));
+    }).catch((err) => {
+      this.logger.warn({ err, worldId, file }, "Failed to update search index");
+    });
+  }
+
+  /** Locked read-modify-write of a JSON file; mutate edits state in place. */
+  private updateJsonFile<S, T>(
+    worldId: WorldId,
+    lockName: string,
+    filePath: string,
+    read: () => Promise<S>,
+    mutate: (state: S) => T,
+  ): Promise<T> {
+    return this.withWorldLock(worldId, lockName, async () => {
+      const state = await read();
+      const result = mutate(state);
+      await this.atomicWrite(filePath, JSON.stringify(state, null, 2));
+      return result;
+    });
+  }
+
+  /**
+   * Read-modify-write of shared world files goes through here: the adapter
+   * and the worker both write them, so an in-process queue is not enough.
+   */
+  private withWorldLock<T>(
+    worldId: WorldId,
+    name: string,
+    fn: () => Promise<T>,
+  ): Promise<T> {
+    return withFileLock(
+      path.join(this.worldDir(worldId), ".locks", `${name}.lock`),
+      fn,
     );
   }
 
@@ -706,6 +1261,181 @@ export class WorldFileStore {
     throw new Error(`Unknown world file kind: ${kind}`);
   }
 
+  private submissionCommentsPath(
+    worldId: WorldId,
+    submissionId: number,
+  ): string {
+    if (!Number.isInteger(submissionId) || submissionId <= 0) {
+      throw new Error("submissionId must be a positive integer");
+    }
+    return path.join(
+      this.worldDir(normalizeWorldId(worldId)),
+      "submissions",
+      "comments",
+      `${submissionId}.jsonl`,
+    );
+  }
+
+  private characterSheetSchemaPath(worldId: WorldId): string {
+    return path.join(this.worldDir(worldId), "character-sheet.json");
+  }
+
+  private characterSheetPath(worldId: WorldId, characterId: number): string {
+    if (!Number.isInteger(characterId) || characterId <= 0) {
+      throw new Error("characterId must be a positive integer");
+    }
+    return path.join(
+      this.worldDir(worldId),
+      "character-sheets",
+      `${characterId}.json`,
+    );
+  }
+
+  private calendarPath(worldId: WorldId): string {
+    return path.join(this.worldDir(worldId), "calendar.json");
+  }
+
+  private timelinePath(worldId: WorldId): string {
+    return path.join(this.worldDir(worldId), "timeline.json");
+  }
+
+  private questsPath(worldId: WorldId): string {
+    return path.join(this.worldDir(worldId), "quests.json");
+  }
+
+  private lorebookPath(worldId: WorldId): string {
+    return path.join(this.worldDir(worldId), "lorebook.json");
+  }
+
+  private searchIndexPath(worldId: WorldId): string {
+    return path.join(this.worldDir(worldId), "search-index.json");
+  }
+
+  private revisionIndexPath(worldId: WorldId): string {
+    return path.join(this.worldDir(worldId), "revisions", "index.jsonl");
+  }
+
+  private revisionPath(worldId: WorldId, rev: number): string {
+    return path.join(this.worldDir(worldId), "revisions", `${rev}.md`);
+  }
+
+  private revisionedFilePath(worldId: WorldId, file: string): string {
+    if (file === "world-card.md") {
+      return this.worldFilePath(worldId, "world_card");
+    }
+    if (file === "rules.md") {
+      return this.worldFilePath(worldId, "rules");
+    }
+    if (file.startsWith("canon/")) {
+      return this.canonPath(worldId, file.slice("canon/".length));
+    }
+    throw new Error(`Unsupported revisioned file: ${file}`);
+  }
+
+  private async writeRevisioned(
+    worldId: WorldId,
+    file: string,
+    content: string,
+    origin: WorldRevisionOrigin,
+    restoredFrom?: number,
+  ): Promise<WorldRevisionRecord | null> {
+    const normalized = content.endsWith("\n") ? content : `${content}\n`;
+    return this.withWorldLock(worldId, "revisions", async () => {
+      await this.recordBaselineRevision(worldId, file);
+      await this.atomicWrite(
+        this.revisionedFilePath(worldId, file),
+        normalized,
+      );
+      await this.updateSearchIndex(worldId, file, normalized);
+      return this.recordRevision(
+        worldId,
+        file,
+        normalized,
+        origin,
+        restoredFrom,
+      );
+    });
+  }
+
+  /**
+   * Files written before revision tracking (or by hand) have no history yet;
+   * snapshot them first so the change can still be diffed and rolled back.
+   */
+  private async recordBaselineRevision(
+    worldId: WorldId,
+    file: string,
+  ): Promise<void> {
+    const existing = await this.listRevisions(worldId, { file, limit: 1 });
+    if (existing.length > 0) {
+      return;
+    }
+    const current = await this.readTextFile(
+      this.revisionedFilePath(worldId, file),
+    );
+    if (!current?.trim()) {
+      return;
+    }
+    await this.recordRevision(worldId, file, current, {
+      author: "system",
+      source: "baseline",
+    });
+  }
+
+  /**
+   * Callers hold the "revisions" lock, so the baseline check, the file write
+   * and the index append land together. Snapshots are still created
+   * exclusively (wx) so a revision number is never reused or overwritten.
+   * Returns null when the content did not change.
+   */
+  private async recordRevision(
+    worldId: WorldId,
+    file: string,
+    content: string,
+    origin: WorldRevisionOrigin,
+    restoredFrom?: number,
+  ): Promise<WorldRevisionRecord | null> {
+    const hash = createHash("sha256").update(content, "utf8").digest("hex");
+    const existing = await this.listRevisions(worldId);
+    const latestForFile = existing.find((record) => record.file === file);
+    if (latestForFile?.hash === hash && restoredFrom === undefined) {
+      return null;
+    }
+    await mkdir(path.join(this.worldDir(worldId), "revisions"), {
+      recursive: true,
+    });
+    let rev = (existing[0]?.rev ?? 0) + 1;
+    for (;;) {
+      try {
+        await writeFile(this.revisionPath(worldId, rev), content, {
+          encoding: "utf8",
+          flag: "wx",
+        });
+        break;
+      } catch (err) {
+        if ((err as { code?: unknown })?.code !== "EEXIST") {
+          throw err;
+        }
+        rev += 1;
+      }
+    }
+    const record: WorldRevisionRecord = {
+      rev,
+      file,
+      author: origin.author,
+      source: origin.source,
+      createdAt: new Date().toISOString(),
+      hash,
+      bytes: Buffer.byteLength(content, "utf8"),
+      ...(restoredFrom !== undefined ? { restoredFrom } : {}),
+    };
+    await appendFile(
+      this.revisionIndexPath(worldId),
+      `${JSON.stringify(record)}\n`,
+      "utf8",
+    );
+    return record;
+  }
+
   private async readTextFile(filePath: string): Promise<string | null> {
     try {
       await access(filePath, constants.F_OK);
@@ -752,6 +1482,59 @@ export class WorldFileStore {
   }
 }
 
+const WORLD_REVISION_SOURCES: ReadonlySet<string> = new Set([
+  "command",
+  "ai_session",
+  "import",
+  "approval",
+  "rollback",
+  "baseline",
+]);
+
+/** Skips malformed lines so one bad append never hides the whole history. */
+export function parseWorldRevisionIndex(
+  raw: string | null,
+): WorldRevisionRecord[] {
+  if (!raw) {
+    return [];
+  }
+  const records: WorldRevisionRecord[] = [];
+  for (const line of raw.split("\n")) {
+    if (!line.trim()) {
+      continue;
+    }
+    try {
+      const parsed = JSON.parse(line) as Partial<WorldRevisionRecord>;
+      if (
+        typeof parsed.rev !== "number" ||
+        typeof parsed.file !== "string" ||
+        typeof parsed.author !== "string" ||
+        typeof parsed.source !== "string" ||
+        !WORLD_REVISION_SOURCES.has(parsed.source) ||
+        typeof parsed.createdAt !== "string" ||
+        typeof parsed.hash !== "string"
+      ) {
+        continue;
+      }
+      records.push({
+        rev: parsed.rev,
+        file: parsed.file,
+        author: parsed.author,
+        source: parsed.source,
+        createdAt: parsed.createdAt,
+        hash: parsed.hash,
+        bytes: typeof parsed.bytes === "number" ? parsed.bytes : 0,
+        ...(typeof parsed.restoredFrom === "number"
+          ? { restoredFrom: parsed.restoredFrom }
+          : {}),
+      });
+    } catch {
+      continue;
+    }
+  }
+  return records.sort((a, b) => a.rev - b.rev);
+}
+
 function parseWorldImageIndex(raw: string | null): WorldImageAssetRecord[] {
   if (!raw) {
     return [];
@@ -847,6 +1630,16 @@ const ALLOWED_WORLD_IMAGE_EXTENSIONS = new Set([
   ".bmp",
 ]);
 
+/** Trims and validates a canon/ filename; throws when it is empty or unsafe. */
+function normalizeCanonFilename(filename: string): string {
+  const safeFilename = filename.trim();
+  if (!safeFilename) {
+    throw new Error("filename is required");
+  }
+  assertSafePathSegment(safeFilename, "filename");
+  return safeFilename;
+}
+
 function sanitizeSourceFilename(filename: string): string {
   const raw = filename.trim() || "document.txt";
   const parts = raw.split("/").filter(Boolean);
@@ -0,0 +1,340 @@
+import { asRecord } from "../utils/record";
+import { testRegexesWithinBudget } from "../utils/regex-budget";
+
+export type WorldLoreEntry = {
+  id: number;
+  title: string;
+  /** Case-insensitive substrings; any match triggers the entry. */
+  keys: string[];
+  /** Optional case-insensitive regex source, checked in addition to keys. */
+  regex?: string;
+  content: string;
+  /** Higher priorities are injected first when the budget is tight. */
+  priority: number;
+  /** Max bytes of this entry's content to inject; 0 means no per-entry cap. */
+  budgetBytes: number;
+  enabled: boolean;
+  authorId: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type WorldLoreEntryInput = Pick<
+  WorldLoreEntry,
+  | "title"
+  | "keys"
+  | "regex"
+  | "content"
+  | "priority"
+  | "budgetBytes"
+  | "enabled"
+>;
+
+export type WorldLorebook = {
+  version: 1;
+  nextId: number;
+  entries: WorldLoreEntry[];
+};
+
+export type WorldLoreInjection = {
+  entry: WorldLoreEntry;
+  /** Content after the per-entry cap. */
+  content: string;
+};
+
+export const DEFAULT_WORLD_LORE_PRIORITY = 100;
+const MAX_LORE_REGEX_LENGTH = 200;
+/** Regexes only see the tail of the scanned text, where the newest message is. */
+const MAX_LORE_REGEX_INPUT_CHARS = 2_000;
+/** Wall-clock budget for all of one scan's regexes together. */
+const LORE_REGEX_TIME_BUDGET_MS = 1_000;
+
+export function createEmptyWorldLorebook(): WorldLorebook {
+  return { version: 1, nextId: 1, entries: [] };
+}
+
+export function parseWorldLorebook(raw: string | null): WorldLorebook {
+  if (!raw) {
+    return createEmptyWorldLorebook();
+  }
+  try {
+    const parsed = JSON.parse(raw) as Partial<WorldLorebook>;
+    if (parsed.version !== 1 || !Array.isArray(parsed.entries)) {
+      return createEmptyWorldLorebook();
+    }
+    const entries = parsed.entries.filter(
+      (entry): entry is WorldLoreEntry =>
+        Boolean(entry) &&
+        Number.isInteger(entry.id) &&
+        typeof entry.content === "string" &&
+        Array.isArray(entry.keys),
+    );
+    const maxId = entries.reduce((max, entry) => Math.max(max, entry.id), 0);
+    const nextId =
+      typeof parsed.nextId === "number" && parsed.nextId > maxId
+        ? parsed.nextId
+        : maxId + 1;
+    return { version: 1, nextId, entries };
+  } catch {
+    return createEmptyWorldLorebook();
+  }
+}
+
+/** Returns an error message, or null when the regex is usable. */
+export function validateWorldLoreRegex(source: string): string | null {
+  if (source.length > MAX_LORE_REGEX_LENGTH) {
+    return `regex is longer than ${MAX_LORE_REGEX_LENGTH} characters`;
+  }
+  if (hasNestedRepetition(source)) {
+    return "regex must not repeat a group that contains a quantifier or |";
+  }
+  try {
+    new RegExp(source, "iu");
+    return null;
+  } catch (err) {
+    return err instanceof Error ? err.message : String(err);
+  }
+}
+
+export function splitWorldLoreKeys(value: string): string[] {
+  return [
+    ...new Set(
+      value
+        .split(/[,，、\n]/)
+        .map((key) => key.trim())
+        .filter(Boolean),
+    ),
+  ];
+}
+
+export async function worldLoreEntryMatches(
+  entry: WorldLoreEntry,
+  text: string,
+): Promise<boolean> {
+  return (await findTriggeredWorldLoreEntries([entry], text)).length > 0;
+}
+
+/**
+ * Enabled entries whose keys or regex match text. Regexes run only for
+ * entries no key triggered, together under one time budget; see
+ * testRegexesWithinBudget.
+ */
+async function findTriggeredWorldLoreEntries(
+  entries: WorldLoreEntry[],
+  text: string,
+): Promise<WorldLoreEntry[]> {
+  if (!text) {
+    return [];
+  }
+  const haystack = text.normalize("NFKC").toLowerCase();
+  const triggered = new Set<WorldLoreEntry>();
+  const regexEntries: WorldLoreEntry[] = [];
+  for (const entry of entries) {
+    if (!entry.enabled) {
+      continue;
+    }
+    if (
+      entry.keys.some((key) =>
+        haystack.includes(key.normalize("NFKC").toLowerCase()),
+      )
+    ) {
+      triggered.add(entry);
+    } else if (entry.regex && !validateWorldLoreRegex(entry.regex)) {
+      regexEntries.push(entry);
+    }
+  }
+  const matches = await testRegexesWithinBudget(
+    regexEntries.map((entry) => entry.regex ?? ""),
+    "iu",
+    text.slice(-MAX_LORE_REGEX_INPUT_CHARS),
+    LORE_REGEX_TIME_BUDGET_MS,
+  );
+  regexEntries.forEach((entry, i) => {
+    if (matches[i]) {
+      triggered.add(entry);
+    }
+  });
+  return entries.filter((entry) => triggered.has(entry));
+}
+
+/**
+ * True for a repeated group that itself repeats or alternates, e.g. `(a+)+`
+ * or `(a|aa)*`: the shapes that make backtracking blow up on crafted input.
+ */
+function hasNestedRepetition(source: string): boolean {
+  // Per open group: whether it contains a quantifier or an alternation.
+  const groups: boolean[] = [];
+  let closedRiskyGroup = false;
+  for (let i = 0; i < source.length; i += 1) {
+    const char = source[i];
+    const afterRiskyGroup = closedRiskyGroup;
+    closedRiskyGroup = false;
+    if (char === "\\") {
+      i += 1;
+    } else if (char === "[") {
+      for (i += 1; i < source.length && source[i] !== "]"; i += 1) {
+        if (source[i] === "\\") {
+          i += 1;
+        }
+      }
+    } else if (char === "(") {
+      groups.push(false);
+    } else if (char === ")") {
+      closedRiskyGroup = groups.pop() ?? false;
+      if (closedRiskyGroup && groups.length > 0) {
+        groups[groups.length - 1] = true;
+      }
+    } else if (
+      char === "|" ||
+      char === "*" ||
+      char === "+" ||
+      (char === "{" && /^\{\d+(?:,\d*)?\}/.test(source.slice(i)))
+    ) {
+      if (char !== "|" && afterRiskyGroup) {
+        return true;
+      }
+      if (groups.length > 0) {
+        groups[groups.length - 1] = true;
+      }
+    }
+  }
+  return false;
+}
+
+/**
+ * Picks triggered entries by priority (then id) and fits them into
+ * maxBytes; an entry that does not fit is skipped so smaller, lower
+ * priority entries can still be used.
+ */
+export async function selectWorldLoreInjections(
+  entries: WorldLoreEntry[],
+  text: string,
+  maxBytes: number,
+): Promise<WorldLoreInjection[]> {
+  if (maxBytes <= 0) {
+    return [];
+  }
+  const triggered = (await findTriggeredWorldLoreEntries(entries, text)).sort(
+    (a, b) => b.priority - a.priority || a.id - b.id,
+  );
+  const selected: WorldLoreInjection[] = [];
+  let used = 0;
+  for (const entry of triggered) {
+    const content = truncateUtf8(entry.content.trim(), entry.budgetBytes);
+    const cost = Buffer.byteLength(formatLoreBlock(entry.title, content));
+    if (!content || used + cost > maxBytes) {
+      continue;
+    }
+    selected.push({ entry, content });
+    used += cost;
+  }
+  return selected;
+}
+
+export function formatWorldLoreContext(
+  injections: WorldLoreInjection[],
+): string {
+  return injections
+    .map((injection) =>
+      formatLoreBlock(injection.entry.title, injection.content),
+    )
+    .join("\n\n");
+}
+
+/**
+ * Reads lorebook JSON from our own export, a Tavern `character_book` (bare
+ * or inside a V2/V3 card) or a SillyTavern world info file.
+ */
+export function parseWorldLoreImport(raw: string): WorldLoreEntryInput[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw.trim());
+  } catch {
+    throw new Error("not a valid JSON lorebook");
+  }
+  const root = asRecord(parsed);
+  const card = asRecord(asRecord(root?.data)?.character_book);
+  const container = card ?? asRecord(root?.character_book) ?? root;
+  const rawEntries = container?.entries;
+  const list = Array.isArray(rawEntries)
+    ? rawEntries
+    : asRecord(rawEntries)
+      ? Object.values(asRecord(rawEntries) ?? {})
+      : null;
+  if (!list) {
+    throw new Error("lorebook has no entries");
+  }
+
+  const entries: WorldLoreEntryInput[] = [];
+  for (const item of list) {
+    const entry = asRecord(item);
+    const content = readString(entry?.content).trim();
+    if (!entry || !content) {
+      continue;
+    }
+    const keys = [
+      ...readStringList(entry.keys),
+      ...readStringList(entry.key),
+      ...readStringList(entry.secondary_keys),
+      ...readStringList(entry.keysecondary),
+    ];
+    const useRegex = entry.use_regex === true || entry.regex === true;
+    const regex =
+      typeof entry.regex === "string" && entry.regex.trim()
+        ? entry.regex.trim()
+        : useRegex && keys[0] && !validateWorldLoreRegex(keys[0])
+          ? keys[0]
+          : undefined;
+    const priority = [entry.priority, entry.insertion_order, entry.order].find(
+      (value): value is number =>
+        typeof value === "number" && Number.isFinite(value),
+    );
+    const budgetBytes = Number(entry.budgetBytes);
+    entries.push({
+      title:
+        readString(entry.title).trim() ||
+        readString(entry.name).trim() ||
+        readString(entry.comment).trim() ||
+        keys[0] ||
+        content.slice(0, 20),
+      keys: [...new Set(keys.map((key) => key.trim()).filter(Boolean))],
+      regex: regex && !validateWorldLoreRegex(regex) ? regex : undefined,
+      content,
+      priority: Math.round(priority ?? DEFAULT_WORLD_LORE_PRIORITY),
+      budgetBytes:
+        Number.isInteger(budgetBytes) && budgetBytes > 0 ? budgetBytes : 0,
+      enabled: entry.enabled !== false && entry.disable !== true,
+    });
+  }
+  return entries;
+}
+
+function formatLoreBlock(title: string, content: string): string {
+  return `### ${title}\n${content}`;
+}
+
+function truncateUtf8(value: string, maxBytes: number): string {
+  if (maxBytes <= 0 || Buffer.byteLength(value) <= maxBytes) {
+    return value;
+  }
+  // Leave room for the ellipsis and drop a code point cut in half.
+  const head = Buffer.from(value, "utf8")
+    .subarray(0, Math.max(0, maxBytes - 3))
+    .toString("utf8")
+    .replace(/\uFFFD+$/, "")
+    .trimEnd();
+  return head ? `${head}…` : "";
+}
+
+function readString(value: unknown): string {
+  return typeof value === "string" ? value : "";
+}
+
+function readStringList(value: unknown): string[] {
+  if (typeof value === "string") {
+    return splitWorldLoreKeys(value);
+  }
+  return Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === "string")
+    : [];
+}
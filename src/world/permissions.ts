@@ -0,0 +1,149 @@
+import type { UserLanguage } from "../user/state-store";
+import type { WorldMeta, WorldStaffRole } from "./store-types";
+
+/** Owner is `WorldMeta.creatorId`; staff roles live in `WorldStore`. */
+export type WorldRole = "owner" | WorldStaffRole | "member";
+
+export type WorldAction =
+  /** See a world (and its docs) before it is published. */
+  | "view_draft"
+  /** Open the build thread, import/export docs, upload images and covers. */
+  | "edit"
+  | "publish"
+  | "view_history"
+  | "rollback"
+  | "review_submission"
+  | "vote_submission"
+  | "configure"
+  /** Edit other players' character sheets (GM adjustments). */
+  | "manage_sheets"
+  /** Advance the in-world clock and edit timeline entries. */
+  | "manage_timeline"
+  | "manage_staff"
+  /** Archive/unarchive a published world. */
+  | "archive"
+  | "transfer";
+
+const ROLE_ACTIONS: Record<WorldRole, ReadonlySet<WorldAction>> = {
+  owner: new Set<WorldAction>([
+    "view_draft",
+    "edit",
+    "publish",
+    "view_history",
+    "rollback",
+    "review_submission",
+    "vote_submission",
+    "configure",
+    "manage_sheets",
+    "manage_timeline",
+    "manage_staff",
+    "archive",
+    "transfer",
+  ]),
+  editor: new Set<WorldAction>([
+    "view_draft",
+    "edit",
+    "publish",
+    "view_history",
+    "rollback",
+    "review_submission",
+    "vote_submission",
+    "configure",
+    "manage_sheets",
+    "manage_timeline",
+  ]),
+  moderator: new Set<WorldAction>([
+    "view_draft",
+    "review_submission",
+    "vote_submission",
+    "manage_sheets",
+    "manage_timeline",
+  ]),
+  member: new Set<WorldAction>(["vote_submission"]),
+};
+
+const ROLE_LABELS: Record<WorldRole, { zh: string; en: string }> = {
+  owner: { zh: "创作者", en: "owner" },
+  editor: { zh: "编辑", en: "editor" },
+  moderator: { zh: "管理员", en: "moderator" },
+  member: { zh: "成员", en: "member" },
+};
+
+/** The subset of WorldStore the policy reads. */
+export interface WorldRoleLookup {
+  getWorldStaffRole(
+    worldId: number,
+    userId: string,
+  ): Promise<WorldStaffRole | null>;
+  isMember(worldId: number, userId: string): Promise<boolean>;
+}
+
+export function worldRoleAllows(
+  role: WorldRole | null,
+  action: WorldAction,
+): boolean {
+  return role !== null && ROLE_ACTIONS[role].has(action);
+}
+
+/** Highest role wins: owner, then staff role, then membership. */
+export async function resolveWorldRole(
+  lookup: WorldRoleLookup,
+  meta: Pick<WorldMeta, "id" | "creatorId">,
+  userId: string,
+): Promise<WorldRole | null> {
+  if (!userId) {
+    return null;
+  }
+  if (meta.creatorId === userId) {
+    return "owner";
+  }
+  const staffRole = await lookup.getWorldStaffRole(meta.id, userId);
+  if (staffRole) {
+    return staffRole;
+  }
+  return (await lookup.isMember(meta.id, userId)) ? "member" : null;
+}
+
+export async function canPerformWorldAction(
+  lookup: WorldRoleLookup,
+  meta: Pick<WorldMeta, "id" | "creatorId">,
+  userId: string,
+  action: WorldAction,
+): Promise<boolean> {
+  return worldRoleAllows(await resolveWorldRole(lookup, meta, userId), action);
+}
+
+/** Drafts are visible to staff only; published worlds to everyone. */
+export async function canViewWorld(
+  lookup: WorldRoleLookup,
+  meta: Pick<WorldMeta, "id" | "creatorId" | "status">,
+  userId: string,
+): Promise<boolean> {
+  return (
+    meta.status !== "draft" ||
+    (await canPerformWorldAction(lookup, meta, userId, "view_draft"))
+  );
+}
+
+export function formatWorldRole(
+  role: WorldRole,
+  language?: UserLanguage | null,
+): string {
+  return language === "en" ? ROLE_LABELS[role].en : ROLE_LABELS[role].zh;
+}
+
+/** e.g. "无权限：只有世界创作者或编辑可以执行该操作。" */
+export function buildWorldPermissionDeniedMessage(
+  action: WorldAction,
+  language?: UserLanguage | null,
+): string {
+  const roles = (Object.keys(ROLE_ACTIONS) as WorldRole[]).filter((role) =>
+    ROLE_ACTIONS[role].has(action),
+  );
+  if (language === "en") {
+    const labels = roles.map((role) => ROLE_LABELS[role].en);
+    return `Permission denied: only the world ${labels.join(" / ")} can do this.`;
+  }
+  const labels = roles.map((role) => ROLE_LABELS[role].zh);
+  return `无权限：只有世界${labels.join("或")}可以执行该操作。`;
+}
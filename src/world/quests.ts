@@ -0,0 +1,547 @@
+import type { UserLanguage } from "../user/state-store";
+import { asRecord } from "../utils/record";
+import { extractReplyBlockChanges } from "./reply-blocks";
+
+export type WorldQuestStatus = "open" | "completed" | "failed";
+
+export type WorldQuestObjectiveStatus = "pending" | "done" | "failed";
+
+export type WorldQuestObjective = {
+  id: number;
+  text: string;
+  status: WorldQuestObjectiveStatus;
+};
+
+export type WorldQuestParticipant = {
+  userId: string;
+  /** Active character when the user joined, kept for display. */
+  characterId?: number;
+  characterName?: string;
+  joinedAt: string;
+};
+
+export type WorldQuest = {
+  id: number;
+  title: string;
+  summary?: string;
+  /** In-world quest giver, e.g. an NPC or faction name. */
+  giver?: string;
+  status: WorldQuestStatus;
+  participants: WorldQuestParticipant[];
+  objectives: WorldQuestObjective[];
+  rewards: string[];
+  /** In-world deadline as free text, e.g. "三日后日落前". */
+  deadline?: string;
+  /** Discord user id, or "ai" for quests created by the narrator. */
+  createdBy: string;
+  createdAt: string;
+  updatedAt: string;
+  closedAt?: string;
+};
+
+export type WorldQuestLog = {
+  version: 1;
+  nextId: number;
+  quests: WorldQuest[];
+};
+
+/** A quest is addressed by id, or by exact title among open quests. */
+export type WorldQuestRef = number | string;
+
+export type WorldQuestChange =
+  | {
+      op: "create";
+      title: string;
+      summary?: string;
+      giver?: string;
+      objectives: string[];
+      rewards: string[];
+      deadline?: string;
+    }
+  | {
+      op: "update";
+      quest: WorldQuestRef;
+      summary?: string;
+      giver?: string;
+      rewards?: string[];
+      deadline?: string;
+    }
+  | { op: "add_objective"; quest: WorldQuestRef; text: string }
+  | {
+      op: "complete_objective" | "fail_objective";
+      quest: WorldQuestRef;
+      objective: number;
+    }
+  | { op: "complete" | "fail" | "join"; quest: WorldQuestRef };
+
+export type WorldQuestChangeResult = {
+  applied: string[];
+  errors: string[];
+};
+
+export type WorldQuestJoinResult =
+  | { kind: "joined" | "already"; quest: WorldQuest }
+  | { kind: "closed"; quest: WorldQuest }
+  | { kind: "full"; quest: WorldQuest }
+  | { kind: "missing" };
+
+export type WorldQuestLeaveResult =
+  { kind: "left" | "not_participant"; quest: WorldQuest } | { kind: "missing" };
+
+const MAX_OPEN_QUESTS = 50;
+const MAX_TITLE_LENGTH = 100;
+const MAX_TEXT_LENGTH = 300;
+const MAX_OBJECTIVES = 20;
+const MAX_REWARDS = 10;
+const MAX_PARTICIPANTS = 20;
+const MAX_QUEST_CHANGES = 20;
+const MAX_CONTEXT_QUESTS = 10;
+
+const STATUS_LABELS: Record<WorldQuestStatus, { zh: string; en: string }> = {
+  open: { zh: "进行中", en: "Open" },
+  completed: { zh: "已完成", en: "Completed" },
+  failed: { zh: "已失败", en: "Failed" },
+};
+
+const OBJECTIVE_MARKERS: Record<WorldQuestObjectiveStatus, string> = {
+  pending: "[ ]",
+  done: "[x]",
+  failed: "[-]",
+};
+
+export function createEmptyWorldQuestLog(): WorldQuestLog {
+  return { version: 1, nextId: 1, quests: [] };
+}
+
+export function parseWorldQuestLog(raw: string | null): WorldQuestLog {
+  if (!raw) {
+    return createEmptyWorldQuestLog();
+  }
+  try {
+    const parsed = JSON.parse(raw) as Partial<WorldQuestLog>;
+    if (parsed.version !== 1 || !Array.isArray(parsed.quests)) {
+      return createEmptyWorldQuestLog();
+    }
+    const quests = parsed.quests.filter(
+      (quest): quest is WorldQuest =>
+        Boolean(quest) &&
+        Number.isInteger(quest.id) &&
+        typeof quest.title === "string" &&
+        Array.isArray(quest.objectives) &&
+        Array.isArray(quest.participants),
+    );
+    const maxId = quests.reduce((max, quest) => Math.max(max, quest.id), 0);
+    const nextId =
+      typeof parsed.nextId === "number" && parsed.nextId > maxId
+        ? parsed.nextId
+        : maxId + 1;
+    return { version: 1, nextId, quests };
+  } catch {
+    return createEmptyWorldQuestLog();
+  }
+}
+
+export function findWorldQuest(
+  log: WorldQuestLog,
+  ref: WorldQuestRef,
+): WorldQuest | null {
+  if (typeof ref === "number") {
+    return log.quests.find((quest) => quest.id === ref) ?? null;
+  }
+  const title = normalizeTitle(ref);
+  return (
+    log.quests.find(
+      (quest) =>
+        quest.status === "open" && normalizeTitle(quest.title) === title,
+    ) ?? null
+  );
+}
+
+/** Validates one change from untrusted JSON; returns null when unusable. */
+export function parseWorldQuestChange(raw: unknown): WorldQuestChange | null {
+  const record = asRecord(raw);
+  const op = typeof record?.op === "string" ? record.op.trim() : "";
+  if (!record || !op) {
+    return null;
+  }
+  const summary = readText(record.summary, MAX_TEXT_LENGTH);
+  const giver = readText(record.giver, MAX_TITLE_LENGTH);
+  const deadline = readText(record.deadline, MAX_TITLE_LENGTH);
+  const rewards = readTextList(record.rewards, MAX_REWARDS);
+  const optional = {
+    ...(summary ? { summary } : {}),
+    ...(giver ? { giver } : {}),
+    ...(deadline ? { deadline } : {}),
+  };
+
+  if (op === "create") {
+    const title = readText(record.title, MAX_TITLE_LENGTH);
+    if (!title) {
+      return null;
+    }
+    return {
+      op,
+      title,
+      ...optional,
+      objectives: readTextList(record.objectives, MAX_OBJECTIVES) ?? [],
+      rewards: rewards ?? [],
+    };
+  }
+
+  const quest = readQuestRef(record.quest);
+  if (quest === null) {
+    return null;
+  }
+  if (op === "update") {
+    return { op, quest, ...optional, ...(rewards ? { rewards } : {}) };
+  }
+  if (op === "add_objective") {
+    const text = readText(record.text, MAX_TEXT_LENGTH);
+    return text ? { op, quest, text } : null;
+  }
+  if (op === "complete_objective" || op === "fail_objective") {
+    const objective = record.objective;
+    return typeof objective === "number" &&
+      Number.isInteger(objective) &&
+      objective > 0
+      ? { op, quest, objective }
+      : null;
+  }
+  if (op === "complete" || op === "fail" || op === "join") {
+    return { op, quest };
+  }
+  return null;
+}
+
+/** Strips ```quest-update blocks from an agent reply. */
+export function extractQuestUpdateBlocks(output: string): {
+  content: string;
+  changes: WorldQuestChange[];
+} {
+  return extractReplyBlockChanges(
+    output,
+    "quest-update",
+    parseWorldQuestChange,
+    MAX_QUEST_CHANGES,
+  );
+}
+
+/**
+ * Applies narrator changes in order. `participant` is who "join" adds, i.e.
+ * the player whose turn produced the changes. Changes on missing or closed
+ * quests are skipped and reported in errors.
+ */
+export function applyWorldQuestChanges(
+  log: WorldQuestLog,
+  changes: WorldQuestChange[],
+  input: {
+    createdBy: string;
+    participant?: Omit<WorldQuestParticipant, "joinedAt">;
+  },
+): WorldQuestChangeResult {
+  const result: WorldQuestChangeResult = { applied: [], errors: [] };
+  const now = new Date().toISOString();
+  for (const change of changes) {
+    if (change.op === "create") {
+      if (
+        log.quests.filter((quest) => quest.status === "open").length >=
+        MAX_OPEN_QUESTS
+      ) {
+        result.errors.push(`too many open quests (max ${MAX_OPEN_QUESTS})`);
+        continue;
+      }
+      const quest: WorldQuest = {
+        id: log.nextId,
+        title: change.title,
+        ...(change.summary ? { summary: change.summary } : {}),
+        ...(change.giver ? { giver: change.giver } : {}),
+        status: "open",
+        participants: [],
+        objectives: change.objectives.map((text, index) => ({
+          id: index + 1,
+          text,
+          status: "pending",
+        })),
+        rewards: change.rewards,
+        ...(change.deadline ? { deadline: change.deadline } : {}),
+        createdBy: input.createdBy,
+        createdAt: now,
+        updatedAt: now,
+      };
+      log.nextId += 1;
+      log.quests.push(quest);
+      result.applied.push(`+Q${quest.id} ${quest.title}`);
+      continue;
+    }
+
+    const quest = findWorldQuest(log, change.quest);
+    if (!quest) {
+      result.errors.push(`quest not found: ${String(change.quest)}`);
+      continue;
+    }
+    if (quest.status !== "open") {
+      result.errors.push(`Q${quest.id} is already ${quest.status}`);
+      continue;
+    }
+
+    if (change.op === "update") {
+      if (change.summary) {
+        quest.summary = change.summary;
+      }
+      if (change.giver) {
+        quest.giver = change.giver;
+      }
+      if (change.rewards) {
+        quest.rewards = change.rewards;
+      }
+      if (change.deadline) {
+        quest.deadline = change.deadline;
+      }
+      result.applied.push(`Q${quest.id} updated`);
+    } else if (change.op === "add_objective") {
+      if (quest.objectives.length >= MAX_OBJECTIVES) {
+        result.errors.push(`Q${quest.id} has too many objectives`);
+        continue;
+      }
+      const id =
+        quest.objectives.reduce((max, item) => Math.max(max, item.id), 0) + 1;
+      quest.objectives.push({ id, text: change.text, status: "pending" });
+      result.applied.push(`Q${quest.id}.${id} +${change.text}`);
+    } else if (
+      change.op === "complete_objective" ||
+      change.op === "fail_objective"
+    ) {
+      const objective = quest.objectives.find(
+        (item) => item.id === change.objective,
+      );
+      if (!objective) {
+        result.errors.push(
+          `objective not found: Q${quest.id}.${change.objective}`,
+        );
+        continue;
+      }
+      objective.status = change.op === "complete_objective" ? "done" : "failed";
+      result.applied.push(
+        `Q${quest.id}.${objective.id} ${OBJECTIVE_MARKERS[objective.status]}`,
+      );
+    } else if (change.op === "join") {
+      if (!input.participant) {
+        result.errors.push(`Q${quest.id}: nobody to join`);
+        continue;
+      }
+      const joined = addParticipant(quest, {
+        ...input.participant,
+        joinedAt: now,
+      });
+      if (joined === "full") {
+        result.errors.push(`Q${quest.id} is full`);
+        continue;
+      }
+      if (joined === "already") {
+        continue;
+      }
+      result.applied.push(`Q${quest.id} +${input.participant.userId}`);
+    } else {
+      quest.status = change.op === "complete" ? "completed" : "failed";
+      quest.closedAt = now;
+      result.applied.push(`Q${quest.id} ${quest.status}`);
+    }
+    quest.updatedAt = now;
+  }
+  return result;
+}
+
+export function joinWorldQuest(
+  log: WorldQuestLog,
+  questId: number,
+  participant: WorldQuestParticipant,
+): WorldQuestJoinResult {
+  const quest = findWorldQuest(log, questId);
+  if (!quest) {
+    return { kind: "missing" };
+  }
+  if (quest.status !== "open") {
+    return { kind: "closed", quest };
+  }
+  const kind = addParticipant(quest, participant);
+  if (kind === "joined") {
+    quest.updatedAt = participant.joinedAt;
+  }
+  return { kind, quest };
+}
+
+export function leaveWorldQuest(
+  log: WorldQuestLog,
+  questId: number,
+  userId: string,
+): WorldQuestLeaveResult {
+  const quest = findWorldQuest(log, questId);
+  if (!quest) {
+    return { kind: "missing" };
+  }
+  const before = quest.participants.length;
+  quest.participants = quest.participants.filter(
+    (participant) => participant.userId !== userId,
+  );
+  if (quest.participants.length === before) {
+    return { kind: "not_participant", quest };
+  }
+  quest.updatedAt = new Date().toISOString();
+  return { kind: "left", quest };
+}
+
+/** Open quests first, each group most recently updated first. */
+export function sortWorldQuests(quests: WorldQuest[]): WorldQuest[] {
+  return [...quests].sort((a, b) => {
+    const openA = a.status === "open" ? 0 : 1;
+    const openB = b.status === "open" ? 0 : 1;
+    return openA - openB || b.updatedAt.localeCompare(a.updatedAt);
+  });
+}
+
+/** One line, e.g. `Q3 [进行中] 失踪的商队（目标 1/3 · 参与者 2）`. */
+export function formatWorldQuestSummary(
+  quest: WorldQuest,
+  language?: UserLanguage | null,
+): string {
+  const lang = language === "en" ? "en" : "zh";
+  const done = quest.objectives.filter((item) => item.status === "done");
+  const progress =
+    lang === "en"
+      ? `objectives ${done.length}/${quest.objectives.length} · participants ${quest.participants.length}`
+      : `目标 ${done.length}/${quest.objectives.length} · 参与者 ${quest.participants.length}`;
+  return lang === "en"
+    ? `Q${quest.id} [${STATUS_LABELS[quest.status].en}] ${quest.title} (${progress})`
+    : `Q${quest.id} [${STATUS_LABELS[quest.status].zh}] ${quest.title}（${progress}）`;
+}
+
+/**
+ * Multi-line quest detail. With mentionUsers, participants without a
+ * character are shown as Discord mentions instead of raw user ids.
+ */
+export function formatWorldQuestDetail(
+  quest: WorldQuest,
+  language?: UserLanguage | null,
+  options?: { mentionUsers?: boolean },
+): string {
+  const lang = language === "en" ? "en" : "zh";
+  const label = (zh: string, en: string) =>
+    lang === "en" ? `${en}: ` : `${zh}：`;
+  const lines = [
+    `Q${quest.id} ${quest.title} [${STATUS_LABELS[quest.status][lang]}]`,
+  ];
+  if (quest.giver) {
+    lines.push(`${label("委托人", "Giver")}${quest.giver}`);
+  }
+  if (quest.summary) {
+    lines.push(`${label("简介", "Summary")}${quest.summary}`);
+  }
+  if (quest.deadline) {
+    lines.push(`${label("期限", "Deadline")}${quest.deadline}`);
+  }
+  if (quest.rewards.length > 0) {
+    lines.push(`${label("奖励", "Rewards")}${quest.rewards.join(" · ")}`);
+  }
+  const participants = quest.participants.map((participant) =>
+    participant.characterId
+      ? `C${participant.characterId}${participant.characterName ? ` ${participant.characterName}` : ""}`
+      : options?.mentionUsers
+        ? `<@${participant.userId}>`
+        : participant.userId,
+  );
+  lines.push(
+    `${label("参与者", "Participants")}${participants.length > 0 ? participants.join(" · ") : lang === "en" ? "none" : "无"}`,
+  );
+  if (quest.objectives.length > 0) {
+    lines.push(label("目标", "Objectives").trimEnd());
+    for (const objective of quest.objectives) {
+      lines.push(
+        `- ${OBJECTIVE_MARKERS[objective.status]} ${objective.id}. ${objective.text}`,
+      );
+    }
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Open quests for the play prompt, most recently updated first, capped at
+ * MAX_CONTEXT_QUESTS; returns "" when nothing is open.
+ */
+export function formatWorldQuestContext(
+  log: WorldQuestLog,
+  language?: UserLanguage | null,
+): string {
+  const open = sortWorldQuests(log.quests).filter(
+    (quest) => quest.status === "open",
+  );
+  if (open.length === 0) {
+    return "";
+  }
+  const blocks = open
+    .slice(0, MAX_CONTEXT_QUESTS)
+    .map((quest) => formatWorldQuestDetail(quest, language));
+  if (open.length > MAX_CONTEXT_QUESTS) {
+    blocks.push(
+      language === "en"
+        ? `(${open.length - MAX_CONTEXT_QUESTS} more open quests omitted)`
+        : `（另有 ${open.length - MAX_CONTEXT_QUESTS} 个进行中任务未列出）`,
+    );
+  }
+  return blocks.join("\n\n");
+}
+
+function addParticipant(
+  quest: WorldQuest,
+  participant: WorldQuestParticipant,
+): "joined" | "already" | "full" {
+  const existing = quest.participants.find(
+    (item) => item.userId === participant.userId,
+  );
+  if (existing) {
+    if (participant.characterId) {
+      existing.characterId = participant.characterId;
+      existing.characterName = participant.characterName;
+    }
+    return "already";
+  }
+  if (quest.participants.length >= MAX_PARTICIPANTS) {
+    return "full";
+  }
+  quest.participants.push(participant);
+  return "joined";
+}
+
+function normalizeTitle(title: string): string {
+  return title.normalize("NFKC").trim().toLowerCase();
+}
+
+function readQuestRef(value: unknown): WorldQuestRef | null {
+  if (typeof value === "number" && Number.isInteger(value) && value > 0) {
+    return value;
+  }
+  if (typeof value !== "string") {
+    return null;
+  }
+  const trimmed = value.trim();
+  const id = trimmed.match(/^Q?(\d+)$/i);
+  if (id) {
+    return Number(id[1]);
+  }
+  return trimmed ? trimmed.slice(0, MAX_TITLE_LENGTH) : null;
+}
+
+function readText(value: unknown, maxLength: number): string | undefined {
+  return typeof value === "string" && value.trim()
+    ? value.trim().slice(0, maxLength)
+    : undefined;
+}
+
+function readTextList(value: unknown, maxItems: number): string[] | undefined {
+  if (!Array.isArray(value)) {
+    return undefined;
+  }
+  return value
+    .map((item) => readText(item, MAX_TEXT_LENGTH))
+    .filter((item): item is string => Boolean(item))
+    .slice(0, maxItems);
+}
@@ -0,0 +1,74 @@
+import { asRecord } from "../utils/record";
+
+/** Fenced blocks the world agent appends for the bot; players never see them. */
+const HIDDEN_REPLY_BLOCK_TAGS = [
+  "character-state",
+  "quest-update",
+  "world-time",
+] as const;
+
+export type HiddenReplyBlockTag = (typeof HIDDEN_REPLY_BLOCK_TAGS)[number];
+
+const HIDDEN_REPLY_BLOCK_PATTERN = new RegExp(
+  `\`\`\`(?:${HIDDEN_REPLY_BLOCK_TAGS.join("|")})\\b[\\s\\S]*?(?:\`\`\`|$)`,
+  "gi",
+);
+const TRAILING_FENCE_PATTERN = /`{1,3}[a-z-]*$/i;
+
+/**
+ * Removes hidden blocks from a reply that may still be streaming: an
+ * unclosed block runs to the end, and a half-typed opening fence is dropped.
+ */
+export function stripHiddenReplyBlocks(text: string): string {
+  const stripped = text.replace(HIDDEN_REPLY_BLOCK_PATTERN, "");
+  const fence = TRAILING_FENCE_PATTERN.exec(stripped);
+  if (
+    fence &&
+    HIDDEN_REPLY_BLOCK_TAGS.some((tag) =>
+      `\`\`\`${tag}`.startsWith(fence[0].toLowerCase()),
+    )
+  ) {
+    return stripped.slice(0, fence.index);
+  }
+  return stripped;
+}
+
+/**
+ * Removes ```<tag> blocks from an agent reply and collects their changes.
+ * A block holds `{"changes":[...]}` or a bare array of changes; items parse
+ * rejects are dropped and at most limit changes are kept.
+ */
+export function extractReplyBlockChanges<T>(
+  output: string,
+  tag: HiddenReplyBlockTag,
+  parse: (item: unknown) => T | null,
+  limit: number,
+): { content: string; changes: T[] } {
+  const changes: T[] = [];
+  const content = output.replace(
+    new RegExp(`\`\`\`${tag}\\s*([\\s\\S]*?)\`\`\``, "gi"),
+    (_match: string, payloadText: string) => {
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(payloadText.trim());
+      } catch {
+        return "";
+      }
+      const list = Array.isArray(parsed) ? parsed : asRecord(parsed)?.changes;
+      if (!Array.isArray(list)) {
+        return "";
+      }
+      for (const item of list) {
+        const change = parse(item);
+        if (change && changes.length < limit) {
+          changes.push(change);
+        }
+      }
+      return "";
+    },
+  );
+  return {
+    content: content === output ? output : content.replace(/\n{3,}/g, "\n\n"),
+    changes,
+  };
+}
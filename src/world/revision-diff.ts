@@ -0,0 +1,101 @@
+export type LineDiffOptions = {
+  /** Unchanged lines kept around each change. */
+  context?: number;
+  /** Inputs above this many lines per side are reported as too large. */
+  maxLines?: number;
+};
+
+export type LineDiffResult = {
+  /** Unified-style body: " " unchanged, "-" removed, "+" added, "@@" gaps. */
+  lines: string[];
+  added: number;
+  removed: number;
+  truncated: boolean;
+};
+
+type DiffOp = { kind: " " | "-" | "+"; text: string };
+
+function splitLines(text: string): string[] {
+  const normalized = text.replace(/\r\n/g, "\n").replace(/\n$/, "");
+  return normalized ? normalized.split("\n") : [];
+}
+
+function diffOps(before: string[], after: string[]): DiffOp[] {
+  const rows = before.length;
+  const cols = after.length;
+  // lcs[i][j] = LCS length of before[i..] and after[j..].
+  const lcs: Uint32Array[] = Array.from(
+    { length: rows + 1 },
+    () => new Uint32Array(cols + 1),
+  );
+  for (let i = rows - 1; i >= 0; i -= 1) {
+    for (let j = cols - 1; j >= 0; j -= 1) {
+      lcs[i][j] =
+        before[i] === after[j]
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+  const ops: DiffOp[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < rows && j < cols) {
+    if (before[i] === after[j]) {
+      ops.push({ kind: " ", text: before[i] });
+      i += 1;
+      j += 1;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      ops.push({ kind: "-", text: before[i] });
+      i += 1;
+    } else {
+      ops.push({ kind: "+", text: after[j] });
+      j += 1;
+    }
+  }
+  for (; i < rows; i += 1) ops.push({ kind: "-", text: before[i] });
+  for (; j < cols; j += 1) ops.push({ kind: "+", text: after[j] });
+  return ops;
+}
+
+/** Line diff for world file revisions; world docs are small enough for a plain LCS. */
+export function buildLineDiff(
+  before: string,
+  after: string,
+  options: LineDiffOptions = {},
+): LineDiffResult {
+  const context = Math.max(0, options.context ?? 2);
+  const maxLines = Math.max(1, options.maxLines ?? 2_000);
+  const beforeLines = splitLines(before);
+  const afterLines = splitLines(after);
+  if (beforeLines.length > maxLines || afterLines.length > maxLines) {
+    return { lines: [], added: 0, removed: 0, truncated: true };
+  }
+
+  const ops = diffOps(beforeLines, afterLines);
+  const keep = new Array<boolean>(ops.length).fill(false);
+  let added = 0;
+  let removed = 0;
+  ops.forEach((op, index) => {
+    if (op.kind === " ") return;
+    if (op.kind === "+") added += 1;
+    else removed += 1;
+    const from = Math.max(0, index - context);
+    const to = Math.min(ops.length - 1, index + context);
+    for (let k = from; k <= to; k += 1) keep[k] = true;
+  });
+
+  const lines: string[] = [];
+  let skipped = false;
+  ops.forEach((op, index) => {
+    if (!keep[index]) {
+      skipped = true;
+      return;
+    }
+    if (skipped && lines.length > 0) {
+      lines.push("@@");
+    }
+    skipped = false;
+    lines.push(`${op.kind}${op.text}`);
+  });
+  return { lines, added, removed, truncated: false };
+}
@@ -0,0 +1,268 @@
+export type WorldSearchChunk = {
+  /** Nearest markdown heading above the chunk; empty before the first one. */
+  heading: string;
+  slug: string;
+  text: string;
+  length: number;
+  /** Term frequencies. */
+  terms: Record<string, number>;
+};
+
+export type WorldSearchIndex = {
+  version: 1;
+  updatedAt: string;
+  /** Keyed by world-relative path, e.g. `canon/chronicle.md`. */
+  docs: Record<string, WorldSearchChunk[]>;
+};
+
+export type WorldSearchHit = {
+  file: string;
+  heading: string;
+  /** `file#slug`, or just `file` for text above the first heading. */
+  anchor: string;
+  score: number;
+  snippet: string;
+};
+
+export type WorldSearchOptions = {
+  limit?: number;
+  filter?: (file: string) => boolean;
+};
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+const CHUNK_MAX_CHARS = 1_200;
+const SNIPPET_MAX_CHARS = 160;
+
+const TOKEN_PATTERN =
+  /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]+|[\p{L}\p{N}]+/gu;
+const CJK_RUN =
+  /^[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/u;
+const HEADING_LINE = /^#{1,6}\s+(.+?)\s*#*\s*$/;
+
+/** Latin/digit runs become words; CJK runs become overlapping bigrams. */
+export function tokenizeWorldSearchText(text: string): string[] {
+  const tokens: string[] = [];
+  for (const match of text
+    .normalize("NFKC")
+    .toLowerCase()
+    .matchAll(TOKEN_PATTERN)) {
+    const run = match[0];
+    if (!CJK_RUN.test(run)) {
+      tokens.push(run);
+      continue;
+    }
+    const chars = Array.from(run);
+    if (chars.length === 1) {
+      tokens.push(run);
+      continue;
+    }
+    for (let i = 0; i < chars.length - 1; i += 1) {
+      tokens.push(`${chars[i]}${chars[i + 1]}`);
+    }
+  }
+  return tokens;
+}
+
+/** Same rules as docsify heading ids, so anchors open the right section in the wiki. */
+export function slugifyWorldHeading(heading: string): string {
+  return heading
+    .trim()
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s_-]/gu, "")
+    .replace(/\s+/g, "-");
+}
+
+function countTerms(text: string): {
+  terms: Record<string, number>;
+  length: number;
+} {
+  const terms: Record<string, number> = {};
+  const tokens = tokenizeWorldSearchText(text);
+  for (const token of tokens) {
+    terms[token] = (terms[token] ?? 0) + 1;
+  }
+  return { terms, length: tokens.length };
+}
+
+function splitLongSection(text: string): string[] {
+  if (text.length <= CHUNK_MAX_CHARS) {
+    return [text];
+  }
+  const parts: string[] = [];
+  let current = "";
+  for (const paragraph of text.split(/\n{2,}/)) {
+    if (current && current.length + paragraph.length > CHUNK_MAX_CHARS) {
+      parts.push(current);
+      current = "";
+    }
+    current = current ? `${current}\n\n${paragraph}` : paragraph;
+    while (current.length > CHUNK_MAX_CHARS) {
+      parts.push(current.slice(0, CHUNK_MAX_CHARS));
+      current = current.slice(CHUNK_MAX_CHARS);
+    }
+  }
+  if (current) {
+    parts.push(current);
+  }
+  return parts;
+}
+
+/** Heading-delimited sections; long sections are cut at paragraph breaks. */
+export function buildWorldSearchChunks(content: string): WorldSearchChunk[] {
+  const sections: Array<{ heading: string; lines: string[] }> = [
+    { heading: "", lines: [] },
+  ];
+  for (const line of content.replace(/\r\n/g, "\n").split("\n")) {
+    const heading = line.match(HEADING_LINE)?.[1];
+    if (heading) {
+      sections.push({ heading, lines: [line] });
+      continue;
+    }
+    sections[sections.length - 1].lines.push(line);
+  }
+
+  const chunks: WorldSearchChunk[] = [];
+  for (const section of sections) {
+    const text = section.lines.join("\n").trim();
+    if (!text) {
+      continue;
+    }
+    for (const part of splitLongSection(text)) {
+      const { terms, length } = countTerms(part);
+      if (length === 0) {
+        continue;
+      }
+      chunks.push({
+        heading: section.heading,
+        slug: slugifyWorldHeading(section.heading),
+        text: part,
+        length,
+        terms,
+      });
+    }
+  }
+  return chunks;
+}
+
+export function createEmptyWorldSearchIndex(): WorldSearchIndex {
+  return { version: 1, updatedAt: new Date().toISOString(), docs: {} };
+}
+
+/** Replaces one file's chunks; null content drops the file. */
+export function updateWorldSearchIndex(
+  index: WorldSearchIndex,
+  file: string,
+  content: string | null,
+): WorldSearchIndex {
+  const docs = { ...index.docs };
+  if (content === null) {
+    delete docs[file];
+  } else {
+    docs[file] = buildWorldSearchChunks(content);
+  }
+  return { version: 1, updatedAt: new Date().toISOString(), docs };
+}
+
+/** Returns null for anything that is not a version 1 index. */
+export function parseWorldSearchIndex(
+  raw: string | null,
+): WorldSearchIndex | null {
+  if (!raw) {
+    return null;
+  }
+  try {
+    const parsed = JSON.parse(raw) as Partial<WorldSearchIndex>;
+    if (
+      parsed.version !== 1 ||
+      !parsed.docs ||
+      typeof parsed.docs !== "object" ||
+      Array.isArray(parsed.docs)
+    ) {
+      return null;
+    }
+    return {
+      version: 1,
+      updatedAt: typeof parsed.updatedAt === "string" ? parsed.updatedAt : "",
+      docs: parsed.docs,
+    };
+  } catch {
+    return null;
+  }
+}
+
+function buildSnippet(text: string, query: string, tokens: string[]): string {
+  // The heading is shown separately; keep it only if the section is bare.
+  const body = text.replace(/^#{1,6}\s+[^\n]*\n?/, "").trim() || text;
+  const flat = body.replace(/\s+/g, " ").trim();
+  const lowered = flat.normalize("NFKC").toLowerCase();
+  let position = lowered.indexOf(query.normalize("NFKC").toLowerCase().trim());
+  if (position < 0) {
+    const positions = tokens
+      .map((token) => lowered.indexOf(token))
+      .filter((value) => value >= 0);
+    position = positions.length > 0 ? Math.min(...positions) : 0;
+  }
+  const start = Math.max(0, position - Math.floor(SNIPPET_MAX_CHARS / 3));
+  const end = Math.min(flat.length, start + SNIPPET_MAX_CHARS);
+  return `${start > 0 ? "…" : ""}${flat.slice(start, end)}${end < flat.length ? "…" : ""}`;
+}
+
+/** BM25 over all chunks; ties keep file and chunk order. */
+export function searchWorldIndex(
+  index: WorldSearchIndex,
+  query: string,
+  options: WorldSearchOptions = {},
+): WorldSearchHit[] {
+  const queryTokens = Array.from(new Set(tokenizeWorldSearchText(query)));
+  if (queryTokens.length === 0) {
+    return [];
+  }
+  const entries = Object.entries(index.docs)
+    .filter(([file]) => !options.filter || options.filter(file))
+    .flatMap(([file, chunks]) => chunks.map((chunk) => ({ file, chunk })));
+  if (entries.length === 0) {
+    return [];
+  }
+
+  const totalLength = entries.reduce(
+    (sum, entry) => sum + entry.chunk.length,
+    0,
+  );
+  const averageLength = totalLength / entries.length || 1;
+  const idf = new Map<string, number>();
+  for (const token of queryTokens) {
+    const df = entries.filter((entry) => entry.chunk.terms[token]).length;
+    idf.set(token, Math.log(1 + (entries.length - df + 0.5) / (df + 0.5)));
+  }
+
+  const scored: WorldSearchHit[] = [];
+  for (const { file, chunk } of entries) {
+    let score = 0;
+    for (const token of queryTokens) {
+      const tf = chunk.terms[token] ?? 0;
+      if (tf === 0) {
+        continue;
+      }
+      const norm = 1 - BM25_B + (BM25_B * chunk.length) / averageLength;
+      score +=
+        ((idf.get(token) ?? 0) * (tf * (BM25_K1 + 1))) / (tf + BM25_K1 * norm);
+    }
+    if (score <= 0) {
+      continue;
+    }
+    scored.push({
+      file,
+      heading: chunk.heading,
+      anchor: chunk.slug ? `${file}#${chunk.slug}` : file,
+      score: Math.round(score * 1000) / 1000,
+      snippet: buildSnippet(chunk.text, query, queryTokens),
+    });
+  }
+  const limit = Math.max(1, options.limit ?? 5);
+  return scored
+    .map((hit, order) => ({ hit, order }))
+    .sort((a, b) => b.hit.score - a.hit.score || a.order - b.order)
+    .slice(0, limit)
+    .map(({ hit }) => hit);
+}
@@ -2,7 +2,10 @@ import type {
   CharacterMeta,
   CharacterVisibility,
   WorldMeta,
+  WorldStaffEntry,
+  WorldStaffRole,
   WorldStatus,
+  WorldSubmissionTally,
 } from "./store-types";
 
 export function parseWorldMeta(raw: Record<string, string>): WorldMeta | null {
@@ -64,6 +67,11 @@ export function parseWorldMeta(raw: Record<string, string>): WorldMeta | null {
   const buildChannelId = raw.buildChannelId?.trim() || undefined;
   const joinChannelId = raw.joinChannelId?.trim() || undefined;
   const forumChannelId = raw.forumChannelId?.trim() || undefined;
+  const autoApproveVotes = Number(raw.submissionAutoApproveVotes);
+  const submissionAutoApproveVotes =
+    Number.isInteger(autoApproveVotes) && autoApproveVotes > 0
+      ? autoApproveVotes
+      : undefined;
 
   return {
     id,
@@ -82,6 +90,7 @@ export function parseWorldMeta(raw: Record<string, string>): WorldMeta | null {
     proposalsChannelId: raw.proposalsChannelId,
     voiceChannelId: raw.voiceChannelId,
     buildChannelId,
+    submissionAutoApproveVotes,
   };
 }
 
@@ -117,3 +126,40 @@ export function parseCharacterMeta(
     buildChannelId: raw.buildChannelId?.trim() || undefined,
   };
 }
+
+/** Votes hash: userId -> "1" | "-1"; anything else is ignored. */
+export function parseWorldSubmissionTally(
+  raw: Record<string, string>,
+): WorldSubmissionTally {
+  let up = 0;
+  let down = 0;
+  for (const value of Object.values(raw)) {
+    if (value === "1") up += 1;
+    else if (value === "-1") down += 1;
+  }
+  return { up, down };
+}
+
+export function parseWorldStaffRole(
+  raw: string | null | undefined,
+): WorldStaffRole | null {
+  return raw === "editor" || raw === "moderator" ? raw : null;
+}
+
+/** Editors first, then moderators; each group sorted by user id. */
+export function parseWorldStaff(
+  raw: Record<string, string>,
+): WorldStaffEntry[] {
+  const entries: WorldStaffEntry[] = [];
+  for (const [userId, value] of Object.entries(raw)) {
+    const role = parseWorldStaffRole(value);
+    if (role) {
+      entries.push({ userId, role });
+    }
+  }
+  return entries.sort(
+    (a, b) =>
+      (a.role === b.role ? 0 : a.role === "editor" ? -1 : 1) ||
+      a.userId.localeCompare(b.userId),
+  );
+}
@@ -32,10 +32,34 @@ export type WorldActiveMeta = {
   proposalsChannelId: string;
   voiceChannelId: string;
   buildChannelId?: string;
+  /** Net member votes (up - down) that approve a pending submission. */
+  submissionAutoApproveVotes?: number;
+};
+
+export type WorldSubmissionVote = 1 | -1;
+
+export type WorldSubmissionTally = {
+  up: number;
+  down: number;
+};
+
+/** Where the proposal message for a submission was posted. */
+export type WorldSubmissionMessageRef = {
+  channelId: string;
+  messageId: string;
+  threadId?: string;
 };
 
 export type WorldMeta = WorldDraftMeta | WorldActiveMeta;
 
+/** Roles granted per world on top of the owner (`creatorId`) and plain members. */
+export type WorldStaffRole = "editor" | "moderator";
+
+export type WorldStaffEntry = {
+  userId: string;
+  role: WorldStaffRole;
+};
+
 export type CharacterMeta = {
   id: number;
   creatorId: string;
@@ -10,8 +10,19 @@ import type {
   WorldActiveMeta,
   WorldDraftMeta,
   WorldMeta,
+  WorldStaffEntry,
+  WorldStaffRole,
+  WorldSubmissionMessageRef,
+  WorldSubmissionTally,
+  WorldSubmissionVote,
 } from "./store-types";
-import { parseCharacterMeta, parseWorldMeta } from "./store-parsers";
+import {
+  parseCharacterMeta,
+  parseWorldMeta,
+  parseWorldStaff,
+  parseWorldStaffRole,
+  parseWorldSubmissionTally,
+} from "./store-parsers";
 
 export type {
   CharacterMeta,
@@ -19,9 +30,28 @@ export type {
   WorldActiveMeta,
   WorldDraftMeta,
   WorldMeta,
+  WorldStaffEntry,
+  WorldStaffRole,
   WorldStatus,
+  WorldSubmissionMessageRef,
+  WorldSubmissionTally,
+  WorldSubmissionVote,
 } from "./store-types";
 
+// KEYS: votes hash. ARGV: userId, vote.
+// Casting the same vote again withdraws it; returns the stored vote ("0" when
+// withdrawn) and the whole hash, so the tally matches this toggle.
+const TOGGLE_SUBMISSION_VOTE_SCRIPT = `
+local vote = ARGV[2]
+if redis.call("HGET", KEYS[1], ARGV[1]) == vote then
+  redis.call("HDEL", KEYS[1], ARGV[1])
+  vote = "0"
+else
+  redis.call("HSET", KEYS[1], ARGV[1], vote)
+end
+return {vote, redis.call("HGETALL", KEYS[1])}
+`;
+
 export interface WorldStoreOptions {
   redisUrl: string;
   keyPrefix?: string;
@@ -83,6 +113,109 @@ export class WorldStore {
     return id;
   }
 
+  /** null clears the threshold (creator approval only). */
+  async setSubmissionAutoApproveVotes(
+    worldId: WorldId,
+    votes: number | null,
+  ): Promise<void> {
+    const normalized = normalizeWorldId(worldId);
+    const key = this.worldMetaKey(normalized);
+    if (votes === null) {
+      const multi = this.redis.multi();
+      multi.hdel(key, "submissionAutoApproveVotes");
+      multi.hset(key, { updatedAt: new Date().toISOString() });
+      await multi.exec();
+      return;
+    }
+    if (!Number.isInteger(votes) || votes <= 0) {
+      throw new Error("votes must be a positive integer");
+    }
+    await this.redis.hset(key, {
+      submissionAutoApproveVotes: String(votes),
+      updatedAt: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Casting the same vote again withdraws it; the opposite vote replaces it.
+   * Returns the user's resulting vote (0 = none) and the new tally.
+   */
+  async voteWorldSubmission(input: {
+    worldId: WorldId;
+    submissionId: number;
+    userId: string;
+    vote: WorldSubmissionVote;
+  }): Promise<{ vote: WorldSubmissionVote | 0; tally: WorldSubmissionTally }> {
+    const key = this.worldSubmissionVotesKey(input.worldId, input.submissionId);
+    assertSafePathSegment(input.userId, "userId");
+    const [stored, fields] = (await this.redis.eval(
+      TOGGLE_SUBMISSION_VOTE_SCRIPT,
+      1,
+      key,
+      input.userId,
+      String(input.vote),
+    )) as [string, string[]];
+    const raw: Record<string, string> = {};
+    for (let i = 0; i + 1 < fields.length; i += 2) {
+      raw[fields[i]] = fields[i + 1];
+    }
+    return {
+      vote: stored === "0" ? 0 : input.vote,
+      tally: parseWorldSubmissionTally(raw),
+    };
+  }
+
+  async getWorldSubmissionTally(
+    worldId: WorldId,
+    submissionId: number,
+  ): Promise<WorldSubmissionTally> {
+    const raw = await this.redis.hgetall(
+      this.worldSubmissionVotesKey(worldId, submissionId),
+    );
+    return parseWorldSubmissionTally(raw);
+  }
+
+  async setWorldSubmissionMessage(input: {
+    worldId: WorldId;
+    submissionId: number;
+    ref: WorldSubmissionMessageRef;
+  }): Promise<void> {
+    assertSafePathSegment(input.ref.channelId, "channelId");
+    assertSafePathSegment(input.ref.messageId, "messageId");
+    const payload: Record<string, string> = {
+      channelId: input.ref.channelId,
+      messageId: input.ref.messageId,
+    };
+    const threadId = input.ref.threadId?.trim();
+    if (threadId) {
+      assertSafePathSegment(threadId, "threadId");
+      payload.threadId = threadId;
+    }
+    await this.redis.hset(
+      this.worldSubmissionMessageKey(input.worldId, input.submissionId),
+      payload,
+    );
+  }
+
+  async getWorldSubmissionMessage(
+    worldId: WorldId,
+    submissionId: number,
+  ): Promise<WorldSubmissionMessageRef | null> {
+    const raw = await this.redis.hgetall(
+      this.worldSubmissionMessageKey(worldId, submissionId),
+    );
+    const channelId = raw.channelId?.trim();
+    const messageId = raw.messageId?.trim();
+    if (!channelId || !messageId) {
+      return null;
+    }
+    return {
+      channelId,
+      messageId,
+      threadId: raw.threadId?.trim() || undefined,
+    };
+  }
+
   async createWorldDraft(meta: Omit<WorldDraftMeta, "status">): Promise<void> {
     normalizeWorldId(meta.id);
     if (!isSafePathSegment(meta.homeGuildId)) {
@@ -321,6 +454,44 @@ export class WorldStore {
     return parsed && parsed.id === normalized ? parsed : null;
   }
 
+  /** Archiving keeps files and membership; only published worlds qualify. */
+  async setWorldStatus(
+    worldId: WorldId,
+    status: "active" | "archived",
+  ): Promise<void> {
+    const normalized = normalizeWorldId(worldId);
+    const meta = await this.getWorld(normalized);
+    if (!meta || meta.status === "draft") {
+      throw new Error(`world W${normalized} is not published`);
+    }
+    await this.redis.hset(this.worldMetaKey(normalized), {
+      status,
+      updatedAt: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Makes `toUserId` the owner. The previous owner stays on as an editor and
+   * the new owner's staff entry is dropped.
+   */
+  async transferWorldOwnership(input: {
+    worldId: WorldId;
+    fromUserId: string;
+    toUserId: string;
+  }): Promise<void> {
+    const normalized = normalizeWorldId(input.worldId);
+    assertSafePathSegment(input.fromUserId, "fromUserId");
+    assertSafePathSegment(input.toUserId, "toUserId");
+    const multi = this.redis.multi();
+    multi.hset(this.worldMetaKey(normalized), {
+      creatorId: input.toUserId,
+      updatedAt: new Date().toISOString(),
+    });
+    multi.hdel(this.worldStaffKey(normalized), input.toUserId);
+    multi.hset(this.worldStaffKey(normalized), input.fromUserId, "editor");
+    await multi.exec();
+  }
+
   async setJoinChannelId(
     worldId: WorldId,
     joinChannelId: string,
@@ -449,6 +620,53 @@ export class WorldStore {
     return exists === 1;
   }
 
+  async setWorldStaffRole(input: {
+    worldId: WorldId;
+    userId: string;
+    role: WorldStaffRole;
+  }): Promise<void> {
+    const normalized = normalizeWorldId(input.worldId);
+    assertSafePathSegment(input.userId, "userId");
+    await this.redis.hset(
+      this.worldStaffKey(normalized),
+      input.userId,
+      input.role,
+    );
+  }
+
+  /** Returns false when the user held no staff role. */
+  async removeWorldStaff(worldId: WorldId, userId: string): Promise<boolean> {
+    const normalized = normalizeWorldId(worldId);
+    if (!isSafePathSegment(userId)) {
+      return false;
+    }
+    const removed = await this.redis.hdel(
+      this.worldStaffKey(normalized),
+      userId,
+    );
+    return removed > 0;
+  }
+
+  async getWorldStaffRole(
+    worldId: WorldId,
+    userId: string,
+  ): Promise<WorldStaffRole | null> {
+    const normalized = normalizeWorldId(worldId);
+    if (!isSafePathSegment(userId)) {
+      return null;
+    }
+    return parseWorldStaffRole(
+      await this.redis.hget(this.worldStaffKey(normalized), userId),
+    );
+  }
+
+  async listWorldStaff(worldId: WorldId): Promise<WorldStaffEntry[]> {
+    const normalized = normalizeWorldId(worldId);
+    return parseWorldStaff(
+      await this.redis.hgetall(this.worldStaffKey(normalized)),
+    );
+  }
+
   async memberCount(worldId: WorldId): Promise<number> {
     const normalized = normalizeWorldId(worldId);
     return this.redis.scard(this.worldMembersKey(normalized));
@@ -479,10 +697,13 @@ export class WorldStore {
   }> {
     const worldId = normalizeWorldId(meta.id);
 
-    const [memberIds, characterIdsRaw] = await Promise.all([
-      this.redis.smembers(this.worldMembersKey(worldId)),
-      this.redis.smembers(this.worldCharactersKey(worldId)),
-    ]);
+    const [memberIds, characterIdsRaw, lastSubmissionIdRaw] = await Promise.all(
+      [
+        this.redis.smembers(this.worldMembersKey(worldId)),
+        this.redis.smembers(this.worldCharactersKey(worldId)),
+        this.redis.get(this.worldSubmissionNextIdKey(worldId)),
+      ],
+    );
     const characterIds = characterIdsRaw
       .map((value) => Number(value))
       .filter((value) => Number.isInteger(value) && value > 0);
@@ -498,6 +719,19 @@ export class WorldStore {
     multi.del(this.worldMembersKey(worldId));
 
     multi.del(this.worldCharactersKey(worldId));
+    multi.del(this.worldStaffKey(worldId));
+
+    const lastSubmissionId = Number(lastSubmissionIdRaw);
+    if (Number.isInteger(lastSubmissionId) && lastSubmissionId > 0) {
+      for (
+        let submissionId = 1;
+        submissionId <= lastSubmissionId;
+        submissionId += 1
+      ) {
+        multi.del(this.worldSubmissionVotesKey(worldId, submissionId));
+        multi.del(this.worldSubmissionMessageKey(worldId, submissionId));
+      }
+    }
 
     multi.del(this.worldMetaKey(worldId));
     multi.srem(this.key("world:ids"), String(worldId));
@@ -843,6 +1077,10 @@ export class WorldStore {
     return this.key(`world:${worldId}:members`);
   }
 
+  private worldStaffKey(worldId: WorldId): string {
+    return this.key(`world:${worldId}:staff`);
+  }
+
   private worldCharactersKey(worldId: WorldId): string {
     return this.key(`world:${worldId}:characters`);
   }
@@ -851,6 +1089,28 @@ export class WorldStore {
     return this.key(`world:${worldId}:submission:next_id`);
   }
 
+  private worldSubmissionVotesKey(
+    worldId: WorldId,
+    submissionId: number,
+  ): string {
+    const normalized = normalizeWorldId(worldId);
+    if (!Number.isInteger(submissionId) || submissionId <= 0) {
+      throw new Error("submissionId must be a positive integer");
+    }
+    return this.key(`world:${normalized}:submission:${submissionId}:votes`);
+  }
+
+  private worldSubmissionMessageKey(
+    worldId: WorldId,
+    submissionId: number,
+  ): string {
+    const normalized = normalizeWorldId(worldId);
+    if (!Number.isInteger(submissionId) || submissionId <= 0) {
+      throw new Error("submissionId must be a positive integer");
+    }
+    return this.key(`world:${normalized}:submission:${submissionId}:message`);
+  }
+
   private userWorldsKey(userId: string): string {
     assertSafePathSegment(userId, "userId");
     return this.key(`user:${userId}:worlds`);
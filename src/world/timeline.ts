@@ -0,0 +1,324 @@
+import type { UserLanguage } from "../user/state-store";
+import { asRecord } from "../utils/record";
+import { extractReplyBlockChanges } from "./reply-blocks";
+import {
+  advanceWorldTime,
+  formatWorldDate,
+  parseWorldDate,
+  parseWorldDuration,
+  type WorldCalendar,
+} from "./calendar";
+
+export type WorldTimelineSource = "command" | "ai_session";
+
+export type WorldTimelineEntry = {
+  id: number;
+  /** In-world minutes since the start of year 1 (see calendar.ts). */
+  at: number;
+  title: string;
+  content?: string;
+  tags: string[];
+  source: WorldTimelineSource;
+  authorId: string;
+  createdAt: string;
+};
+
+export type WorldTimeline = {
+  version: 1;
+  nextId: number;
+  /** Current in-world time in minutes; null until someone sets it. */
+  clock: number | null;
+  entries: WorldTimelineEntry[];
+};
+
+export type WorldTimelineEntryInput = {
+  at: number;
+  title: string;
+  content?: string;
+  tags: string[];
+};
+
+export type WorldTimelineFilter = {
+  from?: number;
+  to?: number;
+  tag?: string;
+  query?: string;
+};
+
+/** Narrator changes; dates and durations stay text until applied. */
+export type WorldTimeChange =
+  | { op: "advance"; by: string }
+  | { op: "set"; to: string }
+  | {
+      op: "record";
+      title: string;
+      content?: string;
+      tags: string[];
+      date?: string;
+    };
+
+export type WorldTimeChangeResult = {
+  applied: string[];
+  errors: string[];
+};
+
+const MAX_TITLE_LENGTH = 100;
+const MAX_CONTENT_LENGTH = 1_000;
+const MAX_TAGS = 10;
+const MAX_TAG_LENGTH = 32;
+const MAX_ENTRIES = 5_000;
+const MAX_TIME_CHANGES = 10;
+const CONTEXT_ENTRIES = 5;
+
+export function createEmptyWorldTimeline(): WorldTimeline {
+  return { version: 1, nextId: 1, clock: null, entries: [] };
+}
+
+export function parseWorldTimeline(raw: string | null): WorldTimeline {
+  if (!raw) {
+    return createEmptyWorldTimeline();
+  }
+  try {
+    const parsed = JSON.parse(raw) as Partial<WorldTimeline>;
+    if (parsed.version !== 1 || !Array.isArray(parsed.entries)) {
+      return createEmptyWorldTimeline();
+    }
+    const entries = parsed.entries.filter(
+      (entry): entry is WorldTimelineEntry =>
+        Boolean(entry) &&
+        Number.isInteger(entry.id) &&
+        Number.isFinite(entry.at) &&
+        typeof entry.title === "string" &&
+        Array.isArray(entry.tags),
+    );
+    const maxId = entries.reduce((max, entry) => Math.max(max, entry.id), 0);
+    const nextId =
+      typeof parsed.nextId === "number" && parsed.nextId > maxId
+        ? parsed.nextId
+        : maxId + 1;
+    const clock =
+      typeof parsed.clock === "number" && Number.isFinite(parsed.clock)
+        ? Math.max(0, Math.floor(parsed.clock))
+        : null;
+    return { version: 1, nextId, clock, entries };
+  } catch {
+    return createEmptyWorldTimeline();
+  }
+}
+
+/** Splits `战争, 北境；王室` into trimmed, de-duplicated tags. */
+export function splitWorldTimelineTags(value: string): string[] {
+  const tags = value
+    .split(/[,，;；]/)
+    .map((tag) => tag.trim().slice(0, MAX_TAG_LENGTH))
+    .filter(Boolean);
+  return [...new Set(tags)].slice(0, MAX_TAGS);
+}
+
+/** Throws when the timeline is full. */
+export function addWorldTimelineEntry(
+  timeline: WorldTimeline,
+  input: WorldTimelineEntryInput,
+  origin: { source: WorldTimelineSource; authorId: string },
+): WorldTimelineEntry {
+  if (timeline.entries.length >= MAX_ENTRIES) {
+    throw new Error(`timeline is full (max ${MAX_ENTRIES} entries)`);
+  }
+  const content = input.content?.trim().slice(0, MAX_CONTENT_LENGTH);
+  const entry: WorldTimelineEntry = {
+    id: timeline.nextId,
+    at: Math.max(0, Math.floor(input.at)),
+    title: input.title.trim().slice(0, MAX_TITLE_LENGTH),
+    ...(content ? { content } : {}),
+    tags: input.tags.slice(0, MAX_TAGS),
+    source: origin.source,
+    authorId: origin.authorId,
+    createdAt: new Date().toISOString(),
+  };
+  timeline.nextId += 1;
+  timeline.entries.push(entry);
+  return entry;
+}
+
+export function removeWorldTimelineEntry(
+  timeline: WorldTimeline,
+  entryId: number,
+): WorldTimelineEntry | null {
+  const index = timeline.entries.findIndex((entry) => entry.id === entryId);
+  if (index < 0) {
+    return null;
+  }
+  const [removed] = timeline.entries.splice(index, 1);
+  return removed ?? null;
+}
+
+/** Matching entries in chronological order (ties by id). */
+export function filterWorldTimeline(
+  timeline: WorldTimeline,
+  filter: WorldTimelineFilter,
+): WorldTimelineEntry[] {
+  const tag = filter.tag?.trim().toLowerCase();
+  const query = filter.query?.trim().toLowerCase();
+  return timeline.entries
+    .filter(
+      (entry) =>
+        (filter.from === undefined || entry.at >= filter.from) &&
+        (filter.to === undefined || entry.at <= filter.to) &&
+        (!tag || entry.tags.some((item) => item.toLowerCase() === tag)) &&
+        (!query ||
+          entry.title.toLowerCase().includes(query) ||
+          (entry.content?.toLowerCase().includes(query) ?? false)),
+    )
+    .sort((a, b) => a.at - b.at || a.id - b.id);
+}
+
+/** Validates one change from untrusted JSON; returns null when unusable. */
+export function parseWorldTimeChange(raw: unknown): WorldTimeChange | null {
+  const record = asRecord(raw);
+  const op = typeof record?.op === "string" ? record.op.trim() : "";
+  const text = (value: unknown, maxLength: number) =>
+    typeof value === "string" && value.trim()
+      ? value.trim().slice(0, maxLength)
+      : undefined;
+  if (!record) {
+    return null;
+  }
+  if (op === "advance") {
+    const by = text(record.by, MAX_TAG_LENGTH);
+    return by ? { op, by } : null;
+  }
+  if (op === "set") {
+    const to = text(record.to, MAX_TITLE_LENGTH);
+    return to ? { op, to } : null;
+  }
+  if (op === "record") {
+    const title = text(record.title, MAX_TITLE_LENGTH);
+    if (!title) {
+      return null;
+    }
+    const content = text(record.content, MAX_CONTENT_LENGTH);
+    const date = text(record.date, MAX_TITLE_LENGTH);
+    const tags = Array.isArray(record.tags)
+      ? splitWorldTimelineTags(
+          record.tags.filter((tag) => typeof tag === "string").join(","),
+        )
+      : [];
+    return {
+      op,
+      title,
+      ...(content ? { content } : {}),
+      tags,
+      ...(date ? { date } : {}),
+    };
+  }
+  return null;
+}
+
+/** Strips ```world-time blocks from an agent reply. */
+export function extractWorldTimeBlocks(output: string): {
+  content: string;
+  changes: WorldTimeChange[];
+} {
+  return extractReplyBlockChanges(
+    output,
+    "world-time",
+    parseWorldTimeChange,
+    MAX_TIME_CHANGES,
+  );
+}
+
+/**
+ * Applies narrator changes in order. Records without a date land on the
+ * clock as it stands after earlier changes in the same batch.
+ */
+export function applyWorldTimeChanges(
+  calendar: WorldCalendar,
+  timeline: WorldTimeline,
+  changes: WorldTimeChange[],
+  origin: { source: WorldTimelineSource; authorId: string },
+): WorldTimeChangeResult {
+  const result: WorldTimeChangeResult = { applied: [], errors: [] };
+  for (const change of changes) {
+    try {
+      if (change.op === "advance") {
+        timeline.clock = advanceWorldTime(
+          calendar,
+          timeline.clock ?? 0,
+          parseWorldDuration(change.by),
+        );
+        result.applied.push(
+          `+${change.by} → ${formatWorldDate(calendar, timeline.clock)}`,
+        );
+      } else if (change.op === "set") {
+        timeline.clock = parseWorldDate(calendar, change.to);
+        result.applied.push(`= ${formatWorldDate(calendar, timeline.clock)}`);
+      } else {
+        const entry = addWorldTimelineEntry(
+          timeline,
+          {
+            at: change.date
+              ? parseWorldDate(calendar, change.date)
+              : (timeline.clock ?? 0),
+            title: change.title,
+            content: change.content,
+            tags: change.tags,
+          },
+          origin,
+        );
+        result.applied.push(
+          `#${entry.id} ${formatWorldDate(calendar, entry.at)} ${entry.title}`,
+        );
+      }
+    } catch (err) {
+      result.errors.push(err instanceof Error ? err.message : String(err));
+    }
+  }
+  return result;
+}
+
+/** e.g. `#3 1024年 3月 15日 08:00 · 黑塔陷落 [战争]` plus content. */
+export function formatWorldTimelineEntry(
+  calendar: WorldCalendar,
+  entry: WorldTimelineEntry,
+  language?: UserLanguage | null,
+  options?: { withContent?: boolean },
+): string {
+  const tags = entry.tags.length > 0 ? ` [${entry.tags.join(", ")}]` : "";
+  const line = `#${entry.id} ${formatWorldDate(calendar, entry.at, language)} · ${entry.title}${tags}`;
+  return options?.withContent && entry.content
+    ? `${line}\n  ${entry.content.replace(/\n+/g, " ")}`
+    : line;
+}
+
+/**
+ * Current in-world time plus the latest entries up to it, for the play
+ * prompt; returns "" when the world has neither a clock nor entries.
+ */
+export function formatWorldTimeContext(
+  calendar: WorldCalendar,
+  timeline: WorldTimeline,
+  language?: UserLanguage | null,
+): string {
+  if (timeline.clock === null && timeline.entries.length === 0) {
+    return "";
+  }
+  const lines: string[] = [];
+  if (timeline.clock !== null) {
+    lines.push(
+      `${language === "en" ? "Now: " : "当前："}${formatWorldDate(calendar, timeline.clock, language)}`,
+    );
+  }
+  const recent = filterWorldTimeline(
+    timeline,
+    timeline.clock === null ? {} : { to: timeline.clock },
+  ).slice(-CONTEXT_ENTRIES);
+  if (recent.length > 0) {
+    lines.push(language === "en" ? "Recent events:" : "近期大事：");
+    for (const entry of recent) {
+      lines.push(
+        `- ${formatWorldTimelineEntry(calendar, entry, language, { withContent: true })}`,
+      );
+    }
+  }
+  return lines.join("\n");
+}